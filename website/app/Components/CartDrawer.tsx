@@ -11,10 +11,11 @@ import {
 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import useCart from "../store/CartStore";
+import useCart, { SUBSCRIPTION_CADENCE_LABELS } from "../store/CartStore";
 import { getCloudinaryUrl } from "@/app/utils/cloudinary";
-import { computeShippingPence } from "@/lib/shipping";
+import { computeShippingPence, type ShippingQuoteOption } from "@/lib/shipping";
 import { penceToPounds, formatPenceToGBP } from "@/lib/currency";
+import DiscountCodeField, { DiscountPreview } from "./DiscountCodeField";
 
 const COLORS = {
   primary: "#111827",
@@ -67,6 +68,10 @@ export default function CartDrawer() {
   const [thresholdPence, setThresholdPence] = useState<number>(3000); // default 30.00
   const [freeEnabled, setFreeEnabled] = useState<boolean>(true);
   const [settingsLoading, setSettingsLoading] = useState<boolean>(true);
+  const [discount, setDiscount] = useState<DiscountPreview | null>(null);
+  // With zone rates the price depends on weight and postcode, so ask the server for an estimate
+  const [zonesConfigured, setZonesConfigured] = useState<boolean>(false);
+  const [zoneQuote, setZoneQuote] = useState<ShippingQuoteOption | null>(null);
 
   useEffect(() => {
     let active = true;
@@ -80,6 +85,7 @@ export default function CartDrawer() {
         setDeliveryPence(Number(json.deliveryPricePence ?? 499));
         setThresholdPence(Number(json.freeDeliveryThresholdPence ?? 3000));
         setFreeEnabled(Boolean(json.freeDeliveryEnabled ?? true));
+        setZonesConfigured(Array.isArray(json.shippingZones) && json.shippingZones.length > 0);
       } catch (err) {
         console.error("Load settings failed", err);
       } finally {
@@ -92,6 +98,25 @@ export default function CartDrawer() {
     };
   }, []);
 
+  useEffect(() => {
+    if (!zonesConfigured || !isOpen || items.length === 0) return;
+    let active = true;
+    fetch("/api/shipping/quote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items }),
+    })
+      .then((res) => res.json())
+      .then((json) => {
+        // options come back cheapest first
+        if (active) setZoneQuote(json?.ok ? (json.data.options[0] ?? null) : null);
+      })
+      .catch((err) => console.error("Shipping estimate failed", err));
+    return () => {
+      active = false;
+    };
+  }, [zonesConfigured, isOpen, items]);
+
   function formatPrice(n: number) {
     return `£${n.toFixed(2)}`;
   }
@@ -104,18 +129,27 @@ export default function CartDrawer() {
   // Calculate totals only after mount to avoid hydration mismatch
   const totalPrice = mounted ? getTotalPrice() : 0; // in pounds
   const totalItems = mounted ? getTotalItems() : 0;
-  const coffeeItems = mounted ? getItemsByType("coffee") : [];
+  // Subscriptions are coffee variants too, so list them alongside one-off coffee
+  const coffeeItems = mounted
+    ? [...getItemsByType("coffee"), ...getItemsByType("subscription")]
+    : [];
   const equipmentItems = mounted ? getItemsByType("equipment") : [];
 
   // Shipping calculation uses pence internally
   const subtotalPence = Math.round(totalPrice * 100);
-  const shippingPence = computeShippingPence(subtotalPence, {
-    deliveryPricePence: deliveryPence,
-    freeDeliveryThresholdPence: thresholdPence,
-    freeDeliveryEnabled: freeEnabled,
-  });
+  const discountPence = discount ? Math.min(discount.discountPence, subtotalPence) : 0;
+  const shippingPence = discount?.freeShipping
+    ? 0
+    : zonesConfigured
+      ? zoneQuote?.pricePence ?? 0
+      : computeShippingPence(subtotalPence, {
+          deliveryPricePence: deliveryPence,
+          freeDeliveryThresholdPence: thresholdPence,
+          freeDeliveryEnabled: freeEnabled,
+        });
+  const freeFromPence = zonesConfigured ? zoneQuote?.freeFromPence ?? null : freeEnabled ? thresholdPence : null;
   const shipping = penceToPounds(shippingPence);
-  const grandTotal = Math.round((totalPrice + shipping) * 100) / 100;
+  const grandTotal = Math.round((totalPrice - penceToPounds(discountPence) + shipping) * 100) / 100;
 
   const getImageSrc = (
     idOrUrl?: string,
@@ -320,6 +354,11 @@ export default function CartDrawer() {
                                     <span>• {item.roastType}</span>
                                   )}
                                 </div>
+                                {item.cadence && (
+                                  <div className="mt-1 inline-flex items-center gap-1 rounded bg-amber-50 px-1.5 py-0.5 text-[11px] font-semibold text-amber-800">
+                                    Subscription · {SUBSCRIPTION_CADENCE_LABELS[item.cadence]}
+                                  </div>
+                                )}
                               </div>
                               <div className="text-sm font-semibold whitespace-nowrap">
                                 {formatPrice(item.price * item.quantity)}
@@ -485,13 +524,29 @@ export default function CartDrawer() {
           {/* Footer / Checkout */}
           {items.length > 0 && (
             <div className="border-t border-gray-100 p-5 bg-gradient-to-t from-white/60">
+              <div className="mb-4">
+                <DiscountCodeField onPreview={setDiscount} />
+              </div>
               <div className="space-y-2 mb-4">
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-gray-600">Subtotal</span>
                   <span className="font-medium">{formatPrice(totalPrice)}</span>
                 </div>
+                {discountPence > 0 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-green-700">Discount ({discount?.code})</span>
+                    <span className="font-medium text-green-700">
+                      -{formatPenceToGBP(discountPence)}
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-gray-600">Shipping</span>
+                  <span className="text-gray-600">
+                    Shipping
+                    {zonesConfigured && (
+                      <span className="block text-xs text-gray-400">Estimate — confirmed for your postcode at checkout</span>
+                    )}
+                  </span>
                   <span className="font-medium">
                     {shippingPence === 0 ? (
                       <span className="text-green-600">FREE</span>
@@ -500,9 +555,9 @@ export default function CartDrawer() {
                     )}
                   </span>
                 </div>
-                {freeEnabled && subtotalPence < thresholdPence && (
+                {freeFromPence !== null && !discount?.freeShipping && subtotalPence < freeFromPence && (
                   <div className="text-xs text-amber-700 bg-amber-50 px-2 py-1 rounded">
-                    Add {formatPenceToGBP(thresholdPence - subtotalPence)} more
+                    Add {formatPenceToGBP(freeFromPence - subtotalPence)} more
                     for free shipping
                   </div>
                 )}
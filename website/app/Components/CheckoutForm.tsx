@@ -9,6 +9,7 @@ import {
 } from '@stripe/react-stripe-js';
 import type { PaymentRequest, ConfirmCardPaymentOptions } from '@stripe/stripe-js';
 import useCart from '@/app/store/CartStore';
+import type { ShippingQuoteOption, ShippingService } from '@/lib/shipping';
 import { useRouter } from 'next/navigation';
 import { User, Mail, Phone, MapPin, Lock } from 'lucide-react';
 
@@ -26,6 +27,19 @@ type Props = {
   paymentIntentId?: string | null;
   // added so CheckoutPage can pass shippingPence without changing the checkout page
   shippingPence?: number;
+  // delivery service picked on the checkout page; save-shipping prices it for the address
+  shippingService?: ShippingService;
+  // a discount code waives delivery, so wallet shipping options are shown as free
+  freeShipping?: boolean;
+  onDestinationChange?: (destination: { postcode: string; country: string }) => void;
+  // the applied gift card pays for everything: no card details, the order completes via /api/gift-cards/checkout
+  giftCardCoversTotal?: boolean;
+};
+
+// What save-shipping reports back after re-pricing for the address
+type SaveShippingResult = {
+  amountDue?: number;
+  giftCardCoversTotal?: boolean;
 };
 
 type ShippingOption = {
@@ -48,6 +62,11 @@ type ShippingAddress = {
   [key: string]: unknown;
 };
 
+type ShippingOptionChangeEvent = {
+  shippingOption: ShippingOption;
+  updateWith: (options: { status: 'success' | 'failure'; total?: { label: string; amount: number } }) => void;
+};
+
 type ShippingAddressChangeEvent = {
   shippingAddress?: ShippingAddress | null;
   updateWith: (options: {
@@ -80,6 +99,7 @@ type PaymentMethodEvent = {
   payerEmail?: string | null;
   payerPhone?: string | null;
   shippingAddress?: ShippingAddress | null;
+  shippingOption?: ShippingOption | null;
   complete: (result: 'success' | 'fail' | 'unknown') => void;
 };
 
@@ -142,16 +162,32 @@ type Client = {
   address?: ClientAddress | null;
 };
 
+// Signed-in customer (GET /api/account)
+type AccountAddress = ClientAddress & { label?: string };
+type AccountProfile = {
+  name: string;
+  email: string;
+  phone: string;
+  address: AccountAddress | null;
+  savedAddresses: AccountAddress[];
+  isSubscribed: boolean;
+};
+
 export default function CheckoutFormWithAutofill({
   total,
   clientSecret,
   paymentIntentId: paymentIntentIdProp,
   shippingPence,
+  shippingService,
+  freeShipping,
+  onDestinationChange,
+  giftCardCoversTotal = false,
 }: Props): React.JSX.Element {
   const stripe = useStripe();
   const elements = useElements();
   const router = useRouter();
   const clearCart = useCart((s) => s.clearCart);
+  const cartItems = useCart((s) => s.items);
 
   // shipping / client fields
   const [email, setEmail] = useState<string>('');
@@ -173,6 +209,7 @@ export default function CheckoutFormWithAutofill({
   const [billingCountry, setBillingCountry] = useState<string>('GB');
 
   const [billingSame, setBillingSame] = useState<boolean>(true);
+  const [marketingOptIn, setMarketingOptIn] = useState<boolean>(false);
 
   // per-field errors
   type FieldKey =
@@ -222,16 +259,24 @@ export default function CheckoutFormWithAutofill({
   const [lookupError, setLookupError] = useState<string | null>(null);
   const [foundClient, setFoundClient] = useState<Client | null>(null);
   const [showAutofillPreview, setShowAutofillPreview] = useState<boolean>(false);
+  const [lookupChallengeId, setLookupChallengeId] = useState<string | null>(null);
+  const [lookupCode, setLookupCode] = useState<string>('');
+  const [autofillHandled, setAutofillHandled] = useState<boolean>(false);
+
+  // signed-in customer account; replaces the lookup above when present
+  const [account, setAccount] = useState<AccountProfile | null>(null);
 
   // Track if user has already dismissed or applied autofill
   const hasHandledAutofillRef = useRef<boolean>(false);
 
   // used to cancel inflight lookup requests
   const lookupAbortRef = useRef<AbortController | null>(null);
-  const lookupDebounceRef = useRef<Timer | null>(null);
 
   const amountPence = useMemo(() => Math.round(total * 100), [total]);
 
+  // Service chosen inside the Apple Pay / Google Pay sheet (it has its own shipping picker)
+  const walletServiceRef = useRef<ShippingService | undefined>(undefined);
+
   /* ---------------------------
      Helpers
   ----------------------------*/
@@ -274,6 +319,13 @@ export default function CheckoutFormWithAutofill({
     return re.test(normalized);
   };
 
+  // Let the checkout page re-quote delivery once we have a usable postcode
+  const destinationPostcode = isValidUkPostcode(postcode) ? normalizeUkPostcode(postcode) : '';
+  useEffect(() => {
+    if (!onDestinationChange || !destinationPostcode) return;
+    onDestinationChange({ postcode: destinationPostcode, country });
+  }, [destinationPostcode, country, onDestinationChange]);
+
   const isProbablyUkPostcode = (value: string): boolean => {
     if (!value) return false;
     const normalized = value.trim().toUpperCase();
@@ -654,119 +706,94 @@ export default function CheckoutFormWithAutofill({
   );
 
   /* ---------------------------
-     Automatic client lookup (debounced + onBlur)
+     Returning customer lookup: we email a one-time code and only get the saved
+     details back once it's entered
   ----------------------------*/
   const normalizeEmail = (e?: string | null) => (e ? String(e).trim().toLowerCase() : '');
+  const emailLooksValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizeEmail(email));
 
-  const performLookup = useCallback(
-    async (opts: { email?: string | null; phone?: string | null }) => {
-      if (hasHandledAutofillRef.current) {
-        return;
-      }
-
-      lookupAbortRef.current?.abort();
-      lookupAbortRef.current = new AbortController();
-      setLookupError(null);
-      setLookupLoading(true);
-      setFoundClient(null);
-      setShowAutofillPreview(false);
-
-      try {
-        const res = await fetch('/api/clients/find', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ email: opts.email ?? undefined, phone: opts.phone ?? undefined }),
-          signal: lookupAbortRef.current.signal,
-        });
-
-        if (res.status === 404) {
-          setLookupError(null);
-          setLookupLoading(false);
-          setFoundClient(null);
-          setShowAutofillPreview(false);
-          return;
-        }
+  // A code is for one email address; changing the email starts over
+  useEffect(() => {
+    lookupAbortRef.current?.abort();
+    setLookupChallengeId(null);
+    setLookupCode('');
+    setLookupError(null);
+  }, [email]);
 
-        if (!res.ok) {
-          const json = await res.json().catch(() => ({} as Record<string, unknown>));
-          const message = (json && ((json as Record<string, unknown>)['error'] || (json as Record<string, unknown>)['message'])) || 'Lookup failed';
-          setLookupError(String(message));
-          setLookupLoading(false);
-          return;
-        }
+  const requestLookupCode = useCallback(async () => {
+    if (hasHandledAutofillRef.current) return;
 
-        const data = (await res.json().catch(() => ({} as Record<string, unknown>))) as {
-          found?: boolean;
-          client?: Client;
-        };
+    lookupAbortRef.current?.abort();
+    lookupAbortRef.current = new AbortController();
+    setLookupError(null);
+    setLookupLoading(true);
 
-        if (data && data.found && data.client) {
-          setFoundClient(data.client);
-          setShowAutofillPreview(true);
-          setLookupError(null);
-        } else {
-          setFoundClient(null);
-          setShowAutofillPreview(false);
-        }
-      } catch (err) {
-        if ((err as { name?: string }).name === 'AbortError') {
-          // ignored
-        } else {
-          console.error('client lookup error', err);
-          setLookupError('Network error while looking up profile.');
-        }
-      } finally {
-        setLookupLoading(false);
+    try {
+      const res = await fetch('/api/clients/find', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: normalizeEmail(email) }),
+        signal: lookupAbortRef.current.signal,
+      });
+      const json = (await res.json().catch(() => ({}))) as {
+        ok?: boolean;
+        error?: string;
+        data?: { challengeId?: string };
+      };
+      if (!res.ok || !json.ok || !json.data?.challengeId) {
+        setLookupError(json.error || 'We could not send a code just now.');
+        return;
       }
-    },
-    []
-  );
-
-  // Debounced effect: trigger lookup when email or phone changes and looks valid
-  useEffect(() => {
-    if (lookupDebounceRef.current) {
-      clearTimeout(lookupDebounceRef.current);
-      lookupDebounceRef.current = null;
-    }
-
-    if (hasHandledAutofillRef.current) {
-      return;
+      setLookupChallengeId(json.data.challengeId);
+    } catch (err) {
+      if ((err as { name?: string }).name !== 'AbortError') {
+        console.error('client lookup error', err);
+        setLookupError('Network error while sending your code.');
+      }
+    } finally {
+      setLookupLoading(false);
     }
+  }, [email]);
 
-    const emailNorm = normalizeEmail(email) || '';
-    const phoneDigits = normalizePhoneDigits(phone) || '';
-
-    const looksLikeEmail = !!emailNorm && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailNorm);
-    const looksLikePhone = phoneDigits.length >= 7;
+  const verifyLookupCode = useCallback(async () => {
+    if (!lookupChallengeId) return;
 
-    if (!looksLikeEmail && !looksLikePhone) {
-      setFoundClient(null);
-      setShowAutofillPreview(false);
-      setLookupError(null);
-      return;
-    }
-
-    lookupDebounceRef.current = setTimeout(() => {
-      void performLookup({ email: looksLikeEmail ? emailNorm : undefined, phone: looksLikePhone ? phoneDigits : undefined });
-    }, DEBOUNCE_MS);
+    lookupAbortRef.current?.abort();
+    lookupAbortRef.current = new AbortController();
+    setLookupError(null);
+    setLookupLoading(true);
 
-    return () => {
-      if (lookupDebounceRef.current) {
-        clearTimeout(lookupDebounceRef.current);
-        lookupDebounceRef.current = null;
+    try {
+      const res = await fetch('/api/clients/find/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeId: lookupChallengeId, code: lookupCode.trim() }),
+        signal: lookupAbortRef.current.signal,
+      });
+      const json = (await res.json().catch(() => ({}))) as {
+        ok?: boolean;
+        error?: string;
+        data?: { client?: Client };
+      };
+      if (!res.ok || !json.ok || !json.data?.client) {
+        setLookupError(json.error || 'That code did not work.');
+        // expired or used up: they'll need a new code
+        if (res.status === 410 || res.status === 429) setLookupChallengeId(null);
+        return;
       }
-    };
-  }, [email, phone, performLookup]);
-
-  const handleEmailBlur = () => {
-    if (hasHandledAutofillRef.current) return;
-    const emailNorm = normalizeEmail(email);
-    const phoneDigits = normalizePhoneDigits(phone);
-    const looksLikeEmail = !!emailNorm && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailNorm);
-    const looksLikePhone = phoneDigits.length >= 7;
-    if (!looksLikeEmail && !looksLikePhone) return;
-    void performLookup({ email: looksLikeEmail ? emailNorm : undefined, phone: looksLikePhone ? phoneDigits : undefined });
-  };
+      setFoundClient(json.data.client);
+      setShowAutofillPreview(true);
+      setLookupChallengeId(null);
+      setLookupCode('');
+    } catch (err) {
+      if ((err as { name?: string }).name !== 'AbortError') {
+        console.error('client lookup verify error', err);
+        setLookupError('Network error while checking your code.');
+      }
+    } finally {
+      setLookupLoading(false);
+    }
+  }, [lookupChallengeId, lookupCode]);
 
   const handlePhoneBlur = () => {
     const digits = normalizePhoneDigits(phone);
@@ -775,13 +802,6 @@ export default function CheckoutFormWithAutofill({
     } else {
       setFieldErrors((prev) => ({ ...prev, phone: null }));
     }
-
-    if (hasHandledAutofillRef.current) return;
-    const emailNorm = normalizeEmail(email);
-    const looksLikeEmail = !!emailNorm && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailNorm);
-    const looksLikePhone = digits.length >= 7;
-    if (!looksLikeEmail && !looksLikePhone) return;
-    void performLookup({ email: looksLikeEmail ? emailNorm : undefined, phone: looksLikePhone ? digits : undefined });
   };
 
   // Apply found client: ensure we cancel inflight lookups and prevent the preview from reappearing.
@@ -791,10 +811,7 @@ export default function CheckoutFormWithAutofill({
     hasHandledAutofillRef.current = true;
 
     lookupAbortRef.current?.abort();
-    if (lookupDebounceRef.current) {
-      clearTimeout(lookupDebounceRef.current);
-      lookupDebounceRef.current = null;
-    }
+    setAutofillHandled(true);
 
     const name = foundClient.name ?? '';
     const [f, ...rest] = (name || '').split(/\s+/);
@@ -850,15 +867,56 @@ export default function CheckoutFormWithAutofill({
   const discardFoundClient = useCallback(() => {
     hasHandledAutofillRef.current = true;
     lookupAbortRef.current?.abort();
-    if (lookupDebounceRef.current) {
-      clearTimeout(lookupDebounceRef.current);
-      lookupDebounceRef.current = null;
-    }
+    setAutofillHandled(true);
     setFoundClient(null);
     setShowAutofillPreview(false);
     setLookupError(null);
   }, []);
 
+  /* ---------------------------
+     Prefill from the signed-in customer account
+  ----------------------------*/
+  const fillFromAccountAddress = useCallback((addr: AccountAddress) => {
+    setFirstName((prev) => addr.firstName || prev);
+    setLastName((prev) => addr.lastName || prev);
+    setUnit(addr.unit ?? '');
+    setAddress(addr.line1 ?? '');
+    setCity(addr.city ?? '');
+    setPostcode(String(addr.postcode ?? '').trim().toUpperCase());
+    setCountry(addr.country || 'GB');
+    setFieldErrors((prev) => ({ ...prev, firstName: null, lastName: null, address: null, city: null, postcode: null }));
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    fetch('/api/account', { credentials: 'same-origin' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => {
+        if (!active || !json?.ok || !json.data) return;
+        const profile = json.data as AccountProfile;
+        // Signed in: no need for the public lookup by email/phone
+        hasHandledAutofillRef.current = true;
+        lookupAbortRef.current?.abort();
+        setFoundClient(null);
+        setShowAutofillPreview(false);
+        setAccount(profile);
+
+        const [f, ...rest] = profile.name.split(/\s+/);
+        setFirstName((prev) => prev || f || '');
+        setLastName((prev) => prev || rest.join(' ') || '');
+        setEmail((prev) => prev || profile.email);
+        setPhone((prev) => prev || profile.phone);
+        setMarketingOptIn(profile.isSubscribed);
+        if (profile.address) fillFromAccountAddress(profile.address);
+      })
+      .catch(() => {
+        // signed out or offline — the form works as a guest checkout
+      });
+    return () => {
+      active = false;
+    };
+  }, [fillFromAccountAddress]);
+
   /* ---------------------------
      Centralized result handling for Stripe confirm responses
   ----------------------------*/
@@ -917,7 +975,8 @@ export default function CheckoutFormWithAutofill({
       paymentIntentId?: string | null;
       shippingAddress: Record<string, unknown> | null;
       billingAddress?: Record<string, unknown> | null;
-      client: { name?: string | null; email?: string | null; phone?: string | null } | null;
+      client: { name?: string | null; email?: string | null; phone?: string | null; marketingOptIn?: boolean } | null;
+      shippingService?: ShippingService;
     }) => {
       try {
         const res = await fetch('/api/save-shipping', {
@@ -928,6 +987,7 @@ export default function CheckoutFormWithAutofill({
             shippingAddress: opts.shippingAddress,
             billingAddress: opts.billingAddress ?? undefined,
             client: opts.client,
+            shippingService: opts.shippingService,
           }),
         });
         if (!res.ok) {
@@ -935,7 +995,7 @@ export default function CheckoutFormWithAutofill({
           const msg = (body as { message?: string })?.message ?? `Failed to save shipping (status ${res.status})`;
           throw new Error(msg);
         }
-        return true;
+        return (await res.json().catch(() => ({}))) as SaveShippingResult;
       } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
         console.error('saveShipping error:', msg);
@@ -987,16 +1047,54 @@ export default function CheckoutFormWithAutofill({
   useEffect(() => {
     if (!paymentRequest || !stripe) return;
 
-    const onShippingAddressChange = (ev: unknown) => {
+    // The wallet sheet has its own delivery picker, so quote for the address it gives us
+    const goodsPence = amountPence - (shippingPence ?? 0);
+    const walletAmount = (o: ShippingQuoteOption) => (freeShipping ? 0 : o.pricePence);
+
+    const onShippingAddressChange = async (ev: unknown) => {
       const event = ev as ShippingAddressChangeEvent;
-      const shippingOptions: ShippingOption[] = [
-        { id: 'standard', label: 'Standard (3-5 days)', detail: 'Free over £30', amount: 0 },
-      ];
+      try {
+        const res = await fetch('/api/shipping/quote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            items: cartItems,
+            postcode: event.shippingAddress?.postalCode ?? '',
+            country: event.shippingAddress?.country ?? event.shippingAddress?.countryCode ?? 'GB',
+          }),
+        });
+        const json = await res.json().catch(() => null);
+        const options: ShippingQuoteOption[] = res.ok && json?.ok ? json.data.options : [];
+        if (options.length === 0) {
+          event.updateWith({ status: 'invalid_shipping_address' });
+          return;
+        }
+        // the first option is pre-selected in the sheet, so lead with the one picked on the page
+        const preferred = options.find((o) => o.service === shippingService) ?? options[0];
+        walletServiceRef.current = preferred.service;
+        const shippingOptions: ShippingOption[] = [preferred, ...options.filter((o) => o !== preferred)].map((o) => ({
+          id: o.service,
+          label: o.label,
+          detail: o.zone,
+          amount: walletAmount(o),
+        }));
+        event.updateWith({
+          status: 'success',
+          shippingOptions,
+          total: { label: 'Order total', amount: goodsPence + walletAmount(preferred) },
+          displayItems: [],
+        });
+      } catch {
+        event.updateWith({ status: 'failure' });
+      }
+    };
+
+    const onShippingOptionChange = (ev: unknown) => {
+      const event = ev as ShippingOptionChangeEvent;
+      walletServiceRef.current = event.shippingOption.id as ShippingService;
       event.updateWith({
         status: 'success',
-        shippingOptions,
-        total: { label: 'Order total', amount: amountPence },
-        displayItems: [],
+        total: { label: 'Order total', amount: goodsPence + event.shippingOption.amount },
       });
     };
 
@@ -1086,7 +1184,13 @@ export default function CheckoutFormWithAutofill({
       }
 
       try {
-        await saveShipping({ paymentIntentId, shippingAddress: shippingPayload, billingAddress: billingPayload, client: payer });
+        await saveShipping({
+          paymentIntentId,
+          shippingAddress: shippingPayload,
+          billingAddress: billingPayload,
+          client: payer,
+          shippingService: (event.shippingOption?.id as ShippingService | undefined) ?? walletServiceRef.current,
+        });
       } catch (e) {
         const message = e instanceof Error ? e.message : String(e);
         try {
@@ -1176,6 +1280,7 @@ export default function CheckoutFormWithAutofill({
     // attach listeners using the PaymentRequest API as provided by Stripe (guarded)
     try {
       paymentRequest.on('shippingaddresschange', (ev: unknown) => onShippingAddressChange(ev));
+      paymentRequest.on('shippingoptionchange', (ev: unknown) => onShippingOptionChange(ev));
       paymentRequest.on('paymentmethod', (ev: unknown) => onPaymentMethod(ev));
     } catch {
       // some runtimes may not support .on - swallow safely
@@ -1185,6 +1290,7 @@ export default function CheckoutFormWithAutofill({
       try {
         const prWithOff = paymentRequest as unknown as { off?: (evName: string, fn: (e: unknown) => void) => void };
         prWithOff.off?.('shippingaddresschange', (ev: unknown) => onShippingAddressChange(ev));
+        prWithOff.off?.('shippingoptionchange', (ev: unknown) => onShippingOptionChange(ev));
         prWithOff.off?.('paymentmethod', (ev: unknown) => onPaymentMethod(ev));
       } catch {}
     };
@@ -1193,6 +1299,10 @@ export default function CheckoutFormWithAutofill({
     stripe,
     clientSecret,
     amountPence,
+    shippingPence,
+    shippingService,
+    freeShipping,
+    cartItems,
     firstName,
     lastName,
     email,
@@ -1261,7 +1371,7 @@ export default function CheckoutFormWithAutofill({
     }
 
     const cardElement = elements.getElement(CardElement);
-    if (!cardElement) {
+    if (!cardElement && !giftCardCoversTotal) {
       setError('Card element not found.');
       return;
     }
@@ -1280,7 +1390,7 @@ export default function CheckoutFormWithAutofill({
         postcode: normalizeUkPostcode(postcode),
         country,
       };
-      const clientPayload = { name: `${firstName} ${lastName}`.trim(), email, phone };
+      const clientPayload = { name: `${firstName} ${lastName}`.trim(), email, phone, marketingOptIn };
 
       const billingPayload = billingSame
         ? {
@@ -1304,8 +1414,15 @@ export default function CheckoutFormWithAutofill({
             sameAsShipping: false,
           };
 
+      let saved: SaveShippingResult;
       try {
-        await saveShipping({ paymentIntentId, shippingAddress: shippingPayload, billingAddress: billingPayload, client: clientPayload });
+        saved = await saveShipping({
+          paymentIntentId,
+          shippingAddress: shippingPayload,
+          billingAddress: billingPayload,
+          client: clientPayload,
+          shippingService,
+        });
       } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
         setError(msg || 'Failed to save shipping details.  Please try again.');
@@ -1313,6 +1430,34 @@ export default function CheckoutFormWithAutofill({
         return;
       }
 
+      // Delivery to this address may have moved the total across what the gift card covers
+      if (typeof saved.giftCardCoversTotal === 'boolean' && saved.giftCardCoversTotal !== giftCardCoversTotal) {
+        setError(
+          saved.giftCardCoversTotal
+            ? 'Your gift card now covers the whole order. Please reload the page to complete it with your gift card.'
+            : `Delivery to this address leaves £${(saved.amountDue ?? 0).toFixed(2)} to pay. Please reload the page to pay the rest by card.`
+        );
+        setProcessing(false);
+        return;
+      }
+
+      if (giftCardCoversTotal) {
+        const res = await fetch('/api/gift-cards/checkout', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ paymentIntentId }),
+        });
+        const json = await res.json().catch(() => null);
+        if (!res.ok || !json?.ok) {
+          setError(json?.error || 'We could not complete your order. Please try again.');
+          setProcessing(false);
+          return;
+        }
+        clearCart();
+        router.push('/checkout/success');
+        return;
+      }
+
       const billingDetails = billingSame
         ? {
             name: `${firstName} ${lastName}`.trim(),
@@ -1397,7 +1542,7 @@ export default function CheckoutFormWithAutofill({
   ----------------------------*/
   return (
     <form onSubmit={handleSubmit} method="POST" autoComplete="on" noValidate className="space-y-4 sm:space-y-6">
-      {canUsePaymentRequest && paymentRequest && (
+      {canUsePaymentRequest && paymentRequest && !giftCardCoversTotal && (
         <div className="mb-2">
           <PaymentRequestButtonElement
             options={{
@@ -1478,7 +1623,6 @@ export default function CheckoutFormWithAutofill({
                   setEmail(e.target.value);
                   setFieldErrors((prev) => ({ ...prev, email: null }));
                 }}
-                onBlur={handleEmailBlur}
                 required
                 className={`${inputBaseClass} pl-8 sm:pl-10 pr-3 sm:pr-4 ${fieldErrors.email ? errorBorder : normalBorder}`}
                 placeholder="you@example.com"
@@ -1515,8 +1659,83 @@ export default function CheckoutFormWithAutofill({
             )}
           </div>
 
+          {!account && !autofillHandled && !showAutofillPreview && emailLooksValid && (
+            <div className="col-span-full mt-1 text-sm">
+              {lookupChallengeId ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-gray-600">Enter the 6-digit code we emailed you (if we have your details):</span>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    value={lookupCode}
+                    onChange={(e) => setLookupCode(e.target.value.replace(/\D/g, ''))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        void verifyLookupCode();
+                      }
+                    }}
+                    className="w-24 border rounded-md px-2 py-1 tracking-widest"
+                    aria-label="Checkout code"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => void verifyLookupCode()}
+                    disabled={lookupLoading || lookupCode.length !== 6}
+                    className="px-3 py-1 bg-black text-white rounded-md text-sm disabled:opacity-50"
+                  >
+                    Fill in my details
+                  </button>
+                </div>
+              ) : (
+                <span className="text-gray-600">
+                  Shopped with us before?{' '}
+                  <button
+                    type="button"
+                    onClick={() => void requestLookupCode()}
+                    disabled={lookupLoading}
+                    className="underline font-medium text-black disabled:opacity-50"
+                  >
+                    Email me a code
+                  </button>{' '}
+                  to fill in your saved address.
+                </span>
+              )}
+            </div>
+          )}
+
           {lookupError && <div className="text-sm text-yellow-700 col-span-full mt-1">{lookupError}</div>}
 
+          {account && (
+            <div className="col-span-full mt-2 p-3 bg-white border rounded-md text-sm">
+              <div>
+                Signed in as <span className="font-semibold">{account.email}</span> — we&apos;ve filled in your details.
+              </div>
+              {account.address && account.savedAddresses.length > 0 && (
+                <label className="block mt-2">
+                  <span className="text-xs text-gray-600">Deliver to a saved address</span>
+                  <select
+                    defaultValue="0"
+                    onChange={(e) => {
+                      const all = [account.address as AccountAddress, ...account.savedAddresses];
+                      const chosen = all[Number(e.target.value)];
+                      if (chosen) fillFromAccountAddress(chosen);
+                    }}
+                    className="mt-1 w-full border rounded-md px-2 py-1.5 bg-white"
+                  >
+                    {[account.address, ...account.savedAddresses].map((a, i) => (
+                      <option key={i} value={i}>
+                        {a.label || (i === 0 ? 'Default' : `Address ${i + 1}`)} — {a.line1}, {a.postcode}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+
           {/* Automatic preview banner */}
           {showAutofillPreview && foundClient && (
             <div className="col-span-full mt-2 p-3 bg-white border rounded-md flex items-start justify-between">
@@ -1704,6 +1923,18 @@ export default function CheckoutFormWithAutofill({
             </label>
             <div className="text-xs text-gray-500 mt-1">If unchecked, you&apos;ll be able to enter a different billing address. </div>
           </div>
+          <div className="pt-2">
+            <label className="inline-flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={marketingOptIn}
+                onChange={(e) => setMarketingOptIn(e.target.checked)}
+                className="h-4 w-4 text-black rounded border-gray-300 focus:ring-black"
+              />
+              <span>Email me news and offers, and a reminder if I don&apos;t finish my order</span>
+            </label>
+            <div className="text-xs text-gray-500 mt-1">You can unsubscribe at any time.</div>
+          </div>
         </div>
       </div>
 
@@ -1866,10 +2097,18 @@ export default function CheckoutFormWithAutofill({
           Payment Information
         </h2>
 
-        <label className="block text-base font-medium text-black mb-1 sm:mb-2">Card Details</label>
-        <div className="p-3 sm:p-4 border-2 border-gray-300 rounded-lg bg-white">
-          <CardElement options={cardStyle} />
-        </div>
+        {giftCardCoversTotal ? (
+          <div className="p-3 sm:p-4 border-2 border-green-200 rounded-lg bg-green-50 text-sm sm:text-base text-green-800">
+            Your gift card covers this order in full. No card payment is needed.
+          </div>
+        ) : (
+          <>
+            <label className="block text-base font-medium text-black mb-1 sm:mb-2">Card Details</label>
+            <div className="p-3 sm:p-4 border-2 border-gray-300 rounded-lg bg-white">
+              <CardElement options={cardStyle} />
+            </div>
+          </>
+        )}
         <p className="mt-2 text-sm text-gray-500 flex items-center">
           <Lock className="w-3 h-3 mr-1" />
           Your payment information is encrypted and secure
@@ -1895,7 +2134,7 @@ export default function CheckoutFormWithAutofill({
         ) : (
           <Lock className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
         )}
-        {processing ? 'Processing…' : `Complete Order • £${total.toFixed(2)}`}
+        {processing ? 'Processing…' : giftCardCoversTotal ? 'Complete Order with Gift Card' : `Complete Order • £${total.toFixed(2)}`}
       </button>
 
       <p className="text-center text-sm text-gray-500 px-4">
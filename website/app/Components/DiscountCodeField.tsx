@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Tag, X, Loader2 } from "lucide-react";
+import useCart from "../store/CartStore";
+
+export interface DiscountPreview {
+  code: string;
+  label: string;
+  discountPence: number;
+  freeShipping: boolean;
+}
+
+interface DiscountCodeFieldProps {
+  // Called with the previewed discount (or null) whenever the code or basket changes
+  onPreview?: (preview: DiscountPreview | null) => void;
+  // Error reported by the caller (e.g. the payment-intent endpoint rejected the code)
+  externalError?: string | null;
+}
+
+/**
+ * Discount code input shared by the cart drawer and checkout.
+ * The applied code lives in the cart store so it survives navigation;
+ * the preview here is indicative only, checkout recomputes it server-side.
+ */
+export default function DiscountCodeField({ onPreview, externalError }: DiscountCodeFieldProps) {
+  const items = useCart((s) => s.items);
+  const discountCode = useCart((s) => s.discountCode);
+  const setDiscountCode = useCart((s) => s.setDiscountCode);
+
+  const [input, setInput] = useState("");
+  const [preview, setPreview] = useState<DiscountPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    async function check(code: string) {
+      setChecking(true);
+      try {
+        const res = await fetch("/api/promotions/validate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ code, items }),
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!active) return;
+        if (res.ok && json.valid) {
+          const next: DiscountPreview = {
+            code: json.code,
+            label: json.label,
+            discountPence: Number(json.discountPence ?? 0),
+            freeShipping: Boolean(json.freeShipping),
+          };
+          setPreview(next);
+          setError(null);
+          onPreview?.(next);
+        } else {
+          setPreview(null);
+          setError(json.error || "This discount code is not valid");
+          setDiscountCode(null);
+          onPreview?.(null);
+        }
+      } catch (err) {
+        console.error("Discount code check failed", err);
+        if (active) setError("Unable to check discount code");
+      } finally {
+        if (active) setChecking(false);
+      }
+    }
+
+    if (!discountCode || items.length === 0) {
+      setPreview(null);
+      onPreview?.(null);
+      return;
+    }
+    check(discountCode);
+
+    return () => {
+      active = false;
+    };
+    // onPreview is intentionally excluded so inline callbacks don't retrigger the check
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [discountCode, items, setDiscountCode]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = input.trim();
+    if (!code) return;
+    setError(null);
+    setDiscountCode(code);
+    setInput("");
+  };
+
+  const handleRemove = () => {
+    setDiscountCode(null);
+    setError(null);
+  };
+
+  const shownError = externalError || error;
+
+  if (discountCode) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm">
+        <span className="inline-flex items-center gap-2 text-green-800">
+          {checking ? <Loader2 size={14} className="animate-spin" /> : <Tag size={14} />}
+          <span className="font-semibold">{discountCode}</span>
+          {preview && <span className="text-green-700">— {preview.label}</span>}
+        </span>
+        <button
+          type="button"
+          onClick={handleRemove}
+          className="p-1 rounded hover:bg-green-100 text-green-800"
+          aria-label="Remove discount code"
+          title="Remove discount code"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Discount code"
+          className="flex-1 min-w-0 rounded-lg border border-gray-200 px-3 py-2 text-sm uppercase focus:outline-none focus:ring-2 focus:ring-gray-900"
+          aria-label="Discount code"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim()}
+          className="px-4 py-2 rounded-lg border border-gray-900 text-sm font-semibold hover:bg-gray-900 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Apply
+        </button>
+      </div>
+      {shownError && <p className="text-xs text-red-600">{shownError}</p>}
+    </form>
+  );
+}
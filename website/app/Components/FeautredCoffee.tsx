@@ -900,7 +900,7 @@ export default function BestSellerSlider() {
     const fetchBestSellers = async () => {
       try {
         setLoading(true);
-        const response = await fetch("/api/coffee?bestSeller=true&limit=10");
+        const response = await fetch("/api/coffee?bestSeller=true&limit=10&stock=available");
         if (!response.ok) throw new Error("Failed to fetch best sellers");
         const data = await response.json();
 
@@ -44,6 +44,7 @@ export default function Footer() {
     { href: "/coffee", label: "Coffee" },
     { href: "/equipment", label: "Equipment" },
     { href: "/classes", label: "Classes" },
+    { href: "/gift-cards", label: "Gift Cards" },
     { href: "/wholesale", label: "Wholesale" },
     { href: "/about", label: "About" },
     { href: "/contact", label: "Contact" },
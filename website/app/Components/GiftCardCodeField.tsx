@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Gift, X, Loader2 } from "lucide-react";
+import useCart from "../store/CartStore";
+
+interface GiftCardCodeFieldProps {
+  // Amount the server took off this order (set once the payment intent is created)
+  appliedPence?: number | null;
+  // Error reported by the caller (e.g. the payment-intent endpoint rejected the card)
+  externalError?: string | null;
+}
+
+/**
+ * Gift card / store credit code input for checkout.
+ * Like the discount code, the applied code lives in the cart store; the balance
+ * shown here comes from /api/gift-cards/check and the split is done server-side.
+ */
+export default function GiftCardCodeField({ appliedPence, externalError }: GiftCardCodeFieldProps) {
+  const giftCardCode = useCart((s) => s.giftCardCode);
+  const setGiftCardCode = useCart((s) => s.setGiftCardCode);
+
+  const [input, setInput] = useState("");
+  const [balancePence, setBalancePence] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    async function check(code: string) {
+      setChecking(true);
+      try {
+        const res = await fetch("/api/gift-cards/check", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ code }),
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!active) return;
+        if (res.ok && json.ok) {
+          setBalancePence(Number(json.data?.balancePence ?? 0));
+          setError(null);
+        } else {
+          setBalancePence(null);
+          setError(json.error || "This gift card code is not valid");
+          setGiftCardCode(null);
+        }
+      } catch (err) {
+        console.error("Gift card check failed", err);
+        if (active) setError("Unable to check gift card");
+      } finally {
+        if (active) setChecking(false);
+      }
+    }
+
+    if (!giftCardCode) {
+      setBalancePence(null);
+      return;
+    }
+    check(giftCardCode);
+
+    return () => {
+      active = false;
+    };
+  }, [giftCardCode, setGiftCardCode]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = input.trim();
+    if (!code) return;
+    setError(null);
+    setGiftCardCode(code);
+    setInput("");
+  };
+
+  const handleRemove = () => {
+    setGiftCardCode(null);
+    setError(null);
+  };
+
+  const shownError = externalError || error;
+
+  if (giftCardCode) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm">
+        <span className="inline-flex items-center gap-2 text-green-800">
+          {checking ? <Loader2 size={14} className="animate-spin" /> : <Gift size={14} />}
+          <span className="font-semibold">{giftCardCode}</span>
+          {typeof appliedPence === "number" && appliedPence > 0 ? (
+            <span className="text-green-700">— £{(appliedPence / 100).toFixed(2)} applied</span>
+          ) : balancePence !== null ? (
+            <span className="text-green-700">— £{(balancePence / 100).toFixed(2)} balance</span>
+          ) : null}
+        </span>
+        <button
+          type="button"
+          onClick={handleRemove}
+          className="p-1 rounded hover:bg-green-100 text-green-800"
+          aria-label="Remove gift card"
+          title="Remove gift card"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Gift card or store credit code"
+          className="flex-1 min-w-0 rounded-lg border border-gray-200 px-3 py-2 text-sm uppercase focus:outline-none focus:ring-2 focus:ring-gray-900"
+          aria-label="Gift card code"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim()}
+          className="px-4 py-2 rounded-lg border border-gray-900 text-sm font-semibold hover:bg-gray-900 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Apply
+        </button>
+      </div>
+      {shownError && <p className="text-xs text-red-600">{shownError}</p>}
+    </form>
+  );
+}
@@ -12,6 +12,7 @@ import {
   Mail,
   Search,
   Home,
+  User,
   X,
 } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
@@ -681,6 +682,10 @@ export default function Navbar() {
                   <Search size={20} style={{ color: COLORS.black }} />
                 </button>
 
+                <Link href="/account" aria-label="Your account" className="relative flex items-center justify-center w-10 h-10">
+                  <User size={22} style={{ color: COLORS.black }} />
+                </Link>
+
                 <button type="button" onClick={() => openCart()} aria-label="Open cart" className="relative flex items-center justify-center w-10 h-10">
                   <ShoppingCart size={24} style={{ color: COLORS.black }} />
                   {mounted && totalCount > 0 && (
@@ -954,6 +959,18 @@ export default function Navbar() {
                   </Link>
                 );
               })}
+              <Link
+                href="/account"
+                onClick={() => setMobileOpen(false)}
+                aria-current={isLinkActive("/account", pathname) ? "page" : undefined}
+                className={`flex items-center gap-3 w-full text-left py-3 px-4 rounded-lg font-medium hover:bg-gray-100 transition-colors duration-150 ${
+                  isLinkActive("/account", pathname) ? "bg-gray-100 font-semibold" : ""
+                }`}
+                style={{ color: COLORS.primary }}
+              >
+                <User size={18} />
+                <span>Your account</span>
+              </Link>
             </div>
           </div>
         </div>
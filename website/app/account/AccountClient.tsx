@@ -0,0 +1,498 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  Calendar,
+  Download,
+  Loader2,
+  LogOut,
+  Mail,
+  MapPin,
+  Package,
+  Plus,
+  RotateCcw,
+  Star,
+  Trash2,
+  Truck,
+  User,
+} from "lucide-react";
+import type { AccountAddress, AccountBooking, AccountOrder, AccountProfile } from "@/lib/customerAccount";
+
+const MAX_SAVED_ADDRESSES = 5;
+
+const ORDER_STATUS_LABELS: Record<string, string> = {
+  paid: "Being prepared",
+  shipped: "Dispatched",
+  refunded: "Refunded",
+  disputed: "Payment disputed",
+};
+
+const EMPTY_ADDRESS: AccountAddress = {
+  label: "",
+  firstName: "",
+  lastName: "",
+  unit: "",
+  line1: "",
+  city: "",
+  postcode: "",
+  country: "GB",
+};
+
+function formatDate(value?: string | null, withTime = false) {
+  if (!value) return "—";
+  return new Date(value).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    ...(withTime ? { hour: "2-digit", minute: "2-digit" } : {}),
+  });
+}
+
+function addressLines(a: AccountAddress) {
+  return [
+    [a.firstName, a.lastName].filter(Boolean).join(" "),
+    a.unit,
+    a.line1,
+    [a.city, a.postcode].filter(Boolean).join(" "),
+  ].filter(Boolean) as string[];
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, { credentials: "same-origin" });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.ok) throw new Error(json.error || "Request failed");
+  return json.data as T;
+}
+
+export default function AccountClient({ email }: { email: string }) {
+  const router = useRouter();
+  const [profile, setProfile] = useState<AccountProfile | null>(null);
+  const [orders, setOrders] = useState<AccountOrder[]>([]);
+  const [bookings, setBookings] = useState<AccountBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [newAddress, setNewAddress] = useState<AccountAddress | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        const [p, o, b] = await Promise.all([
+          getJson<AccountProfile>("/api/account"),
+          getJson<AccountOrder[]>("/api/account/orders"),
+          getJson<AccountBooking[]>("/api/account/bookings"),
+        ]);
+        if (!active) return;
+        setProfile(p);
+        setName(p.name);
+        setPhone(p.phone);
+        setOrders(o);
+        setBookings(b);
+      } catch (err) {
+        if (active) setError(err instanceof Error ? err.message : "Failed to load your account");
+      } finally {
+        if (active) setLoading(false);
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const saveProfile = useCallback(async (patch: Record<string, unknown>, key: string, successMessage: string) => {
+    setBusy(key);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/account", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify(patch),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Unable to save your changes");
+      setProfile(json.data as AccountProfile);
+      setNotice(successMessage);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save your changes");
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  const handleSignOut = async () => {
+    setBusy("logout");
+    await fetch("/api/account/logout", { method: "POST", credentials: "same-origin" }).catch(() => null);
+    router.replace("/account/login");
+    router.refresh();
+  };
+
+  const handleAddAddress = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !newAddress) return;
+    // The first address becomes the default used at checkout
+    const patch = profile.address
+      ? { savedAddresses: [...profile.savedAddresses, newAddress] }
+      : { address: newAddress };
+    if (await saveProfile(patch, "address", "Address saved.")) setNewAddress(null);
+  };
+
+  const makeDefault = (index: number) => {
+    if (!profile) return;
+    const chosen = profile.savedAddresses[index];
+    const rest = profile.savedAddresses.filter((_, i) => i !== index);
+    saveProfile(
+      { address: chosen, savedAddresses: profile.address ? [profile.address, ...rest] : rest },
+      "address",
+      "Default address updated."
+    );
+  };
+
+  const removeSaved = (index: number) => {
+    if (!profile) return;
+    saveProfile(
+      { savedAddresses: profile.savedAddresses.filter((_, i) => i !== index) },
+      "address",
+      "Address removed."
+    );
+  };
+
+  const removeDefault = () => {
+    if (!profile) return;
+    const [next, ...rest] = profile.savedAddresses;
+    saveProfile({ address: next ?? null, savedAddresses: rest }, "address", "Address removed.");
+  };
+
+  const inputClass = "mt-1 w-full border border-gray-300 rounded-lg px-3 py-2";
+
+  return (
+    <main className="bg-white text-gray-900 min-h-screen py-12 mt-24">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6">
+        <header className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              <User className="w-7 h-7" /> Your account
+            </h1>
+            <p className="text-sm text-gray-600 mt-1">{email}</p>
+          </div>
+          <button
+            onClick={handleSignOut}
+            disabled={busy === "logout"}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg border text-sm font-semibold disabled:opacity-50"
+          >
+            <LogOut size={14} /> Sign out
+          </button>
+        </header>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="animate-spin" size={18} /> Loading…
+          </div>
+        ) : !profile ? (
+          <div className="p-4 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>
+        ) : (
+          <div className="space-y-8">
+            {error && <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>}
+            {notice && <div className="p-3 rounded-lg bg-green-50 text-green-800 text-sm">{notice}</div>}
+
+            {/* Orders */}
+            <section>
+              <h2 className="text-xl font-semibold flex items-center gap-2 mb-3">
+                <Package size={20} /> Orders
+              </h2>
+              {orders.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No orders yet.{" "}
+                  <Link href="/coffee" className="underline">
+                    Browse our coffee
+                  </Link>
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {orders.map((o) => (
+                    <div key={o._id} className="border border-gray-200 rounded-xl p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="font-semibold">Order #{o.reference}</div>
+                          <div className="text-xs text-gray-500">{formatDate(o.paidAt ?? o.createdAt)}</div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-semibold">£{o.total.toFixed(2)}</div>
+                          <span
+                            className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-semibold ${
+                              o.status === "shipped"
+                                ? "bg-green-100 text-green-800"
+                                : o.status === "refunded"
+                                ? "bg-gray-100 text-gray-600"
+                                : "bg-amber-100 text-amber-800"
+                            }`}
+                          >
+                            {ORDER_STATUS_LABELS[o.status] ?? o.status}
+                          </span>
+                        </div>
+                      </div>
+                      <ul className="mt-3 text-sm text-gray-700 space-y-0.5">
+                        {o.items.map((it, i) => (
+                          <li key={i} className="flex justify-between gap-4">
+                            <span>
+                              {it.qty} × {it.name}
+                            </span>
+                            <span>£{Number(it.totalPrice).toFixed(2)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+                        {o.shipment?.trackingUrl ? (
+                          <a
+                            href={o.shipment.trackingUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1.5 underline"
+                          >
+                            <Truck size={14} /> Track parcel ({o.shipment.trackingCode})
+                          </a>
+                        ) : o.shipment ? (
+                          <span className="inline-flex items-center gap-1.5 text-gray-600">
+                            <Truck size={14} /> Dispatched {formatDate(o.shipment.shippedAt)}
+                          </span>
+                        ) : null}
+                        {o.hasInvoice && (
+                          <a
+                            href={`/api/account/orders/${o._id}/invoice`}
+                            className="inline-flex items-center gap-1.5 underline"
+                          >
+                            <Download size={14} /> Invoice (PDF)
+                          </a>
+                        )}
+                        {o.returnUrl && (
+                          <a href={o.returnUrl} className="inline-flex items-center gap-1.5 underline">
+                            <RotateCcw size={14} /> Return items
+                          </a>
+                        )}
+                      </div>
+                      {o.shipment?.trackingNote && (
+                        <p className="mt-1 text-xs text-gray-500">{o.shipment.trackingNote}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {/* Class bookings */}
+            <section>
+              <h2 className="text-xl font-semibold flex items-center gap-2 mb-3">
+                <Calendar size={20} /> Class bookings
+              </h2>
+              {bookings.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No class bookings.{" "}
+                  <Link href="/classes" className="underline">
+                    See upcoming classes
+                  </Link>
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {bookings.map((b) => (
+                    <div key={b._id} className="border border-gray-200 rounded-xl p-4 flex justify-between gap-4">
+                      <div>
+                        <div className="font-semibold">
+                          {b.course?.title ?? "Class"}
+                        </div>
+                        <div className="text-sm text-gray-600">{formatDate(b.sessionStart, true)}</div>
+                        {b.course?.location && <div className="text-xs text-gray-500">{b.course.location}</div>}
+                      </div>
+                      <div className="text-right text-sm">
+                        <div className="font-mono text-xs text-gray-500">{b.bookingRef}</div>
+                        <div>
+                          {b.attendees} {b.attendees === 1 ? "place" : "places"}
+                        </div>
+                        <div className={b.status === "cancelled" ? "text-gray-500" : "text-green-700"}>
+                          {b.status === "cancelled" ? "Cancelled" : b.status === "pending" ? "Pending" : "Confirmed"}
+                        </div>
+                        {b.manageUrl && (
+                          <a href={b.manageUrl} className="underline text-xs">
+                            Cancel or change
+                          </a>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {/* Details */}
+            <section className="border border-gray-200 rounded-xl p-5">
+              <h2 className="text-lg font-semibold mb-3">Your details</h2>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  saveProfile({ name, phone }, "details", "Your details have been saved.");
+                }}
+                className="grid grid-cols-1 sm:grid-cols-2 gap-4"
+              >
+                <label className="block text-sm">
+                  <span className="font-medium">Name</span>
+                  <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+                </label>
+                <label className="block text-sm">
+                  <span className="font-medium">Phone</span>
+                  <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClass} />
+                </label>
+                <div className="sm:col-span-2">
+                  <button
+                    type="submit"
+                    disabled={!!busy}
+                    className="px-4 py-2 rounded-lg bg-black text-white text-sm font-semibold disabled:opacity-50"
+                  >
+                    Save details
+                  </button>
+                </div>
+              </form>
+            </section>
+
+            {/* Addresses */}
+            <section className="border border-gray-200 rounded-xl p-5">
+              <h2 className="text-lg font-semibold flex items-center gap-2 mb-1">
+                <MapPin size={18} /> Addresses
+              </h2>
+              <p className="text-xs text-gray-500 mb-4">Your default address is filled in for you at checkout.</p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {profile.address && (
+                  <div className="border-2 border-black rounded-lg p-3 text-sm">
+                    <div className="font-semibold mb-1">{profile.address.label || "Default"} · default</div>
+                    {addressLines(profile.address).map((line) => (
+                      <div key={line}>{line}</div>
+                    ))}
+                    <button
+                      onClick={removeDefault}
+                      disabled={!!busy}
+                      className="mt-2 inline-flex items-center gap-1 text-xs text-red-700 disabled:opacity-50"
+                    >
+                      <Trash2 size={12} /> Remove
+                    </button>
+                  </div>
+                )}
+                {profile.savedAddresses.map((a, i) => (
+                  <div key={i} className="border border-gray-200 rounded-lg p-3 text-sm">
+                    {a.label && <div className="font-semibold mb-1">{a.label}</div>}
+                    {addressLines(a).map((line) => (
+                      <div key={line}>{line}</div>
+                    ))}
+                    <div className="mt-2 flex gap-3">
+                      <button
+                        onClick={() => makeDefault(i)}
+                        disabled={!!busy}
+                        className="inline-flex items-center gap-1 text-xs disabled:opacity-50"
+                      >
+                        <Star size={12} /> Make default
+                      </button>
+                      <button
+                        onClick={() => removeSaved(i)}
+                        disabled={!!busy}
+                        className="inline-flex items-center gap-1 text-xs text-red-700 disabled:opacity-50"
+                      >
+                        <Trash2 size={12} /> Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {newAddress ? (
+                <form onSubmit={handleAddAddress} className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {(
+                    [
+                      ["label", "Label (e.g. Home, Work)", false],
+                      ["firstName", "First name", false],
+                      ["lastName", "Last name", false],
+                      ["unit", "Apt, suite, unit", false],
+                      ["line1", "Address", true],
+                      ["city", "Town / city", true],
+                      ["postcode", "Postcode", true],
+                    ] as [keyof AccountAddress, string, boolean][]
+                  ).map(([field, label, required]) => (
+                    <label key={field} className={`block text-sm ${field === "line1" ? "sm:col-span-2" : ""}`}>
+                      <span className="font-medium">{label}</span>
+                      <input
+                        value={newAddress[field] ?? ""}
+                        required={required}
+                        onChange={(e) => setNewAddress((a) => (a ? { ...a, [field]: e.target.value } : a))}
+                        className={inputClass}
+                      />
+                    </label>
+                  ))}
+                  <div className="sm:col-span-2 flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={!!busy}
+                      className="px-4 py-2 rounded-lg bg-black text-white text-sm font-semibold disabled:opacity-50"
+                    >
+                      Save address
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setNewAddress(null)}
+                      className="px-4 py-2 rounded-lg border text-sm font-semibold"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                profile.savedAddresses.length < MAX_SAVED_ADDRESSES && (
+                  <button
+                    onClick={() => setNewAddress({ ...EMPTY_ADDRESS })}
+                    className="mt-4 inline-flex items-center gap-1.5 px-3 py-2 rounded-lg border text-sm font-semibold"
+                  >
+                    <Plus size={14} /> Add an address
+                  </button>
+                )
+              )}
+            </section>
+
+            {/* Marketing preferences */}
+            <section className="border border-gray-200 rounded-xl p-5">
+              <h2 className="text-lg font-semibold flex items-center gap-2 mb-3">
+                <Mail size={18} /> Email preferences
+              </h2>
+              <label className="flex items-start gap-3 text-sm">
+                <input
+                  type="checkbox"
+                  checked={profile.isSubscribed}
+                  disabled={busy === "marketing"}
+                  onChange={(e) =>
+                    saveProfile(
+                      { isSubscribed: e.target.checked },
+                      "marketing",
+                      e.target.checked ? "You're signed up to our emails." : "You won't get marketing emails from us."
+                    )
+                  }
+                  className="mt-0.5 h-4 w-4 rounded border-gray-300"
+                />
+                <span>
+                  Email me news, offers and new coffees
+                  <span className="block text-xs text-gray-500">
+                    Order, invoice and booking emails are always sent.
+                  </span>
+                </span>
+              </label>
+            </section>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
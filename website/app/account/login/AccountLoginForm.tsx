@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Mail, User } from "lucide-react";
+
+export default function AccountLoginForm({ next }: { next: string }) {
+  const [email, setEmail] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/account/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, next }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't send your sign-in link");
+      setSentTo(json.data?.email ?? email);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "We couldn't send your sign-in link");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <main className="bg-white text-gray-900 min-h-screen py-12 mt-24">
+      <div className="max-w-md mx-auto px-4 sm:px-6">
+        <h1 className="text-3xl font-bold flex items-center gap-3 mb-2">
+          <User className="w-7 h-7" /> Your account
+        </h1>
+        <p className="text-sm text-gray-600 mb-8">
+          See your orders, invoices and class bookings. We&apos;ll email you a link to sign in — no password needed.
+        </p>
+
+        {sentTo ? (
+          <div className="p-4 rounded-lg bg-green-50 text-green-800 text-sm space-y-2">
+            <p>
+              If <strong>{sentTo}</strong> can be used to sign in, a link is on its way. It works once and expires in
+              15 minutes.
+            </p>
+            <button type="button" onClick={() => setSentTo(null)} className="underline">
+              Use a different email
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>}
+            <label className="block text-sm">
+              <span className="font-medium">Email address</span>
+              <div className="relative mt-1">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+                <input
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg pl-9 pr-3 py-2"
+                  placeholder="you@example.com"
+                />
+              </div>
+              <span className="block text-xs text-gray-500 mt-1">Use the email you check out or book classes with.</span>
+            </label>
+            <button
+              type="submit"
+              disabled={sending}
+              className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-black text-white text-sm font-semibold disabled:opacity-50"
+            >
+              {sending && <Loader2 className="animate-spin" size={16} />} Email me a sign-in link
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
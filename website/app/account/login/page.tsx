@@ -0,0 +1,18 @@
+import React from "react";
+import { redirect } from "next/navigation";
+import { getCustomerSession, safeAccountPath } from "@/lib/customerAuth";
+import AccountLoginForm from "./AccountLoginForm";
+
+export const metadata = {
+  title: "Sign in | Coffee Genius",
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = { next?: string };
+
+export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const { next } = await searchParams;
+  const target = safeAccountPath(next);
+  if (await getCustomerSession()) redirect(target);
+  return <AccountLoginForm next={target} />;
+}
@@ -0,0 +1,13 @@
+import React from "react";
+import { requireCustomer } from "@/lib/customerAuth";
+import AccountClient from "./AccountClient";
+
+export const metadata = {
+  title: "Your account | Coffee Genius",
+  robots: { index: false, follow: false },
+};
+
+export default async function Page() {
+  const session = await requireCustomer("/account");
+  return <AccountClient email={session.email} />;
+}
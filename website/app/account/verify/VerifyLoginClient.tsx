@@ -0,0 +1,59 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+
+export default function VerifyLoginClient({ token }: { token: string }) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  // Links are single use, so don't post twice (React strict mode runs effects twice in dev)
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    if (!token) {
+      setError("This sign-in link is incomplete. Please use the link from your email.");
+      return;
+    }
+
+    (async () => {
+      try {
+        const res = await fetch("/api/account/verify", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "same-origin",
+          body: JSON.stringify({ token }),
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't sign you in");
+        router.replace(json.data?.next || "/account");
+        router.refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "We couldn't sign you in");
+      }
+    })();
+  }, [token, router]);
+
+  return (
+    <main className="bg-white text-gray-900 min-h-screen py-12 mt-24">
+      <div className="max-w-md mx-auto px-4 sm:px-6">
+        {error ? (
+          <div className="p-4 rounded-lg bg-red-50 text-red-800 text-sm">
+            {error}{" "}
+            <Link href="/account/login" className="underline">
+              Send a new link
+            </Link>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="animate-spin" size={18} /> Signing you in…
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
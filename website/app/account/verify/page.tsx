@@ -0,0 +1,15 @@
+import React from "react";
+import VerifyLoginClient from "./VerifyLoginClient";
+
+export const metadata = {
+  title: "Signing in | Coffee Genius",
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = { token?: string };
+
+export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  // The token comes from the sign-in email
+  const { token } = await searchParams;
+  return <VerifyLoginClient token={token ?? ""} />;
+}
@@ -0,0 +1,450 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { KeyRound, Loader2, LogOut, Monitor, ShieldCheck, ShieldOff, UserCog } from "lucide-react";
+
+interface SessionRow {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+interface Account {
+  username: string;
+  email: string | null;
+  roleLabel: string;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt: string | null;
+  recoveryCodesLeft: number;
+  lastLoginAt: string | null;
+  passwordChangedAt: string | null;
+  sessions: SessionRow[];
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const MIN_PASSWORD_LENGTH = 10;
+
+function formatDateTime(iso?: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-GB") : "—";
+}
+
+/** Rough browser / OS label from a user agent, enough to tell sessions apart */
+function describeAgent(ua: string | null) {
+  if (!ua) return "Unknown device";
+  const browser = /Edg\//.test(ua)
+    ? "Edge"
+    : /Chrome\//.test(ua)
+    ? "Chrome"
+    : /Firefox\//.test(ua)
+    ? "Firefox"
+    : /Safari\//.test(ua)
+    ? "Safari"
+    : "Browser";
+  const os = /iPhone|iPad/.test(ua)
+    ? "iOS"
+    : /Android/.test(ua)
+    ? "Android"
+    : /Mac OS X/.test(ua)
+    ? "macOS"
+    : /Windows/.test(ua)
+    ? "Windows"
+    : /Linux/.test(ua)
+    ? "Linux"
+    : "";
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export default function AccountSecurityPage() {
+  const router = useRouter();
+  const [account, setAccount] = useState<Account | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [email, setEmail] = useState("");
+  const [passwords, setPasswords] = useState({ current: "", next: "", repeat: "" });
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmAction, setConfirmAction] = useState<"disable" | "recovery_codes" | null>(null);
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/account");
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load account (${res.status})`);
+      setAccount(json.data);
+      setEmail(json.data.email ?? "");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /** Runs one request; returns the json data on success */
+  const call = async (url: string, init: RequestInit, done?: string) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(url, { headers: { "Content-Type": "application/json" }, ...init });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Request failed (${res.status})`);
+      if (done) setNotice(done);
+      return json.data ?? {};
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveEmail = async () => {
+    const data = await call("/api/admin/account", { method: "PATCH", body: JSON.stringify({ email }) }, "Email address saved.");
+    if (data) setAccount(data);
+  };
+
+  const changePassword = async () => {
+    if (passwords.next !== passwords.repeat) {
+      setError("The two new passwords don't match");
+      return;
+    }
+    const data = await call("/api/admin/account/password", {
+      method: "POST",
+      body: JSON.stringify({ currentPassword: passwords.current, newPassword: passwords.next }),
+    });
+    if (!data) return;
+    setPasswords({ current: "", next: "", repeat: "" });
+    setNotice(`Password changed. ${data.sessionsSignedOut} other session(s) signed out.`);
+    await load();
+  };
+
+  const startSetup = async () => {
+    const data = await call("/api/admin/account/two-factor", { method: "POST", body: JSON.stringify({ action: "setup" }) });
+    if (data) {
+      setSetup(data);
+      setSetupCode("");
+      setRecoveryCodes(null);
+    }
+  };
+
+  const enable = async () => {
+    const data = await call(
+      "/api/admin/account/two-factor",
+      { method: "POST", body: JSON.stringify({ action: "enable", code: setupCode }) },
+      "Two-factor sign-in is on. Save your recovery codes now — they won't be shown again."
+    );
+    if (!data) return;
+    setSetup(null);
+    setRecoveryCodes(data.recoveryCodes);
+    await load();
+  };
+
+  const runConfirmed = async () => {
+    if (!confirmAction) return;
+    const data = await call(
+      "/api/admin/account/two-factor",
+      { method: "POST", body: JSON.stringify({ action: confirmAction, password: confirmPassword }) },
+      confirmAction === "disable"
+        ? "Two-factor sign-in is off."
+        : "New recovery codes generated. The old ones no longer work."
+    );
+    if (!data) return;
+    setRecoveryCodes(confirmAction === "recovery_codes" ? data.recoveryCodes : null);
+    setConfirmAction(null);
+    setConfirmPassword("");
+    await load();
+  };
+
+  const revokeSession = async (s: SessionRow) => {
+    const data = await call(`/api/admin/account/sessions/${s.id}`, { method: "DELETE" }, "Session signed out.");
+    if (!data) return;
+    if (s.current) {
+      router.replace("/login");
+      return;
+    }
+    await load();
+  };
+
+  const signOutEverywhere = async () => {
+    if (!confirm("Sign out of every browser and device, including this one?")) return;
+    const data = await call("/api/admin/account/sessions", { method: "DELETE" });
+    if (!data) return;
+    localStorage.removeItem("username");
+    router.replace("/login");
+  };
+
+  const downloadCodes = () => {
+    if (!recoveryCodes || !account) return;
+    const text = [`Recovery codes for ${account.username}`, "Each code works once.", "", ...recoveryCodes, ""].join("\n");
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "admin-recovery-codes.txt";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const card = "bg-white border rounded-lg p-4 space-y-3";
+  const input = "mt-1 w-full border px-3 py-2 rounded text-sm";
+  const primary =
+    "inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg text-sm font-semibold disabled:opacity-50";
+  const secondary = "inline-flex items-center gap-2 px-4 py-2 border rounded-lg text-sm font-semibold disabled:opacity-50";
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <UserCog size={22} /> My Account
+        </h1>
+        <p className="text-sm text-gray-600">Your password, two-factor sign-in and where you&apos;re signed in.</p>
+      </div>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+      {notice && <div className="mb-4 text-sm text-green-800 bg-green-50 px-3 py-2 rounded">{notice}</div>}
+
+      {loading && !account ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : account ? (
+        <div className="space-y-6">
+          <section className={card}>
+            <h2 className="text-lg font-bold">Profile</h2>
+            <div className="text-sm text-gray-700">
+              <div>
+                Signed in as <span className="font-semibold">{account.username}</span> ({account.roleLabel})
+              </div>
+              <div className="text-xs text-gray-500">
+                Last sign-in {formatDateTime(account.lastLoginAt)} · Password last changed{" "}
+                {formatDateTime(account.passwordChangedAt)}
+              </div>
+            </div>
+            <label className="block text-sm">
+              <span className="font-medium">Email address</span>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={input}
+                placeholder="you@example.com"
+              />
+              <span className="text-xs text-gray-500">Password reset links are sent here. Leave blank to remove it.</span>
+            </label>
+            <div className="flex justify-end">
+              <button onClick={saveEmail} disabled={busy || email === (account.email ?? "")} className={primary}>
+                Save email
+              </button>
+            </div>
+          </section>
+
+          <section className={card}>
+            <h2 className="text-lg font-bold flex items-center gap-2">
+              <KeyRound size={18} /> Password
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {(
+                [
+                  ["current", "Current password", "current-password"],
+                  ["next", "New password", "new-password"],
+                  ["repeat", "Repeat new password", "new-password"],
+                ] as const
+              ).map(([key, label, autoComplete]) => (
+                <label key={key} className="block text-sm">
+                  <span className="font-medium">{label}</span>
+                  <input
+                    type="password"
+                    value={passwords[key]}
+                    onChange={(e) => setPasswords({ ...passwords, [key]: e.target.value })}
+                    className={input}
+                    autoComplete={autoComplete}
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-xs text-gray-500">
+                At least {MIN_PASSWORD_LENGTH} characters. Your other sessions are signed out when it changes.
+              </span>
+              <button
+                onClick={changePassword}
+                disabled={busy || !passwords.current || passwords.next.length < MIN_PASSWORD_LENGTH}
+                className={primary}
+              >
+                Change password
+              </button>
+            </div>
+          </section>
+
+          <section className={card}>
+            <h2 className="text-lg font-bold flex items-center gap-2">
+              {account.twoFactorEnabled ? <ShieldCheck size={18} className="text-green-700" /> : <ShieldOff size={18} />}
+              Two-factor sign-in
+            </h2>
+
+            {account.twoFactorEnabled ? (
+              <>
+                <p className="text-sm text-gray-700">
+                  On since {formatDateTime(account.twoFactorEnabledAt)}. Signing in asks for a code from your
+                  authenticator app. {account.recoveryCodesLeft} unused recovery code
+                  {account.recoveryCodesLeft === 1 ? "" : "s"} left.
+                </p>
+                {confirmAction ? (
+                  <div className="flex flex-wrap items-end gap-2">
+                    <label className="block text-sm">
+                      <span className="font-medium">Confirm with your password</span>
+                      <input
+                        type="password"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        className={input}
+                        autoComplete="current-password"
+                      />
+                    </label>
+                    <button onClick={runConfirmed} disabled={busy || !confirmPassword} className={primary}>
+                      {confirmAction === "disable" ? "Turn off" : "Generate new codes"}
+                    </button>
+                    <button onClick={() => setConfirmAction(null)} className={secondary}>
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    <button onClick={() => setConfirmAction("recovery_codes")} disabled={busy} className={secondary}>
+                      New recovery codes
+                    </button>
+                    <button onClick={() => setConfirmAction("disable")} disabled={busy} className={secondary}>
+                      Turn off
+                    </button>
+                  </div>
+                )}
+              </>
+            ) : setup ? (
+              <div className="space-y-3 text-sm">
+                <p>
+                  Add this account to an authenticator app (Google Authenticator, 1Password, Authy…) using the setup
+                  key below, then enter the 6-digit code it shows.
+                </p>
+                <div className="bg-gray-50 border rounded p-3">
+                  <div className="text-xs text-gray-500">Setup key</div>
+                  <code className="text-base tracking-widest break-all">{setup.secret.match(/.{1,4}/g)?.join(" ")}</code>
+                  <div className="mt-2 text-xs">
+                    On a phone, you can{" "}
+                    <a href={setup.otpauthUrl} className="underline">
+                      open it in your authenticator app
+                    </a>{" "}
+                    directly.
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-end gap-2">
+                  <label className="block text-sm">
+                    <span className="font-medium">Code from the app</span>
+                    <input
+                      value={setupCode}
+                      onChange={(e) => setSetupCode(e.target.value)}
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      className={`${input} tracking-widest`}
+                      placeholder="123456"
+                    />
+                  </label>
+                  <button onClick={enable} disabled={busy || setupCode.trim().length < 6} className={primary}>
+                    Turn on
+                  </button>
+                  <button onClick={() => setSetup(null)} className={secondary}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-700">
+                  Off. Turn it on so a stolen password alone isn&apos;t enough to get into the admin.
+                </p>
+                <button onClick={startSetup} disabled={busy} className={primary}>
+                  <ShieldCheck size={16} /> Set up two-factor sign-in
+                </button>
+              </>
+            )}
+
+            {recoveryCodes && (
+              <div className="border border-amber-300 bg-amber-50 rounded p-3 space-y-2">
+                <div className="text-sm font-semibold">Recovery codes</div>
+                <p className="text-xs text-gray-700">
+                  Each one signs you in once if you lose your phone. Keep them somewhere safe — they won&apos;t be
+                  shown again.
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((c) => (
+                    <span key={c} className="bg-white border rounded px-2 py-1 text-center">
+                      {c}
+                    </span>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={downloadCodes} className={secondary}>
+                    Download
+                  </button>
+                  <button onClick={() => setRecoveryCodes(null)} className={secondary}>
+                    I&apos;ve saved them
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          <section className={card}>
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-lg font-bold flex items-center gap-2">
+                <Monitor size={18} /> Where you&apos;re signed in
+              </h2>
+              <button onClick={signOutEverywhere} disabled={busy} className={secondary}>
+                <LogOut size={16} /> Sign out everywhere
+              </button>
+            </div>
+            <ul className="divide-y text-sm">
+              {account.sessions.map((s) => (
+                <li key={s.id} className="py-2 flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium">
+                      {describeAgent(s.userAgent)}
+                      {s.current && (
+                        <span className="ml-2 px-1.5 rounded text-xs bg-green-100 text-green-800">this browser</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {s.ip || "Unknown IP"} · signed in {formatDateTime(s.createdAt)} · last active{" "}
+                      {formatDateTime(s.lastSeenAt)}
+                    </div>
+                  </div>
+                  <button onClick={() => revokeSession(s)} disabled={busy} className="text-xs underline">
+                    Sign out
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+}
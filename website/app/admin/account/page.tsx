@@ -0,0 +1,10 @@
+import React from "react";
+import { requireAuth } from "@/lib/auth";
+import AccountSecurityPage from "./AccountSecurityPage";
+
+export default async function Page() {
+  // Any signed-in admin may manage their own account
+  await requireAuth();
+
+  return <AccountSecurityPage />;
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useEffect, useMemo, useState } from "react";
+import { ADMIN_ROLES, AdminRole, ROLE_DESCRIPTIONS, ROLE_LABELS, resolveRole } from "@/lib/permissions";
 
 /**
  * Enhanced single-file Users admin page (client component)
@@ -14,15 +15,18 @@ import React, { useEffect, useMemo, useState } from "react";
  * - Confirm delete modal
  * - Non-blocking toast notifications
  * - Optimistic UI refresh (refresh after operations)
+ * - Role assignment (what each role may do is defined in lib/permissions.ts)
+ * - Account recovery: sign out everywhere, reset two-factor sign-in, lift a lockout
  *
  * Drop this into app/users/page.tsx (replaces previous).
  *
  * Notes:
  * - Expects API endpoints:
- *   GET  /api/users            -> returns array of { _id, username }
- *   POST /api/users            -> create user { username, password }
- *   PUT  /api/users/:id        -> update user { username, password? }
+ *   GET  /api/users            -> returns array of { _id, username, role?, email?, totpEnabledAt?, lockedUntil? }
+ *   POST /api/users            -> create user { username, password, role, email? }
+ *   PUT  /api/users/:id        -> update user { username, password?, role, email }
  *   DELETE /api/users/:id      -> delete user
+ *   POST /api/users/:id/security -> { action: sign_out_everywhere | reset_two_factor | unlock }
  * - If your API requires auth, paste a Bearer token in the "Auth token" input.
  */
 
@@ -30,18 +34,39 @@ import React, { useEffect, useMemo, useState } from "react";
 type User = {
   _id: string;
   username: string;
+  role: AdminRole;
+  email: string;
+  twoFactorEnabled: boolean;
+  lockedUntil: string | null;
 };
 
 type FormState = {
   username: string;
   password: string;
+  role: AdminRole;
+  email: string;
 };
 
 type ApiUser = {
   _id: string;
   username: string;
+  role?: string;
+  email?: string | null;
+  totpEnabledAt?: string | null;
+  lockedUntil?: string | null;
 };
 
+type SecurityAction = "sign_out_everywhere" | "reset_two_factor" | "unlock";
+
+const SECURITY_CONFIRM: Record<SecurityAction, (username: string) => string> = {
+  sign_out_everywhere: (u) => `Sign ${u} out of every browser and device?`,
+  reset_two_factor: (u) =>
+    `Turn off two-factor sign-in for ${u}? They will be signed out and can sign in with just their password until they set it up again.`,
+  unlock: (u) => `Let ${u} try signing in again now?`,
+};
+
+const MIN_PASSWORD_LENGTH = 10;
+
 /* -------------------- Helpers -------------------- */
 
 function useDebounced<T>(value: T, ms = 300) {
@@ -96,7 +121,7 @@ export default function UsersPage() {
   const totalPages = useMemo(() => Math.max(1, Math.ceil(users.length / pageSize)), [users.length, pageSize]);
 
   // Form state (create & edit)
-  const [form, setForm] = useState<FormState>({ username: "", password: "" });
+  const [form, setForm] = useState<FormState>({ username: "", password: "", role: "manager", email: "" });
   const [editingId, setEditingId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
@@ -138,7 +163,14 @@ export default function UsersPage() {
       const data: unknown = await res.json();
       const list = Array.isArray(data) ? data : (data as Record<string, unknown>)?.data ?? data;
       // Keep only expected shape
-      const items: User[] = (list as ApiUser[]).map((u: ApiUser) => ({ _id: u._id, username: u.username }));
+      const items: User[] = (list as ApiUser[]).map((u: ApiUser) => ({
+        _id: u._id,
+        username: u.username,
+        role: resolveRole(u.role),
+        email: u.email ?? "",
+        twoFactorEnabled: !!u.totpEnabledAt,
+        lockedUntil: u.lockedUntil && new Date(u.lockedUntil) > new Date() ? u.lockedUntil : null,
+      }));
       // Client-side filter for search (case-insensitive substring)
       const filtered = debouncedSearch
         ? items.filter((it) => it.username.toLowerCase().includes(debouncedSearch.trim().toLowerCase()))
@@ -154,7 +186,7 @@ export default function UsersPage() {
   }
 
   function resetForm() {
-    setForm({ username: "", password: "" });
+    setForm({ username: "", password: "", role: "manager", email: "" });
     setEditingId(null);
     setShowPassword(false);
   }
@@ -171,12 +203,12 @@ export default function UsersPage() {
       setError("Username is required");
       return;
     }
-    if (!editingId && form.password.trim().length < 6) {
-      setError("Password is required and must be at least 6 characters");
+    if (!editingId && form.password.trim().length < MIN_PASSWORD_LENGTH) {
+      setError(`Password is required and must be at least ${MIN_PASSWORD_LENGTH} characters`);
       return;
     }
-    if (form.password && form.password.length > 0 && form.password.length < 6) {
-      setError("If changing password, it must be at least 6 characters");
+    if (form.password && form.password.length > 0 && form.password.length < MIN_PASSWORD_LENGTH) {
+      setError(`If changing password, it must be at least ${MIN_PASSWORD_LENGTH} characters`);
       return;
     }
 
@@ -184,7 +216,7 @@ export default function UsersPage() {
     try {
       if (editingId) {
         // Update (send password only if provided)
-        const payload: Record<string, unknown> = { username: form.username.trim() };
+        const payload: Record<string, unknown> = { username: form.username.trim(), role: form.role, email: form.email.trim() };
         if (form.password.trim()) payload.password = form.password.trim();
 
         const res = await fetch(`/api/users/${encodeURIComponent(editingId)}`, {
@@ -211,6 +243,8 @@ export default function UsersPage() {
           body: JSON.stringify({
             username: form.username.trim(),
             password: form.password.trim(),
+            role: form.role,
+            email: form.email.trim() || null,
           }),
         });
         if (!res.ok) {
@@ -234,7 +268,7 @@ export default function UsersPage() {
 
   async function startEdit(user: User) {
     setEditingId(user._id);
-    setForm({ username: user.username || "", password: "" });
+    setForm({ username: user.username || "", password: "", role: user.role, email: user.email });
     setShowPassword(false);
     window.scrollTo({ top: 0, behavior: "smooth" });
   }
@@ -261,6 +295,27 @@ export default function UsersPage() {
     }
   }
 
+  async function runSecurityAction(user: User, action: SecurityAction) {
+    if (!confirm(SECURITY_CONFIRM[action](user.username))) return;
+    try {
+      const res = await fetch(`/api/users/${encodeURIComponent(user._id)}/security`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+        },
+        body: JSON.stringify({ action }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body?.error || `Request failed (${res.status})`);
+      push({ type: "success", message: body?.message || "Done" });
+      await fetchUsers();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      push({ type: "error", message });
+    }
+  }
+
   // Pagination slice
   const visibleUsers = useMemo(() => {
     const start = (page - 1) * pageSize;
@@ -273,7 +328,7 @@ export default function UsersPage() {
         <header className="mb-6">
           <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Users — Admin</h1>
           <p className="mt-1 text-sm text-gray-600 max-w-2xl">
-            Manage users (username + password). Passwords are never displayed. Use the form below to create or edit users.
+            Manage admin users and their roles. Passwords are never displayed. Use the form below to create or edit users.
           </p>
         </header>
 
@@ -366,7 +421,7 @@ export default function UsersPage() {
                   onChange={(e) => setFormField("password", e.target.value)}
                   type={showPassword ? "text" : "password"}
                   className="block w-full rounded-md border px-3 py-2 pr-10 text-base"
-                  placeholder={editingId ? "•••••• (enter to change)" : "At least 6 characters"}
+                  placeholder={editingId ? "•••••• (enter to change)" : `At least ${MIN_PASSWORD_LENGTH} characters`}
                 />
                 <button
                   type="button"
@@ -415,6 +470,34 @@ export default function UsersPage() {
             </div>
           </div>
 
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+            <select
+              value={form.role}
+              onChange={(e) => setFormField("role", e.target.value as AdminRole)}
+              className="block w-full sm:w-64 rounded-md border px-3 py-2 text-base"
+            >
+              {ADMIN_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">{ROLE_DESCRIPTIONS[form.role]}</p>
+          </div>
+
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email (optional)</label>
+            <input
+              type="email"
+              value={form.email}
+              onChange={(e) => setFormField("email", e.target.value)}
+              className="block w-full sm:w-96 rounded-md border px-3 py-2 text-base"
+              placeholder="name@example.com"
+            />
+            <p className="mt-1 text-xs text-gray-500">Needed for &quot;Forgot password&quot; on the sign-in page.</p>
+          </div>
+
           {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
         </form>
 
@@ -443,24 +526,74 @@ export default function UsersPage() {
                   <table className="w-full table-fixed border-collapse">
                     <thead>
                       <tr className="text-left text-sm text-gray-600 border-b">
-                        <th className="py-2 px-2 w-1/2 min-w-32">Username</th>
-                        <th className="py-2 px-2 w-1/3 min-w-24 hidden sm:table-cell">User ID</th>
-                        <th className="py-2 px-2 w-1/6 min-w-20">Actions</th>
+                        <th className="py-2 px-2 w-1/4 min-w-32">Username</th>
+                        <th className="py-2 px-2 w-1/6 min-w-24">Role</th>
+                        <th className="py-2 px-2 w-1/6 min-w-24">Security</th>
+                        <th className="py-2 px-2 w-1/6 min-w-24 hidden sm:table-cell">User ID</th>
+                        <th className="py-2 px-2 w-1/4 min-w-20">Actions</th>
                       </tr>
                     </thead>
                     <tbody>
                       {visibleUsers.map((u) => (
                         <tr key={u._id} className="text-sm border-b last:border-b-0 hover:bg-gray-50">
-                          <td className="py-2 px-2 font-medium">{u.username}</td>
+                          <td className="py-2 px-2 font-medium">
+                            {u.username}
+                            {u.email && <div className="text-xs font-normal text-gray-500 break-words">{u.email}</div>}
+                          </td>
+                          <td className="py-2 px-2">
+                            <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">{ROLE_LABELS[u.role]}</span>
+                          </td>
+                          <td className="py-2 px-2">
+                            <div className="flex flex-wrap gap-1">
+                              <span
+                                className={`px-2 py-0.5 rounded text-xs ${
+                                  u.twoFactorEnabled ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"
+                                }`}
+                              >
+                                {u.twoFactorEnabled ? "2FA on" : "2FA off"}
+                              </span>
+                              {u.lockedUntil && (
+                                <span
+                                  className="px-2 py-0.5 rounded text-xs bg-red-100 text-red-800"
+                                  title={`Locked until ${new Date(u.lockedUntil).toLocaleString("en-GB")}`}
+                                >
+                                  Locked
+                                </span>
+                              )}
+                            </div>
+                          </td>
                           <td className="py-2 px-2 break-words text-xs text-gray-500 hidden sm:table-cell">{u._id}</td>
                           <td className="py-2 px-2">
-                            <div className="flex gap-2 flex-col sm:flex-row">
+                            <div className="flex gap-2 flex-col sm:flex-row sm:flex-wrap">
                               <button
                                 onClick={() => startEdit(u)}
                                 className="px-3 py-1 text-sm bg-white border rounded hover:bg-gray-50 transition-colors min-h-8"
                               >
                                 Edit
                               </button>
+                              <button
+                                onClick={() => runSecurityAction(u, "sign_out_everywhere")}
+                                className="px-3 py-1 text-sm bg-white border rounded hover:bg-gray-50 transition-colors min-h-8"
+                                title="Sign out of every browser and device"
+                              >
+                                Sign out
+                              </button>
+                              {u.twoFactorEnabled && (
+                                <button
+                                  onClick={() => runSecurityAction(u, "reset_two_factor")}
+                                  className="px-3 py-1 text-sm bg-white border rounded hover:bg-gray-50 transition-colors min-h-8"
+                                >
+                                  Reset 2FA
+                                </button>
+                              )}
+                              {u.lockedUntil && (
+                                <button
+                                  onClick={() => runSecurityAction(u, "unlock")}
+                                  className="px-3 py-1 text-sm bg-white border rounded hover:bg-gray-50 transition-colors min-h-8"
+                                >
+                                  Unlock
+                                </button>
+                              )}
                               <button
                                 onClick={() => setConfirmDelete({ id: u._id, username: u.username })}
                                 className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:opacity-90 transition-colors min-h-8"
@@ -4,7 +4,7 @@ import UsersAdminClient from "./AdminPage";
 
 export default async function Page() {
   // Server-side protection: will redirect / throw if not authenticated
-  await requireAuth();
+  await requireAuth("users.manage");
 
   // Render the client component (copy your provided client code into ./page.client.tsx)
   return <UsersAdminClient />;
@@ -0,0 +1,385 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Download, Eye, History, Loader2, Search, X } from "lucide-react";
+import { ActionBadge, AuditChanges, AuditEventRow, formatDateTime } from "./AuditChanges";
+
+// Same list as AUDIT_ENTITY_TYPES in models/AuditEvent.ts
+const ENTITY_TYPES: { value: string; label: string }[] = [
+  { value: "order", label: "Orders" },
+  { value: "return", label: "Returns" },
+  { value: "invoice", label: "Invoices" },
+  { value: "client", label: "Customers" },
+  { value: "coffee", label: "Coffee" },
+  { value: "variant", label: "Coffee variants" },
+  { value: "equipment", label: "Equipment" },
+  { value: "promotion", label: "Promotions" },
+  { value: "gift_card", label: "Gift cards" },
+  { value: "subscription", label: "Subscriptions" },
+  { value: "class", label: "Classes" },
+  { value: "booking", label: "Bookings" },
+  { value: "post", label: "Blog posts" },
+  { value: "offer", label: "Offers" },
+  { value: "gallery", label: "Gallery" },
+  { value: "media", label: "Uploads" },
+  { value: "enquiry", label: "Wholesale enquiries" },
+  { value: "settings", label: "Settings" },
+  { value: "user", label: "Admin accounts" },
+  { value: "stripe_event", label: "Stripe events" },
+  { value: "outbound_message", label: "Emails" },
+  { value: "email_template", label: "Email templates" },
+  { value: "job", label: "Scheduled jobs" },
+];
+
+const PAGE_SIZE = 50;
+
+interface Filters {
+  entityType: string;
+  entityId: string;
+  action: string;
+  actor: string;
+  q: string;
+  from: string;
+  to: string;
+}
+
+function toParams(filters: Filters) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  return params;
+}
+
+function entityName(type: string) {
+  return ENTITY_TYPES.find((t) => t.value === type)?.label ?? type;
+}
+
+export default function AuditAdminPage({
+  initialEntityType = "",
+  initialEntityId = "",
+}: {
+  initialEntityType?: string;
+  initialEntityId?: string;
+}) {
+  const [events, setEvents] = useState<AuditEventRow[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<Filters>({
+    entityType: initialEntityType,
+    entityId: initialEntityId,
+    action: "",
+    actor: "",
+    q: "",
+    from: "",
+    to: "",
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [detail, setDetail] = useState<AuditEventRow | null>(null);
+
+  const load = useCallback(async (f: Filters, p: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = toParams(f);
+      params.set("page", String(p));
+      params.set("limit", String(PAGE_SIZE));
+      const res = await fetch(`/api/admin/audit?${params.toString()}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load audit log (${res.status})`);
+      setEvents(json.data.events);
+      setActions(json.data.actions || []);
+      setTotal(json.data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(filters, page);
+    // text filters are applied on submit
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters.entityType, filters.action, page, load]);
+
+  const setFilter = (key: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    if (key === "entityType" || key === "action") setPage(1);
+  };
+
+  const search = () => {
+    if (page === 1) load(filters, 1);
+    else setPage(1);
+  };
+
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <History size={22} /> Audit Log
+          </h1>
+          <p className="text-sm text-gray-600">
+            Every change made in the admin: who made it, what it touched and what the values were before and after.
+          </p>
+        </div>
+        <a
+          href={`/api/admin/audit/export?${toParams(filters).toString()}`}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg text-sm font-semibold"
+        >
+          <Download size={16} /> Export CSV
+        </a>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          search();
+        }}
+        className="bg-white border rounded-lg p-4 mb-4 grid grid-cols-1 md:grid-cols-4 gap-3 text-sm"
+      >
+        <label className="block">
+          <span className="text-gray-600">Record type</span>
+          <select
+            value={filters.entityType}
+            onChange={(e) => setFilter("entityType", e.target.value)}
+            className="mt-1 w-full border px-3 py-2 rounded"
+          >
+            <option value="">Everything</option>
+            {ENTITY_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-gray-600">Action</span>
+          <select
+            value={filters.action}
+            onChange={(e) => setFilter("action", e.target.value)}
+            className="mt-1 w-full border px-3 py-2 rounded"
+          >
+            <option value="">Any action</option>
+            {actions.map((a) => (
+              <option key={a} value={a}>
+                {a.replace(/_/g, " ")}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-gray-600">From</span>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilter("from", e.target.value)}
+            className="mt-1 w-full border px-3 py-2 rounded"
+          />
+        </label>
+        <label className="block">
+          <span className="text-gray-600">To</span>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilter("to", e.target.value)}
+            className="mt-1 w-full border px-3 py-2 rounded"
+          />
+        </label>
+        <label className="block">
+          <span className="text-gray-600">Admin</span>
+          <input
+            value={filters.actor}
+            onChange={(e) => setFilter("actor", e.target.value)}
+            placeholder="Username"
+            className="mt-1 w-full border px-3 py-2 rounded"
+          />
+        </label>
+        <label className="block">
+          <span className="text-gray-600">Record id</span>
+          <input
+            value={filters.entityId}
+            onChange={(e) => setFilter("entityId", e.target.value)}
+            className="mt-1 w-full border px-3 py-2 rounded font-mono"
+          />
+        </label>
+        <label className="block md:col-span-2">
+          <span className="text-gray-600">Search</span>
+          <div className="relative mt-1">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={filters.q}
+              onChange={(e) => setFilter("q", e.target.value)}
+              placeholder="Name, code, order number or summary"
+              className="w-full border pl-8 pr-3 py-2 rounded"
+            />
+          </div>
+        </label>
+        <div className="md:col-span-4 flex justify-end">
+          <button type="submit" className="px-4 py-2 border rounded font-semibold">
+            Apply filters
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : events.length === 0 ? (
+        <div className="bg-white border rounded-lg p-8 text-center text-gray-500">
+          <History className="mx-auto mb-2 text-gray-300" size={32} />
+          No changes match these filters.
+        </div>
+      ) : (
+        <div className="bg-white border rounded-lg overflow-x-auto">
+          <div className="px-4 py-2 text-xs text-gray-500 border-b">{total} changes</div>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3">When</th>
+                <th className="px-4 py-3">Admin</th>
+                <th className="px-4 py-3">Action</th>
+                <th className="px-4 py-3">Record</th>
+                <th className="px-4 py-3">Change</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((e) => (
+                <tr key={e._id} className="border-t align-top">
+                  <td className="px-4 py-3 text-gray-600 whitespace-nowrap">{formatDateTime(e.createdAt)}</td>
+                  <td className="px-4 py-3">
+                    <div className="font-semibold">{e.actorName}</div>
+                    {e.actorRole && <div className="text-xs text-gray-500">{e.actorRole}</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <ActionBadge action={e.action} />
+                  </td>
+                  <td className="px-4 py-3">
+                    <div>{e.entityLabel || "—"}</div>
+                    <div className="text-xs text-gray-500">
+                      {entityName(e.entityType)}
+                      {e.entityId && <span className="font-mono"> · {e.entityId.slice(-8)}</span>}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-600 max-w-sm break-words">
+                    {e.summary ||
+                      (e.changes.length > 0
+                        ? `${e.changes.length} field${e.changes.length === 1 ? "" : "s"}: ${e.changes
+                            .slice(0, 4)
+                            .map((c) => c.path)
+                            .join(", ")}${e.changes.length > 4 ? "…" : ""}`
+                        : "—")}
+                  </td>
+                  <td className="px-4 py-3">
+                    <button onClick={() => setDetail(e)} className="p-2 rounded hover:bg-gray-100" title="Details">
+                      <Eye size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {pages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3 border-t text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1.5 border rounded disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-gray-600">
+                Page {page} of {pages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pages}
+                className="px-3 py-1.5 border rounded disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {detail && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={() => setDetail(null)}>
+          <div
+            className="bg-white rounded-lg w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 space-y-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-start justify-between">
+              <div>
+                <h2 className="text-lg font-bold flex items-center gap-2">
+                  <ActionBadge action={detail.action} /> {detail.entityLabel || entityName(detail.entityType)}
+                </h2>
+                {detail.summary && <div className="text-sm text-gray-600 mt-1">{detail.summary}</div>}
+              </div>
+              <button onClick={() => setDetail(null)} className="p-1 rounded hover:bg-gray-100">
+                <X size={18} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <span className="text-gray-500">When:</span> {formatDateTime(detail.createdAt)}
+              </div>
+              <div>
+                <span className="text-gray-500">Admin:</span> {detail.actorName}
+                {detail.actorRole && <span className="text-gray-500"> ({detail.actorRole})</span>}
+              </div>
+              <div>
+                <span className="text-gray-500">Record:</span> {entityName(detail.entityType)}
+              </div>
+              {detail.entityId && (
+                <div className="break-all">
+                  <span className="text-gray-500">Id:</span> <span className="font-mono text-xs">{detail.entityId}</span>
+                </div>
+              )}
+              {detail.path && (
+                <div className="break-all">
+                  <span className="text-gray-500">Request:</span>{" "}
+                  <span className="font-mono text-xs">
+                    {detail.method} {detail.path}
+                  </span>
+                </div>
+              )}
+              {detail.ip && (
+                <div>
+                  <span className="text-gray-500">IP:</span> <span className="font-mono text-xs">{detail.ip}</span>
+                </div>
+              )}
+              {detail.userAgent && (
+                <div className="col-span-2 break-all text-xs text-gray-500">{detail.userAgent}</div>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Changes</h3>
+              <AuditChanges changes={detail.changes} />
+            </div>
+
+            {detail.metadata && Object.keys(detail.metadata).length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold mb-2">Details</h3>
+                <pre className="text-xs bg-gray-50 rounded p-3 overflow-x-auto">
+                  {JSON.stringify(detail.metadata, null, 2)}
+                </pre>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React from "react";
+
+export interface AuditChangeRow {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEventRow {
+  _id: string;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  entityLabel?: string | null;
+  summary?: string | null;
+  changes: AuditChangeRow[];
+  metadata?: Record<string, unknown> | null;
+  actorName: string;
+  actorRole?: string | null;
+  method?: string | null;
+  path?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt?: string;
+}
+
+export const ACTION_STYLES: Record<string, string> = {
+  create: "bg-green-100 text-green-800",
+  delete: "bg-red-100 text-red-800",
+  refund: "bg-orange-100 text-orange-800",
+};
+
+export function formatDateTime(iso?: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-GB") : "—";
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === "") return <span className="text-gray-400">—</span>;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export function ActionBadge({ action }: { action: string }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${ACTION_STYLES[action] ?? "bg-gray-100 text-gray-700"}`}>
+      {action.replace(/_/g, " ")}
+    </span>
+  );
+}
+
+/** Field-by-field before → after table for one event */
+export function AuditChanges({ changes }: { changes: AuditChangeRow[] }) {
+  if (changes.length === 0) return <p className="text-xs text-gray-500">No field changes recorded.</p>;
+  return (
+    <table className="w-full text-xs">
+      <thead className="text-left text-gray-500">
+        <tr>
+          <th className="py-1 pr-3 font-medium">Field</th>
+          <th className="py-1 pr-3 font-medium">Before</th>
+          <th className="py-1 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((c) => (
+          <tr key={c.path} className="border-t align-top">
+            <td className="py-1 pr-3 font-mono">{c.path}</td>
+            <td className="py-1 pr-3 break-all text-red-700">{formatValue(c.before)}</td>
+            <td className="py-1 break-all text-green-800">{formatValue(c.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
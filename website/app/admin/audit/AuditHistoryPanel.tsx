@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, History, Loader2 } from "lucide-react";
+import { ActionBadge, AuditChanges, AuditEventRow, formatDateTime } from "./AuditChanges";
+
+/**
+ * Recent admin changes to one record, for detail views. Renders nothing for
+ * roles that can't read the audit log.
+ */
+export default function AuditHistoryPanel({
+  entityType,
+  entityId,
+  limit = 20,
+}: {
+  entityType: string;
+  entityId: string;
+  limit?: number;
+}) {
+  const [events, setEvents] = useState<AuditEventRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hidden, setHidden] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ entityType, entityId, limit: String(limit) });
+      const res = await fetch(`/api/admin/audit?${params.toString()}`);
+      if (res.status === 403) {
+        setHidden(true);
+        return;
+      }
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load history (${res.status})`);
+      setEvents(json.data.events);
+      setTotal(json.data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, entityId, limit]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (hidden) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-800 mb-3 flex items-center gap-2">
+        <History size={16} className="text-gray-600" />
+        History
+        {loading && <Loader2 size={14} className="animate-spin text-gray-400" />}
+      </h3>
+
+      {error && <div className="mb-3 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+
+      {events.length === 0 && !loading ? (
+        <p className="text-sm text-gray-500">No admin changes recorded yet.</p>
+      ) : (
+        <ul className="border border-gray-200 rounded-xl divide-y">
+          {events.map((e) => (
+            <li key={e._id} className="text-sm">
+              <button
+                onClick={() => setExpanded(expanded === e._id ? null : e._id)}
+                className="w-full text-left px-3 py-2 flex items-start gap-2 hover:bg-gray-50"
+              >
+                {expanded === e._id ? (
+                  <ChevronDown size={14} className="mt-1 shrink-0" />
+                ) : (
+                  <ChevronRight size={14} className="mt-1 shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <ActionBadge action={e.action} />
+                    <span className="font-medium">{e.actorName}</span>
+                    <span className="text-xs text-gray-500">{formatDateTime(e.createdAt)}</span>
+                  </div>
+                  {(e.summary || e.changes.length > 0) && (
+                    <div className="text-xs text-gray-600 mt-0.5 break-words">
+                      {e.summary || e.changes.map((c) => c.path).join(", ")}
+                    </div>
+                  )}
+                </div>
+              </button>
+              {expanded === e._id && (
+                <div className="px-3 pb-3 pl-8">
+                  <AuditChanges changes={e.changes} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {total > events.length && (
+        <a
+          href={`/admin/audit?entityType=${encodeURIComponent(entityType)}&entityId=${encodeURIComponent(entityId)}`}
+          className="inline-block mt-2 text-xs text-gray-600 underline"
+        >
+          See all {total} changes
+        </a>
+      )}
+    </div>
+  );
+}
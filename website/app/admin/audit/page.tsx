@@ -0,0 +1,18 @@
+import React from "react";
+import { requireAuth } from "@/lib/auth";
+import AuditAdminPage from "./AuditAdminPage";
+
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+function first(value: string | string[] | undefined) {
+  return (Array.isArray(value) ? value[0] : value) ?? "";
+}
+
+export default async function Page({ searchParams }: { searchParams?: Promise<SearchParams> }) {
+  // Server-side protection: will redirect / throw if not authenticated
+  await requireAuth("audit.view");
+
+  // History panels link here with the record already picked
+  const params = (await searchParams) ?? {};
+  return <AuditAdminPage initialEntityType={first(params.entityType)} initialEntityId={first(params.entityId)} />;
+}
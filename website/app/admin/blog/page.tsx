@@ -4,7 +4,7 @@ import PostsAdminPage from "./BlogAdmin";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("content.manage");
 
   // Render the client component (copy your provided client code into ./PostsAdminPage.tsx)
   return <PostsAdminPage />;
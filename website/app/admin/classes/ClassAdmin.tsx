@@ -51,9 +51,30 @@ export interface BookingItem {
   phone: string;
   attendees: number;
   status: string;
+  amount?: number;
+  paidAt?: string | null;
+  cancelReason?: string | null;
+  refundedAmount?: number;
+  history?: {
+    action: "cancelled" | "rescheduled";
+    by: string;
+    at: string;
+    fromSessionStart?: string | null;
+    toSessionStart?: string | null;
+    refundAmount?: number | null;
+    note?: string | null;
+  }[];
   createdAt: string;
 }
 
+interface WaitlistSummary {
+  courseId: string;
+  sessionId: string;
+  waiting: number;
+  waitingPeople: number;
+  offered: number;
+}
+
 type ToastType = "error" | "success";
 
 function Toast({
@@ -111,6 +132,13 @@ export default function AdminClassesList({ sendCookies = true }: AdminClassesLis
   const [bookingsLimit] = useState(50);
   const [bookingsTotal, setBookingsTotal] = useState(0);
 
+  // Customer self-service on bookings (manage-booking link)
+  const [changeSettings, setChangeSettings] = useState<{ cutoffHours: string; refundPercent: string } | null>(null);
+  const [savingChangeSettings, setSavingChangeSettings] = useState(false);
+
+  // Waitlist length per session, keyed by `${courseId}|${sessionId}`
+  const [waitlists, setWaitlists] = useState<Map<string, WaitlistSummary>>(new Map());
+
   useEffect(() => {
     let mounted = true;
     const fetchClasses = async () => {
@@ -145,6 +173,66 @@ export default function AdminClassesList({ sendCookies = true }: AdminClassesLis
     };
   }, [sendCookies]);
 
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const res = await fetch("/api/classes/waitlist", {
+          ...(sendCookies ? { credentials: "include" as RequestCredentials } : {}),
+        });
+        const json = await res.json().catch(() => null);
+        if (!res.ok || !json?.ok) return;
+        const rows: WaitlistSummary[] = json.data || [];
+        if (mounted) setWaitlists(new Map(rows.map((r) => [`${r.courseId}|${r.sessionId}`, r])));
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [sendCookies]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/booking/settings", {
+          ...(sendCookies ? { credentials: "include" as RequestCredentials } : {}),
+        });
+        const json = await res.json().catch(() => null);
+        if (res.ok && json?.ok) {
+          setChangeSettings({ cutoffHours: String(json.data.cutoffHours), refundPercent: String(json.data.refundPercent) });
+        }
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+  }, [sendCookies]);
+
+  const saveChangeSettings = async () => {
+    if (!changeSettings) return;
+    setSavingChangeSettings(true);
+    try {
+      const res = await fetch("/api/booking/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        ...(sendCookies ? { credentials: "include" as RequestCredentials } : {}),
+        body: JSON.stringify({
+          cutoffHours: Number(changeSettings.cutoffHours),
+          refundPercent: Number(changeSettings.refundPercent),
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) throw new Error(json?.error || "Failed to save booking settings");
+      setChangeSettings({ cutoffHours: String(json.data.cutoffHours), refundPercent: String(json.data.refundPercent) });
+      setSuccess("Booking change settings saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save booking settings");
+    } finally {
+      setSavingChangeSettings(false);
+    }
+  };
+
   const filtered = classes.filter((c) => {
     const q = search.trim().toLowerCase();
     if (!q) return true;
@@ -393,6 +481,17 @@ export default function AdminClassesList({ sendCookies = true }: AdminClassesLis
 
                           <td className="px-6 py-4">
                             <div className="text-sm text-gray-600">{cls.sessions?.length ?? 0}</div>
+                            {(cls.sessions ?? []).map((s) => {
+                              const w = waitlists.get(`${cls._id}|${s.id}`);
+                              if (!w) return null;
+                              return (
+                                <div key={s.id} className="text-xs text-amber-700 mt-1 whitespace-nowrap">
+                                  {new Date(s.start).toLocaleDateString()}: {w.waiting} waiting ({w.waitingPeople}{" "}
+                                  {w.waitingPeople === 1 ? "person" : "people"})
+                                  {w.offered > 0 && ` · ${w.offered} offered`}
+                                </div>
+                              );
+                            })}
                           </td>
 
                           <td className="px-6 py-4">
@@ -427,6 +526,36 @@ export default function AdminClassesList({ sendCookies = true }: AdminClassesLis
           <div>
             <h2 className="text-lg font-bold mb-3">Bookings</h2>
 
+            {changeSettings && (
+              <div className="mb-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                <span>Customers can cancel or move a booking up to</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={changeSettings.cutoffHours}
+                  onChange={(e) => setChangeSettings({ ...changeSettings, cutoffHours: e.target.value })}
+                  className="w-20 px-2 py-1 border rounded"
+                />
+                <span>hours before the class; cancelling refunds</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={changeSettings.refundPercent}
+                  onChange={(e) => setChangeSettings({ ...changeSettings, refundPercent: e.target.value })}
+                  className="w-20 px-2 py-1 border rounded"
+                />
+                <span>% of the price.</span>
+                <button
+                  onClick={() => void saveChangeSettings()}
+                  disabled={savingChangeSettings}
+                  className="px-3 py-1 border rounded-xl disabled:opacity-50"
+                >
+                  {savingChangeSettings ? "Saving..." : "Save"}
+                </button>
+              </div>
+            )}
+
             <div className="mb-4 flex flex-col sm:flex-row items-start sm:items-center gap-3">
               <div className="flex items-center gap-2">
                 <label className="text-sm text-gray-700 font-medium mr-2">Filter by class</label>
@@ -497,7 +626,15 @@ export default function AdminClassesList({ sendCookies = true }: AdminClassesLis
                     ) : (
                       bookings.map((b) => (
                         <tr key={b._id} className="hover:bg-gray-50 transition-colors">
-                          <td className="px-6 py-4 font-mono text-sm">{b.bookingRef}</td>
+                          <td className="px-6 py-4">
+                            <div className="font-mono text-sm">{b.bookingRef}</div>
+                            <div className="text-xs text-gray-500 capitalize">
+                              {b.status}
+                              {b.amount ? ` · £${b.amount.toFixed(2)}${b.paidAt ? " paid" : ""}` : ""}
+                            </div>
+                            {b.cancelReason && <div className="text-xs text-gray-400">{b.cancelReason.replace(/_/g, " ")}</div>}
+                            {b.refundedAmount ? <div className="text-xs text-gray-400">£{b.refundedAmount.toFixed(2)} refunded</div> : null}
+                          </td>
                           <td className="px-6 py-4">
                             <div className="font-semibold">{b.courseTitle ?? b.courseId}</div>
                             <div className="text-xs text-gray-500">{b.courseSlug ?? ""}</div>
@@ -511,6 +648,15 @@ export default function AdminClassesList({ sendCookies = true }: AdminClassesLis
                             ) : (
                               <div className="text-sm text-gray-500">—</div>
                             )}
+                            {(b.history ?? []).map((h, i) => (
+                              <div key={i} className="text-xs text-gray-400">
+                                {new Date(h.at).toLocaleDateString()}: {h.action === "rescheduled"
+                                  ? `moved from ${h.fromSessionStart ? new Date(h.fromSessionStart).toLocaleDateString() : "—"}`
+                                  : "cancelled"}{" "}
+                                by {h.by}
+                                {h.note && <span className="text-red-500"> — {h.note}</span>}
+                              </div>
+                            ))}
                           </td>
                           <td className="px-6 py-4">
                             <div className="font-semibold">{b.name}</div>
@@ -14,6 +14,7 @@ import {
   Trash2,
   Film,
 } from "lucide-react";
+import { isTaxCategory, TAX_CATEGORIES, TAX_CATEGORY_LABELS, type TaxCategory } from "@/lib/vat";
 
 type Level = "beginner" | "intermediate" | "advanced";
 
@@ -27,6 +28,7 @@ interface SessionInput {
   date: string; // yyyy-mm-dd
   startTime: string; // HH:MM
   endTime: string; // HH:MM
+  capacity: string; // blank = course capacity
 }
 
 interface ClassFormData {
@@ -47,6 +49,7 @@ interface ClassFormData {
   furtherInformation: string;
   location: string;
   level?: Level | "";
+  taxCategory: TaxCategory;
 }
 
 interface UploadFile {
@@ -106,10 +109,11 @@ export default function AdminCreateClassForm({ sendCookies = true }: { sendCooki
     furtherInformation: "",
     location: "173 High St, Staines TW18 4PA",
     level: "",
+    taxCategory: "standard",
   });
 
   const [sessions, setSessions] = useState<SessionInput[]>([
-    { id: uid("s_"), date: "", startTime: "", endTime: "" },
+    { id: uid("s_"), date: "", startTime: "", endTime: "", capacity: "" },
   ]);
 
   const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
@@ -186,7 +190,7 @@ export default function AdminCreateClassForm({ sendCookies = true }: { sendCooki
   };
 
   // Sessions management
-  const addSession = () => setSessions((s) => [...s, { id: uid("s_"), date: "", startTime: "", endTime: "" }]);
+  const addSession = () => setSessions((s) => [...s, { id: uid("s_"), date: "", startTime: "", endTime: "", capacity: "" }]);
   const updateSession = (id: string, patch: Partial<SessionInput>) => setSessions((s) => s.map((si) => (si.id === id ? { ...si, ...patch } : si)));
   const removeSession = (id: string) => setSessions((s) => s.filter((si) => si.id !== id));
 
@@ -276,7 +280,7 @@ export default function AdminCreateClassForm({ sendCookies = true }: { sendCooki
         .map((s) => {
           const start = new Date(`${s.date}T${s.startTime}`);
           const end = new Date(`${s.date}T${s.endTime}`);
-          return { start: start.toISOString(), end: end.toISOString() };
+          return { start: start.toISOString(), end: end.toISOString(), capacity: s.capacity ? Number(s.capacity) : null };
         });
 
       const payload = {
@@ -297,6 +301,7 @@ export default function AdminCreateClassForm({ sendCookies = true }: { sendCooki
         furtherInformation: formData.furtherInformation,
         location: formData.location,
         level: formData.level || undefined,
+        taxCategory: formData.taxCategory,
       };
 
       const res = await fetch("/api/classes", {
@@ -408,6 +413,16 @@ export default function AdminCreateClassForm({ sendCookies = true }: { sendCooki
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-bold text-gray-900 mb-2">VAT</label>
+                  <select value={formData.taxCategory} onChange={(e) => isTaxCategory(e.target.value) && setField("taxCategory", e.target.value)} className="w-full px-4 py-3 border-2 rounded-xl border-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-900">
+                    {TAX_CATEGORIES.map((c) => (
+                      <option key={c} value={c}>{TAX_CATEGORY_LABELS[c]}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">Price includes VAT at this rate</p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-bold text-gray-900 mb-2">Instructor name</label>
                   <input value={formData.instructorName} onChange={(e) => setField("instructorName", e.target.value)} className="w-full px-4 py-3 border-2 rounded-xl border-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-900" />
@@ -443,7 +458,7 @@ export default function AdminCreateClassForm({ sendCookies = true }: { sendCooki
 
               <div className="space-y-3 mt-4">
                 {sessions.map((s, i) => (
-                  <div key={s.id} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                  <div key={s.id} className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
                     <div>
                       <label className="text-xs text-gray-600">Date</label>
                       <input type="date" value={s.date} onChange={(e) => updateSession(s.id, { date: e.target.value })} className="w-full px-3 py-2 border-2 rounded-xl border-gray-300" />
@@ -456,6 +471,17 @@ export default function AdminCreateClassForm({ sendCookies = true }: { sendCooki
                       <label className="text-xs text-gray-600">End</label>
                       <input type="time" value={s.endTime} onChange={(e) => updateSession(s.id, { endTime: e.target.value })} className="w-full px-3 py-2 border-2 rounded-xl border-gray-300" />
                     </div>
+                    <div>
+                      <label className="text-xs text-gray-600">Seats</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={s.capacity}
+                        onChange={(e) => updateSession(s.id, { capacity: e.target.value })}
+                        placeholder={formData.capacity ? String(formData.capacity) : "Course"}
+                        className="w-full px-3 py-2 border-2 rounded-xl border-gray-300"
+                      />
+                    </div>
                     <div className="flex gap-2">
                       <button type="button" onClick={() => removeSession(s.id)} className="px-3 py-2 rounded-xl border-2 border-gray-200 hover:bg-gray-50">
                         <Trash2 size={14} />
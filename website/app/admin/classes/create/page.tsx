@@ -4,7 +4,7 @@ import AdminCreateClassForm from "./ClassAdminCreate";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("classes.manage");
 
   // Render the client component (paste your client code into ../AdminCreateClassForm.tsx)
   return <AdminCreateClassForm sendCookies={true} />;
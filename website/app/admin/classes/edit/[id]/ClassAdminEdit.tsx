@@ -23,6 +23,7 @@ import {
   getVideoThumbnail,
   isVideo,
 } from "@/app/utils/cloudinary";
+import { isTaxCategory, TAX_CATEGORIES, TAX_CATEGORY_LABELS, type TaxCategory } from "@/lib/vat";
 
 /* ------------------------- Types ------------------------- */
 
@@ -35,12 +36,14 @@ type SessionItem = {
   startTime?: string; // HH:MM
   endDate?: string; // YYYY-MM-DD
   endTime?: string; // HH:MM
+  capacity?: string; // blank = course capacity
 };
 
 type SessionFromApi = {
   id?: string;
   start?: string;
   end?: string;
+  capacity?: number | null;
 };
 
 type ClassData = {
@@ -63,6 +66,7 @@ type ClassData = {
   thingsToNote: string[];
   furtherInformation: string;
   location: string;
+  taxCategory: TaxCategory;
 };
 
 interface PendingFile {
@@ -183,6 +187,7 @@ export default function AdminEditClassPage() {
     thingsToNote: [],
     furtherInformation: "",
     location: "",
+    taxCategory: "standard",
   });
 
   const [originalData, setOriginalData] = useState<ClassData | null>(null);
@@ -257,11 +262,13 @@ export default function AdminEditClassPage() {
             startTime,
             endDate,
             endTime,
+            capacity: s.capacity ? String(s.capacity) : "",
           } as SessionItem;
         }),
         thingsToNote: c.thingsToNote || [],
         furtherInformation: c.furtherInformation || "",
         location: c.location || "",
+        taxCategory: isTaxCategory(c.taxCategory) ? c.taxCategory : "standard",
       };
 
       const { main, orderedImages } = pickMain(imgs, formatted.image || undefined, detected);
@@ -493,6 +500,7 @@ export default function AdminEditClassPage() {
           id: s.id,
           start: startIso,
           end: endIso,
+          capacity: s.capacity ? Number(s.capacity) : null,
         };
       });
 
@@ -515,6 +523,7 @@ export default function AdminEditClassPage() {
         thingsToNote: formData.thingsToNote,
         furtherInformation: formData.furtherInformation,
         location: formData.location,
+        taxCategory: formData.taxCategory,
       };
 
       const res = await fetch(`/api/classes/${encodeURIComponent(formData._id)}`, {
@@ -675,6 +684,16 @@ export default function AdminEditClassPage() {
                   {errors.location && <p className="text-xs text-red-600 mt-1">{errors.location}</p>}
                 </div>
 
+                <div>
+                  <label className="block text-sm font-bold text-gray-900 mb-2">VAT</label>
+                  <select name="taxCategory" value={formData.taxCategory} onChange={handleInput} className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 transition-all">
+                    {TAX_CATEGORIES.map((c) => (
+                      <option key={c} value={c}>{TAX_CATEGORY_LABELS[c]}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">Price includes VAT at this rate</p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-bold text-gray-900 mb-2">Summary</label>
                   <input name="summary" value={formData.summary} onChange={handleInput} className="w-full px-4 py-3 border-2 rounded-xl border-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-900 transition-all" />
@@ -693,7 +712,7 @@ export default function AdminEditClassPage() {
 
               <div className="space-y-3">
                 {formData.sessions.map((s, i) => (
-                  <div key={s.id ?? i} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-center">
+                  <div key={s.id ?? i} className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-center">
                     <div>
                       <label className="text-xs text-gray-500">Start date</label>
                       <input
@@ -731,6 +750,19 @@ export default function AdminEditClassPage() {
                           className="px-3 py-2 border-2 rounded-xl border-gray-300 w-full"
                         />
                       </div>
+                    </div>
+                    <div className="flex gap-2 items-end">
+                      <div className="flex-1">
+                        <label className="text-xs text-gray-500">Seats</label>
+                        <input
+                          type="number"
+                          min={1}
+                          value={s.capacity ?? ""}
+                          onChange={(e) => updateSession(i, "capacity", e.target.value)}
+                          placeholder={formData.capacity === "" ? "Course" : String(formData.capacity)}
+                          className="px-3 py-2 border-2 rounded-xl border-gray-300 w-full"
+                        />
+                      </div>
                       <div>
                         <button type="button" onClick={() => removeSession(i)} className="px-3 py-2 rounded-xl border-2 border-red-200 text-red-600 hover:bg-red-50">Remove</button>
                       </div>
@@ -4,7 +4,7 @@ import AdminEditClassPage from "./ClassAdminEdit";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("classes.manage");
 
   // Render the client component (paste your provided client code into ./AdminEditClassPage.tsx)
   return <AdminEditClassPage />;
@@ -4,7 +4,7 @@ import AdminClassesList from "./ClassAdmin";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("classes.manage");
 
   // Render the client component (copy your provided client code into ./AdminClassesList.tsx)
   return <AdminClassesList sendCookies={true} />;
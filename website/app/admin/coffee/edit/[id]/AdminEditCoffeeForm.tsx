@@ -20,6 +20,7 @@ import {
   getVideoThumbnail,
   isVideo,
 } from "@/app/utils/cloudinary";
+import AuditHistoryPanel from "@/app/admin/audit/AuditHistoryPanel";
 
 interface CoffeeData {
   _id: string;
@@ -1153,6 +1154,12 @@ export default function AdminEditCoffeePage() {
           </aside>
         </form>
 
+        {formData._id && (
+          <section className="mt-8 bg-white rounded-2xl border-2 border-gray-200 p-4 sm:p-6 shadow-sm">
+            <AuditHistoryPanel entityType="coffee" entityId={formData._id} />
+          </section>
+        )}
+
         {/* Delete Confirmation Modal */}
         {showDeleteConfirm && (
           <div className="fixed inset-0 flex items-center justify-center bg-black/50 z-50 p-4">
@@ -8,7 +8,7 @@ export default async function AdminEditCoffeeRoute({
   params: { id: string };
 }): Promise<JSX.Element> {
   // server-side auth redirect if not authenticated
-  await requireAuth();
+  await requireAuth("catalogue.manage");
 
   // render the client component (keeps the client file exactly as you provided)
   return <AdminEditCoffeePage />;
@@ -4,7 +4,7 @@ import AdminCoffeeList from "./AdminCoffeeList";
 
 export default async function AdminCoffeeListPage(): Promise<JSX.Element> {
   // ensure the user is authenticated on the server (will redirect if not)
-  await requireAuth();
+  await requireAuth("catalogue.manage");
 
   return <AdminCoffeeList sendCookies={true} />;
 }
\ No newline at end of file
@@ -19,6 +19,13 @@ import {
   Box,
 } from "lucide-react";
 import { getCloudinaryUrl } from "@/app/utils/cloudinary";
+import {
+  defaultTaxCategory,
+  isTaxCategory,
+  TAX_CATEGORIES,
+  TAX_CATEGORY_LABELS,
+  type TaxCategory,
+} from "@/lib/vat";
 
 type SizeOption = string;
 type GrindOption =
@@ -49,6 +56,7 @@ interface ServerVariant {
   price?: number;
   stock?: number;
   img?: string;
+  taxCategory?: string;
 }
 
 interface VariantFormData {
@@ -63,6 +71,7 @@ interface VariantFormData {
   roastType: RoastTypeOption;
   price: number;
   stock: number;
+  taxCategory: TaxCategory;
   error?: string | null;
   isDirty?: boolean;
 }
@@ -342,6 +351,8 @@ export default function CreateVariantsPage({
           }
         } else if (field === "roastType") {
           variant.roastType = value as RoastTypeOption;
+        } else if (field === "taxCategory" && isTaxCategory(value)) {
+          variant.taxCategory = value;
         }
 
         variant.isDirty = true;
@@ -399,6 +410,7 @@ export default function CreateVariantsPage({
         grind: "whole-bean",
         roastType: "espresso",
         price: DEFAULT_PRICES["g"] ?? 14.99,
+        taxCategory: defaultTaxCategory("variant"),
         stock: 0,
         error: null,
         isDirty: true,
@@ -567,6 +579,7 @@ export default function CreateVariantsPage({
               grind: "whole-bean",
               roastType: "espresso",
               price: DEFAULT_PRICES["g"] ?? 14.99,
+              taxCategory: defaultTaxCategory("variant"),
               stock: 0,
               error: null,
               isDirty: false,
@@ -602,6 +615,7 @@ export default function CreateVariantsPage({
                 ? (sv.roastType as RoastTypeOption)
                 : "espresso",
               price: sv.price ?? DEFAULT_PRICES[unit] ?? 14.99,
+              taxCategory: isTaxCategory(sv.taxCategory) ? sv.taxCategory : defaultTaxCategory("variant"),
               stock: sv.stock ?? 0,
               error: null,
               isDirty: false,
@@ -626,6 +640,7 @@ export default function CreateVariantsPage({
             grind: "whole-bean",
             roastType: "espresso",
             price: DEFAULT_PRICES["g"] ?? 14.99,
+            taxCategory: defaultTaxCategory("variant"),
             stock: 0,
             error: null,
             isDirty: false,
@@ -723,6 +738,7 @@ export default function CreateVariantsPage({
           roastType: variant.roastType,
           price: variant.price,
           stock: variant.stock,
+          taxCategory: variant.taxCategory,
         };
 
         if (variant.id) {
@@ -795,6 +811,7 @@ export default function CreateVariantsPage({
             : previous.roastType;
           const price = serverVariant.price ?? previous.price;
           const stock = serverVariant.stock ?? previous.stock;
+          const taxCategory = isTaxCategory(serverVariant.taxCategory) ? serverVariant.taxCategory : previous.taxCategory;
           return {
             id,
             sku,
@@ -805,6 +822,7 @@ export default function CreateVariantsPage({
             roastType,
             price,
             stock,
+            taxCategory,
             isDirty: false,
             error: null,
             useAutoSku: true,
@@ -1368,6 +1386,35 @@ export default function CreateVariantsPage({
                           </div>
                           {/* ====== END FIXED GRID LAYOUT ====== */}
 
+                          <div className="mt-4">
+                            <label className="text-xs font-bold text-gray-900 uppercase tracking-wide block mb-2">
+                              VAT
+                            </label>
+                            <div className="relative sm:max-w-xs">
+                              <select
+                                value={variant.taxCategory}
+                                onChange={(e) =>
+                                  handleVariantChange(
+                                    i,
+                                    "taxCategory",
+                                    e.target.value
+                                  )
+                                }
+                                className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl text-sm bg-white focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent appearance-none cursor-pointer font-medium"
+                              >
+                                {TAX_CATEGORIES.map((c) => (
+                                  <option key={c} value={c}>
+                                    {TAX_CATEGORY_LABELS[c]}
+                                  </option>
+                                ))}
+                              </select>
+                              <ChevronDown
+                                size={16}
+                                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-600 pointer-events-none"
+                              />
+                            </div>
+                          </div>
+
                           <div className="mt-4 pt-4 border-t-2 border-gray-200">
                             <div className="flex items-center justify-between">
                               <span className="text-xs font-bold text-gray-900 uppercase tracking-wide">
@@ -4,7 +4,7 @@ import CreateVariantsPage from "./CreateVariantsPage";
 
 export default async function CreateVariantsRoute(): Promise<JSX.Element> {
   // server-side auth redirect if not authenticated
-  await requireAuth();
+  await requireAuth("catalogue.manage");
 
   // render the client component and ensure it will include cookies by default
   return <CreateVariantsPage sendCookies={true} />;
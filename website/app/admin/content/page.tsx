@@ -4,7 +4,7 @@ import OffersAdminPage from "./OffersAdminPage";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("content.manage");
 
   // Render the client component (paste your provided client code into ./OffersAdminPage.tsx)
   return <OffersAdminPage />;
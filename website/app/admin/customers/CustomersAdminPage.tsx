@@ -18,6 +18,7 @@ import {
   Trash2,
   User,
 } from 'lucide-react';
+import AuditHistoryPanel from '@/app/admin/audit/AuditHistoryPanel';
 
 type Address = {
   firstName?: string;
@@ -891,6 +892,10 @@ export default function ClientsPage() {
                   ))}
                 </div>
               )}
+
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <AuditHistoryPanel entityType="client" entityId={expandedClient._id} />
+              </div>
             </div>
           </div>
         </div>
@@ -4,7 +4,7 @@ import CreateClientPage from "./CreateClient";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("customers.manage");
 
   // Render the client component (paste your provided client code into ../CreateClientPage.tsx)
   return <CreateClientPage />;
@@ -4,7 +4,7 @@ import ClientsPage from "./CustomersAdminPage";
 
 export default async function Page() {
   // Server-side protection: will redirect / throw if not authenticated
-  await requireAuth();
+  await requireAuth("customers.view");
 
   // Render the client component (paste your provided client code into ./ClientsPage.tsx)
   return <ClientsPage />;
@@ -0,0 +1,280 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { FileText, Loader2, RotateCcw, Save } from "lucide-react";
+
+interface TemplateCopy {
+  subject: string;
+  intro: string;
+}
+
+interface EmailTemplateRow {
+  name: string;
+  label: string;
+  description: string;
+  audience: "customer" | "admin";
+  defaults: TemplateCopy;
+  placeholders: Record<string, string>;
+  copy: TemplateCopy;
+  customised: boolean;
+  updatedBy?: string | null;
+  updatedAt?: string | null;
+}
+
+interface Preview {
+  subject: string;
+  html: string;
+  text: string;
+  problem: string | null;
+}
+
+function formatDateTime(iso?: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-GB") : "—";
+}
+
+export default function EmailTemplatesAdminPage() {
+  const [templates, setTemplates] = useState<EmailTemplateRow[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateCopy>({ subject: "", intro: "" });
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [view, setView] = useState<"html" | "text">("html");
+  const [loading, setLoading] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const current = templates.find((t) => t.name === selected) ?? null;
+  const dirty = !!current && (draft.subject !== current.copy.subject || draft.intro !== current.copy.intro);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/email-templates");
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load templates (${res.status})`);
+      const rows = json.data as EmailTemplateRow[];
+      setTemplates(rows);
+      setSelected((prev) => prev ?? rows[0]?.name ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Start from the saved copy whenever another template is picked
+  useEffect(() => {
+    if (current) setDraft(current.copy);
+    setNotice(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected, templates]);
+
+  // Re-render the preview shortly after typing stops
+  useEffect(() => {
+    if (!selected) return;
+    const timer = setTimeout(async () => {
+      setPreviewing(true);
+      try {
+        const res = await fetch(`/api/admin/email-templates/${selected}/preview`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(draft),
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !json.ok) throw new Error(json.error || `Preview failed (${res.status})`);
+        setPreview(json.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setPreviewing(false);
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [selected, draft]);
+
+  const save = async () => {
+    if (!current) return;
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/email-templates/${current.name}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Save failed (${res.status})`);
+      setNotice(`Saved — the next "${current.label}" email uses this copy.`);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const reset = async () => {
+    if (!current) return;
+    if (!confirm(`Go back to the built-in subject and intro for "${current.label}"?`)) return;
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/email-templates/${current.name}`, { method: "DELETE" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Reset failed (${res.status})`);
+      setNotice(`"${current.label}" is back to its default copy.`);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <FileText size={22} /> Email Templates
+        </h1>
+        <p className="text-sm text-gray-600">
+          Preview every email the store sends with sample data, and change its subject and opening paragraph.
+        </p>
+      </div>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+      {notice && <div className="mb-4 text-sm text-green-800 bg-green-50 px-3 py-2 rounded">{notice}</div>}
+
+      {loading && templates.length === 0 ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
+          <ul className="bg-white border rounded-lg divide-y self-start">
+            {templates.map((t) => (
+              <li key={t.name}>
+                <button
+                  onClick={() => setSelected(t.name)}
+                  className={`w-full text-left px-4 py-3 text-sm ${selected === t.name ? "bg-gray-100" : "hover:bg-gray-50"}`}
+                >
+                  <div className="font-semibold">{t.label}</div>
+                  <div className="flex gap-1 mt-1">
+                    <span className="px-1.5 rounded text-xs bg-gray-100 text-gray-600">{t.audience}</span>
+                    {t.customised && <span className="px-1.5 rounded text-xs bg-blue-100 text-blue-800">edited</span>}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {current && (
+            <div className="space-y-4 min-w-0">
+              <div className="bg-white border rounded-lg p-4 space-y-3">
+                <div>
+                  <h2 className="text-lg font-bold">{current.label}</h2>
+                  <p className="text-sm text-gray-600">{current.description}</p>
+                  {current.customised && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Edited by {current.updatedBy || "an admin"} on {formatDateTime(current.updatedAt)}
+                    </p>
+                  )}
+                </div>
+
+                <label className="block text-sm">
+                  <span className="font-medium">Subject</span>
+                  <input
+                    value={draft.subject}
+                    onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                    className="mt-1 w-full border px-3 py-2 rounded text-sm"
+                    maxLength={200}
+                  />
+                </label>
+
+                <label className="block text-sm">
+                  <span className="font-medium">Intro</span>
+                  <textarea
+                    value={draft.intro}
+                    onChange={(e) => setDraft({ ...draft, intro: e.target.value })}
+                    rows={4}
+                    className="mt-1 w-full border px-3 py-2 rounded text-sm"
+                    maxLength={2000}
+                  />
+                  <span className="text-xs text-gray-500">Plain text. Leave a blank line to start a new paragraph.</span>
+                </label>
+
+                <div className="text-xs text-gray-600">
+                  <div className="font-medium mb-1">Placeholders</div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {Object.entries(current.placeholders).map(([key, label]) => (
+                      <span key={key}>
+                        <code className="bg-gray-100 px-1 rounded">{`{{${key}}}`}</code> {label}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                {preview?.problem && <div className="text-sm text-red-700">{preview.problem}</div>}
+
+                <div className="flex justify-end gap-2">
+                  {current.customised && (
+                    <button
+                      onClick={reset}
+                      disabled={saving}
+                      className="inline-flex items-center gap-2 px-4 py-2 border rounded-lg text-sm font-semibold disabled:opacity-50"
+                    >
+                      <RotateCcw size={16} /> Reset to default
+                    </button>
+                  )}
+                  <button
+                    onClick={save}
+                    disabled={saving || !dirty || !!preview?.problem}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg text-sm font-semibold disabled:opacity-50"
+                  >
+                    {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />} Save
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-white border rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-2 border-b gap-4">
+                  <div className="text-sm min-w-0">
+                    <span className="text-gray-500">Subject:</span>{" "}
+                    <span className="font-semibold break-words">{preview?.subject ?? "…"}</span>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {previewing && <Loader2 size={14} className="animate-spin text-gray-400" />}
+                    {(["html", "text"] as const).map((v) => (
+                      <button
+                        key={v}
+                        onClick={() => setView(v)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                          view === v ? "bg-black text-white border-black" : "bg-white text-gray-700"
+                        }`}
+                      >
+                        {v === "html" ? "HTML" : "Plain text"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {view === "html" ? (
+                  <iframe title="Email preview" sandbox="" srcDoc={preview?.html ?? ""} className="w-full h-[640px] bg-white" />
+                ) : (
+                  <pre className="p-4 text-xs whitespace-pre-wrap max-h-[640px] overflow-auto">{preview?.text ?? ""}</pre>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
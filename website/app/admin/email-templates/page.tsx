@@ -0,0 +1,10 @@
+import React from "react";
+import { requireAuth } from "@/lib/auth";
+import EmailTemplatesAdminPage from "./EmailTemplatesAdminPage";
+
+export default async function Page() {
+  // Server-side protection: will redirect / throw if not authenticated
+  await requireAuth("system.manage");
+
+  return <EmailTemplatesAdminPage />;
+}
@@ -13,6 +13,7 @@ import {
   Trash2,
   Film,
 } from "lucide-react";
+import { TAX_CATEGORIES, TAX_CATEGORY_LABELS, type TaxCategory } from "@/lib/vat";
 
 const ALLOWED_CATEGORIES = [
   "Espresso Machines",
@@ -32,6 +33,8 @@ type EquipmentFormData = {
   img: string; // main image public id
   images: string[]; // gallery public ids
   stock: number | "";
+  weightKg: number | ""; // boxed shipping weight
+  taxCategory: TaxCategory;
   notes: string;
   description: string;
   specs: { key: string; value: string }[]; // simple key/value pairs
@@ -105,6 +108,8 @@ export default function AdminCreateEquipmentPage({
     img: "",
     images: [],
     stock: "",
+    weightKg: "",
+    taxCategory: "standard",
     notes: "",
     description: "",
     specs: [],
@@ -134,6 +139,11 @@ export default function AdminCreateEquipmentPage({
       setErrors((s) => ({ ...s, stock: "" }));
       return;
     }
+    if (name === "weightKg") {
+      setField("weightKg", value === "" ? "" : Number(value));
+      setErrors((s) => ({ ...s, weightKg: "" }));
+      return;
+    }
     if (name === "slug") {
       setField("slug", value.toLowerCase().replace(/\s+/g, "-").replace(/[^\w-]/g, ""));
       setErrors((s) => ({ ...s, slug: "" }));
@@ -247,6 +257,8 @@ export default function AdminCreateEquipmentPage({
       next.price = "Price must be >= 0";
     if (formData.stock !== "" && (Number.isNaN(Number(formData.stock)) || Number(formData.stock) < 0))
       next.stock = "Stock must be >= 0";
+    if (formData.weightKg !== "" && (Number.isNaN(Number(formData.weightKg)) || Number(formData.weightKg) < 0))
+      next.weightKg = "Weight must be >= 0";
 
     setErrors(next);
     return Object.keys(next).length === 0;
@@ -323,6 +335,8 @@ export default function AdminCreateEquipmentPage({
         img: mainImagePublicId || undefined,
         images: allImages,
         stock: formData.stock === "" ? undefined : formData.stock,
+        weightGrams: formData.weightKg === "" ? undefined : Math.round(Number(formData.weightKg) * 1000),
+        taxCategory: formData.taxCategory,
         notes: formData.notes,
         description: formData.description,
         specs: formData.specs.reduce<Record<string, string>>((acc, s) => {
@@ -443,6 +457,22 @@ export default function AdminCreateEquipmentPage({
                     <input name="stock" type="number" min="0" step="1" value={formData.stock === "" ? "" : formData.stock} onChange={handleInputChange} className={`w-full px-4 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 transition-all ${errors.stock ? "border-red-400" : "border-gray-300"}`} />
                     {errors.stock && <p className="text-xs text-red-600 mt-1">{errors.stock}</p>}
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-bold text-gray-900 mb-2">Shipping weight (kg)</label>
+                    <input name="weightKg" type="number" min="0" step="0.01" value={formData.weightKg === "" ? "" : formData.weightKg} onChange={handleInputChange} placeholder="20" className={`w-full px-4 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 transition-all ${errors.weightKg ? "border-red-400" : "border-gray-300"}`} />
+                    {errors.weightKg ? <p className="text-xs text-red-600 mt-1">{errors.weightKg}</p> : <p className="text-xs text-gray-500 mt-1">Boxed weight, used for delivery rates</p>}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-bold text-gray-900 mb-2">VAT</label>
+                    <select name="taxCategory" value={formData.taxCategory} onChange={handleInputChange} className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 transition-all">
+                      {TAX_CATEGORIES.map((c) => (
+                        <option key={c} value={c}>{TAX_CATEGORY_LABELS[c]}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">Price includes VAT at this rate</p>
+                  </div>
                 </div>
 
                 <div>
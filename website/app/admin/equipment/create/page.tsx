@@ -4,7 +4,7 @@ import AdminCreateEquipmentPage from "./CreateEquipmentPage";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("catalogue.manage");
 
   // Render the client component (paste your provided client code into ../AdminCreateEquipmentPage.tsx)
   return <AdminCreateEquipmentPage sendCookies={true} />;
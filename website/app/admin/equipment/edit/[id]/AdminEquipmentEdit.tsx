@@ -20,6 +20,7 @@ import {
   getVideoThumbnail,
   isVideo,
 } from "@/app/utils/cloudinary";
+import { isTaxCategory, TAX_CATEGORIES, TAX_CATEGORY_LABELS, type TaxCategory } from "@/lib/vat";
 
 interface EquipmentData {
   _id: string;
@@ -32,6 +33,8 @@ interface EquipmentData {
   img: string;
   images: string[];
   totalStock: string;
+  weightKg: string;
+  taxCategory: TaxCategory;
   notes: string;
   description: string;
   specs: { key: string; value: string }[];
@@ -171,6 +174,8 @@ export default function AdminEditEquipmentPage() {
     img: "",
     images: [],
     totalStock: "",
+    weightKg: "",
+    taxCategory: "standard",
     notes: "",
     description: "",
     specs: [],
@@ -247,6 +252,8 @@ export default function AdminEditEquipmentPage() {
         img: e.imgPublicId || "",
         images: images,
         totalStock: e.stock ? e.stock.toString() : "",
+        weightKg: typeof e.weightGrams === "number" ? (e.weightGrams / 1000).toString() : "",
+        taxCategory: isTaxCategory(e.taxCategory) ? e.taxCategory : "standard",
         notes: e.notes || "",
         description: e.description || "",
         specs: specsArray,
@@ -319,6 +326,14 @@ export default function AdminEditEquipmentPage() {
       return;
     }
 
+    if (name === "weightKg") {
+      const parsed = parseFloat(value);
+      const n = value === "" || Number.isNaN(parsed) ? "" : Math.max(0, parsed).toString();
+      setField("weightKg", n);
+      setErrors((s) => ({ ...s, weightKg: "" }));
+      return;
+    }
+
     if (name === "name") {
       const newSlug = value
         .toLowerCase()
@@ -417,6 +432,8 @@ export default function AdminEditEquipmentPage() {
     if (formData.price !== "" && (Number.isNaN(p) || p < 0)) next.price = "Price must be >= 0";
     const s = parseInt(formData.totalStock, 10);
     if (formData.totalStock !== "" && (Number.isNaN(s) || s < 0)) next.stock = "Stock must be >= 0";
+    const w = parseFloat(formData.weightKg);
+    if (formData.weightKg !== "" && (Number.isNaN(w) || w < 0)) next.weightKg = "Weight must be >= 0";
     setErrors(next);
     return Object.keys(next).length === 0;
   };
@@ -510,6 +527,8 @@ export default function AdminEditEquipmentPage() {
         img: mainImage,
         images: orderedImages,
         totalStock: formData.totalStock === "" ? undefined : parseInt(formData.totalStock, 10),
+        weightGrams: formData.weightKg === "" ? undefined : Math.round(parseFloat(formData.weightKg) * 1000),
+        taxCategory: formData.taxCategory,
         notes: formData.notes || undefined,
         description: formData.description || undefined,
         specs: formData.specs.reduce<Record<string, string>>((acc, s) => {
@@ -784,6 +803,42 @@ export default function AdminEditEquipmentPage() {
                     />
                     {errors.stock && <p className="text-xs text-red-600 mt-1">{errors.stock}</p>}
                   </div>
+                  <div>
+                    <label className="block text-sm font-bold text-gray-900 mb-2">Shipping weight (kg)</label>
+                    <input
+                      name="weightKg"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={formData.weightKg}
+                      onChange={handleInputChange}
+                      placeholder="20"
+                      className={`w-full px-4 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all ${
+                        errors.weightKg ? "border-red-400" : "border-gray-300"
+                      }`}
+                    />
+                    {errors.weightKg ? (
+                      <p className="text-xs text-red-600 mt-1">{errors.weightKg}</p>
+                    ) : (
+                      <p className="text-xs text-gray-500 mt-1">Boxed weight, used for delivery rates</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-bold text-gray-900 mb-2">VAT</label>
+                    <select
+                      name="taxCategory"
+                      value={formData.taxCategory}
+                      onChange={handleInputChange}
+                      className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all"
+                    >
+                      {TAX_CATEGORIES.map((c) => (
+                        <option key={c} value={c}>
+                          {TAX_CATEGORY_LABELS[c]}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">Price includes VAT at this rate</p>
+                  </div>
                 </div>
                 <div>
                   <label className="block text-sm font-bold text-gray-900 mb-2">Notes</label>
@@ -4,7 +4,7 @@ import AdminEditEquipmentPage from "./AdminEquipmentEdit";
 
 export default async function Page() {
   // Server-side protection: will redirect / throw if not authenticated
-  await requireAuth();
+  await requireAuth("catalogue.manage");
 
   // Render the client component (paste your provided client code into ./AdminEditEquipmentPage.tsx)
   return <AdminEditEquipmentPage />;
@@ -4,7 +4,7 @@ import AdminEquipmentList from "./EquipmentAdminPage";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("catalogue.manage");
 
   // Render the client component (paste your provided client code into ./AdminEquipmentList.tsx)
   return <AdminEquipmentList sendCookies={true} />;
@@ -0,0 +1,515 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Plus, X, Loader2, Gift, Search, Mail, SlidersHorizontal } from "lucide-react";
+import { formatPenceToGBP, poundsToPence } from "@/lib/currency";
+
+type GiftCardKind = "gift_card" | "store_credit";
+
+interface GiftCard {
+  _id: string;
+  code: string;
+  kind: GiftCardKind;
+  initialBalancePence: number;
+  balancePence: number;
+  status: "active" | "disabled";
+  expiresAt?: string | null;
+  recipientEmail?: string | null;
+  recipientName?: string | null;
+  sourceOrderId?: string | null;
+  issuedBy?: string | null;
+  note?: string | null;
+  deliveredAt?: string | null;
+  lastDeliveryError?: string | null;
+  createdAt?: string;
+}
+
+interface GiftCardTransaction {
+  _id: string;
+  type: "issue" | "redeem" | "refund_credit" | "adjust";
+  amountPence: number;
+  balanceAfterPence: number;
+  orderId?: string | null;
+  note?: string | null;
+  actor?: string | null;
+  createdAt?: string;
+}
+
+interface IssueForm {
+  kind: GiftCardKind;
+  amount: string; // pounds
+  recipientEmail: string;
+  recipientName: string;
+  note: string;
+  expiresAt: string;
+  sendEmail: boolean;
+}
+
+const KIND_LABELS: Record<GiftCardKind, string> = {
+  gift_card: "Gift card",
+  store_credit: "Store credit",
+};
+
+const TRANSACTION_LABELS: Record<GiftCardTransaction["type"], string> = {
+  issue: "Issued",
+  redeem: "Spent",
+  refund_credit: "Refund credit",
+  adjust: "Adjustment",
+};
+
+const EMPTY_ISSUE: IssueForm = {
+  kind: "store_credit",
+  amount: "",
+  recipientEmail: "",
+  recipientName: "",
+  note: "",
+  expiresAt: "",
+  sendEmail: true,
+};
+
+function formatDate(value?: string | null) {
+  return value ? new Date(value).toLocaleDateString("en-GB") : "—";
+}
+
+export default function GiftCardsAdminPage() {
+  const [cards, setCards] = useState<GiftCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [kindFilter, setKindFilter] = useState<"" | GiftCardKind>("");
+
+  const [showIssue, setShowIssue] = useState(false);
+  const [issueForm, setIssueForm] = useState<IssueForm>(EMPTY_ISSUE);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<(GiftCard & { transactions: GiftCardTransaction[] }) | null>(null);
+  const [adjustAmount, setAdjustAmount] = useState("");
+  const [adjustNote, setAdjustNote] = useState("");
+  const [detailError, setDetailError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async (q: string, kind: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (q.trim()) params.set("q", q.trim());
+      if (kind) params.set("kind", kind);
+      const res = await fetch(`/api/gift-cards?${params.toString()}`, { credentials: "same-origin" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to load gift cards");
+      setCards(json.data as GiftCard[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load gift cards");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load("", kindFilter);
+  }, [load, kindFilter]);
+
+  const openDetail = async (id: string) => {
+    setDetailError(null);
+    setAdjustAmount("");
+    setAdjustNote("");
+    try {
+      const res = await fetch(`/api/gift-cards/${id}`, { credentials: "same-origin" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to load gift card");
+      setSelected(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load gift card");
+    }
+  };
+
+  const updateIssue = <K extends keyof IssueForm>(key: K, value: IssueForm[K]) =>
+    setIssueForm((f) => ({ ...f, [key]: value }));
+
+  async function issue(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch("/api/gift-cards", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({
+          kind: issueForm.kind,
+          amountPence: poundsToPence(Number(issueForm.amount || 0)),
+          recipientEmail: issueForm.recipientEmail,
+          recipientName: issueForm.recipientName,
+          note: issueForm.note,
+          expiresAt: issueForm.expiresAt || null,
+          sendEmail: issueForm.sendEmail,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to issue gift card");
+      setShowIssue(false);
+      setIssueForm(EMPTY_ISSUE);
+      if (issueForm.sendEmail && !json.data?.delivered) {
+        setError(`Issued ${json.data?.code}, but the email could not be sent. Use "Resend" to try again.`);
+      }
+      await load(query, kindFilter);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to issue gift card");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function patch(body: Record<string, unknown>) {
+    if (!selected) return;
+    setBusy(true);
+    setDetailError(null);
+    try {
+      const res = await fetch(`/api/gift-cards/${selected._id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify(body),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to update gift card");
+      await openDetail(selected._id);
+      await load(query, kindFilter);
+    } catch (err) {
+      setDetailError(err instanceof Error ? err.message : "Failed to update gift card");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function adjust(e: React.FormEvent) {
+    e.preventDefault();
+    await patch({ action: "adjust", amountPence: poundsToPence(Number(adjustAmount || 0)), note: adjustNote });
+    setAdjustAmount("");
+    setAdjustNote("");
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Gift Cards</h1>
+          <p className="text-sm text-gray-600">Gift cards sold in the shop and store credit issued to customers.</p>
+        </div>
+        <button
+          onClick={() => {
+            setIssueForm(EMPTY_ISSUE);
+            setFormError(null);
+            setShowIssue(true);
+          }}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg text-sm font-semibold"
+        >
+          <Plus size={16} /> Issue credit
+        </button>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load(query, kindFilter);
+        }}
+        className="flex flex-wrap gap-2 mb-4"
+      >
+        <div className="relative flex-1 min-w-[200px]">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search code or email"
+            className="w-full border pl-8 pr-3 py-2 rounded text-sm"
+          />
+        </div>
+        <select
+          value={kindFilter}
+          onChange={(e) => setKindFilter(e.target.value as "" | GiftCardKind)}
+          className="border px-3 py-2 rounded text-sm"
+        >
+          <option value="">All</option>
+          <option value="gift_card">Gift cards</option>
+          <option value="store_credit">Store credit</option>
+        </select>
+        <button type="submit" className="px-4 py-2 border rounded text-sm font-semibold">
+          Search
+        </button>
+      </form>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : cards.length === 0 ? (
+        <div className="bg-white border rounded-lg p-8 text-center text-gray-500">
+          <Gift className="mx-auto mb-2 text-gray-300" size={32} />
+          No gift cards found.
+        </div>
+      ) : (
+        <div className="bg-white border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3">Code</th>
+                <th className="px-4 py-3">Type</th>
+                <th className="px-4 py-3">Recipient</th>
+                <th className="px-4 py-3">Balance</th>
+                <th className="px-4 py-3">Expires</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {cards.map((c) => (
+                <tr key={c._id} className="border-t">
+                  <td className="px-4 py-3 font-mono font-semibold">{c.code}</td>
+                  <td className="px-4 py-3">{KIND_LABELS[c.kind]}</td>
+                  <td className="px-4 py-3">
+                    <div>{c.recipientName || "—"}</div>
+                    <div className="text-xs text-gray-500">{c.recipientEmail || ""}</div>
+                    {c.lastDeliveryError && !c.deliveredAt && (
+                      <div className="text-xs text-red-600">Email not delivered</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {formatPenceToGBP(c.balancePence)}
+                    <span className="text-gray-400"> / {formatPenceToGBP(c.initialBalancePence)}</span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{formatDate(c.expiresAt)}</td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`px-2 py-1 rounded text-xs font-semibold ${
+                        c.status === "active" ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"
+                      }`}
+                    >
+                      {c.status === "active" ? "Active" : "Disabled"}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end">
+                      <button onClick={() => openDetail(c._id)} className="p-2 rounded hover:bg-gray-100" title="Manage">
+                        <SlidersHorizontal size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showIssue && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <form onSubmit={issue} className="bg-white rounded-lg w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold">Issue credit</h2>
+              <button type="button" onClick={() => setShowIssue(false)} className="p-1 rounded hover:bg-gray-100">
+                <X size={18} />
+              </button>
+            </div>
+
+            {formError && <div className="text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{formError}</div>}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block text-sm">
+                <span className="font-medium">Type</span>
+                <select
+                  value={issueForm.kind}
+                  onChange={(e) => updateIssue("kind", e.target.value as GiftCardKind)}
+                  className="mt-1 w-full border px-3 py-2 rounded"
+                >
+                  {Object.entries(KIND_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Amount (GBP)</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  required
+                  value={issueForm.amount}
+                  onChange={(e) => updateIssue("amount", e.target.value)}
+                  className="mt-1 w-full border px-3 py-2 rounded"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Recipient email</span>
+                <input
+                  type="email"
+                  required
+                  value={issueForm.recipientEmail}
+                  onChange={(e) => updateIssue("recipientEmail", e.target.value)}
+                  className="mt-1 w-full border px-3 py-2 rounded"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Recipient name</span>
+                <input
+                  value={issueForm.recipientName}
+                  onChange={(e) => updateIssue("recipientName", e.target.value)}
+                  className="mt-1 w-full border px-3 py-2 rounded"
+                />
+              </label>
+              <label className="block text-sm sm:col-span-2">
+                <span className="font-medium">Reason{issueForm.kind === "store_credit" ? "" : " (optional)"}</span>
+                <input
+                  required={issueForm.kind === "store_credit"}
+                  value={issueForm.note}
+                  onChange={(e) => updateIssue("note", e.target.value)}
+                  placeholder="e.g. Goodwill for late delivery on order #1234"
+                  className="mt-1 w-full border px-3 py-2 rounded"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Expires</span>
+                <input
+                  type="date"
+                  value={issueForm.expiresAt}
+                  onChange={(e) => updateIssue("expiresAt", e.target.value)}
+                  className="mt-1 w-full border px-3 py-2 rounded"
+                />
+              </label>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={issueForm.sendEmail} onChange={(e) => updateIssue("sendEmail", e.target.checked)} />
+              Email the code to the recipient
+            </label>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button type="button" onClick={() => setShowIssue(false)} className="px-4 py-2 border rounded text-sm">
+                Cancel
+              </button>
+              <button type="submit" disabled={saving} className="px-4 py-2 bg-black text-white rounded text-sm font-semibold disabled:opacity-50">
+                {saving ? "Issuing…" : "Issue"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {selected && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={() => setSelected(null)}>
+          <div
+            className="bg-white rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-5"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-bold font-mono">{selected.code}</h2>
+                <p className="text-sm text-gray-600">
+                  {KIND_LABELS[selected.kind]} · {formatPenceToGBP(selected.balancePence)} of{" "}
+                  {formatPenceToGBP(selected.initialBalancePence)} left · expires {formatDate(selected.expiresAt)}
+                </p>
+              </div>
+              <button type="button" onClick={() => setSelected(null)} className="p-1 rounded hover:bg-gray-100">
+                <X size={18} />
+              </button>
+            </div>
+
+            {detailError && <div className="text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{detailError}</div>}
+
+            <div className="text-sm text-gray-700 space-y-1">
+              <div>
+                Recipient: {selected.recipientName || "—"} {selected.recipientEmail ? `<${selected.recipientEmail}>` : ""}
+              </div>
+              {selected.note && <div>Note: {selected.note}</div>}
+              {selected.issuedBy && <div>Issued by: {selected.issuedBy}</div>}
+              <div>
+                Email: {selected.deliveredAt ? `sent ${formatDate(selected.deliveredAt)}` : selected.lastDeliveryError ? `failed (${selected.lastDeliveryError})` : "not sent"}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => patch({ action: selected.status === "active" ? "disable" : "enable" })}
+                disabled={busy}
+                className="px-3 py-2 border rounded text-sm font-semibold disabled:opacity-50"
+              >
+                {selected.status === "active" ? "Disable" : "Enable"}
+              </button>
+              <button
+                onClick={() => patch({ action: "resend" })}
+                disabled={busy || !selected.recipientEmail}
+                className="inline-flex items-center gap-2 px-3 py-2 border rounded text-sm font-semibold disabled:opacity-50"
+              >
+                <Mail size={14} /> Resend email
+              </button>
+            </div>
+
+            <form onSubmit={adjust} className="border rounded p-4 space-y-3">
+              <div className="text-sm font-medium">Adjust balance</div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <input
+                  type="number"
+                  step="0.01"
+                  required
+                  value={adjustAmount}
+                  onChange={(e) => setAdjustAmount(e.target.value)}
+                  placeholder="+5.00 or -5.00"
+                  className="border px-3 py-2 rounded text-sm"
+                />
+                <input
+                  required
+                  value={adjustNote}
+                  onChange={(e) => setAdjustNote(e.target.value)}
+                  placeholder="Reason"
+                  className="border px-3 py-2 rounded text-sm sm:col-span-2"
+                />
+              </div>
+              <div className="flex justify-end">
+                <button type="submit" disabled={busy} className="px-4 py-2 bg-black text-white rounded text-sm font-semibold disabled:opacity-50">
+                  {busy ? "Saving…" : "Apply adjustment"}
+                </button>
+              </div>
+            </form>
+
+            <div>
+              <div className="text-sm font-medium mb-2">History</div>
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-600">
+                  <tr>
+                    <th className="py-2">Date</th>
+                    <th className="py-2">Type</th>
+                    <th className="py-2">Amount</th>
+                    <th className="py-2">Balance</th>
+                    <th className="py-2">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.transactions.map((t) => (
+                    <tr key={t._id} className="border-t">
+                      <td className="py-2 text-gray-600">{formatDate(t.createdAt)}</td>
+                      <td className="py-2">{TRANSACTION_LABELS[t.type]}</td>
+                      <td className={`py-2 ${t.amountPence < 0 ? "text-red-700" : "text-green-700"}`}>
+                        {t.amountPence < 0 ? "-" : "+"}
+                        {formatPenceToGBP(Math.abs(t.amountPence))}
+                      </td>
+                      <td className="py-2">{formatPenceToGBP(t.balanceAfterPence)}</td>
+                      <td className="py-2 text-gray-600">
+                        {t.note || (t.orderId ? `Order #${String(t.orderId).slice(-8).toUpperCase()}` : "")}
+                        {t.actor ? ` · ${t.actor}` : ""}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
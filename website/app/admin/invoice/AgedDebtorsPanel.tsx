@@ -0,0 +1,283 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FileText, Loader2, RefreshCw, Save } from "lucide-react";
+
+/*
+  Aged debtors: what each client owes on manual invoices, by how overdue it is,
+  with a statement PDF per client. Also where the reminder schedule is set.
+*/
+
+const BUCKETS = [
+  { key: "current", label: "Current" },
+  { key: "1-30", label: "1–30 days" },
+  { key: "31-60", label: "31–60 days" },
+  { key: "61-90", label: "61–90 days" },
+  { key: "90+", label: "90+ days" },
+] as const;
+
+type BucketKey = (typeof BUCKETS)[number]["key"];
+
+type DebtorRow = {
+  clientKey: string;
+  name: string;
+  email: string | null;
+  currency: string;
+  invoices: number;
+  oldestDueDate: string | null;
+  buckets: Record<BucketKey, number>;
+  total: number;
+};
+
+type AgedDebtors = { rows: DebtorRow[]; totals: Record<string, Record<BucketKey, number>> };
+
+function formatMoney(value: number, currency: string) {
+  if (!value) return "—";
+  try {
+    return new Intl.NumberFormat("en-GB", { style: "currency", currency }).format(value);
+  } catch {
+    return value.toFixed(2);
+  }
+}
+
+function ReminderSettings() {
+  const [enabled, setEnabled] = useState(true);
+  const [offsets, setOffsets] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const res = await fetch("/api/invoices/reminder-settings");
+      const json = await res.json().catch(() => ({}));
+      if (res.ok && json.ok) {
+        setEnabled(json.data.enabled);
+        setOffsets(json.data.offsets.join(", "));
+      }
+    })();
+  }, []);
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const list = offsets
+        .split(",")
+        .map((s) => s.trim())
+        .filter(Boolean)
+        .map(Number);
+      const res = await fetch("/api/invoices/reminder-settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled, offsets: list }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Save failed (${res.status})`);
+      setOffsets(json.data.offsets.join(", "));
+      setMessage({ ok: true, text: "Reminder schedule saved" });
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-md border border-gray-100 shadow-sm p-4 mb-6">
+      <h2 className="text-sm font-semibold text-gray-800 mb-1">Payment reminders</h2>
+      <p className="text-xs text-gray-600 mb-3">
+        Days relative to the due date when clients are emailed a reminder with their invoice: negative numbers are
+        before it, 0 is the due date. E.g. <span className="font-mono">-3, 0, 7, 14, 30</span>.
+      </p>
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <label className="inline-flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+          Send reminders automatically
+        </label>
+        <input
+          value={offsets}
+          onChange={(e) => setOffsets(e.target.value)}
+          disabled={!enabled}
+          className="flex-1 px-3 py-2 border border-gray-200 rounded-md text-sm font-mono disabled:bg-gray-50"
+          aria-label="Reminder days"
+        />
+        <button
+          onClick={save}
+          disabled={saving}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-md text-sm font-semibold disabled:opacity-50"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save
+        </button>
+      </div>
+      {message && (
+        <div className={`mt-2 text-xs ${message.ok ? "text-green-700" : "text-red-700"}`}>{message.text}</div>
+      )}
+    </div>
+  );
+}
+
+export default function AgedDebtorsPanel() {
+  const [data, setData] = useState<AgedDebtors | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/invoices/aged-debtors");
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load aged debtors (${res.status})`);
+      setData(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const downloadStatement = async (row: DebtorRow) => {
+    const key = `${row.clientKey}|${row.currency}`;
+    setDownloading(key);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ client: row.clientKey, currency: row.currency });
+      const res = await fetch(`/api/invoices/statement?${params.toString()}`);
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        throw new Error(json.error || `Failed to download statement (${res.status})`);
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `statement-${row.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div>
+      <ReminderSettings />
+
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-lg font-semibold">Aged debtors</h2>
+          <p className="text-xs text-gray-600">Outstanding balances on manual invoices, by days past the due date.</p>
+        </div>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+        >
+          <RefreshCw size={14} className={loading ? "animate-spin" : ""} /> Refresh
+        </button>
+      </div>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+
+      {!data ? (
+        <div className="flex items-center gap-2 text-gray-600 text-sm">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : data.rows.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-md border border-gray-100 text-sm text-gray-600">
+          Nothing outstanding — every manual invoice is paid.
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-100 rounded-md overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3">Client</th>
+                <th className="px-4 py-3">Invoices</th>
+                {BUCKETS.map((b) => (
+                  <th key={b.key} className="px-4 py-3 text-right">
+                    {b.label}
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-right">Total</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {data.rows.map((row) => (
+                <tr key={`${row.clientKey}|${row.currency}`} className="border-t align-top">
+                  <td className="px-4 py-3">
+                    <div className="font-semibold">{row.name}</div>
+                    {row.email && <div className="text-xs text-gray-500">{row.email}</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    {row.invoices}
+                    {row.oldestDueDate && (
+                      <div className="text-xs text-gray-500">
+                        oldest due {new Date(row.oldestDueDate).toLocaleDateString("en-GB")}
+                      </div>
+                    )}
+                  </td>
+                  {BUCKETS.map((b) => (
+                    <td
+                      key={b.key}
+                      className={`px-4 py-3 text-right ${b.key !== "current" && row.buckets[b.key] ? "text-red-700" : ""}`}
+                    >
+                      {formatMoney(row.buckets[b.key], row.currency)}
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-right font-semibold">{formatMoney(row.total, row.currency)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => downloadStatement(row)}
+                      disabled={downloading !== null}
+                      className="inline-flex items-center gap-1 px-2 py-1 border border-gray-300 rounded-md text-xs hover:bg-gray-50 disabled:opacity-50"
+                      title="Download statement PDF"
+                    >
+                      {downloading === `${row.clientKey}|${row.currency}` ? (
+                        <Loader2 size={12} className="animate-spin" />
+                      ) : (
+                        <FileText size={12} />
+                      )}{" "}
+                      Statement
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50 font-semibold">
+              {Object.entries(data.totals).map(([currency, totals]) => (
+                <tr key={currency} className="border-t">
+                  <td className="px-4 py-3" colSpan={2}>
+                    Total ({currency})
+                  </td>
+                  {BUCKETS.map((b) => (
+                    <td key={b.key} className="px-4 py-3 text-right">
+                      {formatMoney(totals[b.key], currency)}
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-right">
+                    {formatMoney(
+                      BUCKETS.reduce((sum, b) => sum + totals[b.key], 0),
+                      currency
+                    )}
+                  </td>
+                  <td />
+                </tr>
+              ))}
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
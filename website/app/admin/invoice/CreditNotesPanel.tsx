@@ -0,0 +1,328 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Download, FileMinus, Loader2 } from "lucide-react";
+
+/*
+  Credit notes section of the invoice details modal. Shop invoices get theirs
+  from refunds on the order; manual invoices can be credited here, by line or
+  as a lump sum.
+*/
+
+type CreditNote = {
+  _id: string;
+  number: string;
+  source: "refund" | "manual";
+  refundMethod?: "card" | "store_credit" | null;
+  lines: { lineIndex?: number | null; name: string; qty: number; totalPrice: number }[];
+  total: number;
+  reason?: string | null;
+  issuedBy?: string | null;
+  sent: boolean;
+  sendError?: string | null;
+  createdAt: string;
+};
+
+type CreditNotesData = { creditNotes: CreditNote[]; creditedAmount: number; creditable: number };
+
+export type InvoiceCreditUpdate = {
+  creditedAmount: number;
+  amountPaid?: number;
+  paymentStatus?: "unpaid" | "paid" | "partial";
+  paidAt?: string | null;
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  refund: "Refund",
+  store_credit: "Refund to store credit",
+  manual: "Manual credit",
+};
+
+function formatMoney(value: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-GB", { style: "currency", currency }).format(value);
+  } catch {
+    return value.toFixed(2);
+  }
+}
+
+export default function CreditNotesPanel({
+  invoiceId,
+  currency,
+  items,
+  canIssue,
+  onChange,
+}: {
+  invoiceId: string;
+  currency: string;
+  items: { name: string; qty: number; unitPrice: number }[];
+  canIssue: boolean;
+  onChange: (update: InvoiceCreditUpdate) => void;
+}) {
+  const [data, setData] = useState<CreditNotesData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [mode, setMode] = useState<"lines" | "amount">("lines");
+  const [qtys, setQtys] = useState<Record<number, string>>({});
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/invoices/${invoiceId}/credit-notes`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load credit notes (${res.status})`);
+      setData(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [invoiceId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Quantities per invoice line that earlier credit notes already cover
+  const creditedQty = useMemo(() => {
+    const map = new Map<number, number>();
+    for (const note of data?.creditNotes ?? []) {
+      for (const line of note.lines) {
+        if (typeof line.lineIndex === "number") map.set(line.lineIndex, (map.get(line.lineIndex) ?? 0) + line.qty);
+      }
+    }
+    return map;
+  }, [data]);
+
+  const selectedLines = Object.entries(qtys)
+    .map(([idx, qty]) => ({ lineIndex: Number(idx), qty: Number(qty) }))
+    .filter((l) => Number.isInteger(l.qty) && l.qty > 0);
+  const linesTotal = selectedLines.reduce((sum, l) => sum + (items[l.lineIndex]?.unitPrice ?? 0) * l.qty, 0);
+
+  const download = async (note: CreditNote) => {
+    setBusy(note._id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/invoices/credit-notes/${note._id}/download`);
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new Error(text || `Failed to download (${res.status})`);
+      }
+      const blob = new Blob([await res.arrayBuffer()], { type: "application/pdf" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `credit-note-${note.number}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Download failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const issue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body =
+      mode === "lines"
+        ? { lines: selectedLines, reason }
+        : { amount: Number(amount), reason };
+    if (mode === "lines" && selectedLines.length === 0) {
+      setError("Choose at least one line to credit");
+      return;
+    }
+    const total = mode === "lines" ? linesTotal : Number(amount);
+    if (!confirm(`Issue a credit note for ${formatMoney(total, currency)} and email it to the client?`)) return;
+
+    setBusy("issue");
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/invoices/${invoiceId}/credit-notes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Request failed (${res.status})`);
+      const invoice = json.data.invoice;
+      onChange({
+        creditedAmount: invoice.creditedAmount ?? 0,
+        amountPaid: invoice.amountPaid ?? 0,
+        paymentStatus: invoice.paymentStatus,
+        paidAt: invoice.paidAt ?? null,
+      });
+      setQtys({});
+      setAmount("");
+      setReason("");
+      setNotice(`Credit note ${json.data.creditNote.number} issued`);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!data) {
+    return (
+      <div className="mt-6 border-t pt-4 text-sm text-gray-600 flex items-center gap-2">
+        {error ? <span className="text-red-700">{error}</span> : <><Loader2 size={14} className="animate-spin" /> Loading credit notes…</>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6 border-t pt-4 space-y-4">
+      {error && <div className="text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+      {notice && <div className="text-sm text-green-800 bg-green-50 px-3 py-2 rounded">{notice}</div>}
+
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800">Credit notes</h3>
+        <div className="text-sm text-gray-700">
+          Credited <span className="font-semibold">{formatMoney(data.creditedAmount, currency)}</span>
+        </div>
+      </div>
+
+      {data.creditNotes.length === 0 ? (
+        <div className="text-sm text-gray-500 bg-gray-50 rounded-md p-3">No credit notes issued.</div>
+      ) : (
+        <table className="w-full text-sm border border-gray-100 rounded-md">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-3 py-2">Number</th>
+              <th className="px-3 py-2">Date</th>
+              <th className="px-3 py-2">Type</th>
+              <th className="px-3 py-2 text-right">Amount</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {data.creditNotes.map((note) => (
+              <tr key={note._id} className="border-t align-top">
+                <td className="px-3 py-2 font-medium">
+                  {note.number}
+                  {note.reason && <div className="text-xs text-gray-500 font-normal">{note.reason}</div>}
+                </td>
+                <td className="px-3 py-2">{new Date(note.createdAt).toLocaleDateString("en-GB")}</td>
+                <td className="px-3 py-2">
+                  {SOURCE_LABELS[note.refundMethod === "store_credit" ? "store_credit" : note.source]}
+                  {note.issuedBy && <div className="text-xs text-gray-500">by {note.issuedBy}</div>}
+                  {note.sendError ? (
+                    <div className="text-xs text-red-600">Not emailed: {note.sendError}</div>
+                  ) : note.sent ? (
+                    <div className="text-xs text-gray-500">Emailed</div>
+                  ) : null}
+                </td>
+                <td className="px-3 py-2 text-right font-medium">-{formatMoney(note.total, currency)}</td>
+                <td className="px-3 py-2 text-right">
+                  <button
+                    onClick={() => download(note)}
+                    disabled={busy !== null}
+                    className="inline-flex items-center gap-1 text-xs text-gray-700 hover:text-black disabled:opacity-50"
+                    title="Download PDF"
+                  >
+                    <Download size={12} /> PDF
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {canIssue && data.creditable > 0 && (
+        <form onSubmit={issue} className="bg-gray-50 rounded-md p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="text-xs font-semibold text-gray-700">
+              Issue a credit note · up to {formatMoney(data.creditable, currency)}
+            </div>
+            <div className="flex gap-1">
+              {([
+                ["lines", "By line"],
+                ["amount", "Amount"],
+              ] as const).map(([key, label]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setMode(key)}
+                  className={`px-2 py-1 rounded text-xs border ${
+                    mode === key ? "bg-black text-white border-black" : "border-gray-200 bg-white text-gray-700"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {mode === "lines" ? (
+            <div className="space-y-1">
+              {items.map((item, idx) => {
+                const left = item.qty - (creditedQty.get(idx) ?? 0);
+                return (
+                  <div key={idx} className="flex items-center justify-between gap-3 text-sm">
+                    <span className={left <= 0 ? "text-gray-400" : ""}>
+                      {item.name} <span className="text-xs text-gray-500">({formatMoney(item.unitPrice, currency)} each)</span>
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={left}
+                      step={1}
+                      disabled={left <= 0}
+                      value={qtys[idx] ?? ""}
+                      onChange={(e) => setQtys({ ...qtys, [idx]: e.target.value })}
+                      placeholder={`0–${Math.max(0, left)}`}
+                      className="w-20 px-2 py-1 border border-gray-200 rounded-md text-sm text-black bg-white disabled:opacity-50"
+                    />
+                  </div>
+                );
+              })}
+              <div className="text-xs text-gray-600 text-right">Credit {formatMoney(linesTotal, currency)}</div>
+            </div>
+          ) : (
+            <label className="block text-xs text-gray-600">
+              Amount
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={data.creditable}
+                required
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder={data.creditable.toFixed(2)}
+                className="mt-1 w-40 px-2 py-1.5 border border-gray-200 rounded-md text-sm text-black bg-white"
+              />
+            </label>
+          )}
+
+          <div className="flex gap-2 items-end">
+            <label className="flex-1 text-xs text-gray-600">
+              Reason
+              <input
+                required
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Shown on the credit note"
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-black bg-white"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={busy !== null}
+              className="inline-flex items-center justify-center gap-2 px-3 py-2 bg-black text-white rounded-md text-sm font-semibold disabled:opacity-50"
+            >
+              {busy === "issue" ? <Loader2 size={14} className="animate-spin" /> : <FileMinus size={14} />} Issue credit note
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
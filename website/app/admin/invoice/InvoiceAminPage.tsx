@@ -17,6 +17,9 @@ import {
   Package,
   DollarSign,
 } from "lucide-react";
+import InvoicePaymentsPanel, { type InvoiceBalanceUpdate } from "./InvoicePaymentsPanel";
+import AgedDebtorsPanel from "./AgedDebtorsPanel";
+import CreditNotesPanel, { type InvoiceCreditUpdate } from "./CreditNotesPanel";
 
 /*
   Classic (black & white) Admin Invoices Page
@@ -57,6 +60,9 @@ type Invoice = {
   recipientEmail?: string;
   source?: "manual" | "stripe";
   paymentStatus?: "unpaid" | "paid" | "partial";
+  amountPaid?: number;
+  creditedAmount?: number;
+  remindersPaused?: boolean;
   dueDate?: string | null;
   createdAt?: string;
   updatedAt?: string;
@@ -66,6 +72,11 @@ type ApiError = { error: string };
 
 type InvoicesResponse = { invoices: Invoice[] };
 
+// What the client owes after credit notes
+function netTotal(inv: Invoice) {
+  return Math.max(0, inv.total - (inv.creditedAmount ?? 0));
+}
+
 function formatCurrency(value: number, currency = "GBP") {
   try {
     return new Intl.NumberFormat("en-GB", {
@@ -90,9 +101,11 @@ export default function InvoicesPage() {
   const [page, setPage] = useState(1);
   const pageSize = 12;
 
+  const [view, setView] = useState<"invoices" | "debtors">("invoices");
   const [selected, setSelected] = useState<Invoice | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<Invoice | null>(null);
   const [actionLoading, setActionLoading] = useState<Record<string, boolean>>({});
+  const [exportLoading, setExportLoading] = useState(false);
 
   useEffect(() => {
     fetchInvoices();
@@ -132,12 +145,12 @@ export default function InvoicesPage() {
 
   // Calculate stats
   const stats = useMemo(() => {
-    const total = invoices.reduce((sum, inv) => sum + (inv.total || 0), 0);
+    const total = invoices.reduce((sum, inv) => sum + netTotal(inv), 0);
     const paid = invoices.filter((inv) => inv.paymentStatus === "paid").length;
     const unpaid = invoices.filter((inv) => inv.paymentStatus === "unpaid").length;
     const paidAmount = invoices
       .filter((inv) => inv.paymentStatus === "paid")
-      .reduce((sum, inv) => sum + (inv.total || 0), 0);
+      .reduce((sum, inv) => sum + netTotal(inv), 0);
 
     return { total, paid, unpaid, paidAmount, totalInvoices: invoices.length };
   }, [invoices]);
@@ -185,7 +198,9 @@ export default function InvoicesPage() {
         throw new Error(json.error || `Failed to mark paid (${res.status})`);
       }
       setInvoices((prev) =>
-        prev.map((p) => (p._id === id ? { ...p, paymentStatus: "paid", paidAt: new Date().toISOString() } : p))
+        prev.map((p) =>
+          p._id === id ? { ...p, paymentStatus: "paid", amountPaid: netTotal(p), paidAt: new Date().toISOString() } : p
+        )
       );
     } catch (err: unknown) {
       console.error(err);
@@ -195,6 +210,37 @@ export default function InvoicesPage() {
     }
   };
 
+  const applyBalance = (id: string, update: InvoiceBalanceUpdate | InvoiceCreditUpdate) => {
+    setInvoices((prev) => prev.map((p) => (p._id === id ? { ...p, ...update } : p)));
+    setSelected((s) => (s && s._id === id ? { ...s, ...update } : s));
+  };
+
+  const exportInvoicesCSV = async () => {
+    setExportLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/invoices/export");
+      if (!res.ok) {
+        const json: ApiError = await res.json().catch(() => ({ error: "" }));
+        throw new Error(json.error || `Export failed (${res.status})`);
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `invoices-${new Date().toISOString().slice(0, 10)}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to export invoices");
+    } finally {
+      setExportLoading(false);
+    }
+  };
+
   const deleteInvoice = async (id: string) => {
     setActionLoading((s) => ({ ...s, [id]: true }));
     try {
@@ -225,12 +271,39 @@ export default function InvoicesPage() {
               <p className="text-sm text-gray-600">Overview of all invoices. Search, filter, download and manage.</p>
             </div>
 
-            <a
-              href="/admin/invoice/create"
-              className="inline-flex items-center justify-center gap-2 px-5 py-2 bg-black text-white rounded-md text-sm font-semibold shadow-sm hover:opacity-95 transition"
-            >
-              <Plus size={16} /> Create Invoice
-            </a>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={exportInvoicesCSV}
+                disabled={exportLoading}
+                className="inline-flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-800 rounded-md text-sm hover:bg-gray-50 transition disabled:opacity-50"
+                title="Invoices and credit notes as CSV"
+              >
+                <Download size={16} /> {exportLoading ? "Exporting..." : "Export CSV"}
+              </button>
+              <a
+                href="/admin/invoice/create"
+                className="inline-flex items-center justify-center gap-2 px-5 py-2 bg-black text-white rounded-md text-sm font-semibold shadow-sm hover:opacity-95 transition"
+              >
+                <Plus size={16} /> Create Invoice
+              </a>
+            </div>
+          </div>
+
+          <div className="flex gap-2 mt-6">
+            {([
+              ["invoices", "All invoices"],
+              ["debtors", "Aged debtors"],
+            ] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setView(key)}
+                className={`px-4 py-2 rounded-md text-sm font-medium border transition ${
+                  view === key ? "bg-black text-white border-black" : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
 
           {/* Stats cards */}
@@ -241,7 +314,7 @@ export default function InvoicesPage() {
             </div>
 
             <div className="bg-white rounded-md p-4 border border-gray-100">
-              <p className="text-xs text-gray-500">Total Revenue</p>
+              <p className="text-xs text-gray-500">Net Revenue</p>
               <p className="text-2xl font-semibold mt-1">{formatCurrency(stats.total)}</p>
             </div>
 
@@ -262,6 +335,10 @@ export default function InvoicesPage() {
 
       {/* Main content */}
       <div className="max-w-7xl mx-auto px-6 py-8">
+        {view === "debtors" ? (
+          <AgedDebtorsPanel />
+        ) : (
+        <>
         {/* Search and filters */}
         <div className="bg-white rounded-md shadow-sm border border-gray-100 p-4 mb-6">
           <div className="flex flex-col lg:flex-row gap-4">
@@ -390,6 +467,16 @@ export default function InvoicesPage() {
                       <div className="text-right ml-4">
                         <div className="text-xs text-gray-500 mb-1">Total</div>
                         <div className="text-2xl font-bold text-gray-900">{formatCurrency(inv.total, inv.currency?.toUpperCase() ?? "GBP")}</div>
+                        {!!inv.creditedAmount && (
+                          <div className="text-xs text-gray-600 mt-1">
+                            Credited -{formatCurrency(inv.creditedAmount, inv.currency?.toUpperCase() ?? "GBP")}
+                          </div>
+                        )}
+                        {inv.paymentStatus !== "paid" && (inv.paymentStatus === "partial" || !!inv.creditedAmount) && (
+                          <div className="text-xs text-gray-600 mt-1">
+                            Balance {formatCurrency(netTotal(inv) - (inv.amountPaid ?? 0), inv.currency?.toUpperCase() ?? "GBP")}
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -498,6 +585,8 @@ export default function InvoicesPage() {
             </div>
           </>
         )}
+        </>
+        )}
       </div>
 
       {/* Details modal */}
@@ -595,6 +684,24 @@ export default function InvoicesPage() {
                         <div className="text-xl font-bold text-gray-900">{formatCurrency(selected.total, selected.currency?.toUpperCase())}</div>
                       </div>
                     </div>
+                    {!!selected.creditedAmount && (
+                      <>
+                        <div className="flex justify-between text-sm text-gray-700">
+                          <div>Credit notes</div>
+                          <div className="font-medium">-{formatCurrency(selected.creditedAmount, selected.currency?.toUpperCase())}</div>
+                        </div>
+                        <div className="flex justify-between text-sm text-gray-900 font-semibold">
+                          <div>Net total</div>
+                          <div>{formatCurrency(netTotal(selected), selected.currency?.toUpperCase())}</div>
+                        </div>
+                      </>
+                    )}
+                    {selected.paymentStatus === "partial" && (
+                      <div className="flex justify-between text-sm text-gray-700">
+                        <div>Paid to date</div>
+                        <div className="font-medium">{formatCurrency(selected.amountPaid ?? 0, selected.currency?.toUpperCase())}</div>
+                      </div>
+                    )}
                   </div>
 
                   <h3 className="text-sm font-semibold text-gray-800 mt-6 mb-3">Items</h3>
@@ -629,6 +736,12 @@ export default function InvoicesPage() {
                   <div className="text-xs text-gray-500">Created</div>
                   <div className="text-sm font-semibold text-gray-900">{new Date(selected.createdAt || "").toLocaleDateString()}</div>
                 </div>
+                {selected.dueDate && (
+                  <div className="bg-gray-50 rounded-md p-3">
+                    <div className="text-xs text-gray-500">Due</div>
+                    <div className="text-sm font-semibold text-gray-900">{new Date(selected.dueDate).toLocaleDateString()}</div>
+                  </div>
+                )}
                 {selected.paidAt && (
                   <div className="bg-green-50 rounded-md p-3">
                     <div className="text-xs text-green-700">Paid At</div>
@@ -636,6 +749,26 @@ export default function InvoicesPage() {
                   </div>
                 )}
               </div>
+
+              <CreditNotesPanel
+                key={`credits-${selected._id}`}
+                invoiceId={selected._id}
+                currency={selected.currency?.toUpperCase() || "GBP"}
+                items={selected.items ?? []}
+                canIssue={selected.source !== "stripe"}
+                onChange={(update) => applyBalance(selected._id, update)}
+              />
+
+              {selected.source !== "stripe" && (
+                <InvoicePaymentsPanel
+                  // Reloads the balance after a credit note
+                  key={`${selected._id}:${selected.creditedAmount ?? 0}`}
+                  invoiceId={selected._id}
+                  currency={selected.currency?.toUpperCase() || "GBP"}
+                  canRemind={!!selected.client?.email}
+                  onChange={(update) => applyBalance(selected._id, update)}
+                />
+              )}
             </div>
           </div>
         </div>
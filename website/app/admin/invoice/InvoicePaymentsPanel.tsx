@@ -0,0 +1,357 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Ban, Bell, BellOff, Loader2, Plus, Send } from "lucide-react";
+
+/*
+  Payments & reminders section of the invoice details modal (manual invoices).
+  Changes to the balance are reported back through onChange so the card list
+  stays in step without a reload.
+*/
+
+type Payment = {
+  _id: string;
+  amount: number;
+  method: string;
+  reference?: string | null;
+  note?: string | null;
+  paidAt: string;
+  recordedBy?: string | null;
+  voidedAt?: string | null;
+  voidedBy?: string | null;
+  voidReason?: string | null;
+};
+
+type Reminder = { offsetDays?: number | null; sentAt: string; sentBy?: string | null };
+
+type Ledger = {
+  payments: Payment[];
+  amountPaid: number;
+  balance: number;
+  reminders: Reminder[];
+  remindersPaused: boolean;
+};
+
+export type InvoiceBalanceUpdate = {
+  amountPaid: number;
+  paymentStatus: "unpaid" | "paid" | "partial";
+  paidAt?: string | null;
+  remindersPaused?: boolean;
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  bank_transfer: "Bank transfer",
+  card: "Card",
+  cash: "Cash",
+  cheque: "Cheque",
+  other: "Other",
+};
+
+function formatMoney(value: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-GB", { style: "currency", currency }).format(value);
+  } catch {
+    return value.toFixed(2);
+  }
+}
+
+function reminderLabel(offset?: number | null) {
+  if (offset == null) return "Sent by hand";
+  if (offset < 0) return `${-offset} day${offset === -1 ? "" : "s"} before due`;
+  if (offset === 0) return "On the due date";
+  return `${offset} day${offset === 1 ? "" : "s"} overdue`;
+}
+
+export default function InvoicePaymentsPanel({
+  invoiceId,
+  currency,
+  canRemind,
+  onChange,
+}: {
+  invoiceId: string;
+  currency: string;
+  canRemind: boolean;
+  onChange: (update: InvoiceBalanceUpdate) => void;
+}) {
+  const [ledger, setLedger] = useState<Ledger | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    amount: "",
+    method: "bank_transfer",
+    paidAt: new Date().toISOString().slice(0, 10),
+    reference: "",
+    note: "",
+  });
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/invoices/${invoiceId}/payments`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load payments (${res.status})`);
+      setLedger(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [invoiceId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const call = async (key: string, url: string, init: RequestInit) => {
+    setBusy(key);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Request failed (${res.status})`);
+      return json.data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const applyInvoice = (invoice: { amountPaid?: number; paymentStatus: InvoiceBalanceUpdate["paymentStatus"]; paidAt?: string | null }) => {
+    onChange({ amountPaid: invoice.amountPaid ?? 0, paymentStatus: invoice.paymentStatus, paidAt: invoice.paidAt ?? null });
+  };
+
+  const recordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await call("record", `/api/invoices/${invoiceId}/payments`, {
+      method: "POST",
+      body: JSON.stringify({ ...form, amount: Number(form.amount) }),
+    });
+    if (!data) return;
+    applyInvoice(data.invoice);
+    setForm((f) => ({ ...f, amount: "", reference: "", note: "" }));
+    setNotice("Payment recorded");
+    await load();
+  };
+
+  const voidPayment = async (payment: Payment) => {
+    const reason = prompt(`Void the ${formatMoney(payment.amount, currency)} payment? Give a reason:`);
+    if (!reason?.trim()) return;
+    const data = await call(payment._id, `/api/invoices/${invoiceId}/payments/${payment._id}`, {
+      method: "DELETE",
+      body: JSON.stringify({ reason }),
+    });
+    if (!data) return;
+    applyInvoice(data.invoice);
+    setNotice("Payment voided");
+    await load();
+  };
+
+  const sendReminder = async () => {
+    if (!confirm("Email a payment reminder with the invoice PDF now?")) return;
+    const data = await call("remind", `/api/invoices/${invoiceId}/remind`, { method: "POST" });
+    if (!data) return;
+    setNotice("Reminder queued");
+    await load();
+  };
+
+  const togglePaused = async () => {
+    if (!ledger) return;
+    const data = await call("pause", `/api/invoices/${invoiceId}/remind`, {
+      method: "PATCH",
+      body: JSON.stringify({ paused: !ledger.remindersPaused }),
+    });
+    if (!data) return;
+    setLedger({ ...ledger, remindersPaused: data.remindersPaused });
+  };
+
+  if (!ledger) {
+    return (
+      <div className="mt-6 border-t pt-4 text-sm text-gray-600 flex items-center gap-2">
+        {error ? <span className="text-red-700">{error}</span> : <><Loader2 size={14} className="animate-spin" /> Loading payments…</>}
+      </div>
+    );
+  }
+
+  const settled = ledger.balance <= 0;
+
+  return (
+    <div className="mt-6 border-t pt-4 space-y-6">
+      {error && <div className="text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+      {notice && <div className="text-sm text-green-800 bg-green-50 px-3 py-2 rounded">{notice}</div>}
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-800">Payments</h3>
+          <div className="text-sm text-gray-700">
+            Paid {formatMoney(ledger.amountPaid, currency)} · Balance{" "}
+            <span className="font-semibold">{formatMoney(ledger.balance, currency)}</span>
+          </div>
+        </div>
+
+        {ledger.payments.length === 0 ? (
+          <div className="text-sm text-gray-500 bg-gray-50 rounded-md p-3">No payments recorded yet.</div>
+        ) : (
+          <table className="w-full text-sm border border-gray-100 rounded-md">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-3 py-2">Date</th>
+                <th className="px-3 py-2">Method</th>
+                <th className="px-3 py-2">Reference</th>
+                <th className="px-3 py-2 text-right">Amount</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.payments.map((p) => (
+                <tr key={p._id} className={`border-t align-top ${p.voidedAt ? "text-gray-400" : ""}`}>
+                  <td className="px-3 py-2">{new Date(p.paidAt).toLocaleDateString("en-GB")}</td>
+                  <td className="px-3 py-2">
+                    {METHOD_LABELS[p.method] ?? p.method}
+                    {p.recordedBy && <div className="text-xs text-gray-500">by {p.recordedBy}</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    {p.reference || "—"}
+                    {p.note && <div className="text-xs text-gray-500">{p.note}</div>}
+                    {p.voidedAt && (
+                      <div className="text-xs text-red-600">
+                        Voided {new Date(p.voidedAt).toLocaleDateString("en-GB")}
+                        {p.voidedBy ? ` by ${p.voidedBy}` : ""}: {p.voidReason}
+                      </div>
+                    )}
+                  </td>
+                  <td className={`px-3 py-2 text-right font-medium ${p.voidedAt ? "line-through" : ""}`}>
+                    {formatMoney(p.amount, currency)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {!p.voidedAt && (
+                      <button
+                        onClick={() => voidPayment(p)}
+                        disabled={busy !== null}
+                        className="inline-flex items-center gap-1 text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                        title="Void payment"
+                      >
+                        <Ban size={12} /> Void
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {!settled && (
+          <form onSubmit={recordPayment} className="mt-3 grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+            <label className="text-xs text-gray-600">
+              Amount
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={ledger.balance}
+                required
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                placeholder={ledger.balance.toFixed(2)}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-black"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Method
+              <select
+                value={form.method}
+                onChange={(e) => setForm({ ...form, method: e.target.value })}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm bg-white text-black"
+              >
+                {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Date
+              <input
+                type="date"
+                required
+                value={form.paidAt}
+                onChange={(e) => setForm({ ...form, paidAt: e.target.value })}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-black"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Reference
+              <input
+                value={form.reference}
+                onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-black"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Note
+              <input
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-200 rounded-md text-sm text-black"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={busy !== null}
+              className="inline-flex items-center justify-center gap-2 px-3 py-2 bg-black text-white rounded-md text-sm font-semibold disabled:opacity-50"
+            >
+              {busy === "record" ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />} Record
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-800">Reminders</h3>
+          {!settled && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={togglePaused}
+                disabled={busy !== null}
+                className="inline-flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-md text-xs hover:bg-gray-50 disabled:opacity-50"
+              >
+                {ledger.remindersPaused ? <Bell size={12} /> : <BellOff size={12} />}
+                {ledger.remindersPaused ? "Resume reminders" : "Pause reminders"}
+              </button>
+              <button
+                onClick={sendReminder}
+                disabled={busy !== null || !canRemind}
+                title={canRemind ? "Send a reminder now" : "The client has no email address"}
+                className="inline-flex items-center gap-2 px-3 py-1.5 bg-black text-white rounded-md text-xs font-semibold disabled:opacity-50"
+              >
+                {busy === "remind" ? <Loader2 size={12} className="animate-spin" /> : <Send size={12} />} Send reminder
+              </button>
+            </div>
+          )}
+        </div>
+        {ledger.remindersPaused && !settled && (
+          <div className="text-xs text-gray-600 mb-2">Scheduled reminders are paused for this invoice.</div>
+        )}
+        {ledger.reminders.length === 0 ? (
+          <div className="text-sm text-gray-500 bg-gray-50 rounded-md p-3">No reminders sent.</div>
+        ) : (
+          <ul className="text-sm divide-y border border-gray-100 rounded-md">
+            {ledger.reminders.map((r, idx) => (
+              <li key={idx} className="px-3 py-2 flex justify-between">
+                <span>{reminderLabel(r.offsetDays)}</span>
+                <span className="text-gray-500">
+                  {new Date(r.sentAt).toLocaleString("en-GB")}
+                  {r.sentBy ? ` · ${r.sentBy}` : ""}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
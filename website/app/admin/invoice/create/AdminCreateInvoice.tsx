@@ -18,6 +18,7 @@ import {
   MapPin,
   FileText,
 } from "lucide-react";
+import { calculateVat, TAX_CATEGORIES, TAX_CATEGORY_LABELS, type TaxCategory } from "@/lib/vat";
 
 interface Address {
   line1?: string;
@@ -32,6 +33,7 @@ interface InvoiceItem {
   qty: number;
   unitPrice: number;
   totalPrice: number;
+  taxCategory: TaxCategory;
 }
 
 interface ClientInfo {
@@ -97,7 +99,7 @@ export default function CreateInvoiceForm() {
       postcode: "",
       country: "United Kingdom",
     },
-    items: [{ name: "", qty: 1, unitPrice: 0, totalPrice: 0 }],
+    items: [{ name: "", qty: 1, unitPrice: 0, totalPrice: 0, taxCategory: "standard" }],
     shipping: 0,
     notes: "",
     dueDate: "",
@@ -114,6 +116,7 @@ export default function CreateInvoiceForm() {
 
   const subtotal = formData.items.reduce((sum, item) => sum + item.totalPrice, 0);
   const total = subtotal + formData.shipping;
+  const vat = calculateVat(formData.items, { shipping: formData.shipping });
 
   const isValidEmail = (email?: string) => {
     if (!email) return false;
@@ -154,7 +157,7 @@ export default function CreateInvoiceForm() {
   const addItem = () => {
     setFormData((prev) => ({
       ...prev,
-      items: [...prev.items, { name: "", qty: 1, unitPrice: 0, totalPrice: 0 }],
+      items: [...prev.items, { name: "", qty: 1, unitPrice: 0, totalPrice: 0, taxCategory: "standard" }],
     }));
   };
 
@@ -505,7 +508,7 @@ export default function CreateInvoiceForm() {
                       )}
                     </div>
 
-                    <div className="grid grid-cols-3 gap-3">
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                       <div>
                         <label className="block text-xs font-bold text-gray-700 mb-1.5">
                           Quantity <span className="text-red-500">*</span>
@@ -523,7 +526,7 @@ export default function CreateInvoiceForm() {
 
                       <div>
                         <label className="block text-xs font-bold text-gray-700 mb-1.5">
-                          Unit price (£) <span className="text-red-500">*</span>
+                          Unit price (£, inc. VAT) <span className="text-red-500">*</span>
                         </label>
                         <input
                           type="number"
@@ -537,6 +540,21 @@ export default function CreateInvoiceForm() {
                         />
                       </div>
 
+                      <div>
+                        <label className="block text-xs font-bold text-gray-700 mb-1.5">VAT</label>
+                        <select
+                          value={item.taxCategory}
+                          onChange={(e) => handleItemChange(index, "taxCategory", e.target.value)}
+                          className="w-full px-3 py-2.5 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition-all text-sm"
+                        >
+                          {TAX_CATEGORIES.map((c) => (
+                            <option key={c} value={c}>
+                              {TAX_CATEGORY_LABELS[c]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
                       <div>
                         <label className="block text-xs font-bold text-gray-700 mb-1.5">Total (£)</label>
                         <input
@@ -648,6 +666,10 @@ export default function CreateInvoiceForm() {
                   <span className="font-bold text-gray-900">Total:</span>
                   <span className="font-bold text-gray-900">£{total.toFixed(2)}</span>
                 </div>
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>Includes VAT:</span>
+                  <span>£{vat.totalVat.toFixed(2)}</span>
+                </div>
               </div>
 
               <div className="space-y-3 pt-4 border-t-2 border-gray-200">
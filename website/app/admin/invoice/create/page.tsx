@@ -4,7 +4,7 @@ import CreateInvoiceForm from "./AdminCreateInvoice";
 
 export default async function Page() {
   // Server-side protection: will redirect / throw if not authenticated
-  await requireAuth();
+  await requireAuth("invoices.manage");
 
   // Render the client component (copy your provided client code into ./CreateInvoiceForm.tsx)
   return <CreateInvoiceForm />;
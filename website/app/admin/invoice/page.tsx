@@ -4,7 +4,7 @@ import InvoicesPage from "./InvoiceAminPage";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("invoices.manage");
 
   // Render the client component (paste your provided client code into ./InvoicesPage.tsx)
   return <InvoicesPage />;
@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Clock, Loader2, Play, RefreshCw } from "lucide-react";
+
+type RunStatus = "running" | "succeeded" | "failed";
+
+interface JobRow {
+  name: string;
+  label: string;
+  description: string;
+  schedule: string;
+  running: boolean;
+  lastRunAt?: string | null;
+  lastStatus?: RunStatus | null;
+  nextRunAt?: string | null;
+}
+
+interface JobRunRow {
+  _id: string;
+  job: string;
+  trigger: "schedule" | "manual";
+  triggeredBy?: string | null;
+  status: RunStatus;
+  scheduledFor?: string | null;
+  startedAt: string;
+  durationMs?: number | null;
+  result?: Record<string, unknown> | null;
+  error?: string | null;
+}
+
+const STATUS_STYLES: Record<RunStatus, string> = {
+  running: "bg-blue-100 text-blue-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+function formatDateTime(iso?: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-GB") : "—";
+}
+
+function formatDuration(ms?: number | null) {
+  if (ms == null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatResult(result?: Record<string, unknown> | null) {
+  if (!result) return "";
+  return Object.entries(result)
+    .map(([key, value]) => `${key}: ${typeof value === "object" ? JSON.stringify(value) : String(value)}`)
+    .join(" · ");
+}
+
+export default function JobsAdminPage() {
+  const [jobs, setJobs] = useState<JobRow[]>([]);
+  const [runs, setRuns] = useState<JobRunRow[]>([]);
+  const [filter, setFilter] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = useCallback(async (job: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (job) params.set("job", job);
+      const res = await fetch(`/api/admin/jobs?${params.toString()}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load jobs (${res.status})`);
+      setJobs(json.data.jobs);
+      setRuns(json.data.runs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(filter);
+  }, [filter, load]);
+
+  const runNow = async (job: JobRow) => {
+    if (!confirm(`Run "${job.label}" now?`)) return;
+    setBusy(job.name);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/jobs/${job.name}/run`, { method: "POST" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Run failed (${res.status})`);
+      const run = json.data as { status: RunStatus; error?: string | null; durationMs?: number | null };
+      if (run.status === "failed") {
+        setError(`"${job.label}" failed: ${run.error || "unknown error"}`);
+      } else {
+        setNotice(`"${job.label}" finished in ${formatDuration(run.durationMs)}`);
+      }
+      await load(filter);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const labelFor = (name: string) => jobs.find((j) => j.name === name)?.label ?? name;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Clock size={22} /> Scheduled Jobs
+          </h1>
+          <p className="text-sm text-gray-600">
+            Housekeeping that runs on a schedule (times are UTC). Each job runs on one server at a time; you can also
+            start one by hand.
+          </p>
+        </div>
+        <button
+          onClick={() => load(filter)}
+          disabled={loading}
+          className="inline-flex items-center gap-2 px-3 py-2 border rounded-lg text-sm font-semibold disabled:opacity-50"
+        >
+          <RefreshCw size={14} className={loading ? "animate-spin" : ""} /> Refresh
+        </button>
+      </div>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+      {notice && <div className="mb-4 text-sm text-green-800 bg-green-50 px-3 py-2 rounded">{notice}</div>}
+
+      {loading && jobs.length === 0 ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : (
+        <>
+          <div className="bg-white border rounded-lg overflow-x-auto mb-8">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3">Job</th>
+                  <th className="px-4 py-3">Schedule</th>
+                  <th className="px-4 py-3">Last run</th>
+                  <th className="px-4 py-3">Next run</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((j) => (
+                  <tr key={j.name} className="border-t align-top">
+                    <td className="px-4 py-3">
+                      <div className="font-semibold">{j.label}</div>
+                      <div className="text-xs text-gray-500">{j.description}</div>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs">{j.schedule}</td>
+                    <td className="px-4 py-3">
+                      <div className="text-gray-600">{formatDateTime(j.lastRunAt)}</div>
+                      {j.running ? (
+                        <span className={`px-2 py-0.5 rounded text-xs font-semibold ${STATUS_STYLES.running}`}>running</span>
+                      ) : (
+                        j.lastStatus && (
+                          <span className={`px-2 py-0.5 rounded text-xs font-semibold ${STATUS_STYLES[j.lastStatus]}`}>
+                            {j.lastStatus}
+                          </span>
+                        )
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{formatDateTime(j.nextRunAt)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end">
+                        <button
+                          onClick={() => runNow(j)}
+                          disabled={busy !== null || j.running}
+                          className="inline-flex items-center gap-2 px-3 py-1.5 bg-black text-white rounded-lg text-xs font-semibold disabled:opacity-50"
+                        >
+                          {busy === j.name ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />} Run now
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between mb-3 gap-4">
+            <h2 className="text-lg font-bold">Run history</h2>
+            <select value={filter} onChange={(e) => setFilter(e.target.value)} className="border px-3 py-2 rounded text-sm">
+              <option value="">All jobs</option>
+              {jobs.map((j) => (
+                <option key={j.name} value={j.name}>
+                  {j.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {runs.length === 0 ? (
+            <div className="bg-white border rounded-lg p-8 text-center text-gray-500">
+              <Clock className="mx-auto mb-2 text-gray-300" size={32} />
+              No runs in the last 30 days.
+            </div>
+          ) : (
+            <div className="bg-white border rounded-lg overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3">Job</th>
+                    <th className="px-4 py-3">Started</th>
+                    <th className="px-4 py-3">Trigger</th>
+                    <th className="px-4 py-3">Duration</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map((r) => (
+                    <tr key={r._id} className="border-t align-top">
+                      <td className="px-4 py-3 font-semibold">{labelFor(r.job)}</td>
+                      <td className="px-4 py-3 text-gray-600">{formatDateTime(r.startedAt)}</td>
+                      <td className="px-4 py-3 text-xs">
+                        {r.trigger === "manual" ? `by ${r.triggeredBy || "an admin"}` : "schedule"}
+                        {r.scheduledFor && <div className="text-gray-500">slot {formatDateTime(r.scheduledFor)}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">{formatDuration(r.durationMs)}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded text-xs font-semibold ${STATUS_STYLES[r.status]}`}>
+                          {r.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-xs max-w-sm break-words">
+                        {r.error ? <span className="text-red-700">{r.error}</span> : formatResult(r.result)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
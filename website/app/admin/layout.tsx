@@ -21,8 +21,19 @@ import {
   FaFileAlt,
   FaMugHot,
   FaReceipt,
+  FaTags,
+  FaRedo,
+  FaGift,
+  FaPercent,
+  FaStripeS,
+  FaEnvelope,
+  FaEnvelopeOpenText,
+  FaHistory,
+  FaUserShield,
+  FaClock,
 } from "react-icons/fa";
 import { TbCodeVariablePlus } from "react-icons/tb";
+import { AdminRole, canViewAdminPage } from "@/lib/permissions";
 
 const COLORS = {
   primary: "#111827",
@@ -49,6 +60,7 @@ export default function AdminLayout({
 }) {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [userInfo, setUserInfo] = useState({ userName: "", mounted: false });
+  const [me, setMe] = useState<{ username: string; role: AdminRole; roleLabel: string } | null>(null);
   const router = useRouter();
   const pathname = usePathname();
 
@@ -66,6 +78,27 @@ export default function AdminLayout({
     updateUserInfo();
   }, []);
 
+  // Load the signed-in admin's role so the menu only offers what it allows
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/admin/me", { credentials: "same-origin" });
+        if (res.status === 401) {
+          router.replace("/login");
+          return;
+        }
+        const json = await res.json().catch(() => ({}));
+        if (!cancelled && res.ok && json.ok) setMe(json.data);
+      } catch (err) {
+        console.error("Failed to load admin profile:", err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [router]);
+
   // Logout handler that calls the logout API to clear the httpOnly cookie
   const handleLogout = async () => {
     try {
@@ -87,7 +120,7 @@ export default function AdminLayout({
     }
   };
 
-  const menuItems: MenuItem[] = [
+  const allMenuItems: MenuItem[] = [
     {
       id: "dashboard",
       label: "Dashboard",
@@ -123,6 +156,27 @@ export default function AdminLayout({
       href: "/admin/orders",
       category: "commerce",
     },
+    {
+      id: "promotions",
+      label: "Promotions",
+      icon: <FaTags size={20} />,
+      href: "/admin/promotions",
+      category: "commerce",
+    },
+    {
+      id: "gift-cards",
+      label: "Gift Cards",
+      icon: <FaGift size={20} />,
+      href: "/admin/gift-cards",
+      category: "commerce",
+    },
+    {
+      id: "subscriptions",
+      label: "Subscriptions",
+      icon: <FaRedo size={20} />,
+      href: "/admin/subscriptions",
+      category: "commerce",
+    },
     {
       id: "customers",
       label: "Customers",
@@ -165,6 +219,48 @@ export default function AdminLayout({
       href: "/admin/invoice",
       category: "settings",
     },
+    {
+      id: "vat",
+      label: "VAT",
+      icon: <FaPercent size={20} />,
+      href: "/admin/vat",
+      category: "settings",
+    },
+    {
+      id: "audit",
+      label: "Audit Log",
+      icon: <FaHistory size={20} />,
+      href: "/admin/audit",
+      category: "settings",
+    },
+    {
+      id: "stripe-events",
+      label: "Stripe Events",
+      icon: <FaStripeS size={20} />,
+      href: "/admin/stripe-events",
+      category: "settings",
+    },
+    {
+      id: "outbox",
+      label: "Email Outbox",
+      icon: <FaEnvelope size={20} />,
+      href: "/admin/outbox",
+      category: "settings",
+    },
+    {
+      id: "email-templates",
+      label: "Email Templates",
+      icon: <FaEnvelopeOpenText size={20} />,
+      href: "/admin/email-templates",
+      category: "settings",
+    },
+    {
+      id: "jobs",
+      label: "Scheduled Jobs",
+      icon: <FaClock size={20} />,
+      href: "/admin/jobs",
+      category: "settings",
+    },
     {
       id: "admins",
       label: "Admins",
@@ -179,8 +275,17 @@ export default function AdminLayout({
       href: "/admin/settings/",
       category: "settings",
     },
+    {
+      id: "account",
+      label: "My Account",
+      icon: <FaUserShield size={20} />,
+      href: "/admin/account",
+      category: "settings",
+    },
   ];
 
+  const menuItems = me ? allMenuItems.filter((item) => canViewAdminPage(me.role, item.href)) : [];
+
   const isActive = (href: string) => pathname === href;
 
   // Group menu items by category
@@ -409,16 +514,17 @@ export default function AdminLayout({
               </div>
             </div>
             <div className="flex-shrink-0">
-              {userInfo.mounted && userInfo.userName && (
+              {userInfo.mounted && (me?.username || userInfo.userName) && (
                 <p className="text-xs sm:text-sm text-gray-600 text-right">
                   Welcome,{" "}
                   <span
                     className="font-semibold"
                     style={{ color: COLORS.primary }}
                   >
-                    {userInfo.userName}
+                    {me?.username || userInfo.userName}
                   </span>
                   !
+                  {me && <span className="block text-xs text-gray-500">{me.roleLabel}</span>}
                 </p>
               )}
             </div>
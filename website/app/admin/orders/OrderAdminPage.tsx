@@ -20,6 +20,9 @@ import {
   Download,
 } from "lucide-react";
 import Fuse, { FuseResult } from "fuse.js";
+import { SHIPPING_SERVICE_LABELS, type ShippingService } from "@/lib/shipping";
+import ReturnsAdminPanel, { OrderReturnsSection } from "./ReturnsAdminPanel";
+import AuditHistoryPanel from "@/app/admin/audit/AuditHistoryPanel";
 
 /**
  * Client-side searching approach
@@ -85,6 +88,17 @@ type Refund = {
   refundId?: string;
 };
 
+type Dispute = {
+  disputeId: string;
+  status: string;
+  reason?: string | null;
+  amount: number;
+  currency?: string;
+  evidenceDueBy?: string | null;
+  openedAt?: string | null;
+  closedAt?: string | null;
+};
+
 type Order = {
   _id: string;
   paymentIntentId?: string;
@@ -94,15 +108,22 @@ type Order = {
   items: OrderItem[];
   metadata?: Record<string, unknown>;
   paidAt?: string | null;
-  status?: "paid" | "pending" | "failed" | "refunded" | "partially_refunded" | "processing" | "shipped" | string;
+  status?: "paid" | "pending" | "failed" | "refunded" | "partially_refunded" | "processing" | "shipped" | "disputed" | string;
   clientId?: string;
   billingAddress?: Address | null;
   shippingAddress?: Address | null;
   shipping?: number;
+  shippingService?: ShippingService | null;
+  shippingZone?: string | null;
   subtotal?: number;
+  discount?: number;
+  discountCode?: string | null;
+  giftCardAmount?: number;
+  giftCardCode?: string | null;
   total?: number;
   shipment?: Shipment | null;
   refund?: Refund | null;
+  dispute?: Dispute | null;
 };
 
 type ApiError = { error: string };
@@ -148,6 +169,11 @@ function getStatusColor(status?: string) {
       return "bg-red-50 text-red-800 border-red-200";
     case "processing":
       return "bg-yellow-100 text-yellow-800 border-yellow-200";
+    case "disputed":
+      return "bg-orange-100 text-orange-800 border-orange-200";
+    case "failed":
+    case "cancelled":
+      return "bg-gray-100 text-gray-500 border-gray-200";
     case "pending":
       return "bg-gray-100 text-gray-800 border-gray-200";
     default:
@@ -167,11 +193,30 @@ function getStatusIcon(status?: string) {
       return <RefreshCw size={14} />;
     case "processing":
       return <Clock size={14} />;
+    case "disputed":
+    case "failed":
+      return <AlertCircle size={14} />;
     default:
       return <Clock size={14} />;
   }
 }
 
+/* ---------------------- Dispute helpers --------------------- */
+
+function formatStripeValue(value?: string | null) {
+  return value ? value.replace(/_/g, " ") : "—";
+}
+
+// Whole days left to submit evidence; negative once the deadline has passed
+function daysUntil(iso?: string | null): number | null {
+  if (!iso) return null;
+  return Math.ceil((new Date(iso).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+}
+
+function isDisputeOpen(order: Order): boolean {
+  return !!order.dispute && !order.dispute.closedAt;
+}
+
 /* ---------------------- Refund helpers --------------------- */
 
 function getRefundedAmount(order: Order): number {
@@ -216,6 +261,8 @@ export default function OrdersPage() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [mobileFiltersOpen, setMobileFiltersOpen] = useState(false);
 
+  const [tab, setTab] = useState<"orders" | "returns">("orders");
+
   // Client-side pagination / view
   const [page, setPage] = useState(1);
   const perPage = 12;
@@ -232,6 +279,9 @@ export default function OrdersPage() {
 
   const [refundAmount, setRefundAmount] = useState("");
   const [refundReason, setRefundReason] = useState("");
+  const [refundToStoreCredit, setRefundToStoreCredit] = useState(false);
+  // Quantity refunded per order line; listed on the credit note
+  const [refundLines, setRefundLines] = useState<Record<number, string>>({});
   const [shipmentProvider, setShipmentProvider] = useState<ShipmentProvider>("royal-mail");
   const [trackingCode, setTrackingCode] = useState("");
   const [estimatedDelivery, setEstimatedDelivery] = useState("");
@@ -420,6 +470,13 @@ export default function OrdersPage() {
 
   /* ---------------------- Action handlers --------------------- */
 
+  // A completed return refunds the order; swap in the refreshed copy
+  function replaceOrder(updated: { _id: string }) {
+    const next = updated as Order;
+    setAllOrders((prev) => prev.map((o) => (o._id === next._id ? { ...o, ...next } : o)));
+    setSelected((cur) => (cur && cur._id === next._id ? { ...cur, ...next } : cur));
+  }
+
   const deleteOrder = async (id: string) => {
     setActionLoading((s) => ({ ...s, [id]: true }));
     try {
@@ -441,6 +498,22 @@ export default function OrdersPage() {
     }
   };
 
+  const selectedRefundLines = () =>
+    Object.entries(refundLines)
+      .map(([idx, qty]) => ({ lineIndex: Number(idx), qty: Number(qty) }))
+      .filter((l) => Number.isInteger(l.qty) && l.qty > 0);
+
+  // Picking lines fills in the amount; it can still be edited (e.g. to keep postage back)
+  const setRefundLineQty = (order: Order, lineIndex: number, qty: string) => {
+    const next = { ...refundLines, [lineIndex]: qty };
+    setRefundLines(next);
+    const total = Object.entries(next).reduce((sum, [idx, q]) => {
+      const n = Number(q);
+      return Number.isInteger(n) && n > 0 ? sum + (order.items[Number(idx)]?.unitPrice ?? 0) * n : sum;
+    }, 0);
+    if (total > 0) setRefundAmount(Math.min(total, getRefundableAmount(order)).toFixed(2));
+  };
+
   const refundOrder = async () => {
     if (!refundModal) return;
     const amount = parseFloat(refundAmount);
@@ -451,6 +524,7 @@ export default function OrdersPage() {
       return;
     }
 
+    const lines = selectedRefundLines();
     setActionLoading((s) => ({ ...s, [refundModal._id]: true }));
     try {
       const res = await fetch(`/api/orders/${refundModal._id}/refund`, {
@@ -459,6 +533,8 @@ export default function OrdersPage() {
         body: JSON.stringify({
           amount,
           reason: refundReason.trim() || undefined,
+          toStoreCredit: refundToStoreCredit || undefined,
+          lines: lines.length ? lines : undefined,
         }),
       });
       if (!res.ok) {
@@ -470,7 +546,11 @@ export default function OrdersPage() {
       // server returns { data: { refund, order } } — prefer the updated order if present
       const returnedOrder: Order | undefined = json?.data?.order ?? json?.data;
 
-      showSuccess(`Order refunded successfully (${formatCurrency(amount, (refundModal.currency || "GBP").toUpperCase())})`);
+      showSuccess(
+        refundToStoreCredit
+          ? `Store credit issued and emailed (${formatCurrency(amount, (refundModal.currency || "GBP").toUpperCase())})`
+          : `Order refunded successfully (${formatCurrency(amount, (refundModal.currency || "GBP").toUpperCase())})`
+      );
 
       if (returnedOrder) {
         setAllOrders((arr) => arr.map((o) => (o._id === returnedOrder._id ? returnedOrder : o)));
@@ -509,6 +589,7 @@ export default function OrdersPage() {
       // close the confirmation modal (if open)
       setRefundConfirmOpen(false);
       setRefundReason("");
+      setRefundToStoreCredit(false);
     } catch (err: unknown) {
       console.error(err);
       setError(err instanceof Error ? err.message : "Failed to refund order");
@@ -698,6 +779,27 @@ export default function OrdersPage() {
 
       {/* Main */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        {/* Tabs */}
+        <div className="flex gap-2 mb-6" role="tablist">
+          {(["orders", "returns"] as const).map((t) => (
+            <button
+              key={t}
+              role="tab"
+              aria-selected={tab === t}
+              onClick={() => setTab(t)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${
+                tab === t ? "bg-gray-900 text-white" : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {t === "orders" ? "Orders" : "Returns"}
+            </button>
+          ))}
+        </div>
+
+        {tab === "returns" ? (
+          <ReturnsAdminPanel onOrderChanged={replaceOrder} />
+        ) : (
+        <>
         {/* Filters */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 sm:p-5 mb-6">
           <div className="flex flex-col gap-4">
@@ -790,7 +892,10 @@ export default function OrdersPage() {
                   <option value="processing">Processing</option>
                   <option value="shipped">Shipped</option>
                   <option value="refunded">Refunded</option>
+                  <option value="disputed">Disputed</option>
                   <option value="pending">Pending</option>
+                  <option value="failed">Failed</option>
+                  <option value="cancelled">Cancelled</option>
                 </select>
                 <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
               </div>
@@ -817,7 +922,10 @@ export default function OrdersPage() {
                   <option value="processing">Processing</option>
                   <option value="shipped">Shipped</option>
                   <option value="refunded">Refunded</option>
+                  <option value="disputed">Disputed</option>
                   <option value="pending">Pending</option>
+                  <option value="failed">Failed</option>
+                  <option value="cancelled">Cancelled</option>
                 </select>
                 <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" size={16} />
               </div>
@@ -894,6 +1002,8 @@ export default function OrdersPage() {
                         className={`absolute inset-0 transition-all ${
                           o.status === "refunded"
                             ? "bg-gradient-to-r from-red-500 to-red-600"
+                            : o.status === "disputed"
+                            ? "bg-gradient-to-r from-orange-500 to-orange-600"
                             : o.status === "shipped"
                             ? "bg-gradient-to-r from-blue-500 to-blue-600"
                             : o.status === "paid"
@@ -954,6 +1064,13 @@ export default function OrdersPage() {
                             </span>
                           )}
 
+                          {isDisputeOpen(o) && o.dispute?.evidenceDueBy && (
+                            <span className="inline-flex items-center gap-1.5 bg-orange-50 text-orange-800 border border-orange-200 px-2.5 py-1 rounded-lg text-xs font-medium">
+                              <AlertCircle size={12} /> Evidence due{" "}
+                              {new Date(o.dispute.evidenceDueBy).toLocaleDateString("en-GB", { day: "numeric", month: "short" })}
+                            </span>
+                          )}
+
                           {refundable > 0 && refunded > 0 && (
                             <span className="inline-flex items-center gap-1.5 bg-yellow-50 text-yellow-800 border border-yellow-200 px-2.5 py-1 rounded-lg text-xs font-medium">
                               Remaining {formatCurrency(refundable, (o.currency || "GBP").toUpperCase())}
@@ -990,12 +1107,13 @@ export default function OrdersPage() {
                           </button>
                         )}
 
-                        {getRefundableAmount(o) > 0 && o.status !== "refunded" ? (
+                        {getRefundableAmount(o) > 0 && o.status !== "refunded" && o.status !== "disputed" ? (
                           <button
                             onClick={() => {
                               setRefundModal(o);
                               setRefundAmount(String(getRefundableAmount(o)));
                               setRefundReason("");
+                              setRefundLines({});
                             }}
                             className="flex-1 inline-flex items-center justify-center gap-2 px-3 py-2 border border-orange-200 bg-orange-50 text-orange-700 rounded-lg text-xs sm:text-sm hover:bg-orange-100 transition font-medium"
                             title="Refund order"
@@ -1071,6 +1189,8 @@ export default function OrdersPage() {
             )}
           </>
         )}
+        </>
+        )}
       </div>
 
       {/* Details modal */}
@@ -1213,6 +1333,70 @@ export default function OrdersPage() {
                     </div>
                   )}
 
+                  {/* Dispute Details */}
+                  {selected.dispute && (() => {
+                    const dispute = selected.dispute;
+                    const open = !dispute.closedAt;
+                    const daysLeft = daysUntil(dispute.evidenceDueBy);
+                    return (
+                      <div>
+                        <h3 className="text-sm font-semibold text-gray-800 mb-3 flex items-center gap-2">
+                          <AlertCircle size={16} className="text-orange-600" />
+                          Dispute Details
+                        </h3>
+                        <div className="bg-gradient-to-br from-orange-50 to-orange-100 border border-orange-200 rounded-xl p-4 space-y-3">
+                          {open && dispute.evidenceDueBy && (
+                            <div className={`rounded-lg px-3 py-2 text-sm font-medium ${daysLeft !== null && daysLeft <= 3 ? "bg-red-600 text-white" : "bg-white text-orange-900 border border-orange-200"}`}>
+                              Evidence due by{" "}
+                              {new Date(dispute.evidenceDueBy).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })}
+                              {daysLeft !== null &&
+                                (daysLeft < 0 ? " — deadline passed" : ` — ${daysLeft} day${daysLeft === 1 ? "" : "s"} left`)}
+                            </div>
+                          )}
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-orange-900 font-medium">Amount</span>
+                            <span className="text-lg font-bold text-orange-800">
+                              {formatCurrency(dispute.amount, (dispute.currency || selected.currency || "GBP").toUpperCase())}
+                            </span>
+                          </div>
+                          <div className="flex items-center justify-between pt-2 border-t border-orange-200">
+                            <span className="text-sm text-orange-900 font-medium">Status</span>
+                            <span className="text-sm font-semibold text-orange-900 capitalize">{formatStripeValue(dispute.status)}</span>
+                          </div>
+                          <div className="flex items-center justify-between pt-2 border-t border-orange-200">
+                            <span className="text-sm text-orange-900 font-medium">Reason</span>
+                            <span className="text-sm font-semibold text-orange-900 capitalize">{formatStripeValue(dispute.reason)}</span>
+                          </div>
+                          {dispute.openedAt && (
+                            <div className="flex items-center justify-between pt-2 border-t border-orange-200">
+                              <span className="text-sm text-orange-900 font-medium">Opened</span>
+                              <span className="text-sm font-semibold text-orange-900">
+                                {new Date(dispute.openedAt).toLocaleDateString("en-GB")}
+                              </span>
+                            </div>
+                          )}
+                          {dispute.closedAt && (
+                            <div className="flex items-center justify-between pt-2 border-t border-orange-200">
+                              <span className="text-sm text-orange-900 font-medium">Closed</span>
+                              <span className="text-sm font-semibold text-orange-900">
+                                {new Date(dispute.closedAt).toLocaleDateString("en-GB")}
+                              </span>
+                            </div>
+                          )}
+                          <div className="flex items-center justify-between pt-2 border-t border-orange-200">
+                            <span className="text-sm text-orange-900 font-medium">Dispute ID</span>
+                            <span className="text-xs font-mono text-orange-900 break-all text-right max-w-[60%]">{dispute.disputeId}</span>
+                          </div>
+                          {open && (
+                            <p className="text-xs text-orange-800 pt-2 border-t border-orange-200">
+                              Submit evidence from the Stripe dashboard. Refunds are unavailable until the dispute closes.
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })()}
+
                   {/* Refund Details */}
                   {(getRefundedAmount(selected) > 0 || selected.refund) && (
                     <div>
@@ -1253,6 +1437,12 @@ export default function OrdersPage() {
                       </div>
                     </div>
                   )}
+
+                  {/* Returns */}
+                  <OrderReturnsSection orderId={selected._id} onOrderChanged={replaceOrder} />
+
+                  {/* Admin changes */}
+                  <AuditHistoryPanel entityType="order" entityId={selected._id} />
                 </div>
 
                 {/* Right column */}
@@ -1267,8 +1457,30 @@ export default function OrdersPage() {
                           {formatCurrency(selected.subtotal, (selected.currency || "GBP").toUpperCase())}
                         </div>
                       </div>
+                      {(selected.discount ?? 0) > 0 && (
+                        <div className="flex justify-between text-sm text-gray-700">
+                          <div className="font-medium">
+                            Discount{selected.discountCode ? ` (${selected.discountCode})` : ""}
+                          </div>
+                          <div className="font-semibold text-green-700">
+                            -{formatCurrency(selected.discount, (selected.currency || "GBP").toUpperCase())}
+                          </div>
+                        </div>
+                      )}
                       <div className="flex justify-between text-sm text-gray-700">
-                        <div className="font-medium">Shipping</div>
+                        <div className="font-medium">
+                          Shipping
+                          {selected.shippingService && (
+                            <div
+                              className={`text-xs font-normal ${
+                                selected.shippingService === "next_day" ? "text-amber-700 font-semibold" : "text-gray-500"
+                              }`}
+                            >
+                              {SHIPPING_SERVICE_LABELS[selected.shippingService]}
+                              {selected.shippingZone ? ` · ${selected.shippingZone}` : ""}
+                            </div>
+                          )}
+                        </div>
                         <div className="font-semibold text-gray-900">
                           {formatCurrency(selected.shipping || 0, (selected.currency || "GBP").toUpperCase())}
                         </div>
@@ -1280,6 +1492,14 @@ export default function OrdersPage() {
                             {formatCurrency(selected.total, (selected.currency || "GBP").toUpperCase())}
                           </div>
                         </div>
+                        {(selected.giftCardAmount ?? 0) > 0 && (
+                          <div className="flex justify-between text-sm text-gray-700 mt-2">
+                            <div className="font-medium">Paid by gift card{selected.giftCardCode ? ` (${selected.giftCardCode})` : ""}</div>
+                            <div className="font-semibold text-gray-900">
+                              {formatCurrency(selected.giftCardAmount, (selected.currency || "GBP").toUpperCase())}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -1392,12 +1612,13 @@ export default function OrdersPage() {
                     </button>
                   )}
 
-                  {getRefundableAmount(selected) > 0 && selected.status !== "refunded" && (
+                  {getRefundableAmount(selected) > 0 && selected.status !== "refunded" && selected.status !== "disputed" && (
                     <button
                       onClick={() => {
                         setRefundModal(selected);
                         setRefundAmount(String(getRefundableAmount(selected)));
                         setRefundReason("");
+                        setRefundLines({});
                       }}
                       className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 border border-orange-300 bg-orange-600 text-white rounded-xl text-sm hover:bg-orange-700 hover:shadow-lg transition font-semibold"
                     >
@@ -1433,6 +1654,35 @@ export default function OrdersPage() {
               </p>
 
               <div className="space-y-5">
+                {refundModal.items?.length > 0 && (
+                  <div>
+                    <div className="block text-sm font-semibold text-gray-800 mb-2">
+                      Items <span className="text-gray-400 font-normal">(Optional)</span>
+                    </div>
+                    <div className="space-y-2 max-h-40 overflow-y-auto">
+                      {refundModal.items.map((it, idx) => (
+                        <div key={idx} className="flex items-center justify-between gap-3 text-sm">
+                          <span className="text-gray-700 truncate">
+                            {it.name} <span className="text-xs text-gray-500">×{it.qty}</span>
+                          </span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={it.qty}
+                            step={1}
+                            value={refundLines[idx] ?? ""}
+                            onChange={(e) => setRefundLineQty(refundModal, idx, e.target.value)}
+                            className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-orange-500"
+                            placeholder="0"
+                            aria-label={`Quantity of ${it.name} to refund`}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">Refunded items are listed on the credit note; leave blank for a lump sum.</p>
+                  </div>
+                )}
+
                 <div>
                   <label htmlFor="refundAmount" className="block text-sm font-semibold text-gray-800 mb-2">
                     Refund Amount <span className="text-red-500">*</span>
@@ -1466,6 +1716,23 @@ export default function OrdersPage() {
                     placeholder="Enter refund reason..."
                   />
                 </div>
+
+                <label className="flex items-start gap-3 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={refundToStoreCredit}
+                    onChange={(e) => setRefundToStoreCredit(e.target.checked)}
+                    className="mt-0.5 h-4 w-4"
+                  />
+                  <span>
+                    <span className="font-semibold text-gray-800">Refund as store credit</span>
+                    <span className="block text-xs text-gray-500">
+                      Emails the customer a store credit code instead of refunding the card.
+                      {(refundModal.giftCardAmount ?? 0) > 0 &&
+                        ` ${formatCurrency(refundModal.giftCardAmount, (refundModal.currency || "GBP").toUpperCase())} of this order was paid by gift card and can only be refunded as store credit.`}
+                    </span>
+                  </span>
+                </label>
               </div>
 
               <div className="flex gap-3 mt-8">
@@ -1474,6 +1741,7 @@ export default function OrdersPage() {
                     setRefundModal(null);
                     setRefundAmount("");
                     setRefundReason("");
+                    setRefundToStoreCredit(false);
                   }}
                   className="flex-1 px-4 py-3 border border-gray-300 rounded-xl text-sm font-semibold hover:bg-gray-50 transition"
                 >
@@ -1519,6 +1787,7 @@ export default function OrdersPage() {
                 <div className="bg-gradient-to-br from-gray-50 to-gray-100 rounded-xl p-4 border border-gray-200">
                   <div className="text-xs text-gray-500 font-medium mb-1">Refund amount</div>
                   <div className="font-semibold text-gray-900 text-lg">{formatCurrency(parseFloat(refundAmount || "0") || 0, (refundModal.currency || "GBP").toUpperCase())}</div>
+                  <div className="text-sm text-gray-600">{refundToStoreCredit ? "As store credit (emailed code)" : "Back to the card"}</div>
                 </div>
 
                 {refundReason && (
@@ -0,0 +1,641 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import { CheckCircle, Download, Loader2, PackageOpen, Plus, RotateCcw, Search, X } from "lucide-react";
+
+/* Returns (RMA) for the orders admin: the Returns tab, and the per-order history in the order modal. */
+
+type ReturnStatus = "requested" | "approved" | "rejected" | "received" | "completed" | "cancelled";
+type ReturnAction = "approve" | "reject" | "receive" | "complete" | "cancel";
+
+type ReturnLine = {
+  lineIndex: number;
+  itemId: string;
+  name: string;
+  source?: string | null;
+  qty: number;
+  unitPrice: number;
+  reason: string;
+  note?: string | null;
+  restocked?: boolean;
+};
+
+type AdminReturn = {
+  _id: string;
+  rmaNumber: string;
+  orderId: string;
+  email: string;
+  name?: string | null;
+  status: ReturnStatus;
+  openedBy: "customer" | "admin";
+  lines: ReturnLine[];
+  customerNote?: string | null;
+  adminNote?: string | null;
+  history: { status: ReturnStatus; at: string; by: string; note?: string | null }[];
+  refundAmount?: number | null;
+  refundMethod?: "card" | "store_credit" | null;
+  createdAt?: string;
+};
+
+type ReturnableLine = {
+  lineIndex: number;
+  name: string;
+  unitPrice: number;
+  ordered: number;
+  returnable: number;
+};
+
+type ChangedOrder = { _id: string };
+
+// Mirrors RETURN_REASON_LABELS in lib/returns (that module is server-only)
+const REASONS: Record<string, string> = {
+  damaged: "Arrived damaged",
+  faulty: "Faulty",
+  wrong_item: "Wrong item sent",
+  not_as_described: "Not as described",
+  changed_mind: "Changed my mind",
+  other: "Other",
+};
+
+const STATUS_STYLES: Record<ReturnStatus, string> = {
+  requested: "bg-yellow-50 text-yellow-800 border-yellow-200",
+  approved: "bg-blue-50 text-blue-800 border-blue-200",
+  rejected: "bg-red-50 text-red-800 border-red-200",
+  received: "bg-indigo-50 text-indigo-800 border-indigo-200",
+  completed: "bg-green-50 text-green-800 border-green-200",
+  cancelled: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+const NEXT_ACTIONS: Record<ReturnStatus, { action: ReturnAction; label: string; className: string }[]> = {
+  requested: [
+    { action: "approve", label: "Approve", className: "bg-blue-600 hover:bg-blue-700 text-white" },
+    { action: "reject", label: "Reject", className: "bg-red-600 hover:bg-red-700 text-white" },
+  ],
+  approved: [
+    { action: "receive", label: "Mark received", className: "bg-indigo-600 hover:bg-indigo-700 text-white" },
+    { action: "cancel", label: "Cancel return", className: "border border-gray-300 text-gray-700 hover:bg-gray-50" },
+  ],
+  received: [
+    { action: "complete", label: "Complete & refund", className: "bg-green-600 hover:bg-green-700 text-white" },
+    { action: "cancel", label: "Cancel return", className: "border border-gray-300 text-gray-700 hover:bg-gray-50" },
+  ],
+  rejected: [],
+  completed: [],
+  cancelled: [],
+};
+
+function money(value = 0) {
+  return `£${Number(value || 0).toFixed(2)}`;
+}
+
+function linesValue(r: AdminReturn) {
+  return Number(r.lines.reduce((s, l) => s + l.qty * l.unitPrice, 0).toFixed(2));
+}
+
+function StatusBadge({ status }: { status: ReturnStatus }) {
+  return (
+    <span className={`px-2.5 py-0.5 rounded-full text-xs font-semibold border capitalize ${STATUS_STYLES[status]}`}>
+      {status}
+    </span>
+  );
+}
+
+/* ------------------------ Action modal ------------------------ */
+
+function ReturnActionModal({
+  ret,
+  onClose,
+  onDone,
+}: {
+  ret: AdminReturn;
+  onClose: () => void;
+  onDone: (updated: AdminReturn, order: ChangedOrder | null) => void;
+}) {
+  const [action, setAction] = useState<ReturnAction | null>(null);
+  const [note, setNote] = useState("");
+  // damaged/faulty goods usually can't be sold again, so they start unticked
+  const [restock, setRestock] = useState<Record<number, boolean>>(() =>
+    Object.fromEntries(ret.lines.map((l) => [l.lineIndex, l.reason !== "damaged" && l.reason !== "faulty"]))
+  );
+  const [refundAmount, setRefundAmount] = useState(String(linesValue(ret)));
+  const [toStoreCredit, setToStoreCredit] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    if (!action) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const body: Record<string, unknown> = { action, note: note.trim() || undefined };
+      if (action === "receive") {
+        body.restockLines = Object.entries(restock)
+          .filter(([, on]) => on)
+          .map(([i]) => Number(i));
+      }
+      if (action === "complete") {
+        body.refundAmount = refundAmount === "" ? 0 : Number(refundAmount);
+        body.toStoreCredit = toStoreCredit;
+      }
+      const res = await fetch(`/api/admin/returns/${ret._id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed (${res.status})`);
+      onDone(json.data as AdminReturn, (json.order as ChangedOrder | null) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-70 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      onClick={onClose}
+    >
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-5 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <div className="text-xs text-gray-500 font-medium uppercase tracking-wide mb-1">Return</div>
+            <h3 className="text-xl font-bold text-gray-900 flex items-center gap-3">
+              {ret.rmaNumber} <StatusBadge status={ret.status} />
+            </h3>
+            <div className="text-sm text-gray-600 mt-1">
+              Order #{ret.orderId.slice(-8)} · {ret.name ? `${ret.name} · ` : ""}
+              {ret.email} · opened by {ret.openedBy}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-5">
+          {error && <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+
+          <div className="space-y-2">
+            {ret.lines.map((l) => (
+              <div key={l.lineIndex} className="flex items-start justify-between gap-3 border border-gray-200 rounded-xl p-3">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {l.qty} × {l.name}
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    {REASONS[l.reason] ?? l.reason}
+                    {l.note ? ` — ${l.note}` : ""}
+                  </div>
+                  {l.restocked && <div className="text-xs text-green-700 mt-1">Restocked</div>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-semibold">{money(l.qty * l.unitPrice)}</span>
+                  {action === "receive" && (
+                    <label className="flex items-center gap-1.5 text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={!!restock[l.lineIndex]}
+                        onChange={(e) => setRestock((s) => ({ ...s, [l.lineIndex]: e.target.checked }))}
+                        disabled={l.source === "gift_card"}
+                      />
+                      Restock
+                    </label>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {ret.customerNote && (
+            <div className="text-sm bg-gray-50 border border-gray-200 rounded-xl p-3">
+              <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Customer note</div>
+              {ret.customerNote}
+            </div>
+          )}
+
+          {ret.status === "completed" && (ret.refundAmount ?? 0) > 0 && (
+            <div className="text-sm text-green-800 bg-green-50 border border-green-200 rounded-xl p-3">
+              Refunded {money(ret.refundAmount ?? 0)}
+              {ret.refundMethod === "store_credit" ? " as store credit" : " to the card"}
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-800 mb-2">History</h4>
+            <ol className="space-y-1.5 text-sm">
+              {ret.history.map((h, i) => (
+                <li key={i} className="flex flex-wrap gap-x-2 text-gray-700">
+                  <span className="text-gray-500">{new Date(h.at).toLocaleString("en-GB")}</span>
+                  <span className="font-medium capitalize">{h.status}</span>
+                  <span className="text-gray-500">by {h.by}</span>
+                  {h.note && <span className="w-full text-gray-600 pl-4">“{h.note}”</span>}
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          {NEXT_ACTIONS[ret.status].length > 0 && (
+            <div className="border-t border-gray-200 pt-5 space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {NEXT_ACTIONS[ret.status].map((a) => (
+                  <button
+                    key={a.action}
+                    onClick={() => setAction(a.action)}
+                    className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${a.className} ${
+                      action === a.action ? "ring-2 ring-offset-2 ring-gray-900" : ""
+                    }`}
+                  >
+                    {a.label}
+                  </button>
+                ))}
+              </div>
+
+              {action && (
+                <div className="space-y-3">
+                  {action === "complete" && (
+                    <div className="grid sm:grid-cols-2 gap-3">
+                      <label className="text-sm">
+                        <span className="block text-gray-700 font-medium mb-1">Refund amount (£)</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={refundAmount}
+                          onChange={(e) => setRefundAmount(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        />
+                        <span className="block text-xs text-gray-500 mt-1">
+                          Returned items are worth {money(linesValue(ret))}. Enter 0 to complete without a refund.
+                        </span>
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700 sm:mt-6">
+                        <input type="checkbox" checked={toStoreCredit} onChange={(e) => setToStoreCredit(e.target.checked)} />
+                        Refund as store credit
+                      </label>
+                    </div>
+                  )}
+                  <label className="block text-sm">
+                    <span className="block text-gray-700 font-medium mb-1">
+                      Note {action === "reject" ? "for the customer" : "(optional, shown to the customer)"}
+                    </span>
+                    <textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      rows={2}
+                      maxLength={1000}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                  </label>
+                  <button
+                    onClick={submit}
+                    disabled={busy}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-900 text-white text-sm font-semibold disabled:opacity-50"
+                  >
+                    {busy ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle size={16} />} Confirm
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <a
+            href={`/api/admin/returns/${ret._id}/slip`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1.5 text-sm text-gray-700 underline"
+          >
+            <Download size={14} /> Returns label &amp; packing slip
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------ Returns tab ------------------------ */
+
+export default function ReturnsAdminPanel({ onOrderChanged }: { onOrderChanged: (order: ChangedOrder) => void }) {
+  const [returns, setReturns] = useState<AdminReturn[]>([]);
+  const [total, setTotal] = useState(0);
+  const [status, setStatus] = useState<string>("requested");
+  const [q, setQ] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState<AdminReturn | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (status !== "all") params.set("status", status);
+      if (q.trim()) params.set("q", q.trim());
+      const res = await fetch(`/api/admin/returns?${params.toString()}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load returns (${res.status})`);
+      setReturns(json.data.returns);
+      setTotal(json.data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [status, q]);
+
+  useEffect(() => {
+    const t = window.setTimeout(load, 200);
+    return () => window.clearTimeout(t);
+  }, [load]);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 sm:p-5 flex flex-col sm:flex-row gap-3">
+        <div className="flex-1 relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+          <input
+            aria-label="Search returns"
+            className="w-full pl-10 pr-3 py-3 border border-gray-300 rounded-xl outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            placeholder="RMA number or customer email..."
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+          />
+        </div>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="px-3 py-3 border border-gray-300 rounded-xl bg-white text-sm font-medium text-gray-700"
+          aria-label="Return status"
+        >
+          <option value="all">All returns</option>
+          {(Object.keys(STATUS_STYLES) as ReturnStatus[]).map((s) => (
+            <option key={s} value={s} className="capitalize">
+              {s[0].toUpperCase() + s.slice(1)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <div className="p-4 rounded-xl bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-5 py-3 border-b border-gray-200 text-sm text-gray-600 flex items-center gap-2">
+          {loading && <Loader2 size={14} className="animate-spin" />}
+          {total} return{total === 1 ? "" : "s"}
+        </div>
+        {returns.length === 0 && !loading ? (
+          <div className="p-10 text-center text-gray-500">
+            <PackageOpen className="mx-auto mb-3 text-gray-400" size={32} />
+            No returns to show
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {returns.map((r) => (
+              <button
+                key={r._id}
+                onClick={() => setOpen(r)}
+                className="w-full text-left px-5 py-4 hover:bg-gray-50 transition flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-6"
+              >
+                <div className="sm:w-40">
+                  <div className="font-semibold text-gray-900">{r.rmaNumber}</div>
+                  <div className="text-xs text-gray-500">{r.createdAt ? new Date(r.createdAt).toLocaleDateString("en-GB") : ""}</div>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-gray-900 truncate">
+                    {r.lines.map((l) => `${l.qty} × ${l.name}`).join(", ")}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">
+                    Order #{r.orderId.slice(-8)} · {r.email}
+                  </div>
+                </div>
+                <div className="text-sm font-semibold text-gray-900 sm:w-24 sm:text-right">{money(linesValue(r))}</div>
+                <StatusBadge status={r.status} />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {open && (
+        <ReturnActionModal
+          ret={open}
+          onClose={() => setOpen(null)}
+          onDone={(updated, order) => {
+            setOpen(updated);
+            if (order) onOrderChanged(order);
+            load();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/* ------------------------ Order modal section ------------------------ */
+
+export function OrderReturnsSection({
+  orderId,
+  onOrderChanged,
+}: {
+  orderId: string;
+  onOrderChanged: (order: ChangedOrder) => void;
+}) {
+  const [returns, setReturns] = useState<AdminReturn[]>([]);
+  const [returnable, setReturnable] = useState<ReturnableLine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState<AdminReturn | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState<Record<number, { qty: number; reason: string }>>({});
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/returns?orderId=${orderId}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load returns (${res.status})`);
+      setReturns(json.data.returns);
+      setReturnable(json.data.returnable ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openReturn = async () => {
+    const lines = Object.entries(draft).map(([lineIndex, d]) => ({ lineIndex: Number(lineIndex), ...d }));
+    if (!lines.length || lines.some((l) => !l.reason)) {
+      setError("Pick at least one item and give each a reason");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId, lines, note: note.trim() || undefined }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to open return (${res.status})`);
+      setCreating(false);
+      setDraft({});
+      setNote("");
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const available = returnable.filter((l) => l.returnable > 0);
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-800 mb-3 flex items-center gap-2">
+        <RotateCcw size={16} className="text-indigo-600" />
+        Returns
+        {loading && <Loader2 size={14} className="animate-spin text-gray-400" />}
+      </h3>
+
+      {error && <div className="mb-3 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">{error}</div>}
+
+      <div className="space-y-2">
+        {returns.length === 0 && !loading && <p className="text-sm text-gray-500">No returns on this order.</p>}
+        {returns.map((r) => (
+          <button
+            key={r._id}
+            onClick={() => setOpen(r)}
+            className="w-full text-left border border-gray-200 rounded-xl p-3 hover:bg-gray-50 transition"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-gray-900 text-sm">{r.rmaNumber}</span>
+              <StatusBadge status={r.status} />
+            </div>
+            <div className="text-xs text-gray-600 mt-1">{r.lines.map((l) => `${l.qty} × ${l.name}`).join(", ")}</div>
+            <div className="text-xs text-gray-500 mt-1">
+              {r.history
+                .map((h) => `${h.status} ${new Date(h.at).toLocaleDateString("en-GB")}`)
+                .join(" → ")}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {available.length > 0 && !creating && (
+        <button
+          onClick={() => setCreating(true)}
+          className="mt-3 inline-flex items-center gap-1.5 px-3 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+        >
+          <Plus size={14} /> Open return
+        </button>
+      )}
+
+      {creating && (
+        <div className="mt-3 border border-gray-200 rounded-xl p-4 space-y-3">
+          {available.map((l) => {
+            const d = draft[l.lineIndex];
+            return (
+              <div key={l.lineIndex} className="flex flex-wrap items-center gap-2 text-sm">
+                <label className="flex items-center gap-2 flex-1 min-w-[10rem]">
+                  <input
+                    type="checkbox"
+                    checked={!!d}
+                    onChange={(e) =>
+                      setDraft((s) => {
+                        const next = { ...s };
+                        if (e.target.checked) next[l.lineIndex] = { qty: l.returnable, reason: "" };
+                        else delete next[l.lineIndex];
+                        return next;
+                      })
+                    }
+                  />
+                  {l.name}
+                </label>
+                {d && (
+                  <>
+                    <input
+                      type="number"
+                      min={1}
+                      max={l.returnable}
+                      value={d.qty}
+                      onChange={(e) =>
+                        setDraft((s) => ({
+                          ...s,
+                          [l.lineIndex]: { ...d, qty: Math.min(l.returnable, Math.max(1, Number(e.target.value) || 1)) },
+                        }))
+                      }
+                      className="w-16 px-2 py-1 border border-gray-300 rounded-lg"
+                      aria-label="Quantity"
+                    />
+                    <select
+                      value={d.reason}
+                      onChange={(e) => setDraft((s) => ({ ...s, [l.lineIndex]: { ...d, reason: e.target.value } }))}
+                      className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+                      aria-label="Reason"
+                    >
+                      <option value="">Reason…</option>
+                      {Object.entries(REASONS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+            );
+          })}
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            maxLength={1000}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={openReturn}
+              disabled={saving}
+              className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg bg-gray-900 text-white text-sm font-semibold disabled:opacity-50"
+            >
+              {saving && <Loader2 size={14} className="animate-spin" />} Open return
+            </button>
+            <button
+              onClick={() => {
+                setCreating(false);
+                setDraft({});
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {open && (
+        <ReturnActionModal
+          ret={open}
+          onClose={() => setOpen(null)}
+          onDone={(updated, order) => {
+            setOpen(updated);
+            if (order) onOrderChanged(order);
+            load();
+          }}
+        />
+      )}
+    </div>
+  );
+}
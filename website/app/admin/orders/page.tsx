@@ -4,7 +4,7 @@ import OrdersPage from "./OrderAdminPage";
 
 export default async function Page() {
   // Server-side protection: will redirect or throw if not authenticated
-  await requireAuth();
+  await requireAuth("orders.view");
 
   // Render the client component (copy your provided client code into ./OrdersPage.tsx)
   return <OrdersPage />;
@@ -0,0 +1,439 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Ban, Eye, Loader2, Mail, RotateCcw, Search, X } from "lucide-react";
+
+type MessageStatus = "pending" | "sending" | "sent" | "dead" | "cancelled";
+
+interface Address {
+  email: string;
+  name?: string | null;
+}
+
+interface MessageAttempt {
+  at: string;
+  transport: string;
+  ok: boolean;
+  error?: string | null;
+  durationMs?: number | null;
+}
+
+interface OutboxMessageRow {
+  _id: string;
+  kind: string;
+  audience: "customer" | "admin";
+  from: Address;
+  to: Address[];
+  replyTo?: Address | null;
+  subject: string;
+  html?: string;
+  attachments: { name: string }[];
+  relatedType?: string | null;
+  relatedId?: string | null;
+  status: MessageStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: string | null;
+  lastError?: string | null;
+  sentAt?: string | null;
+  providerMessageId?: string | null;
+  history: MessageAttempt[];
+  resentBy?: string | null;
+  createdAt?: string;
+}
+
+// Dead first: those are the emails nobody has received
+const STATUS_TABS: { value: "" | MessageStatus; label: string }[] = [
+  { value: "dead", label: "Dead letters" },
+  { value: "pending", label: "Queued" },
+  { value: "sending", label: "Sending" },
+  { value: "sent", label: "Sent" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "", label: "All" },
+];
+
+const STATUS_STYLES: Record<MessageStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  sending: "bg-blue-100 text-blue-800",
+  sent: "bg-green-100 text-green-800",
+  dead: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-600",
+};
+
+function formatDateTime(iso?: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-GB") : "—";
+}
+
+function recipients(to: Address[]) {
+  return to.map((t) => t.email).join(", ");
+}
+
+export default function OutboxAdminPage() {
+  const [messages, setMessages] = useState<OutboxMessageRow[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [kinds, setKinds] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [status, setStatus] = useState<"" | MessageStatus>("dead");
+  const [kind, setKind] = useState("");
+  const [query, setQuery] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [detail, setDetail] = useState<OutboxMessageRow | null>(null);
+
+  const load = useCallback(async (statusFilter: string, kindFilter: string, q: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (statusFilter) params.set("status", statusFilter);
+      if (kindFilter) params.set("kind", kindFilter);
+      if (q.trim()) params.set("q", q.trim());
+      const res = await fetch(`/api/admin/outbox?${params.toString()}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load emails (${res.status})`);
+      setMessages(json.data.messages);
+      setCounts(json.data.counts || {});
+      setKinds(json.data.kinds || []);
+      setTotal(json.data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(status, kind, query);
+    // query is applied on submit
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, kind, load]);
+
+  const openDetail = async (id: string) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/outbox/${id}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load email (${res.status})`);
+      setDetail(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const act = async (msg: OutboxMessageRow, action: "resend" | "cancel") => {
+    const prompt =
+      action === "resend"
+        ? `Send "${msg.subject}" to ${recipients(msg.to)} again?`
+        : `Cancel "${msg.subject}" to ${recipients(msg.to)}? It won't be sent.`;
+    if (!confirm(prompt)) return;
+    setBusy(msg._id);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/outbox/${msg._id}/${action}`, { method: "POST" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `${action === "resend" ? "Resend" : "Cancel"} failed (${res.status})`);
+      const updated = json.data as OutboxMessageRow | null;
+      if (action === "cancel") {
+        setNotice(`Cancelled "${msg.subject}"`);
+      } else {
+        setNotice(
+          updated?.status === "sent"
+            ? `Sent "${msg.subject}" to ${recipients(msg.to)}`
+            : `Queued "${msg.subject}" again${updated?.lastError ? ` — last attempt failed: ${updated.lastError}` : ""}`
+        );
+      }
+      if (updated && detail?._id === updated._id) setDetail({ ...detail, ...updated });
+      await load(status, kind, query);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const canResend = (m: OutboxMessageRow) => m.status === "dead" || m.status === "cancelled";
+  const canCancel = (m: OutboxMessageRow) => m.status === "pending" || m.status === "dead";
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Mail size={22} /> Email Outbox
+        </h1>
+        <p className="text-sm text-gray-600">
+          Every email the store sends. Failed sends are retried automatically; dead letters ran out of attempts and can
+          be resent.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {STATUS_TABS.map((t) => (
+          <button
+            key={t.label}
+            onClick={() => setStatus(t.value)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border ${
+              status === t.value ? "bg-black text-white border-black" : "bg-white text-gray-700"
+            }`}
+          >
+            {t.label}
+            {t.value && counts[t.value] ? <span className="ml-1.5 opacity-70">{counts[t.value]}</span> : null}
+          </button>
+        ))}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load(status, kind, query);
+        }}
+        className="flex flex-wrap gap-2 mb-4"
+      >
+        <div className="relative flex-1 min-w-[200px]">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Recipient email or order / invoice id"
+            className="w-full border pl-8 pr-3 py-2 rounded text-sm"
+          />
+        </div>
+        <select value={kind} onChange={(e) => setKind(e.target.value)} className="border px-3 py-2 rounded text-sm">
+          <option value="">All kinds</option>
+          {kinds.map((k) => (
+            <option key={k} value={k}>
+              {k}
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="px-4 py-2 border rounded text-sm font-semibold">
+          Search
+        </button>
+      </form>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+      {notice && <div className="mb-4 text-sm text-green-800 bg-green-50 px-3 py-2 rounded">{notice}</div>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="bg-white border rounded-lg p-8 text-center text-gray-500">
+          <Mail className="mx-auto mb-2 text-gray-300" size={32} />
+          No emails found.
+        </div>
+      ) : (
+        <div className="bg-white border rounded-lg overflow-x-auto">
+          <div className="px-4 py-2 text-xs text-gray-500 border-b">{total} emails</div>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3">Email</th>
+                <th className="px-4 py-3">To</th>
+                <th className="px-4 py-3">Queued</th>
+                <th className="px-4 py-3">Attempts</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {messages.map((m) => (
+                <tr key={m._id} className="border-t align-top">
+                  <td className="px-4 py-3">
+                    <div className="font-semibold">{m.subject}</div>
+                    <div className="text-xs text-gray-500">
+                      {m.kind}
+                      {m.relatedType && m.relatedId && (
+                        <span className="font-mono">
+                          {" "}
+                          · {m.relatedType} {m.relatedId.slice(-8)}
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-xs break-all">
+                    {recipients(m.to)}
+                    {m.audience === "admin" && <div className="text-gray-500">admins</div>}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{formatDateTime(m.createdAt)}</td>
+                  <td className="px-4 py-3">
+                    {m.attempts}/{m.maxAttempts}
+                    {m.status === "pending" && m.attempts > 0 && (
+                      <div className="text-xs text-gray-500">next {formatDateTime(m.nextAttemptAt)}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded text-xs font-semibold ${STATUS_STYLES[m.status]}`}>
+                      {m.status}
+                    </span>
+                    {m.lastError && m.status !== "sent" && (
+                      <div className="text-xs text-red-700 mt-1 max-w-xs break-words">{m.lastError}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-1">
+                      <button onClick={() => openDetail(m._id)} className="p-2 rounded hover:bg-gray-100" title="Details">
+                        <Eye size={14} />
+                      </button>
+                      {canResend(m) && (
+                        <button
+                          onClick={() => act(m, "resend")}
+                          disabled={busy === m._id}
+                          className="p-2 rounded hover:bg-gray-100 disabled:opacity-50"
+                          title="Resend"
+                        >
+                          {busy === m._id ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                        </button>
+                      )}
+                      {canCancel(m) && (
+                        <button
+                          onClick={() => act(m, "cancel")}
+                          disabled={busy === m._id}
+                          className="p-2 rounded hover:bg-gray-100 disabled:opacity-50"
+                          title="Cancel"
+                        >
+                          <Ban size={14} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {detail && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={() => setDetail(null)}>
+          <div
+            className="bg-white rounded-lg w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 space-y-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-start justify-between">
+              <div>
+                <h2 className="text-lg font-bold">{detail.subject}</h2>
+                <div className="text-xs text-gray-500">{detail.kind}</div>
+              </div>
+              <button onClick={() => setDetail(null)} className="p-1 rounded hover:bg-gray-100">
+                <X size={18} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <span className="text-gray-500">Status:</span>{" "}
+                <span className={`px-2 py-0.5 rounded text-xs font-semibold ${STATUS_STYLES[detail.status]}`}>
+                  {detail.status}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-500">Attempts:</span> {detail.attempts}/{detail.maxAttempts}
+              </div>
+              <div className="break-all">
+                <span className="text-gray-500">From:</span> {detail.from.email}
+              </div>
+              <div className="break-all">
+                <span className="text-gray-500">To:</span> {recipients(detail.to)}
+              </div>
+              <div>
+                <span className="text-gray-500">Queued:</span> {formatDateTime(detail.createdAt)}
+              </div>
+              <div>
+                <span className="text-gray-500">Sent:</span> {formatDateTime(detail.sentAt)}
+              </div>
+              {detail.relatedType && (
+                <div>
+                  <span className="text-gray-500">About:</span>{" "}
+                  <span className="font-mono text-xs">
+                    {detail.relatedType} {detail.relatedId}
+                  </span>
+                </div>
+              )}
+              {detail.providerMessageId && (
+                <div className="break-all">
+                  <span className="text-gray-500">Provider id:</span>{" "}
+                  <span className="font-mono text-xs">{detail.providerMessageId}</span>
+                </div>
+              )}
+              {detail.resentBy && (
+                <div>
+                  <span className="text-gray-500">Resent by:</span> {detail.resentBy}
+                </div>
+              )}
+              {detail.attachments.length > 0 && (
+                <div>
+                  <span className="text-gray-500">Attachments:</span> {detail.attachments.map((a) => a.name).join(", ")}
+                </div>
+              )}
+            </div>
+
+            {detail.lastError && (
+              <div className="text-sm text-red-700 bg-red-50 px-3 py-2 rounded break-words">{detail.lastError}</div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Attempts</h3>
+              {detail.history.length === 0 ? (
+                <p className="text-sm text-gray-500">Not attempted yet.</p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {detail.history.map((h, i) => (
+                    <li key={i} className="flex flex-wrap gap-x-2">
+                      <span className="text-gray-500">{formatDateTime(h.at)}</span>
+                      <span>{h.transport}</span>
+                      <span
+                        className={`px-1.5 rounded text-xs font-semibold ${
+                          h.ok ? STATUS_STYLES.sent : STATUS_STYLES.dead
+                        }`}
+                      >
+                        {h.ok ? "delivered" : "failed"}
+                      </span>
+                      {h.durationMs != null && <span className="text-gray-500">{h.durationMs} ms</span>}
+                      {h.error && <span className="w-full text-red-700 pl-4">{h.error}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Message</h3>
+              {/* sandboxed: the body is our own HTML, but it may carry customer-entered text */}
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={detail.html || ""}
+                className="w-full h-96 border rounded bg-white"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {canCancel(detail) && (
+                <button
+                  onClick={() => act(detail, "cancel")}
+                  disabled={busy === detail._id}
+                  className="inline-flex items-center gap-2 px-4 py-2 border rounded-lg text-sm font-semibold disabled:opacity-50"
+                >
+                  <Ban size={16} /> Cancel
+                </button>
+              )}
+              {canResend(detail) && (
+                <button
+                  onClick={() => act(detail, "resend")}
+                  disabled={busy === detail._id}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg text-sm font-semibold disabled:opacity-50"
+                >
+                  {busy === detail._id ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />} Resend
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
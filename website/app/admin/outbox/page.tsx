@@ -0,0 +1,10 @@
+import React from "react";
+import { requireAuth } from "@/lib/auth";
+import OutboxAdminPage from "./OutboxAdminPage";
+
+export default async function Page() {
+  // Server-side protection: will redirect / throw if not authenticated
+  await requireAuth("system.manage");
+
+  return <OutboxAdminPage />;
+}
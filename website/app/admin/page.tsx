@@ -5,6 +5,7 @@ import dbConnect from "@/lib/dbConnect";
 import Order from "@/models/Order";
 import Coffee from "@/models/Coffee";
 import Equipment from "@/models/Equipment";
+import { getCheckoutRecoveryStats } from "@/lib/checkoutRecovery";
 
 /**
  * Enhanced Admin Dashboard with Modern UI/UX
@@ -394,7 +395,7 @@ export default async function DashboardPage({
 }: {
   searchParams?: Promise<SearchParams> | SearchParams;
 }): Promise<JSX.Element> {
-  const user = await requireAuth();
+  const user = await requireAuth("dashboard.view");
   await dbConnect();
 
   // Await searchParams in case Next.js passed a Promise
@@ -410,6 +411,7 @@ export default async function DashboardPage({
     coffeeCount,
     equipmentCount,
     totalOrdersCount,
+    recoveryStats,
   ] = await Promise.all([
     Order.find({ createdAt: { $gte: start, $lte: end } }).lean().exec(),
     Order.find({ createdAt: { $gte: previousStart, $lte: previousEnd } }).lean().exec(),
@@ -418,6 +420,7 @@ export default async function DashboardPage({
     Coffee.countDocuments().exec().catch(() => 0),
     Equipment.countDocuments().exec().catch(() => 0),
     Order.countDocuments().exec().catch(() => 0),
+    getCheckoutRecoveryStats(start, end).catch(() => ({ emailed: 0, recovered: 0, recoveredRevenue: 0, recoveryRate: 0 })),
   ]);
 
   const currentMetrics = calculatePeriodMetrics((currentOrders as unknown) as OrderDoc[]);
@@ -509,7 +512,7 @@ export default async function DashboardPage({
                 <div>
                   <h1 className="text-2xl font-bold text-gray-900">Admin Dashboard</h1>
                   <p className="text-sm text-gray-600 mt-0.5">
-                    Welcome back, {typeof user?.name === 'string' ? user.name : typeof user?.email === 'string' ? user.email : "Admin"}
+                    Welcome back, {user.username || "Admin"}
                   </p>
                 </div>
               </div>
@@ -693,6 +696,29 @@ export default async function DashboardPage({
           </div>
         </section>
 
+        {/* ABANDONED CHECKOUT RECOVERY */}
+        <section className="bg-white rounded-2xl p-8 shadow-xl border border-gray-100">
+          <div className="mb-6">
+            <h2 className="text-xl font-bold text-gray-900">Abandoned Checkout Recovery</h2>
+            <p className="text-sm text-gray-500">Reminder emails first sent in this period and the orders they brought back</p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+            <div className="p-4 rounded-xl bg-gray-50">
+              <p className="text-sm text-gray-600 mb-1">Checkouts emailed</p>
+              <p className="text-2xl font-bold text-gray-900">{recoveryStats.emailed}</p>
+            </div>
+            <div className="p-4 rounded-xl bg-gray-50">
+              <p className="text-sm text-gray-600 mb-1">Recovery rate</p>
+              <p className="text-2xl font-bold text-gray-900">{recoveryStats.recoveryRate.toFixed(1)}%</p>
+              <p className="text-xs text-gray-500">{recoveryStats.recovered} recovered</p>
+            </div>
+            <div className="p-4 rounded-xl bg-gray-50">
+              <p className="text-sm text-gray-600 mb-1">Recovered revenue</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrencyDetailed(recoveryStats.recoveredRevenue)}</p>
+            </div>
+          </div>
+        </section>
+
         {/* REVENUE BREAKDOWN - ENHANCED */}
         <section className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2 bg-white rounded-2xl p-8 shadow-xl border border-gray-100">
@@ -0,0 +1,449 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Plus, Pencil, Trash2, X, Loader2, Tag } from "lucide-react";
+import { formatPenceToGBP, poundsToPence, penceToPounds } from "@/lib/currency";
+
+type PromotionType = "percentage" | "fixed_amount" | "free_shipping" | "buy_x_get_y";
+
+interface Promotion {
+  _id: string;
+  name: string;
+  description?: string;
+  code: string;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  getDiscountPercent?: number;
+  scope?: { productIds: string[]; variantIds: string[]; categories: string[] };
+  minSubtotalPence: number;
+  usageLimit?: number | null;
+  usageCount: number;
+  perCustomerLimit?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  active: boolean;
+}
+
+interface FormState {
+  name: string;
+  description: string;
+  code: string;
+  type: PromotionType;
+  value: string; // percent, or pounds for fixed_amount
+  buyQuantity: string;
+  getQuantity: string;
+  getDiscountPercent: string;
+  minSubtotal: string; // pounds
+  usageLimit: string;
+  perCustomerLimit: string;
+  startsAt: string;
+  endsAt: string;
+  productIds: string;
+  variantIds: string;
+  categories: string;
+  active: boolean;
+}
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: "Percentage off",
+  fixed_amount: "Fixed amount off",
+  free_shipping: "Free shipping",
+  buy_x_get_y: "Buy X get Y",
+};
+
+const EMPTY_FORM: FormState = {
+  name: "",
+  description: "",
+  code: "",
+  type: "percentage",
+  value: "",
+  buyQuantity: "",
+  getQuantity: "",
+  getDiscountPercent: "100",
+  minSubtotal: "",
+  usageLimit: "",
+  perCustomerLimit: "",
+  startsAt: "",
+  endsAt: "",
+  productIds: "",
+  variantIds: "",
+  categories: "",
+  active: true,
+};
+
+function toDateInput(value?: string | null) {
+  return value ? new Date(value).toISOString().slice(0, 10) : "";
+}
+
+function splitList(value: string) {
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function describeValue(p: Promotion) {
+  switch (p.type) {
+    case "percentage":
+      return `${p.value}% off`;
+    case "fixed_amount":
+      return `${formatPenceToGBP(p.value)} off`;
+    case "free_shipping":
+      return "Free shipping";
+    case "buy_x_get_y":
+      return `Buy ${p.buyQuantity ?? "?"} get ${p.getQuantity ?? "?"} (${p.getDiscountPercent ?? 100}% off)`;
+  }
+}
+
+function fromPromotion(p: Promotion): FormState {
+  return {
+    name: p.name,
+    description: p.description ?? "",
+    code: p.code,
+    type: p.type,
+    value: p.type === "fixed_amount" ? String(penceToPounds(p.value)) : String(p.value ?? ""),
+    buyQuantity: p.buyQuantity ? String(p.buyQuantity) : "",
+    getQuantity: p.getQuantity ? String(p.getQuantity) : "",
+    getDiscountPercent: String(p.getDiscountPercent ?? 100),
+    minSubtotal: p.minSubtotalPence ? String(penceToPounds(p.minSubtotalPence)) : "",
+    usageLimit: p.usageLimit != null ? String(p.usageLimit) : "",
+    perCustomerLimit: p.perCustomerLimit != null ? String(p.perCustomerLimit) : "",
+    startsAt: toDateInput(p.startsAt),
+    endsAt: toDateInput(p.endsAt),
+    productIds: (p.scope?.productIds ?? []).join(", "),
+    variantIds: (p.scope?.variantIds ?? []).join(", "),
+    categories: (p.scope?.categories ?? []).join(", "),
+    active: p.active,
+  };
+}
+
+function toPayload(form: FormState) {
+  const value = Number(form.value || 0);
+  return {
+    name: form.name,
+    description: form.description,
+    code: form.code,
+    type: form.type,
+    value: form.type === "fixed_amount" ? poundsToPence(value) : value,
+    buyQuantity: form.type === "buy_x_get_y" ? form.buyQuantity || null : null,
+    getQuantity: form.type === "buy_x_get_y" ? form.getQuantity || null : null,
+    getDiscountPercent: form.type === "buy_x_get_y" ? form.getDiscountPercent || 100 : 100,
+    minSubtotalPence: poundsToPence(Number(form.minSubtotal || 0)),
+    usageLimit: form.usageLimit || null,
+    perCustomerLimit: form.perCustomerLimit || null,
+    startsAt: form.startsAt || null,
+    endsAt: form.endsAt || null,
+    scope: {
+      productIds: splitList(form.productIds),
+      variantIds: splitList(form.variantIds),
+      categories: splitList(form.categories),
+    },
+    active: form.active,
+  };
+}
+
+export default function PromotionsAdminPage() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/promotions", { credentials: "same-origin" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to load promotions");
+      setPromotions(json.data as Promotion[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load promotions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (p: Promotion) => {
+    setEditingId(p._id);
+    setForm(fromPromotion(p));
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((f) => ({ ...f, [key]: value }));
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch(editingId ? `/api/promotions/${editingId}` : "/api/promotions", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify(toPayload(form)),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to save promotion");
+      setShowForm(false);
+      await load();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save promotion");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(p: Promotion) {
+    try {
+      const res = await fetch(`/api/promotions/${p._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({ active: !p.active }),
+      });
+      if (!res.ok) throw new Error("Failed to update promotion");
+      setPromotions((list) => list.map((x) => (x._id === p._id ? { ...x, active: !p.active } : x)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update promotion");
+    }
+  }
+
+  async function remove(p: Promotion) {
+    if (!confirm(`Delete promotion ${p.code}? This cannot be undone.`)) return;
+    try {
+      const res = await fetch(`/api/promotions/${p._id}`, { method: "DELETE", credentials: "same-origin" });
+      if (!res.ok) throw new Error("Failed to delete promotion");
+      setPromotions((list) => list.filter((x) => x._id !== p._id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete promotion");
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Promotions</h1>
+          <p className="text-sm text-gray-600">Discount codes customers can apply at checkout.</p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg text-sm font-semibold"
+        >
+          <Plus size={16} /> New promotion
+        </button>
+      </div>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : promotions.length === 0 ? (
+        <div className="bg-white border rounded-lg p-8 text-center text-gray-500">
+          <Tag className="mx-auto mb-2 text-gray-300" size={32} />
+          No promotions yet.
+        </div>
+      ) : (
+        <div className="bg-white border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3">Code</th>
+                <th className="px-4 py-3">Name</th>
+                <th className="px-4 py-3">Discount</th>
+                <th className="px-4 py-3">Usage</th>
+                <th className="px-4 py-3">Valid</th>
+                <th className="px-4 py-3">Active</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {promotions.map((p) => (
+                <tr key={p._id} className="border-t">
+                  <td className="px-4 py-3 font-mono font-semibold">{p.code}</td>
+                  <td className="px-4 py-3">{p.name}</td>
+                  <td className="px-4 py-3">{describeValue(p)}</td>
+                  <td className="px-4 py-3">
+                    {p.usageCount}
+                    {p.usageLimit != null ? ` / ${p.usageLimit}` : ""}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {p.startsAt ? toDateInput(p.startsAt) : "—"} → {p.endsAt ? toDateInput(p.endsAt) : "—"}
+                  </td>
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() => toggleActive(p)}
+                      className={`px-2 py-1 rounded text-xs font-semibold ${
+                        p.active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"
+                      }`}
+                    >
+                      {p.active ? "Active" : "Inactive"}
+                    </button>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => openEdit(p)} className="p-2 rounded hover:bg-gray-100" title="Edit">
+                        <Pencil size={14} />
+                      </button>
+                      <button onClick={() => remove(p)} className="p-2 rounded hover:bg-red-50 text-red-600" title="Delete">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <form onSubmit={save} className="bg-white rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold">{editingId ? "Edit promotion" : "New promotion"}</h2>
+              <button type="button" onClick={() => setShowForm(false)} className="p-1 rounded hover:bg-gray-100">
+                <X size={18} />
+              </button>
+            </div>
+
+            {formError && <div className="text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{formError}</div>}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block text-sm">
+                <span className="font-medium">Name</span>
+                <input required value={form.name} onChange={(e) => update("name", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Code</span>
+                <input
+                  required
+                  value={form.code}
+                  onChange={(e) => update("code", e.target.value.toUpperCase())}
+                  className="mt-1 w-full border px-3 py-2 rounded font-mono uppercase"
+                />
+              </label>
+              <label className="block text-sm sm:col-span-2">
+                <span className="font-medium">Description</span>
+                <input value={form.description} onChange={(e) => update("description", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Type</span>
+                <select value={form.type} onChange={(e) => update("type", e.target.value as PromotionType)} className="mt-1 w-full border px-3 py-2 rounded">
+                  {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {(form.type === "percentage" || form.type === "fixed_amount") && (
+                <label className="block text-sm">
+                  <span className="font-medium">{form.type === "percentage" ? "Percent off" : "Amount off (GBP)"}</span>
+                  <input
+                    type="number"
+                    step={form.type === "percentage" ? "1" : "0.01"}
+                    min="0"
+                    max={form.type === "percentage" ? "100" : undefined}
+                    required
+                    value={form.value}
+                    onChange={(e) => update("value", e.target.value)}
+                    className="mt-1 w-full border px-3 py-2 rounded"
+                  />
+                </label>
+              )}
+              {form.type === "buy_x_get_y" && (
+                <>
+                  <label className="block text-sm">
+                    <span className="font-medium">Buy quantity</span>
+                    <input type="number" min="1" required value={form.buyQuantity} onChange={(e) => update("buyQuantity", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+                  </label>
+                  <label className="block text-sm">
+                    <span className="font-medium">Get quantity</span>
+                    <input type="number" min="1" required value={form.getQuantity} onChange={(e) => update("getQuantity", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+                  </label>
+                  <label className="block text-sm">
+                    <span className="font-medium">Discount on free items (%)</span>
+                    <input type="number" min="0" max="100" value={form.getDiscountPercent} onChange={(e) => update("getDiscountPercent", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+                  </label>
+                </>
+              )}
+              <label className="block text-sm">
+                <span className="font-medium">Minimum subtotal (GBP)</span>
+                <input type="number" step="0.01" min="0" value={form.minSubtotal} onChange={(e) => update("minSubtotal", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Total usage limit</span>
+                <input type="number" min="1" placeholder="Unlimited" value={form.usageLimit} onChange={(e) => update("usageLimit", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Per-customer limit</span>
+                <input type="number" min="1" placeholder="Unlimited" value={form.perCustomerLimit} onChange={(e) => update("perCustomerLimit", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Starts</span>
+                <input type="date" value={form.startsAt} onChange={(e) => update("startsAt", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+              <label className="block text-sm">
+                <span className="font-medium">Ends</span>
+                <input type="date" value={form.endsAt} onChange={(e) => update("endsAt", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+            </div>
+
+            <fieldset className="border rounded p-4 space-y-3">
+              <legend className="text-sm font-medium px-1">Scope (leave empty for the whole basket)</legend>
+              <label className="block text-sm">
+                <span className="text-gray-600">Product ids or slugs (comma separated)</span>
+                <input value={form.productIds} onChange={(e) => update("productIds", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-600">Coffee variant ids (comma separated)</span>
+                <input value={form.variantIds} onChange={(e) => update("variantIds", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-600">Categories, e.g. coffee, grinders (comma separated)</span>
+                <input value={form.categories} onChange={(e) => update("categories", e.target.value)} className="mt-1 w-full border px-3 py-2 rounded" />
+              </label>
+            </fieldset>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.active} onChange={(e) => update("active", e.target.checked)} />
+              Active
+            </label>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button type="button" onClick={() => setShowForm(false)} className="px-4 py-2 border rounded text-sm">
+                Cancel
+              </button>
+              <button type="submit" disabled={saving} className="px-4 py-2 bg-black text-white rounded text-sm font-semibold disabled:opacity-50">
+                {saving ? "Saving…" : "Save promotion"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
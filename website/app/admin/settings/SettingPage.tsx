@@ -2,20 +2,97 @@
 
 import { useEffect, useState } from 'react';
 import { poundsToPence, penceToPounds, formatPenceToGBP } from '@/lib/currency';
+import {
+  SHIPPING_SERVICES,
+  SHIPPING_SERVICE_LABELS,
+  type ShippingService,
+  type ShippingZone,
+} from '@/lib/shipping';
 
 /**
  * Simple admin page to view/edit delivery settings.
- * - Values shown in pounds; stored in pence in DB.
+ * - Values shown in pounds / kg; stored in pence / grams in DB.
+ * - Shipping zones replace the flat price once at least one is added.
  *
  * Route: /admin/settings
  *
  * NOTE: No auth here — add protection in production.
  */
 
+// Editable form of a rate row (inputs are strings so fields can be cleared)
+type RateRow = { service: ShippingService; maxWeightKg: string; minSubtotal: string; price: string };
+type ZoneForm = { name: string; countries: string; postcodePrefixes: string; rates: RateRow[] };
+
+function zoneToForm(z: ShippingZone): ZoneForm {
+  return {
+    name: z.name,
+    countries: z.countries.join(', '),
+    postcodePrefixes: z.postcodePrefixes.join(' '),
+    rates: z.rates.map((r) => ({
+      service: r.service,
+      maxWeightKg: r.maxWeightGrams === null ? '' : String(r.maxWeightGrams / 1000),
+      minSubtotal: r.minSubtotalPence ? String(penceToPounds(r.minSubtotalPence)) : '',
+      price: String(penceToPounds(r.pricePence)),
+    })),
+  };
+}
+
+function formToZone(z: ZoneForm) {
+  return {
+    name: z.name,
+    countries: z.countries,
+    postcodePrefixes: z.postcodePrefixes,
+    rates: z.rates.map((r) => ({
+      service: r.service,
+      maxWeightGrams: r.maxWeightKg.trim() === '' ? null : Math.round(Number(r.maxWeightKg) * 1000),
+      minSubtotalPence: r.minSubtotal.trim() === '' ? 0 : poundsToPence(Number(r.minSubtotal)),
+      pricePence: poundsToPence(Number(r.price || 0)),
+    })),
+  };
+}
+
+const emptyRate = (service: ShippingService = 'standard'): RateRow => ({ service, maxWeightKg: '', minSubtotal: '', price: '' });
+
+// Starting point for UK carriers' surcharge areas — check against your courier's list
+const UK_ZONE_TEMPLATE: ZoneForm[] = [
+  {
+    name: 'UK mainland',
+    countries: 'GB',
+    postcodePrefixes: '',
+    rates: [
+      { service: 'standard', maxWeightKg: '2', minSubtotal: '', price: '4.99' },
+      { service: 'standard', maxWeightKg: '2', minSubtotal: '30', price: '0' },
+      { service: 'standard', maxWeightKg: '10', minSubtotal: '', price: '8.99' },
+      { service: 'standard', maxWeightKg: '', minSubtotal: '', price: '19.99' },
+      { service: 'next_day', maxWeightKg: '2', minSubtotal: '', price: '7.99' },
+      { service: 'next_day', maxWeightKg: '10', minSubtotal: '', price: '12.99' },
+    ],
+  },
+  {
+    name: 'Highlands & Islands',
+    countries: 'GB',
+    postcodePrefixes: 'HS IV KW ZE PH17 PH18 PH19 PH20 PH21 PH22 PH23 PH24 PH25 PH26 PH30 PH31 PH32 PH33 PH34 PH35 PH36 PH37 PH38 PH39 PH40 PH41 PH42 PH43 PH44 PH49 PH50 PA20 PA21 PA22 PA23 PA24 PA25 PA26 PA27 PA28 PA29 PA30 PA31 PA32 PA33 PA34 PA35 PA36 PA37 PA38 PA41 PA42 PA43 PA44 PA45 PA46 PA47 PA48 PA49 PA60 PA61 PA62 PA63 PA64 PA65 PA66 PA67 PA68 PA69 PA70 PA71 PA72 PA73 PA74 PA75 PA76 PA77 PA78 KA27 KA28',
+    rates: [
+      { service: 'standard', maxWeightKg: '2', minSubtotal: '', price: '9.99' },
+      { service: 'standard', maxWeightKg: '', minSubtotal: '', price: '39.99' },
+    ],
+  },
+  {
+    name: 'Northern Ireland',
+    countries: 'GB',
+    postcodePrefixes: 'BT',
+    rates: [
+      { service: 'standard', maxWeightKg: '2', minSubtotal: '', price: '7.99' },
+      { service: 'standard', maxWeightKg: '', minSubtotal: '', price: '29.99' },
+    ],
+  },
+];
+
 export default function AdminSettingsPage() {
   const [deliveryPounds, setDeliveryPounds] = useState<number>(4.99);
   const [thresholdPounds, setThresholdPounds] = useState<number>(30);
   const [enabled, setEnabled] = useState<boolean>(true);
+  const [zones, setZones] = useState<ZoneForm[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -33,6 +110,7 @@ export default function AdminSettingsPage() {
         setDeliveryPounds((json.deliveryPricePence ?? 499) / 100);
         setThresholdPounds((json.freeDeliveryThresholdPence ?? 3000) / 100);
         setEnabled(Boolean(json.freeDeliveryEnabled ?? true));
+        setZones(Array.isArray(json.shippingZones) ? (json.shippingZones as ShippingZone[]).map(zoneToForm) : []);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load settings');
       } finally {
@@ -51,6 +129,7 @@ export default function AdminSettingsPage() {
         deliveryPricePence: poundsToPence(Number(deliveryPounds || 0)),
         freeDeliveryThresholdPence: poundsToPence(Number(thresholdPounds || 0)),
         freeDeliveryEnabled: Boolean(enabled),
+        shippingZones: zones.map(formToZone),
       };
       const res = await fetch('/api/admin/settings', {
         method: 'PATCH',
@@ -61,6 +140,8 @@ export default function AdminSettingsPage() {
         const body = await res.json().catch(() => ({}));
         throw new Error(body?.error || 'Failed to save settings');
       }
+      const saved = await res.json().catch(() => ({}));
+      if (Array.isArray(saved?.data?.shippingZones)) setZones((saved.data.shippingZones as ShippingZone[]).map(zoneToForm));
       setSuccess('Settings saved');
       setTimeout(() => setSuccess(null), 2000);
     } catch (err) {
@@ -70,8 +151,20 @@ export default function AdminSettingsPage() {
     }
   }
 
+  function updateZone(index: number, patch: Partial<ZoneForm>) {
+    setZones((list) => list.map((z, i) => (i === index ? { ...z, ...patch } : z)));
+  }
+
+  function updateRate(zoneIndex: number, rateIndex: number, patch: Partial<RateRow>) {
+    setZones((list) =>
+      list.map((z, i) =>
+        i === zoneIndex ? { ...z, rates: z.rates.map((r, j) => (j === rateIndex ? { ...r, ...patch } : r)) } : z
+      )
+    );
+  }
+
   return (
-    <div className="max-w-3xl mx-auto p-6">
+    <div className="max-w-5xl mx-auto p-6">
       <h1 className="text-2xl font-bold mb-3">Delivery settings</h1>
 
       {loading ? (
@@ -113,6 +206,160 @@ export default function AdminSettingsPage() {
             <input id="enabled" type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
             <label htmlFor="enabled" className="text-sm">Enable free delivery threshold</label>
           </div>
+          {zones.length > 0 && (
+            <div className="text-xs text-amber-700">The flat price above is ignored while shipping zones are set.</div>
+          )}
+
+          <div className="border-t pt-4 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h2 className="text-lg font-semibold">Shipping zones</h2>
+                <p className="text-xs text-gray-500">
+                  Zones with postcode prefixes (an area like <code>BT</code> or a district like <code>KA27</code>) take
+                  priority over country-wide zones. In each zone the smallest weight band that fits the parcel is used,
+                  and within it the highest minimum order the basket reaches. Leave max weight empty for &ldquo;any
+                  weight&rdquo;. A service with no matching rate isn&apos;t offered.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {zones.length === 0 && (
+                  <button type="button" onClick={() => setZones(UK_ZONE_TEMPLATE)} className="px-3 py-2 border rounded text-sm">
+                    Start from UK template
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setZones((list) => [...list, { name: '', countries: 'GB', postcodePrefixes: '', rates: [emptyRate()] }])}
+                  className="px-3 py-2 border rounded text-sm"
+                >
+                  Add zone
+                </button>
+              </div>
+            </div>
+
+            {zones.map((zone, zi) => (
+              <div key={zi} className="border rounded p-4 space-y-3 bg-gray-50">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium mb-1">Zone name</label>
+                    <input
+                      value={zone.name}
+                      onChange={(e) => updateZone(zi, { name: e.target.value })}
+                      placeholder="Northern Ireland"
+                      className="w-full border px-3 py-2 rounded bg-white"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium mb-1">Countries</label>
+                    <input
+                      value={zone.countries}
+                      onChange={(e) => updateZone(zi, { countries: e.target.value })}
+                      placeholder="GB"
+                      className="w-full border px-3 py-2 rounded bg-white"
+                    />
+                  </div>
+                  <div className="flex items-end justify-end">
+                    <button
+                      type="button"
+                      onClick={() => setZones((list) => list.filter((_, i) => i !== zi))}
+                      className="px-3 py-2 border border-red-200 text-red-700 rounded text-sm"
+                    >
+                      Remove zone
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium mb-1">Postcode prefixes (blank = whole country)</label>
+                  <textarea
+                    value={zone.postcodePrefixes}
+                    onChange={(e) => updateZone(zi, { postcodePrefixes: e.target.value })}
+                    rows={2}
+                    placeholder="BT"
+                    className="w-full border px-3 py-2 rounded bg-white font-mono text-xs"
+                  />
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead className="text-left text-xs text-gray-600">
+                    <tr>
+                      <th className="py-1 pr-2">Service</th>
+                      <th className="py-1 pr-2">Max weight (kg)</th>
+                      <th className="py-1 pr-2">Min order (GBP)</th>
+                      <th className="py-1 pr-2">Price (GBP)</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {zone.rates.map((rate, ri) => (
+                      <tr key={ri}>
+                        <td className="py-1 pr-2">
+                          <select
+                            value={rate.service}
+                            onChange={(e) => updateRate(zi, ri, { service: e.target.value as ShippingService })}
+                            className="border px-2 py-1 rounded bg-white"
+                          >
+                            {SHIPPING_SERVICES.map((s) => (
+                              <option key={s} value={s}>
+                                {SHIPPING_SERVICE_LABELS[s]}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-1 pr-2">
+                          <input
+                            type="number"
+                            step="0.1"
+                            min="0"
+                            value={rate.maxWeightKg}
+                            onChange={(e) => updateRate(zi, ri, { maxWeightKg: e.target.value })}
+                            placeholder="any"
+                            className="w-24 border px-2 py-1 rounded bg-white"
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={rate.minSubtotal}
+                            onChange={(e) => updateRate(zi, ri, { minSubtotal: e.target.value })}
+                            placeholder="0"
+                            className="w-24 border px-2 py-1 rounded bg-white"
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={rate.price}
+                            onChange={(e) => updateRate(zi, ri, { price: e.target.value })}
+                            className="w-24 border px-2 py-1 rounded bg-white"
+                          />
+                        </td>
+                        <td className="py-1 text-right">
+                          <button
+                            type="button"
+                            onClick={() => updateZone(zi, { rates: zone.rates.filter((_, j) => j !== ri) })}
+                            className="text-xs text-red-700"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <button
+                  type="button"
+                  onClick={() => updateZone(zi, { rates: [...zone.rates, emptyRate()] })}
+                  className="text-sm underline"
+                >
+                  Add rate
+                </button>
+              </div>
+            ))}
+          </div>
 
           <div className="flex items-center gap-3">
             <button onClick={save} disabled={saving} className="px-4 py-2 bg-black text-white rounded">
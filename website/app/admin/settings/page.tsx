@@ -4,7 +4,7 @@ import AdminSettingsPage from "./SettingPage";
 
 export default async function Page() {
   // Server-side protection: will redirect / throw if not authenticated
-  await requireAuth();
+  await requireAuth("settings.manage");
 
   // Render the client component (copy your provided client code into ./AdminSettingsPage.tsx)
   return <AdminSettingsPage />;
@@ -0,0 +1,421 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Loader2, RotateCcw, Search, Upload, Webhook, X, Eye } from "lucide-react";
+
+type EventStatus = "pending" | "processing" | "processed" | "failed" | "ignored";
+
+interface StripeEventAttempt {
+  at: string;
+  source: "webhook" | "replay" | "backfill";
+  by?: string | null;
+  status: EventStatus;
+  httpStatus?: number | null;
+  error?: string | null;
+  durationMs?: number | null;
+}
+
+interface StripeEventRow {
+  _id: string;
+  eventId: string;
+  type: string;
+  livemode: boolean;
+  stripeCreatedAt?: string | null;
+  paymentIntentId?: string | null;
+  objectId?: string | null;
+  receivedVia: "webhook" | "replay" | "backfill";
+  status: EventStatus;
+  attempts: number;
+  lastError?: string | null;
+  lastAttemptAt?: string | null;
+  processedAt?: string | null;
+  history: StripeEventAttempt[];
+  payload?: Record<string, unknown>;
+  createdAt?: string;
+}
+
+interface BackfillSummary {
+  received: number;
+  inserted: number;
+  duplicates: number;
+  invalid: number;
+  processed: number;
+  failed: number;
+}
+
+// Failed and pending first: those are the ones that need a look
+const STATUS_TABS: { value: "" | EventStatus; label: string }[] = [
+  { value: "failed", label: "Failed" },
+  { value: "pending", label: "Pending" },
+  { value: "processing", label: "Processing" },
+  { value: "processed", label: "Processed" },
+  { value: "ignored", label: "Ignored" },
+  { value: "", label: "All" },
+];
+
+const STATUS_STYLES: Record<EventStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  processing: "bg-blue-100 text-blue-800",
+  processed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  ignored: "bg-gray-100 text-gray-600",
+};
+
+function formatDateTime(iso?: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-GB") : "—";
+}
+
+export default function StripeEventsAdminPage() {
+  const [events, setEvents] = useState<StripeEventRow[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [total, setTotal] = useState(0);
+  const [status, setStatus] = useState<"" | EventStatus>("failed");
+  const [query, setQuery] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [detail, setDetail] = useState<StripeEventRow | null>(null);
+  const [showBackfill, setShowBackfill] = useState(false);
+  const [backfillJson, setBackfillJson] = useState("");
+  const [backfillProcess, setBackfillProcess] = useState(false);
+  const [backfilling, setBackfilling] = useState(false);
+
+  const load = useCallback(async (statusFilter: string, q: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (statusFilter) params.set("status", statusFilter);
+      if (q.trim()) params.set("q", q.trim());
+      const res = await fetch(`/api/admin/stripe-events?${params.toString()}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load events (${res.status})`);
+      setEvents(json.data.events);
+      setCounts(json.data.counts || {});
+      setTotal(json.data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(status, query);
+    // query is applied on submit
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, load]);
+
+  const openDetail = async (id: string) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/stripe-events/${id}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Failed to load event (${res.status})`);
+      setDetail(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const replay = async (ev: StripeEventRow) => {
+    if (!confirm(`Run ${ev.type} (${ev.eventId}) through the webhook handler again?`)) return;
+    setReplaying(ev._id);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/stripe-events/${ev._id}/replay`, { method: "POST" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Replay failed (${res.status})`);
+      const updated = json.data as StripeEventRow | null;
+      setNotice(
+        updated?.status === "failed"
+          ? `Replayed ${ev.eventId} — it failed again: ${updated.lastError || "see history"}`
+          : `Replayed ${ev.eventId} — ${updated?.status ?? "done"}`
+      );
+      if (updated && detail?._id === updated._id) setDetail({ ...detail, ...updated });
+      await load(status, query);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const runBackfill = async (e: React.FormEvent) => {
+    e.preventDefault();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(backfillJson);
+    } catch {
+      setError("That isn't valid JSON");
+      return;
+    }
+    setBackfilling(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/stripe-events/backfill${backfillProcess ? "?process=true" : ""}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(parsed),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || `Backfill failed (${res.status})`);
+      const s = json.data as BackfillSummary;
+      setNotice(
+        `Backfill: ${s.inserted} new, ${s.duplicates} already stored, ${s.invalid} invalid` +
+          (backfillProcess ? `; ${s.processed} handled, ${s.failed} failed` : "")
+      );
+      setShowBackfill(false);
+      setBackfillJson("");
+      await load(status, query);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBackfilling(false);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Webhook size={22} /> Stripe Events
+          </h1>
+          <p className="text-sm text-gray-600">
+            Every verified webhook event and how handling it went. Failed events can be replayed.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowBackfill(true)}
+          className="inline-flex items-center gap-2 px-4 py-2 border rounded-lg text-sm font-semibold"
+        >
+          <Upload size={16} /> Import events
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {STATUS_TABS.map((t) => (
+          <button
+            key={t.label}
+            onClick={() => setStatus(t.value)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border ${
+              status === t.value ? "bg-black text-white border-black" : "bg-white text-gray-700"
+            }`}
+          >
+            {t.label}
+            {t.value && counts[t.value] ? <span className="ml-1.5 opacity-70">{counts[t.value]}</span> : null}
+          </button>
+        ))}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load(status, query);
+        }}
+        className="flex flex-wrap gap-2 mb-4"
+      >
+        <div className="relative flex-1 min-w-[200px]">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Event id (evt_…) or PaymentIntent id (pi_…)"
+            className="w-full border pl-8 pr-3 py-2 rounded text-sm"
+          />
+        </div>
+        <button type="submit" className="px-4 py-2 border rounded text-sm font-semibold">
+          Search
+        </button>
+      </form>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+      {notice && <div className="mb-4 text-sm text-green-800 bg-green-50 px-3 py-2 rounded">{notice}</div>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : events.length === 0 ? (
+        <div className="bg-white border rounded-lg p-8 text-center text-gray-500">
+          <Webhook className="mx-auto mb-2 text-gray-300" size={32} />
+          No events found.
+        </div>
+      ) : (
+        <div className="bg-white border rounded-lg overflow-x-auto">
+          <div className="px-4 py-2 text-xs text-gray-500 border-b">{total} events</div>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3">Event</th>
+                <th className="px-4 py-3">PaymentIntent</th>
+                <th className="px-4 py-3">Received</th>
+                <th className="px-4 py-3">Attempts</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((ev) => (
+                <tr key={ev._id} className="border-t align-top">
+                  <td className="px-4 py-3">
+                    <div className="font-semibold">{ev.type}</div>
+                    <div className="text-xs text-gray-500 font-mono">{ev.eventId}</div>
+                    {!ev.livemode && <div className="text-xs text-amber-700">test mode</div>}
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs">{ev.paymentIntentId || "—"}</td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {formatDateTime(ev.createdAt)}
+                    {ev.receivedVia !== "webhook" && <div className="text-xs">via {ev.receivedVia}</div>}
+                  </td>
+                  <td className="px-4 py-3">{ev.attempts}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded text-xs font-semibold ${STATUS_STYLES[ev.status]}`}>
+                      {ev.status}
+                    </span>
+                    {ev.lastError && <div className="text-xs text-red-700 mt-1 max-w-xs break-words">{ev.lastError}</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-1">
+                      <button onClick={() => openDetail(ev._id)} className="p-2 rounded hover:bg-gray-100" title="Details">
+                        <Eye size={14} />
+                      </button>
+                      <button
+                        onClick={() => replay(ev)}
+                        disabled={replaying === ev._id}
+                        className="p-2 rounded hover:bg-gray-100 disabled:opacity-50"
+                        title="Replay"
+                      >
+                        {replaying === ev._id ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {detail && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={() => setDetail(null)}>
+          <div
+            className="bg-white rounded-lg w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 space-y-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-start justify-between">
+              <div>
+                <h2 className="text-lg font-bold">{detail.type}</h2>
+                <div className="text-xs text-gray-500 font-mono">{detail.eventId}</div>
+              </div>
+              <button onClick={() => setDetail(null)} className="p-1 rounded hover:bg-gray-100">
+                <X size={18} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <span className="text-gray-500">Status:</span>{" "}
+                <span className={`px-2 py-0.5 rounded text-xs font-semibold ${STATUS_STYLES[detail.status]}`}>
+                  {detail.status}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-500">Created at Stripe:</span> {formatDateTime(detail.stripeCreatedAt)}
+              </div>
+              <div>
+                <span className="text-gray-500">Last attempt:</span> {formatDateTime(detail.lastAttemptAt)}
+              </div>
+              <div>
+                <span className="text-gray-500">Handled:</span> {formatDateTime(detail.processedAt)}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Attempts</h3>
+              {detail.history.length === 0 ? (
+                <p className="text-sm text-gray-500">Not handled yet.</p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {detail.history.map((h, i) => (
+                    <li key={i} className="flex flex-wrap gap-x-2">
+                      <span className="text-gray-500">{formatDateTime(h.at)}</span>
+                      <span>{h.source}</span>
+                      {h.by && <span className="text-gray-500">by {h.by}</span>}
+                      <span className={`px-1.5 rounded text-xs font-semibold ${STATUS_STYLES[h.status]}`}>{h.status}</span>
+                      {h.httpStatus ? <span className="text-gray-500">HTTP {h.httpStatus}</span> : null}
+                      {h.durationMs != null && <span className="text-gray-500">{h.durationMs} ms</span>}
+                      {h.error && <span className="w-full text-red-700 pl-4">{h.error}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Payload</h3>
+              <pre className="bg-gray-900 text-gray-100 rounded p-3 text-xs max-h-80 overflow-auto">
+                {JSON.stringify(detail.payload, null, 2)}
+              </pre>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={() => replay(detail)}
+                disabled={replaying === detail._id}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg text-sm font-semibold disabled:opacity-50"
+              >
+                {replaying === detail._id ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />} Replay
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showBackfill && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <form onSubmit={runBackfill} className="bg-white rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold">Import events</h2>
+              <button type="button" onClick={() => setShowBackfill(false)} className="p-1 rounded hover:bg-gray-100">
+                <X size={18} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              Paste a JSON export of Stripe events — an array, or the output of{" "}
+              <code className="bg-gray-100 px-1 rounded">stripe events list</code>. Events already stored are skipped.
+              For local testing; disabled in production.
+            </p>
+            <textarea
+              value={backfillJson}
+              onChange={(e) => setBackfillJson(e.target.value)}
+              rows={12}
+              className="w-full border rounded p-2 font-mono text-xs"
+              placeholder='{ "object": "list", "data": [ { "id": "evt_…", "type": "payment_intent.succeeded", … } ] }'
+              required
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={backfillProcess} onChange={(e) => setBackfillProcess(e.target.checked)} />
+              Also run the new events through the webhook handlers (oldest first)
+            </label>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setShowBackfill(false)} className="px-4 py-2 border rounded text-sm">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={backfilling}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded text-sm font-semibold disabled:opacity-50"
+              >
+                {backfilling && <Loader2 size={16} className="animate-spin" />} Import
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
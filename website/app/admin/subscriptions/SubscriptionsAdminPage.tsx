@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2, Repeat, Search, CalendarClock } from "lucide-react";
+import { SUBSCRIPTION_CADENCE_LABELS } from "@/app/store/CartStore";
+import type { SubscriptionCadence } from "@/models/Subscription";
+
+type SubscriptionStatus = "active" | "paused" | "past_due" | "cancelled";
+
+interface SubscriptionRow {
+  _id: string;
+  email: string;
+  name?: string | null;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  cadence: SubscriptionCadence;
+  status: SubscriptionStatus;
+  nextRenewalAt: string;
+  skipNext: boolean;
+  renewalCount: number;
+  lastRenewalAt?: string | null;
+  failedAttempts: number;
+  lastError?: string | null;
+  createdAt?: string;
+}
+
+const STATUS_STYLES: Record<SubscriptionStatus, string> = {
+  active: "bg-green-100 text-green-800",
+  paused: "bg-gray-100 text-gray-700",
+  past_due: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-400",
+};
+
+const UPCOMING_WINDOW_DAYS = 7;
+
+function formatDate(value?: string | null) {
+  if (!value) return "—";
+  return new Date(value).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" });
+}
+
+export default function SubscriptionsAdminPage() {
+  const [subscriptions, setSubscriptions] = useState<SubscriptionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<"" | SubscriptionStatus>("active");
+  const [query, setQuery] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter) params.set("status", statusFilter);
+      if (query.trim()) params.set("q", query.trim());
+      const res = await fetch(`/api/subscriptions?${params.toString()}`, { credentials: "same-origin" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to load subscriptions");
+      setSubscriptions(json.data as SubscriptionRow[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load subscriptions");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, query]);
+
+  useEffect(() => {
+    load();
+    // query is applied on submit, not on every keystroke
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  const upcoming = useMemo(() => {
+    const cutoff = Date.now() + UPCOMING_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    return subscriptions.filter(
+      (s) => s.status === "active" && !s.skipNext && new Date(s.nextRenewalAt).getTime() <= cutoff
+    );
+  }, [subscriptions]);
+
+  const upcomingValue = upcoming.reduce((sum, s) => sum + s.unitPrice * s.quantity, 0);
+
+  async function runAction(sub: SubscriptionRow, action: string) {
+    if (action === "cancel" && !confirm(`Cancel ${sub.email}'s subscription? The customer will be emailed.`)) return;
+    setBusyId(sub._id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/subscriptions/${sub._id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({ action }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to update subscription");
+      setSubscriptions((list) =>
+        list.map((s) => (s._id === sub._id ? { ...s, ...(json.data as Partial<SubscriptionRow>) } : s))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update subscription");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Repeat size={22} /> Subscriptions
+          </h1>
+          <p className="text-sm text-gray-600">Recurring coffee deliveries, charged automatically on the renewal date.</p>
+        </div>
+        <div className="flex items-center gap-3 bg-white border rounded-lg px-4 py-3">
+          <CalendarClock size={20} className="text-gray-500" />
+          <div>
+            <div className="text-xs text-gray-500">Renewing in the next {UPCOMING_WINDOW_DAYS} days</div>
+            <div className="font-semibold">
+              {upcoming.length} · £{upcomingValue.toFixed(2)} <span className="text-xs text-gray-500">(excl. shipping)</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as "" | SubscriptionStatus)}
+          className="border rounded-lg px-3 py-2 text-sm bg-white"
+        >
+          <option value="">All statuses</option>
+          <option value="active">Active</option>
+          <option value="paused">Paused</option>
+          <option value="past_due">Past due</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            load();
+          }}
+          className="flex-1 flex gap-2"
+        >
+          <div className="relative flex-1">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search email, name or coffee"
+              className="w-full border rounded-lg pl-9 pr-3 py-2 text-sm"
+            />
+          </div>
+          <button type="submit" className="px-4 py-2 bg-black text-white rounded-lg text-sm font-semibold">
+            Search
+          </button>
+        </form>
+      </div>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : subscriptions.length === 0 ? (
+        <div className="bg-white border rounded-lg p-8 text-center text-gray-500">No subscriptions found.</div>
+      ) : (
+        <div className="bg-white border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3">Customer</th>
+                <th className="px-4 py-3">Coffee</th>
+                <th className="px-4 py-3">Frequency</th>
+                <th className="px-4 py-3">Next renewal</th>
+                <th className="px-4 py-3">Renewals</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {subscriptions.map((s) => (
+                <tr key={s._id} className="border-t align-top">
+                  <td className="px-4 py-3">
+                    <div className="font-medium">{s.name || "—"}</div>
+                    <div className="text-xs text-gray-500">{s.email}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div>{s.productName}</div>
+                    <div className="text-xs text-gray-500">
+                      {s.quantity} × £{s.unitPrice.toFixed(2)}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">{SUBSCRIPTION_CADENCE_LABELS[s.cadence] ?? s.cadence}</td>
+                  <td className="px-4 py-3">
+                    {s.status === "cancelled" ? "—" : formatDate(s.nextRenewalAt)}
+                    {s.skipNext && <div className="text-xs text-amber-700">Skipping</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    {s.renewalCount}
+                    {s.lastRenewalAt && <div className="text-xs text-gray-500">Last {formatDate(s.lastRenewalAt)}</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded text-xs font-semibold ${STATUS_STYLES[s.status]}`}>
+                      {s.status.replace("_", " ")}
+                    </span>
+                    {s.lastError && (
+                      <div className="mt-1 text-xs text-red-600 max-w-[200px]" title={s.lastError}>
+                        {s.failedAttempts} failed: {s.lastError}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {s.status !== "cancelled" && (
+                      <div className="flex justify-end gap-2 whitespace-nowrap">
+                        {s.status === "active" && !s.skipNext && (
+                          <button
+                            onClick={() => runAction(s, "skip_next")}
+                            disabled={busyId === s._id}
+                            className="px-2 py-1 border rounded text-xs disabled:opacity-50"
+                          >
+                            Skip next
+                          </button>
+                        )}
+                        {s.status === "active" ? (
+                          <button
+                            onClick={() => runAction(s, "pause")}
+                            disabled={busyId === s._id}
+                            className="px-2 py-1 border rounded text-xs disabled:opacity-50"
+                          >
+                            Pause
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => runAction(s, "resume")}
+                            disabled={busyId === s._id}
+                            className="px-2 py-1 border rounded text-xs disabled:opacity-50"
+                          >
+                            Resume
+                          </button>
+                        )}
+                        <button
+                          onClick={() => runAction(s, "cancel")}
+                          disabled={busyId === s._id}
+                          className="px-2 py-1 border border-red-200 text-red-700 rounded text-xs disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
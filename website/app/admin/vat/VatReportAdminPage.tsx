@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Download, Loader2, Percent } from "lucide-react";
+
+interface VatReportRow {
+  rate: number;
+  net: number;
+  vat: number;
+  gross: number;
+  documents: number;
+}
+
+interface VatReport {
+  start: string;
+  end: string;
+  rows: VatReportRow[];
+  totals: { net: number; vat: number; gross: number };
+  outsideScope: number;
+  orders: number;
+  invoices: number;
+  credits: number;
+  recalculated: number;
+}
+
+function toDateInput(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function currentQuarter() {
+  const now = new Date();
+  const start = new Date(Date.UTC(now.getUTCFullYear(), Math.floor(now.getUTCMonth() / 3) * 3, 1));
+  return { from: toDateInput(start), to: toDateInput(now) };
+}
+
+const gbp = (n: number) => `£${n.toFixed(2)}`;
+
+export default function VatReportAdminPage() {
+  const [range, setRange] = useState(currentQuarter);
+  const [report, setReport] = useState<VatReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from: range.from, to: range.to });
+      const res = await fetch(`/api/admin/vat-report?${params.toString()}`, { credentials: "same-origin" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to load VAT report");
+      setReport(json.data as VatReport);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load VAT report");
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    load();
+    // the range is applied on submit, not on every change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  function downloadCsv() {
+    if (!report) return;
+    const lines = [
+      ["Rate", "Net", "VAT", "Gross", "Documents"].join(","),
+      ...report.rows.map((r) => [`${r.rate}%`, r.net.toFixed(2), r.vat.toFixed(2), r.gross.toFixed(2), r.documents].join(",")),
+      ["Total", report.totals.net.toFixed(2), report.totals.vat.toFixed(2), report.totals.gross.toFixed(2), ""].join(","),
+      ["Outside scope (gift cards)", "", "", report.outsideScope.toFixed(2), ""].join(","),
+    ];
+    const blob = new Blob([lines.join("\n")], { type: "text/csv" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `vat-${range.from}-to-${range.to}.csv`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Percent size={22} /> VAT summary
+        </h1>
+        <p className="text-sm text-gray-600">
+          Shop orders by payment date and manual invoices by invoice date. Prices include VAT; refunds and credit notes come off in the period they were made.
+        </p>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load();
+        }}
+        className="flex flex-col sm:flex-row sm:items-end gap-3 mb-6"
+      >
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">From</span>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+            className="border rounded-lg px-3 py-2 bg-white"
+            required
+          />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">To</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+            className="border rounded-lg px-3 py-2 bg-white"
+            required
+          />
+        </label>
+        <button type="submit" className="px-4 py-2 bg-black text-white rounded-lg text-sm font-semibold">
+          Run report
+        </button>
+        <button
+          type="button"
+          onClick={downloadCsv}
+          disabled={!report || loading}
+          className="px-4 py-2 border rounded-lg text-sm font-semibold bg-white flex items-center gap-2 disabled:opacity-50"
+        >
+          <Download size={16} /> CSV
+        </button>
+      </form>
+
+      {error && <div className="mb-4 text-sm text-red-700 bg-red-50 px-3 py-2 rounded">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-600">
+          <Loader2 className="animate-spin" size={16} /> Loading…
+        </div>
+      ) : report ? (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+            <div className="bg-white border rounded-lg p-4">
+              <div className="text-xs text-gray-500">VAT due on sales</div>
+              <div className="text-2xl font-bold">{gbp(report.totals.vat)}</div>
+            </div>
+            <div className="bg-white border rounded-lg p-4">
+              <div className="text-xs text-gray-500">Sales excl. VAT</div>
+              <div className="text-2xl font-bold">{gbp(report.totals.net)}</div>
+            </div>
+            <div className="bg-white border rounded-lg p-4">
+              <div className="text-xs text-gray-500">Documents</div>
+              <div className="text-2xl font-bold">{report.orders + report.invoices}</div>
+              <div className="text-xs text-gray-500">
+                {report.orders} orders · {report.invoices} manual invoices · {report.credits} credits
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white border rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3">Rate</th>
+                  <th className="px-4 py-3 text-right">Net</th>
+                  <th className="px-4 py-3 text-right">VAT</th>
+                  <th className="px-4 py-3 text-right">Gross</th>
+                  <th className="px-4 py-3 text-right">Documents</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                      No sales in this period.
+                    </td>
+                  </tr>
+                ) : (
+                  report.rows.map((r) => (
+                    <tr key={r.rate} className="border-t">
+                      <td className="px-4 py-3 font-medium">{r.rate}%</td>
+                      <td className="px-4 py-3 text-right">{gbp(r.net)}</td>
+                      <td className="px-4 py-3 text-right">{gbp(r.vat)}</td>
+                      <td className="px-4 py-3 text-right">{gbp(r.gross)}</td>
+                      <td className="px-4 py-3 text-right">{r.documents}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              <tfoot className="border-t bg-gray-50 font-semibold">
+                <tr>
+                  <td className="px-4 py-3">Total</td>
+                  <td className="px-4 py-3 text-right">{gbp(report.totals.net)}</td>
+                  <td className="px-4 py-3 text-right">{gbp(report.totals.vat)}</td>
+                  <td className="px-4 py-3 text-right">{gbp(report.totals.gross)}</td>
+                  <td className="px-4 py-3" />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <div className="mt-4 text-sm text-gray-600 space-y-1">
+            <p>Gift cards sold (outside the scope of VAT): {gbp(report.outsideScope)}</p>
+            {report.recalculated > 0 && (
+              <p className="text-amber-700">
+                {report.recalculated} order{report.recalculated === 1 ? "" : "s"} predate VAT recording; their VAT was
+                worked out from the order lines.
+              </p>
+            )}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import EnquiriesPage from "./WholeSalePage";
 
 export default async function Page() {
   // Server-side protection: will redirect / throw if not authenticated
-  await requireAuth();
+  await requireAuth("wholesale.manage");
 
   // Render the client component (paste your provided client code into ./EnquiriesPage.tsx)
   return <EnquiriesPage />;
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyCustomerForApi } from '@/lib/customerAuth';
+import { getAccountBookings } from '@/lib/customerAccount';
+
+/* GET /api/account/bookings — class bookings made with the account's email */
+export async function GET(req: NextRequest) {
+  const session = verifyCustomerForApi(req);
+  if (session instanceof NextResponse) return session;
+
+  try {
+    await dbConnect();
+    const bookings = await getAccountBookings(session);
+    return NextResponse.json({ ok: true, data: bookings }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/account/bookings error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load bookings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { normalizeCustomerEmail, requestLoginLink } from '@/lib/customerAuth';
+
+/**
+ * POST /api/account/login  { email, next? }
+ * Emails a one-time sign-in link. The reply is the same whether or not we know
+ * the address, so it can't be used to check who is a customer.
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as { email?: unknown; next?: unknown } | null;
+  const email = normalizeCustomerEmail(body?.email);
+  if (!email) {
+    return NextResponse.json({ ok: false, error: 'Please enter a valid email address' }, { status: 400 });
+  }
+
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null;
+
+  try {
+    await dbConnect();
+    const result = await requestLoginLink(email, {
+      next: typeof body?.next === 'string' ? body.next : null,
+      ip,
+    });
+    if (result.throttled) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many sign-in emails requested. Please wait a while and try again.' },
+        { status: 429 }
+      );
+    }
+    return NextResponse.json({ ok: true, data: { email } }, { status: 200 });
+  } catch (err) {
+    console.error('POST /api/account/login error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to send sign-in link' }, { status: 500 });
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { customerCookieOptions, CUSTOMER_COOKIE } from '@/lib/customerAuth';
+
+export async function POST() {
+  const res = NextResponse.json({ ok: true }, { status: 200 });
+  res.cookies.set(CUSTOMER_COOKIE, '', customerCookieOptions(0));
+  return res;
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import Invoice from '@/models/Invoice';
+import { verifyCustomerForApi } from '@/lib/customerAuth';
+import { findAccountOrder } from '@/lib/customerAccount';
+import { generateInvoicePDF, shopCompanyInfo, type InvoiceData } from '@/lib/invoiceService';
+
+/* GET /api/account/orders/[id]/invoice — PDF invoice for one of the customer's orders */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const session = verifyCustomerForApi(req);
+  if (session instanceof NextResponse) return session;
+
+  const { id } = await context.params;
+
+  try {
+    await dbConnect();
+    const order = await findAccountOrder(session, id);
+    if (!order) return NextResponse.json({ ok: false, error: 'Order not found' }, { status: 404 });
+
+    const invoice = (await Invoice.findOne({ orderId: order._id, source: 'stripe' }).lean().exec()) as
+      | (Omit<InvoiceData, 'orderId'> & { _id: unknown })
+      | null;
+    if (!invoice) {
+      return NextResponse.json({ ok: false, error: 'The invoice for this order is not ready yet' }, { status: 404 });
+    }
+
+    const pdf = await generateInvoicePDF(
+      {
+        orderId: String(order._id),
+        orderNumber: invoice.orderNumber,
+        items: invoice.items ?? [],
+        subtotal: invoice.subtotal,
+        shipping: invoice.shipping,
+        discount: invoice.discount,
+        discountCode: invoice.discountCode ?? undefined,
+        total: invoice.total,
+        vat: invoice.vat,
+        vatBreakdown: invoice.vatBreakdown,
+        giftCardAmount: invoice.giftCardAmount || undefined,
+        giftCardCode: invoice.giftCardCode ?? undefined,
+        client: invoice.client,
+        shippingAddress: invoice.shippingAddress ?? null,
+        billingAddress: invoice.billingAddress ?? null,
+        paidAt: invoice.paidAt ?? order.paidAt ?? order.createdAt,
+        paymentIntentId: invoice.paymentIntentId ?? '',
+      },
+      shopCompanyInfo()
+    );
+
+    const bytes = new Uint8Array(pdf);
+    return new Response(bytes, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename=invoice-${invoice.orderNumber || id}.pdf`,
+        'Content-Length': String(bytes.length),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (err) {
+    console.error('GET /api/account/orders/[id]/invoice error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to generate invoice' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyCustomerForApi } from '@/lib/customerAuth';
+import { getAccountOrders } from '@/lib/customerAccount';
+
+/* GET /api/account/orders — the customer's paid orders, newest first, with tracking links */
+export async function GET(req: NextRequest) {
+  const session = verifyCustomerForApi(req);
+  if (session instanceof NextResponse) return session;
+
+  try {
+    await dbConnect();
+    const orders = await getAccountOrders(session);
+    return NextResponse.json({ ok: true, data: orders }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/account/orders error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load orders' }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import Client from '@/models/Client';
+import { verifyCustomerForApi } from '@/lib/customerAuth';
+import { MAX_SAVED_ADDRESSES, parseAccountAddress, toAccountProfile } from '@/lib/customerAccount';
+
+/**
+ * /api/account — the signed-in customer's details
+ * - GET: profile, saved addresses and marketing preference
+ * - PATCH: { name?, phone?, isSubscribed?, address?, savedAddresses? }
+ */
+
+export async function GET(req: NextRequest) {
+  const session = verifyCustomerForApi(req);
+  if (session instanceof NextResponse) return session;
+
+  try {
+    await dbConnect();
+    const client = await Client.findById(session.clientId).exec();
+    if (!client) return NextResponse.json({ ok: false, error: 'Account not found' }, { status: 404 });
+    return NextResponse.json({ ok: true, data: toAccountProfile(client) }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/account error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load account' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  const session = verifyCustomerForApi(req);
+  if (session instanceof NextResponse) return session;
+
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  if (!body) return NextResponse.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+
+  const update: Record<string, unknown> = {};
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string') return NextResponse.json({ ok: false, error: 'Invalid name' }, { status: 400 });
+    update.name = body.name.trim().slice(0, 120);
+  }
+  if (body.phone !== undefined) {
+    if (typeof body.phone !== 'string') return NextResponse.json({ ok: false, error: 'Invalid phone' }, { status: 400 });
+    update.phone = body.phone.trim().slice(0, 30) || undefined;
+  }
+  if (body.isSubscribed !== undefined) {
+    if (typeof body.isSubscribed !== 'boolean') {
+      return NextResponse.json({ ok: false, error: 'isSubscribed must be true or false' }, { status: 400 });
+    }
+    update.isSubscribed = body.isSubscribed;
+  }
+  if (body.address !== undefined) {
+    const address = body.address === null ? null : parseAccountAddress(body.address);
+    if (body.address !== null && !address) {
+      return NextResponse.json({ ok: false, error: 'Address needs a first line, town and postcode' }, { status: 400 });
+    }
+    update.address = address;
+  }
+  if (body.savedAddresses !== undefined) {
+    if (!Array.isArray(body.savedAddresses) || body.savedAddresses.length > MAX_SAVED_ADDRESSES) {
+      return NextResponse.json(
+        { ok: false, error: `You can save up to ${MAX_SAVED_ADDRESSES} other addresses` },
+        { status: 400 }
+      );
+    }
+    const saved = body.savedAddresses.map(parseAccountAddress);
+    if (saved.some((a) => !a)) {
+      return NextResponse.json({ ok: false, error: 'Address needs a first line, town and postcode' }, { status: 400 });
+    }
+    update.savedAddresses = saved;
+  }
+
+  try {
+    await dbConnect();
+    const client = await Client.findById(session.clientId).exec();
+    if (!client) return NextResponse.json({ ok: false, error: 'Account not found' }, { status: 404 });
+
+    client.set(update);
+    await client.save();
+    return NextResponse.json({ ok: true, data: toAccountProfile(client) }, { status: 200 });
+  } catch (err) {
+    // Phone numbers are unique across clients
+    if ((err as { code?: number })?.code === 11000) {
+      return NextResponse.json(
+        { ok: false, error: 'That phone number is already used by another account' },
+        { status: 409 }
+      );
+    }
+    console.error('PATCH /api/account error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to update account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import {
+  consumeLoginLink,
+  createCustomerSessionToken,
+  customerCookieOptions,
+  CUSTOMER_COOKIE,
+} from '@/lib/customerAuth';
+
+/**
+ * POST /api/account/verify  { token }
+ * Exchanges a sign-in link for the account session cookie. The emailed link opens
+ * a page that posts here, so mail scanners that follow links don't use it up.
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as { token?: unknown } | null;
+
+  try {
+    await dbConnect();
+    const result = await consumeLoginLink(body?.token);
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: 400 });
+
+    const res = NextResponse.json({ ok: true, data: { next: result.next } }, { status: 200 });
+    res.cookies.set(CUSTOMER_COOKIE, createCustomerSessionToken(result.client), customerCookieOptions());
+    return res;
+  } catch (err) {
+    console.error('POST /api/account/verify error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to sign in' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import bcrypt from 'bcrypt';
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import User from '@/models/User';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { revokeUserSessions } from '@/lib/adminSessions';
+import { confirmPassword, passwordProblem } from '@/lib/adminLogin';
+
+/**
+ * POST /api/admin/account/password  { currentPassword, newPassword }
+ * Changes the signed-in admin's password. Every other session is signed out;
+ * this one stays signed in.
+ */
+export async function POST(req: NextRequest) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req);
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/account/password', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => null)) as { currentPassword?: unknown; newPassword?: unknown } | null;
+  const problem = passwordProblem(body?.newPassword);
+  if (problem) return NextResponse.json({ ok: false, error: problem }, { status: 400 });
+
+  try {
+    await dbConnect();
+    if (!(await confirmPassword(session.userId, body?.currentPassword))) {
+      return NextResponse.json({ ok: false, error: 'Your current password is not correct' }, { status: 400 });
+    }
+
+    await User.updateOne(
+      { _id: session.userId },
+      { $set: { password: await bcrypt.hash(body?.newPassword as string, 10), passwordChangedAt: new Date() } }
+    );
+    const signedOut = await revokeUserSessions(session.userId, 'password_changed', { exceptSessionId: session.sessionId });
+    await recordAudit(req, session, {
+      action: 'password_change',
+      entityType: 'user',
+      entityId: session.userId,
+      entityLabel: session.username,
+      summary: 'Changed own password',
+      metadata: { sessionsSignedOut: signedOut },
+    });
+    return NextResponse.json({ ok: true, data: { sessionsSignedOut: signedOut } });
+  } catch (err) {
+    console.error('POST /api/admin/account/password error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to change password' }, { status: 500 });
+  }
+}
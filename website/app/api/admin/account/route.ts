@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import User from '@/models/User';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { listActiveSessions } from '@/lib/adminSessions';
+import { normalizeAdminEmail, twoFactorEnabled } from '@/lib/adminLogin';
+import { ROLE_LABELS } from '@/lib/permissions';
+
+type AccountUser = {
+  username: string;
+  email?: string | null;
+  totpSecret?: string | null;
+  totpPendingSecret?: string | null;
+  totpEnabledAt?: Date | null;
+  recoveryCodes?: { usedAt?: Date | null }[];
+  lastLoginAt?: Date | null;
+  passwordChangedAt?: Date | null;
+};
+
+async function loadAccount(session: AdminSession) {
+  const user = await User.findById(session.userId)
+    .select('username email totpSecret totpEnabledAt recoveryCodes lastLoginAt passwordChangedAt')
+    .lean<AccountUser>();
+  if (!user) return null;
+  return {
+    username: user.username,
+    email: user.email ?? null,
+    role: session.role,
+    roleLabel: ROLE_LABELS[session.role],
+    twoFactorEnabled: twoFactorEnabled(user),
+    twoFactorEnabledAt: user.totpEnabledAt ?? null,
+    recoveryCodesLeft: (user.recoveryCodes ?? []).filter((c) => !c.usedAt).length,
+    lastLoginAt: user.lastLoginAt ?? null,
+    passwordChangedAt: user.passwordChangedAt ?? null,
+    sessions: await listActiveSessions(session.userId, session.sessionId),
+  };
+}
+
+/* GET /api/admin/account — the signed-in admin's own security settings and sessions */
+export async function GET(req: NextRequest) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req);
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/account', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    await dbConnect();
+    const account = await loadAccount(session);
+    if (!account) return NextResponse.json({ ok: false, error: 'Account not found' }, { status: 404 });
+    return NextResponse.json({ ok: true, data: account });
+  } catch (err) {
+    console.error('GET /api/admin/account error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load account' }, { status: 500 });
+  }
+}
+
+/* PATCH /api/admin/account  { email } — where password reset links are sent ("" to remove) */
+export async function PATCH(req: NextRequest) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req);
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for PATCH /api/admin/account', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => null)) as { email?: unknown } | null;
+  const raw = typeof body?.email === 'string' ? body.email.trim() : null;
+  const email = raw ? normalizeAdminEmail(raw) : null;
+  if (raw === null || (raw && !email)) {
+    return NextResponse.json({ ok: false, error: 'Please enter a valid email address' }, { status: 400 });
+  }
+
+  try {
+    await dbConnect();
+    if (email) {
+      const taken = await User.findOne({ email, _id: { $ne: session.userId } }).select('_id').lean();
+      if (taken) {
+        return NextResponse.json({ ok: false, error: 'Another admin already uses that email address' }, { status: 409 });
+      }
+    }
+    const before = await User.findById(session.userId).select('email').lean<{ email?: string | null }>();
+    await User.updateOne({ _id: session.userId }, { $set: { email } });
+    await recordAudit(req, session, {
+      action: 'update',
+      entityType: 'user',
+      entityId: session.userId,
+      entityLabel: session.username,
+      summary: 'Changed own email address',
+      before: { email: before?.email ?? null },
+      after: { email },
+    });
+    return NextResponse.json({ ok: true, data: await loadAccount(session) });
+  } catch (err) {
+    console.error('PATCH /api/admin/account error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to update account' }, { status: 500 });
+  }
+}
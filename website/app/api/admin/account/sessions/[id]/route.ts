@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { revokeUserSessionById } from '@/lib/adminSessions';
+
+/* DELETE /api/admin/account/sessions/:id — signs one of your own sessions out */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req);
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for DELETE /api/admin/account/sessions/[id]', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    await dbConnect();
+    const revoked = await revokeUserSessionById(session.userId, id, 'revoked');
+    if (!revoked) return NextResponse.json({ ok: false, error: 'Session not found' }, { status: 404 });
+    await recordAudit(req, session, {
+      action: 'session_revoke',
+      entityType: 'user',
+      entityId: session.userId,
+      entityLabel: session.username,
+      summary: 'Signed out one session',
+      metadata: { sessionRecordId: id },
+    });
+    return NextResponse.json({ ok: true, data: null });
+  } catch (err) {
+    console.error('DELETE /api/admin/account/sessions/[id] error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to sign out session' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { adminCookieOptions, ADMIN_COOKIE, revokeUserSessions } from '@/lib/adminSessions';
+
+/* DELETE /api/admin/account/sessions — sign out everywhere, including this browser */
+export async function DELETE(req: NextRequest) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req);
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for DELETE /api/admin/account/sessions', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    await dbConnect();
+    const signedOut = await revokeUserSessions(session.userId, 'sign_out_everywhere');
+    await recordAudit(req, session, {
+      action: 'sign_out_everywhere',
+      entityType: 'user',
+      entityId: session.userId,
+      entityLabel: session.username,
+      summary: `Signed out of ${signedOut} session${signedOut === 1 ? '' : 's'}`,
+    });
+    const res = NextResponse.json({ ok: true, data: { sessionsSignedOut: signedOut } });
+    res.cookies.set(ADMIN_COOKIE, '', adminCookieOptions(0));
+    return res;
+  } catch (err) {
+    console.error('DELETE /api/admin/account/sessions error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to sign out' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  beginTwoFactorSetup,
+  confirmPassword,
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from '@/lib/adminLogin';
+
+/**
+ * POST /api/admin/account/two-factor — the signed-in admin's own two-factor sign-in
+ *   { action: 'setup' }                          new secret to add to an authenticator app
+ *   { action: 'enable', code }                   confirms the app works; returns recovery codes
+ *   { action: 'disable', password }
+ *   { action: 'recovery_codes', password }       replaces all recovery codes
+ */
+export async function POST(req: NextRequest) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req);
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/account/two-factor', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => null)) as { action?: unknown; code?: unknown; password?: unknown } | null;
+  const audit = (action: string, summary: string) =>
+    recordAudit(req, session, {
+      action,
+      entityType: 'user',
+      entityId: session.userId,
+      entityLabel: session.username,
+      summary,
+    });
+
+  try {
+    await dbConnect();
+    switch (body?.action) {
+      case 'setup': {
+        const setup = await beginTwoFactorSetup(session.userId, session.username);
+        return NextResponse.json({ ok: true, data: setup });
+      }
+      case 'enable': {
+        const result = await confirmTwoFactorSetup(session.userId, body.code);
+        if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: 400 });
+        await audit('two_factor_enable', 'Turned on two-factor sign-in');
+        return NextResponse.json({ ok: true, data: { recoveryCodes: result.recoveryCodes } });
+      }
+      case 'disable':
+      case 'recovery_codes': {
+        if (!(await confirmPassword(session.userId, body.password))) {
+          return NextResponse.json({ ok: false, error: 'Your password is not correct' }, { status: 400 });
+        }
+        if (body.action === 'disable') {
+          await disableTwoFactor(session.userId);
+          await audit('two_factor_disable', 'Turned off two-factor sign-in');
+          return NextResponse.json({ ok: true, data: null });
+        }
+        const recoveryCodes = await regenerateRecoveryCodes(session.userId);
+        await audit('recovery_codes_regenerate', 'Generated new recovery codes');
+        return NextResponse.json({ ok: true, data: { recoveryCodes } });
+      }
+      default:
+        return NextResponse.json(
+          { ok: false, error: "action must be 'setup', 'enable', 'disable' or 'recovery_codes'" },
+          { status: 400 }
+        );
+    }
+  } catch (err) {
+    console.error('POST /api/admin/account/two-factor error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to update two-factor sign-in' }, { status: 500 });
+  }
+}
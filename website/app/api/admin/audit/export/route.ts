@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import { AUDIT_CSV_HEADERS, auditEventToCsvRow, buildAuditQuery, parseAuditFilter } from '@/lib/audit';
+import AuditEvent from '@/models/AuditEvent';
+
+// Enough for a year of changes; narrow the dates for anything bigger
+const MAX_ROWS = 50000;
+
+/**
+ * GET /api/admin/audit/export?<same filters as /api/admin/audit>
+ * The matching events as a CSV attachment, oldest first so it reads like a ledger.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'audit.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/audit/export', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const parsed = parseAuditFilter(new URL(req.url).searchParams);
+  if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+
+  try {
+    await dbConnect();
+    const events = await AuditEvent.find(buildAuditQuery(parsed.filter))
+      .sort({ createdAt: 1 })
+      .limit(MAX_ROWS)
+      .lean()
+      .exec();
+
+    const csv = [AUDIT_CSV_HEADERS.join(','), ...events.map(auditEventToCsvRow)].join('\r\n');
+    const { from, to } = parsed.filter;
+    const range = from || to
+      ? `${from ? from.toISOString().slice(0, 10) : 'start'}-to-${to ? to.toISOString().slice(0, 10) : 'now'}`
+      : new Date().toISOString().slice(0, 10);
+
+    return new Response(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-${range}.csv"`,
+      },
+    });
+  } catch (err) {
+    console.error('GET /api/admin/audit/export error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to export audit log' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import { buildAuditQuery, parseAuditFilter } from '@/lib/audit';
+import AuditEvent from '@/models/AuditEvent';
+
+/**
+ * GET /api/admin/audit?entityType=&entityId=&action=&actor=&q=&from=&to=&page=&limit=
+ * Admin changes, newest first. from / to are YYYY-MM-DD and inclusive. The
+ * actions recorded so far are included for the filter dropdown.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'audit.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/audit', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const parsed = parseAuditFilter(url.searchParams);
+  if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+  const page = Math.max(1, Number(url.searchParams.get('page') || '1'));
+  const limit = Math.max(1, Math.min(200, Number(url.searchParams.get('limit') || '50')));
+  const query = buildAuditQuery(parsed.filter);
+
+  try {
+    await dbConnect();
+    const [events, total, actions] = await Promise.all([
+      AuditEvent.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      AuditEvent.countDocuments(query),
+      AuditEvent.distinct('action'),
+    ]);
+    return NextResponse.json({ ok: true, data: { events, total, page, limit, actions } }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/audit error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load audit log' }, { status: 500 });
+  }
+}
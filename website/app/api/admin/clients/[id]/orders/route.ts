@@ -1,8 +1,9 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import Client from '@/models/Client';
 import Order from '@/models/Order';
 import mongoose from 'mongoose';
+import { verifyAuthForApi } from '@/lib/auth';
 
 /**
  * Robust route handler that works regardless of how Next may pass params.
@@ -24,6 +25,14 @@ interface OrderResponse {
 }
 
 export async function GET(req: Request) {
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'customers.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/clients/[id]/orders', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     // Extract id from path as a fallback for different Next versions/environments
     const url = new URL(req.url);
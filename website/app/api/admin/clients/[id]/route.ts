@@ -3,6 +3,8 @@ import dbConnect from '@/lib/dbConnect';
 import Client from '@/models/Client';
 import Order from '@/models/Order';
 import mongoose from 'mongoose';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 type MaybeParams =
   | { params?: { id?: string } }
@@ -47,6 +49,14 @@ async function resolveId(req: Request | NextRequest, context?: MaybeParams): Pro
  */
 
 export async function GET(req: NextRequest, context?: MaybeParams) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'customers.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/clients/[id]', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     const id = await resolveId(req, context);
     if (!id) return NextResponse.json({ error: 'Missing client id' }, { status: 400 });
@@ -64,6 +74,16 @@ export async function GET(req: NextRequest, context?: MaybeParams) {
 }
 
 export async function PATCH(req: NextRequest, context?: MaybeParams) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'customers.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for PATCH /api/admin/clients/[id]', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     const id = await resolveId(req, context);
     if (!id) return NextResponse.json({ error: 'Missing client id' }, { status: 400 });
@@ -88,8 +108,17 @@ export async function PATCH(req: NextRequest, context?: MaybeParams) {
 
     await dbConnect();
 
+    const before = await Client.findById(id).lean().exec();
     const updated = await Client.findByIdAndUpdate(id, { $set: update }, { new: true }).lean().exec();
     if (!updated) return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    await recordAudit(req, session, {
+      action: 'update',
+      entityType: 'client',
+      entityId: id,
+      entityLabel: updated.name,
+      before,
+      after: updated,
+    });
 
     return NextResponse.json(updated, { status: 200 });
   } catch (err) {
@@ -99,6 +128,16 @@ export async function PATCH(req: NextRequest, context?: MaybeParams) {
 }
 
 export async function DELETE(req: NextRequest, context?: MaybeParams) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'customers.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for DELETE /api/admin/clients/[id]', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     const id = await resolveId(req, context);
     if (!id) return NextResponse.json({ error: 'Missing client id' }, { status: 400 });
@@ -106,14 +145,24 @@ export async function DELETE(req: NextRequest, context?: MaybeParams) {
 
     await dbConnect();
 
+    const before = await Client.findById(id).lean().exec();
+
     // Unset clientId on related orders (so orders are retained but no longer linked)
-    await Order.updateMany({ clientId: id }, { $unset: { clientId: '' } }).exec();
+    const unlinked = await Order.updateMany({ clientId: id }, { $unset: { clientId: '' } }).exec();
 
     // Delete client document
     const result = await Client.deleteOne({ _id: id }).exec();
     if (result.deletedCount === 0) {
       return NextResponse.json({ error: 'Client not found' }, { status: 404 });
     }
+    await recordAudit(req, session, {
+      action: 'delete',
+      entityType: 'client',
+      entityId: id,
+      entityLabel: before?.name,
+      before,
+      metadata: { ordersUnlinked: unlinked.modifiedCount },
+    });
 
     return NextResponse.json({ success: true, deletedId: id }, { status: 200 });
   } catch (err) {
@@ -1,9 +1,10 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import Client from '@/models/Client';
 import Order from '@/models/Order';
 import mongoose, { PipelineStage } from 'mongoose';
 import { PDFDocument, StandardFonts, rgb, PDFPage, PDFFont } from 'pdf-lib';
+import { verifyAuthForApi } from '@/lib/auth';
 
 interface Address {
   line1?: string;
@@ -50,6 +51,14 @@ function formatCurrencyGBP(n: number) {
 }
 
 export async function GET(req: Request) {
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'customers.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/clients/download-all', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     await dbConnect();
 
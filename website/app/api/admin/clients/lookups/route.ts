@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import ClientLookupEvent from '@/models/ClientLookupEvent';
+
+/**
+ * GET /api/admin/clients/lookups?email=&ip=&page=&limit=
+ * Audit trail of checkout autofill lookups, newest first.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'customers.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/clients/lookups', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const page = Math.max(1, Number(url.searchParams.get('page') || '1'));
+  const limit = Math.max(1, Math.min(200, Number(url.searchParams.get('limit') || '50')));
+  const email = (url.searchParams.get('email') || '').trim().toLowerCase();
+  const ip = (url.searchParams.get('ip') || '').trim();
+
+  const filter: Record<string, unknown> = {};
+  if (email) filter.email = email;
+  if (ip) filter.ip = ip;
+
+  try {
+    await dbConnect();
+    const [events, total] = await Promise.all([
+      ClientLookupEvent.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      ClientLookupEvent.countDocuments(filter),
+    ]);
+    return NextResponse.json({ ok: true, data: { events, total, page, limit } }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/clients/lookups error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load lookup log' }, { status: 500 });
+  }
+}
@@ -1,8 +1,10 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import Client from '@/models/Client';
 import mongoose, { PipelineStage } from 'mongoose';
 import Order from '@/models/Order';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 interface Address {
   firstName?: string;
@@ -27,6 +29,14 @@ interface AggregatedClient {
 
 // Returns paginated clients with orderCount and totalSpent
 export async function GET(req: Request) {
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'customers.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/clients', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     await dbConnect();
 
@@ -93,6 +103,16 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'customers.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/clients', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     await dbConnect();
 
@@ -147,6 +167,13 @@ export async function POST(req: Request) {
 
     const saved = await client.save();
     console.log('Client saved successfully:', saved._id);
+    await recordAudit(req, session, {
+      action: 'create',
+      entityType: 'client',
+      entityId: String(saved._id),
+      entityLabel: saved.name,
+      after: saved,
+    });
 
     // return lean object
     const obj = saved.toObject ? saved.toObject() : saved;
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthForApi } from '@/lib/auth';
+import { getTemplateCopy, isEmailTemplateName, renderSample, validateTemplateCopy } from '@/lib/emailTemplates';
+
+/**
+ * POST /api/admin/email-templates/[name]/preview  { subject?, intro? }
+ * Renders the template with its sample data. Draft copy in the body is used in
+ * place of the current copy, so staff can see an edit before saving it;
+ * `problem` says why the draft couldn't be saved as it stands.
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ name: string }> }) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/email-templates/[name]/preview', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { name } = await context.params;
+  if (!isEmailTemplateName(name)) {
+    return NextResponse.json({ ok: false, error: 'Unknown email template' }, { status: 404 });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as { subject?: unknown; intro?: unknown };
+
+  try {
+    const current = await getTemplateCopy(name);
+    const copy = {
+      subject: typeof body.subject === 'string' ? body.subject : current.subject,
+      intro: typeof body.intro === 'string' ? body.intro : current.intro,
+    };
+    const rendered = renderSample(name, copy);
+    return NextResponse.json({ ok: true, data: { ...rendered, problem: validateTemplateCopy(name, copy) } }, { status: 200 });
+  } catch (err) {
+    console.error('POST /api/admin/email-templates/[name]/preview error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to render preview' }, { status: 500 });
+  }
+}
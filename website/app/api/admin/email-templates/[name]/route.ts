@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getTemplateCopy, isEmailTemplateName, resetTemplateCopy, saveTemplateCopy } from '@/lib/emailTemplates';
+
+/**
+ * PUT /api/admin/email-templates/[name]  { subject, intro }
+ * Saves new subject / intro copy for a template. Placeholders are checked against
+ * the ones the template offers.
+ */
+export async function PUT(req: NextRequest, context: { params: Promise<{ name: string }> }) {
+  let actor = 'admin';
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+    actor = auth.email ?? auth.sub ?? actor;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for PUT /api/admin/email-templates/[name]', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { name } = await context.params;
+  if (!isEmailTemplateName(name)) {
+    return NextResponse.json({ ok: false, error: 'Unknown email template' }, { status: 404 });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as { subject?: unknown; intro?: unknown };
+  if (typeof body.subject !== 'string' || typeof body.intro !== 'string') {
+    return NextResponse.json({ ok: false, error: 'subject and intro are required' }, { status: 400 });
+  }
+
+  try {
+    const before = await getTemplateCopy(name);
+    const result = await saveTemplateCopy(name, { subject: body.subject, intro: body.intro }, actor);
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+    await recordAudit(req, session, {
+      action: 'update',
+      entityType: 'email_template',
+      entityId: name,
+      entityLabel: name,
+      before: { subject: before.subject, intro: before.intro },
+      after: { subject: result.copy.subject, intro: result.copy.intro },
+    });
+    return NextResponse.json({ ok: true, data: result.copy }, { status: 200 });
+  } catch (err) {
+    console.error('PUT /api/admin/email-templates/[name] error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to save template' }, { status: 500 });
+  }
+}
+
+/* DELETE /api/admin/email-templates/[name] — back to the built-in copy */
+export async function DELETE(req: NextRequest, context: { params: Promise<{ name: string }> }) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for DELETE /api/admin/email-templates/[name]', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { name } = await context.params;
+  if (!isEmailTemplateName(name)) {
+    return NextResponse.json({ ok: false, error: 'Unknown email template' }, { status: 404 });
+  }
+
+  try {
+    const before = await getTemplateCopy(name);
+    const copy = await resetTemplateCopy(name);
+    if (before.customised) {
+      await recordAudit(req, session, {
+        action: 'reset',
+        entityType: 'email_template',
+        entityId: name,
+        entityLabel: name,
+        before: { subject: before.subject, intro: before.intro },
+        after: { subject: copy.subject, intro: copy.intro },
+      });
+    }
+    return NextResponse.json({ ok: true, data: copy }, { status: 200 });
+  } catch (err) {
+    console.error('DELETE /api/admin/email-templates/[name] error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to reset template' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import EmailTemplate from '@/models/EmailTemplate';
+import { listEmailTemplates } from '@/lib/emailTemplates';
+
+/**
+ * GET /api/admin/email-templates
+ * Every template with its built-in copy, placeholders and any saved edit.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/email-templates', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    await dbConnect();
+    const saved = await EmailTemplate.find({}).lean().exec();
+    const byName = new Map(saved.map((t) => [t.name, t]));
+    const templates = listEmailTemplates().map((t) => {
+      const edit = byName.get(t.name);
+      return {
+        ...t,
+        copy: edit ? { subject: edit.subject, intro: edit.intro ?? '' } : t.defaults,
+        customised: !!edit,
+        updatedBy: edit?.updatedBy ?? null,
+        updatedAt: edit?.updatedAt ?? null,
+      };
+    });
+    return NextResponse.json({ ok: true, data: templates }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/email-templates error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load email templates' }, { status: 500 });
+  }
+}
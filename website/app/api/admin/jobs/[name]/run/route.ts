@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { runJob } from '@/lib/jobs';
+
+/**
+ * POST /api/admin/jobs/[name]/run
+ * Runs a job now, outside its schedule. Waits for it to finish and returns the run;
+ * a job that fails still answers 200 with status "failed" and its error.
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ name: string }> }) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/jobs/[name]/run', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { name } = await context.params;
+  try {
+    await dbConnect();
+    const result = await runJob(name, { triggeredBy: session.username });
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+    await recordAudit(req, session, {
+      action: 'run',
+      entityType: 'job',
+      entityId: name,
+      entityLabel: name,
+      summary: `Ran ${name} by hand (${result.run.status})`,
+      metadata: { runId: result.run.id, status: result.run.status, error: result.run.error ?? null },
+    });
+    return NextResponse.json({ ok: true, data: result.run }, { status: 200 });
+  } catch (err) {
+    console.error('POST /api/admin/jobs/[name]/run error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to run job' }, { status: 500 });
+  }
+}
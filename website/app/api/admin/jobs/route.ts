@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import { JOB_NAMES, listJobStatus } from '@/lib/jobs';
+import JobRun from '@/models/JobRun';
+
+/**
+ * GET /api/admin/jobs?job=&limit=
+ * Every scheduled job with its next and last run, plus recent run history (all
+ * jobs, or just `job`), newest first.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/jobs', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const job = (url.searchParams.get('job') || '').trim();
+  const limit = Math.max(1, Math.min(200, Number(url.searchParams.get('limit') || '50')));
+  if (job && !JOB_NAMES.includes(job)) {
+    return NextResponse.json({ ok: false, error: 'Unknown job' }, { status: 400 });
+  }
+
+  try {
+    await dbConnect();
+    const [jobs, runs] = await Promise.all([
+      listJobStatus(),
+      JobRun.find(job ? { job } : {}).sort({ startedAt: -1 }).limit(limit).lean().exec(),
+    ]);
+    return NextResponse.json({ ok: true, data: { jobs, runs } }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/jobs error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load jobs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthForApi } from '@/lib/auth';
+import { ROLE_LABELS, permissionsFor } from '@/lib/permissions';
+
+/* GET /api/admin/me — the signed-in admin, their role and what it allows */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req);
+    if (auth instanceof NextResponse) return auth;
+    return NextResponse.json(
+      {
+        ok: true,
+        data: {
+          userId: auth.userId,
+          username: auth.username,
+          role: auth.role,
+          roleLabel: ROLE_LABELS[auth.role],
+          permissions: permissionsFor(auth.role),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/me', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+}
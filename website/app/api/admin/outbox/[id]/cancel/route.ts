@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { cancelOutboundMessage } from '@/lib/outbox';
+
+/* POST /api/admin/outbox/[id]/cancel — stops a queued or dead email from being sent */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/outbox/[id]/cancel', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  try {
+    await dbConnect();
+    const result = await cancelOutboundMessage(id);
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+    await recordAudit(req, session, {
+      action: 'cancel',
+      entityType: 'outbound_message',
+      entityId: id,
+      entityLabel: result.message?.subject ?? null,
+    });
+    return NextResponse.json({ ok: true, data: result.message }, { status: 200 });
+  } catch (err) {
+    console.error('POST /api/admin/outbox/[id]/cancel error:', err);
+    return NextResponse.json({ ok: false, error: 'Cancel failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { resendOutboundMessage } from '@/lib/outbox';
+
+/**
+ * POST /api/admin/outbox/[id]/resend
+ * Puts a dead (or cancelled) email back in the queue with fresh attempts and tries
+ * it straight away.
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  let actor = 'admin';
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+    actor = auth.email ?? auth.sub ?? actor;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/outbox/[id]/resend', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  try {
+    await dbConnect();
+    const result = await resendOutboundMessage(id, actor);
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+    await recordAudit(req, session, {
+      action: 'resend',
+      entityType: 'outbound_message',
+      entityId: id,
+      entityLabel: result.message?.subject ?? null,
+      metadata: { status: result.message?.status ?? null },
+    });
+    return NextResponse.json({ ok: true, data: result.message }, { status: 200 });
+  } catch (err) {
+    console.error('POST /api/admin/outbox/[id]/resend error:', err);
+    return NextResponse.json({ ok: false, error: 'Resend failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import OutboundMessage from '@/models/OutboundMessage';
+
+/* GET /api/admin/outbox/[id] — one message with its body (attachment names only) */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/outbox/[id]', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ ok: false, error: 'Invalid message id' }, { status: 400 });
+  }
+  try {
+    await dbConnect();
+    const message = await OutboundMessage.findById(id).select('-attachments.content').lean().exec();
+    if (!message) return NextResponse.json({ ok: false, error: 'Message not found' }, { status: 404 });
+    return NextResponse.json({ ok: true, data: message }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/outbox/[id] error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load message' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import OutboundMessage, { OUTBOUND_MESSAGE_STATUSES } from '@/models/OutboundMessage';
+
+/**
+ * GET /api/admin/outbox?status=&kind=&q=&page=&limit=
+ * Queued and sent emails, newest first, without bodies or attachments. `q` matches
+ * a recipient address or the id of the record the email is about. Counts per
+ * status are included for the tabs.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/outbox', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const page = Math.max(1, Number(url.searchParams.get('page') || '1'));
+  const limit = Math.max(1, Math.min(200, Number(url.searchParams.get('limit') || '50')));
+  const status = (url.searchParams.get('status') || '').trim();
+  const kind = (url.searchParams.get('kind') || '').trim();
+  const q = (url.searchParams.get('q') || '').trim().toLowerCase();
+
+  const filter: Record<string, unknown> = {};
+  if (status && (OUTBOUND_MESSAGE_STATUSES as readonly string[]).includes(status)) filter.status = status;
+  if (kind) filter.kind = kind;
+  if (q) filter.$or = [{ 'to.email': q }, { relatedId: q }];
+
+  try {
+    await dbConnect();
+    const [messages, total, byStatus, kinds] = await Promise.all([
+      OutboundMessage.find(filter)
+        .select('-html -text -attachments.content')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      OutboundMessage.countDocuments(filter),
+      OutboundMessage.aggregate<{ _id: string; count: number }>([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+      OutboundMessage.distinct('kind'),
+    ]);
+    const counts = Object.fromEntries(byStatus.map((s) => [s._id, s.count]));
+    return NextResponse.json({ ok: true, data: { messages, total, page, limit, counts, kinds } }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/outbox error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load outbox' }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AdminRole, hasPermission } from '@/lib/permissions';
+import ReturnRequest from '@/models/ReturnRequest';
+import { transitionReturn, type ReturnAction } from '@/lib/returns';
+
+const ACTIONS: ReturnAction[] = ['approve', 'reject', 'receive', 'complete', 'cancel'];
+
+/**
+ * PATCH /api/admin/returns/[id]
+ * { action: 'approve' | 'reject' | 'receive' | 'complete' | 'cancel', note?,
+ *   restockLines?: number[] (receive), refundAmount?, toStoreCredit? (complete) }
+ */
+export async function PATCH(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  let actor = 'admin';
+  let role: AdminRole;
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'returns.manage' });
+    if (auth instanceof NextResponse) return auth;
+    actor = auth.email ?? auth.sub ?? actor;
+    role = auth.role;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for PATCH /api/admin/returns/[id]', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const action = body?.action as ReturnAction;
+  if (!ACTIONS.includes(action)) {
+    return NextResponse.json({ ok: false, error: 'Unknown action' }, { status: 400 });
+  }
+  // Completing a return refunds the order
+  if (action === 'complete' && !hasPermission(role, 'orders.refund')) {
+    return NextResponse.json({ ok: false, error: 'Your role does not allow refunds' }, { status: 403 });
+  }
+
+  let refundAmount: number | undefined;
+  if (body?.refundAmount !== undefined && body.refundAmount !== null && body.refundAmount !== '') {
+    refundAmount = Number(body.refundAmount);
+    if (!Number.isFinite(refundAmount) || refundAmount < 0) {
+      return NextResponse.json({ ok: false, error: 'Invalid refund amount' }, { status: 400 });
+    }
+  }
+  const restockLines = Array.isArray(body?.restockLines)
+    ? (body.restockLines as unknown[]).map(Number).filter((n) => Number.isInteger(n) && n >= 0)
+    : undefined;
+
+  try {
+    await dbConnect();
+    const before = await ReturnRequest.findById(id).lean();
+    const result = await transitionReturn(id, action, {
+      actor,
+      note: typeof body?.note === 'string' ? body.note : null,
+      restockLines,
+      refundAmount,
+      toStoreCredit: body?.toStoreCredit === true,
+    });
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+    await recordAudit(req, session, {
+      action,
+      entityType: 'return',
+      entityId: id,
+      entityLabel: result.returnRequest.rmaNumber,
+      before,
+      after: result.returnRequest,
+      metadata: { orderId: String(result.returnRequest.orderId), refunded: !!result.order },
+    });
+    // `order` is set when completing the return refunded it
+    return NextResponse.json({ ok: true, data: result.returnRequest, order: result.order ?? null }, { status: 200 });
+  } catch (err) {
+    console.error('PATCH /api/admin/returns/[id] error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to update return' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import Order from '@/models/Order';
+import ReturnRequest from '@/models/ReturnRequest';
+import { RETURN_REASON_LABELS } from '@/lib/returns';
+import { generateReturnSlipPDF } from '@/lib/returnSlip';
+
+/* GET /api/admin/returns/[id]/slip — returns label and packing slip, whatever the return's status */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'orders.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/returns/[id]/slip', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ ok: false, error: 'Return not found' }, { status: 404 });
+  }
+
+  try {
+    await dbConnect();
+    const returnRequest = await ReturnRequest.findById(id).exec();
+    if (!returnRequest) return NextResponse.json({ ok: false, error: 'Return not found' }, { status: 404 });
+    const order = await Order.findById(returnRequest.orderId).lean().exec();
+    if (!order) return NextResponse.json({ ok: false, error: 'Order not found' }, { status: 404 });
+
+    const pdf = await generateReturnSlipPDF(returnRequest, order, RETURN_REASON_LABELS);
+    const bytes = new Uint8Array(pdf);
+    return new Response(bytes, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename=${returnRequest.rmaNumber}.pdf`,
+        'Content-Length': String(bytes.length),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (err) {
+    console.error('GET /api/admin/returns/[id]/slip error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to generate returns label' }, { status: 500 });
+  }
+}
@@ -0,0 +1,119 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import Order from '@/models/Order';
+import ReturnRequest, { RETURN_STATUSES } from '@/models/ReturnRequest';
+import { getReturnableLines, openReturn, parseReturnLines } from '@/lib/returns';
+
+/**
+ * GET /api/admin/returns?status=&orderId=&q=&page=&limit=
+ * Returns, newest first. With `orderId` the response also lists which of the
+ * order's lines can still be returned.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'orders.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/returns', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const page = Math.max(1, Number(url.searchParams.get('page') || '1'));
+  const limit = Math.max(1, Math.min(200, Number(url.searchParams.get('limit') || '50')));
+  const status = (url.searchParams.get('status') || '').trim();
+  const orderId = (url.searchParams.get('orderId') || '').trim();
+  const q = (url.searchParams.get('q') || '').trim();
+
+  const filter: Record<string, unknown> = {};
+  if (status && (RETURN_STATUSES as readonly string[]).includes(status)) filter.status = status;
+  if (orderId) {
+    if (!mongoose.Types.ObjectId.isValid(orderId)) {
+      return NextResponse.json({ ok: false, error: 'Invalid order id' }, { status: 400 });
+    }
+    filter.orderId = new mongoose.Types.ObjectId(orderId);
+  }
+  if (q) {
+    const escaped = q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    filter.$or = [{ rmaNumber: new RegExp(escaped, 'i') }, { email: new RegExp(escaped, 'i') }];
+  }
+
+  try {
+    await dbConnect();
+    const [returns, total, order] = await Promise.all([
+      ReturnRequest.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      ReturnRequest.countDocuments(filter),
+      orderId ? Order.findById(orderId).exec() : null,
+    ]);
+    const returnable = order ? await getReturnableLines(order) : undefined;
+    return NextResponse.json({ ok: true, data: { returns, total, page, limit, returnable } }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/returns error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load returns' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/returns  { orderId, lines: [{ lineIndex, qty, reason, note? }], note? }
+ * Opens a return on the customer's behalf (outside the online returns window if need be).
+ */
+export async function POST(req: NextRequest) {
+  let actor = 'admin';
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'returns.manage' });
+    if (auth instanceof NextResponse) return auth;
+    actor = auth.email ?? auth.sub ?? actor;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/returns', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const orderId = body?.orderId;
+  if (typeof orderId !== 'string' || !mongoose.Types.ObjectId.isValid(orderId)) {
+    return NextResponse.json({ ok: false, error: 'Invalid order id' }, { status: 400 });
+  }
+  const lines = parseReturnLines(body?.lines);
+  if (!lines) {
+    return NextResponse.json({ ok: false, error: 'Choose at least one item, a quantity and a reason' }, { status: 400 });
+  }
+
+  try {
+    await dbConnect();
+    const order = await Order.findById(orderId).exec();
+    if (!order) return NextResponse.json({ ok: false, error: 'Order not found' }, { status: 404 });
+
+    const result = await openReturn({
+      order,
+      lines,
+      customerNote: typeof body?.note === 'string' ? body.note : null,
+      openedBy: 'admin',
+      actor,
+    });
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+    await recordAudit(req, session, {
+      action: 'create',
+      entityType: 'return',
+      entityId: String(result.returnRequest._id),
+      entityLabel: result.returnRequest.rmaNumber,
+      after: result.returnRequest,
+      metadata: { orderId },
+    });
+    return NextResponse.json({ ok: true, data: result.returnRequest }, { status: 201 });
+  } catch (err) {
+    console.error('POST /api/admin/returns error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to open return' }, { status: 500 });
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import Settings from '@/models/Settings';
-import { verifyAuthForApi } from '@/lib/auth';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { parseShippingZones } from '@/lib/shipping';
 
 /**
  * GET returns the singleton settings doc (or defaults)
@@ -10,8 +12,13 @@ import { verifyAuthForApi } from '@/lib/auth';
  * Example PATCH body:
  * { deliveryPricePence: 499, freeDeliveryThresholdPence: 3000, freeDeliveryEnabled: true }
  *
+ * shippingZones replaces the whole rate table, e.g.
+ * { shippingZones: [{ name: 'Northern Ireland', countries: ['GB'], postcodePrefixes: ['BT'],
+ *     rates: [{ service: 'standard', maxWeightGrams: 2000, minSubtotalPence: 0, pricePence: 799 }] }] }
+ * An empty array goes back to the flat delivery price.
+ *
  * GET is left public (so the storefront can read shipping/pricing).
- * PATCH requires an authenticated user (no role check).
+ * PATCH requires the settings.manage permission.
  */
 
 async function getSingleton() {
@@ -34,11 +41,13 @@ export async function GET() {
 }
 
 export async function PATCH(req: NextRequest) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(req);
+    const auth = await verifyAuthForApi(req, { permission: 'settings.manage' });
     if (auth instanceof NextResponse) return auth;
-    // auth is present — continue (we don't check roles)
+    session = auth;
+    // auth is present — continue
   } catch (err) {
     console.error('Auth check failed for PATCH /api/admin/settings', err);
     return NextResponse.json({ success: false, message: 'Authentication failed' }, { status: 401 });
@@ -52,6 +61,13 @@ export async function PATCH(req: NextRequest) {
     if (typeof body.deliveryPricePence === 'number') updates.deliveryPricePence = body.deliveryPricePence;
     if (typeof body.freeDeliveryThresholdPence === 'number') updates.freeDeliveryThresholdPence = body.freeDeliveryThresholdPence;
     if (typeof body.freeDeliveryEnabled === 'boolean') updates.freeDeliveryEnabled = body.freeDeliveryEnabled;
+    if (body.shippingZones !== undefined) {
+      try {
+        updates.shippingZones = parseShippingZones(body.shippingZones);
+      } catch (zoneErr) {
+        return NextResponse.json({ error: zoneErr instanceof Error ? zoneErr.message : 'Invalid shippingZones' }, { status: 400 });
+      }
+    }
 
     // Basic validation
     if (updates.deliveryPricePence !== undefined && (updates.deliveryPricePence as number) < 0) {
@@ -62,7 +78,16 @@ export async function PATCH(req: NextRequest) {
     }
 
     // Upsert singleton
+    const before = await Settings.findOne({}).lean().exec();
     const updated = await Settings.findOneAndUpdate({}, { $set: updates }, { new: true, upsert: true }).lean().exec();
+    await recordAudit(req, session, {
+      action: 'update',
+      entityType: 'settings',
+      entityId: updated ? String(updated._id) : null,
+      entityLabel: 'Store settings',
+      before,
+      after: updated,
+    });
     return NextResponse.json({ success: true, data: updated }, { status: 200 });
   } catch (err) {
     console.error('PATCH /api/admin/settings failed', err);
@@ -0,0 +1,52 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { replayStripeEvent } from '@/lib/stripeEvents';
+
+/**
+ * POST /api/admin/stripe-events/[id]/replay
+ * Runs a stored event through the webhook handlers again. Safe to repeat: an
+ * order that is already paid is left as it is.
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  let actor = 'admin';
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+    actor = auth.email ?? auth.sub ?? actor;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/stripe-events/[id]/replay', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const stripeSecret = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecret) {
+    return NextResponse.json({ ok: false, error: 'Stripe is not configured' }, { status: 500 });
+  }
+  const stripe = new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' });
+
+  const { id } = await context.params;
+  try {
+    await dbConnect();
+    const result = await replayStripeEvent(id, stripe, actor);
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+    await recordAudit(req, session, {
+      action: 'replay',
+      entityType: 'stripe_event',
+      entityId: result.event ? String(result.event._id) : id,
+      entityLabel: result.event ? `${result.event.type} ${result.event.eventId}` : id,
+      summary: `Replayed, handler answered ${result.httpStatus}`,
+      metadata: { status: result.event?.status ?? null },
+    });
+    return NextResponse.json({ ok: true, data: result.event, httpStatus: result.httpStatus }, { status: 200 });
+  } catch (err) {
+    console.error('POST /api/admin/stripe-events/[id]/replay error:', err);
+    return NextResponse.json({ ok: false, error: 'Replay failed' }, { status: 500 });
+  }
+}
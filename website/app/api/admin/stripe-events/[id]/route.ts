@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import StripeEvent from '@/models/StripeEvent';
+
+/* GET /api/admin/stripe-events/[id] — one stored event with its payload (by record id or evt_ id) */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/stripe-events/[id]', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  try {
+    await dbConnect();
+    const filter = mongoose.Types.ObjectId.isValid(id) ? { _id: id } : { eventId: id };
+    const event = await StripeEvent.findOne(filter).lean().exec();
+    if (!event) return NextResponse.json({ ok: false, error: 'Event not found' }, { status: 404 });
+    return NextResponse.json({ ok: true, data: event }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/stripe-events/[id] error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load event' }, { status: 500 });
+  }
+}
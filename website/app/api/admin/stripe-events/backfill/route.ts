@@ -0,0 +1,59 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import dbConnect from '@/lib/dbConnect';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { backfillStripeEvents } from '@/lib/stripeEvents';
+
+/**
+ * POST /api/admin/stripe-events/backfill?process=true
+ * Body: a JSON export of events — an array, or the `{ data: [...] }` that
+ * `stripe events list` prints. Events we already have are skipped. Meant for
+ * local testing, so it is off in production unless STRIPE_EVENT_BACKFILL=true.
+ */
+export async function POST(req: NextRequest) {
+  let actor = 'admin';
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+    actor = auth.email ?? auth.sub ?? actor;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/admin/stripe-events/backfill', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  if (process.env.NODE_ENV === 'production' && process.env.STRIPE_EVENT_BACKFILL !== 'true') {
+    return NextResponse.json({ ok: false, error: 'Backfill is disabled in production' }, { status: 403 });
+  }
+
+  const stripeSecret = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecret) {
+    return NextResponse.json({ ok: false, error: 'Stripe is not configured' }, { status: 500 });
+  }
+  const stripe = new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+
+  try {
+    await dbConnect();
+    const summary = await backfillStripeEvents(body, stripe, {
+      process: new URL(req.url).searchParams.get('process') === 'true',
+      by: actor,
+    });
+    await recordAudit(req, session, {
+      action: 'backfill',
+      entityType: 'stripe_event',
+      summary: `Backfilled ${summary.inserted} of ${summary.received} events`,
+      metadata: summary,
+    });
+    return NextResponse.json({ ok: true, data: summary }, { status: 200 });
+  } catch (err) {
+    console.error('POST /api/admin/stripe-events/backfill error:', err);
+    return NextResponse.json({ ok: false, error: 'Backfill failed' }, { status: 500 });
+  }
+}
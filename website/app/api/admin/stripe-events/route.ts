@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import StripeEvent, { STRIPE_EVENT_STATUSES } from '@/models/StripeEvent';
+
+/**
+ * GET /api/admin/stripe-events?status=&type=&q=&page=&limit=
+ * Stored Stripe events, newest first, without their payloads. `q` matches an
+ * event id or PaymentIntent id. Counts per status are included for the tabs.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'system.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/stripe-events', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const page = Math.max(1, Number(url.searchParams.get('page') || '1'));
+  const limit = Math.max(1, Math.min(200, Number(url.searchParams.get('limit') || '50')));
+  const status = (url.searchParams.get('status') || '').trim();
+  const type = (url.searchParams.get('type') || '').trim();
+  const q = (url.searchParams.get('q') || '').trim();
+
+  const filter: Record<string, unknown> = {};
+  if (status && (STRIPE_EVENT_STATUSES as readonly string[]).includes(status)) filter.status = status;
+  if (type) filter.type = type;
+  if (q) filter.$or = [{ eventId: q }, { paymentIntentId: q }, { objectId: q }];
+
+  try {
+    await dbConnect();
+    const [events, total, byStatus] = await Promise.all([
+      StripeEvent.find(filter)
+        .select('-payload')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      StripeEvent.countDocuments(filter),
+      StripeEvent.aggregate<{ _id: string; count: number }>([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+    ]);
+    const counts = Object.fromEntries(byStatus.map((s) => [s._id, s.count]));
+    return NextResponse.json({ ok: true, data: { events, total, page, limit, counts } }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/stripe-events error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load Stripe events' }, { status: 500 });
+  }
+}
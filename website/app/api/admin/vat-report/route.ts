@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import { getVatReport } from '@/lib/vatReport';
+
+/**
+ * GET /api/admin/vat-report?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * VAT per rate for the range (both days included). Defaults to the current quarter.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'reports.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/admin/vat-report', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const now = new Date();
+  const quarterStart = new Date(Date.UTC(now.getUTCFullYear(), Math.floor(now.getUTCMonth() / 3) * 3, 1));
+  const from = url.searchParams.get('from');
+  const to = url.searchParams.get('to');
+
+  const start = from ? new Date(`${from}T00:00:00.000Z`) : quarterStart;
+  const end = to ? new Date(`${to}T23:59:59.999Z`) : now;
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return NextResponse.json({ ok: false, error: 'from and to must be dates (YYYY-MM-DD)' }, { status: 400 });
+  }
+  if (start > end) {
+    return NextResponse.json({ ok: false, error: 'from must be on or before to' }, { status: 400 });
+  }
+
+  try {
+    await dbConnect();
+    const report = await getVatReport(start, end);
+    return NextResponse.json({ ok: true, data: report }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/admin/vat-report error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to build VAT report' }, { status: 500 });
+  }
+}
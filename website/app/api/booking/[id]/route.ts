@@ -4,6 +4,8 @@ import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/dbConnect";
 import Booking from "@/models/Booking";
 import { verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { releaseSeats } from "@/lib/classBookings";
 import mongoose from "mongoose";
 
 /**
@@ -197,7 +199,7 @@ export async function DELETE(
   context?: { params?: { id?: string | string[] } | Promise<{ id: string }> }
 ) {
   // Enforce authentication/authorization
-  const auth = await verifyAuthForApi(request);
+  const auth = await verifyAuthForApi(request, { permission: "bookings.manage" });
   if (auth instanceof NextResponse) return auth;
 
   try {
@@ -220,6 +222,14 @@ export async function DELETE(
     if (mongoose.Types.ObjectId.isValid(id)) {
       const removedById = await Booking.findByIdAndDelete(id).lean();
       if (removedById) {
+        if (removedById.status !== "cancelled") await releaseSeats(removedById);
+        await recordAudit(request, auth, {
+          action: "delete",
+          entityType: "booking",
+          entityId: String(removedById._id),
+          entityLabel: removedById.bookingRef ?? null,
+          before: removedById,
+        });
         return NextResponse.json(
           { success: true, data: { id: String(removedById._id), bookingRef: removedById.bookingRef ?? null } },
           { status: 200 }
@@ -248,6 +258,14 @@ export async function DELETE(
     if (!removed) {
       return NextResponse.json({ success: false, message: "Booking not found" }, { status: 404 });
     }
+    if (removed.status !== "cancelled") await releaseSeats(removed);
+    await recordAudit(request, auth, {
+      action: "delete",
+      entityType: "booking",
+      entityId: String(removed._id),
+      entityLabel: removed.bookingRef ?? null,
+      before: removed,
+    });
 
     return NextResponse.json(
       { success: true, data: { id: String(removed._id), bookingRef: removed.bookingRef ?? null } },
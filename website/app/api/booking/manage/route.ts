@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { manageBookingLinkParams, verifyBookingLink, type BookingLinkCheck } from '@/lib/bookingLinks';
+import { cancelBookingByCustomer, getManageableBooking, rescheduleBookingByCustomer } from '@/lib/manageBooking';
+
+function linkRejected(check: BookingLinkCheck) {
+  return check === 'expired'
+    ? NextResponse.json(
+        { ok: false, error: 'This booking link has expired. Please use the link in your latest booking email or contact us.' },
+        { status: 403 }
+      )
+    : NextResponse.json({ ok: false, error: 'This booking link is not valid' }, { status: 403 });
+}
+
+/**
+ * GET /api/booking/manage?booking=&exp=&sig=
+ * The booking, whether it can still be changed online, the refund a cancellation
+ * would give and the sessions it can move to, for the signed link in the
+ * confirmation email.
+ */
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const bookingId = params.get('booking') ?? '';
+
+  try {
+    await dbConnect();
+    const check = await verifyBookingLink(bookingId, params.get('exp'), params.get('sig'));
+    if (check !== 'ok') return linkRejected(check);
+    const booking = await getManageableBooking(bookingId);
+    if (!booking) return NextResponse.json({ ok: false, error: 'Booking not found' }, { status: 404 });
+    return NextResponse.json({ ok: true, data: booking }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/booking/manage error:', err);
+    return NextResponse.json({ ok: false, error: 'Server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/booking/manage  { booking, exp, sig, action: 'cancel' }
+ *                           { booking, exp, sig, action: 'reschedule', sessionId }
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const bookingId = typeof body?.booking === 'string' ? body.booking : '';
+  if (body?.action !== 'cancel' && body?.action !== 'reschedule') {
+    return NextResponse.json({ ok: false, error: 'action must be cancel or reschedule' }, { status: 400 });
+  }
+
+  try {
+    await dbConnect();
+    const check = await verifyBookingLink(bookingId, body.exp, body.sig);
+    if (check !== 'ok') return linkRejected(check);
+    const result =
+      body.action === 'cancel'
+        ? await cancelBookingByCustomer(bookingId)
+        : await rescheduleBookingByCustomer(bookingId, body.sessionId);
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: {
+          booking: await getManageableBooking(bookingId),
+          refundAmount: result.refundAmount ?? 0,
+          refundFailed: !!result.refundError,
+          // A move retires the old link; the page carries on with the new one
+          link: body.action === 'reschedule' ? manageBookingLinkParams(result.booking) : null,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error('POST /api/booking/manage error:', err);
+    return NextResponse.json({ ok: false, error: 'Server error' }, { status: 500 });
+  }
+}
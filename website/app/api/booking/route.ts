@@ -4,8 +4,7 @@ import Booking from "@/models/Booking";
 import Course from "@/models/Class";
 import { verifyAuthForApi } from "@/lib/auth";
 import mongoose, { PipelineStage } from "mongoose";
-import { notifyBookingToCustomer } from "@/lib/notifyBooking";
-import { notifyAdminBooking } from "@/lib/notifyAdminBooking";
+import { createBooking } from "@/lib/classBookings";
 
 /**
  * app/api/bookings/route.ts
@@ -13,22 +12,15 @@ import { notifyAdminBooking } from "@/lib/notifyAdminBooking";
  * - GET: admin listing (requires auth)
  * - POST: create booking (public)
  *
- * After creating a booking we:
- *  - attempt to send a confirmation email to the customer (best-effort)
- *  - attempt to send a compact admin notification email (best-effort)
- *
- * Both email sends are fire-and-forget so booking creation isn't blocked by email issues.
+ * A paid class comes back pending with a PaymentIntent client secret for the card
+ * form; the Stripe webhook confirms it and sends the emails (see lib/classBookings).
+ * Free classes are confirmed and emailed straight away.
  */
 
-/* Helper to build a booking reference */
-function makeBookingRef() {
-  return `BK-${Math.random().toString(36).slice(2, 9).toUpperCase()}`;
-}
-
 /* ---------------------- GET (list bookings, admin) ---------------------- */
 export async function GET(request: NextRequest) {
   // require auth for listing
-  const auth = await verifyAuthForApi(request);
+  const auth = await verifyAuthForApi(request, { permission: "bookings.manage" });
   if (auth instanceof NextResponse) return auth;
 
   try {
@@ -78,6 +70,11 @@ export async function GET(request: NextRequest) {
           phone: 1,
           attendees: 1,
           status: 1,
+          amount: 1,
+          paidAt: 1,
+          cancelReason: 1,
+          refundedAmount: 1,
+          history: 1,
           createdAt: 1,
           courseTitle: "$course.title",
           courseSlug: "$course.slug",
@@ -115,135 +112,40 @@ export async function POST(request: NextRequest) {
     if (!courseId) return NextResponse.json({ success: false, message: "courseId is required" }, { status: 400 });
     if (!name || !email || !phone) return NextResponse.json({ success: false, message: "name, email and phone are required" }, { status: 400 });
     const attendeesNum = Number(attendees || 1);
-    if (Number.isNaN(attendeesNum) || attendeesNum < 1) return NextResponse.json({ success: false, message: "attendees must be >= 1" }, { status: 400 });
-
-    // Resolve course by id or slug
-    let course: unknown = null;
-    if (mongoose.Types.ObjectId.isValid(courseId)) {
-      course = await Course.findById(courseId).lean();
-    }
-    if (!course) {
-      course = await Course.findOne({ slug: String(courseId).toLowerCase().trim() }).lean();
-    }
-    if (!course) return NextResponse.json({ success: false, message: "Course not found" }, { status: 404 });
-
-    const courseObj = course as { _id: mongoose.Types.ObjectId; title: string; sessions?: unknown[]; capacity?: number; slug?: string };
-
-    // Resolve session
-    let session: unknown = null;
-    if (sessionId) {
-      session = (courseObj.sessions || []).find((s: unknown) => {
-        const sess = s as { id?: unknown; _id?: unknown };
-        return String(sess.id) === String(sessionId) || String(sess._id) === String(sessionId);
-      });
-    }
-    if (!session) {
-      const now = Date.now();
-      session = (courseObj.sessions || []).find((s: unknown) => {
-        const sess = s as { end?: string };
-        const endTs = sess.end ? new Date(sess.end).getTime() : NaN;
-        return !Number.isNaN(endTs) && endTs > now;
-      });
-    }
-
-    if (!session) {
-      return NextResponse.json({ success: false, message: "No upcoming session found for this course" }, { status: 404 });
-    }
-
-    const sessionObj = session as { id?: unknown; _id?: unknown; start?: string; end?: string };
-
-    const endTs = sessionObj.end ? new Date(sessionObj.end).getTime() : NaN;
-    if (Number.isNaN(endTs) || endTs <= Date.now()) {
-      return NextResponse.json({ success: false, message: "Selected session has already passed" }, { status: 400 });
+    if (!Number.isInteger(attendeesNum) || attendeesNum < 1) return NextResponse.json({ success: false, message: "attendees must be >= 1" }, { status: 400 });
+
+    const result = await createBooking({
+      courseId: String(courseId),
+      sessionId: sessionId ? String(sessionId) : null,
+      name: String(name),
+      email: String(email),
+      phone: String(phone),
+      attendees: attendeesNum,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, message: result.error, code: result.code, remaining: result.remaining },
+        { status: result.status }
+      );
     }
 
-    // Capacity check: sum existing attendees for this course+session (excluding cancelled)
-    const existingAgg = await Booking.aggregate([
+    const { booking, clientSecret } = result;
+    return NextResponse.json(
       {
-        $match: {
-          courseId: courseObj._id,
-          sessionId: String(sessionObj.id ?? sessionObj._id ?? ""),
-          status: { $ne: "cancelled" },
-        },
+        success: true,
+        message: clientSecret ? "Booking held awaiting payment" : "Booking created",
+        bookingRef: booking.bookingRef,
+        bookingId: booking._id,
+        status: booking.status,
+        amount: booking.amount ?? 0,
+        clientSecret,
+        holdExpiresAt: booking.holdExpiresAt ?? null,
       },
-      { $group: { _id: null, totalAttendees: { $sum: "$attendees" } } },
-    ]);
-    const alreadyBooked = existingAgg?.[0]?.totalAttendees ?? 0;
-    const capacity = Number(courseObj.capacity ?? 0);
-    const remaining = capacity - alreadyBooked;
-
-    if (attendeesNum > remaining) {
-      return NextResponse.json({ success: false, message: `Not enough space: ${remaining} spot(s) remaining` }, { status: 409 });
-    }
-
-    // Create booking
-    const bookingRef = makeBookingRef();
-    const bookingDoc = new Booking({
-      bookingRef,
-      courseId: courseObj._id,
-      sessionId: String(sessionObj.id ?? sessionObj._id ?? ""),
-      sessionStart: sessionObj.start ? new Date(sessionObj.start) : undefined,
-      sessionEnd: sessionObj.end ? new Date(sessionObj.end) : undefined,
-      name: String(name).trim(),
-      email: String(email).trim().toLowerCase(),
-      phone: String(phone).trim(),
-      attendees: attendeesNum,
-      status: "confirmed",
-    });
-
-    await bookingDoc.save();
-
-    // Best-effort: send confirmation email to customer (do not block booking creation)
-    void (async () => {
-      try {
-        await notifyBookingToCustomer({
-          booking: {
-            _id: bookingDoc._id,
-            bookingRef,
-            courseId: bookingDoc.courseId?.toString(),
-            courseTitle: courseObj.title,
-            sessionStart: bookingDoc.sessionStart,
-            sessionEnd: bookingDoc.sessionEnd,
-            name: bookingDoc.name,
-            email: bookingDoc.email,
-            phone: bookingDoc.phone,
-            attendees: bookingDoc.attendees,
-            createdAt: bookingDoc.createdAt,
-          },
-          appBase: process.env.APP_BASE_URL || null,
-        });
-      } catch (emailErr) {
-        console.warn("Booking confirmation email failed:", emailErr);
-      }
-    })();
-
-    // Best-effort: send admin notification (do not block booking creation)
-    void (async () => {
-      try {
-        const res = await notifyAdminBooking({
-          booking: {
-            _id: bookingDoc._id,
-            bookingRef,
-            courseTitle: courseObj.title,
-            sessionStart: bookingDoc.sessionStart,
-            sessionEnd: bookingDoc.sessionEnd,
-            name: bookingDoc.name,
-            email: bookingDoc.email,
-            phone: bookingDoc.phone,
-            attendees: bookingDoc.attendees,
-            createdAt: bookingDoc.createdAt,
-          },
-        });
-        if (!res.sent) console.warn("Admin notification failed:", res.error);
-      } catch (adminErr) {
-        console.warn("Admin notification error:", adminErr);
-      }
-    })();
-
-    return NextResponse.json({ success: true, message: "Booking created", bookingRef, bookingId: bookingDoc._id }, { status: 201 });
+      { status: 201 }
+    );
   } catch (err) {
     console.error("POST /api/bookings error:", err);
     const message = err instanceof Error ? err.message : String(err);
     return NextResponse.json({ success: false, message: "Failed to create booking", error: message }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import Settings from '@/models/Settings';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getBookingChangeSettings, parseBookingChangeSettings } from '@/lib/manageBooking';
+
+/**
+ * GET /api/booking/settings
+ * PATCH /api/booking/settings  { cutoffHours?: number, refundPercent?: number }
+ *
+ * How long before a class customers can still cancel or move their booking from
+ * the manage-booking link, and how much of the price a cancellation refunds.
+ * Lives on the Settings singleton but is managed from the classes page.
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'bookings.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/booking/settings', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    await dbConnect();
+    return NextResponse.json({ ok: true, data: await getBookingChangeSettings() });
+  } catch (err) {
+    console.error('GET /api/booking/settings error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load booking settings' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'bookings.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for PATCH /api/booking/settings', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    let parsed: ReturnType<typeof parseBookingChangeSettings>;
+    try {
+      parsed = parseBookingChangeSettings(body ?? {});
+    } catch (parseErr) {
+      return NextResponse.json(
+        { ok: false, error: parseErr instanceof Error ? parseErr.message : 'Invalid booking settings' },
+        { status: 400 }
+      );
+    }
+    const updates: Record<string, unknown> = {};
+    if (parsed.cutoffHours !== undefined) updates.bookingChangeCutoffHours = parsed.cutoffHours;
+    if (parsed.refundPercent !== undefined) updates.bookingCancelRefundPercent = parsed.refundPercent;
+
+    await dbConnect();
+    const before = await getBookingChangeSettings();
+    const updated = await Settings.findOneAndUpdate({}, { $set: updates }, { new: true, upsert: true }).lean().exec();
+    const after = await getBookingChangeSettings();
+    await recordAudit(req, session, {
+      action: 'update',
+      entityType: 'settings',
+      entityId: updated ? String(updated._id) : null,
+      entityLabel: 'Booking changes',
+      before,
+      after,
+    });
+    return NextResponse.json({ ok: true, data: after });
+  } catch (err) {
+    console.error('PATCH /api/booking/settings error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to update booking settings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import CheckoutSession from "@/models/CheckoutSession";
+import { unsubscribeFromCheckoutSession, verifyCheckoutSessionSignature } from "@/lib/checkoutRecovery";
+
+/* GET ?sig= — the saved cart behind a recovery email link */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  if (!verifyCheckoutSessionSignature(id, req.nextUrl.searchParams.get("sig"))) {
+    return NextResponse.json({ ok: false, error: "This link is not valid" }, { status: 403 });
+  }
+
+  try {
+    await dbConnect();
+    const session = await CheckoutSession.findById(id).select("items discountCode status").lean().exec();
+    if (!session) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+    if (session.status !== "open") {
+      return NextResponse.json({ ok: false, error: "This order has already been placed" }, { status: 410 });
+    }
+    return NextResponse.json(
+      { ok: true, data: { items: session.items, discountCode: session.discountCode ?? null } },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("GET /api/checkout-recovery/[id] error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to load your basket" }, { status: 500 });
+  }
+}
+
+/* POST { sig, action: "unsubscribe" } — stop recovery emails and marketing */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  if (!verifyCheckoutSessionSignature(id, body.sig)) {
+    return NextResponse.json({ ok: false, error: "This link is not valid" }, { status: 403 });
+  }
+  if (body.action !== "unsubscribe") {
+    return NextResponse.json({ ok: false, error: "Unknown action" }, { status: 400 });
+  }
+
+  try {
+    await dbConnect();
+    await unsubscribeFromCheckoutSession(id);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err) {
+    console.error("POST /api/checkout-recovery/[id] error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to unsubscribe" }, { status: 500 });
+  }
+}
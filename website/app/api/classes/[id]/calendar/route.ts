@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import Course from '@/models/Class';
+import { courseCalendar } from '@/lib/classCalendar';
+import type { SessionLike } from '@/lib/classSeats';
+
+type FeedCourse = { _id: mongoose.Types.ObjectId; slug: string; title: string; location?: string; sessions?: SessionLike[] };
+
+/**
+ * GET /api/classes/:id/calendar
+ * Public iCalendar feed of the course's upcoming sessions (by id or slug), for
+ * subscribing from a calendar app.
+ */
+export async function GET(_req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+
+  try {
+    await dbConnect();
+    const select = 'slug title location sessions';
+    const course =
+      (mongoose.Types.ObjectId.isValid(id) ? await Course.findById(id).select(select).lean<FeedCourse>().exec() : null) ??
+      (await Course.findOne({ slug: id.toLowerCase().trim() }).select(select).lean<FeedCourse>().exec());
+    if (!course) return NextResponse.json({ ok: false, error: 'Course not found' }, { status: 404 });
+
+    return new NextResponse(courseCalendar(course), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${course.slug || 'class'}.ics"`,
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+  } catch (err) {
+    console.error('GET /api/classes/[id]/calendar error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to build the calendar' }, { status: 500 });
+  }
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import connect from "@/lib/dbConnect";
 import Course from "@/models/Class";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { parseSessionCapacity } from "@/lib/classSeats";
+import { offerWaitlistSeatsForCourse } from "@/lib/classWaitlist";
+import { isTaxCategory, TAX_CATEGORIES } from "@/lib/vat";
+import mongoose from "mongoose";
 
 type ContextLike = { params?: { id?: string | string[] } | Promise<{ id: string }> } | undefined;
 
@@ -77,10 +82,12 @@ export async function GET(request: NextRequest, context?: ContextLike) {
 
 /* PATCH (authenticated only) */
 export async function PATCH(request: NextRequest, context?: ContextLike) {
-  // Require authenticated user (no role check)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(request);
+    const auth = await verifyAuthForApi(request, { permission: "classes.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for PATCH /api/classes/[id]", err);
@@ -115,6 +122,7 @@ export async function PATCH(request: NextRequest, context?: ContextLike) {
       "thingsToNote",
       "furtherInformation",
       "location",
+      "taxCategory",
     ] as const;
 
     const update: Record<string, unknown> = {};
@@ -126,10 +134,13 @@ export async function PATCH(request: NextRequest, context?: ContextLike) {
             const input = body.sessions as unknown;
             if (Array.isArray(input)) {
               update.sessions = input.map((s) => {
-                const sess = s as { start?: string; end?: string };
+                const sess = s as { id?: unknown; start?: string; end?: string; capacity?: unknown };
                 return {
+                  // keep the id: bookings reference the session by it
+                  id: typeof sess.id === "string" && sess.id ? sess.id : new mongoose.Types.ObjectId().toString(),
                   start: sess.start ? new Date(sess.start) : undefined,
                   end: sess.end ? new Date(sess.end) : undefined,
+                  capacity: parseSessionCapacity(sess.capacity),
                 };
               });
             } else {
@@ -137,6 +148,14 @@ export async function PATCH(request: NextRequest, context?: ContextLike) {
             }
           } else if (key === "slug") {
             update.slug = String(body.slug ?? "").toLowerCase().trim();
+          } else if (key === "taxCategory") {
+            if (!isTaxCategory(body.taxCategory)) {
+              return NextResponse.json(
+                { success: false, message: `taxCategory must be one of: ${TAX_CATEGORIES.join(", ")}` },
+                { status: 400 }
+              );
+            }
+            update.taxCategory = body.taxCategory;
           } else {
             update[key] = body[key];
           }
@@ -144,6 +163,7 @@ export async function PATCH(request: NextRequest, context?: ContextLike) {
       }
     }
 
+    const before = await Course.findOne({ $or: [{ _id: id }, { slug: id }] }).lean();
     const patched = await Course.findOneAndUpdate(
       { $or: [{ _id: id }, { slug: id }] },
       { $set: update },
@@ -151,6 +171,22 @@ export async function PATCH(request: NextRequest, context?: ContextLike) {
     ).lean();
 
     if (!patched) return NextResponse.json({ success: false, message: "Not found" }, { status: 404 });
+    await recordAudit(request, session, {
+      action: "update",
+      entityType: "class",
+      entityId: String(patched._id),
+      entityLabel: patched.title,
+      before,
+      after: patched,
+    });
+    if ("capacity" in update || "sessions" in update) {
+      // More seats may have opened up for people on the waitlist
+      try {
+        await offerWaitlistSeatsForCourse(patched._id);
+      } catch (offerErr) {
+        console.error("Failed to offer waitlist seats for", String(patched._id), offerErr);
+      }
+    }
     return NextResponse.json({ success: true, data: patched }, { status: 200 });
   } catch (err) {
     console.error("PATCH /api/classes/[id] error:", err);
@@ -168,10 +204,12 @@ export async function PATCH(request: NextRequest, context?: ContextLike) {
 
 /* DELETE (authenticated only) */
 export async function DELETE(request: NextRequest, context?: ContextLike) {
-  // Require authenticated user (no role check)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(request);
+    const auth = await verifyAuthForApi(request, { permission: "classes.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for DELETE /api/classes/[id]", err);
@@ -187,6 +225,13 @@ export async function DELETE(request: NextRequest, context?: ContextLike) {
   try {
     const removed = await Course.findOneAndDelete({ $or: [{ _id: id }, { slug: id }] }).lean();
     if (!removed) return NextResponse.json({ success: false, message: "Not found" }, { status: 404 });
+    await recordAudit(request, session, {
+      action: "delete",
+      entityType: "class",
+      entityId: String(removed._id),
+      entityLabel: removed.title,
+      before: removed,
+    });
     return NextResponse.json({ success: true, data: { id: removed._id } }, { status: 200 });
   } catch (err) {
     console.error("DELETE /api/classes/[id] error:", err);
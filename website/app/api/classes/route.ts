@@ -2,41 +2,23 @@ import { NextRequest, NextResponse } from "next/server";
 import Course from "@/models/Class";
 import dbConnect from "@/lib/dbConnect";
 import { verifyAuthForApi } from "../../../lib/auth";
-import { PipelineStage } from "mongoose";
+import { recordAudit } from "@/lib/audit";
+import { parseSessionCapacity, withSessionAvailability } from "@/lib/classSeats";
+import { isTaxCategory, TAX_CATEGORIES } from "@/lib/vat";
+import mongoose, { PipelineStage } from "mongoose";
 
 /**
  * GET /api/classes
  * POST /api/classes
  *
- * This version runs Course.cleanupExpiredSessions() after connecting to the DB.
- * That removes any sessions whose end <= now before we read and return classes.
- *
- * Note: cleanupExpiredSessions must be defined on your Course model (see models/Class.ts).
+ * Sessions that have ended are removed by the class-session-cleanup job (lib/jobs.ts).
+ * GET adds `capacity`, `remaining` and `soldOut` to every session.
  */
 
 export async function GET(request: NextRequest) {
   try {
     await dbConnect();
 
-    // Attempt to remove expired sessions server-side before returning results.
-    // Guard if the static does not exist to avoid runtime errors.
-    try {
-      if (typeof Course.cleanupExpiredSessions === "function") {
-        const cleanupResult = await Course.cleanupExpiredSessions();
-        if (cleanupResult && cleanupResult.modifiedCount > 0) {
-          console.info(
-            `[classes cleanup] removed expired sessions — matched=${cleanupResult.matchedCount} modified=${cleanupResult.modifiedCount}`
-          );
-        }
-      } else {
-        // If your model doesn't have cleanupExpiredSessions, consider adding it as shown earlier.
-        // console.debug("Course.cleanupExpiredSessions is not available on the model");
-      }
-    } catch (cleanupErr) {
-      // Log but don't fail the whole request if cleanup fails
-      console.warn("Failed to run cleanupExpiredSessions:", cleanupErr);
-    }
-
     const searchParams = request.nextUrl.searchParams;
     const q = searchParams.get("q") || searchParams.get("search") || "";
     const featured = searchParams.get("featured");
@@ -93,7 +75,8 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    const data = await Course.aggregate(pipeline);
+    // each session carries its capacity and seats left
+    const data = await withSessionAvailability(await Course.aggregate(pipeline));
 
     const total = await Course.countDocuments(Object.keys(match).length > 0 ? match : {});
 
@@ -113,8 +96,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  // require authentication (no admin restriction by default)
-  const auth = await verifyAuthForApi(request);
+  // require an admin who can manage classes
+  const auth = await verifyAuthForApi(request, { permission: 'classes.manage' });
   if (auth instanceof NextResponse) return auth;
 
   try {
@@ -130,6 +113,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (body.taxCategory !== undefined && !isTaxCategory(body.taxCategory)) {
+      return NextResponse.json(
+        { success: false, message: `taxCategory must be one of: ${TAX_CATEGORIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
     // Check slug uniqueness
     const existing = await Course.findOne({ slug: String(body.slug).toLowerCase().trim() });
     if (existing) {
@@ -153,15 +143,28 @@ export async function POST(request: NextRequest) {
       featured: !!body.featured,
       // ensure sessions are stored as Date objects
       sessions: (body.sessions || []).map((s: unknown) => {
-        const sess = s as { start: string | Date; end: string | Date };
-        return { start: new Date(sess.start), end: new Date(sess.end) };
+        const sess = s as { start: string | Date; end: string | Date; capacity?: unknown };
+        return {
+          id: new mongoose.Types.ObjectId().toString(),
+          start: new Date(sess.start),
+          end: new Date(sess.end),
+          capacity: parseSessionCapacity(sess.capacity),
+        };
       }),
       thingsToNote: body.thingsToNote || [],
       furtherInformation: body.furtherInformation,
       location: body.location || "",
+      ...(isTaxCategory(body.taxCategory) ? { taxCategory: body.taxCategory } : {}),
     });
 
     await course.save();
+    await recordAudit(request, auth, {
+      action: "create",
+      entityType: "class",
+      entityId: String(course._id),
+      entityLabel: course.title,
+      after: course,
+    });
 
     return NextResponse.json({ success: true, message: "Course created", data: course }, { status: 201 });
   } catch (err) {
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { getWaitlistOffer } from '@/lib/classWaitlist';
+import { claimWaitlistOffer } from '@/lib/classBookings';
+
+/**
+ * GET  /api/classes/waitlist/claim?token=   what the offer is for
+ * POST /api/classes/waitlist/claim  { token }
+ *
+ * Claiming books the held seats. Paid classes come back with a PaymentIntent
+ * client secret like POST /api/booking, and are confirmed by the webhook.
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+    const offer = await getWaitlistOffer(req.nextUrl.searchParams.get('token'));
+    if (!offer) return NextResponse.json({ ok: false, error: 'This link is not valid' }, { status: 404 });
+    return NextResponse.json({ ok: true, data: offer }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/classes/waitlist/claim error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load the offer' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as { token?: unknown } | null;
+
+  try {
+    await dbConnect();
+    const result = await claimWaitlistOffer(body?.token);
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+
+    const { booking, clientSecret } = result;
+    return NextResponse.json(
+      {
+        ok: true,
+        data: {
+          bookingRef: booking.bookingRef,
+          bookingId: String(booking._id),
+          status: booking.status,
+          amount: booking.amount ?? 0,
+          clientSecret,
+          holdExpiresAt: booking.holdExpiresAt ?? null,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (err) {
+    console.error('POST /api/classes/waitlist/claim error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to claim the seats' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import { joinWaitlist, waitlistSummary } from '@/lib/classWaitlist';
+
+/**
+ * GET  /api/classes/waitlist   (admin) waitlist length per course session
+ * POST /api/classes/waitlist   { courseId, sessionId, name, email, phone, partySize }
+ *
+ * Customers can only join when the session hasn't enough seats left for their
+ * party; they're emailed a claim link when seats come free (lib/classWaitlist).
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'bookings.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch {
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    await dbConnect();
+    return NextResponse.json({ ok: true, data: await waitlistSummary() }, { status: 200 });
+  } catch (err) {
+    console.error('GET /api/classes/waitlist error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load waitlists' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  if (!body) return NextResponse.json({ ok: false, error: 'Invalid JSON' }, { status: 400 });
+
+  const { courseId, sessionId, name, email, phone } = body;
+  const partySize = Number(body.partySize ?? body.attendees ?? 1);
+  if (!courseId || !sessionId) {
+    return NextResponse.json({ ok: false, error: 'courseId and sessionId are required' }, { status: 400 });
+  }
+  if (typeof name !== 'string' || !name.trim() || typeof phone !== 'string' || !phone.trim()) {
+    return NextResponse.json({ ok: false, error: 'name, email and phone are required' }, { status: 400 });
+  }
+  if (typeof email !== 'string' || !/^\S+@\S+\.\S+$/.test(email.trim())) {
+    return NextResponse.json({ ok: false, error: 'Please enter a valid email' }, { status: 400 });
+  }
+  if (!Number.isInteger(partySize) || partySize < 1) {
+    return NextResponse.json({ ok: false, error: 'partySize must be >= 1' }, { status: 400 });
+  }
+
+  try {
+    await dbConnect();
+    const result = await joinWaitlist({
+      courseId: String(courseId),
+      sessionId: String(sessionId),
+      name,
+      email,
+      phone,
+      partySize,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, error: result.error, code: result.code }, { status: result.status });
+    }
+    return NextResponse.json(
+      { ok: true, data: { id: String(result.entry._id), position: result.position, partySize: result.entry.partySize } },
+      { status: 201 }
+    );
+  } catch (err) {
+    console.error('POST /api/classes/waitlist error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to join the waitlist' }, { status: 500 });
+  }
+}
@@ -3,7 +3,8 @@ import dbConnect from '@/lib/dbConnect';
 import Client from '@/models/Client';
 import Order from '@/models/Order';
 import mongoose from 'mongoose';
-import { verifyAuthForApi } from '@/lib/auth';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 type ContextLike = { params?: { id?: string | string[] } | Promise<{ id: string }> } | undefined;
 
@@ -47,8 +48,16 @@ async function resolveId(req: NextRequest, context?: ContextLike): Promise<strin
   return undefined;
 }
 
-/* GET - public */
+/* GET - customers.view */
 export async function GET(req: NextRequest, context?: ContextLike) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'customers.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/clients/[id]', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     const id = await resolveId(req, context);
     if (!id) return NextResponse.json({ error: 'Missing client id' }, { status: 400 });
@@ -65,8 +74,18 @@ export async function GET(req: NextRequest, context?: ContextLike) {
   }
 }
 
-/* PATCH - public */
+/* PATCH - customers.manage */
 export async function PATCH(req: NextRequest, context?: ContextLike) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'customers.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for PATCH /api/clients/[id]', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     const id = await resolveId(req, context);
     if (!id) return NextResponse.json({ error: 'Missing client id' }, { status: 400 });
@@ -89,8 +108,17 @@ export async function PATCH(req: NextRequest, context?: ContextLike) {
     }
 
     await dbConnect();
+    const before = await Client.findById(id).lean().exec();
     const updated = await Client.findByIdAndUpdate(id, { $set: update }, { new: true }).lean().exec();
     if (!updated) return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    await recordAudit(req, session, {
+      action: 'update',
+      entityType: 'client',
+      entityId: id,
+      entityLabel: updated.name,
+      before,
+      after: updated,
+    });
 
     return NextResponse.json(updated, { status: 200 });
   } catch (err) {
@@ -99,12 +127,14 @@ export async function PATCH(req: NextRequest, context?: ContextLike) {
   }
 }
 
-/* DELETE - authenticated only */
+/* DELETE - customers.manage */
 export async function DELETE(req: NextRequest, context?: ContextLike) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(req);
+    const auth = await verifyAuthForApi(req, { permission: 'customers.manage' });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error('Auth check failed for DELETE /api/admin/clients/[id]', err);
@@ -118,14 +148,24 @@ export async function DELETE(req: NextRequest, context?: ContextLike) {
 
     await dbConnect();
 
+    const before = await Client.findById(id).lean().exec();
+
     // Unset clientId on related orders (so orders are retained but no longer linked)
-    await Order.updateMany({ clientId: id }, { $unset: { clientId: '' } }).exec();
+    const unlinked = await Order.updateMany({ clientId: id }, { $unset: { clientId: '' } }).exec();
 
     // Delete client document
     const result = await Client.deleteOne({ _id: id }).exec();
     if (result.deletedCount === 0) {
       return NextResponse.json({ error: 'Client not found' }, { status: 404 });
     }
+    await recordAudit(req, session, {
+      action: 'delete',
+      entityType: 'client',
+      entityId: id,
+      entityLabel: before?.name,
+      before,
+      metadata: { ordersUnlinked: unlinked.modifiedCount },
+    });
 
     return NextResponse.json({ success: true, deletedId: id }, { status: 200 });
   } catch (err) {
@@ -0,0 +1,32 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyClientLookup } from '@/lib/clientLookup';
+
+/**
+ * POST /api/clients/find/verify  { challengeId, code }
+ * Returns the returning customer's saved details once the emailed code checks out.
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as { challengeId?: unknown; code?: unknown } | null;
+  if (!body) return NextResponse.json({ ok: false, error: 'Invalid JSON body' }, { status: 400 });
+
+  try {
+    await dbConnect();
+    const result = await verifyClientLookup(body.challengeId, body.code, {
+      ip: req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null,
+      userAgent: req.headers.get('user-agent'),
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { ok: false, error: result.error, attemptsLeft: result.attemptsLeft },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json({ ok: true, data: { client: result.client } }, { status: 200 });
+  } catch (err) {
+    console.error('[clients/find/verify] error:', err);
+    return NextResponse.json({ ok: false, error: 'Server error' }, { status: 500 });
+  }
+}
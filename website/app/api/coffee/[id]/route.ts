@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import Coffee from "@/models/Coffee";
 import CoffeeVariant from "@/models/CoffeeVariant";
 import dbConnect from "@/lib/dbConnect";
+import { getHeldQuantities } from "@/lib/stockReservations";
 import mongoose from "mongoose";
 import { verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 import { v2 as cloudinary } from "cloudinary";
 
 cloudinary.config({
@@ -58,6 +60,7 @@ interface CoffeeDetail {
 /**
  * GET /api/coffee/[id]
  * Get a single coffee by ID or slug with all variant details
+ * ?stock=available — variant stock net of active checkout holds
  */
 export async function GET(
   request: NextRequest,
@@ -239,6 +242,20 @@ export async function GET(
 
     const coffee = coffees[0];
 
+    // Shop pages ask for what can actually be bought: stock held by checkouts in
+    // progress isn't available. The admin editor gets the stored stock.
+    const held =
+      request.nextUrl.searchParams.get("stock") === "available"
+        ? await getHeldQuantities(coffee.variants.map((v) => String(v._id)))
+        : new Map<string, number>();
+    if (held.size > 0) {
+      coffee.variants = coffee.variants.map((v) => ({
+        ...v,
+        stock: Math.max(0, v.stock - (held.get(String(v._id)) ?? 0)),
+      }));
+      coffee.totalStock = coffee.variants.reduce((sum, v) => sum + v.stock, 0);
+    }
+
     const sizeMap = new Map<string, number>();
     coffee.variants.forEach((variant: CoffeeVariantData) => {
       const currentPrice = sizeMap.get(variant.size);
@@ -297,7 +314,7 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const auth = await verifyAuthForApi(request);
+  const auth = await verifyAuthForApi(request, { permission: "catalogue.manage" });
   if (auth instanceof NextResponse) return auth;
 
   try {
@@ -380,8 +397,17 @@ export async function PATCH(
       );
     }
 
+    const before = coffee.toObject();
     Object.assign(coffee, updateData);
     await coffee.save();
+    await recordAudit(request, auth, {
+      action: "update",
+      entityType: "coffee",
+      entityId: String(coffee._id),
+      entityLabel: coffee.name,
+      before,
+      after: coffee,
+    });
 
     return NextResponse.json(
       {
@@ -412,7 +438,7 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const auth = await verifyAuthForApi(request);
+  const auth = await verifyAuthForApi(request, { permission: "catalogue.manage" });
   if (auth instanceof NextResponse) return auth;
 
   try {
@@ -489,6 +515,14 @@ export async function DELETE(
       coffeeId: coffee._id,
     });
     await Coffee.findByIdAndDelete(coffee._id);
+    await recordAudit(request, auth, {
+      action: "delete",
+      entityType: "coffee",
+      entityId: String(coffee._id),
+      entityLabel: coffee.name,
+      before: coffee,
+      metadata: { variantsDeleted: deletedVariants.deletedCount },
+    });
 
     return NextResponse.json(
       {
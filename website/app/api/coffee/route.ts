@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import Coffee from "@/models/Coffee";
 import dbConnect from "@/lib/dbConnect";
 import { verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { getHeldQuantities } from "@/lib/stockReservations";
 
 interface SizePrice {
   size: string;
@@ -82,7 +84,7 @@ interface TransformedCoffee {
 /**
  * GET /api/coffee
  * Get all coffees with variant count, base price, and available sizes with prices and grinds
- * Query params: search, limit, page, bestSeller, roastType
+ * Query params: search, limit, page, bestSeller, roastType, stock ("available" takes off stock held by checkouts)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -232,6 +234,22 @@ export async function GET(request: NextRequest) {
       },
     ])) as CoffeeAggregateResult[];
 
+    // Shop pages ask for what can actually be bought, as on the product page
+    // (/api/coffee/[id]?stock=available); the admin lists get the stored stock.
+    const held =
+      searchParams.get("stock") === "available"
+        ? await getHeldQuantities(coffees.flatMap((c) => c.variants.map((v) => String(v._id))))
+        : new Map<string, number>();
+    if (held.size > 0) {
+      for (const coffee of coffees) {
+        coffee.variants = coffee.variants.map((v) => ({
+          ...v,
+          stock: Math.max(0, v.stock - (held.get(String(v._id)) ?? 0)),
+        }));
+        coffee.totalStock = coffee.variants.reduce((sum, v) => sum + v.stock, 0);
+      }
+    }
+
     const transformedCoffees: TransformedCoffee[] = coffees.map((coffee) => {
       const sizeMap = new Map<
         string,
@@ -340,7 +358,7 @@ export async function GET(request: NextRequest) {
  * PROTECTED: Requires an authenticated user.
  */
 export async function POST(request: NextRequest) {
-  const auth = await verifyAuthForApi(request);
+  const auth = await verifyAuthForApi(request, { permission: "catalogue.manage" });
   if (auth instanceof NextResponse) return auth;
 
   try {
@@ -408,6 +426,13 @@ export async function POST(request: NextRequest) {
     });
 
     await coffee.save();
+    await recordAudit(request, auth, {
+      action: "create",
+      entityType: "coffee",
+      entityId: String(coffee._id),
+      entityLabel: coffee.name,
+      after: coffee,
+    });
 
     return NextResponse.json(
       {
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { enqueueEmail, type EnqueueEmailInput } from "@/lib/outbox";
 
 type ContactPayload = {
   name?: string;
@@ -22,26 +23,10 @@ function escapeHtml(s?: string) {
     .replace(/'/g, "&#039;");
 }
 
-async function sendBrevoEmail(payload: Record<string, unknown>) {
-  const apiKey = process.env.BREVO_API_KEY;
-  if (!apiKey) throw new Error("BREVO_API_KEY not configured");
-
-  const res = await fetch("https://api.brevo.com/v3/smtp/email", {
-    method: "POST",
-    headers: {
-      "api-key": apiKey,
-      "Content-Type": "application/json",
-      Accept: "application/json",
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Brevo API error ${res.status}: ${text}`);
-  }
-
-  return res.json().catch(() => ({}));
+async function queueEmail(input: EnqueueEmailInput) {
+  const queued = await enqueueEmail(input);
+  if (!queued.ok) throw new Error(queued.error);
+  return queued;
 }
 
 /**
@@ -63,8 +48,8 @@ export async function OPTIONS() {
  *
  * Accepts JSON: { name, email, message, company (honeypot), subject? }
  * - If honeypot (company) is filled -> treat as bot (silently drop)
- * - Sends admin notification and optional ack to sender via Brevo (best-effort)
- * - Does NOT persist to DB
+ * - Queues admin notification and optional ack to sender in the email outbox (best-effort)
+ * - Does NOT persist the message itself
  *
  * Required env:
  * - BREVO_API_KEY
@@ -77,7 +62,6 @@ export async function OPTIONS() {
  */
 export async function POST(request: Request) {
   try {
-    const apiKey = process.env.BREVO_API_KEY;
     const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
     const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Coffee Genius";
     const adminEmail =
@@ -88,9 +72,6 @@ export async function POST(request: Request) {
         ""
       ).trim();
 
-    if (!apiKey) {
-      return NextResponse.json({ success: false, message: "BREVO_API_KEY not configured" }, { status: 500 });
-    }
     if (!senderEmail) {
       return NextResponse.json({ success: false, message: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured" }, { status: 500 });
     }
@@ -146,14 +127,17 @@ export async function POST(request: Request) {
     const sendPromises: Promise<unknown>[] = [];
 
     if (adminEmail) {
-      const adminPayload = {
-        sender: { name: senderName, email: senderEmail },
-        to: [{ email: adminEmail }],
-        subject: `[Contact] ${subject}`,
-        htmlContent: adminHtml,
-        textContent: adminText,
-      };
-      sendPromises.push(sendBrevoEmail(adminPayload));
+      sendPromises.push(
+        queueEmail({
+          kind: "admin_contact",
+          audience: "admin",
+          from: { name: senderName, email: senderEmail },
+          to: [{ email: adminEmail }],
+          subject: `[Contact] ${subject}`,
+          html: adminHtml,
+          text: adminText,
+        })
+      );
     }
 
     // Optionally send acknowledgment to user (best-effort). Controlled by env SEND_CONTACT_ACK (default true)
@@ -181,15 +165,16 @@ export async function POST(request: Request) {
         `If urgent, call: ${process.env.COMPANY_PHONE || ""}`,
       ].join("\n");
 
-      const ackPayload = {
-        sender: { name: senderName, email: senderEmail },
-        to: [{ email }],
-        subject: `${process.env.COMPANY_NAME || senderName} — We've received your message`,
-        htmlContent: ackHtml,
-        textContent: ackText,
-      };
-
-      sendPromises.push(sendBrevoEmail(ackPayload));
+      sendPromises.push(
+        queueEmail({
+          kind: "contact_ack",
+          from: { name: senderName, email: senderEmail },
+          to: [{ email, name }],
+          subject: `${process.env.COMPANY_NAME || senderName} — We've received your message`,
+          html: ackHtml,
+          text: ackText,
+        })
+      );
     }
 
     // Await all sends but tolerate partial failures
@@ -197,7 +182,7 @@ export async function POST(request: Request) {
     const rejections = results.filter((r) => r.status === "rejected") as PromiseRejectedResult[];
 
     if (rejections.length > 0) {
-      console.warn("Contact API: some email sends failed:", rejections.map((r) => r.reason?.toString?.() ?? r));
+      console.warn("Contact API: some emails could not be queued:", rejections.map((r) => r.reason?.toString?.() ?? r));
       // Still return 200 so UX is smooth; optionally provide partial message
       return NextResponse.json({ success: true, message: "Message received (email send partially failed)" }, { status: 200 });
     }
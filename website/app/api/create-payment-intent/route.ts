@@ -6,17 +6,34 @@ import dbConnect from '@/lib/dbConnect';
 import CoffeeVariant from '@/models/CoffeeVariant';
 import Coffee from '@/models/Coffee';
 import Equipment from '@/models/Equipment';
-import Settings from '@/models/Settings';
 import mongoose from 'mongoose';
-
-interface SettingsDoc {
-  deliveryPricePence?: number;
-  freeDeliveryEnabled?: boolean;
-  freeDeliveryThresholdPence?: number;
-}
-
-type ClientItem = { id: string; name: string; price: number; quantity: number };
-type VerifiedItem = { id: string; name: string; quantity: number; clientPrice: number; storedPrice: number; source: 'variant' | 'coffee' | 'equipment'; roastType?: string };
+import { evaluatePromotion, normalizePromotionCode, PromotionEvaluation } from '@/lib/promotions';
+import { isSubscriptionCadence } from '@/lib/subscriptions';
+import type { SubscriptionCadence } from '@/models/Subscription';
+import { selectShippingOption, type ShippingQuoteOption, type ShippingService } from '@/lib/shipping';
+import { quoteShipping } from '@/lib/shippingQuote';
+import {
+  GIFT_CARD_PRODUCT_ID,
+  giftCardLinesPence,
+  isValidGiftCardAmountPence,
+  normalizeGiftCardCode,
+  parseGiftCardRecipient,
+  splitGiftCardPayment,
+  type GiftCardRecipient,
+  type GiftCardSplit,
+} from '@/lib/giftCards';
+import { findUsableGiftCard } from '@/lib/giftCardService';
+import type { IGiftCard } from '@/models/GiftCard';
+import { toCheckoutSessionItems, trackCheckoutSession, verifyCheckoutSessionSignature } from '@/lib/checkoutRecovery';
+import { attachPaymentIntent, getAvailableStock, releaseReservation, reserveStock } from '@/lib/stockReservations';
+import { calculateVat, defaultTaxCategory, isTaxCategory, TAX_CATEGORY_CODES, type TaxCategory } from '@/lib/vat';
+import { splitMetadataValue } from '@/lib/stripeMetadata';
+
+type ClientItem = { id: string; name: string; price: number; quantity: number; cadence?: SubscriptionCadence; giftCard?: GiftCardRecipient };
+type VerifiedItem = { id: string; name: string; quantity: number; clientPrice: number; storedPrice: number; source: 'variant' | 'coffee' | 'equipment' | 'gift_card'; taxCategory: TaxCategory; roastType?: string; cadence?: SubscriptionCadence; giftCard?: GiftCardRecipient };
+
+// Each gift card line carries its recipient in its own metadata key (Stripe allows 50 keys)
+const MAX_GIFT_CARD_LINES = 10;
 
 interface ProductDoc {
   pricePence?: number;
@@ -28,11 +45,13 @@ interface ProductDoc {
   stock?: number;
   totalStock?: number;
   roastType?: string;
+  taxCategory?: string;
 }
 
 interface StoredLookup {
   price: number;
   source: 'variant' | 'coffee' | 'equipment';
+  taxCategory: TaxCategory;
   docName?: string;
   roastType?: string;
 }
@@ -56,6 +75,17 @@ interface SuccessPayload {
   clientSecret: string | null;
   amount: number;
   paymentIntentId: string;
+  subtotal: number;
+  shipping: number;
+  discount: number;
+  total: number;
+  promotion: { code: string; label: string; freeShipping: boolean } | null;
+  shippingService: ShippingService;
+  shippingOptions: ShippingQuoteOption[];
+  giftCard: { code: string; appliedPence: number; availablePence: number } | null;
+  // what's left to pay by card once the gift card is taken off
+  amountDue: number;
+  giftCardCoversTotal: boolean;
 }
 
 function parseItems(input: unknown): ClientItem[] {
@@ -63,7 +93,12 @@ function parseItems(input: unknown): ClientItem[] {
   return input.map((raw, idx) => {
     if (raw === null || typeof raw !== 'object') throw new Error(`Item at index ${idx} is not an object`);
     const maybe = raw as Record<string, unknown>;
-    const id = typeof maybe.id === 'string' ? maybe.id : String(maybe.id ?? '');
+    // Subscription lines use a cart-only id; price and stock come from the variant
+    const isSubscription = maybe.productType === 'subscription';
+    // Gift card lines are unique per recipient in the cart; productId is the gift card product
+    const isGiftCard = maybe.productType === 'gift_card';
+    const rawId = isSubscription ? maybe.variantId : isGiftCard ? maybe.productId : maybe.id;
+    const id = typeof rawId === 'string' ? rawId : String(rawId ?? '');
     const name = typeof maybe.name === 'string' ? maybe.name : String(maybe.name ?? '');
     const price = Number(maybe.price ?? 0);
     const quantity = Number(maybe.quantity ?? 0);
@@ -71,6 +106,15 @@ function parseItems(input: unknown): ClientItem[] {
     if (!name) throw new Error(`Item at index ${idx} is missing a valid 'name'`);
     if (!Number.isFinite(price) || price < 0) throw new Error(`Item at index ${idx} has an invalid 'price'`);
     if (!Number.isFinite(quantity) || quantity <= 0) throw new Error(`Item at index ${idx} has an invalid 'quantity'`);
+    if (isGiftCard) {
+      if (id !== GIFT_CARD_PRODUCT_ID) throw new Error(`Item at index ${idx} is not a valid gift card`);
+      if (!isValidGiftCardAmountPence(Math.round(price * 100))) throw new Error(`Item at index ${idx} has an invalid gift card amount`);
+      return { id, name, price, quantity, giftCard: parseGiftCardRecipient(maybe.giftCard) };
+    }
+    if (isSubscription) {
+      if (!isSubscriptionCadence(maybe.cadence)) throw new Error(`Item at index ${idx} has an invalid subscription 'cadence'`);
+      return { id, name, price, quantity, cadence: maybe.cadence };
+    }
     return { id, name, price, quantity };
   });
 }
@@ -91,12 +135,16 @@ function normalizeDocPriceToGbp(doc: ProductDoc | null | undefined): number {
   return 0;
 }
 
+function docTaxCategory(doc: ProductDoc, source: StoredLookup['source']): TaxCategory {
+  return isTaxCategory(doc.taxCategory) ? doc.taxCategory : defaultTaxCategory(source);
+}
+
 async function findStoredPriceForId(id: string): Promise<StoredLookup | null> {
   if (mongoose.Types.ObjectId.isValid(id)) {
     try {
       const variant = (await CoffeeVariant.findById(id).lean().exec()) as unknown as ProductDoc | null;
       if (variant) {
-        return { price: normalizeDocPriceToGbp(variant), source: 'variant', docName: variant.name, roastType: variant.roastType };
+        return { price: normalizeDocPriceToGbp(variant), source: 'variant', taxCategory: docTaxCategory(variant, 'variant'), docName: variant.name, roastType: variant.roastType };
       }
     } catch {
       // ignore
@@ -104,7 +152,7 @@ async function findStoredPriceForId(id: string): Promise<StoredLookup | null> {
     try {
       const coffee = (await Coffee.findById(id).lean().exec()) as unknown as ProductDoc | null;
       if (coffee) {
-        return { price: normalizeDocPriceToGbp(coffee), source: 'coffee', docName: coffee.name };
+        return { price: normalizeDocPriceToGbp(coffee), source: 'coffee', taxCategory: docTaxCategory(coffee, 'coffee'), docName: coffee.name };
       }
     } catch {
       // ignore
@@ -112,7 +160,7 @@ async function findStoredPriceForId(id: string): Promise<StoredLookup | null> {
     try {
       const equip = (await Equipment.findById(id).lean().exec()) as unknown as ProductDoc | null;
       if (equip) {
-        return { price: normalizeDocPriceToGbp(equip), source: 'equipment', docName: equip.name };
+        return { price: normalizeDocPriceToGbp(equip), source: 'equipment', taxCategory: docTaxCategory(equip, 'equipment'), docName: equip.name };
       }
     } catch {
       // ignore
@@ -122,7 +170,7 @@ async function findStoredPriceForId(id: string): Promise<StoredLookup | null> {
   try {
     const equipBySlug = (await Equipment.findOne({ slug: id }).lean().exec()) as unknown as ProductDoc | null;
     if (equipBySlug) {
-      return { price: normalizeDocPriceToGbp(equipBySlug), source: 'equipment', docName: equipBySlug.name };
+      return { price: normalizeDocPriceToGbp(equipBySlug), source: 'equipment', taxCategory: docTaxCategory(equipBySlug, 'equipment'), docName: equipBySlug.name };
     }
   } catch {
     // ignore
@@ -132,11 +180,16 @@ async function findStoredPriceForId(id: string): Promise<StoredLookup | null> {
 }
 
 async function verifyItems(items: ClientItem[]): Promise<VerifiedItem[]> {
-  const lookups = await Promise.all(items.map((it) => findStoredPriceForId(it.id)));
+  // Gift cards have no product document: the buyer picks the amount (checked in parseItems)
+  const lookups = await Promise.all(items.map((it) => (it.giftCard ? null : findStoredPriceForId(it.id))));
   const verified: VerifiedItem[] = [];
   const TOLERANCE = 0.01;
   for (let i = 0; i < items.length; i++) {
     const it = items[i];
+    if (it.giftCard) {
+      verified.push({ id: it.id, name: it.name, quantity: it.quantity, clientPrice: it.price, storedPrice: it.price, source: 'gift_card', taxCategory: 'outside_scope', giftCard: it.giftCard });
+      continue;
+    }
     const lookup = lookups[i];
     if (!lookup) throw new Error(`Product not found for item id='${it.id}' (name='${it.name}')`);
     const storedPrice = Number(lookup.price ?? 0);
@@ -148,34 +201,27 @@ async function verifyItems(items: ClientItem[]): Promise<VerifiedItem[]> {
         )} GBP, stored price=${storedPrice.toFixed(2)} GBP.`
       );
     }
-    const item: VerifiedItem = { id: it.id, name: lookup.docName ?? it.name, quantity: it.quantity, clientPrice, storedPrice, source: lookup.source };
+    const item: VerifiedItem = { id: it.id, name: lookup.docName ?? it.name, quantity: it.quantity, clientPrice, storedPrice, source: lookup.source, taxCategory: lookup.taxCategory };
     if (lookup.roastType) item.roastType = lookup.roastType;
+    if (it.cadence) {
+      if (lookup.source !== 'variant') throw new Error(`Only coffee variants can be subscribed to (item id='${it.id}')`);
+      item.cadence = it.cadence;
+    }
     verified.push(item);
   }
   return verified;
 }
 
-// Returns an array of shortages (empty if all available)
+// Returns an array of shortages (empty if all available). Stock other checkouts
+// are holding doesn't count as available.
 async function validateStockAvailability(verifiedItems: VerifiedItem[]): Promise<Shortage[]> {
   const shortages: Shortage[] = [];
 
   for (const item of verifiedItems) {
     const { id, quantity, source, name } = item;
+    if (source === 'gift_card') continue;
 
-    let available = 0;
-
-    if (source === 'variant') {
-      const variant = await CoffeeVariant.findById(id).select('stock').lean();
-      available = variant?.stock ?? 0;
-    } else if (source === 'coffee') {
-      const coffee = await Coffee.findById(id).select('stock').lean();
-      available = coffee?.stock ?? 0;
-    } else if (source === 'equipment') {
-      const equipment = mongoose.Types.ObjectId.isValid(id)
-        ? await Equipment.findById(id).select('totalStock').lean()
-        : await Equipment.findOne({ slug: id }).select('totalStock').lean();
-      available = equipment?.totalStock ?? 0;
-    }
+    const available = await getAvailableStock(source, id);
 
     if (available < quantity) {
       shortages.push({
@@ -191,6 +237,34 @@ async function validateStockAvailability(verifiedItems: VerifiedItem[]): Promise
   return shortages;
 }
 
+// The checkout re-creates the PaymentIntent whenever the cart changes; the one it
+// replaces is cancelled so its stock hold doesn't block this customer. The client
+// secret proves the caller owns it. The hold is only given back once the old intent
+// can no longer be paid: if cancelling fails (a 3-D Secure challenge that has just
+// completed, say) it keeps its stock.
+async function releasePreviousIntent(stripe: Stripe, clientSecret: unknown): Promise<string | null> {
+  if (typeof clientSecret !== 'string' || !clientSecret.includes('_secret_')) return null;
+  const paymentIntentId = clientSecret.slice(0, clientSecret.indexOf('_secret_'));
+  try {
+    const previous = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (previous.client_secret !== clientSecret) return null;
+    if (previous.status === 'succeeded' || previous.status === 'processing') return paymentIntentId;
+    if (previous.status !== 'canceled') {
+      try {
+        await stripe.paymentIntents.cancel(paymentIntentId, { cancellation_reason: 'abandoned' });
+      } catch (err) {
+        console.warn('Previous PaymentIntent not cancelled; keeping its hold:', paymentIntentId, err instanceof Error ? err.message : err);
+        return paymentIntentId;
+      }
+    }
+    await releaseReservation({ paymentIntentId }, 'replaced');
+    return paymentIntentId;
+  } catch (err) {
+    console.warn('Could not release previous PaymentIntent:', paymentIntentId, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
 export async function POST(req: Request) {
   // expose details only when enabled intentionally (avoid leaking logs in production)
   const exposeErrors = process.env.NEXT_PUBLIC_EXPOSE_SERVER_ERRORS === 'true' || process.env.NODE_ENV !== 'production';
@@ -209,6 +283,19 @@ export async function POST(req: Request) {
 
     await dbConnect();
 
+    const stripeSecret = process.env.STRIPE_SECRET_KEY;
+    if (!stripeSecret) {
+      console.error('STRIPE_SECRET_KEY is not configured');
+      const payload: ErrorPayload = { error: 'Server not configured (missing STRIPE_SECRET_KEY)' };
+      if (exposeErrors) payload.serverLog = 'Missing STRIPE_SECRET_KEY environment variable';
+      return NextResponse.json(payload, { status: 500 });
+    }
+
+    const stripe = new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' });
+
+    // Give back this customer's hold from an earlier attempt before checking stock
+    const previousPaymentIntentId = await releasePreviousIntent(stripe, body.previousClientSecret);
+
     // Verify items and prices
     let verifiedItems: VerifiedItem[];
     try {
@@ -236,43 +323,86 @@ export async function POST(req: Request) {
     }
     console.log('✅ Stock availability confirmed (pre-payment check)');
 
+    if (verifiedItems.filter((it) => it.source === 'gift_card').length > MAX_GIFT_CARD_LINES) {
+      const payload: ErrorPayload = { error: `You can buy up to ${MAX_GIFT_CARD_LINES} different gift cards per order.` };
+      return NextResponse.json(payload, { status: 400 });
+    }
+
     // Compute totals (use storedPrice)
     const subtotal = verifiedItems.reduce((sum, it) => sum + it.storedPrice * it.quantity, 0);
-
-    // --- NEW: compute shipping from Settings (preferred) with a safe fallback ---
-    let shipping = 0;
-    try {
-      const settingsDoc = await Settings.findOne({}).lean() as SettingsDoc | null;
-      if (settingsDoc && typeof settingsDoc.deliveryPricePence === 'number') {
-        const deliveryPricePence = settingsDoc.deliveryPricePence ?? 0;
-        const freeEnabled = !!settingsDoc.freeDeliveryEnabled;
-        const freeThresholdPence = settingsDoc.freeDeliveryThresholdPence ?? 0;
-
-        const deliveryPrice = Number((deliveryPricePence / 100).toFixed(2));
-        const freeThreshold = Number((freeThresholdPence / 100).toFixed(2));
-
-        if (freeEnabled && subtotal >= freeThreshold) {
-          shipping = 0;
-        } else {
-          shipping = deliveryPrice;
-        }
-
-        console.log(`Shipping computed from Settings: £${shipping.toFixed(2)} (freeEnabled=${freeEnabled}, threshold=${freeThreshold.toFixed(2)})`);
-      } else {
-        // fallback to previous simple rule if settings not present
-        shipping = subtotal > 30 ? 0 : 4.99;
-        console.log(`Settings not found - fallback shipping rule used: £${shipping.toFixed(2)}`);
+    // Gift cards are emailed: they don't ship and don't get discounted
+    const physicalItems = verifiedItems.filter(
+      (it): it is VerifiedItem & { source: Exclude<VerifiedItem['source'], 'gift_card'> } => it.source !== 'gift_card'
+    );
+    const physicalSubtotal = physicalItems.reduce((sum, it) => sum + it.storedPrice * it.quantity, 0);
+
+    // Shipping from the zone/weight rate tables. The address usually isn't known yet,
+    // so this quotes the default zone; save-shipping re-prices once it is.
+    const shippingDest =
+      body.shipping && typeof body.shipping === 'object' ? (body.shipping as Record<string, unknown>) : {};
+    const shippingQuote = await quoteShipping({
+      lines: physicalItems.map((it) => ({ id: it.id, quantity: it.quantity, source: it.source })),
+      subtotalPence: Math.round(physicalSubtotal * 100),
+      destination: {
+        postcode: typeof shippingDest.postcode === 'string' ? shippingDest.postcode : null,
+        country: typeof shippingDest.country === 'string' ? shippingDest.country : null,
+      },
+    });
+    const shippingOption = selectShippingOption(shippingQuote.options, body.shippingService);
+    if (!shippingOption) {
+      const payload: ErrorPayload = {
+        error: 'Shipping unavailable',
+        message: "Sorry, we can't deliver this order to that address. Please contact us for a quote.",
+      };
+      if (exposeErrors) payload.serverLog = `No shipping rate for ${shippingQuote.weightGrams}g to ${JSON.stringify(shippingDest)}`;
+      return NextResponse.json(payload, { status: 422 });
+    }
+    let shipping = Number((shippingOption.pricePence / 100).toFixed(2));
+    console.log(`Shipping quoted: £${shipping.toFixed(2)} (${shippingOption.service}, zone ${shippingOption.zone}, ${shippingQuote.weightGrams}g)`);
+
+    // Apply discount code (if any) after prices are verified
+    let promotion: PromotionEvaluation | null = null;
+    const discountCode = normalizePromotionCode(body.discountCode);
+    if (discountCode) {
+      const clientEmail =
+        body.client && typeof body.client === 'object' && typeof (body.client as Record<string, unknown>).email === 'string'
+          ? ((body.client as Record<string, unknown>).email as string)
+          : null;
+      try {
+        promotion = await evaluatePromotion(
+          discountCode,
+          physicalItems.map((it) => ({
+            id: it.id,
+            name: it.name,
+            source: it.source,
+            quantity: it.quantity,
+            unitPricePence: Math.round(it.storedPrice * 100),
+          })),
+          { email: clientEmail }
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn('Discount code rejected:', discountCode, message);
+        const payload: ErrorPayload = { error: 'Invalid discount code', message };
+        if (exposeErrors) payload.serverLog = `Discount code ${discountCode} rejected: ${message}`;
+        return NextResponse.json(payload, { status: 422 });
       }
-    } catch (settingsErr) {
-      console.warn('Failed to load settings; falling back to default shipping rule', settingsErr);
-      shipping = subtotal > 30 ? 0 : 4.99;
     }
-    // --- END NEW SHIPPING LOGIC ---
 
-    const total = Number((subtotal + shipping).toFixed(2));
+    const discount = promotion ? Number((promotion.discountPence / 100).toFixed(2)) : 0;
+    if (promotion?.freeShipping) shipping = 0;
+
+    const total = Number((subtotal - discount + shipping).toFixed(2));
     const amount = Math.round(total * 100);
 
-    // Build order items for metadata (compact)
+    // Prices include VAT: work out what each line holds, after its share of the discount
+    const vat = calculateVat(
+      verifiedItems.map((it) => ({ totalPrice: it.storedPrice * it.quantity, taxCategory: it.taxCategory })),
+      { discount, shipping }
+    );
+
+    // Build order items for metadata (compact). Fulfilment works the VAT out again, so
+    // lines only carry a tax code when the product's category isn't its type's default.
     const orderItems = verifiedItems.map((it) => {
       const item: Record<string, unknown> = {
         id: it.id,
@@ -282,34 +412,89 @@ export async function POST(req: Request) {
         totalPrice: Number((it.storedPrice * it.quantity).toFixed(2)),
         source: it.source,
       };
+      if (it.taxCategory !== defaultTaxCategory(it.source)) item.tax = TAX_CATEGORY_CODES[it.taxCategory];
       if (it.roastType) item.roastType = it.roastType;
+      if (it.cadence) item.cadence = it.cadence;
       return item;
     });
 
-    // Create Stripe PaymentIntent
-    const stripeSecret = process.env.STRIPE_SECRET_KEY;
-    if (!stripeSecret) {
-      console.error('STRIPE_SECRET_KEY is not configured');
-      const payload: ErrorPayload = { error: 'Server not configured (missing STRIPE_SECRET_KEY)' };
-      if (exposeErrors) payload.serverLog = 'Missing STRIPE_SECRET_KEY environment variable';
-      return NextResponse.json(payload, { status: 500 });
+    // Subscription lines: save the card to a Stripe customer so renewals can be charged off-session
+    const hasSubscription = verifiedItems.some((it) => it.cadence);
+
+    // Gift card / store credit: it pays what it can and the card is charged the rest.
+    // When it covers everything, the PI keeps the full amount as a placeholder and
+    // /api/gift-cards/checkout completes the order without charging the card.
+    let giftCard: IGiftCard | null = null;
+    let giftCardSplit: GiftCardSplit | null = null;
+    const giftCardCode = normalizeGiftCardCode(body.giftCardCode);
+    if (giftCardCode) {
+      let message: string | null = null;
+      try {
+        giftCard = await findUsableGiftCard(giftCardCode);
+        giftCardSplit = splitGiftCardPayment(amount, giftCard.balancePence, giftCardLinesPence(orderItems));
+        if (giftCardSplit.appliedPence === 0) {
+          message = "Gift cards can't be used to buy other gift cards";
+        } else if (hasSubscription && giftCardSplit.coversTotal) {
+          message = "A gift card can't pay for the whole of a subscription order: we need a card for the renewals";
+        }
+      } catch (err) {
+        message = err instanceof Error ? err.message : String(err);
+      }
+      if (message) {
+        console.warn('Gift card rejected:', giftCardCode, message);
+        const payload: ErrorPayload = { error: 'Invalid gift card', message };
+        if (exposeErrors) payload.serverLog = `Gift card ${giftCardCode} rejected: ${message}`;
+        return NextResponse.json(payload, { status: 422 });
+      }
     }
-
-    const stripe = new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' });
+    const amountDuePence = giftCardSplit ? giftCardSplit.payablePence : amount;
+    const chargeAmount = giftCardSplit?.coversTotal ? amount : amountDuePence;
 
     // Canonical metadata keys expected by the webhook:
     // items, subtotal, shipping, total
     // Also accept optional shipping and billing payloads from the request and store under:
     // shippingAddress, billingAddress (stringified) — these are optional fallbacks.
     const metadata: Record<string, string> = {
-      items: JSON.stringify(orderItems),
+      ...splitMetadataValue('items', JSON.stringify(orderItems)),
       subtotal: subtotal.toFixed(2),
       shipping: shipping.toFixed(2),
+      shippingService: shippingOption.service,
+      shippingZone: shippingOption.zone,
+      weightGrams: String(shippingQuote.weightGrams),
       total: total.toFixed(2),
+      vat: vat.totalVat.toFixed(2),
       prices_verified: 'true',
       ...(idempotencyKey ? { idempotencyKey } : {}),
     };
 
+    if (promotion) {
+      metadata.discount = discount.toFixed(2);
+      metadata.discountCode = promotion.code;
+      metadata.promotionId = promotion.promotionId;
+      metadata.promotionLabel = promotion.label;
+      metadata.freeShipping = promotion.freeShipping ? 'true' : 'false';
+    }
+
+    if (giftCard && giftCardSplit) {
+      metadata.giftCardId = String(giftCard._id);
+      metadata.giftCardCode = giftCard.code;
+      metadata.giftCardAmount = (giftCardSplit.appliedPence / 100).toFixed(2);
+      // balance at checkout, so save-shipping can re-split when delivery changes the total
+      metadata.giftCardAvailable = (giftCard.balancePence / 100).toFixed(2);
+      metadata.giftCardCoversTotal = giftCardSplit.coversTotal ? 'true' : 'false';
+    }
+
+    // Who each gift card line goes to; the webhook reads these when issuing the cards
+    for (const [idx, it] of verifiedItems.entries()) {
+      if (!it.giftCard) continue;
+      const recipient = JSON.stringify(it.giftCard);
+      if (recipient.length > 500) {
+        const payload: ErrorPayload = { error: 'Gift card message is too long. Please shorten it and try again.' };
+        return NextResponse.json(payload, { status: 400 });
+      }
+      metadata[`giftCard_${idx}`] = recipient;
+    }
+
     if (body.shipping) {
       try {
         metadata.shippingAddress = typeof body.shipping === 'string' ? body.shipping : JSON.stringify(body.shipping);
@@ -326,20 +511,87 @@ export async function POST(req: Request) {
       } catch {}
     }
 
-    const paymentIntent = await stripe.paymentIntents.create(
-      {
-        amount,
-        currency: 'gbp',
-        automatic_payment_methods: { enabled: true },
-        metadata,
-      },
-      idempotencyKey ? { idempotencyKey } : undefined
+    // Hold the stock until the payment lands (or the hold expires)
+    const { reservationId, shortages: reserveShortages } = await reserveStock(
+      physicalItems.map((it) => ({ id: it.id, qty: it.quantity, source: it.source, name: it.name }))
     );
+    if (reserveShortages.length > 0) {
+      console.error('❌ Stock reservation failed:', reserveShortages);
+      const payload: ErrorPayload = {
+        error: 'Stock unavailable',
+        message: 'One or more items in your cart are out of stock or have insufficient quantity.',
+        shortages: reserveShortages,
+      };
+      if (exposeErrors) payload.serverLog = `Stock reservation failed: ${JSON.stringify(reserveShortages)}`;
+      return NextResponse.json(payload, { status: 409 });
+    }
+
+    let customerId: string | undefined;
+    if (hasSubscription) {
+      const customer = await stripe.customers.create({ metadata: { source: 'coffee_subscription' } });
+      customerId = customer.id;
+      metadata.subscription = 'true';
+    }
+
+    let paymentIntent: Stripe.PaymentIntent;
+    try {
+      paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: chargeAmount,
+          currency: 'gbp',
+          automatic_payment_methods: { enabled: true },
+          ...(customerId ? { customer: customerId, setup_future_usage: 'off_session' as const } : {}),
+          metadata,
+        },
+        idempotencyKey ? { idempotencyKey } : undefined
+      );
+    } catch (err) {
+      if (reservationId) await releaseReservation({ reservationId }, 'payment_intent_failed');
+      throw err;
+    }
+
+    // An idempotent replay returns the PaymentIntent (and hold) from the first call
+    if (reservationId && !(await attachPaymentIntent(reservationId, paymentIntent.id))) {
+      await releaseReservation({ reservationId }, 'duplicate');
+    }
+
+    // Abandoned checkout tracking; never worth failing the checkout over
+    try {
+      const recovery = body.checkoutRecovery as { sessionId?: unknown; sig?: unknown } | undefined;
+      await trackCheckoutSession({
+        paymentIntentId: paymentIntent.id,
+        previousPaymentIntentId,
+        recoverySessionId:
+          recovery && verifyCheckoutSessionSignature(recovery.sessionId, recovery.sig) ? recovery.sessionId : null,
+        items: toCheckoutSessionItems(
+          rawItems,
+          new Map(verifiedItems.map((it) => [it.id, it.storedPrice]))
+        ),
+        subtotal,
+        total,
+        discountCode: promotion?.code ?? null,
+      });
+    } catch (err) {
+      console.warn('Checkout session tracking failed:', err instanceof Error ? err.message : err);
+    }
 
     const payload: SuccessPayload = {
       clientSecret: paymentIntent.client_secret ?? null,
-      amount,
+      amount: chargeAmount,
       paymentIntentId: paymentIntent.id,
+      subtotal: Number(subtotal.toFixed(2)),
+      shipping: Number(shipping.toFixed(2)),
+      discount,
+      total,
+      promotion: promotion ? { code: promotion.code, label: promotion.label, freeShipping: promotion.freeShipping } : null,
+      shippingService: shippingOption.service,
+      shippingOptions: shippingQuote.options,
+      giftCard:
+        giftCard && giftCardSplit
+          ? { code: giftCard.code, appliedPence: giftCardSplit.appliedPence, availablePence: giftCard.balancePence }
+          : null,
+      amountDue: Number((amountDuePence / 100).toFixed(2)),
+      giftCardCoversTotal: !!giftCardSplit?.coversTotal,
     };
     return NextResponse.json(payload, { status: 200 });
   } catch (err) {
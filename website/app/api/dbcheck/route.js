@@ -1,8 +1,17 @@
 import { NextResponse } from "next/server";
 import { checkDbConnection } from "@/lib/db-check";
+import { verifyAuthForApi } from "@/lib/auth";
 
 
-export async function GET() {
+export async function GET(req) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "system.manage" });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error("Auth check failed for GET /api/dbcheck", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
   const result = await checkDbConnection({ doPing: true, pingTimeoutMs: 2500 });
 
   if (result.ok) {
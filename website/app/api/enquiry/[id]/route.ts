@@ -1,7 +1,9 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import WholesaleEnquiry from '@/models/WholeSaleEnquiry';
 import mongoose from 'mongoose';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 /**
  * DELETE /api/enquiry/:id
@@ -12,6 +14,16 @@ import mongoose from 'mongoose';
  */
 
 export async function DELETE(req: Request) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'wholesale.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for DELETE /api/enquiry/[id]', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     // Parse id from URL path to be robust across Next.js versions/environments
     const url = new URL(req.url);
@@ -28,6 +40,13 @@ export async function DELETE(req: Request) {
     if (!doc) {
       return NextResponse.json({ ok: false, message: 'Not found' }, { status: 404 });
     }
+    await recordAudit(req, session, {
+      action: 'delete',
+      entityType: 'enquiry',
+      entityId: id,
+      entityLabel: doc.business,
+      before: doc,
+    });
 
     return NextResponse.json({ ok: true, id }, { status: 200 });
   } catch (err) {
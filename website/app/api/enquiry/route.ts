@@ -1,7 +1,8 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import WholesaleEnquiry from '@/models/WholeSaleEnquiry';
 import { sendAdminNotification, sendCustomerConfirmation } from '@/lib/brevo';
+import { verifyAuthForApi } from '@/lib/auth';
 
 type ReqBody = {
   business?: unknown;
@@ -22,6 +23,14 @@ function sanitizeString(v: unknown): string | undefined {
   return t === '' ? undefined : t;
 }
 export async function GET(req: Request) {
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'wholesale.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/enquiry', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
     try {
       await dbConnect();
     } catch (err) {
@@ -139,23 +148,14 @@ export async function POST(req: Request) {
 
         await sendAdminNotification({
           enquiryId,
-          clientName: contact ?? undefined,
-          clientEmail: email ?? undefined,
+          business: business ?? '',
+          contact: contact ?? '',
+          contactPref,
+          email,
+          phone,
+          interest,
+          message,
           dashboardUrl,
-          subject: `Wholesale enquiry: ${business} — ${contact}`,
-          bodyHtml: `
-            <div>
-              <h2>New wholesale enquiry</h2>
-              <p><strong>Business:</strong> ${business}</p>
-              <p><strong>Contact:</strong> ${contact}</p>
-              <p><strong>Contact preference:</strong> ${contactPref}</p>
-              <p><strong>Email:</strong> ${email ?? '—'}</p>
-              <p><strong>Phone:</strong> ${phone ?? '—'}</p>
-              <p><strong>Interest:</strong> ${interest ?? '—'}</p>
-              <p><strong>Message:</strong><br/>${message ? message.replace(/\n/g, '<br/>') : '—'}</p>
-              ${dashboardUrl ? `<p><a href="${dashboardUrl}">Open in admin</a></p>` : ''}
-            </div>
-          `,
         });
       } catch (adminErr) {
         console.error('sendAdminNotification failed (non-fatal):', adminErr);
@@ -2,7 +2,10 @@
     import dbConnect from "@/lib/dbConnect";
     import Equipment, { IEquipment } from "@/models/Equipment";
     import { verifyAuthForApi } from "@/lib/auth";
+    import { recordAudit } from "@/lib/audit";
     import mongoose from "mongoose";
+    import { getHeldQuantities } from "@/lib/stockReservations";
+    import { isTaxCategory } from "@/lib/vat";
     import { v2 as cloudinary } from "cloudinary";
 
     /**
@@ -80,6 +83,8 @@
         imgPublicId,
         imagesPublicIds,
         stock: totalStock,
+        weightGrams: getNumber(r?.weightGrams),
+        taxCategory: isTaxCategory(r?.taxCategory) ? r.taxCategory : "standard",
         notes: getString(r?.notes) ?? undefined,
         description: getString(r?.description) ?? undefined,
         specs: typeof r?.specs === "object" && r?.specs !== null ? r?.specs : undefined,
@@ -90,8 +95,9 @@
 
     /**
      * GET /api/equipment/:slug
+     * ?stock=available — stock net of active checkout holds
      */
-    export async function GET(_req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+    export async function GET(req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
     try {
         await dbConnect();
         const { slug } = await params;
@@ -113,11 +119,18 @@
         const storedPricePence = getNumber(productRec.pricePence) ?? getNumber(productRec.minPricePence) ?? 0;
         const minPrice = Number((storedPricePence / 100).toFixed(2));
 
-        const totalStock = getNumber(productRec.totalStock) ?? getNumber(productRec.stock) ?? 0;
+        // Shop pages ask for what can be bought (less stock held by checkouts in progress);
+        // the admin editor gets the stored stock
+        const held =
+        req.nextUrl.searchParams.get("stock") === "available"
+            ? await getHeldQuantities([String(productRec._id)])
+            : new Map<string, number>();
+        const storedStock = getNumber(productRec.totalStock) ?? getNumber(productRec.stock) ?? 0;
+        const totalStock = Math.max(0, storedStock - (held.get(String(productRec._id)) ?? 0));
         const availableOptions: string[] = [];
 
         return NextResponse.json(
-        { success: true, data: { ...normalizeForResponse(product), variantCount, minPrice, totalStock, availableOptions } },
+        { success: true, data: { ...normalizeForResponse(product), stock: totalStock, variantCount, minPrice, totalStock, availableOptions } },
         { status: 200 }
         );
     } catch (err) {
@@ -134,7 +147,7 @@
      * - If `img`/`images` are replaced, deletes old Cloudinary public IDs no longer referenced.
      */
     export async function PATCH(request: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
-    const auth = await verifyAuthForApi(request);
+    const auth = await verifyAuthForApi(request, { permission: "catalogue.manage" });
     if (auth instanceof NextResponse) return auth;
 
     try {
@@ -190,6 +203,8 @@
         "images",
         "stock",
         "totalStock",
+        "weightGrams",
+        "taxCategory",
         "notes",
         "description",
         "specs",
@@ -215,6 +230,7 @@
             case "pricePence":
             case "stock":
             case "totalStock":
+            case "weightGrams":
             updates[k] = getNumber(val);
             break;
             case "features":
@@ -232,6 +248,9 @@
             case "bestSeller":
             updates[k] = typeof val === "boolean" ? val : undefined;
             break;
+            case "taxCategory":
+            updates[k] = isTaxCategory(val) ? val : undefined;
+            break;
             default:
             // noop
             break;
@@ -241,6 +260,14 @@
         // Apply updates to doc (use mongoose document API)
         doc.set(updates);
         await doc.save();
+        await recordAudit(request, auth, {
+        action: "update",
+        entityType: "equipment",
+        entityId: String(doc._id),
+        entityLabel: getString(docObj.name),
+        before: docObj,
+        after: doc,
+        });
 
         // After save, delete any old public ids that are no longer referenced (only if replace attempted)
         const cloudinaryDeleteResults = { images: 0, videos: 0, errors: 0 };
@@ -285,7 +312,7 @@
      * DELETE /api/equipment/:slug
      */
     export async function DELETE(request: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
-    const auth = await verifyAuthForApi(request);
+    const auth = await verifyAuthForApi(request, { permission: "catalogue.manage" });
     if (auth instanceof NextResponse) return auth;
 
     try {
@@ -327,6 +354,13 @@
 
         // Remove document
         await Equipment.findByIdAndDelete(doc._id).exec();
+        await recordAudit(request, auth, {
+        action: "delete",
+        entityType: "equipment",
+        entityId: String(doc._id),
+        entityLabel: getString(docObj.name),
+        before: docObj,
+        });
 
         return NextResponse.json({
         success: true,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/dbConnect";
 import Equipment from "@/models/Equipment";
 import { verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { isTaxCategory } from "@/lib/vat";
 import { v2 as cloudinary } from "cloudinary";
 
 /**
@@ -131,6 +133,8 @@ function normalizeEquipmentDoc(doc: unknown) {
     variantCount: 0,
     availableOptions: [],
     totalStock,
+    weightGrams: toNumber(rec?.weightGrams),
+    taxCategory: isTaxCategory(rec?.taxCategory) ? rec.taxCategory : "standard",
   };
 }
 
@@ -218,7 +222,7 @@ export async function GET(request: NextRequest) {
  * Accepts price (pounds decimal) OR pricePence (integer). We normalize both when saving.
  */
 export async function POST(request: NextRequest) {
-  const auth = await verifyAuthForApi(request);
+  const auth = await verifyAuthForApi(request, { permission: "catalogue.manage" });
   if (auth instanceof NextResponse) return auth;
 
   try {
@@ -265,6 +269,8 @@ export async function POST(request: NextRequest) {
       img: toString(body.img) ?? undefined,
       images: toStringArray(body.images),
       stock: toNumber(body.stock) ?? toNumber(body.totalStock) ?? 0,
+      weightGrams: toNumber(body.weightGrams),
+      taxCategory: isTaxCategory(body.taxCategory) ? body.taxCategory : undefined,
       notes: toString(body.notes) ?? undefined,
       description: toString(body.description) ?? undefined,
       specs: typeof body.specs === "object" && body.specs !== null ? body.specs : undefined,
@@ -272,6 +278,13 @@ export async function POST(request: NextRequest) {
     });
 
     await doc.save();
+    await recordAudit(request, auth, {
+      action: "create",
+      entityType: "equipment",
+      entityId: String(doc._id),
+      entityLabel: doc.name,
+      after: doc,
+    });
 
     const normalized = normalizeEquipmentDoc(doc.toObject());
 
@@ -1,7 +1,16 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/dbConnect";
+import { verifyAuthForApi } from "@/lib/auth";
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "system.manage" });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error("Auth check failed for GET /api/fix-index", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
 
-export async function GET() {
   try {
     await dbConnect();
 
@@ -3,7 +3,8 @@ import dbConnect from "@/lib/dbConnect";
 import GalleryItem from "@/models/GalleryItem";
 import mongoose from "mongoose";
 import { destroyPublicId, initCloudinary } from "@/lib/cloudinarySrever";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 function isValidObjectId(id?: string) {
   return !!id && mongoose.Types.ObjectId.isValid(id);
@@ -28,10 +29,12 @@ export async function GET(_req: NextRequest, context: { params: Promise<{ id: st
 
 /* PUT (authenticated only) */
 export async function PUT(req: NextRequest, context: { params: Promise<{ id: string }> }) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(req);
+    const auth = await verifyAuthForApi(req, { permission: "content.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for PUT /api/gallery/[id]", err);
@@ -58,8 +61,17 @@ export async function PUT(req: NextRequest, context: { params: Promise<{ id: str
     if (typeof body.alt === "string") update.alt = body.alt.trim();
     if (typeof body.active === "boolean") update.active = body.active;
 
+    const before = await GalleryItem.findById(id).lean();
     const updated = await GalleryItem.findByIdAndUpdate(id, update, { new: true }).lean();
     if (!updated) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+    await recordAudit(req, session, {
+      action: "update",
+      entityType: "gallery",
+      entityId: id,
+      entityLabel: updated.title || updated.publicId,
+      before,
+      after: updated,
+    });
     return NextResponse.json({ ok: true, data: updated }, { status: 200 });
   } catch (err) {
     console.error("PUT /api/gallery/[id] error:", err);
@@ -69,10 +81,12 @@ export async function PUT(req: NextRequest, context: { params: Promise<{ id: str
 
 /* DELETE (authenticated only) */
 export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string }> }) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(req);
+    const auth = await verifyAuthForApi(req, { permission: "content.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for DELETE /api/gallery/[id]", err);
@@ -101,6 +115,13 @@ export async function DELETE(req: NextRequest, context: { params: Promise<{ id:
     }
 
     const deleted = await GalleryItem.findByIdAndDelete(id).lean();
+    await recordAudit(req, session, {
+      action: "delete",
+      entityType: "gallery",
+      entityId: id,
+      entityLabel: item.title || item.publicId,
+      before: item,
+    });
     return NextResponse.json({ ok: true, data: deleted }, { status: 200 });
   } catch (err) {
     console.error("DELETE /api/gallery/[id] error:", err);
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/dbConnect";
 import GalleryItem from "@/models/GalleryItem";
 import { initCloudinary, uploadBufferToCloudinary } from "@/lib/cloudinarySrever";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export const runtime = "nodejs";
 
@@ -35,7 +36,7 @@ export async function GET(req: Request) {
 
 /**
  * POST /api/gallery
- * - Protected: requires authenticated user (no role check)
+ * - Protected: requires the content.manage permission
  * - Accepts multipart/form-data with field 'files' (one or many).
  * - Optional fields:
  *   - folder: string (Cloudinary folder)
@@ -46,10 +47,12 @@ export async function GET(req: Request) {
  * - Creates a GalleryItem record per upload with metadata from Cloudinary and optional title/description
  */
 export async function POST(req: NextRequest) {
-  // Require authenticated user (no role check)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(req);
+    const auth = await verifyAuthForApi(req, { permission: "content.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for POST /api/gallery", err);
@@ -116,6 +119,13 @@ export async function POST(req: NextRequest) {
       });
 
       createdItems.push(doc);
+      await recordAudit(req, session, {
+        action: "create",
+        entityType: "gallery",
+        entityId: String(doc._id),
+        entityLabel: doc.title || doc.publicId,
+        after: doc,
+      });
     }
 
     return NextResponse.json({ ok: true, data: createdItems }, { status: 201 });
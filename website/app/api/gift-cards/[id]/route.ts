@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import GiftCard from "@/models/GiftCard";
+import GiftCardTransaction from "@/models/GiftCardTransaction";
+import dbConnect from "@/lib/dbConnect";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { adjustGiftCardBalance, deliverGiftCard } from "@/lib/giftCardService";
+
+function isValidObjectId(id?: string) {
+  return !!id && mongoose.Types.ObjectId.isValid(id);
+}
+
+async function requireAuth(req: NextRequest, label: string): Promise<{ actor: string | null; session: AdminSession } | NextResponse> {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "promotions.manage" });
+    if (auth instanceof NextResponse) return auth;
+    return { actor: auth.email ?? auth.sub ?? null, session: auth };
+  } catch (err) {
+    console.error(`Auth check failed for ${label}`, err);
+    return NextResponse.json({ ok: false, error: "Authentication failed" }, { status: 401 });
+  }
+}
+
+/* GET (authenticated only) — card with its ledger */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth(req, "GET /api/gift-cards/[id]");
+  if (auth instanceof NextResponse) return auth;
+
+  await dbConnect();
+
+  const { id } = await context.params;
+  if (!isValidObjectId(id)) {
+    return NextResponse.json({ ok: false, error: "Invalid ID" }, { status: 400 });
+  }
+
+  try {
+    const card = await GiftCard.findById(id).lean();
+    if (!card) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const transactions = await GiftCardTransaction.find({ giftCardId: id }).sort({ createdAt: -1 }).limit(200).lean();
+    return NextResponse.json({ ok: true, data: { ...card, transactions } }, { status: 200 });
+  } catch (err) {
+    console.error("GET /api/gift-cards/[id] error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to fetch gift card" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH (authenticated only)
+ * Body: { action: "adjust", amountPence, note } | { action: "disable" | "enable" | "resend" }
+ */
+export async function PATCH(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth(req, "PATCH /api/gift-cards/[id]");
+  if (auth instanceof NextResponse) return auth;
+
+  await dbConnect();
+
+  const { id } = await context.params;
+  if (!isValidObjectId(id)) {
+    return NextResponse.json({ ok: false, error: "Invalid ID" }, { status: 400 });
+  }
+
+  const body = ((await req.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  const action = body.action;
+
+  try {
+    if (action === "adjust") {
+      try {
+        const before = await GiftCard.findById(id).lean();
+        const card = await adjustGiftCardBalance({
+          giftCardId: id,
+          amountPence: Number(body.amountPence),
+          note: typeof body.note === "string" ? body.note : "",
+          actor: auth.actor,
+        });
+        await recordAudit(req, auth.session, {
+          action: "adjust",
+          entityType: "gift_card",
+          entityId: id,
+          entityLabel: before?.code,
+          summary: typeof body.note === "string" ? body.note : null,
+          before,
+          after: card,
+          metadata: { amountPence: Number(body.amountPence) },
+        });
+        return NextResponse.json({ ok: true, data: card }, { status: 200 });
+      } catch (err) {
+        return NextResponse.json({ ok: false, error: err instanceof Error ? err.message : "Adjustment failed" }, { status: 400 });
+      }
+    }
+
+    if (action === "disable" || action === "enable") {
+      const before = await GiftCard.findById(id).lean();
+      const card = await GiftCard.findByIdAndUpdate(
+        id,
+        { $set: { status: action === "disable" ? "disabled" : "active" } },
+        { new: true }
+      ).lean();
+      if (!card) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+      await recordAudit(req, auth.session, {
+        action,
+        entityType: "gift_card",
+        entityId: id,
+        entityLabel: card.code,
+        before,
+        after: card,
+      });
+      console.log(`Gift card ${card.code}: ${action}d by ${auth.actor ?? "admin"}`);
+      return NextResponse.json({ ok: true, data: card }, { status: 200 });
+    }
+
+    if (action === "resend") {
+      const card = await GiftCard.findById(id).exec();
+      if (!card) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+      const delivered = await deliverGiftCard(card);
+      if (!delivered) {
+        return NextResponse.json({ ok: false, error: "The email could not be sent. Check the recipient address." }, { status: 502 });
+      }
+      await recordAudit(req, auth.session, { action: "resend", entityType: "gift_card", entityId: id, entityLabel: card.code });
+      return NextResponse.json({ ok: true, data: { delivered } }, { status: 200 });
+    }
+
+    return NextResponse.json({ ok: false, error: "Unknown action" }, { status: 400 });
+  } catch (err) {
+    console.error("PATCH /api/gift-cards/[id] error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to update gift card" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { findUsableGiftCard, toPublicGiftCard } from '@/lib/giftCardService';
+
+/**
+ * Public balance check for a gift card code (checkout field and "check my balance").
+ * How much of the order it pays is worked out in /api/create-payment-intent.
+ *
+ * Body: { code: string }
+ */
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+
+    await dbConnect();
+
+    try {
+      const card = await findUsableGiftCard(body.code);
+      return NextResponse.json({ ok: true, data: toPublicGiftCard(card) });
+    } catch (err) {
+      return NextResponse.json(
+        { ok: false, error: err instanceof Error ? err.message : 'This gift card code is not valid' },
+        { status: 422 }
+      );
+    }
+  } catch (error) {
+    console.error('Gift card check error:', error);
+    return NextResponse.json({ ok: false, error: 'Unable to check gift card' }, { status: 500 });
+  }
+}
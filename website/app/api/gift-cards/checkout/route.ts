@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import dbConnect from '@/lib/dbConnect';
+import Order from '@/models/Order';
+import { findUsableGiftCard } from '@/lib/giftCardService';
+import { getErrorMessage, handlePaymentIntentSucceeded } from '@/lib/orderFulfilment';
+
+// Same window save-shipping re-prices in: the PI hasn't been confirmed yet
+const OPEN_STATUSES = new Set(['requires_payment_method', 'requires_confirmation']);
+
+/**
+ * Completes an order paid entirely by gift card / store credit.
+ *
+ * Stripe can't take a zero-amount payment, so create-payment-intent left the full
+ * total on the PI and flagged it (giftCardCoversTotal). Here the PI is cancelled
+ * instead of confirmed and the order goes through the same fulfilment as the
+ * webhook, with the gift card paying for everything.
+ *
+ * Body: { paymentIntentId: string }
+ */
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    const paymentIntentId = typeof body.paymentIntentId === 'string' ? body.paymentIntentId : null;
+    if (!paymentIntentId) {
+      return NextResponse.json({ ok: false, error: 'Missing paymentIntentId' }, { status: 400 });
+    }
+
+    const stripeSecret = process.env.STRIPE_SECRET_KEY;
+    if (!stripeSecret) {
+      console.error('STRIPE_SECRET_KEY is not configured');
+      return NextResponse.json({ ok: false, error: 'Server not configured' }, { status: 500 });
+    }
+    const stripe = new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' });
+
+    await dbConnect();
+
+    let pi = await stripe.paymentIntents.retrieve(paymentIntentId).catch(() => null);
+    if (!pi) return NextResponse.json({ ok: false, error: 'Payment not found' }, { status: 404 });
+
+    const md = pi.metadata ?? {};
+    if (md.giftCardCoversTotal !== 'true' || !md.giftCardId) {
+      return NextResponse.json({ ok: false, error: 'This order still needs a card payment' }, { status: 409 });
+    }
+
+    // A retry after the PI was already cancelled by an earlier attempt
+    const resumed = pi.status === 'canceled' && md.giftCardCheckout === 'true';
+    if (!resumed) {
+      if (!OPEN_STATUSES.has(pi.status)) {
+        return NextResponse.json(
+          { ok: false, error: 'This payment can no longer be completed with a gift card' },
+          { status: 409 }
+        );
+      }
+
+      try {
+        const card = await findUsableGiftCard(md.giftCardCode);
+        const neededPence = Math.round((parseFloat(md.giftCardAmount ?? '') || 0) * 100);
+        if (card.balancePence < neededPence) throw new Error('Your gift card balance no longer covers this order');
+      } catch (err) {
+        return NextResponse.json({ ok: false, error: getErrorMessage(err) }, { status: 409 });
+      }
+
+      await stripe.paymentIntents.update(paymentIntentId, { metadata: { giftCardCheckout: 'true' } });
+      pi = await stripe.paymentIntents.cancel(paymentIntentId, { cancellation_reason: 'requested_by_customer' });
+      console.log(`Gift card checkout: cancelled PI ${paymentIntentId}, completing order from gift card`);
+    }
+
+    const result = await handlePaymentIntentSucceeded(pi, `giftcard_${pi.id}`, stripe, { giftCardOnly: true });
+
+    const order = await Order.findOne({ paymentIntentId }).select('status').lean().exec();
+    if (order?.status === 'paid') {
+      return NextResponse.json({ ok: true, data: { orderId: String(order._id) } }, { status: 200 });
+    }
+
+    const detail = (await result.json().catch(() => null)) as { error?: string } | null;
+    console.error('Gift card checkout failed:', paymentIntentId, detail?.error);
+    return NextResponse.json(
+      { ok: false, error: detail?.error || 'We could not complete your order. Your gift card has not been charged.' },
+      { status: 409 }
+    );
+  } catch (err) {
+    console.error('Gift card checkout error:', getErrorMessage(err));
+    return NextResponse.json({ ok: false, error: 'Unable to complete the order. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import GiftCard from "@/models/GiftCard";
+import dbConnect from "@/lib/dbConnect";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { parseGiftCardIssueInput, type GiftCardIssueInput } from "@/lib/giftCards";
+import { deliverGiftCard, issueGiftCard } from "@/lib/giftCardService";
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/* GET (authenticated only) — gift cards and store credit for the admin; ?q= searches code or email */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "promotions.manage" });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error("Auth check failed for GET /api/gift-cards", err);
+    return NextResponse.json({ ok: false, error: "Authentication failed" }, { status: 401 });
+  }
+
+  await dbConnect();
+
+  try {
+    const url = new URL(req.url);
+    const q = (url.searchParams.get("q") ?? "").trim();
+    const kind = url.searchParams.get("kind");
+
+    const filter: Record<string, unknown> = {};
+    if (kind === "gift_card" || kind === "store_credit") filter.kind = kind;
+    if (q) {
+      const pattern = new RegExp(escapeRegex(q), "i");
+      filter.$or = [{ code: pattern }, { recipientEmail: pattern }];
+    }
+
+    const cards = await GiftCard.find(filter).sort({ createdAt: -1 }).limit(200).lean();
+    return NextResponse.json({ ok: true, data: cards }, { status: 200 });
+  } catch (err) {
+    console.error("GET /api/gift-cards error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to fetch gift cards" }, { status: 500 });
+  }
+}
+
+/* POST (authenticated only) — issue a gift card or store credit by hand */
+export async function POST(req: NextRequest) {
+  let actor: string | null = null;
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "promotions.manage" });
+    if (auth instanceof NextResponse) return auth;
+    actor = auth.email ?? auth.sub ?? null;
+    session = auth;
+  } catch (err) {
+    console.error("Auth check failed for POST /api/gift-cards", err);
+    return NextResponse.json({ ok: false, error: "Authentication failed" }, { status: 401 });
+  }
+
+  await dbConnect();
+
+  let input: GiftCardIssueInput;
+  try {
+    input = parseGiftCardIssueInput(await req.json().catch(() => null));
+  } catch (err) {
+    return NextResponse.json({ ok: false, error: err instanceof Error ? err.message : "Invalid input" }, { status: 400 });
+  }
+
+  try {
+    const { card } = await issueGiftCard({
+      kind: input.kind,
+      amountPence: input.amountPence,
+      recipientEmail: input.recipientEmail,
+      recipientName: input.recipientName,
+      expiresAt: input.expiresAt,
+      issuedBy: actor,
+      note: input.note,
+    });
+    const delivered = input.sendEmail ? await deliverGiftCard(card) : false;
+    await recordAudit(req, session, {
+      action: "issue",
+      entityType: "gift_card",
+      entityId: String(card._id),
+      entityLabel: card.code,
+      after: card,
+      metadata: { delivered },
+    });
+
+    return NextResponse.json({ ok: true, data: { ...card.toObject(), delivered } }, { status: 201 });
+  } catch (err) {
+    console.error("POST /api/gift-cards error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to issue gift card" }, { status: 500 });
+  }
+}
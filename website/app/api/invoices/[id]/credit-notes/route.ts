@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import Invoice from '@/models/Invoice';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { creditableAmount, issueCreditNote, listCreditNotes, type CreditLineInput } from '@/lib/creditNotes';
+
+/**
+ * GET /api/invoices/[id]/credit-notes
+ * Credit notes issued against the invoice, oldest first, and what's left to credit.
+ */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/invoices/[id]/credit-notes', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ ok: false, error: 'Invalid invoice id' }, { status: 400 });
+  }
+  try {
+    await dbConnect();
+    const invoice = await Invoice.findById(id)
+      .select('total creditedAmount')
+      .lean<{ total?: number; creditedAmount?: number }>()
+      .exec();
+    if (!invoice) return NextResponse.json({ ok: false, error: 'Invoice not found' }, { status: 404 });
+
+    const creditNotes = await listCreditNotes(id);
+    return NextResponse.json({
+      ok: true,
+      data: { creditNotes, creditedAmount: invoice.creditedAmount ?? 0, creditable: creditableAmount(invoice) },
+    });
+  } catch (err) {
+    console.error('GET /api/invoices/[id]/credit-notes error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load credit notes' }, { status: 500 });
+  }
+}
+
+function parseLines(value: unknown): CreditLineInput[] | null {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value)) throw new Error('Invalid credit note lines');
+  return value.map((l) => {
+    const line = (l ?? {}) as Record<string, unknown>;
+    const lineIndex = Number(line.lineIndex);
+    const qty = Number(line.qty);
+    if (!Number.isInteger(lineIndex) || lineIndex < 0 || !Number.isInteger(qty) || qty <= 0) {
+      throw new Error('Invalid credit note lines');
+    }
+    return { lineIndex, qty };
+  });
+}
+
+/**
+ * POST /api/invoices/[id]/credit-notes
+ * Credits a manual invoice, by line ({ lines: [{ lineIndex, qty }] }) or as a lump
+ * sum ({ amount }), and emails the credit note to the client. Body also takes
+ * { reason, send? }. Shop invoices are credited by refunding the order instead.
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/invoices/[id]/credit-notes', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ ok: false, error: 'Invalid invoice id' }, { status: 400 });
+  }
+  try {
+    const body = await req.json().catch(() => ({}));
+    let lines: CreditLineInput[] | null;
+    try {
+      lines = parseLines(body.lines);
+    } catch (err) {
+      return NextResponse.json({ ok: false, error: (err as Error).message }, { status: 400 });
+    }
+    const amount = body.amount === undefined || body.amount === null || body.amount === '' ? null : Number(body.amount);
+    if (amount !== null && !Number.isFinite(amount)) {
+      return NextResponse.json({ ok: false, error: 'Invalid amount' }, { status: 400 });
+    }
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (!reason) return NextResponse.json({ ok: false, error: 'A reason is required' }, { status: 400 });
+
+    await dbConnect();
+    const before = await Invoice.findById(id).lean<{ source?: string; orderNumber?: string }>().exec();
+    if (!before) return NextResponse.json({ ok: false, error: 'Invoice not found' }, { status: 404 });
+    if (before.source !== 'manual') {
+      return NextResponse.json(
+        { ok: false, error: 'Shop invoices are credited by refunding the order' },
+        { status: 400 }
+      );
+    }
+
+    const result = await issueCreditNote({
+      invoiceId: id,
+      lines,
+      amount,
+      reason,
+      actor: session.username,
+      send: body.send !== false,
+    });
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+
+    const { creditNote } = result;
+    const after = await Invoice.findById(id).lean().exec();
+    await recordAudit(req, session, {
+      action: 'issue_credit_note',
+      entityType: 'invoice',
+      entityId: id,
+      entityLabel: String(before.orderNumber),
+      summary: `Issued ${creditNote.number} for ${creditNote.total.toFixed(2)} ${creditNote.currency.toUpperCase()}: ${reason}`,
+      before,
+      after,
+      metadata: { creditNoteId: String(creditNote._id), creditNoteNumber: creditNote.number },
+    });
+    return NextResponse.json({ ok: true, data: { creditNote, invoice: after } }, { status: 201 });
+  } catch (err) {
+    console.error('POST /api/invoices/[id]/credit-notes error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to issue credit note' }, { status: 500 });
+  }
+}
@@ -1,48 +1,19 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/dbConnect";
 import Invoice from "@/models/Invoice";
-import { generateInvoicePDF, InvoiceData, CompanyInfo } from "@/lib/manualInvoiceService";
-
-interface InvoiceDoc {
-  _id?: string;
-  orderNumber: string;
-  items: {
-    name: string;
-    qty: number;
-    unitPrice: number;
-    totalPrice: number;
-  }[];
-  subtotal: number;
-  shipping: number;
-  total: number;
-  client: {
-    name: string;
-    email?: string;
-    phone?: string;
-  };
-  shippingAddress?: {
-    line1?: string;
-    unit?: string;
-    city?: string;
-    postcode?: string;
-    country?: string;
-  };
-  billingAddress?: {
-    line1?: string;
-    unit?: string;
-    city?: string;
-    postcode?: string;
-    country?: string;
-  };
-  paidAt?: Date;
-  dueDate?: Date;
-  createdAt?: Date;
-  paymentIntentId?: string;
-  currency?: string;
-  notes?: string;
-}
+import { generateInvoicePDF, invoiceDataFromDoc, StoredInvoice } from "@/lib/manualInvoiceService";
+import { shopCompanyInfo } from "@/lib/invoiceService";
+import { verifyAuthForApi } from "@/lib/auth";
 
 export async function GET(req: Request) {
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: "invoices.manage" });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error("Auth check failed for GET /api/invoices/[id]/download", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
   try {
     // Parse the id from the request URL path: /api/invoices/{id}/download
     const url = new URL(req.url);
@@ -56,53 +27,12 @@ export async function GET(req: Request) {
 
     await dbConnect();
 
-    const invoiceDoc: InvoiceDoc = await Invoice.findById(id).lean();
+    const invoiceDoc = await Invoice.findById(id).lean<StoredInvoice>();
     if (!invoiceDoc) {
       return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
     }
 
-    // Build InvoiceData expected by generateInvoicePDF
-    const invoiceForPdf: InvoiceData = {
-      orderId: invoiceDoc._id?.toString(),
-      orderNumber: invoiceDoc.orderNumber,
-      items: (invoiceDoc.items || []).map((it) => ({
-        name: it.name,
-        qty: it.qty,
-        unitPrice: it.unitPrice,
-        totalPrice: it.totalPrice,
-      })),
-      subtotal: invoiceDoc.subtotal,
-      shipping: invoiceDoc.shipping,
-      total: invoiceDoc.total,
-      client: {
-        name: invoiceDoc.client?.name ?? "",
-        email: invoiceDoc.client?.email ?? "",
-        phone: invoiceDoc.client?.phone ?? undefined,
-      },
-      shippingAddress: invoiceDoc.shippingAddress ?? undefined,
-      billingAddress: invoiceDoc.billingAddress ?? undefined,
-      paidAt: invoiceDoc.paidAt ?? undefined,
-      dueDate: invoiceDoc.dueDate ?? undefined,
-      createdAt: invoiceDoc.createdAt ?? undefined,
-      paymentIntentId: invoiceDoc.paymentIntentId ?? null,
-      currency: invoiceDoc.currency ?? "gbp",
-      notes: invoiceDoc.notes ?? undefined,
-    };
-
-    const company: CompanyInfo = {
-      name: process.env.COMPANY_NAME || "Your Company",
-      address: process.env.COMPANY_ADDRESS || "",
-      city: process.env.COMPANY_CITY || "",
-      postcode: process.env.COMPANY_POSTCODE || "",
-      country: process.env.COMPANY_COUNTRY || "United Kingdom",
-      email: process.env.COMPANY_EMAIL || "",
-      phone: process.env.COMPANY_PHONE,
-      vatNumber: process.env.COMPANY_VAT_NUMBER,
-      website: process.env.COMPANY_WEBSITE,
-      logoPath: process.env.COMPANY_LOGO_PATH,
-    };
-
-    const pdfBuffer = await generateInvoicePDF(invoiceForPdf, company);
+    const pdfBuffer = await generateInvoicePDF(invoiceDataFromDoc(invoiceDoc), shopCompanyInfo());
 
     const uint8 = new Uint8Array(pdfBuffer);
     return new Response(uint8, {
@@ -1,7 +1,10 @@
 'use server';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import Invoice from '@/models/Invoice';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { markInvoicePaid } from '@/lib/invoicePayments';
 
 /**
  * Next.js route handler for PATCH /api/invoices/[id]/mark-paid
@@ -14,6 +17,16 @@ export async function PATCH(
   req: Request,
   context: { params: { id: string } | Promise<{ id: string }> }
 ) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for PATCH /api/invoices/[id]/mark-paid', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     // Ensure DB connection
     await dbConnect();
@@ -36,9 +49,21 @@ export async function PATCH(
       );
     }
 
-    invoice.paymentStatus = 'paid';
-    invoice.paidAt = new Date();
-    await invoice.save();
+    const before = invoice.toObject();
+    // Records the outstanding balance as a payment so the ledger adds up
+    const result = await markInvoicePaid(id, session.username);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const updated = result.invoice;
+    await recordAudit(req, session, {
+      action: 'mark_paid',
+      entityType: 'invoice',
+      entityId: id,
+      entityLabel: invoice.orderNumber,
+      before,
+      after: updated,
+    });
 
     console.log(`✅ Invoice ${id} marked as paid`);
 
@@ -46,9 +71,9 @@ export async function PATCH(
       {
         success: true,
         invoice: {
-          id: invoice._id.toString(),
-          paymentStatus: invoice.paymentStatus,
-          paidAt: invoice.paidAt,
+          id: updated._id.toString(),
+          paymentStatus: updated.paymentStatus,
+          paidAt: updated.paidAt,
         },
       },
       { status: 200 }
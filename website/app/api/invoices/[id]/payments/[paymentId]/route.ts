@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import Invoice from '@/models/Invoice';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { voidInvoicePayment } from '@/lib/invoicePayments';
+
+/**
+ * DELETE /api/invoices/[id]/payments/[paymentId]
+ * Voids a ledger entry (it stays on the ledger, struck out) and recalculates the
+ * invoice balance. Body: { reason }
+ */
+export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string; paymentId: string }> }) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for DELETE /api/invoices/[id]/payments/[paymentId]', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id, paymentId } = await context.params;
+  try {
+    const body = await req.json().catch(() => ({}));
+    await dbConnect();
+    const before = await Invoice.findById(id).lean().exec();
+    const result = await voidInvoicePayment({
+      invoiceId: id,
+      paymentId,
+      reason: typeof body.reason === 'string' ? body.reason : '',
+      actor: session.username,
+    });
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+
+    const { invoice, payment } = result;
+    await recordAudit(req, session, {
+      action: 'void_payment',
+      entityType: 'invoice',
+      entityId: id,
+      entityLabel: String(invoice.orderNumber),
+      summary: `Voided ${payment.amount.toFixed(2)} ${payment.currency.toUpperCase()} payment: ${payment.voidReason}`,
+      before,
+      after: invoice,
+      metadata: { paymentId },
+    });
+    return NextResponse.json({ ok: true, data: { payment, invoice } });
+  } catch (err) {
+    console.error('DELETE /api/invoices/[id]/payments/[paymentId] error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to void payment' }, { status: 500 });
+  }
+}
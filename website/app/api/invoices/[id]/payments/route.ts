@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import Invoice from '@/models/Invoice';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  invoiceOutstanding,
+  isInvoicePaymentMethod,
+  listInvoicePayments,
+  recordInvoicePayment,
+} from '@/lib/invoicePayments';
+
+/**
+ * GET /api/invoices/[id]/payments
+ * The invoice's payment ledger (voided entries included) and the reminders sent for it.
+ */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/invoices/[id]/payments', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ ok: false, error: 'Invalid invoice id' }, { status: 400 });
+  }
+  try {
+    await dbConnect();
+    const invoice = await Invoice.findById(id)
+      .select('total amountPaid paymentStatus currency reminders remindersPaused')
+      .lean<{
+        total?: number;
+        amountPaid?: number;
+        paymentStatus?: string;
+        currency?: string;
+        reminders?: unknown[];
+        remindersPaused?: boolean;
+      }>()
+      .exec();
+    if (!invoice) return NextResponse.json({ ok: false, error: 'Invoice not found' }, { status: 404 });
+
+    const payments = await listInvoicePayments(id);
+    return NextResponse.json({
+      ok: true,
+      data: {
+        payments,
+        amountPaid: invoice.amountPaid ?? 0,
+        balance: invoiceOutstanding(invoice),
+        reminders: invoice.reminders ?? [],
+        remindersPaused: !!invoice.remindersPaused,
+      },
+    });
+  } catch (err) {
+    console.error('GET /api/invoices/[id]/payments error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load payments' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/invoices/[id]/payments
+ * Records a (possibly partial) payment. Body: { amount, method, paidAt?, reference?, note? }
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/invoices/[id]/payments', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  try {
+    const body = await req.json().catch(() => ({}));
+    const amount = Number(body.amount);
+    if (!Number.isFinite(amount)) {
+      return NextResponse.json({ ok: false, error: 'Amount is required' }, { status: 400 });
+    }
+    if (!isInvoicePaymentMethod(body.method)) {
+      return NextResponse.json({ ok: false, error: 'Unknown payment method' }, { status: 400 });
+    }
+
+    await dbConnect();
+    const before = await Invoice.findById(id).lean().exec();
+    const result = await recordInvoicePayment({
+      invoiceId: id,
+      amount,
+      method: body.method,
+      reference: typeof body.reference === 'string' ? body.reference : null,
+      note: typeof body.note === 'string' ? body.note : null,
+      paidAt: body.paidAt ? new Date(body.paidAt) : null,
+      actor: session.username,
+    });
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+
+    const { invoice, payment } = result;
+    await recordAudit(req, session, {
+      action: 'record_payment',
+      entityType: 'invoice',
+      entityId: id,
+      entityLabel: String(invoice.orderNumber),
+      summary: `Recorded ${payment.amount.toFixed(2)} ${payment.currency.toUpperCase()} (${payment.method})`,
+      before,
+      after: invoice,
+      metadata: { paymentId: String(payment._id), reference: payment.reference ?? null },
+    });
+    return NextResponse.json({ ok: true, data: { payment, invoice } }, { status: 201 });
+  } catch (err) {
+    console.error('POST /api/invoices/[id]/payments error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to record payment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import Invoice from '@/models/Invoice';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { sendInvoiceReminder } from '@/lib/invoiceReminders';
+
+async function authorize(req: NextRequest, label: string): Promise<AdminSession | NextResponse> {
+  try {
+    return await verifyAuthForApi(req, { permission: 'invoices.manage' });
+  } catch (err) {
+    console.error(`Auth check failed for ${label} /api/invoices/[id]/remind`, err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+}
+
+/**
+ * POST /api/invoices/[id]/remind
+ * Sends a payment reminder now, outside the schedule. It doesn't count as any
+ * scheduled step, so the automatic reminders still go out as planned.
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, 'POST');
+  if (auth instanceof NextResponse) return auth;
+  const session = auth;
+
+  const { id } = await context.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ ok: false, error: 'Invalid invoice id' }, { status: 400 });
+  }
+  try {
+    await dbConnect();
+    const invoice = await Invoice.findById(id).lean().exec();
+    if (!invoice) return NextResponse.json({ ok: false, error: 'Invoice not found' }, { status: 404 });
+
+    const result = await sendInvoiceReminder(invoice, { offsetDays: null, actor: session.username });
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+
+    await recordAudit(req, session, {
+      action: 'send_reminder',
+      entityType: 'invoice',
+      entityId: id,
+      entityLabel: invoice.orderNumber,
+      summary: `Sent a payment reminder to ${invoice.client?.email}`,
+      metadata: { messageId: result.messageId },
+    });
+    return NextResponse.json({ ok: true, data: { messageId: result.messageId } });
+  } catch (err) {
+    console.error('POST /api/invoices/[id]/remind error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to send reminder' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/invoices/[id]/remind
+ * Pauses or resumes scheduled reminders for one invoice. Body: { paused: boolean }
+ */
+export async function PATCH(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req, 'PATCH');
+  if (auth instanceof NextResponse) return auth;
+  const session = auth;
+
+  const { id } = await context.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ ok: false, error: 'Invalid invoice id' }, { status: 400 });
+  }
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (typeof body.paused !== 'boolean') {
+      return NextResponse.json({ ok: false, error: 'paused must be true or false' }, { status: 400 });
+    }
+
+    await dbConnect();
+    const before = await Invoice.findById(id).lean().exec();
+    if (!before) return NextResponse.json({ ok: false, error: 'Invoice not found' }, { status: 404 });
+    const invoice = await Invoice.findByIdAndUpdate(id, { $set: { remindersPaused: body.paused } }, { new: true })
+      .lean()
+      .exec();
+
+    await recordAudit(req, session, {
+      action: body.paused ? 'pause_reminders' : 'resume_reminders',
+      entityType: 'invoice',
+      entityId: id,
+      entityLabel: before.orderNumber,
+      before,
+      after: invoice,
+    });
+    return NextResponse.json({ ok: true, data: { remindersPaused: body.paused } });
+  } catch (err) {
+    console.error('PATCH /api/invoices/[id]/remind error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to update reminders' }, { status: 500 });
+  }
+}
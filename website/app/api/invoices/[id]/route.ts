@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/dbConnect";
 import Invoice from "@/models/Invoice";
+import CreditNote from "@/models/CreditNote";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { markInvoicePaid } from "@/lib/invoicePayments";
 
 /**
  * PATCH /api/invoices/: id
@@ -10,8 +14,17 @@ export async function PATCH(
   req: NextRequest,
   { params }:  { params: Promise<{ id: string }> }
 ) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "invoices.manage" });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error("Auth check failed for PATCH /api/invoices/[id]", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
   try {
-    // TODO: Add authentication check here
     // const admin = await verifyAdminAuth(req);
     // if (!admin) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
@@ -56,23 +69,41 @@ export async function PATCH(
       );
     }
 
-    // Update invoice status
-    invoice.paymentStatus = "paid";
-    invoice.paidAt = new Date();
-    await invoice.save();
+    // Update invoice status; manual invoices settle the balance through the payment ledger
+    const before = invoice.toObject();
+    let updated = invoice;
+    if (invoice.source === "manual") {
+      const result = await markInvoicePaid(id, session.username);
+      if (!result.ok) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      updated = result.invoice;
+    } else {
+      invoice.paymentStatus = "paid";
+      invoice.paidAt = new Date();
+      await invoice.save();
+    }
+    await recordAudit(req, session, {
+      action: "mark_paid",
+      entityType: "invoice",
+      entityId: updated._id.toString(),
+      entityLabel: updated.orderNumber,
+      before,
+      after: updated,
+    });
 
-    console.log(`✅ Invoice marked as paid: ${invoice._id.toString()}`);
+    console.log(`✅ Invoice marked as paid: ${updated._id.toString()}`);
 
     return NextResponse.json(
       {
         success: true,
         message:  "Invoice marked as paid successfully",
         invoice: {
-          id:  invoice._id.toString(),
-          orderNumber: invoice.orderNumber,
-          paymentStatus: invoice. paymentStatus,
-          paidAt: invoice.paidAt,
-          total: invoice.total,
+          id:  updated._id.toString(),
+          orderNumber: updated.orderNumber,
+          paymentStatus: updated.paymentStatus,
+          paidAt: updated.paidAt,
+          total: updated.total,
         },
       },
       { status:  200 }
@@ -97,8 +128,17 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "invoices.manage" });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error("Auth check failed for DELETE /api/invoices/[id]", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
   try {
-    // TODO: Add authentication check here
     // const admin = await verifyAdminAuth(req);
     // if (!admin) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
@@ -132,6 +172,14 @@ export async function DELETE(
       );
     }
 
+    // Credit notes are permanent and point at the invoice they credit
+    if (await CreditNote.exists({ invoiceId: invoice._id })) {
+      return NextResponse.json(
+        { error: "This invoice has credit notes against it and can't be deleted" },
+        { status: 409 }
+      );
+    }
+
     // Optional:  Prevent deletion of paid invoices (business logic)
     // Uncomment if you want to restrict deletion of paid invoices
     /*
@@ -161,6 +209,13 @@ export async function DELETE(
 
     // Delete the invoice
     await Invoice.findByIdAndDelete(id);
+    await recordAudit(req, session, {
+      action: "delete",
+      entityType: "invoice",
+      entityId: id,
+      entityLabel: invoice.orderNumber,
+      before: invoice,
+    });
 
     console.log(`🗑️ Invoice deleted: ${deletedInvoiceInfo.orderNumber} (${id})`);
 
@@ -192,6 +247,14 @@ export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "invoices.manage" });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error("Auth check failed for GET /api/invoices/[id]", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
   try {
     const { id } = await params;
 
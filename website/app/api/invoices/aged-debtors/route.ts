@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import { buildAgedDebtors } from '@/lib/invoiceStatements';
+
+/**
+ * GET /api/invoices/aged-debtors
+ * Outstanding balances on manual invoices per client and currency, split by how
+ * long they've been overdue, with per-currency totals.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/invoices/aged-debtors', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    await dbConnect();
+    return NextResponse.json({ ok: true, data: await buildAgedDebtors() });
+  } catch (err) {
+    console.error('GET /api/invoices/aged-debtors error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to build aged debtors' }, { status: 500 });
+  }
+}
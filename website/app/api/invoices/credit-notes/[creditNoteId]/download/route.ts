@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import CreditNote from '@/models/CreditNote';
+import { verifyAuthForApi } from '@/lib/auth';
+import { creditNotePdf } from '@/lib/creditNotes';
+
+/**
+ * GET /api/invoices/credit-notes/[creditNoteId]/download
+ * The credit note as a PDF.
+ */
+export async function GET(req: NextRequest, context: { params: Promise<{ creditNoteId: string }> }) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/invoices/credit-notes/[creditNoteId]/download', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const { creditNoteId } = await context.params;
+  if (!mongoose.Types.ObjectId.isValid(creditNoteId)) {
+    return NextResponse.json({ error: 'Invalid credit note id' }, { status: 400 });
+  }
+
+  try {
+    await dbConnect();
+    const note = await CreditNote.findById(creditNoteId).lean().exec();
+    if (!note) return NextResponse.json({ error: 'Credit note not found' }, { status: 404 });
+
+    const pdf = new Uint8Array(await creditNotePdf(note));
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename=credit-note-${note.number}.pdf`,
+        'Content-Length': String(pdf.length),
+      },
+    });
+  } catch (err) {
+    console.error('GET /api/invoices/credit-notes/[creditNoteId]/download error:', err);
+    return NextResponse.json({ error: 'Failed to generate credit note' }, { status: 500 });
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import Invoice from '@/models/Invoice';
+import CreditNote from '@/models/CreditNote';
+import { verifyAuthForApi } from '@/lib/auth';
+import { invoiceOutstanding } from '@/lib/invoicePayments';
+
+interface InvoiceExport {
+  _id: unknown;
+  orderNumber: string;
+  createdAt?: Date;
+  dueDate?: Date | null;
+  source?: string;
+  paymentStatus?: string;
+  currency?: string;
+  total?: number;
+  vat?: number;
+  amountPaid?: number;
+  creditedAmount?: number;
+  client?: { name?: string; email?: string } | null;
+}
+
+/**
+ * GET /api/invoices/export?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Exports invoices and credit notes as one CSV, oldest first. Credit notes show
+ * as negative amounts against the invoice they credit; each invoice row carries
+ * its credited amount, net total and outstanding balance. Dates are optional.
+ */
+
+function escapeCsv(value: unknown) {
+  if (value === undefined || value === null) return '';
+  const s = value instanceof Date ? value.toISOString() : String(value);
+  if (/[",\n\r]/.test(s)) {
+    return `"${s.replace(/"/g, '""')}"`;
+  }
+  return s;
+}
+
+function parseDay(value: string | null, endOfDay = false): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const d = new Date(`${value}T00:00:00.000Z`);
+  if (Number.isNaN(d.getTime())) return null;
+  if (endOfDay) d.setUTCDate(d.getUTCDate() + 1);
+  return d;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/invoices/export', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const from = parseDay(req.nextUrl.searchParams.get('from'));
+  const to = parseDay(req.nextUrl.searchParams.get('to'), true);
+  const createdAt: Record<string, Date> = {};
+  if (from) createdAt.$gte = from;
+  if (to) createdAt.$lt = to;
+  const filter = Object.keys(createdAt).length ? { createdAt } : {};
+
+  try {
+    await dbConnect();
+    const [invoices, creditNotes] = await Promise.all([
+      Invoice.find(filter)
+        .select('orderNumber createdAt dueDate source paymentStatus currency total vat amountPaid creditedAmount client')
+        .lean<InvoiceExport[]>()
+        .exec(),
+      CreditNote.find(filter).lean().exec(),
+    ]);
+
+    const headers = [
+      'type',
+      'number',
+      'date',
+      'invoiceNumber',
+      'client',
+      'email',
+      'source',
+      'status',
+      'currency',
+      'total',
+      'vat',
+      'credited',
+      'netTotal',
+      'paid',
+      'balance',
+      'dueDate',
+      'reason',
+    ];
+
+    const rows: { date: Date; cells: unknown[] }[] = [
+      ...invoices.map((inv) => {
+        const total = inv.total ?? 0;
+        const credited = inv.creditedAmount ?? 0;
+        const paid = inv.paymentStatus === 'paid' && !inv.amountPaid ? round2(total - credited) : inv.amountPaid ?? 0;
+        return {
+          date: inv.createdAt ?? new Date(0),
+          cells: [
+            'invoice',
+            inv.orderNumber,
+            inv.createdAt,
+            inv.orderNumber,
+            inv.client?.name ?? '',
+            inv.client?.email ?? '',
+            inv.source ?? 'stripe',
+            inv.paymentStatus ?? '',
+            (inv.currency || 'gbp').toUpperCase(),
+            total.toFixed(2),
+            (inv.vat ?? 0).toFixed(2),
+            credited.toFixed(2),
+            Math.max(0, round2(total - credited)).toFixed(2),
+            paid.toFixed(2),
+            invoiceOutstanding(inv).toFixed(2),
+            inv.dueDate ?? '',
+            '',
+          ],
+        };
+      }),
+      ...creditNotes.map((note) => ({
+        date: note.createdAt ?? new Date(0),
+        cells: [
+          'credit_note',
+          note.number,
+          note.createdAt,
+          note.invoiceNumber,
+          note.client?.name ?? '',
+          note.client?.email ?? '',
+          note.source === 'refund' ? `refund (${note.refundMethod ?? 'card'})` : 'manual',
+          '',
+          (note.currency || 'gbp').toUpperCase(),
+          (-note.total).toFixed(2),
+          (-note.vat).toFixed(2),
+          '',
+          '',
+          '',
+          '',
+          '',
+          note.reason ?? '',
+        ],
+      })),
+    ];
+    rows.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const csv = [headers.join(','), ...rows.map((r) => r.cells.map(escapeCsv).join(','))].join('\r\n');
+    const filename = `invoices-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new Response(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err: unknown) {
+    console.error('Failed to export invoices', err);
+    return NextResponse.json({ error: 'Failed to export invoices' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import Settings from '@/models/Settings';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getInvoiceReminderSettings, parseReminderOffsets } from '@/lib/invoiceReminders';
+
+/**
+ * GET /api/invoices/reminder-settings
+ * PATCH /api/invoices/reminder-settings  { enabled?: boolean, offsets?: number[] }
+ *
+ * The reminder schedule for manual invoices, in days relative to the due date:
+ * negative before it, 0 on the day. Lives on the Settings singleton but is managed
+ * from the invoices page, so it needs invoices.manage rather than settings.manage.
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/invoices/reminder-settings', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    await dbConnect();
+    return NextResponse.json({ ok: true, data: await getInvoiceReminderSettings() });
+  } catch (err) {
+    console.error('GET /api/invoices/reminder-settings error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to load reminder settings' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for PATCH /api/invoices/reminder-settings', err);
+    return NextResponse.json({ ok: false, error: 'Authentication failed' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const updates: Record<string, unknown> = {};
+    if (typeof body.enabled === 'boolean') updates.invoiceRemindersEnabled = body.enabled;
+    if (body.offsets !== undefined) {
+      try {
+        updates.invoiceReminderOffsets = parseReminderOffsets(body.offsets);
+      } catch (parseErr) {
+        return NextResponse.json(
+          { ok: false, error: parseErr instanceof Error ? parseErr.message : 'Invalid reminder schedule' },
+          { status: 400 }
+        );
+      }
+    }
+
+    await dbConnect();
+    const before = await Settings.findOne({}).lean().exec();
+    const updated = await Settings.findOneAndUpdate({}, { $set: updates }, { new: true, upsert: true }).lean().exec();
+    await recordAudit(req, session, {
+      action: 'update',
+      entityType: 'settings',
+      entityId: updated ? String(updated._id) : null,
+      entityLabel: 'Invoice reminders',
+      before: before && { invoiceRemindersEnabled: before.invoiceRemindersEnabled, invoiceReminderOffsets: before.invoiceReminderOffsets },
+      after: updated && { invoiceRemindersEnabled: updated.invoiceRemindersEnabled, invoiceReminderOffsets: updated.invoiceReminderOffsets },
+    });
+    return NextResponse.json({ ok: true, data: await getInvoiceReminderSettings() });
+  } catch (err) {
+    console.error('PATCH /api/invoices/reminder-settings error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to update reminder settings' }, { status: 500 });
+  }
+}
@@ -1,8 +1,12 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import Invoice from '@/models/Invoice';
 import { processInvoice } from '@/lib/manualInvoiceService';
-import { generateInvoicePDF, sendInvoiceEmail, InvoiceData, CompanyInfo } from '@/lib/manualInvoiceService';
+import { generateInvoicePDF, sendInvoiceEmail, InvoiceData } from '@/lib/manualInvoiceService';
+import { shopCompanyInfo } from '@/lib/invoiceService';
+import { calculateVat, isTaxCategory, VAT_RATES, type TaxCategory } from '@/lib/vat';
+import { AdminSession, verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // 🔐 تأكد من إضافة authentication middleware هنا
 // import { verifyAdminAuth } from '@/lib/auth';
@@ -12,12 +16,14 @@ interface InvoiceItem {
   qty: number;
   unitPrice: number;
   totalPrice: number;
+  vatRate?: number;
 }
 
 interface InvoiceItemInput {
   name: string;
   qty: number;
-  unitPrice: number;
+  unitPrice: number; // includes VAT
+  taxCategory?: TaxCategory;
 }
 
 interface ClientInput {
@@ -60,6 +66,16 @@ function generateInvoiceNumber(): string {
 }
 
 export async function POST(req: Request) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error('Auth check failed for POST /api/invoices', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     // const admin = await verifyAdminAuth(req);
     // if (!admin) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -103,6 +119,13 @@ export async function POST(req: Request) {
 
     const total = subtotal + shipping;
 
+    // Manual invoice lines are standard-rated unless the admin picked another rate
+    const taxCategories = items.map((item) => (isTaxCategory(item.taxCategory) ? item.taxCategory : 'standard'));
+    const vat = calculateVat(
+      items.map((item, i) => ({ totalPrice: item.qty * item.unitPrice, taxCategory: taxCategories[i] })),
+      { shipping }
+    );
+
     // ✅ توليد رقم فاتورة (improved format)
     const invoiceNumber = generateInvoiceNumber();
 
@@ -114,15 +137,20 @@ export async function POST(req: Request) {
       source: 'manual',
       orderId: undefined,
       orderNumber: invoiceNumber,
-      items: items.map((item: InvoiceItemInput) => ({
+      items: items.map((item: InvoiceItemInput, i) => ({
         name: item.name,
         qty: item.qty,
         unitPrice: item.unitPrice,
         totalPrice: Number((item.qty * item.unitPrice).toFixed(2)),
+        taxCategory: taxCategories[i],
+        vatRate: VAT_RATES[taxCategories[i]],
+        vat: vat.lineVat[i],
       })),
       subtotal: Number(subtotal.toFixed(2)),
       shipping: Number(shipping.toFixed(2)),
       total: Number(total.toFixed(2)),
+      vat: vat.totalVat,
+      vatBreakdown: vat.breakdown,
       currency: (body.currency || 'gbp').toLowerCase(),
       client: {
         name: client.name,
@@ -149,6 +177,14 @@ export async function POST(req: Request) {
     });
 
     console.log(`✅ Manual invoice created: ${invoice._id.toString()}`);
+    await recordAudit(req, session, {
+      action: 'create',
+      entityType: 'invoice',
+      entityId: invoice._id.toString(),
+      entityLabel: invoiceNumber,
+      after: invoice,
+      metadata: { sendEmail },
+    });
 
     // Build invoice data object for PDF/email
     const invoiceData: InvoiceData = {
@@ -159,10 +195,13 @@ export async function POST(req: Request) {
         qty: it.qty,
         unitPrice: it.unitPrice,
         totalPrice: it.totalPrice,
+        vatRate: it.vatRate,
       })),
       subtotal: invoice.subtotal,
       shipping: invoice.shipping,
       total: invoice.total,
+      vat: invoice.vat,
+      vatBreakdown: invoice.vatBreakdown,
       client: {
         name: invoice.client?.name ?? '',
         email: invoice.client?.email ?? '',
@@ -178,41 +217,26 @@ export async function POST(req: Request) {
       notes: invoice.notes ?? undefined,
     };
 
-    const companyInfo: CompanyInfo = {
-      name: process.env.COMPANY_NAME || 'Your Company',
-      address: process.env.COMPANY_ADDRESS || '',
-      city: process.env.COMPANY_CITY || '',
-      postcode: process.env.COMPANY_POSTCODE || '',
-      country: process.env.COMPANY_COUNTRY || 'United Kingdom',
-      email: process.env.COMPANY_EMAIL || '',
-      phone: process.env.COMPANY_PHONE,
-      vatNumber: process.env.COMPANY_VAT_NUMBER,
-      website: process.env.COMPANY_WEBSITE,
-      logoPath: process.env.COMPANY_LOGO_PATH,
-    };
+    const companyInfo = shopCompanyInfo();
 
     // If client asked for the PDF download, generate PDF now and return binary response.
     if (wantPdf) {
       try {
         const pdfBuffer = await generateInvoicePDF(invoiceData, companyInfo);
 
-        // If sendEmail also requested, send using the already-generated PDF (background)
+        // If sendEmail also requested, queue it with the already-generated PDF;
+        // the outbox marks the invoice sent once it's delivered
         if (sendEmail) {
-          sendInvoiceEmail(invoiceData, Buffer.from(pdfBuffer))
-            .then(async () => {
-              await Invoice.findByIdAndUpdate(invoice._id, {
-                sent: true,
-                sentAt: new Date(),
-              });
-              console.log(`✉️ Manual invoice sent (background): ${invoice._id.toString()}`);
-            })
-            .catch(async (err: unknown) => {
-              console.error('⚠️ Failed to send manual invoice (background):', err);
-              await Invoice.findByIdAndUpdate(invoice._id, {
-                sent: false,
-                sendError: err instanceof Error ? err.message : String(err),
-              });
+          try {
+            await sendInvoiceEmail(invoiceData, Buffer.from(pdfBuffer), { invoiceId: invoice._id.toString() });
+            console.log(`✉️ Manual invoice queued: ${invoice._id.toString()}`);
+          } catch (err: unknown) {
+            console.error('⚠️ Failed to queue manual invoice:', err);
+            await Invoice.findByIdAndUpdate(invoice._id, {
+              sent: false,
+              sendError: err instanceof Error ? err.message : String(err),
             });
+          }
         }
 
         const uint8 = new Uint8Array(pdfBuffer);
@@ -233,23 +257,17 @@ export async function POST(req: Request) {
       }
     }
 
-    // If not requesting PDF, keep existing behavior:
     if (sendEmail) {
-      processInvoice(invoiceData, companyInfo)
-        .then(async () => {
-          await Invoice.findByIdAndUpdate(invoice._id, {
-            sent: true,
-            sentAt: new Date(),
-          });
-          console.log(`✉️ Manual invoice sent: ${invoice._id.toString()}`);
-        })
-        .catch(async (err: unknown) => {
-          console.error('⚠️ Failed to send manual invoice:', err);
-          await Invoice.findByIdAndUpdate(invoice._id, {
-            sent: false,
-            sendError: err instanceof Error ? err.message : String(err),
-          });
+      try {
+        await processInvoice(invoiceData, companyInfo, { invoiceId: invoice._id.toString() });
+        console.log(`✉️ Manual invoice queued: ${invoice._id.toString()}`);
+      } catch (err: unknown) {
+        console.error('⚠️ Failed to queue manual invoice:', err);
+        await Invoice.findByIdAndUpdate(invoice._id, {
+          sent: false,
+          sendError: err instanceof Error ? err.message : String(err),
         });
+      }
     }
 
     return NextResponse.json(
@@ -274,6 +292,14 @@ export async function POST(req: Request) {
 
 // GET endpoint لجلب الفواتير
 export async function GET(req: Request) {
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/invoices', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     await dbConnect();
 
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyAuthForApi } from '@/lib/auth';
+import { buildClientStatement } from '@/lib/invoiceStatements';
+import { generateStatementPDF } from '@/lib/manualInvoiceService';
+import { shopCompanyInfo } from '@/lib/invoiceService';
+
+/**
+ * GET /api/invoices/statement?client=<clientKey>&currency=GBP
+ * Account statement PDF for one client: their open invoices and what's owed,
+ * aged by due date. `client` is the clientKey from /api/invoices/aged-debtors.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: 'invoices.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/invoices/statement', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
+  const clientKey = req.nextUrl.searchParams.get('client')?.trim();
+  const currency = req.nextUrl.searchParams.get('currency')?.trim() || 'GBP';
+  if (!clientKey) return NextResponse.json({ error: 'client is required' }, { status: 400 });
+
+  try {
+    await dbConnect();
+    const statement = await buildClientStatement(clientKey, currency);
+    if (!statement) {
+      return NextResponse.json({ error: 'This client has no open invoices' }, { status: 404 });
+    }
+
+    const pdf = new Uint8Array(await generateStatementPDF(statement, shopCompanyInfo()));
+    const slug = statement.client.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'client';
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename=statement-${slug}-${statement.date.toISOString().slice(0, 10)}.pdf`,
+        'Content-Length': String(pdf.length),
+      },
+    });
+  } catch (err) {
+    console.error('GET /api/invoices/statement error:', err);
+    return NextResponse.json({ error: 'Failed to generate statement' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyCronRequest } from '@/lib/cronAuth';
+import { runDueJobs } from '@/lib/jobs';
+
+// Room for the runner's RUN_BUDGET_MS plus recording the runs
+export const maxDuration = 60;
+
+// Vercel cron: runs whichever scheduled housekeeping jobs are due (see lib/jobs.ts).
+export async function GET(request: Request) {
+  const rejected = verifyCronRequest(request);
+  if (rejected) return rejected;
+
+  await dbConnect();
+
+  try {
+    const summary = await runDueJobs();
+    if (summary.ran.length > 0 || summary.busy.length > 0 || summary.deferred.length > 0) console.log('Scheduled jobs run:', summary);
+    return NextResponse.json({ success: true, ...summary }, { status: 200 });
+  } catch (err) {
+    console.error('Scheduled jobs run failed:', err);
+    return NextResponse.json(
+      { error: 'Failed to run scheduled jobs', details: err instanceof Error ? err.message : String(err) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { adminCookieOptions, ADMIN_COOKIE, requestMeta } from '@/lib/adminSessions';
+import { checkSecondFactor, completeLogin } from '@/lib/adminLogin';
+
+/**
+ * POST /api/login/2fa  { challenge, code } or { challenge, recoveryCode }
+ * Finishes a two-factor sign-in started at /api/login.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => null)) as
+      | { challenge?: unknown; code?: unknown; recoveryCode?: unknown }
+      | null;
+    const meta = requestMeta(request);
+
+    await dbConnect();
+    const result = await checkSecondFactor(body?.challenge, { code: body?.code, recoveryCode: body?.recoveryCode }, meta);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const token = await completeLogin(result.user, meta);
+    const res = NextResponse.json({
+      message: 'Login successful',
+      username: result.user.username,
+      // Lets the login page warn when recovery codes are running out
+      recoveryCodesLeft: result.usedRecoveryCode ? result.recoveryCodesLeft : undefined,
+    });
+    res.cookies.set(ADMIN_COOKIE, token, adminCookieOptions());
+    return res;
+  } catch (err) {
+    console.error('POST /api/login/2fa error:', err);
+    return NextResponse.json({ error: 'Sign-in failed. Please try again.' }, { status: 500 });
+  }
+}
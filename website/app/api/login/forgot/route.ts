@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { requestMeta } from '@/lib/adminSessions';
+import { requestPasswordReset } from '@/lib/adminLogin';
+
+/**
+ * POST /api/login/forgot  { identifier }  (username or email)
+ * Emails a password reset link. The reply is the same whether or not the
+ * account exists or has an email address, so it can't be used to find admins.
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as { identifier?: unknown } | null;
+  if (typeof body?.identifier !== 'string' || !body.identifier.trim()) {
+    return NextResponse.json({ ok: false, error: 'Enter your username or email address' }, { status: 400 });
+  }
+
+  try {
+    await dbConnect();
+    const result = await requestPasswordReset(body.identifier, requestMeta(req));
+    if (result.throttled) {
+      return NextResponse.json(
+        { ok: false, error: 'Too many reset emails requested. Please wait a while and try again.' },
+        { status: 429 }
+      );
+    }
+    return NextResponse.json({ ok: true, data: null }, { status: 200 });
+  } catch (err) {
+    console.error('POST /api/login/forgot error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to send reset link' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { resetPasswordWithToken } from '@/lib/adminLogin';
+import { recordAudit } from '@/lib/audit';
+
+/**
+ * POST /api/login/reset  { token, password }
+ * Sets a new password from an emailed reset link and signs the account out everywhere.
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as { token?: unknown; password?: unknown } | null;
+
+  try {
+    await dbConnect();
+    const result = await resetPasswordWithToken(body?.token, body?.password);
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, error: result.error }, { status: 400 });
+    }
+
+    await recordAudit(req, null, {
+      action: 'password_reset',
+      entityType: 'user',
+      entityId: result.user.id,
+      entityLabel: result.user.username,
+      summary: 'Password reset from an emailed link; all sessions signed out',
+    });
+    return NextResponse.json({ ok: true, data: { username: result.user.username } });
+  } catch (err) {
+    console.error('POST /api/login/reset error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to reset password' }, { status: 500 });
+  }
+}
@@ -1,39 +1,37 @@
-import jwt from 'jsonwebtoken';
-import { authenticateUser } from '@/controllers/userController';
 import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { adminCookieOptions, ADMIN_COOKIE, requestMeta } from '@/lib/adminSessions';
+import { checkPassword, completeLogin, createTwoFactorChallenge, twoFactorEnabled } from '@/lib/adminLogin';
 
-const JWT_SECRET = process.env.JWT_SECRET;
-
+/**
+ * POST /api/login  { username, password }
+ * Signs in directly, or — for accounts with two-factor sign-in — answers
+ * { twoFactorRequired, challenge } to be completed at /api/login/2fa.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const user = await authenticateUser(body);
+    const body = (await request.json().catch(() => null)) as { username?: unknown; password?: unknown } | null;
+    const meta = requestMeta(request);
 
-    if (!JWT_SECRET) {
-      throw new Error('JWT_SECRET is not defined');
+    await dbConnect();
+    const result = await checkPassword(body?.username, body?.password, meta);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
-    // Create token
-    const token = jwt.sign(
-      { userId: user._id, username: user.username },
-      JWT_SECRET,
-      { expiresIn: '1d' }
-    );
-
-    // Create response and set httpOnly cookie (browser will store it)
-    const res = NextResponse.json({ message: 'Login successful' });
-
-    // Use sameSite/lax and secure in production to mitigate CSRF & ensure cookie is sent over HTTPS
-    res.cookies.set('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 60 * 60 * 24, // 1 day in seconds
-    });
+    if (twoFactorEnabled(result.user)) {
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challenge: createTwoFactorChallenge(String(result.user._id)),
+      });
+    }
 
+    const token = await completeLogin(result.user, meta);
+    const res = NextResponse.json({ message: 'Login successful', username: result.user.username });
+    res.cookies.set(ADMIN_COOKIE, token, adminCookieOptions());
     return res;
   } catch (err) {
-    return NextResponse.json({ error: (err as Error).message }, { status: 401 });
+    console.error('POST /api/login error:', err);
+    return NextResponse.json({ error: 'Sign-in failed. Please try again.' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
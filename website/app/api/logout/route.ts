@@ -1,15 +1,20 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { adminCookieOptions, ADMIN_COOKIE, revokeAdminSession, sessionIdFromToken } from "@/lib/adminSessions";
 
-export async function POST() {
-  const res = NextResponse.json({ message: "Logged out successfully" });
-
-  res.cookies.set("token", "", {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-    path: "/",
-    maxAge: 0,
-  });
+export async function POST(request: NextRequest) {
+  // Revoke the session server-side too, so a copied cookie stops working as well
+  const sessionId = sessionIdFromToken(request.cookies.get(ADMIN_COOKIE)?.value);
+  if (sessionId) {
+    try {
+      await dbConnect();
+      await revokeAdminSession(sessionId, "logout");
+    } catch (err) {
+      console.error("Failed to revoke session on logout:", err);
+    }
+  }
 
+  const res = NextResponse.json({ message: "Logged out successfully" });
+  res.cookies.set(ADMIN_COOKIE, "", adminCookieOptions(0));
   return res;
 }
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import Offer from "@/models/Offer";
 import dbConnect from "@/lib/dbConnect";
 import mongoose from "mongoose";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 function isValidObjectId(id?: string) {
   return !!id && mongoose.Types.ObjectId.isValid(id);
@@ -30,10 +31,12 @@ export async function GET(_req: NextRequest, context: { params: Promise<{ id: st
 
 /* PUT (authenticated only) */
 export async function PUT(req: NextRequest, context: { params: Promise<{ id: string }> }) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(req);
+    const auth = await verifyAuthForApi(req, { permission: "content.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for PUT /api/offers/[id]", err);
@@ -64,8 +67,17 @@ export async function PUT(req: NextRequest, context: { params: Promise<{ id: str
     }
     if (typeof body.active === "boolean") update.active = body.active;
 
+    const before = await Offer.findById(id).lean();
     const updated = await Offer.findByIdAndUpdate(id, update, { new: true }).lean();
     if (!updated) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+    await recordAudit(req, session, {
+      action: "update",
+      entityType: "offer",
+      entityId: id,
+      entityLabel: updated.text,
+      before,
+      after: updated,
+    });
 
     return NextResponse.json({ ok: true, data: updated }, { status: 200 });
   } catch (err) {
@@ -76,10 +88,12 @@ export async function PUT(req: NextRequest, context: { params: Promise<{ id: str
 
 /* DELETE (authenticated only) */
 export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string }> }) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(req);
+    const auth = await verifyAuthForApi(req, { permission: "content.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for DELETE /api/offers/[id]", err);
@@ -96,6 +110,13 @@ export async function DELETE(req: NextRequest, context: { params: Promise<{ id:
   try {
     const deleted = await Offer.findByIdAndDelete(id).lean();
     if (!deleted) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+    await recordAudit(req, session, {
+      action: "delete",
+      entityType: "offer",
+      entityId: id,
+      entityLabel: deleted.text,
+      before: deleted,
+    });
 
     return NextResponse.json({ ok: true, data: deleted }, { status: 200 });
   } catch (err) {
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import Offer from "@/models/Offer";
 import dbConnect from "@/lib/dbConnect";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export async function GET(req: Request) {
   await dbConnect();
@@ -32,10 +33,12 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: NextRequest) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(req);
+    const auth = await verifyAuthForApi(req, { permission: "content.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for POST /api/offers", err);
@@ -62,6 +65,13 @@ export async function POST(req: NextRequest) {
     };
 
     const created = await Offer.create(data);
+    await recordAudit(req, session, {
+      action: "create",
+      entityType: "offer",
+      entityId: String(created._id),
+      entityLabel: created.text,
+      after: created,
+    });
 
     return NextResponse.json({ ok: true, data: created }, { status: 201 });
   } catch (err) {
@@ -4,7 +4,8 @@ import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/dbConnect";
 import Order from "@/models/Order";
 import mongoose from "mongoose";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 /**
  * DELETE /api/orders/:id
@@ -168,9 +169,11 @@ export async function DELETE(
   context?: { params?: { id?: string | string[] } | Promise<{ id: string }> }
 ) {
   // --- ADDED: require authentication before performing DELETE ---
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(request as unknown as NextRequest);
+    const auth = await verifyAuthForApi(request as unknown as NextRequest, { permission: "orders.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for DELETE /api/orders", err);
@@ -211,6 +214,13 @@ export async function DELETE(
         const removedById = (await Order.findByIdAndDelete(resolvedId).lean().exec()) as MinimalOrder | null;
         if (removedById) {
           console.info("DELETE /api/orders deleted by _id", { resolvedId });
+          await recordAudit(request, session, {
+            action: "delete",
+            entityType: "order",
+            entityId: String(removedById._id),
+            entityLabel: removedById.orderRef ?? String(removedById._id).slice(-8),
+            before: removedById,
+          });
           return NextResponse.json(
             {
               success: true,
@@ -253,6 +263,13 @@ export async function DELETE(
     }
 
     console.info("DELETE /api/orders deleted by fallback", { matchedId: String(removed._id), resolvedId });
+    await recordAudit(request, session, {
+      action: "delete",
+      entityType: "order",
+      entityId: String(removed._id),
+      entityLabel: removed.orderRef ?? String(removed._id).slice(-8),
+      before: removed,
+    });
     return NextResponse.json(
       { success: true, message: "Order deleted", data: { id: String(removed._id), orderRef: removed.orderRef ?? null } },
       { status: 200 }
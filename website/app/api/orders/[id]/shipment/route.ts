@@ -4,6 +4,9 @@ import dbConnect from "@/lib/dbConnect";
 import Order from "@/models/Order";
 import { sendAdminNotification } from "@/lib/notificationService";
 import { notifyShipmentToCustomer } from "@/lib/notifyShipment";
+import { buildReturnUrl } from "@/lib/returns";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 interface OrderLike {
   [key: string]: unknown;
@@ -50,14 +53,6 @@ const ALLOWED_PROVIDERS = [
 ] as const;
 type Provider = typeof ALLOWED_PROVIDERS[number];
 
-function actorFromRequest(req: NextRequest) {
-  const adminName = req.headers.get("x-admin-name")?.trim();
-  const adminHeader = req.headers.get("x-admin")?.trim();
-  if (adminName) return adminName;
-  if (adminHeader) return adminHeader;
-  return "system";
-}
-
 function parseIdFromUrl(urlString: string) {
   try {
     const url = new URL(urlString);
@@ -73,6 +68,16 @@ export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ id?: string }> | { id?: string } }
 ) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "orders.fulfil" });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error("Auth check failed for POST /api/orders/[id]/shipment", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
   try {
     // await params because Next.js 16+ may provide a Promise
     const resolvedParams = (params && typeof params === 'object' && params !== null && 'then' in params && typeof params.then === 'function')
@@ -108,9 +113,10 @@ export async function POST(
 
     const order = await Order.findById(id).exec();
     if (!order) return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    const before = order.toObject();
 
     const now = new Date();
-    const actor = actorFromRequest(req);
+    const actor = session.username;
 
     // build shipment history entry in metadata
     const meta: OrderMetadata = (order.metadata && typeof order.metadata === "object") ? { ...(order.metadata as Record<string, unknown>) } : {};
@@ -140,6 +146,15 @@ export async function POST(
     order.metadata = meta;
 
     await order.save();
+    await recordAudit(req, session, {
+      action: "ship",
+      entityType: "order",
+      entityId: String(order._id),
+      entityLabel: String(order._id).slice(-8),
+      summary: `Shipped with ${provider}${trackingCode ? ` (${trackingCode})` : ""}`,
+      before,
+      after: order,
+    });
 
     // Notify the customer using the helper (email read from the order)
     const notifyResult = await notifyShipmentToCustomer({
@@ -147,6 +162,7 @@ export async function POST(
       provider,
       trackingCode: trackingCode || null,
       estimatedDelivery: estimatedDelivery ?? null,
+      returnUrl: buildReturnUrl(String(order._id)),
     });
 
     let emailSent = false;
@@ -1,6 +1,7 @@
 import dbConnect from "@/lib/dbConnect";
 import Order from "@/models/Order";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuthForApi } from "@/lib/auth";
 
 interface OrderItem {
   name?: string;
@@ -45,7 +46,7 @@ interface OrderExport {
  * GET /api/orders/export?format=csv
  *
  * Exports orders as CSV (Excel-friendly). Returns an attachment response.
- * - No authentication by default here — ensure you add auth middleware if required.
+ * - Requires the orders.view permission.
  */
 
 function escapeCsv(value: unknown) {
@@ -59,6 +60,14 @@ function escapeCsv(value: unknown) {
 }
 
 export async function GET(req: Request) {
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: "orders.view" });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error("Auth check failed for GET /api/orders/export", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
   try {
     await dbConnect();
 
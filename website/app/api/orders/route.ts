@@ -1,9 +1,10 @@
 'use server';
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import Order from '@/models/Order';
 import mongoose from 'mongoose';
+import { verifyAuthForApi } from '@/lib/auth';
 
 interface Suggestion {
   _id: unknown;
@@ -32,6 +33,14 @@ interface Suggestion {
  *  - minTotal / maxTotal (optional numbers)
  */
 export async function GET(req: Request) {
+  try {
+    const auth = await verifyAuthForApi(req as unknown as NextRequest, { permission: 'orders.view' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/orders', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
+
   try {
     await dbConnect();
 
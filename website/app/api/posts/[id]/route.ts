@@ -3,7 +3,8 @@ import mongoose from "mongoose";
 import dbConnect from "@/lib/dbConnect";
 import Post, { type IPost } from "@/models/Post";
 import { initCloudinary, uploadBufferToCloudinary } from "@/lib/cloudinarySrever";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 // --- Types ---
 type RouteContext = { params: Promise<{ id: string }> };
@@ -99,10 +100,12 @@ export async function GET(_request: NextRequest, context: RouteContext) {
 
 // ---- PUT handler ----
 export async function PUT(req: NextRequest, context: RouteContext) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(req);
+    const auth = await verifyAuthForApi(req, { permission: "content.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for PUT /api/posts/[id]", err);
@@ -229,6 +232,14 @@ export async function PUT(req: NextRequest, context: RouteContext) {
     if (!updated) {
       return NextResponse.json({ error: "Post not found after update" }, { status: 404 });
     }
+    await recordAudit(req, session, {
+      action: "update",
+      entityType: "post",
+      entityId: String(updated._id),
+      entityLabel: updated.title,
+      before: doc,
+      after: updated,
+    });
 
     const obj: PostResponseData = {
       _id: updated._id.toString(),
@@ -259,10 +270,12 @@ export async function PUT(req: NextRequest, context: RouteContext) {
 
 // ---- DELETE handler ----
 export async function DELETE(_request: NextRequest, context: RouteContext) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(_request);
+    const auth = await verifyAuthForApi(_request, { permission: "content.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for DELETE /api/posts/[id]", err);
@@ -282,6 +295,13 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
 
   try {
     await Post.deleteOne({ _id: doc._id });
+    await recordAudit(_request, session, {
+      action: "delete",
+      entityType: "post",
+      entityId: String(doc._id),
+      entityLabel: doc.title,
+      before: doc,
+    });
     return NextResponse.json({ success: true, message: "Post deleted" }, { status: 200 });
   } catch (err) {
     console.error("DELETE /api/posts/[id] error:", err);
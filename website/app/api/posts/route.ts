@@ -3,7 +3,8 @@ import type { NextRequest } from "next/server";
 import dbConnect from "@/lib/dbConnect";
 import Post from "@/models/Post";
 import { initCloudinary, uploadBufferToCloudinary } from "@/lib/cloudinarySrever";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 // Type for Cloudinary upload responses
 interface CloudinaryUploadResult {
@@ -84,10 +85,12 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
-  // Require authenticated user (no role checks)
+  // Require an admin whose role allows this
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(request as unknown as NextRequest);
+    const auth = await verifyAuthForApi(request as unknown as NextRequest, { permission: "content.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
     // auth present — continue
   } catch (err) {
     console.error("Auth check failed for POST /api/posts", err);
@@ -159,6 +162,13 @@ export async function POST(request: Request) {
       });
 
       const created = await p.save();
+      await recordAudit(request, session, {
+        action: "create",
+        entityType: "post",
+        entityId: created._id.toString(),
+        entityLabel: created.title,
+        after: created,
+      });
       const { _id, ...rest } = created.toObject();
 
       const data: PostResponseData = {
@@ -222,6 +232,13 @@ export async function POST(request: Request) {
     });
 
     const created = await p.save();
+    await recordAudit(request, session, {
+      action: "create",
+      entityType: "post",
+      entityId: created._id.toString(),
+      entityLabel: created.title,
+      after: created,
+    });
     const { _id, ...rest } = created.toObject();
     const data: PostResponseData = {
       _id: created._id.toString(),
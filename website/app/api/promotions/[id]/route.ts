@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import Promotion from "@/models/Promotion";
+import PromotionRedemption from "@/models/PromotionRedemption";
+import dbConnect from "@/lib/dbConnect";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { parsePromotionInput } from "@/lib/promotions";
+
+function isValidObjectId(id?: string) {
+  return !!id && mongoose.Types.ObjectId.isValid(id);
+}
+
+async function requireAuth(req: NextRequest, label: string): Promise<AdminSession | NextResponse> {
+  try {
+    return await verifyAuthForApi(req, { permission: "promotions.manage" });
+  } catch (err) {
+    console.error(`Auth check failed for ${label}`, err);
+    return NextResponse.json({ ok: false, error: "Authentication failed" }, { status: 401 });
+  }
+}
+
+/* GET (authenticated only) — promotion with its recent redemptions */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth(req, "GET /api/promotions/[id]");
+  if (auth instanceof NextResponse) return auth;
+
+  await dbConnect();
+
+  const { id } = await context.params;
+  if (!isValidObjectId(id)) {
+    return NextResponse.json({ ok: false, error: "Invalid ID" }, { status: 400 });
+  }
+
+  try {
+    const promotion = await Promotion.findById(id).lean();
+    if (!promotion) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const redemptions = await PromotionRedemption.find({ promotionId: id }).sort({ createdAt: -1 }).limit(100).lean();
+    return NextResponse.json({ ok: true, data: { ...promotion, redemptions } }, { status: 200 });
+  } catch (err) {
+    console.error("GET /api/promotions/[id] error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to fetch promotion" }, { status: 500 });
+  }
+}
+
+/* PUT (authenticated only) */
+export async function PUT(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth(req, "PUT /api/promotions/[id]");
+  if (auth instanceof NextResponse) return auth;
+
+  await dbConnect();
+
+  const { id } = await context.params;
+  if (!isValidObjectId(id)) {
+    return NextResponse.json({ ok: false, error: "Invalid ID" }, { status: 400 });
+  }
+
+  let update: Record<string, unknown>;
+  try {
+    update = parsePromotionInput(await req.json().catch(() => null), true);
+  } catch (err) {
+    return NextResponse.json({ ok: false, error: err instanceof Error ? err.message : "Invalid input" }, { status: 400 });
+  }
+
+  try {
+    const before = await Promotion.findById(id).lean();
+    const updated = await Promotion.findByIdAndUpdate(id, { $set: update }, { new: true, runValidators: true }).lean();
+    if (!updated) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+    await recordAudit(req, auth, {
+      action: "update",
+      entityType: "promotion",
+      entityId: id,
+      entityLabel: updated.code,
+      before,
+      after: updated,
+    });
+
+    return NextResponse.json({ ok: true, data: updated }, { status: 200 });
+  } catch (err) {
+    if ((err as { code?: number })?.code === 11000) {
+      return NextResponse.json({ ok: false, error: "A promotion with this code already exists" }, { status: 409 });
+    }
+    console.error("PUT /api/promotions/[id] error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to update promotion" }, { status: 500 });
+  }
+}
+
+/* DELETE (authenticated only) */
+export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth(req, "DELETE /api/promotions/[id]");
+  if (auth instanceof NextResponse) return auth;
+
+  await dbConnect();
+
+  const { id } = await context.params;
+  if (!isValidObjectId(id)) {
+    return NextResponse.json({ ok: false, error: "Invalid ID" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await Promotion.findByIdAndDelete(id).lean();
+    if (!deleted) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+    await recordAudit(req, auth, {
+      action: "delete",
+      entityType: "promotion",
+      entityId: id,
+      entityLabel: deleted.code,
+      before: deleted,
+    });
+
+    return NextResponse.json({ ok: true, data: deleted }, { status: 200 });
+  } catch (err) {
+    console.error("DELETE /api/promotions/[id] error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to delete promotion" }, { status: 500 });
+  }
+}
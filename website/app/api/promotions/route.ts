@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import Promotion from "@/models/Promotion";
+import dbConnect from "@/lib/dbConnect";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { parsePromotionInput } from "@/lib/promotions";
+
+/* GET (authenticated only) — promotions list for the admin */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "promotions.manage" });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error("Auth check failed for GET /api/promotions", err);
+    return NextResponse.json({ ok: false, error: "Authentication failed" }, { status: 401 });
+  }
+
+  await dbConnect();
+
+  try {
+    const url = new URL(req.url);
+    const activeParam = url.searchParams.get("active");
+
+    const filter: { active?: boolean } = {};
+    if (activeParam === "true") filter.active = true;
+    if (activeParam === "false") filter.active = false;
+
+    const promotions = await Promotion.find(filter).sort({ createdAt: -1 }).lean();
+    return NextResponse.json({ ok: true, data: promotions }, { status: 200 });
+  } catch (err) {
+    console.error("GET /api/promotions error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to fetch promotions" }, { status: 500 });
+  }
+}
+
+/* POST (authenticated only) */
+export async function POST(req: NextRequest) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "promotions.manage" });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error("Auth check failed for POST /api/promotions", err);
+    return NextResponse.json({ ok: false, error: "Authentication failed" }, { status: 401 });
+  }
+
+  await dbConnect();
+
+  let data: Record<string, unknown>;
+  try {
+    data = parsePromotionInput(await req.json().catch(() => null));
+  } catch (err) {
+    return NextResponse.json({ ok: false, error: err instanceof Error ? err.message : "Invalid input" }, { status: 400 });
+  }
+
+  try {
+    const created = await Promotion.create(data);
+    await recordAudit(req, session, {
+      action: "create",
+      entityType: "promotion",
+      entityId: String(created._id),
+      entityLabel: created.code,
+      after: created,
+    });
+    return NextResponse.json({ ok: true, data: created }, { status: 201 });
+  } catch (err) {
+    if ((err as { code?: number })?.code === 11000) {
+      return NextResponse.json({ ok: false, error: "A promotion with this code already exists" }, { status: 409 });
+    }
+    console.error("POST /api/promotions error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to create promotion" }, { status: 500 });
+  }
+}
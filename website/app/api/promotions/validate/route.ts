@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { evaluatePromotion, PromotionLine } from '@/lib/promotions';
+
+/**
+ * Public preview of a discount code against the basket.
+ * Uses the prices sent by the client for display only — the authoritative
+ * discount is recomputed from stored prices in /api/create-payment-intent.
+ *
+ * Body: { code: string, items: CartItem[], email?: string }
+ */
+function toPromotionLines(input: unknown): PromotionLine[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .map((raw): PromotionLine | null => {
+      if (!raw || typeof raw !== 'object') return null;
+      const obj = raw as Record<string, unknown>;
+      // Gift cards are never discounted
+      if (obj.productType === 'gift_card') return null;
+      // Subscription lines are priced from their variant
+      const rawId = obj.productType === 'subscription' ? obj.variantId : obj.id;
+      const id = typeof rawId === 'string' ? rawId : '';
+      const quantity = Number(obj.quantity ?? obj.qty ?? 0);
+      const price = Number(obj.price ?? 0);
+      if (!id || !Number.isFinite(quantity) || quantity <= 0 || !Number.isFinite(price) || price < 0) return null;
+      const source: PromotionLine['source'] = obj.productType === 'equipment' ? 'equipment' : 'variant';
+      return { id, source, quantity, unitPricePence: Math.round(price * 100) };
+    })
+    .filter((l): l is PromotionLine => l !== null);
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    const lines = toPromotionLines(body.items);
+    if (lines.length === 0) {
+      return NextResponse.json({ valid: false, error: 'No items in cart.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    try {
+      const result = await evaluatePromotion(String(body.code ?? ''), lines, {
+        email: typeof body.email === 'string' ? body.email : null,
+      });
+      return NextResponse.json({
+        valid: true,
+        code: result.code,
+        label: result.label,
+        discountPence: result.discountPence,
+        freeShipping: result.freeShipping,
+      });
+    } catch (err) {
+      return NextResponse.json(
+        { valid: false, error: err instanceof Error ? err.message : 'This discount code is not valid' },
+        { status: 422 }
+      );
+    }
+  } catch (error) {
+    console.error('Promotion validation error:', error);
+    return NextResponse.json({ valid: false, error: 'Unable to check discount code' }, { status: 500 });
+  }
+}
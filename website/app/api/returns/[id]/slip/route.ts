@@ -0,0 +1,50 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import Order from '@/models/Order';
+import ReturnRequest from '@/models/ReturnRequest';
+import { RETURN_REASON_LABELS, returnSlipAvailable, verifyReturnSignature } from '@/lib/returns';
+import { generateReturnSlipPDF } from '@/lib/returnSlip';
+
+/* GET /api/returns/[id]/slip?order=&sig= — returns label and packing slip once the return is approved */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const orderId = req.nextUrl.searchParams.get('order');
+  if (!verifyReturnSignature(orderId, req.nextUrl.searchParams.get('sig'))) {
+    return NextResponse.json({ ok: false, error: 'This returns link is not valid' }, { status: 403 });
+  }
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ ok: false, error: 'Return not found' }, { status: 404 });
+  }
+
+  try {
+    await dbConnect();
+    const returnRequest = await ReturnRequest.findOne({ _id: id, orderId }).exec();
+    if (!returnRequest) return NextResponse.json({ ok: false, error: 'Return not found' }, { status: 404 });
+    if (!returnSlipAvailable(returnRequest)) {
+      return NextResponse.json(
+        { ok: false, error: 'The returns label is available once your return is approved' },
+        { status: 409 }
+      );
+    }
+    const order = await Order.findById(orderId).lean().exec();
+    if (!order) return NextResponse.json({ ok: false, error: 'Order not found' }, { status: 404 });
+
+    const pdf = await generateReturnSlipPDF(returnRequest, order, RETURN_REASON_LABELS);
+    const bytes = new Uint8Array(pdf);
+    return new Response(bytes, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename=${returnRequest.rmaNumber}.pdf`,
+        'Content-Length': String(bytes.length),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (err) {
+    console.error('GET /api/returns/[id]/slip error:', err);
+    return NextResponse.json({ ok: false, error: 'Failed to generate returns label' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import Order from '@/models/Order';
+import ReturnRequest from '@/models/ReturnRequest';
+import {
+  RETURN_REASON_LABELS,
+  customerReturnBlocker,
+  getReturnableLines,
+  openReturn,
+  parseReturnLines,
+  toCustomerReturn,
+  verifyReturnSignature,
+} from '@/lib/returns';
+
+/**
+ * GET /api/returns?order=&sig=
+ * The order's lines and any returns already open on it, for the signed link in
+ * the shipment email.
+ */
+export async function GET(req: NextRequest) {
+  const orderId = req.nextUrl.searchParams.get('order');
+  if (!verifyReturnSignature(orderId, req.nextUrl.searchParams.get('sig'))) {
+    return NextResponse.json({ ok: false, error: 'This returns link is not valid' }, { status: 403 });
+  }
+
+  try {
+    await dbConnect();
+    const order = await Order.findById(orderId).exec();
+    if (!order) return NextResponse.json({ ok: false, error: 'Order not found' }, { status: 404 });
+
+    const [lines, returns] = await Promise.all([
+      getReturnableLines(order),
+      ReturnRequest.find({ orderId: order._id }).sort({ createdAt: -1 }).exec(),
+    ]);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: {
+          order: {
+            reference: String(order._id).slice(-8).toUpperCase(),
+            createdAt: order.createdAt,
+            shippedAt: order.shipment?.shippedAt ?? null,
+          },
+          blocker: customerReturnBlocker(order),
+          lines: lines.map(({ lineIndex, name, ordered, returnable }) => ({ lineIndex, name, ordered, returnable })),
+          returns: returns.map(toCustomerReturn),
+          reasons: RETURN_REASON_LABELS,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error('GET /api/returns error:', err);
+    return NextResponse.json({ ok: false, error: 'Server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/returns  { order, sig, lines: [{ lineIndex, qty, reason, note? }], note? }
+ * Opens a return request from the customer's signed link.
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const orderId = body?.order;
+  if (!verifyReturnSignature(orderId, body?.sig)) {
+    return NextResponse.json({ ok: false, error: 'This returns link is not valid' }, { status: 403 });
+  }
+  const lines = parseReturnLines(body?.lines);
+  if (!lines) {
+    return NextResponse.json(
+      { ok: false, error: 'Choose at least one item, how many and a reason' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await dbConnect();
+    const order = await Order.findById(orderId).exec();
+    if (!order) return NextResponse.json({ ok: false, error: 'Order not found' }, { status: 404 });
+
+    const result = await openReturn({
+      order,
+      lines,
+      customerNote: typeof body?.note === 'string' ? body.note : null,
+      openedBy: 'customer',
+      actor: 'customer',
+    });
+    if (!result.ok) return NextResponse.json({ ok: false, error: result.error }, { status: result.status });
+    return NextResponse.json({ ok: true, data: toCustomerReturn(result.returnRequest) }, { status: 201 });
+  } catch (err) {
+    console.error('POST /api/returns error:', err);
+    return NextResponse.json({ ok: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -4,6 +4,11 @@ import { NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import dbConnect from '@/lib/dbConnect';
 import Order from '@/models/Order';
+import { assertCustomerCanRedeem } from '@/lib/promotions';
+import { selectShippingOption, type ShippingQuoteOption } from '@/lib/shipping';
+import { quoteShipping } from '@/lib/shippingQuote';
+import { recordCheckoutContact } from '@/lib/checkoutRecovery';
+import { giftCardLinesPence, splitGiftCardPayment, type GiftCardSplit } from '@/lib/giftCards';
 
 // Helper: ensure value is parsed object if JSON string
 function parseMaybeJson(obj: unknown): unknown {
@@ -23,6 +28,55 @@ function truncateForStripe(s: string, max = 500) {
   return s.slice(0, max - 3) + '...';
 }
 
+type ShippingReprice = {
+  option: ShippingQuoteOption;
+  options: ShippingQuoteOption[];
+  shipping: number;
+  total: number;
+  amount: number;
+  giftCard: GiftCardSplit | null;
+};
+
+// PaymentIntents can only be re-priced until they're confirmed
+const REPRICEABLE_STATUSES = new Set(['requires_payment_method', 'requires_confirmation']);
+
+/**
+ * Re-quote shipping for the real delivery address and chosen service, using the
+ * verified lines and totals create-payment-intent stored on the PI.
+ * Returns null when no service delivers there.
+ */
+async function repriceShipping(
+  pi: Stripe.PaymentIntent,
+  destination: { postcode?: string | null; country?: string | null },
+  service: unknown
+): Promise<ShippingReprice | null> {
+  const md = pi.metadata ?? {};
+  const rawItems = parseMaybeJson(md.items);
+  const lines = (Array.isArray(rawItems) ? rawItems : [])
+    .filter((it): it is Record<string, unknown> => !!it && typeof it === 'object' && it.source !== 'gift_card')
+    .map((it) => ({ id: String(it.id ?? ''), quantity: Number(it.qty ?? it.quantity ?? 0), source: typeof it.source === 'string' ? it.source : undefined }))
+    .filter((l) => l.id && l.quantity > 0);
+
+  const subtotal = parseFloat(md.subtotal ?? '') || 0;
+  const discount = parseFloat(md.discount ?? '') || 0;
+  const giftCardLines = giftCardLinesPence(rawItems);
+
+  const quote = await quoteShipping({ lines, subtotalPence: Math.round(subtotal * 100) - giftCardLines, destination });
+  const option = selectShippingOption(quote.options, service);
+  if (!option) return null;
+
+  const shipping = md.freeShipping === 'true' ? 0 : Number((option.pricePence / 100).toFixed(2));
+  const total = Number((subtotal - discount + shipping).toFixed(2));
+  const totalPence = Math.round(total * 100);
+
+  // The gift card share moves with the delivery price; a card covering everything keeps the full amount on the PI
+  const giftCard = md.giftCardId
+    ? splitGiftCardPayment(totalPence, Math.round((parseFloat(md.giftCardAvailable ?? '') || 0) * 100), giftCardLines)
+    : null;
+  const amount = giftCard && !giftCard.coversTotal ? giftCard.payablePence : totalPence;
+  return { option, options: quote.options, shipping, total, amount, giftCard };
+}
+
 export async function POST(req: Request) {
   try {
     const raw = await req.json().catch(() => ({} as Record<string, unknown>));
@@ -45,6 +99,42 @@ export async function POST(req: Request) {
 
     await dbConnect();
 
+    const stripeSecret = process.env.STRIPE_SECRET_KEY;
+    const stripe = stripeSecret ? new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' }) : null;
+    const pi = stripe ? await stripe.paymentIntents.retrieve(paymentIntentId).catch(() => null) : null;
+
+    // Per-customer promotion limits can only be checked once we know the email.
+    // Block here so the customer sees the message before confirming payment.
+    const clientEmail = client && typeof client.email === 'string' ? client.email : null;
+    const promotionId = pi?.metadata?.promotionId;
+    if (clientEmail && promotionId) {
+      try {
+        await assertCustomerCanRedeem(promotionId, clientEmail);
+      } catch (promoErr) {
+        const message = promoErr instanceof Error ? promoErr.message : 'Discount code cannot be used';
+        return NextResponse.json({ success: false, message }, { status: 409 });
+      }
+    }
+
+    // Shipping depends on where the parcel is going, so price it properly now the address is known
+    let reprice: ShippingReprice | null = null;
+    if (pi && shippingAddress && REPRICEABLE_STATUSES.has(pi.status)) {
+      reprice = await repriceShipping(
+        pi,
+        {
+          postcode: typeof shippingAddress.postcode === 'string' ? shippingAddress.postcode : null,
+          country: typeof shippingAddress.country === 'string' ? shippingAddress.country : null,
+        },
+        body['shippingService']
+      );
+      if (!reprice) {
+        return NextResponse.json(
+          { success: false, message: "Sorry, we can't deliver this order to that address. Please contact us for a quote." },
+          { status: 422 }
+        );
+      }
+    }
+
     // Upsert or attach to order in DB FIRST — do not let Stripe metadata error abort DB save
     let order = await Order.findOne({ paymentIntentId }).exec();
     if (!order) {
@@ -80,15 +170,25 @@ export async function POST(req: Request) {
       console.log('save-shipping: nothing to update on order', order._id?.toString());
     }
 
+    // Who this checkout belongs to, for abandoned checkout emails (non-fatal)
+    if (client) {
+      try {
+        await recordCheckoutContact(paymentIntentId, {
+          email: client.email ?? shippingAddress?.email,
+          name: client.name,
+          marketingOptIn: client.marketingOptIn,
+        });
+      } catch (sessionErr) {
+        console.warn('save-shipping: failed to record checkout contact:', sessionErr instanceof Error ? sessionErr.message : String(sessionErr));
+      }
+    }
+
     // Now try to update Stripe metadata, but do not fail the endpoint if Stripe rejects it.
-    const stripeSecret = process.env.STRIPE_SECRET_KEY;
-    if (!stripeSecret) {
+    if (!stripe) {
       console.warn('STRIPE_SECRET_KEY not configured — skipping Stripe metadata update');
       return NextResponse.json({ success: true, message: 'Saved to DB; stripe not configured' }, { status: 200 });
     }
 
-    const stripe = new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' });
-
     // Build minimal metadata: keep it small. Do NOT put huge JSON blobs into metadata.
     const metadata: Record<string, string> = {
       shipping_saved: 'true',
@@ -121,14 +221,38 @@ export async function POST(req: Request) {
     if (client && client.email) {
       metadata.client_email = String(client.email).slice(0, 200);
     }
+    if (reprice) {
+      metadata.shipping = reprice.shipping.toFixed(2);
+      metadata.shippingService = reprice.option.service;
+      metadata.shippingZone = reprice.option.zone;
+      metadata.total = reprice.total.toFixed(2);
+      if (reprice.giftCard) {
+        metadata.giftCardAmount = (reprice.giftCard.appliedPence / 100).toFixed(2);
+        metadata.giftCardCoversTotal = reprice.giftCard.coversTotal ? 'true' : 'false';
+      }
+    }
+    const amountChanged = !!reprice && !!pi && reprice.amount !== pi.amount;
 
-    // Try update but don't propagate Stripe error to the client
+    // Try update but don't propagate Stripe error to the client — unless the amount had to change,
+    // in which case confirming would charge the wrong delivery price.
     try {
       await stripe.paymentIntents.update(paymentIntentId, {
+        ...(amountChanged && reprice ? { amount: reprice.amount } : {}),
         metadata: metadata as unknown as Stripe.MetadataParam,
       });
-      console.log('save-shipping: updated Stripe PI metadata (non-blocking)');
+      console.log(
+        amountChanged
+          ? `save-shipping: re-priced PI to ${reprice?.amount}p (${reprice?.option.service}, zone ${reprice?.option.zone})`
+          : 'save-shipping: updated Stripe PI metadata (non-blocking)'
+      );
     } catch (stripeErr) {
+      if (amountChanged) {
+        console.error('save-shipping: failed to re-price PaymentIntent:', stripeErr instanceof Error ? stripeErr.message : String(stripeErr));
+        return NextResponse.json(
+          { success: false, message: 'We could not update the delivery price. Please try again.' },
+          { status: 502 }
+        );
+      }
       console.error('save-shipping: Stripe metadata update failed (non-fatal):', stripeErr instanceof Error ? stripeErr.message : String(stripeErr));
       // record that stripe update failed for later reconciliation
       try {
@@ -144,7 +268,24 @@ export async function POST(req: Request) {
       }
     }
 
-    return NextResponse.json({ success: true, message: 'Shipping and billing details saved' }, { status: 200 });
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Shipping and billing details saved',
+        ...(reprice
+          ? {
+              shipping: reprice.shipping,
+              shippingService: reprice.option.service,
+              total: reprice.total,
+              shippingOptions: reprice.options,
+              amountDue: Number(((reprice.giftCard ? reprice.giftCard.payablePence : reprice.amount) / 100).toFixed(2)),
+              giftCardAmount: reprice.giftCard ? Number((reprice.giftCard.appliedPence / 100).toFixed(2)) : 0,
+              giftCardCoversTotal: !!reprice.giftCard?.coversTotal,
+            }
+          : {}),
+      },
+      { status: 200 }
+    );
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     console.error('save-shipping error:', message);
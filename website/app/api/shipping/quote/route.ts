@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { quoteShipping, type ShippingLine } from '@/lib/shippingQuote';
+
+/**
+ * Public shipping quote for the basket and a destination.
+ * Subtotal uses the prices sent by the client for display only — save-shipping
+ * re-prices the PaymentIntent from verified totals once the address is submitted.
+ *
+ * Body: { items: CartItem[], postcode?: string, country?: string }
+ */
+function toShippingLines(input: unknown): { lines: ShippingLine[]; subtotalPence: number; itemCount: number } {
+  const lines: ShippingLine[] = [];
+  let subtotalPence = 0;
+  let itemCount = 0;
+  if (!Array.isArray(input)) return { lines, subtotalPence, itemCount };
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') continue;
+    const obj = raw as Record<string, unknown>;
+    itemCount++;
+    // Gift cards are emailed, so they don't add weight or count towards free delivery
+    if (obj.productType === 'gift_card') continue;
+    // Subscription lines ship the variant they're for
+    const rawId = obj.productType === 'subscription' ? obj.variantId : obj.id;
+    const id = typeof rawId === 'string' ? rawId : '';
+    const quantity = Number(obj.quantity ?? obj.qty ?? 0);
+    const price = Number(obj.price ?? 0);
+    if (!id || !Number.isFinite(quantity) || quantity <= 0) continue;
+    lines.push({ id, quantity, source: obj.productType === 'equipment' ? 'equipment' : undefined });
+    if (Number.isFinite(price) && price > 0) subtotalPence += Math.round(price * 100) * quantity;
+  }
+  return { lines, subtotalPence, itemCount };
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    const { lines, subtotalPence, itemCount } = toShippingLines(body.items);
+    if (itemCount === 0) {
+      return NextResponse.json({ ok: false, error: 'No items in cart.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const quote = await quoteShipping({
+      lines,
+      subtotalPence,
+      destination: {
+        postcode: typeof body.postcode === 'string' ? body.postcode : null,
+        country: typeof body.country === 'string' ? body.country : null,
+      },
+    });
+
+    return NextResponse.json({ ok: true, data: quote }, { status: 200 });
+  } catch (error) {
+    console.error('Shipping quote error:', error);
+    return NextResponse.json({ ok: false, error: 'Unable to quote shipping' }, { status: 500 });
+  }
+}
@@ -1,9 +1,6 @@
 import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
-import CoffeeVariant from '@/models/CoffeeVariant';
-import Coffee from '@/models/Coffee';
-import Equipment from '@/models/Equipment';
-import mongoose from 'mongoose';
+import { getAvailableStock } from '@/lib/stockReservations';
 
 type ProductSource = 'variant' | 'coffee' | 'equipment';
 
@@ -60,24 +57,12 @@ function validateItemsForStockCheck(parsed: unknown): Item[] {
   return out;
 }
 
+// Available = stock minus what other checkouts are currently holding
 async function validateStockAvailability(items: Item[]): Promise<void> {
   for (const item of items) {
     const { id, qty, source = 'variant' } = item;
     
-    let available = 0;
-    
-    if (source === 'variant') {
-      const variant = await CoffeeVariant.findById(id).select('stock').lean();
-      available = variant?.stock || 0;
-    } else if (source === 'coffee') {
-      const coffee = await Coffee.findById(id).select('stock').lean();
-      available = coffee?.stock || 0;
-    } else if (source === 'equipment') {
-      const equipment = mongoose.Types.ObjectId.isValid(id)
-        ? await Equipment.findById(id).select('totalStock').lean()
-        : await Equipment.findOne({ slug: id }).select('totalStock').lean();
-      available = equipment?.totalStock || 0;
-    }
+    const available = await getAvailableStock(source, id);
     
     if (available < qty) {
       throw new Error(
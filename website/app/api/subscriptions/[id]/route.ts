@@ -0,0 +1,135 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import Subscription, { ISubscription } from "@/models/Subscription";
+import Order from "@/models/Order";
+import dbConnect from "@/lib/dbConnect";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import {
+  applySubscriptionAction,
+  SUBSCRIPTION_ACTIONS,
+  SubscriptionAction,
+  toCustomerSubscription,
+} from "@/lib/subscriptions";
+
+function isValidObjectId(id?: string) {
+  return !!id && mongoose.Types.ObjectId.isValid(id);
+}
+
+function tokenMatches(sub: ISubscription, token: unknown) {
+  if (typeof token !== "string" || !token) return false;
+  const a = Buffer.from(token);
+  const b = Buffer.from(sub.manageToken);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Customers authenticate with the manage token from their email link;
+ * admins with the usual session cookie. Returns who is acting (the admin's
+ * session), or a response to send.
+ */
+async function resolveActor(
+  req: NextRequest,
+  sub: ISubscription,
+  token: unknown
+): Promise<"customer" | AdminSession | NextResponse> {
+  if (tokenMatches(sub, token)) return "customer";
+  try {
+    return await verifyAuthForApi(req, { permission: "subscriptions.manage" });
+  } catch (err) {
+    console.error("Auth check failed for /api/subscriptions/[id]", err);
+    return NextResponse.json({ ok: false, error: "Authentication failed" }, { status: 401 });
+  }
+}
+
+/* GET — subscription details (customer via ?token=, or admin) */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  await dbConnect();
+
+  const { id } = await context.params;
+  if (!isValidObjectId(id)) {
+    return NextResponse.json({ ok: false, error: "Invalid ID" }, { status: 400 });
+  }
+
+  try {
+    const sub = await Subscription.findById(id).exec();
+    if (!sub) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const actor = await resolveActor(req, sub, new URL(req.url).searchParams.get("token"));
+    if (actor instanceof NextResponse) return actor;
+
+    if (actor === "customer") {
+      return NextResponse.json({ ok: true, data: toCustomerSubscription(sub) }, { status: 200 });
+    }
+
+    const orders = await Order.find({
+      $or: [{ subscriptionId: sub._id }, { _id: sub.sourceOrderId }],
+    })
+      .select("status total paidAt createdAt paymentIntentId")
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .lean();
+    return NextResponse.json(
+      { ok: true, data: { ...sub.toObject(), manageToken: undefined, orders } },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("GET /api/subscriptions/[id] error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to fetch subscription" }, { status: 500 });
+  }
+}
+
+/* PATCH — { action, token?, variantId?, cadence?, quantity? } */
+export async function PATCH(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  await dbConnect();
+
+  const { id } = await context.params;
+  if (!isValidObjectId(id)) {
+    return NextResponse.json({ ok: false, error: "Invalid ID" }, { status: 400 });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+  const action = body.action as SubscriptionAction;
+  if (!SUBSCRIPTION_ACTIONS.includes(action)) {
+    return NextResponse.json({ ok: false, error: "Invalid action" }, { status: 400 });
+  }
+
+  try {
+    const sub = await Subscription.findById(id).exec();
+    if (!sub) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const actor = await resolveActor(req, sub, body.token);
+    if (actor instanceof NextResponse) return actor;
+
+    const before = sub.toObject();
+    try {
+      await applySubscriptionAction(sub, action, {
+        variantId: body.variantId,
+        cadence: body.cadence,
+        quantity: body.quantity,
+      });
+    } catch (err) {
+      return NextResponse.json(
+        { ok: false, error: err instanceof Error ? err.message : "Unable to update subscription" },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Subscription ${id}: ${action} by ${actor === "customer" ? actor : actor.username}`);
+    if (actor !== "customer") {
+      await recordAudit(req, actor, {
+        action,
+        entityType: "subscription",
+        entityId: id,
+        entityLabel: sub.email,
+        before,
+        after: sub,
+      });
+    }
+    return NextResponse.json({ ok: true, data: toCustomerSubscription(sub) }, { status: 200 });
+  } catch (err) {
+    console.error("PATCH /api/subscriptions/[id] error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to update subscription" }, { status: 500 });
+  }
+}
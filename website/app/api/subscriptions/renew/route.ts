@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { verifyCronRequest } from '@/lib/cronAuth';
+import { runJob } from '@/lib/jobs';
+
+// Kept for anything still calling it directly; the schedule now lives in lib/jobs.ts (subscription-renewals).
+export async function GET(request: Request) {
+  const rejected = verifyCronRequest(request);
+  if (rejected) return rejected;
+
+  await dbConnect();
+
+  const result = await runJob('subscription-renewals', { triggeredBy: 'api' });
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  if (result.run.status === 'failed') {
+    return NextResponse.json({ error: 'Failed to run subscription renewals', details: result.run.error }, { status: 500 });
+  }
+  return NextResponse.json({ success: true, ...result.run.result }, { status: 200 });
+}
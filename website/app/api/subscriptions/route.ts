@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import Subscription from "@/models/Subscription";
+import dbConnect from "@/lib/dbConnect";
+import { verifyAuthForApi } from "@/lib/auth";
+
+const STATUSES = ["active", "paused", "past_due", "cancelled"];
+
+/* GET (authenticated only) — subscriptions for the admin, soonest renewal first */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await verifyAuthForApi(req, { permission: "subscriptions.manage" });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error("Auth check failed for GET /api/subscriptions", err);
+    return NextResponse.json({ ok: false, error: "Authentication failed" }, { status: 401 });
+  }
+
+  await dbConnect();
+
+  try {
+    const url = new URL(req.url);
+    const status = url.searchParams.get("status");
+    const q = url.searchParams.get("q")?.trim();
+
+    const filter: Record<string, unknown> = {};
+    if (status && STATUSES.includes(status)) filter.status = status;
+    if (q) {
+      const rx = new RegExp(q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+      filter.$or = [{ email: rx }, { name: rx }, { productName: rx }];
+    }
+
+    const subscriptions = await Subscription.find(filter)
+      .select("-manageToken")
+      .sort({ status: 1, nextRenewalAt: 1 })
+      .limit(500)
+      .lean();
+    return NextResponse.json({ ok: true, data: subscriptions }, { status: 200 });
+  } catch (err) {
+    console.error("GET /api/subscriptions error:", err);
+    return NextResponse.json({ ok: false, error: "Failed to fetch subscriptions" }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { v2 as cloudinary } from "cloudinary";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export const runtime = "nodejs";
 
@@ -70,6 +72,16 @@ async function uploadBufferToCloudinary(
 }
 
 export async function POST(request: NextRequest) {
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(request, { permission: ["catalogue.manage", "classes.manage", "content.manage"] });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error("Auth check failed for POST /api/upload", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
   try {
     initCloudinary();
 
@@ -113,6 +125,13 @@ export async function POST(request: NextRequest) {
       duration: r.duration ?? null,
       bytes: r.bytes ?? null,
     }));
+    await recordAudit(request, session, {
+      action: "upload",
+      entityType: "media",
+      entityLabel: folder,
+      summary: `${responseFiles.length} file(s) uploaded to ${folder}`,
+      metadata: { files: responseFiles.map((f) => ({ publicId: f.publicId, resourceType: f.resourceType, bytes: f.bytes })) },
+    });
 
     return NextResponse.json({
       success: true,
@@ -4,11 +4,21 @@ import {
   deleteUser,
 } from "@/controllers/userController";
 import { NextRequest, NextResponse } from "next/server";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { revokeUserSessions } from "@/lib/adminSessions";
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
 
+  try {
+    const auth = await verifyAuthForApi(request, { permission: "users.manage" });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error("Auth check failed for GET /api/users/[id]", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
   try {
     const user = await getUserById(id);
     if (!user) {
@@ -23,11 +33,11 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
 
-  // Require authenticated user (no role checks)
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(request);
+    const auth = await verifyAuthForApi(request, { permission: "users.manage" });
     if (auth instanceof NextResponse) return auth;
-    // auth present — continue
+    session = auth;
   } catch (err) {
     console.error("Auth check failed for PUT /api/users/[id]", err);
     return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
@@ -35,30 +45,56 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
 
   try {
     const body = await request.json();
+    const before = await getUserById(id);
     await updateUser(id, body);
+    const after = await getUserById(id);
+    let summary: string | null = null;
+    if (body?.password) {
+      // A new password signs the account out everywhere (except the admin's own current session)
+      const signedOut = await revokeUserSessions(id, "password_changed", { exceptSessionId: session.sessionId });
+      summary = `Password changed; ${signedOut} session${signedOut === 1 ? "" : "s"} signed out`;
+    }
+    await recordAudit(request, session, {
+      action: "update",
+      entityType: "user",
+      entityId: id,
+      entityLabel: after?.username ?? before?.username ?? null,
+      summary,
+      before,
+      after,
+    });
     return NextResponse.json({ message: "User updated" });
   } catch (err) {
-    return NextResponse.json({ error: (err as Error).message }, { status: 500 });
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
   }
 }
 
 export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
 
-  // Require authenticated user (no role checks)
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(request);
+    const auth = await verifyAuthForApi(request, { permission: "users.manage" });
     if (auth instanceof NextResponse) return auth;
-    // auth present — continue
+    session = auth;
   } catch (err) {
     console.error("Auth check failed for DELETE /api/users/[id]", err);
     return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
   }
 
   try {
-    await deleteUser(id);
+    const before = await getUserById(id);
+    await deleteUser(id, session.userId);
+    await revokeUserSessions(id, "account_deleted");
+    await recordAudit(request, session, {
+      action: "delete",
+      entityType: "user",
+      entityId: id,
+      entityLabel: before?.username ?? null,
+      before,
+    });
     return NextResponse.json({ message: "User deleted" });
   } catch (err) {
-    return NextResponse.json({ error: (err as Error).message }, { status: 500 });
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
   }
-}
\ No newline at end of file
+}
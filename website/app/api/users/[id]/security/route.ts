@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { getUserById } from "@/controllers/userController";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { revokeUserSessions } from "@/lib/adminSessions";
+import { disableTwoFactor, unlockAccount } from "@/lib/adminLogin";
+
+const ACTIONS = {
+  sign_out_everywhere: "Signed out of every session",
+  reset_two_factor: "Two-factor sign-in reset; signed out of every session",
+  unlock: "Sign-in lockout cleared",
+} as const;
+type SecurityAction = keyof typeof ACTIONS;
+
+/**
+ * POST /api/users/:id/security  { action }
+ * Account recovery for another admin: sign them out everywhere, reset their
+ * two-factor sign-in (e.g. a lost phone) or lift a lockout.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let session: AdminSession;
+  try {
+    const auth = await verifyAuthForApi(request, { permission: "users.manage" });
+    if (auth instanceof NextResponse) return auth;
+    session = auth;
+  } catch (err) {
+    console.error("Auth check failed for POST /api/users/[id]/security", err);
+    return NextResponse.json({ error: "Authentication failed" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as { action?: unknown } | null;
+  const action = body?.action as SecurityAction;
+  if (typeof action !== "string" || !(action in ACTIONS)) {
+    return NextResponse.json(
+      { error: "action must be 'sign_out_everywhere', 'reset_two_factor' or 'unlock'" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await dbConnect();
+    const user = await getUserById(id);
+    if (!user) return NextResponse.json({ error: "User not found" }, { status: 404 });
+
+    let sessionsSignedOut = 0;
+    if (action === "unlock") {
+      await unlockAccount(id);
+    } else {
+      if (action === "reset_two_factor") await disableTwoFactor(id);
+      sessionsSignedOut = await revokeUserSessions(
+        id,
+        action === "reset_two_factor" ? "two_factor_reset" : "sign_out_everywhere"
+      );
+    }
+
+    await recordAudit(request, session, {
+      action,
+      entityType: "user",
+      entityId: id,
+      entityLabel: user.username ?? null,
+      summary: ACTIONS[action],
+      metadata: action === "unlock" ? null : { sessionsSignedOut },
+    });
+    return NextResponse.json({ message: ACTIONS[action], sessionsSignedOut });
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 400 });
+  }
+}
@@ -1,14 +1,18 @@
 import { NextResponse } from 'next/server';
-import { createUser, getAllUsers } from '@/controllers/userController';
-import { verifyToken } from '@/middleware/verifyToken';
+import crypto from 'crypto';
+import { countUsers, createFirstOwner, createUser, getAllUsers, getUserById } from '@/controllers/userController';
+import { verifyAuthForApi } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // App Router (route.js) handlers using next/server
 export async function GET(request) {
-  // 🔐 Verify token before any method
-  const user = verifyToken(request);
-  // if (!user) {
-  //   return NextResponse.json({ error: 'Unauthorized: Invalid or missing token' }, { status: 401 });
-  // }
+  try {
+    const auth = await verifyAuthForApi(request, { permission: 'users.manage' });
+    if (auth instanceof NextResponse) return auth;
+  } catch (err) {
+    console.error('Auth check failed for GET /api/users', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
 
   try {
     const users = await getAllUsers();
@@ -20,20 +24,54 @@ export async function GET(request) {
   }
 }
 
+// The first account is created with the ADMIN_SETUP_TOKEN from the environment, so
+// whoever reaches a fresh deploy first can't claim the shop
+function setupTokenMatches(request) {
+  const expected = process.env.ADMIN_SETUP_TOKEN;
+  const given = request.headers.get('X-Setup-Token') ?? '';
+  if (!expected) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
 export async function POST(request) {
-  // 🔐 Verify token before any method
-  // const user = verifyToken(request);
-  // if (!user) {
-  //   return NextResponse.json({ error: 'Unauthorized: Invalid or missing token' }, { status: 401 });
-  // }
+  // A fresh install has nobody to sign in as, so the very first account is created
+  // with the setup token instead — and is always an owner.
+  let firstAccount = false;
+  let session = null;
+  try {
+    firstAccount = (await countUsers()) === 0;
+    if (firstAccount) {
+      if (!process.env.ADMIN_SETUP_TOKEN) {
+        return NextResponse.json({ error: 'Set ADMIN_SETUP_TOKEN to create the first admin account' }, { status: 503 });
+      }
+      if (!setupTokenMatches(request)) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    } else {
+      const auth = await verifyAuthForApi(request, { permission: 'users.manage' });
+      if (auth instanceof NextResponse) return auth;
+      session = auth;
+    }
+  } catch (err) {
+    console.error('Auth check failed for POST /api/users', err);
+    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+  }
 
   try {
     const body = await request.json();
-    const id = await createUser(body);
+    const id = firstAccount ? await createFirstOwner(body) : await createUser(body);
+    const created = await getUserById(String(id));
+    await recordAudit(request, session, {
+      action: 'create',
+      entityType: 'user',
+      entityId: String(id),
+      entityLabel: created?.username ?? null,
+      after: created,
+    });
     const res = NextResponse.json({ message: 'User created', id }, { status: 201 });
     res.headers.set('Last-Modified', new Date().toUTCString());
     return res;
   } catch (err) {
-    return NextResponse.json({ error: err.message }, { status: 500 });
+    return NextResponse.json({ error: err.message }, { status: 400 });
   }
-}
\ No newline at end of file
+}
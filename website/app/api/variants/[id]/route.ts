@@ -3,7 +3,9 @@ import CoffeeVariant, { ICoffeeVariant } from "@/models/CoffeeVariant";
 import Coffee from "@/models/Coffee";
 import dbConnect from "@/lib/dbConnect";
 import { Types } from "mongoose";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { isTaxCategory, TAX_CATEGORIES } from "@/lib/vat";
 
 type Props = {
   params: Promise<{
@@ -72,9 +74,11 @@ export async function GET(request: NextRequest, { params }: Props) {
  * Update variant by ID
  */
 export async function PUT(request: NextRequest, { params }: Props) {
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(request);
+    const auth = await verifyAuthForApi(request, { permission: "catalogue.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
   } catch (err) {
     console.error("Auth check failed for PUT /api/variants/[id]", err);
     return NextResponse.json({ success: false, message: "Authentication failed" }, { status: 401 });
@@ -114,6 +118,16 @@ export async function PUT(request: NextRequest, { params }: Props) {
       }
     }
 
+    if (body.taxCategory !== undefined && !isTaxCategory(body.taxCategory)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Invalid taxCategory "${body.taxCategory}". Must be one of: ${TAX_CATEGORIES.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
     const variant = await CoffeeVariant.findById(id);
 
     if (!variant) {
@@ -128,8 +142,8 @@ export async function PUT(request: NextRequest, { params }: Props) {
     }
 
     const coffeeId = variant.coffeeId;
-    const updatableFields = ["size", "grind", "roastType", "price", "stock"];
-    const updateData: Partial<Pick<ICoffeeVariant, "size" | "grind" | "roastType" | "price" | "stock">> = {};
+    const updatableFields = ["size", "grind", "roastType", "price", "stock", "taxCategory"];
+    const updateData: Partial<Pick<ICoffeeVariant, "size" | "grind" | "roastType" | "price" | "stock" | "taxCategory">> = {};
 
     for (const field of updatableFields) {
       if (field in body) {
@@ -137,10 +151,19 @@ export async function PUT(request: NextRequest, { params }: Props) {
       }
     }
 
+    const before = variant.toObject();
     const updatedVariant = await CoffeeVariant.findByIdAndUpdate(id, updateData, {
       new: true,
       runValidators: true,
     });
+    await recordAudit(request, session, {
+      action: "update",
+      entityType: "variant",
+      entityId: id,
+      entityLabel: variant.sku,
+      before,
+      after: updatedVariant,
+    });
 
     const allVariants = await CoffeeVariant.find({ coffeeId });
     const prices = allVariants.map((v) => v.price);
@@ -201,9 +224,11 @@ export async function PUT(request: NextRequest, { params }: Props) {
  * Delete variant by ID
  */
 export async function DELETE(request: NextRequest, { params }: Props) {
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(request);
+    const auth = await verifyAuthForApi(request, { permission: "catalogue.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
   } catch (err) {
     console.error("Auth check failed for DELETE /api/variants/[id]", err);
     return NextResponse.json({ success: false, message: "Authentication failed" }, { status: 401 });
@@ -244,6 +269,14 @@ export async function DELETE(request: NextRequest, { params }: Props) {
     await CoffeeVariant.findByIdAndDelete(id);
 
     const remainingVariants = await CoffeeVariant.find({ coffeeId });
+    await recordAudit(request, session, {
+      action: "delete",
+      entityType: "variant",
+      entityId: id,
+      entityLabel: variant.sku,
+      before: variant,
+      metadata: { coffeeId: String(coffeeId), coffeeDeleted: remainingVariants.length === 0 },
+    });
 
     if (remainingVariants.length === 0) {
       await Coffee.findByIdAndDelete(coffeeId);
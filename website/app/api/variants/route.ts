@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import CoffeeVariant from "@/models/CoffeeVariant";
 import dbConnect from "@/lib/dbConnect";
-import { verifyAuthForApi } from "@/lib/auth";
+import { AdminSession, verifyAuthForApi } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { isTaxCategory } from "@/lib/vat";
 
 interface MongoError extends Error {
   code?: number;
@@ -47,9 +49,11 @@ export async function GET(request: NextRequest) {
  * Create new variant (protected - requires authentication)
  */
 export async function POST(request: NextRequest) {
+  let session: AdminSession;
   try {
-    const auth = await verifyAuthForApi(request);
+    const auth = await verifyAuthForApi(request, { permission: "catalogue.manage" });
     if (auth instanceof NextResponse) return auth;
+    session = auth;
   } catch (err) {
     console.error("Auth check failed for POST /api/variants", err);
     return NextResponse.json(
@@ -63,7 +67,7 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
 
-    const { coffeeId, sku, size, grind, roastType, price, stock, img } = body;
+    const { coffeeId, sku, size, grind, roastType, price, stock, img, taxCategory } = body;
 
     if (!coffeeId || !sku || !size || !grind || !roastType || price === undefined || stock === undefined) {
       return NextResponse.json(
@@ -95,9 +99,17 @@ export async function POST(request: NextRequest) {
       price,
       stock,
       img,
+      ...(isTaxCategory(taxCategory) ? { taxCategory } : {}),
     });
 
     await variant.save();
+    await recordAudit(request, session, {
+      action: "create",
+      entityType: "variant",
+      entityId: String(variant._id),
+      entityLabel: variant.sku,
+      after: variant,
+    });
     await variant.populate("coffeeId");
 
     return NextResponse.json(
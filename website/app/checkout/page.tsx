@@ -1,22 +1,39 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { loadStripe } from "@stripe/stripe-js";
 import { Elements } from "@stripe/react-stripe-js";
 import CheckoutForm from "@/app/Components/CheckoutForm";
-import useCart from "@/app/store/CartStore";
+import DiscountCodeField from "@/app/Components/DiscountCodeField";
+import GiftCardCodeField from "@/app/Components/GiftCardCodeField";
+import useCart, { SUBSCRIPTION_CADENCE_LABELS } from "@/app/store/CartStore";
 import Link from "next/link";
 import { ShoppingBag, Package, CreditCard } from "lucide-react";
 import Image from "next/image";
 import { getCloudinaryUrl } from "@/app/utils/cloudinary";
 import { useRouter } from "next/navigation";
-import { computeShippingPence } from "@/lib/shipping";
+import {
+  computeShippingPence,
+  selectShippingOption,
+  type ShippingQuoteOption,
+  type ShippingService,
+} from "@/lib/shipping";
 import { penceToPounds } from "@/lib/currency";
+import { splitGiftCardPayment } from "@/lib/giftCards";
 
 const stripePromise = loadStripe(
   process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY || ""
 );
 
+type ServerTotals = {
+  subtotal: number;
+  shipping: number;
+  discount: number;
+  total: number;
+  promotion: { code: string; label: string; freeShipping: boolean } | null;
+  giftCard: { code: string; appliedPence: number; availablePence: number } | null;
+};
+
 type Shortage = {
   id: string;
   name: string;
@@ -29,8 +46,15 @@ export default function CheckoutPage() {
   const items = useCart((s) => s.items);
   const getTotalPrice = useCart((s) => s.getTotalPrice);
   const openCart = useCart((s) => s.open);
+  const discountCode = useCart((s) => s.discountCode);
+  const setDiscountCode = useCart((s) => s.setDiscountCode);
+  const giftCardCode = useCart((s) => s.giftCardCode);
+  const setGiftCardCode = useCart((s) => s.setGiftCardCode);
+  const checkoutRecovery = useCart((s) => s.checkoutRecovery);
 
   const [clientSecret, setClientSecret] = useState<string | null>(null);
+  // Last PaymentIntent issued to this page; replacing it releases its stock hold
+  const issuedSecretRef = useRef<string | null>(null);
   const [loading, setLoading] = useState(false);
 
   const [mounted, setMounted] = useState(false);
@@ -39,6 +63,17 @@ export default function CheckoutPage() {
   const [shortages, setShortages] = useState<Shortage[] | null>(null);
   const [showShortageModal, setShowShortageModal] = useState<boolean>(false);
 
+  // Totals confirmed by the server when the PaymentIntent is created (includes any discount)
+  const [serverTotals, setServerTotals] = useState<ServerTotals | null>(null);
+  const [discountError, setDiscountError] = useState<string | null>(null);
+  const [giftCardError, setGiftCardError] = useState<string | null>(null);
+
+  // Delivery options for the basket, re-quoted once the customer's postcode is known
+  const [destination, setDestination] = useState<{ postcode: string; country: string } | null>(null);
+  const [shippingOptions, setShippingOptions] = useState<ShippingQuoteOption[] | null>(null);
+  const [shippingService, setShippingService] = useState<ShippingService>("standard");
+  const [shippingError, setShippingError] = useState<string | null>(null);
+
   // settings (pence)
   const [deliveryPence, setDeliveryPence] = useState<number>(499);
   const [thresholdPence, setThresholdPence] = useState<number>(3000);
@@ -73,14 +108,44 @@ export default function CheckoutPage() {
   // Derived values (only after mount to avoid hydration mismatch)
   const visibleItems = mounted ? items : [];
   const subtotal = mounted ? getTotalPrice() : 0; // in pounds
-  const subtotalPence = Math.round(subtotal * 100);
-  const shippingPence = computeShippingPence(subtotalPence, {
-    deliveryPricePence: deliveryPence,
-    freeDeliveryThresholdPence: thresholdPence,
-    freeDeliveryEnabled: freeEnabled,
-  });
+  // Gift cards are emailed: they don't ship or count towards free delivery
+  const giftCardLinesPence = visibleItems
+    .filter((it) => it.productType === "gift_card")
+    .reduce((sum, it) => sum + Math.round(it.price * 100) * it.quantity, 0);
+  const physicalSubtotal = penceToPounds(Math.round(subtotal * 100) - giftCardLinesPence);
+  const hasPhysicalItems = visibleItems.some((it) => it.productType !== "gift_card");
+  const estimatedShippingPence = hasPhysicalItems
+    ? computeShippingPence(Math.round(physicalSubtotal * 100), {
+        deliveryPricePence: deliveryPence,
+        freeDeliveryThresholdPence: thresholdPence,
+        freeDeliveryEnabled: freeEnabled,
+      })
+    : 0;
+  const selectedShipping = shippingOptions ? selectShippingOption(shippingOptions, shippingService) : null;
+  const freeShipping = !!serverTotals?.promotion?.freeShipping;
+  const shippingPence = freeShipping
+    ? 0
+    : selectedShipping
+      ? selectedShipping.pricePence
+      : serverTotals
+        ? Math.round(serverTotals.shipping * 100)
+        : estimatedShippingPence;
   const shipping = penceToPounds(shippingPence);
-  const total = mounted ? Math.round((subtotal + shipping) * 100) / 100 : 0;
+  const discount = serverTotals?.discount ?? 0;
+  const total = !mounted ? 0 : Math.round((subtotal - discount + shipping) * 100) / 100;
+  // Same split the server makes, re-run here so the delivery price chosen is reflected
+  const giftCardSplit = serverTotals?.giftCard
+    ? splitGiftCardPayment(Math.round(total * 100), serverTotals.giftCard.availablePence, giftCardLinesPence)
+    : null;
+  const amountDue = giftCardSplit ? penceToPounds(giftCardSplit.payablePence) : total;
+  // "Add £x more" nudge: the zone's free-delivery band when quoted, else the flat threshold
+  const freeFromPence = selectedShipping ? selectedShipping.freeFromPence : freeEnabled ? thresholdPence : null;
+
+  const handleDestinationChange = useCallback((next: { postcode: string; country: string }) => {
+    setDestination((prev) =>
+      prev && prev.postcode === next.postcode && prev.country === next.country ? prev : next
+    );
+  }, []);
 
   useEffect(() => {
     if (!mounted) return;
@@ -93,17 +158,50 @@ export default function CheckoutPage() {
         const res = await fetch("/api/create-payment-intent", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ items: visibleItems, shippingPence }),
+          body: JSON.stringify({
+            items: visibleItems,
+            discountCode: discountCode ?? undefined,
+            giftCardCode: giftCardCode ?? undefined,
+            previousClientSecret: issuedSecretRef.current ?? undefined,
+            checkoutRecovery: checkoutRecovery ?? undefined,
+          }),
         });
 
         const data = await res.json().catch(() => null);
 
         if (res.ok) {
           setClientSecret(data.clientSecret);
+          issuedSecretRef.current = data.clientSecret ?? null;
+          setServerTotals({
+            subtotal: Number(data.subtotal ?? 0),
+            shipping: Number(data.shipping ?? 0),
+            discount: Number(data.discount ?? 0),
+            total: Number(data.total ?? 0),
+            promotion: data.promotion ?? null,
+            giftCard: data.giftCard ?? null,
+          });
+          if (data.giftCard) setGiftCardError(null);
+          if (Array.isArray(data.shippingOptions)) {
+            // Keep a postcode-specific quote if one has already come back
+            setShippingOptions((prev) => prev ?? (data.shippingOptions as ShippingQuoteOption[]));
+          }
+          setShippingError(null);
           setShortages(null);
           setShowShortageModal(false);
         } else {
-          if (res.status === 409 && data && Array.isArray(data.shortages)) {
+          setServerTotals(null);
+          if (res.status === 422 && data?.error === "Shipping unavailable") {
+            setShippingError(data?.message || "We can't deliver this order.");
+            setClientSecret(null);
+          } else if (res.status === 422 && data?.error === "Invalid gift card" && giftCardCode) {
+            // Same as a rejected discount code: drop the gift card and try again without it
+            setGiftCardError(data?.message || "This gift card can't be used");
+            setGiftCardCode(null);
+          } else if (res.status === 422 && discountCode) {
+            // Code rejected server-side: drop it, which re-creates the intent without it
+            setDiscountError(data?.message || "This discount code is not valid");
+            setDiscountCode(null);
+          } else if (res.status === 409 && data && Array.isArray(data.shortages)) {
             setShortages(data.shortages as Shortage[]);
             setShowShortageModal(true);
           } else {
@@ -119,7 +217,39 @@ export default function CheckoutPage() {
     }
 
     createIntent();
-  }, [mounted, visibleItems, shippingPence]);
+  }, [mounted, visibleItems, discountCode, setDiscountCode, giftCardCode, setGiftCardCode, checkoutRecovery]);
+
+  // Re-quote delivery for the address being entered. The PaymentIntent isn't
+  // re-created: save-shipping re-prices it for this postcode and service on submit.
+  useEffect(() => {
+    if (!mounted || !destination || items.length === 0) return;
+    let active = true;
+    async function loadQuote() {
+      try {
+        const res = await fetch("/api/shipping/quote", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ items, ...destination }),
+        });
+        const json = await res.json().catch(() => null);
+        if (!active) return;
+        if (!res.ok || !json?.ok) throw new Error(json?.error || "Unable to quote shipping");
+        const options = json.data.options as ShippingQuoteOption[];
+        setShippingOptions(options);
+        setShippingError(
+          options.length === 0
+            ? "Sorry, we can't deliver this order to that postcode. Please contact us for a quote."
+            : null
+        );
+      } catch (err) {
+        console.error("Shipping quote failed", err);
+      }
+    }
+    loadQuote();
+    return () => {
+      active = false;
+    };
+  }, [mounted, destination, items]);
 
   const getImageSrc = (
     idOrUrl?: string,
@@ -226,6 +356,16 @@ export default function CheckoutPage() {
                             }`
                           : it.metadata?.brand}{" "}
                       </p>
+                      {it.giftCard && (
+                        <p className="text-xs text-gray-500 mt-1 truncate">
+                          For {it.giftCard.recipientName} · emailed to {it.giftCard.recipientEmail}
+                        </p>
+                      )}
+                      {it.cadence && (
+                        <p className="text-xs font-semibold text-amber-800 mt-1">
+                          Subscription · {SUBSCRIPTION_CADENCE_LABELS[it.cadence]}
+                        </p>
+                      )}
                       <p className="text-sm sm:text-sm text-gray-400 mt-1">
                         Qty: {it.quantity}
                       </p>
@@ -247,6 +387,23 @@ export default function CheckoutPage() {
                 )}
               </div>
 
+              {mounted && visibleItems.length > 0 && (
+                <div className="py-3 sm:py-4 border-t border-gray-200">
+                  <DiscountCodeField
+                    externalError={discountError}
+                    onPreview={(preview) => {
+                      if (preview) setDiscountError(null);
+                    }}
+                  />
+                  <div className="mt-2">
+                    <GiftCardCodeField
+                      appliedPence={giftCardSplit?.appliedPence ?? null}
+                      externalError={giftCardError}
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* Price Breakdown */}
               <div className="space-y-2 sm:space-y-3 py-3 sm:py-4 border-t border-gray-200">
                 <div className="flex justify-between text-sm sm:text-base">
@@ -255,8 +412,23 @@ export default function CheckoutPage() {
                     £{subtotal.toFixed(2)}
                   </span>
                 </div>
+                {discount > 0 && (
+                  <div className="flex justify-between text-sm sm:text-base">
+                    <span className="text-green-700">
+                      Discount{serverTotals?.promotion ? ` (${serverTotals.promotion.code})` : ""}
+                    </span>
+                    <span className="font-medium text-green-700">
+                      -£{discount.toFixed(2)}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm sm:text-base">
-                  <span className="text-gray-600">Shipping</span>
+                  <span className="text-gray-600">
+                    Shipping
+                    {selectedShipping && selectedShipping.zone !== "Default" && (
+                      <span className="block text-xs text-gray-400">{selectedShipping.zone}</span>
+                    )}
+                  </span>
                   <span className="font-medium text-black">
                     {shippingPence === 0 ? (
                       <span className="text-black">FREE</span>
@@ -265,6 +437,36 @@ export default function CheckoutPage() {
                     )}
                   </span>
                 </div>
+                {shippingOptions && shippingOptions.length > 1 && (
+                  <fieldset className="space-y-2">
+                    <legend className="sr-only">Delivery service</legend>
+                    {shippingOptions.map((o) => (
+                      <label
+                        key={o.service}
+                        className={`flex items-center justify-between gap-2 px-3 py-2 border rounded-lg text-sm cursor-pointer ${
+                          selectedShipping?.service === o.service ? "border-black bg-white" : "border-gray-200"
+                        }`}
+                      >
+                        <span className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name="shippingService"
+                            value={o.service}
+                            checked={selectedShipping?.service === o.service}
+                            onChange={() => setShippingService(o.service)}
+                          />
+                          {o.label}
+                        </span>
+                        <span className="font-medium">
+                          {freeShipping || o.pricePence === 0 ? "FREE" : `£${penceToPounds(o.pricePence).toFixed(2)}`}
+                        </span>
+                      </label>
+                    ))}
+                  </fieldset>
+                )}
+                {shippingError && (
+                  <p className="text-sm text-red-600">{shippingError}</p>
+                )}
               </div>
 
               {/* Total */}
@@ -277,19 +479,41 @@ export default function CheckoutPage() {
                     £{total.toFixed(2)}
                   </span>
                 </div>
+                {giftCardSplit && giftCardSplit.appliedPence > 0 && (
+                  <>
+                    <div className="flex justify-between text-sm sm:text-base mt-2">
+                      <span className="text-green-700">Gift card ({serverTotals?.giftCard?.code})</span>
+                      <span className="font-medium text-green-700">
+                        -£{penceToPounds(giftCardSplit.appliedPence).toFixed(2)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center mt-1">
+                      <span className="text-base font-bold text-black">To pay</span>
+                      <span className="text-lg font-bold text-black">£{amountDue.toFixed(2)}</span>
+                    </div>
+                  </>
+                )}
               </div>
 
-              {mounted && subtotal < penceToPounds(thresholdPence) && (
+              {mounted && shippingPence > 0 && freeFromPence !== null && physicalSubtotal < penceToPounds(freeFromPence) && (
                 <div className="mt-3 sm:mt-4 p-2 sm:p-3 bg-black text-white rounded-lg text-center">
                   <p className="text-sm sm:text-base">
                     Add{" "}
                     <strong>
-                      £{(penceToPounds(thresholdPence) - subtotal).toFixed(2)}
+                      £{(penceToPounds(freeFromPence) - physicalSubtotal).toFixed(2)}
                     </strong>{" "}
                     more for free shipping!
                   </p>
                 </div>
               )}
+
+              {visibleItems.some((it) => it.cadence) && (
+                <div className="mt-3 sm:mt-4 p-2 sm:p-3 border border-amber-200 bg-amber-50 rounded-lg text-xs sm:text-sm text-amber-900">
+                  Your card will be saved and charged automatically for each
+                  subscription delivery. You can skip, pause, swap or cancel
+                  any time from the link in your confirmation email.
+                </div>
+              )}
             </div>
           </aside>
 
@@ -321,9 +545,13 @@ export default function CheckoutPage() {
               <Elements stripe={stripePromise} options={{ clientSecret }}>
                 {/* pass shippingPence to CheckoutForm so server-side flow can use it if needed */}
                 <CheckoutForm
-                  total={total}
+                  total={amountDue}
                   clientSecret={clientSecret}
                   shippingPence={shippingPence}
+                  shippingService={selectedShipping?.service ?? shippingService}
+                  freeShipping={freeShipping}
+                  onDestinationChange={handleDestinationChange}
+                  giftCardCoversTotal={!!giftCardSplit?.coversTotal}
                 />
               </Elements>
             ) : showShortageModal ? (
@@ -0,0 +1,145 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Loader2, ShoppingBag } from "lucide-react";
+import useCart, { type CartItem, type ProductType } from "@/app/store/CartStore";
+import type { ICheckoutSessionItem } from "@/models/CheckoutSession";
+import type { SubscriptionCadence } from "@/models/Subscription";
+
+const RESTORABLE_TYPES: ProductType[] = ["coffee", "equipment", "accessory", "subscription"];
+
+function toCartItem(it: ICheckoutSessionItem): CartItem | null {
+  if (!RESTORABLE_TYPES.includes(it.productType as ProductType)) return null;
+  return {
+    id: it.id,
+    productType: it.productType as ProductType,
+    productId: it.productId,
+    variantId: it.variantId,
+    name: it.name,
+    price: it.price,
+    quantity: it.quantity,
+    img: it.img ?? "",
+    size: it.size,
+    grind: it.grind,
+    sku: it.sku,
+    roastType: it.roastType,
+    cadence: it.cadence as SubscriptionCadence | undefined,
+  };
+}
+
+/**
+ * Landing page for abandoned-checkout email links: puts the saved cart back and
+ * continues to checkout, or (action=unsubscribe) stops the emails.
+ */
+export default function RecoverCheckoutClient({
+  sessionId,
+  sig,
+  unsubscribe,
+}: {
+  sessionId: string;
+  sig: string;
+  unsubscribe: boolean;
+}) {
+  const router = useRouter();
+  const restoreCart = useCart((s) => s.restoreCart);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [unsubscribed, setUnsubscribed] = useState(false);
+
+  useEffect(() => {
+    if (unsubscribe) return;
+    let active = true;
+    async function restore() {
+      if (!sessionId || !sig) {
+        setError("This link is incomplete. Please use the link from your email.");
+        return;
+      }
+      try {
+        const res = await fetch(
+          `/api/checkout-recovery/${encodeURIComponent(sessionId)}?sig=${encodeURIComponent(sig)}`
+        );
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't find your basket");
+        if (!active) return;
+        const items = (json.data.items as ICheckoutSessionItem[])
+          .map(toCartItem)
+          .filter((it): it is CartItem => it !== null);
+        if (items.length === 0) throw new Error("Your basket is empty");
+        restoreCart(items, { sessionId, sig }, json.data.discountCode ?? null);
+        router.replace("/checkout");
+      } catch (err) {
+        if (active) setError(err instanceof Error ? err.message : "We couldn't find your basket");
+      }
+    }
+    restore();
+    return () => {
+      active = false;
+    };
+  }, [sessionId, sig, unsubscribe, restoreCart, router]);
+
+  async function handleUnsubscribe() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/checkout-recovery/${encodeURIComponent(sessionId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sig, action: "unsubscribe" }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't unsubscribe you");
+      setUnsubscribed(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "We couldn't unsubscribe you");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 mt-10 sm:px-6 lg:px-8">
+      <div className="max-w-lg mx-auto text-center space-y-4">
+        <ShoppingBag className="w-10 h-10 mx-auto text-gray-400" />
+        {unsubscribe ? (
+          unsubscribed ? (
+            <>
+              <h1 className="text-2xl font-bold text-black">You&apos;re unsubscribed</h1>
+              <p className="text-gray-600">We won&apos;t send you basket reminders or marketing emails any more.</p>
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold text-black">Unsubscribe from emails?</h1>
+              <p className="text-gray-600">
+                You&apos;ll stop getting basket reminders and marketing emails. Order confirmations still arrive as usual.
+              </p>
+              <button
+                onClick={handleUnsubscribe}
+                disabled={busy || !sessionId || !sig}
+                className="bg-black hover:bg-gray-800 text-white font-bold py-3 px-6 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {busy ? "Unsubscribing…" : "Unsubscribe"}
+              </button>
+            </>
+          )
+        ) : error ? (
+          <>
+            <h1 className="text-2xl font-bold text-black">We couldn&apos;t restore your basket</h1>
+            <p className="text-gray-600">{error}</p>
+          </>
+        ) : (
+          <p className="inline-flex items-center gap-2 text-gray-600">
+            <Loader2 className="animate-spin" size={16} /> Restoring your basket…
+          </p>
+        )}
+        {error && unsubscribe && <p className="text-sm text-red-600">{error}</p>}
+        {(error || unsubscribed) && (
+          <Link href="/coffee" className="inline-block underline text-black font-semibold">
+            Continue shopping
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import React from "react";
+import RecoverCheckoutClient from "./RecoverCheckoutClient";
+
+export const metadata = {
+  title: "Your basket | Coffee Genius",
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = { session?: string; sig?: string; action?: string };
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  // The session/sig pair comes from the link in an abandoned-checkout email
+  const { session, sig, action } = await searchParams;
+  return <RecoverCheckoutClient sessionId={session ?? ""} sig={sig ?? ""} unsubscribe={action === "unsubscribe"} />;
+}
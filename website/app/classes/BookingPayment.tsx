@@ -0,0 +1,96 @@
+"use client";
+
+import React, { useState } from "react";
+import { loadStripe } from "@stripe/stripe-js";
+import { Elements, CardElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { Lock } from "lucide-react";
+
+/*
+  Card step for a paid class booking. The booking is already held as pending;
+  the Stripe webhook confirms it once the payment succeeds. A declined card
+  keeps the hold, so the error is shown here and the customer can try another
+  card on the same PaymentIntent.
+*/
+
+const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY || "");
+
+const cardStyle = {
+  style: {
+    base: {
+      fontSize: "16px",
+      color: "#000000",
+      fontFamily: '"Inter", sans-serif',
+      "::placeholder": { color: "#9CA3AF" },
+    },
+    invalid: { color: "#dc2626" },
+  },
+};
+
+type Props = {
+  clientSecret: string;
+  amountLabel: string;
+  name: string;
+  email: string;
+  onPaid: () => void;
+  onCancel: () => void;
+};
+
+function PaymentForm({ clientSecret, amountLabel, name, email, onPaid, onCancel }: Props) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [paying, setPaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function pay(e: React.FormEvent) {
+    e.preventDefault();
+    const card = elements?.getElement(CardElement);
+    if (!stripe || !card) return;
+
+    setPaying(true);
+    setError(null);
+    try {
+      const result = await stripe.confirmCardPayment(clientSecret, {
+        payment_method: { card, billing_details: { name, ...(email ? { email } : {}) } },
+      });
+      if (result.error) {
+        setError(result.error.message || "Payment failed");
+      } else if (result.paymentIntent?.status === "succeeded" || result.paymentIntent?.status === "processing") {
+        onPaid();
+      } else {
+        setError("Payment was not completed");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Payment failed");
+    } finally {
+      setPaying(false);
+    }
+  }
+
+  return (
+    <form onSubmit={pay} className="space-y-4 flex-1">
+      <div className="border border-gray-200 rounded px-3 py-3">
+        <CardElement options={cardStyle} />
+      </div>
+      <div className="text-xs text-gray-600 flex items-center gap-1">
+        <Lock size={12} /> Your seats are held for 30 minutes while you pay.
+      </div>
+      {error && <div className="text-sm text-red-600">{error}. Please check your details or try another card.</div>}
+      <div className="mt-4 flex gap-2">
+        <button type="submit" disabled={paying || !stripe} className="flex-1 py-2 rounded bg-black text-white disabled:opacity-50">
+          {paying ? "Processing..." : `Pay ${amountLabel}`}
+        </button>
+        <button type="button" onClick={onCancel} disabled={paying} className="py-2 px-3 rounded border">
+          Back
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function BookingPayment(props: Props) {
+  return (
+    <Elements stripe={stripePromise} options={{ clientSecret: props.clientSecret }}>
+      <PaymentForm {...props} />
+    </Elements>
+  );
+}
@@ -24,8 +24,12 @@ import {
   ChevronRight,
   Sparkles,
 } from "lucide-react";
+import BookingPayment from "./BookingPayment";
 
 /* ----------------------------- Types ------------------------------ */
+// capacity/remaining come from /api/classes; absent when the API didn't send them
+type CourseSession = { id: string; start: string; end: string; capacity?: number; remaining?: number };
+
 type Course = {
   id: string;
   title: string;
@@ -40,7 +44,7 @@ type Course = {
   instructor: { name: string; avatar?: string; bio?: string };
   image?: string;
   featured?: boolean;
-  sessions: { id: string; start: string; end: string }[];
+  sessions: CourseSession[];
   thingsToNote?: string[];
   furtherInformation?: string;
   location?: string;
@@ -295,7 +299,10 @@ export default function CoffeeClassesPage() {
   const [phone, setPhone] = useState("");
   const [attendees, setAttendees] = useState(1);
   const [submitting, setSubmitting] = useState(false);
-  const [confirmation, setConfirmation] = useState<{ ref: string; courseId: string } | null>(null);
+  const [confirmation, setConfirmation] = useState<{ ref: string; courseId: string; paid?: boolean } | null>(null);
+  // Set while a paid booking is held waiting for the card payment
+  const [payment, setPayment] = useState<{ clientSecret: string; bookingRef: string; amount: number } | null>(null);
+  const [waitlisted, setWaitlisted] = useState<{ position: number; partySize: number } | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
 
   const [isFlipped, setIsFlipped] = useState(false);
@@ -374,7 +381,7 @@ export default function CoffeeClassesPage() {
         const mapped: Course[] = rawData.map((c: unknown, idx: number) => {
           const rec = c && typeof c === "object" ? (c as Record<string, unknown>) : {};
 
-          const sessions: { id: string; start: string; end: string }[] =
+          const sessions: CourseSession[] =
             (Array.isArray(rec.sessions) ? (rec.sessions as unknown[]) : [])
               .map((s: unknown, sIdx: number) => {
                 const sRec = s && typeof s === "object" ? (s as Record<string, unknown>) : {};
@@ -384,7 +391,13 @@ export default function CoffeeClassesPage() {
                   `${toString(rec._id) || toString(rec.id) || `generated-${idx}`}-s-${sIdx}`;
                 const start = toString(sRec.start) || toString(sRec.startDate) || toString(sRec.startTime) || "";
                 const end = toString(sRec.end) || toString(sRec.endDate) || toString(sRec.endTime) || "";
-                return { id, start, end };
+                return {
+                  id,
+                  start,
+                  end,
+                  capacity: typeof sRec.capacity === "number" ? sRec.capacity : undefined,
+                  remaining: typeof sRec.remaining === "number" ? sRec.remaining : undefined,
+                };
               });
 
           // instructor normalization
@@ -469,16 +482,28 @@ export default function CoffeeClassesPage() {
       setAttendees(1);
       setSubmitting(false);
       setConfirmation(null);
+      setPayment(null);
+      setWaitlisted(null);
       setFormError(null);
       setIsFlipped(false);
     } else {
-      // default to first upcoming session (skip expired)
-      const firstFuture = selectedCourse.sessions.find((s) => !isSessionExpired(s));
+      // default to first upcoming session (skip expired and sold out)
+      const firstFuture = selectedCourse.sessions.find((s) => !isSessionExpired(s) && s.remaining !== 0);
       setSelectedSessionId(firstFuture && typeof firstFuture.id === "string" ? firstFuture.id : null);
       setIsFlipped(false);
     }
   }, [selectedCourse, isSessionExpired]);
 
+  // Seats left per session from the latest fetch; selectedCourse is a snapshot from when the modal opened
+  const liveSessions = useMemo(() => {
+    const live = courses.find((c) => c.id === selectedCourse?.id) ?? selectedCourse;
+    return new Map((live?.sessions ?? []).map((s) => [s.id, s]));
+  }, [courses, selectedCourse]);
+  const seatsLeft = useCallback((sessionId: string | null) => (sessionId ? liveSessions.get(sessionId)?.remaining : undefined), [liveSessions]);
+  // Not enough seats left for the party: the form joins the session's waitlist instead of booking
+  const selectedSeatsLeft = seatsLeft(selectedSessionId);
+  const joiningWaitlist = selectedSeatsLeft !== undefined && attendees > selectedSeatsLeft;
+
   const filtered = useMemo(() => {
     const q = debouncedQuery.trim().toLowerCase();
     if (!q) return courses;
@@ -536,6 +561,7 @@ export default function CoffeeClassesPage() {
       return;
     }
     setFormError(null);
+    if (joiningWaitlist) return joinWaitlist();
     setSubmitting(true);
 
     try {
@@ -562,14 +588,21 @@ export default function CoffeeClassesPage() {
             ? toString((body as Record<string, unknown>).message) || `Booking failed (${res.status})`
             : `Booking failed (${res.status})`;
         setFormError(message);
+        // Sold out or short of seats: show the current numbers
+        if (res.status === 409) await fetchCourses(debouncedQuery);
         return;
       }
 
       // successful booking — prefer server bookingRef
+      const record = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
       const bookingRef =
-        body && typeof body === "object" && typeof (body as Record<string, unknown>).bookingRef === "string"
-          ? ((body as Record<string, unknown>).bookingRef as string)
-          : `CG-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+        typeof record.bookingRef === "string" ? record.bookingRef : `CG-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+
+      // Paid classes are held until the card payment goes through
+      if (typeof record.clientSecret === "string" && record.clientSecret) {
+        setPayment({ clientSecret: record.clientSecret, bookingRef, amount: toNumber(record.amount, 0) });
+        return;
+      }
       setConfirmation({ ref: bookingRef, courseId: selectedCourse!.id });
 
       // Refresh courses to pick up updated availability (server-side cleanup/capacity)
@@ -587,6 +620,44 @@ export default function CoffeeClassesPage() {
     }
   }
 
+  async function joinWaitlist() {
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/classes/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          courseId: selectedCourse!.id,
+          sessionId: selectedSessionId,
+          name,
+          email,
+          phone,
+          partySize: attendees,
+        }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body?.ok) {
+        setFormError(toString(body?.error) || `Could not join the waitlist (${res.status})`);
+        // Seats came free since the listing loaded: show them so the customer can book
+        if (body?.code === "seats_available") await fetchCourses(debouncedQuery);
+        return;
+      }
+      setWaitlisted({ position: toNumber(body.data?.position, 1), partySize: attendees });
+    } catch (e: unknown) {
+      console.error("Waitlist error", e);
+      setFormError(e instanceof Error ? e.message : "Could not join the waitlist");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const handlePaid = useCallback(async () => {
+    if (!payment || !selectedCourse) return;
+    setConfirmation({ ref: payment.bookingRef, courseId: selectedCourse.id, paid: true });
+    setPayment(null);
+    await fetchCourses(debouncedQuery);
+  }, [payment, selectedCourse, fetchCourses, debouncedQuery]);
+
   const handleFlipToForm = useCallback(() => setIsFlipped(true), []);
   const handleFlipBack = useCallback(() => setIsFlipped(false), []);
 
@@ -780,10 +851,20 @@ export default function CoffeeClassesPage() {
                   <h3 className="text-2xl font-black mb-4 flex items-center gap-3">
                     <Calendar className="w-5 h-5" />
                     Available Sessions
+                    {!selectedCourse.id.startsWith("anon-") && (
+                      <a
+                        href={`/api/classes/${encodeURIComponent(selectedCourse.id)}/calendar`}
+                        className="ml-auto text-xs font-semibold text-gray-500 underline"
+                      >
+                        Add dates to calendar
+                      </a>
+                    )}
                   </h3>
                   <div className="space-y-3">
                     {selectedCourse.sessions.map((s) => {
                       const expired = isSessionExpired(s);
+                      const left = seatsLeft(s.id);
+                      const soldOut = !expired && left === 0;
                       return (
                         <button
                           key={s.id}
@@ -799,7 +880,7 @@ export default function CoffeeClassesPage() {
                               : "bg-white border-gray-200 hover:border-gray-300"
                           }`}
                           aria-disabled={expired}
-                          title={expired ? "This session has already passed" : undefined}
+                          title={expired ? "This session has already passed" : soldOut ? "Sold out — join the waitlist" : undefined}
                         >
                           <div>
                             <div className={`font-semibold ${expired ? "line-through" : ""}`}>{formatDateLabel(s.start)}</div>
@@ -808,8 +889,15 @@ export default function CoffeeClassesPage() {
 
                           {expired ? (
                             <div className="text-xs font-semibold px-2 py-1 rounded-full bg-red-100 text-red-700">Expired</div>
+                          ) : soldOut ? (
+                            <div className="text-xs font-semibold px-2 py-1 rounded-full bg-gray-200 text-gray-700">Sold out · Waitlist</div>
                           ) : (
                             <div className="text-sm text-gray-500 flex items-center gap-2">
+                              {left !== undefined && (
+                                <span className={`text-xs font-semibold ${selectedSessionId === s.id ? "text-gray-300" : ""}`}>
+                                  {left} {left === 1 ? "seat" : "seats"} left
+                                </span>
+                              )}
                               <ChevronRight />
                             </div>
                           )}
@@ -905,8 +993,39 @@ export default function CoffeeClassesPage() {
                             <div className="mx-auto w-20 h-20 rounded-full bg-black text-white flex items-center justify-center mb-4"><CheckCircle /></div>
                             <h4 className="text-xl font-bold mb-2">Booking Confirmed</h4>
                             <div className="font-mono text-lg font-bold">{confirmation.ref}</div>
+                            {confirmation.paid && (
+                              <p className="text-sm text-gray-600 mt-3">Payment received — your confirmation email is on its way.</p>
+                            )}
                             <div className="mt-6"><button onClick={() => closeModal()} className="px-6 py-2 rounded border">Done</button></div>
                           </div>
+                        ) : waitlisted ? (
+                          <div className="text-center py-8">
+                            <div className="mx-auto w-20 h-20 rounded-full bg-black text-white flex items-center justify-center mb-4"><CheckCircle /></div>
+                            <h4 className="text-xl font-bold mb-2">You&apos;re on the waitlist</h4>
+                            <div className="font-mono text-lg font-bold">#{waitlisted.position}</div>
+                            <p className="text-sm text-gray-600 mt-3">
+                              If {waitlisted.partySize === 1 ? "a seat comes" : `${waitlisted.partySize} seats come`} free we&apos;ll email {email} a link to
+                              claim {waitlisted.partySize === 1 ? "it" : "them"}.
+                            </p>
+                            <div className="mt-6"><button onClick={() => closeModal()} className="px-6 py-2 rounded border">Done</button></div>
+                          </div>
+                        ) : payment ? (
+                          <>
+                            <div className="mb-4">
+                              <h4 className="text-lg font-bold">Payment</h4>
+                              <div className="text-sm text-gray-600">
+                                Booking <span className="font-mono">{payment.bookingRef}</span> · {money(payment.amount)}
+                              </div>
+                            </div>
+                            <BookingPayment
+                              clientSecret={payment.clientSecret}
+                              amountLabel={money(payment.amount)}
+                              name={name}
+                              email={email}
+                              onPaid={handlePaid}
+                              onCancel={() => setPayment(null)}
+                            />
+                          </>
                         ) : (
                           <>
                             <div className="mb-4 flex items-center justify-between">
@@ -937,7 +1056,19 @@ export default function CoffeeClassesPage() {
                                   onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAttendees(Number(e.target.value))}
                                   className="w-full border border-gray-200 rounded px-3 py-2"
                                 >
-                                  {Array.from({ length: Math.min(6, selectedCourse!.maxPeople ?? selectedCourse!.capacity) }, (_, i) => i + 1).map((n) => (
+                                  {Array.from(
+                                    {
+                                      length: Math.max(
+                                        1,
+                                        Math.min(
+                                          6,
+                                          selectedCourse!.maxPeople ?? selectedCourse!.capacity,
+                                          (selectedSessionId ? liveSessions.get(selectedSessionId)?.capacity : undefined) ?? Infinity
+                                        )
+                                      ),
+                                    },
+                                    (_, i) => i + 1
+                                  ).map((n) => (
                                     <option value={n} key={n}>{n} {n === 1 ? "person" : "people"}</option>
                                   ))}
                                 </select>
@@ -954,21 +1085,40 @@ export default function CoffeeClassesPage() {
                                   <option value="" disabled>Select a session...</option>
                                   {selectedCourse.sessions
                                     .filter((s) => !isSessionExpired(s)) // only upcoming sessions here
-                                    .map((s) => (
-                                      <option key={s.id} value={s.id}>
-                                        {formatDateLabel(s.start)} — {formatTimeRange(s.start, s.end)}
-                                      </option>
-                                    ))}
+                                    .map((s) => {
+                                      const left = seatsLeft(s.id);
+                                      return (
+                                        <option key={s.id} value={s.id}>
+                                          {formatDateLabel(s.start)} — {formatTimeRange(s.start, s.end)}
+                                          {left === 0 ? " (sold out — join waitlist)" : left !== undefined ? ` (${left} left)` : ""}
+                                        </option>
+                                      );
+                                    })}
                                 </select>
                                 {selectedCourse.sessions.every((s) => isSessionExpired(s)) && (
                                   <p className="text-xs text-red-600 mt-2">No upcoming sessions available for booking.</p>
                                 )}
                               </div>
 
+                              {joiningWaitlist && (
+                                <div className="text-sm text-gray-600 p-3 rounded bg-gray-50">
+                                  {selectedSeatsLeft === 0
+                                    ? "This session is sold out."
+                                    : `Only ${selectedSeatsLeft} ${selectedSeatsLeft === 1 ? "seat is" : "seats are"} left on this session.`}{" "}
+                                  Join the waitlist and we&apos;ll email you if enough seats come free.
+                                </div>
+                              )}
+
                               {formError && <div className="text-sm text-red-600">{formError}</div>}
 
                               <div className="mt-4 flex gap-2">
-                                <button type="submit" disabled={submitting} className="flex-1 py-2 rounded bg-black text-white">{submitting ? "Processing..." : "Confirm Booking"}</button>
+                                <button type="submit" disabled={submitting} className="flex-1 py-2 rounded bg-black text-white">{submitting
+                                    ? "Processing..."
+                                    : joiningWaitlist
+                                      ? "Join waitlist"
+                                      : selectedCourse.price > 0
+                                      ? `Continue to payment (${money(selectedCourse.price * attendees)})`
+                                      : "Confirm Booking"}</button>
                                 <button type="button" onClick={handleFlipBack} className="py-2 px-3 rounded border">Cancel</button>
                               </div>
                             </form>
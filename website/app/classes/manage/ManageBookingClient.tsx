@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Calendar, Loader2 } from "lucide-react";
+import type { ManageableBooking } from "@/lib/manageBooking";
+
+function money(n: number) {
+  return `£${n.toFixed(2)}`;
+}
+
+function sessionLabel(start: string | null, end: string | null) {
+  if (!start) return "Date to be confirmed";
+  const s = new Date(start);
+  const date = s.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+  const time = (d: Date) => d.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+  return `${date}, ${time(s)}${end ? ` – ${time(new Date(end))}` : ""}`;
+}
+
+export default function ManageBookingClient(props: { bookingId: string; exp: string; sig: string }) {
+  const { bookingId } = props;
+  // Moving the booking signs a new link, so the signature can change under us
+  const [{ exp, sig }, setLink] = useState({ exp: props.exp, sig: props.sig });
+  const [booking, setBooking] = useState<ManageableBooking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [moveTo, setMoveTo] = useState("");
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!bookingId || !exp || !sig) {
+      setError("This booking link is incomplete. Please use the link from your confirmation email.");
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ booking: bookingId, exp, sig });
+      const res = await fetch(`/api/booking/manage?${params.toString()}`, { cache: "no-store" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't load this booking");
+      setBooking(json.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "We couldn't load this booking");
+    } finally {
+      setLoading(false);
+    }
+  }, [bookingId, exp, sig]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function change(action: "cancel" | "reschedule") {
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/booking/manage", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ booking: bookingId, exp, sig, action, sessionId: action === "reschedule" ? moveTo : undefined }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't change this booking");
+      setBooking(json.data.booking);
+      if (json.data.link) {
+        setLink({ exp: json.data.link.exp, sig: json.data.link.sig });
+        window.history.replaceState(null, "", `/classes/manage?${new URLSearchParams(json.data.link).toString()}`);
+      }
+      setMoveTo("");
+      setConfirmingCancel(false);
+      if (action === "reschedule") {
+        setNotice("Your booking has been moved. We've emailed you an updated confirmation.");
+      } else if (json.data.refundFailed) {
+        setNotice("Your booking has been cancelled. We couldn't refund your card automatically, so we'll be in touch about your refund.");
+      } else if (json.data.refundAmount > 0) {
+        setNotice(`Your booking has been cancelled and ${money(json.data.refundAmount)} is on its way back to your card.`);
+      } else {
+        setNotice("Your booking has been cancelled.");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "We couldn't change this booking");
+      // Seats may have gone in the meantime
+      if (action === "reschedule") load();
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  return (
+    <main className="bg-white text-gray-900 min-h-screen py-12 mt-24">
+      <div className="max-w-lg mx-auto px-4 sm:px-6">
+        <h1 className="text-2xl font-bold mb-6">Manage your booking</h1>
+
+        {loading && !booking ? (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="animate-spin" size={18} /> Loading your booking…
+          </div>
+        ) : !booking ? (
+          <div className="p-4 rounded-lg bg-red-50 text-red-800 text-sm">
+            {error}{" "}
+            <Link href="/classes" className="underline">
+              See our classes
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="rounded-2xl border border-gray-200 p-6 bg-white shadow space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-bold">{booking.courseTitle}</h2>
+                  <div className="text-sm text-gray-600 mt-1 flex items-center gap-1.5">
+                    <Calendar size={14} /> {sessionLabel(booking.sessionStart, booking.sessionEnd)}
+                  </div>
+                  {booking.location && <div className="text-xs text-gray-500 mt-1">{booking.location}</div>}
+                </div>
+                <div className="text-right text-sm">
+                  <div className="font-mono text-xs text-gray-500">{booking.bookingRef}</div>
+                  <div className={booking.status === "cancelled" ? "text-gray-500" : "text-green-700"}>
+                    {booking.status === "cancelled" ? "Cancelled" : booking.status === "pending" ? "Awaiting payment" : "Confirmed"}
+                  </div>
+                </div>
+              </div>
+              <div className="text-sm">
+                {booking.attendees} {booking.attendees === 1 ? "place" : "places"}
+                {booking.amount > 0 && ` · ${money(booking.amount)} paid`}
+                {booking.refundedAmount > 0 && ` · ${money(booking.refundedAmount)} refunded`}
+              </div>
+            </div>
+
+            {notice && <div className="p-3 rounded-lg bg-green-50 text-green-800 text-sm">{notice}</div>}
+            {error && <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>}
+
+            {booking.blocker ? (
+              booking.status !== "cancelled" && <div className="p-3 rounded-lg bg-gray-50 text-sm text-gray-700">{booking.blocker}</div>
+            ) : (
+              <>
+                {booking.changesCloseAt && (
+                  <p className="text-sm text-gray-600">
+                    You can cancel or move this booking online until {new Date(booking.changesCloseAt).toLocaleString()}.
+                  </p>
+                )}
+
+                <section className="rounded-xl border border-gray-200 p-5 space-y-3">
+                  <h3 className="font-semibold">Move to another date</h3>
+                  {booking.sessions.length === 0 ? (
+                    <p className="text-sm text-gray-600">There are no other dates with room for your party at the moment.</p>
+                  ) : (
+                    <>
+                      <select
+                        value={moveTo}
+                        onChange={(e) => setMoveTo(e.target.value)}
+                        className="w-full border border-gray-200 rounded px-3 py-2 text-sm"
+                      >
+                        <option value="">Choose a date…</option>
+                        {booking.sessions.map((s) => (
+                          <option key={s.id} value={s.id}>
+                            {sessionLabel(s.start, s.end)} ({s.remaining} left)
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => change("reschedule")}
+                        disabled={!moveTo || working}
+                        className="w-full py-2 rounded bg-black text-white disabled:opacity-50"
+                      >
+                        {working ? "Processing..." : "Move my booking"}
+                      </button>
+                    </>
+                  )}
+                </section>
+
+                <section className="rounded-xl border border-gray-200 p-5 space-y-3">
+                  <h3 className="font-semibold">Cancel booking</h3>
+                  <p className="text-sm text-gray-600">
+                    {booking.refundAmount > 0
+                      ? `Cancelling now refunds ${money(booking.refundAmount)} to your card.`
+                      : booking.amount > 0
+                        ? "Cancelling now doesn't include a refund."
+                        : "Your places will be offered to someone else."}
+                  </p>
+                  {confirmingCancel ? (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => change("cancel")}
+                        disabled={working}
+                        className="flex-1 py-2 rounded bg-red-600 text-white disabled:opacity-50"
+                      >
+                        {working ? "Processing..." : "Yes, cancel my booking"}
+                      </button>
+                      <button onClick={() => setConfirmingCancel(false)} disabled={working} className="py-2 px-3 rounded border">
+                        Keep it
+                      </button>
+                    </div>
+                  ) : (
+                    <button onClick={() => setConfirmingCancel(true)} className="w-full py-2 rounded border border-red-200 text-red-600">
+                      Cancel booking
+                    </button>
+                  )}
+                </section>
+              </>
+            )}
+
+            {booking.history.length > 0 && (
+              <section>
+                <h3 className="font-semibold text-sm mb-2">Changes</h3>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  {booking.history.map((h, i) => (
+                    <li key={i}>
+                      {new Date(h.at).toLocaleDateString()}:{" "}
+                      {h.action === "rescheduled"
+                        ? `moved from ${sessionLabel(h.fromSessionStart, null)} to ${sessionLabel(h.toSessionStart, null)}`
+                        : `cancelled${h.refundAmount ? `, ${money(h.refundAmount)} refunded` : ""}`}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,15 @@
+import React from "react";
+import ManageBookingClient from "./ManageBookingClient";
+
+export const metadata = {
+  title: "Manage your booking | Coffee Genius",
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = { booking?: string; exp?: string; sig?: string };
+
+export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  // Signed link from the booking confirmation email or the account page
+  const { booking, exp, sig } = await searchParams;
+  return <ManageBookingClient bookingId={booking ?? ""} exp={exp ?? ""} sig={sig ?? ""} />;
+}
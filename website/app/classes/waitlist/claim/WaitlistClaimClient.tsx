@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { CheckCircle, Loader2 } from "lucide-react";
+import BookingPayment from "../../BookingPayment";
+
+type Offer = {
+  courseTitle: string;
+  sessionStart: string | null;
+  sessionEnd: string | null;
+  name: string;
+  partySize: number;
+  amount: number;
+  status: "waiting" | "offered" | "claimed" | "expired" | "cancelled";
+  offerExpiresAt: string | null;
+};
+
+function money(n: number) {
+  return `£${n.toFixed(2)}`;
+}
+
+function sessionLabel(start: string | null, end: string | null) {
+  if (!start) return "Date to be confirmed";
+  const s = new Date(start);
+  const date = s.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+  const time = (d: Date) => d.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+  return `${date}, ${time(s)}${end ? ` – ${time(new Date(end))}` : ""}`;
+}
+
+export default function WaitlistClaimClient({ token }: { token: string }) {
+  const [offer, setOffer] = useState<Offer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [claiming, setClaiming] = useState(false);
+  const [payment, setPayment] = useState<{ clientSecret: string; bookingRef: string; amount: number } | null>(null);
+  // The claim can't be repeated, so going back from the card form keeps the payment to return to
+  const [paying, setPaying] = useState(false);
+  const [booked, setBooked] = useState<{ ref: string; paid: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError("This link is incomplete. Please use the link from your email.");
+      return;
+    }
+    (async () => {
+      try {
+        const res = await fetch(`/api/classes/waitlist/claim?token=${encodeURIComponent(token)}`);
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !json.ok) throw new Error(json.error || "This link is not valid");
+        setOffer(json.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "This link is not valid");
+      }
+    })();
+  }, [token]);
+
+  async function claim() {
+    if (payment) {
+      setPaying(true);
+      return;
+    }
+    setClaiming(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/classes/waitlist/claim", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't claim the seats");
+      if (json.data.clientSecret) {
+        setPayment({ clientSecret: json.data.clientSecret, bookingRef: json.data.bookingRef, amount: json.data.amount });
+        setPaying(true);
+      } else {
+        setBooked({ ref: json.data.bookingRef, paid: false });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "We couldn't claim the seats");
+    } finally {
+      setClaiming(false);
+    }
+  }
+
+  const closed = offer && offer.status !== "offered";
+
+  return (
+    <main className="bg-white text-gray-900 min-h-screen py-12 mt-24">
+      <div className="max-w-md mx-auto px-4 sm:px-6">
+        {booked ? (
+          <div className="text-center py-8">
+            <div className="mx-auto w-20 h-20 rounded-full bg-black text-white flex items-center justify-center mb-4">
+              <CheckCircle />
+            </div>
+            <h1 className="text-xl font-bold mb-2">Booking Confirmed</h1>
+            <div className="font-mono text-lg font-bold">{booked.ref}</div>
+            <p className="text-sm text-gray-600 mt-3">
+              {booked.paid ? "Payment received — your confirmation email is on its way." : "Your confirmation email is on its way."}
+            </p>
+            <Link href="/classes" className="inline-block mt-6 px-6 py-2 rounded border">
+              Back to classes
+            </Link>
+          </div>
+        ) : !offer ? (
+          error ? (
+            <div className="p-4 rounded-lg bg-red-50 text-red-800 text-sm">
+              {error}{" "}
+              <Link href="/classes" className="underline">
+                See our classes
+              </Link>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-gray-600">
+              <Loader2 className="animate-spin" size={18} /> Loading your offer…
+            </div>
+          )
+        ) : (
+          <div className="rounded-2xl border border-gray-200 p-6 bg-white shadow space-y-4">
+            <div>
+              <h1 className="text-xl font-bold">{offer.courseTitle}</h1>
+              <div className="text-sm text-gray-600 mt-1">{sessionLabel(offer.sessionStart, offer.sessionEnd)}</div>
+            </div>
+            <div className="text-sm space-y-1">
+              <div>
+                <span className="font-semibold">Places:</span> {offer.partySize} {offer.partySize === 1 ? "person" : "people"}
+              </div>
+              {offer.amount > 0 && (
+                <div>
+                  <span className="font-semibold">To pay:</span> {money(offer.amount)}
+                </div>
+              )}
+              {offer.status === "offered" && offer.offerExpiresAt && (
+                <div className="text-gray-600">Held for you until {new Date(offer.offerExpiresAt).toLocaleString()}</div>
+              )}
+            </div>
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+
+            {closed ? (
+              <div className="p-3 rounded-lg bg-gray-50 text-sm text-gray-700">
+                {offer.status === "claimed"
+                  ? "These seats have already been claimed."
+                  : offer.status === "expired"
+                    ? "Sorry — this offer has expired and the seats have gone to the next person on the waitlist."
+                    : "This offer is no longer available."}
+              </div>
+            ) : payment && paying ? (
+              <BookingPayment
+                clientSecret={payment.clientSecret}
+                amountLabel={money(payment.amount)}
+                name={offer.name}
+                email=""
+                onPaid={() => {
+                  setBooked({ ref: payment.bookingRef, paid: true });
+                  setPayment(null);
+                }}
+                onCancel={() => setPaying(false)}
+              />
+            ) : (
+              <button
+                onClick={claim}
+                disabled={claiming}
+                className="w-full py-3 rounded-xl bg-black text-white font-bold disabled:opacity-50"
+              >
+                {claiming
+                  ? "Processing..."
+                  : payment
+                    ? `Continue to payment (${money(payment.amount)})`
+                    : offer.amount > 0
+                      ? `Claim and pay (${money(offer.amount)})`
+                      : "Claim my places"}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
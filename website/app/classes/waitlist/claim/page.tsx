@@ -0,0 +1,15 @@
+import React from "react";
+import WaitlistClaimClient from "./WaitlistClaimClient";
+
+export const metadata = {
+  title: "Claim your class place | Coffee Genius",
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = { token?: string };
+
+export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  // The token comes from the waitlist offer email
+  const { token } = await searchParams;
+  return <WaitlistClaimClient token={token ?? ""} />;
+}
@@ -121,8 +121,8 @@ export default function ShopPage({ params }: { params: { slug?: string } }) {
       try {
         setLoading(true);
         const url = slug
-          ? `/api/coffee?search=${encodeURIComponent(slug)}`
-          : "/api/coffee";
+          ? `/api/coffee?search=${encodeURIComponent(slug)}&stock=available`
+          : "/api/coffee?stock=available";
         const response = await fetch(url);
         if (!response.ok) throw new Error("Failed to fetch products");
         const data = await response.json();
@@ -18,8 +18,13 @@ import {
   X,
   Minus,
   Plus,
+  Repeat,
 } from "lucide-react";
-import useCart, { CartItem } from "../../store/CartStore";
+import useCart, {
+  CartItem,
+  SUBSCRIPTION_CADENCE_LABELS,
+} from "../../store/CartStore";
+import type { SubscriptionCadence } from "@/models/Subscription";
 import {
   getCloudinaryUrl,
   getCloudinaryVideo,
@@ -352,6 +357,10 @@ export default function ProductDetailPage() {
   >(null);
   const [quantity, setQuantity] = useState(1);
   const [isAdded, setIsAdded] = useState(false);
+  const [purchaseMode, setPurchaseMode] = useState<"once" | "subscribe">(
+    "once"
+  );
+  const [cadence, setCadence] = useState<SubscriptionCadence>("fortnightly");
   const [activeAccordion, setActiveAccordion] = useState<string | null>(
     "details"
   );
@@ -454,7 +463,7 @@ export default function ProductDetailPage() {
       try {
         setLoading(true);
         const response = await fetch(
-          `/api/coffee/${encodeURIComponent(productId)}`
+          `/api/coffee/${encodeURIComponent(productId)}?stock=available`
         );
 
         if (!response.ok) {
@@ -581,7 +590,7 @@ export default function ProductDetailPage() {
           setVideoMap(detectedVideoMap);
         });
 
-        fetch("/api/coffee")
+        fetch("/api/coffee?stock=available")
           .then((allResponse) => {
             if (!allResponse.ok) return;
             return allResponse.json();
@@ -920,9 +929,13 @@ export default function ProductDetailPage() {
         ? "decaf"
         : variantRoast || product.roastType || "";
 
+    const isSubscription = purchaseMode === "subscribe";
     const cartItem: Omit<CartItem, "quantity"> = {
-      id: selectedVariant._id,
-      productType: "coffee",
+      // Subscription lines get their own cart id so they don't merge with one-off bags
+      id: isSubscription
+        ? `${selectedVariant._id}:sub:${cadence}`
+        : selectedVariant._id,
+      productType: isSubscription ? "subscription" : "coffee",
       productId: product.id,
       variantId: selectedVariant._id,
       name: `${product.name} — ${selectedSize} — ${selectedGrind}`,
@@ -933,6 +946,7 @@ export default function ProductDetailPage() {
       sku: selectedVariant.sku,
       stock: selectedVariant.stock,
       roastType: roastLabel,
+      ...(isSubscription ? { cadence } : {}),
     };
 
     addItem(cartItem, quantity);
@@ -1820,6 +1834,62 @@ export default function ProductDetailPage() {
                   </div>
                 </div>
 
+                {/* ── Purchase option ── */}
+                <div className="px-5 pb-4">
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setPurchaseMode("once")}
+                      className={`py-2.5 rounded-xl border-2 text-sm font-semibold transition-colors cursor-pointer ${
+                        purchaseMode === "once"
+                          ? "border-zinc-900 bg-zinc-900 text-white"
+                          : "border-zinc-200 text-zinc-700 hover:border-zinc-400"
+                      }`}
+                    >
+                      One-time purchase
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setPurchaseMode("subscribe")}
+                      className={`py-2.5 rounded-xl border-2 text-sm font-semibold transition-colors cursor-pointer inline-flex items-center justify-center gap-1.5 ${
+                        purchaseMode === "subscribe"
+                          ? "border-zinc-900 bg-zinc-900 text-white"
+                          : "border-zinc-200 text-zinc-700 hover:border-zinc-400"
+                      }`}
+                    >
+                      <Repeat size={14} />
+                      Subscribe
+                    </button>
+                  </div>
+                  {purchaseMode === "subscribe" && (
+                    <div className="mt-3">
+                      <label className="block text-xs font-semibold text-zinc-600 mb-1.5">
+                        Deliver
+                      </label>
+                      <select
+                        value={cadence}
+                        onChange={(e) =>
+                          setCadence(e.target.value as SubscriptionCadence)
+                        }
+                        className="w-full border-2 border-zinc-200 rounded-xl px-3 py-2.5 text-sm font-medium bg-white"
+                      >
+                        {(
+                          Object.keys(
+                            SUBSCRIPTION_CADENCE_LABELS
+                          ) as SubscriptionCadence[]
+                        ).map((c) => (
+                          <option key={c} value={c}>
+                            {SUBSCRIPTION_CADENCE_LABELS[c]}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="mt-2 text-[11px] text-zinc-500">
+                        Skip, pause, swap or cancel any time.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 {/* ── Add to Cart Button ── */}
                 <div className="px-5 pb-5 pt-1">
                   <button
@@ -1863,8 +1933,14 @@ export default function ProductDetailPage() {
                       </>
                     ) : (
                       <>
-                        <ShoppingCart size={18} />
-                        Add to Cart — £{totalPrice.toFixed(2)}
+                        {purchaseMode === "subscribe" ? (
+                          <Repeat size={18} />
+                        ) : (
+                          <ShoppingCart size={18} />
+                        )}
+                        {purchaseMode === "subscribe"
+                          ? `Subscribe — £${totalPrice.toFixed(2)} / delivery`
+                          : `Add to Cart — £${totalPrice.toFixed(2)}`}
                       </>
                     )}
                   </button>
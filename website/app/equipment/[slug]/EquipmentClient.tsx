@@ -118,7 +118,7 @@ export default function EquipmentDetailPage() {
     const fetchProduct = async () => {
       try {
         setLoading(true);
-        const res = await fetch(`/api/equipment/${encodeURIComponent(slug)}`);
+        const res = await fetch(`/api/equipment/${encodeURIComponent(slug)}?stock=available`);
         if (!res.ok) throw new Error("Failed to fetch equipment");
 
         const json = await res.json();
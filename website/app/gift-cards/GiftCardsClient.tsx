@@ -0,0 +1,237 @@
+"use client";
+
+import React, { useState } from "react";
+import { Gift, Loader2 } from "lucide-react";
+import useCart from "@/app/store/CartStore";
+import {
+  GIFT_CARD_MAX_PENCE,
+  GIFT_CARD_MESSAGE_MAX_LENGTH,
+  GIFT_CARD_MIN_PENCE,
+  GIFT_CARD_PRESET_PENCE,
+  GIFT_CARD_PRODUCT_ID,
+  GIFT_CARD_VALIDITY_MONTHS,
+  isValidGiftCardAmountPence,
+  parseGiftCardRecipient,
+} from "@/lib/giftCards";
+
+/**
+ * Gift card page (client)
+ *
+ * - Adds an emailed gift card to the cart (one cart line per recipient)
+ * - Balance check for an existing code via POST /api/gift-cards/check
+ */
+
+const inputClass =
+  "w-full px-3 py-2 text-base rounded-lg border-2 border-gray-300 focus:ring-2 focus:ring-black focus:border-black";
+
+export default function GiftCardsClient() {
+  const addItem = useCart((s) => s.addItem);
+
+  const [amountPence, setAmountPence] = useState<number>(GIFT_CARD_PRESET_PENCE[1]);
+  const [customAmount, setCustomAmount] = useState("");
+  const [recipientName, setRecipientName] = useState("");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [senderName, setSenderName] = useState("");
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const [balanceCode, setBalanceCode] = useState("");
+  const [balance, setBalance] = useState<{ balancePence: number; expiresAt: string | null } | null>(null);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const chosenPence = customAmount ? Math.round(Number(customAmount) * 100) : amountPence;
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (!isValidGiftCardAmountPence(chosenPence)) {
+      setError(
+        `Please choose an amount between £${(GIFT_CARD_MIN_PENCE / 100).toFixed(0)} and £${(GIFT_CARD_MAX_PENCE / 100).toFixed(0)}.`
+      );
+      return;
+    }
+
+    let recipient;
+    try {
+      recipient = parseGiftCardRecipient({ recipientName, recipientEmail, senderName, message });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Please check the recipient details.");
+      return;
+    }
+
+    const price = chosenPence / 100;
+    addItem({
+      id: `${GIFT_CARD_PRODUCT_ID}-${Date.now()}`,
+      productType: "gift_card",
+      productId: GIFT_CARD_PRODUCT_ID,
+      name: `Gift card £${price.toFixed(2)}`,
+      price,
+      img: "",
+      giftCard: recipient,
+    });
+
+    setRecipientName("");
+    setRecipientEmail("");
+    setMessage("");
+  }
+
+  async function handleCheckBalance(e: React.FormEvent) {
+    e.preventDefault();
+    if (!balanceCode.trim()) return;
+    setChecking(true);
+    setBalance(null);
+    setBalanceError(null);
+    try {
+      const res = await fetch("/api/gift-cards/check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: balanceCode }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (res.ok && json.ok) {
+        setBalance({ balancePence: Number(json.data.balancePence ?? 0), expiresAt: json.data.expiresAt ?? null });
+      } else {
+        setBalanceError(json.error || "This gift card code is not valid");
+      }
+    } catch (err) {
+      console.error("Gift card balance check failed", err);
+      setBalanceError("Unable to check gift card");
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-white py-8 px-4 mt-10 sm:px-6 lg:px-8">
+      <div className="max-w-3xl mx-auto space-y-8">
+        <header>
+          <h1 className="text-3xl lg:text-4xl font-bold text-black mb-2 flex items-center gap-3">
+            <Gift className="w-8 h-8" />
+            Gift Cards
+          </h1>
+          <p className="text-gray-600">
+            Emailed straight to them with a printable card. Spend it on coffee, equipment and classes; valid for{" "}
+            {GIFT_CARD_VALIDITY_MONTHS / 12} years and any balance left carries over.
+          </p>
+        </header>
+
+        <form onSubmit={handleAdd} noValidate className="bg-gray-50 border-2 border-gray-200 rounded-lg p-4 sm:p-6 space-y-5">
+          <fieldset>
+            <legend className="block text-base font-medium text-black mb-2">Amount</legend>
+            <div className="flex flex-wrap gap-2">
+              {GIFT_CARD_PRESET_PENCE.map((p) => (
+                <button
+                  key={p}
+                  type="button"
+                  onClick={() => {
+                    setAmountPence(p);
+                    setCustomAmount("");
+                  }}
+                  className={`px-4 py-2 rounded-lg border-2 font-semibold ${
+                    !customAmount && amountPence === p ? "border-black bg-black text-white" : "border-gray-300 bg-white"
+                  }`}
+                >
+                  £{(p / 100).toFixed(0)}
+                </button>
+              ))}
+              <input
+                type="number"
+                inputMode="decimal"
+                min={GIFT_CARD_MIN_PENCE / 100}
+                max={GIFT_CARD_MAX_PENCE / 100}
+                step="1"
+                value={customAmount}
+                onChange={(e) => setCustomAmount(e.target.value)}
+                placeholder="Other amount"
+                aria-label="Other amount in pounds"
+                className="w-36 px-3 py-2 rounded-lg border-2 border-gray-300"
+              />
+            </div>
+          </fieldset>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-black mb-1" htmlFor="gc-recipient-name">
+                Recipient&apos;s name *
+              </label>
+              <input id="gc-recipient-name" className={inputClass} value={recipientName} onChange={(e) => setRecipientName(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-black mb-1" htmlFor="gc-recipient-email">
+                Recipient&apos;s email *
+              </label>
+              <input
+                id="gc-recipient-email"
+                type="email"
+                className={inputClass}
+                value={recipientEmail}
+                onChange={(e) => setRecipientEmail(e.target.value)}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-black mb-1" htmlFor="gc-sender-name">
+                From
+              </label>
+              <input id="gc-sender-name" className={inputClass} value={senderName} onChange={(e) => setSenderName(e.target.value)} />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-black mb-1" htmlFor="gc-message">
+                Message
+              </label>
+              <textarea
+                id="gc-message"
+                rows={3}
+                maxLength={GIFT_CARD_MESSAGE_MAX_LENGTH}
+                className={inputClass}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {message.length}/{GIFT_CARD_MESSAGE_MAX_LENGTH}
+              </p>
+            </div>
+          </div>
+
+          {error && <div className="bg-red-50 border-2 border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>}
+
+          <button
+            type="submit"
+            className="w-full bg-black hover:bg-gray-800 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+          >
+            Add £{Number.isFinite(chosenPence) ? (chosenPence / 100).toFixed(2) : "0.00"} gift card to cart
+          </button>
+        </form>
+
+        <section className="border-2 border-gray-200 rounded-lg p-4 sm:p-6">
+          <h2 className="text-lg font-bold text-black mb-3">Check a balance</h2>
+          <form onSubmit={handleCheckBalance} className="flex gap-2">
+            <input
+              type="text"
+              value={balanceCode}
+              onChange={(e) => setBalanceCode(e.target.value)}
+              placeholder="GC-XXXX-XXXX-XXXX"
+              aria-label="Gift card code"
+              className="flex-1 min-w-0 rounded-lg border border-gray-200 px-3 py-2 text-sm uppercase"
+            />
+            <button
+              type="submit"
+              disabled={checking || !balanceCode.trim()}
+              className="px-4 py-2 rounded-lg border border-gray-900 text-sm font-semibold hover:bg-gray-900 hover:text-white disabled:opacity-40"
+            >
+              {checking ? <Loader2 size={16} className="animate-spin" /> : "Check"}
+            </button>
+          </form>
+          {balance && (
+            <p className="mt-3 text-sm text-green-800">
+              Balance £{(balance.balancePence / 100).toFixed(2)}
+              {balance.expiresAt ? ` · valid until ${new Date(balance.expiresAt).toLocaleDateString("en-GB")}` : ""}
+            </p>
+          )}
+          {balanceError && <p className="mt-3 text-sm text-red-600">{balanceError}</p>}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import React from "react";
+import type { Metadata } from "next";
+import GiftCardsClient from "./GiftCardsClient";
+
+const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || `http://localhost:${process.env.PORT ?? 3000}`).replace(/\/$/, "");
+const OG_IMAGE = "/og-image.JPG";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const pageUrl = `${SITE_URL}/gift-cards`;
+  const title = "Gift Cards — Coffee Genius";
+  const description =
+    "Send a Coffee Genius gift card by email. Choose an amount, add a message and it arrives straight away with a printable card.";
+  const ogUrl = `${SITE_URL}${OG_IMAGE}`;
+
+  return {
+    title,
+    description,
+    metadataBase: new URL(SITE_URL),
+    alternates: { canonical: pageUrl },
+    openGraph: {
+      title,
+      description,
+      url: pageUrl,
+      siteName: "Coffee Genius",
+      images: [{ url: ogUrl, width: 1200, height: 630 }],
+      type: "website",
+      locale: "en_GB",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [ogUrl],
+    },
+  };
+}
+
+export default function Page() {
+  return <GiftCardsClient />;
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import Link from "next/link";
+import { useState, FormEvent } from "react";
+import { Mail } from "lucide-react";
+
+export default function ForgotPasswordPage() {
+  const [identifier, setIdentifier] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+
+    try {
+      const res = await fetch("/api/login/forgot", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ identifier }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to send reset link");
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send reset link");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center py-12 px-4"
+      style={{ background: "linear-gradient(135deg, #111827 0%, #6b7280 100%)" }}
+    >
+      <div className="w-full max-w-md rounded-3xl bg-white p-8 sm:p-10 shadow-2xl">
+        <h1 className="text-2xl font-semibold text-slate-900 mb-1">Reset your password</h1>
+
+        {sent ? (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              If that account has an email address on file, a reset link is on its way. It works once and expires in
+              30 minutes.
+            </p>
+            <p className="text-sm text-slate-600">
+              No email address on your account? Ask the store owner to set a new password for you.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <p className="text-sm text-slate-500">
+              Enter your admin username or the email address on your account and we&apos;ll email you a link to choose a
+              new password.
+            </p>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Mail className="h-5 w-5 text-slate-400" />
+              </div>
+              <input
+                type="text"
+                value={identifier}
+                onChange={(e) => setIdentifier(e.target.value)}
+                required
+                placeholder="Username or email"
+                autoComplete="username"
+                className="block w-full pl-10 pr-3 py-3 border border-slate-200 rounded-lg bg-white text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#111827] focus:border-[#111827] transition"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full py-3 px-4 rounded-lg text-white font-semibold bg-[#111827] disabled:bg-slate-400"
+            >
+              {loading ? "Sending…" : "Email me a reset link"}
+            </button>
+            {error && <div className="text-sm text-center px-4 py-3 rounded-lg bg-rose-50 text-rose-800">{error}</div>}
+          </form>
+        )}
+
+        <div className="mt-6 text-sm">
+          <Link href="/login" className="underline text-slate-600">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
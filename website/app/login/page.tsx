@@ -1,9 +1,10 @@
 "use client";
 
 import Image from "next/image";
+import Link from "next/link";
 import { useState, FormEvent } from "react";
 import { useRouter } from "next/navigation";
-import { Lock, User, Eye, EyeOff, ShieldCheck } from "lucide-react";
+import { Lock, User, Eye, EyeOff, ShieldCheck, KeyRound } from "lucide-react";
 
 const logoSrc = "/logo.png";
 
@@ -12,13 +13,13 @@ interface LoginForm {
   password: string;
 }
 
-interface LoginResponseSuccess {
-  token: string;
-  role?: string;
-}
-
-interface LoginResponseError {
-  error: string;
+interface LoginResponse {
+  message?: string;
+  error?: string;
+  // Set when the account uses two-factor sign-in; the code goes to /api/login/2fa with the challenge
+  twoFactorRequired?: boolean;
+  challenge?: string;
+  recoveryCodesLeft?: number;
 }
 
 export default function AdminLogin() {
@@ -27,6 +28,25 @@ export default function AdminLogin() {
   const [message, setMessage] = useState<string>("");
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const signedIn = (data: LoginResponse) => {
+    const lowOnCodes = data.recoveryCodesLeft !== undefined && data.recoveryCodesLeft <= 3;
+    setMessage(
+      lowOnCodes
+        ? `Admin login successful. Only ${data.recoveryCodesLeft} recovery codes left — make new ones under My Account.`
+        : "Admin login successful. Redirecting to admin area…"
+    );
+    localStorage.setItem("username", form.username);
+    setTimeout(
+      () => {
+        router.push(lowOnCodes ? "/admin/account" : "/admin");
+      },
+      lowOnCodes ? 2500 : 900
+    );
+  };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -39,16 +59,15 @@ export default function AdminLogin() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(form),
       });
+      const data: LoginResponse = await res.json().catch(() => ({}));
 
-      if (res.ok) {
-        const data: LoginResponseSuccess = await res.json();
-        setMessage("Admin login successful. Redirecting to admin area…");
-        localStorage.setItem("username", form.username);
-        setTimeout(() => {
-          router.push("/admin");
-        }, 900);
+      if (res.ok && data.twoFactorRequired && data.challenge) {
+        setChallenge(data.challenge);
+        setCode("");
+        setUseRecoveryCode(false);
+      } else if (res.ok) {
+        signedIn(data);
       } else {
-        const data: LoginResponseError = await res.json();
         setMessage(data.error || "Invalid admin credentials.");
       }
     } catch {
@@ -58,6 +77,70 @@ export default function AdminLogin() {
     }
   };
 
+  const handleCodeSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setMessage("");
+
+    try {
+      const res = await fetch("/api/login/2fa", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(useRecoveryCode ? { challenge, recoveryCode: code } : { challenge, code }),
+      });
+      const data: LoginResponse = await res.json().catch(() => ({}));
+
+      if (res.ok) {
+        signedIn(data);
+      } else {
+        // An expired challenge means starting again from the password
+        if (res.status === 401 && data.error?.includes("expired")) setChallenge(null);
+        setMessage(data.error || "That code is not valid.");
+      }
+    } catch {
+      setMessage("An unexpected error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const spinner = (
+    <svg
+      className="animate-spin -ml-1 mr-2 h-5 w-5 text-white"
+      xmlns="http://www.w3.org/2000/svg"
+      fill="none"
+      viewBox="0 0 24 24"
+    >
+      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+      <path
+        className="opacity-75"
+        fill="currentColor"
+        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
+      ></path>
+    </svg>
+  );
+
+  const submitClass = `w-full inline-flex items-center justify-center gap-2 py-3 px-4 rounded-lg text-white font-semibold shadow-sm transition ${
+    loading
+      ? "bg-slate-400 cursor-not-allowed"
+      : "bg-linear-to-r from-[#111827] to-[#6b7280] hover:from-[#0b1020] hover:to-[#575b62] transform hover:-translate-y-0.5"
+  }`;
+
+  const messageBox = message && (
+    <div
+      role="status"
+      aria-live="polite"
+      className="text-sm text-center font-medium px-4 py-3 rounded-lg"
+      style={{
+        backgroundColor: message.toLowerCase().includes("successful") ? "#ecfdf5" : "#fff1f2",
+        color: message.toLowerCase().includes("successful") ? "#065f46" : "#9f1239",
+        border: "1px solid rgba(0,0,0,0.04)",
+      }}
+    >
+      {message}
+    </div>
+  );
+
   return (
     <div
       className="min-h-screen flex items-center justify-center py-12 px-4"
@@ -87,12 +170,13 @@ export default function AdminLogin() {
               </span>
               <div>
                 <div className="font-medium">Secure access</div>
-                <div className="text-xs text-white/80">Account protection recommended (MFA, strong passwords)</div>
+                <div className="text-xs text-white/80">Turn on two-factor sign-in under My Account</div>
               </div>
             </div>
 
             <div className="mt-8 text-xs text-white/60">
-              If you lost access, contact the store owner or system administrator.
+              Lost the phone with your authenticator app? Sign in with a recovery code, or ask the store owner to reset
+              two-factor sign-in for you.
             </div>
           </div>
 
@@ -105,123 +189,154 @@ export default function AdminLogin() {
 
             <h1 className="text-2xl font-semibold text-slate-900 mb-1">Admin sign in</h1>
             <p className="text-sm text-slate-500 mb-6">
-              Use your administrator account to access the admin dashboard.
+              {challenge
+                ? useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when you set up two-factor sign-in."
+                  : "Enter the 6-digit code from your authenticator app."
+                : "Use your administrator account to access the admin dashboard."}
             </p>
 
-            <form onSubmit={handleSubmit} className="space-y-5">
-              <div>
-                <label htmlFor="username" className="block text-sm font-medium text-slate-700 mb-2">
-                  Admin username
-                </label>
-                <div className="relative">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <User className="h-5 w-5 text-slate-400" />
+            {challenge ? (
+              <form onSubmit={handleCodeSubmit} className="space-y-5">
+                <div>
+                  <label htmlFor="code" className="block text-sm font-medium text-slate-700 mb-2">
+                    {useRecoveryCode ? "Recovery code" : "Authentication code"}
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <KeyRound className="h-5 w-5 text-slate-400" />
+                    </div>
+                    <input
+                      id="code"
+                      type="text"
+                      inputMode={useRecoveryCode ? "text" : "numeric"}
+                      placeholder={useRecoveryCode ? "xxxx-xxxx" : "123456"}
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      required
+                      autoFocus
+                      className="block w-full pl-10 pr-3 py-3 border border-slate-200 rounded-lg bg-white text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#111827] focus:border-[#111827] transition tracking-widest"
+                      autoComplete="one-time-code"
+                    />
                   </div>
-                  <input
-                    id="username"
-                    type="text"
-                    placeholder="admin"
-                    value={form.username}
-                    onChange={(e) => setForm({ ...form, username: e.target.value })}
-                    required
-                    className="block w-full pl-10 pr-3 py-3 border border-slate-200 rounded-lg bg-white text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#111827] focus:border-[#111827] transition"
-                    autoComplete="username"
-                  />
                 </div>
-              </div>
 
-              <div>
-                <label htmlFor="password" className="block text-sm font-medium text-slate-700 mb-2">
-                  Password
-                </label>
-                <div className="relative">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <Lock className="h-5 w-5 text-slate-400" />
-                  </div>
-                  <input
-                    id="password"
-                    type={showPassword ? "text" : "password"}
-                    placeholder="••••••••"
-                    value={form.password}
-                    onChange={(e) => setForm({ ...form, password: e.target.value })}
-                    required
-                    className="block w-full pl-10 pr-12 py-3 border border-slate-200 rounded-lg bg-white text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#111827] focus:border-[#111827] transition"
-                    autoComplete="current-password"
-                  />
+                <div className="flex items-center justify-between text-sm text-slate-500">
                   <button
                     type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute inset-y-0 right-0 pr-3 flex items-center text-slate-500"
-                    aria-label={showPassword ? "Hide password" : "Show password"}
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setCode("");
+                    }}
+                    className="underline"
                   >
-                    {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                    {useRecoveryCode ? "Use an authenticator code" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setChallenge(null);
+                      setMessage("");
+                    }}
+                    className="underline"
+                  >
+                    Start over
                   </button>
                 </div>
-              </div>
 
-              <div className="flex items-center justify-between text-sm text-slate-500">
-                <label className="flex items-center gap-2">
-                  <input type="checkbox" className="h-4 w-4 rounded border-slate-300" />
-                  <span>Remember this device</span>
-                </label>
-              
-              </div>
+                <div>
+                  <button type="submit" disabled={loading} className={submitClass}>
+                    {loading ? (
+                      <>
+                        {spinner}
+                        Verifying…
+                      </>
+                    ) : (
+                      "Verify and sign in"
+                    )}
+                  </button>
+                </div>
 
-              <div>
-                <button
-                  type="submit"
-                  disabled={loading}
-                  className={`w-full inline-flex items-center justify-center gap-2 py-3 px-4 rounded-lg text-white font-semibold shadow-sm transition ${
-                    loading
-                      ? "bg-slate-400 cursor-not-allowed"
-                      : "bg-linear-to-r from-[#111827] to-[#6b7280] hover:from-[#0b1020] hover:to-[#575b62] transform hover:-translate-y-0.5"
-                  }`}
-                >
-                  {loading ? (
-                    <>
-                      <svg
-                        className="animate-spin -ml-1 mr-2 h-5 w-5 text-white"
-                        xmlns="http://www.w3.org/2000/svg"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                      >
-                        <circle
-                          className="opacity-25"
-                          cx="12"
-                          cy="12"
-                          r="10"
-                          stroke="currentColor"
-                          strokeWidth="4"
-                        ></circle>
-                        <path
-                          className="opacity-75"
-                          fill="currentColor"
-                          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
-                        ></path>
-                      </svg>
-                      Signing in…
-                    </>
-                  ) : (
-                    "Sign in to admin"
-                  )}
-                </button>
-              </div>
+                {messageBox}
+              </form>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-5">
+                <div>
+                  <label htmlFor="username" className="block text-sm font-medium text-slate-700 mb-2">
+                    Admin username
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <User className="h-5 w-5 text-slate-400" />
+                    </div>
+                    <input
+                      id="username"
+                      type="text"
+                      placeholder="admin"
+                      value={form.username}
+                      onChange={(e) => setForm({ ...form, username: e.target.value })}
+                      required
+                      className="block w-full pl-10 pr-3 py-3 border border-slate-200 rounded-lg bg-white text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#111827] focus:border-[#111827] transition"
+                      autoComplete="username"
+                    />
+                  </div>
+                </div>
 
-              {message && (
-                <div
-                  role="status"
-                  aria-live="polite"
-                  className="text-sm text-center font-medium px-4 py-3 rounded-lg"
-                  style={{
-                    backgroundColor: message.toLowerCase().includes("successful") ? "#ecfdf5" : "#fff1f2",
-                    color: message.toLowerCase().includes("successful") ? "#065f46" : "#9f1239",
-                    border: "1px solid rgba(0,0,0,0.04)",
-                  }}
-                >
-                  {message}
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-slate-700 mb-2">
+                    Password
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Lock className="h-5 w-5 text-slate-400" />
+                    </div>
+                    <input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      placeholder="••••••••"
+                      value={form.password}
+                      onChange={(e) => setForm({ ...form, password: e.target.value })}
+                      required
+                      className="block w-full pl-10 pr-12 py-3 border border-slate-200 rounded-lg bg-white text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#111827] focus:border-[#111827] transition"
+                      autoComplete="current-password"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center text-slate-500"
+                      aria-label={showPassword ? "Hide password" : "Show password"}
+                    >
+                      {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between text-sm text-slate-500">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" className="h-4 w-4 rounded border-slate-300" />
+                    <span>Remember this device</span>
+                  </label>
+                  <Link href="/login/forgot" className="underline">
+                    Forgot password?
+                  </Link>
                 </div>
-              )}
-            </form>
+
+                <div>
+                  <button type="submit" disabled={loading} className={submitClass}>
+                    {loading ? (
+                      <>
+                        {spinner}
+                        Signing in…
+                      </>
+                    ) : (
+                      "Sign in to admin"
+                    )}
+                  </button>
+                </div>
+
+                {messageBox}
+              </form>
+            )}
 
             <div className="mt-6 text-xs text-slate-400">
               Admin access only. All activity is logged and monitored.
@@ -0,0 +1,108 @@
+"use client";
+
+import Link from "next/link";
+import { useState, FormEvent } from "react";
+import { Lock } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 10;
+
+export default function ResetPasswordForm({ token }: { token: string }) {
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState(token ? "" : "This reset link is incomplete. Please use the link from your email.");
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (password !== confirm) {
+      setError("The two passwords don't match");
+      return;
+    }
+    setLoading(true);
+    setError("");
+
+    try {
+      const res = await fetch("/api/login/reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "Failed to reset password");
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset password");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass =
+    "block w-full pl-10 pr-3 py-3 border border-slate-200 rounded-lg bg-white text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#111827] focus:border-[#111827] transition";
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center py-12 px-4"
+      style={{ background: "linear-gradient(135deg, #111827 0%, #6b7280 100%)" }}
+    >
+      <div className="w-full max-w-md rounded-3xl bg-white p-8 sm:p-10 shadow-2xl">
+        <h1 className="text-2xl font-semibold text-slate-900 mb-1">Choose a new password</h1>
+
+        {done ? (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Your password has been changed and you&apos;ve been signed out everywhere. Sign in again with the new
+              password.
+            </p>
+            <Link
+              href="/login"
+              className="block text-center w-full py-3 px-4 rounded-lg text-white font-semibold bg-[#111827]"
+            >
+              Go to sign in
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <p className="text-sm text-slate-500">At least {MIN_PASSWORD_LENGTH} characters.</p>
+            {[
+              { value: password, set: setPassword, placeholder: "New password" },
+              { value: confirm, set: setConfirm, placeholder: "Repeat new password" },
+            ].map((field) => (
+              <div key={field.placeholder} className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Lock className="h-5 w-5 text-slate-400" />
+                </div>
+                <input
+                  type="password"
+                  value={field.value}
+                  onChange={(e) => field.set(e.target.value)}
+                  required
+                  minLength={MIN_PASSWORD_LENGTH}
+                  placeholder={field.placeholder}
+                  autoComplete="new-password"
+                  className={inputClass}
+                />
+              </div>
+            ))}
+            <button
+              type="submit"
+              disabled={loading || !token}
+              className="w-full py-3 px-4 rounded-lg text-white font-semibold bg-[#111827] disabled:bg-slate-400"
+            >
+              {loading ? "Saving…" : "Set new password"}
+            </button>
+            {error && (
+              <div className="text-sm text-center px-4 py-3 rounded-lg bg-rose-50 text-rose-800">
+                {error}{" "}
+                <Link href="/login/forgot" className="underline">
+                  Send a new link
+                </Link>
+              </div>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
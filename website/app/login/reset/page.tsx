@@ -0,0 +1,15 @@
+import React from "react";
+import ResetPasswordForm from "./ResetPasswordForm";
+
+export const metadata = {
+  title: "Reset password | Coffee Genius Admin",
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = { token?: string };
+
+export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  // The token comes from the reset email; it is only spent when the form is submitted
+  const { token } = await searchParams;
+  return <ResetPasswordForm token={token ?? ""} />;
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Download, Loader2, PackageOpen, RotateCcw } from "lucide-react";
+import type { CustomerReturnView } from "@/lib/returns";
+
+type ReturnableLine = { lineIndex: number; name: string; ordered: number; returnable: number };
+
+type ReturnsData = {
+  order: { reference: string; createdAt: string; shippedAt: string | null };
+  blocker: string | null;
+  lines: ReturnableLine[];
+  returns: CustomerReturnView[];
+  reasons: Record<string, string>;
+};
+
+type Selection = { qty: number; reason: string; note: string };
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  requested: { label: "Awaiting review", className: "bg-yellow-100 text-yellow-800" },
+  approved: { label: "Approved — send it back", className: "bg-blue-100 text-blue-800" },
+  rejected: { label: "Not accepted", className: "bg-red-100 text-red-800" },
+  received: { label: "Received", className: "bg-indigo-100 text-indigo-800" },
+  completed: { label: "Completed", className: "bg-green-100 text-green-800" },
+  cancelled: { label: "Cancelled", className: "bg-gray-100 text-gray-700" },
+};
+
+function formatDate(iso?: string | null) {
+  if (!iso) return "";
+  return new Date(iso).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" });
+}
+
+export default function ReturnsClient({ orderId, sig }: { orderId: string; sig: string }) {
+  const [data, setData] = useState<ReturnsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Record<number, Selection>>({});
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!orderId || !sig) {
+      setError("This returns link is incomplete. Please use the link from your shipment email.");
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ order: orderId, sig });
+      const res = await fetch(`/api/returns?${params.toString()}`, { cache: "no-store" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't load this order");
+      setData(json.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "We couldn't load this order");
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId, sig]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggleLine = (line: ReturnableLine) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (next[line.lineIndex]) delete next[line.lineIndex];
+      else next[line.lineIndex] = { qty: 1, reason: "", note: "" };
+      return next;
+    });
+  };
+
+  const updateLine = (lineIndex: number, patch: Partial<Selection>) => {
+    setSelected((prev) => ({ ...prev, [lineIndex]: { ...prev[lineIndex], ...patch } }));
+  };
+
+  const chosen = Object.entries(selected);
+  const canSubmit = chosen.length > 0 && chosen.every(([, s]) => s.reason) && !submitting;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          order: orderId,
+          sig,
+          note: note.trim() || undefined,
+          lines: chosen.map(([lineIndex, s]) => ({
+            lineIndex: Number(lineIndex),
+            qty: s.qty,
+            reason: s.reason,
+            note: s.note.trim() || undefined,
+          })),
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't open your return");
+      setSubmitted(json.data?.rmaNumber ?? null);
+      setSelected({});
+      setNote("");
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "We couldn't open your return");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const slipHref = (returnId: string) =>
+    `/api/returns/${returnId}/slip?${new URLSearchParams({ order: orderId, sig }).toString()}`;
+
+  const openLines = data?.lines.filter((l) => l.returnable > 0) ?? [];
+
+  return (
+    <main className="bg-white text-gray-900 min-h-screen py-12 mt-24">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6">
+        <h1 className="text-3xl font-bold flex items-center gap-3 mb-2">
+          <RotateCcw className="w-7 h-7" /> Returns
+        </h1>
+        {data && (
+          <p className="text-sm text-gray-600 mb-8">
+            Order #{data.order.reference} · placed {formatDate(data.order.createdAt)}
+            {data.order.shippedAt ? ` · dispatched ${formatDate(data.order.shippedAt)}` : ""}
+          </p>
+        )}
+
+        {loading && !data ? (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="animate-spin" size={18} /> Loading your order…
+          </div>
+        ) : (
+          <>
+            {error && <div className="mb-6 p-4 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>}
+            {submitted && (
+              <div className="mb-6 p-4 rounded-lg bg-green-50 text-green-800 text-sm">
+                Thanks — your return <strong>{submitted}</strong> is with us. We&apos;ll email you once it&apos;s
+                reviewed. Please don&apos;t send anything back until it&apos;s approved.
+              </div>
+            )}
+
+            {data && data.returns.length > 0 && (
+              <section className="mb-10 rounded-xl border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold mb-4">Your returns</h2>
+                <div className="space-y-4">
+                  {data.returns.map((r) => {
+                    const badge = STATUS_LABELS[r.status] ?? { label: r.status, className: "bg-gray-100" };
+                    return (
+                      <div key={r._id} className="border-t border-gray-100 pt-4 first:border-0 first:pt-0">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div className="font-medium">
+                            {r.rmaNumber}{" "}
+                            <span className="text-sm text-gray-500 font-normal">opened {formatDate(r.createdAt)}</span>
+                          </div>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+                            {badge.label}
+                          </span>
+                        </div>
+                        <ul className="mt-2 text-sm text-gray-700 space-y-1">
+                          {r.lines.map((l) => (
+                            <li key={l.lineIndex}>
+                              {l.qty} × {l.name}{" "}
+                              <span className="text-gray-500">— {data.reasons[l.reason] ?? l.reason}</span>
+                            </li>
+                          ))}
+                        </ul>
+                        {r.note && <p className="mt-2 text-sm bg-gray-50 rounded-lg p-3">{r.note}</p>}
+                        {r.status === "completed" && r.refundAmount ? (
+                          <p className="mt-2 text-sm text-green-700">Refunded £{r.refundAmount.toFixed(2)}</p>
+                        ) : null}
+                        {r.slipAvailable && (
+                          <a
+                            href={slipHref(r._id)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="mt-3 inline-flex items-center gap-1.5 text-sm underline"
+                          >
+                            <Download size={14} /> Returns label &amp; packing slip (PDF)
+                          </a>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            )}
+
+            {data && (
+              <section className="rounded-xl border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+                  <PackageOpen size={18} /> Start a return
+                </h2>
+                {data.blocker ? (
+                  <p className="text-sm text-gray-600 mt-2">{data.blocker}</p>
+                ) : openLines.length === 0 ? (
+                  <p className="text-sm text-gray-600 mt-2">Everything on this order is already part of a return.</p>
+                ) : (
+                  <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                    <p className="text-sm text-gray-600">Choose the items you&apos;d like to send back.</p>
+                    {openLines.map((line) => {
+                      const sel = selected[line.lineIndex];
+                      return (
+                        <div key={line.lineIndex} className="rounded-lg border border-gray-200 p-4">
+                          <label className="flex items-center gap-3 text-sm font-medium">
+                            <input type="checkbox" checked={!!sel} onChange={() => toggleLine(line)} />
+                            {line.name}
+                            <span className="text-gray-500 font-normal">
+                              ({line.returnable} of {line.ordered} can be returned)
+                            </span>
+                          </label>
+                          {sel && (
+                            <div className="mt-3 grid gap-3 sm:grid-cols-[6rem_1fr]">
+                              <label className="text-sm">
+                                <span className="block text-gray-600 mb-1">Quantity</span>
+                                <select
+                                  value={sel.qty}
+                                  onChange={(e) => updateLine(line.lineIndex, { qty: Number(e.target.value) })}
+                                  className="w-full border border-gray-300 rounded-lg px-2 py-2"
+                                >
+                                  {Array.from({ length: line.returnable }, (_, i) => i + 1).map((n) => (
+                                    <option key={n} value={n}>
+                                      {n}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              <label className="text-sm">
+                                <span className="block text-gray-600 mb-1">Reason</span>
+                                <select
+                                  value={sel.reason}
+                                  onChange={(e) => updateLine(line.lineIndex, { reason: e.target.value })}
+                                  className="w-full border border-gray-300 rounded-lg px-2 py-2"
+                                  required
+                                >
+                                  <option value="">Choose a reason…</option>
+                                  {Object.entries(data.reasons).map(([value, label]) => (
+                                    <option key={value} value={value}>
+                                      {label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              <input
+                                type="text"
+                                value={sel.note}
+                                onChange={(e) => updateLine(line.lineIndex, { note: e.target.value })}
+                                maxLength={500}
+                                placeholder="Anything we should know? (optional)"
+                                className="sm:col-span-2 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                              />
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                    <label className="block text-sm">
+                      <span className="block text-gray-600 mb-1">Note for our team (optional)</span>
+                      <textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        maxLength={1000}
+                        rows={3}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2"
+                      />
+                    </label>
+                    <button
+                      type="submit"
+                      disabled={!canSubmit}
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-black text-white text-sm font-semibold disabled:opacity-50"
+                    >
+                      {submitting && <Loader2 className="animate-spin" size={16} />} Request return
+                    </button>
+                  </form>
+                )}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
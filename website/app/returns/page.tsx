@@ -0,0 +1,15 @@
+import React from "react";
+import ReturnsClient from "./ReturnsClient";
+
+export const metadata = {
+  title: "Returns | Coffee Genius",
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = { order?: string; sig?: string };
+
+export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  // Signed link from the shipment email or the account page
+  const { order, sig } = await searchParams;
+  return <ReturnsClient orderId={order ?? ""} sig={sig ?? ""} />;
+}
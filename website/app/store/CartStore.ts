@@ -1,7 +1,15 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { SubscriptionCadence } from "@/models/Subscription";
+import { normalizeGiftCardCode, type GiftCardRecipient } from "@/lib/giftCards";
 
-export type ProductType = "coffee" | "equipment" | "accessory" | "subscription";
+export type ProductType = "coffee" | "equipment" | "accessory" | "subscription" | "gift_card";
+
+export const SUBSCRIPTION_CADENCE_LABELS: Record<SubscriptionCadence, string> = {
+  weekly: "Every week",
+  fortnightly: "Every 2 weeks",
+  monthly: "Every month",
+};
 
 export interface CartItem {
   id: string;
@@ -18,6 +26,12 @@ export interface CartItem {
   grind?: string;
   sku?: string;
   roastType?: string;
+
+  // Subscription-specific fields (productType "subscription"; variantId is required)
+  cadence?: SubscriptionCadence;
+
+  // Gift card fields (productType "gift_card"; one line per recipient, emailed after payment)
+  giftCard?: GiftCardRecipient;
   
   // Equipment/general fields (optional)
   color?: string;
@@ -34,14 +48,26 @@ export interface CartItem {
   };
 }
 
+export interface CheckoutRecoveryRef {
+  sessionId: string;
+  sig: string;
+}
+
 interface CartStore {
   items: CartItem[];
   isOpen: boolean;
+  discountCode: string | null;
+  giftCardCode: string | null;
+  // Set when the cart was rebuilt from an abandoned-checkout email link
+  checkoutRecovery: CheckoutRecoveryRef | null;
   
   addItem: (item: Omit<CartItem, "quantity">, quantity?: number) => void;
   removeItem: (id: string) => void;
   updateQuantity: (id: string, quantity: number) => void;
   clearCart: () => void;
+  setDiscountCode: (code: string | null) => void;
+  setGiftCardCode: (code: string | null) => void;
+  restoreCart: (items: CartItem[], recovery: CheckoutRecoveryRef, discountCode?: string | null) => void;
   
   open: () => void;
   close: () => void;
@@ -57,6 +83,9 @@ const useCart = create<CartStore>()(
     (set, get) => ({
       items: [],
       isOpen: false,
+      discountCode: null,
+      giftCardCode: null,
+      checkoutRecovery: null,
 
       addItem: (item, quantity = 1) => {
         set((state) => {
@@ -112,7 +141,21 @@ const useCart = create<CartStore>()(
       },
 
       clearCart: () => {
-        set({ items: [], isOpen: false });
+        set({ items: [], isOpen: false, discountCode: null, giftCardCode: null, checkoutRecovery: null });
+      },
+
+      setDiscountCode: (code) => {
+        const normalized = code ? code.trim().toUpperCase() : "";
+        set({ discountCode: normalized || null });
+      },
+
+      setGiftCardCode: (code) => {
+        const normalized = normalizeGiftCardCode(code);
+        set({ giftCardCode: normalized || null });
+      },
+
+      restoreCart: (items, recovery, discountCode = null) => {
+        set({ items, discountCode, giftCardCode: null, checkoutRecovery: recovery, isOpen: false });
       },
 
       open: () => set({ isOpen: true }),
@@ -137,7 +180,12 @@ const useCart = create<CartStore>()(
     {
       name: "universal-cart-storage",
       version: 1,
-      partialize: (state) => ({ items: state.items }),
+      partialize: (state) => ({
+        items: state.items,
+        discountCode: state.discountCode,
+        giftCardCode: state.giftCardCode,
+        checkoutRecovery: state.checkoutRecovery,
+      }),
     }
   )
 );
@@ -0,0 +1,338 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Loader2, Repeat, Pause, Play, SkipForward, X, Coffee } from "lucide-react";
+import { SUBSCRIPTION_CADENCE_LABELS } from "@/app/store/CartStore";
+import type { SubscriptionCadence } from "@/models/Subscription";
+
+type SubscriptionView = {
+  _id: string;
+  email: string;
+  name?: string | null;
+  productName: string;
+  variantId: string;
+  coffeeId?: string | null;
+  size?: string;
+  grind?: string;
+  quantity: number;
+  unitPrice: number;
+  cadence: SubscriptionCadence;
+  status: "active" | "paused" | "past_due" | "cancelled";
+  nextRenewalAt: string;
+  skipNext: boolean;
+};
+
+type VariantOption = {
+  _id: string;
+  size: string;
+  grind: string;
+  price: number;
+  stock: number;
+  coffeeId?: { _id: string; name?: string } | string | null;
+};
+
+const STATUS_LABELS: Record<SubscriptionView["status"], string> = {
+  active: "Active",
+  paused: "Paused",
+  past_due: "Payment problem",
+  cancelled: "Cancelled",
+};
+
+function formatDate(value?: string) {
+  if (!value) return "—";
+  return new Date(value).toLocaleDateString("en-GB", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+  });
+}
+
+export default function ManageSubscriptionClient({ id, token }: { id: string; token: string }) {
+  const [sub, setSub] = useState<SubscriptionView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [variants, setVariants] = useState<VariantOption[]>([]);
+  const [swapVariantId, setSwapVariantId] = useState("");
+  const [swapCadence, setSwapCadence] = useState<SubscriptionCadence>("fortnightly");
+  const [swapQuantity, setSwapQuantity] = useState(1);
+
+  useEffect(() => {
+    let active = true;
+    async function load() {
+      if (!id || !token) {
+        setError("This link is incomplete. Please use the link from your subscription email.");
+        setLoading(false);
+        return;
+      }
+      try {
+        const res = await fetch(`/api/subscriptions/${encodeURIComponent(id)}?token=${encodeURIComponent(token)}`);
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !json.ok) throw new Error(json.error || "We couldn't find this subscription");
+        if (!active) return;
+        const data = json.data as SubscriptionView;
+        setSub(data);
+        setSwapVariantId(data.variantId);
+        setSwapCadence(data.cadence);
+        setSwapQuantity(data.quantity);
+      } catch (err) {
+        if (active) setError(err instanceof Error ? err.message : "Failed to load subscription");
+      } finally {
+        if (active) setLoading(false);
+      }
+    }
+    load();
+    return () => {
+      active = false;
+    };
+  }, [id, token]);
+
+  useEffect(() => {
+    let active = true;
+    fetch("/api/variants")
+      .then((res) => res.json())
+      .then((json) => {
+        if (active && json?.success && Array.isArray(json.data)) setVariants(json.data as VariantOption[]);
+      })
+      .catch((err) => console.error("Failed to load coffees", err));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const variantGroups = useMemo(() => {
+    const groups = new Map<string, VariantOption[]>();
+    for (const v of variants) {
+      const coffeeName =
+        v.coffeeId && typeof v.coffeeId === "object" ? v.coffeeId.name || "Coffee" : "Coffee";
+      groups.set(coffeeName, [...(groups.get(coffeeName) ?? []), v]);
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [variants]);
+
+  const runAction = useCallback(
+    async (action: string, extra: Record<string, unknown> = {}, successMessage?: string) => {
+      setBusy(action);
+      setError(null);
+      setNotice(null);
+      try {
+        const res = await fetch(`/api/subscriptions/${encodeURIComponent(id)}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, token, ...extra }),
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || !json.ok) throw new Error(json.error || "Unable to update subscription");
+        setSub(json.data as SubscriptionView);
+        if (successMessage) setNotice(successMessage);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unable to update subscription");
+      } finally {
+        setBusy(null);
+      }
+    },
+    [id, token]
+  );
+
+  const handleCancel = () => {
+    if (!confirm("Cancel your subscription? No further payments will be taken.")) return;
+    runAction("cancel", {}, "Your subscription has been cancelled.");
+  };
+
+  const handleSwap = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sub) return;
+    const extra: Record<string, unknown> = {};
+    if (swapVariantId && swapVariantId !== sub.variantId) extra.variantId = swapVariantId;
+    if (swapCadence !== sub.cadence) extra.cadence = swapCadence;
+    if (swapQuantity !== sub.quantity) extra.quantity = swapQuantity;
+    if (Object.keys(extra).length === 0) return;
+    runAction("swap", extra, "Your changes will apply from your next delivery.");
+  };
+
+  return (
+    <main className="bg-white text-gray-900 min-h-screen py-12 mt-24">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            <Repeat className="w-7 h-7" /> Your coffee subscription
+          </h1>
+        </header>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="animate-spin" size={18} /> Loading…
+          </div>
+        ) : !sub ? (
+          <div className="p-4 rounded-lg bg-red-50 text-red-800 text-sm">
+            {error}{" "}
+            <Link href="/contact" className="underline">
+              Contact us
+            </Link>{" "}
+            if you need help.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {error && <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>}
+            {notice && <div className="p-3 rounded-lg bg-green-50 text-green-800 text-sm">{notice}</div>}
+
+            <section className="border border-gray-200 rounded-xl p-5">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2 text-lg font-semibold">
+                    <Coffee size={18} /> {sub.productName}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {sub.quantity} × £{sub.unitPrice.toFixed(2)} · {SUBSCRIPTION_CADENCE_LABELS[sub.cadence]}
+                  </p>
+                </div>
+                <span
+                  className={`px-2.5 py-1 rounded-full text-xs font-semibold ${
+                    sub.status === "active"
+                      ? "bg-green-100 text-green-800"
+                      : sub.status === "cancelled"
+                      ? "bg-gray-100 text-gray-600"
+                      : "bg-amber-100 text-amber-800"
+                  }`}
+                >
+                  {STATUS_LABELS[sub.status]}
+                </span>
+              </div>
+
+              {sub.status !== "cancelled" && (
+                <p className="mt-4 text-sm">
+                  {sub.status === "active" ? (
+                    sub.skipNext ? (
+                      <>
+                        Your delivery due <strong>{formatDate(sub.nextRenewalAt)}</strong> will be skipped.
+                      </>
+                    ) : (
+                      <>
+                        Next delivery charged on <strong>{formatDate(sub.nextRenewalAt)}</strong>.
+                      </>
+                    )
+                  ) : sub.status === "paused" ? (
+                    "Deliveries are paused until you resume."
+                  ) : (
+                    "We couldn't charge your card. Please contact us to update your payment details, then resume."
+                  )}
+                </p>
+              )}
+
+              {sub.status !== "cancelled" && (
+                <div className="mt-5 flex flex-wrap gap-2">
+                  {sub.status === "active" &&
+                    (sub.skipNext ? (
+                      <button
+                        onClick={() => runAction("unskip", {}, "Your next delivery is back on.")}
+                        disabled={!!busy}
+                        className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg border text-sm font-semibold disabled:opacity-50"
+                      >
+                        <SkipForward size={14} /> Don&apos;t skip
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => runAction("skip_next", {}, "Your next delivery will be skipped.")}
+                        disabled={!!busy}
+                        className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg border text-sm font-semibold disabled:opacity-50"
+                      >
+                        <SkipForward size={14} /> Skip next delivery
+                      </button>
+                    ))}
+                  {sub.status === "active" ? (
+                    <button
+                      onClick={() => runAction("pause", {}, "Your subscription is paused.")}
+                      disabled={!!busy}
+                      className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg border text-sm font-semibold disabled:opacity-50"
+                    >
+                      <Pause size={14} /> Pause
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => runAction("resume", {}, "Your subscription is active again.")}
+                      disabled={!!busy}
+                      className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg bg-black text-white text-sm font-semibold disabled:opacity-50"
+                    >
+                      <Play size={14} /> Resume
+                    </button>
+                  )}
+                  <button
+                    onClick={handleCancel}
+                    disabled={!!busy}
+                    className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg border border-red-200 text-red-700 text-sm font-semibold disabled:opacity-50"
+                  >
+                    <X size={14} /> Cancel subscription
+                  </button>
+                  {busy && <Loader2 className="animate-spin self-center" size={16} />}
+                </div>
+              )}
+            </section>
+
+            {sub.status !== "cancelled" && (
+              <form onSubmit={handleSwap} className="border border-gray-200 rounded-xl p-5 space-y-4">
+                <h2 className="text-lg font-semibold">Change your coffee</h2>
+                <label className="block text-sm">
+                  <span className="font-medium">Coffee</span>
+                  <select
+                    value={swapVariantId}
+                    onChange={(e) => setSwapVariantId(e.target.value)}
+                    className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+                  >
+                    {variantGroups.length === 0 && <option value={sub.variantId}>{sub.productName}</option>}
+                    {variantGroups.map(([coffeeName, options]) => (
+                      <optgroup key={coffeeName} label={coffeeName}>
+                        {options.map((v) => (
+                          <option key={v._id} value={v._id} disabled={v.stock <= 0 && v._id !== sub.variantId}>
+                            {v.size} · {v.grind} — £{Number(v.price).toFixed(2)}
+                            {v.stock <= 0 ? " (out of stock)" : ""}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </label>
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block text-sm">
+                    <span className="font-medium">Frequency</span>
+                    <select
+                      value={swapCadence}
+                      onChange={(e) => setSwapCadence(e.target.value as SubscriptionCadence)}
+                      className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+                    >
+                      {(Object.keys(SUBSCRIPTION_CADENCE_LABELS) as SubscriptionCadence[]).map((c) => (
+                        <option key={c} value={c}>
+                          {SUBSCRIPTION_CADENCE_LABELS[c]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block text-sm">
+                    <span className="font-medium">Bags per delivery</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={20}
+                      value={swapQuantity}
+                      onChange={(e) => setSwapQuantity(Math.max(1, Math.min(20, Number(e.target.value) || 1)))}
+                      className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+                    />
+                  </label>
+                </div>
+                <button
+                  type="submit"
+                  disabled={!!busy}
+                  className="px-4 py-2 rounded-lg bg-black text-white text-sm font-semibold disabled:opacity-50"
+                >
+                  Save changes
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
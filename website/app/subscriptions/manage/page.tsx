@@ -0,0 +1,19 @@
+import React from "react";
+import ManageSubscriptionClient from "./ManageSubscriptionClient";
+
+export const metadata = {
+  title: "Manage your subscription | Coffee Genius",
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = { id?: string; token?: string };
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  // The id/token pair comes from the link in the subscription confirmation email
+  const { id, token } = await searchParams;
+  return <ManageSubscriptionClient id={id ?? ""} token={token ?? ""} />;
+}
@@ -2,68 +2,144 @@ import bcrypt from 'bcrypt';
 import mongoose from 'mongoose';
 import dbConnect from '@/lib/dbConnect';
 import User from '@/models/User';
+import { AdminRole, isAdminRole } from '@/lib/permissions';
+import { normalizeAdminEmail, passwordProblem } from '@/lib/adminLogin';
 
 async function connect() {
   await dbConnect();
 }
 
+// Credentials and two-factor secrets never leave the server
+const PRIVATE_FIELDS = '-password -totpSecret -totpPendingSecret -totpLastStep -recoveryCodes';
+
 export async function getAllUsers() {
   await connect();
-  return await User.find({}, '-password').lean();
+  return await User.find({}, PRIVATE_FIELDS).lean();
+}
+
+export async function countUsers() {
+  await connect();
+  return await User.countDocuments();
 }
 
 export async function getUserById(id: string) {
   await connect();
   if (!mongoose.Types.ObjectId.isValid(id)) throw new Error('Invalid user ID');
-  return await User.findById(id).select('-password').lean();
+  return await User.findById(id).select(PRIVATE_FIELDS).lean();
+}
+
+// Accounts without a role predate roles and count as owners
+const OWNER_FILTER = { $or: [{ role: 'owner' }, { role: { $exists: false } }, { role: null }] };
+
+async function isLastOwner(id: string) {
+  const user = await User.findOne({ _id: id, ...OWNER_FILTER }).select('_id').lean();
+  if (!user) return false;
+  return (await User.countDocuments(OWNER_FILTER)) <= 1;
+}
+
+/** Blank clears the address; anything else must be a valid email no other admin uses */
+async function resolveEmail(email: unknown, excludeId?: string): Promise<string | null> {
+  if (email === null || (typeof email === 'string' && !email.trim())) return null;
+  const normalized = normalizeAdminEmail(email);
+  if (!normalized) throw new Error('Invalid email address');
+  const taken = await User.findOne({ email: normalized, ...(excludeId ? { _id: { $ne: excludeId } } : {}) })
+    .select('_id')
+    .lean();
+  if (taken) throw new Error('Another admin already uses that email address');
+  return normalized;
 }
 
-export async function createUser({ username, password }: { username: string; password: string }) {
+export async function createUser({
+  username,
+  password,
+  role,
+  email,
+}: {
+  username: string;
+  password: string;
+  role?: string;
+  email?: string | null;
+}) {
   await connect();
+  if (!isAdminRole(role)) throw new Error('A valid role is required');
+  const problem = passwordProblem(password);
+  if (problem) throw new Error(problem);
 
   const existing = await User.findOne({ username });
   if (existing) throw new Error('User already exists');
 
   const hashedPassword = await bcrypt.hash(password, 10);
-  const user = new User({ username, password: hashedPassword });
+  const user = new User({ username, password: hashedPassword, role, email: await resolveEmail(email) });
   await user.save();
 
   return user._id;
 }
 
+// A single document with a fixed _id: inserting it is how a request claims the first
+// account, so two concurrent first requests can't both become owners
+const BOOTSTRAP_COLLECTION = 'adminbootstrap';
+const BOOTSTRAP_ID = 'first-owner';
+
+/**
+ * Creates the first admin account, always an owner. Throws 'Admin setup is already
+ * done' if any account exists or another request got there first.
+ */
+export async function createFirstOwner(data: { username: string; password: string; email?: string | null }) {
+  await connect();
+  const bootstrap = mongoose.connection.collection<{ _id: string; claimedAt: Date }>(BOOTSTRAP_COLLECTION);
+  try {
+    await bootstrap.insertOne({ _id: BOOTSTRAP_ID, claimedAt: new Date() });
+  } catch (err) {
+    if ((err as { code?: number }).code === 11000) throw new Error('Admin setup is already done');
+    throw err;
+  }
+
+  try {
+    if ((await User.countDocuments()) > 0) throw new Error('Admin setup is already done');
+    return await createUser({ ...data, role: 'owner' });
+  } catch (err) {
+    // Nothing was created (a weak password, say), so setup can be tried again
+    if ((await User.countDocuments()) === 0) await bootstrap.deleteOne({ _id: BOOTSTRAP_ID });
+    throw err;
+  }
+}
+
 type UpdateUserData = {
   username?: string;
   password?: string;
+  role?: string;
+  email?: string | null;
 };
 
 export async function updateUser(id: string, data: UpdateUserData) {
   await connect();
   if (!mongoose.Types.ObjectId.isValid(id)) throw new Error('Invalid user ID');
 
-  const update: UpdateUserData = {};
+  const update: { username?: string; password?: string; passwordChangedAt?: Date; role?: AdminRole; email?: string | null } = {};
   if (data.username) update.username = data.username;
-  if (data.password) update.password = await bcrypt.hash(data.password, 10);
+  if (data.password) {
+    const problem = passwordProblem(data.password);
+    if (problem) throw new Error(problem);
+    update.password = await bcrypt.hash(data.password, 10);
+    update.passwordChangedAt = new Date();
+  }
+  if (data.email !== undefined) update.email = await resolveEmail(data.email, id);
+  if (data.role !== undefined) {
+    if (!isAdminRole(data.role)) throw new Error('Invalid role');
+    if (data.role !== 'owner' && (await isLastOwner(id))) {
+      throw new Error('The last owner cannot be given another role');
+    }
+    update.role = data.role;
+  }
 
   await User.findByIdAndUpdate(id, update);
 }
 
-export async function deleteUser(id: string) {
+export async function deleteUser(id: string, actingUserId?: string) {
   await connect();
   if (!mongoose.Types.ObjectId.isValid(id)) throw new Error('Invalid user ID');
+  if (actingUserId && id === actingUserId) throw new Error('You cannot delete your own account');
+  if (await isLastOwner(id)) throw new Error('The last owner cannot be deleted');
 
   await User.findByIdAndDelete(id);
 }
-
-export async function authenticateUser({ username, password }: { username: string; password: string }) {
-  await connect();
-
-  const user = await User.findOne({ username });
-  if (!user) throw new Error('Invalid credentials');
-
-  const valid = await bcrypt.compare(password, user.password);
-  if (!valid) throw new Error('Invalid credentials');
-
-  // Return user without password
-  const { password: _, ...userWithoutPassword } = user.toObject();
-  return userWithoutPassword;
-}
\ No newline at end of file
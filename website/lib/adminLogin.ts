@@ -0,0 +1,408 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import User from '@/models/User';
+import LoginAttempt from '@/models/LoginAttempt';
+import PasswordResetToken from '@/models/PasswordResetToken';
+import { RequestMeta, revokeUserSessions, startAdminSession } from '@/lib/adminSessions';
+import {
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  otpauthUrl,
+  verifyTotp,
+} from '@/lib/totp';
+import { notifyAdminPasswordReset } from '@/lib/notifyAdminPasswordReset';
+
+/*
+ * Admin sign-in: password check with per-account lockout and per-IP throttling,
+ * the optional TOTP second step, two-factor enrolment, and password resets by
+ * emailed one-time link. Sessions themselves live in lib/adminSessions.ts.
+ */
+
+/* ----------------------------- Config ---------------------------------- */
+
+const MAX_FAILED_LOGINS = 5;
+const LOCK_MINUTES = 15;
+const IP_WINDOW_MINUTES = 15;
+const MAX_FAILURES_PER_IP = 20;
+const CHALLENGE_MINUTES = 5;
+const RESET_TTL_MINUTES = 30;
+const MAX_RESETS_PER_USER_PER_HOUR = 3;
+const MAX_RESETS_PER_IP_PER_HOUR = 10;
+export const MIN_PASSWORD_LENGTH = 10;
+
+const MINUTE_MS = 60 * 1000;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type LoginFailure = { ok: false; status: number; error: string };
+
+// User is a plain JS model, so documents are described here for the fields this file uses
+type LoginUser = {
+  _id: mongoose.Types.ObjectId;
+  username: string;
+  password: string;
+  email?: string | null;
+  totpSecret?: string | null;
+  totpPendingSecret?: string | null;
+  totpEnabledAt?: Date | null;
+  totpLastStep?: number | null;
+  recoveryCodes?: { hash: string; usedAt?: Date | null }[];
+  lockedUntil?: Date | null;
+};
+
+export function normalizeAdminEmail(email: unknown): string | null {
+  if (typeof email !== 'string') return null;
+  const e = email.trim().toLowerCase();
+  return e && e.length <= 254 && EMAIL_RE.test(e) ? e : null;
+}
+
+/** Why a new password isn't acceptable, or null when it is */
+export function passwordProblem(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (password.length > 200) return 'Passwords can be at most 200 characters';
+  return null;
+}
+
+export function twoFactorEnabled(user: Pick<LoginUser, 'totpSecret' | 'totpEnabledAt'>): boolean {
+  return !!user.totpSecret && !!user.totpEnabledAt;
+}
+
+/* ----------------------------- Lockout & throttling ---------------------------------- */
+
+async function recordAttempt(meta: RequestMeta, username: string | null, success: boolean, reason: string | null) {
+  try {
+    await LoginAttempt.create({ ip: meta.ip, username, success, reason });
+  } catch (err) {
+    console.error('Failed to record login attempt:', err);
+  }
+}
+
+async function ipThrottled(ip: string | null): Promise<boolean> {
+  if (!ip) return false;
+  const since = new Date(Date.now() - IP_WINDOW_MINUTES * MINUTE_MS);
+  const failures = await LoginAttempt.countDocuments({ ip, success: false, createdAt: { $gte: since } });
+  return failures >= MAX_FAILURES_PER_IP;
+}
+
+function lockedFor(user: Pick<LoginUser, 'lockedUntil'>): number {
+  if (!user.lockedUntil) return 0;
+  return Math.max(0, new Date(user.lockedUntil).getTime() - Date.now());
+}
+
+function lockedFailure(ms: number): LoginFailure {
+  const minutes = Math.max(1, Math.ceil(ms / MINUTE_MS));
+  return {
+    ok: false,
+    status: 423,
+    error: `This account is locked after too many failed sign-ins. Try again in ${minutes} minute${minutes === 1 ? '' : 's'} or reset your password.`,
+  };
+}
+
+const THROTTLED: LoginFailure = {
+  ok: false,
+  status: 429,
+  error: 'Too many failed sign-ins from your network. Please wait a few minutes and try again.',
+};
+
+/** Counts a failure against the account, locking it once the limit is reached */
+async function registerFailure(userId: mongoose.Types.ObjectId) {
+  const updated = await User.findByIdAndUpdate(userId, { $inc: { failedLoginCount: 1 } }, { new: true })
+    .select('failedLoginCount')
+    .lean<{ failedLoginCount?: number }>();
+  if ((updated?.failedLoginCount ?? 0) >= MAX_FAILED_LOGINS) {
+    await User.updateOne(
+      { _id: userId },
+      { $set: { lockedUntil: new Date(Date.now() + LOCK_MINUTES * MINUTE_MS), failedLoginCount: 0 } }
+    );
+  }
+}
+
+/* ----------------------------- Sign-in ---------------------------------- */
+
+/** First step: username and password. The caller decides whether a second factor is needed. */
+export async function checkPassword(
+  username: unknown,
+  password: unknown,
+  meta: RequestMeta
+): Promise<{ ok: true; user: LoginUser } | LoginFailure> {
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+    return { ok: false, status: 400, error: 'Username and password are required' };
+  }
+  if (await ipThrottled(meta.ip)) return THROTTLED;
+
+  const user = (await User.findOne({ username })) as LoginUser | null;
+  if (!user) {
+    await recordAttempt(meta, username, false, 'unknown_user');
+    return { ok: false, status: 401, error: 'Invalid credentials' };
+  }
+
+  const locked = lockedFor(user);
+  if (locked > 0) {
+    await recordAttempt(meta, username, false, 'locked');
+    return lockedFailure(locked);
+  }
+
+  if (!(await bcrypt.compare(password, user.password))) {
+    await registerFailure(user._id);
+    await recordAttempt(meta, username, false, 'bad_password');
+    return { ok: false, status: 401, error: 'Invalid credentials' };
+  }
+  return { ok: true, user };
+}
+
+function challengeSecret(): string {
+  const base = process.env.JWT_SECRET;
+  if (!base) throw new Error('JWT_SECRET is not defined');
+  // Derived rather than reused, so a challenge can never pass as a session token
+  return crypto.createHmac('sha256', base).update('admin-2fa-challenge').digest('base64url');
+}
+
+/** Short-lived proof that the password step passed, exchanged for a session with a code */
+export function createTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ kind: 'admin_2fa' }, challengeSecret(), { subject: userId, expiresIn: `${CHALLENGE_MINUTES}m` });
+}
+
+function readTwoFactorChallenge(token: unknown): string | null {
+  if (typeof token !== 'string' || !token) return null;
+  try {
+    const decoded = jwt.verify(token, challengeSecret()) as jwt.JwtPayload;
+    return decoded.kind === 'admin_2fa' && typeof decoded.sub === 'string' ? decoded.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Second step: an authenticator code or one unused recovery code. A wrong code
+ * counts towards the lockout just like a wrong password.
+ */
+export async function checkSecondFactor(
+  challenge: unknown,
+  input: { code?: unknown; recoveryCode?: unknown },
+  meta: RequestMeta
+): Promise<{ ok: true; user: LoginUser; usedRecoveryCode: boolean; recoveryCodesLeft: number } | LoginFailure> {
+  const expired: LoginFailure = { ok: false, status: 401, error: 'Your sign-in has expired. Please enter your password again.' };
+  const userId = readTwoFactorChallenge(challenge);
+  if (!userId || !mongoose.Types.ObjectId.isValid(userId)) return expired;
+  if (await ipThrottled(meta.ip)) return THROTTLED;
+
+  const user = (await User.findById(userId)) as LoginUser | null;
+  if (!user || !twoFactorEnabled(user)) return expired;
+
+  const locked = lockedFor(user);
+  if (locked > 0) {
+    await recordAttempt(meta, user.username, false, 'locked');
+    return lockedFailure(locked);
+  }
+
+  let accepted = false;
+  const usedRecoveryCode = typeof input.recoveryCode === 'string' && input.recoveryCode.trim() !== '';
+  if (usedRecoveryCode) {
+    // Marked used in the same write that finds it, so two requests can't both spend it
+    const res = await User.updateOne(
+      { _id: user._id, recoveryCodes: { $elemMatch: { hash: hashRecoveryCode(input.recoveryCode as string), usedAt: null } } },
+      { $set: { 'recoveryCodes.$.usedAt': new Date() } }
+    );
+    accepted = res.modifiedCount > 0;
+  } else {
+    const step = verifyTotp(decryptTotpSecret(user.totpSecret as string), input.code, { afterStep: user.totpLastStep });
+    if (step !== null) {
+      const res = await User.updateOne(
+        { _id: user._id, $or: [{ totpLastStep: null }, { totpLastStep: { $lt: step } }] },
+        { $set: { totpLastStep: step } }
+      );
+      accepted = res.modifiedCount > 0;
+    }
+  }
+
+  if (!accepted) {
+    await registerFailure(user._id);
+    await recordAttempt(meta, user.username, false, usedRecoveryCode ? 'bad_recovery_code' : 'bad_code');
+    return { ok: false, status: 401, error: usedRecoveryCode ? 'That recovery code is not valid' : 'That code is not valid' };
+  }
+  // user was read before the code was spent
+  const unused = (user.recoveryCodes ?? []).filter((c) => !c.usedAt).length;
+  return { ok: true, user, usedRecoveryCode, recoveryCodesLeft: usedRecoveryCode ? unused - 1 : unused };
+}
+
+/** Clears the failure count and opens a session; returns the cookie value */
+export async function completeLogin(user: Pick<LoginUser, '_id' | 'username'>, meta: RequestMeta): Promise<string> {
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { failedLoginCount: 0, lockedUntil: null, lastLoginAt: new Date() } }
+  );
+  await recordAttempt(meta, user.username, true, null);
+  return startAdminSession(user, meta);
+}
+
+/** Re-checks the password of a signed-in admin before a sensitive change */
+export async function confirmPassword(userId: string, password: unknown): Promise<boolean> {
+  if (typeof password !== 'string' || !password) return false;
+  const user = await User.findById(userId).select('password').lean<{ password: string }>();
+  return !!user && bcrypt.compare(password, user.password);
+}
+
+/* ----------------------------- Two-factor enrolment ---------------------------------- */
+
+/** Starts enrolment with a fresh secret; it only takes effect once a code from it is confirmed */
+export async function beginTwoFactorSetup(userId: string, username: string) {
+  const secret = generateTotpSecret();
+  await User.updateOne({ _id: userId }, { $set: { totpPendingSecret: encryptTotpSecret(secret) } });
+  const issuer = `${process.env.COMPANY_NAME || 'Coffee Genius'} Admin`;
+  return { secret, otpauthUrl: otpauthUrl(secret, username, issuer) };
+}
+
+function hashedRecoveryCodes(codes: string[]) {
+  return codes.map((code) => ({ hash: hashRecoveryCode(code), usedAt: null }));
+}
+
+export async function confirmTwoFactorSetup(
+  userId: string,
+  code: unknown
+): Promise<{ ok: true; recoveryCodes: string[] } | { ok: false; error: string }> {
+  const user = await User.findById(userId).select('totpPendingSecret').lean<{ totpPendingSecret?: string | null }>();
+  if (!user?.totpPendingSecret) return { ok: false, error: 'Start two-factor setup first' };
+
+  const secret = decryptTotpSecret(user.totpPendingSecret);
+  const step = verifyTotp(secret, code);
+  if (step === null) return { ok: false, error: 'That code is not valid. Check the time on your phone and try again.' };
+
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        totpSecret: user.totpPendingSecret,
+        totpPendingSecret: null,
+        totpEnabledAt: new Date(),
+        totpLastStep: step,
+        recoveryCodes: hashedRecoveryCodes(recoveryCodes),
+      },
+    }
+  );
+  return { ok: true, recoveryCodes };
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await User.updateOne(
+    { _id: userId },
+    { $set: { totpSecret: null, totpPendingSecret: null, totpEnabledAt: null, totpLastStep: null, recoveryCodes: [] } }
+  );
+}
+
+/** Replaces every recovery code; the old ones stop working */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateOne({ _id: userId }, { $set: { recoveryCodes: hashedRecoveryCodes(recoveryCodes) } });
+  return recoveryCodes;
+}
+
+export async function unlockAccount(userId: string): Promise<void> {
+  await User.updateOne({ _id: userId }, { $set: { failedLoginCount: 0, lockedUntil: null } });
+}
+
+/* ----------------------------- Password reset ---------------------------------- */
+
+function hashResetToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export type ResetRequestResult = { sent: boolean; throttled?: boolean; error?: string };
+
+/**
+ * Emails a reset link to the account matching a username or email address.
+ * The caller should answer the same way whatever happens here, so the form
+ * can't be used to find out which admin accounts exist.
+ */
+export async function requestPasswordReset(identifier: unknown, meta: RequestMeta): Promise<ResetRequestResult> {
+  if (typeof identifier !== 'string' || !identifier.trim()) return { sent: false };
+  const since = new Date(Date.now() - 60 * MINUTE_MS);
+
+  if (meta.ip) {
+    const recentForIp = await PasswordResetToken.countDocuments({ requestIp: meta.ip, createdAt: { $gte: since } });
+    if (recentForIp >= MAX_RESETS_PER_IP_PER_HOUR) return { sent: false, throttled: true };
+  }
+
+  const value = identifier.trim();
+  const email = normalizeAdminEmail(value);
+  const user = (await User.findOne(email ? { email } : { username: value })
+    .select('username email')
+    .lean()) as Pick<LoginUser, '_id' | 'username' | 'email'> | null;
+  if (!user?.email) return { sent: false };
+
+  const recentForUser = await PasswordResetToken.countDocuments({ userId: user._id, createdAt: { $gte: since } });
+  if (recentForUser >= MAX_RESETS_PER_USER_PER_HOUR) return { sent: false, throttled: true };
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await PasswordResetToken.create({
+    userId: user._id,
+    tokenHash: hashResetToken(token),
+    expiresAt: new Date(Date.now() + RESET_TTL_MINUTES * MINUTE_MS),
+    requestIp: meta.ip,
+  });
+
+  const appBase = (process.env.APP_BASE_URL || '').replace(/\/$/, '');
+  const result = await notifyAdminPasswordReset({
+    email: user.email,
+    username: user.username,
+    url: `${appBase}/login/reset?token=${encodeURIComponent(token)}`,
+    expiresInMinutes: RESET_TTL_MINUTES,
+    requestIp: meta.ip,
+  });
+  if (!result.sent) {
+    console.error('Failed to send admin password reset link:', result.error);
+    return { sent: false, error: result.error };
+  }
+  return { sent: true };
+}
+
+/**
+ * Uses up a reset link and sets the new password. Every session of the account
+ * is revoked and any lockout cleared.
+ */
+export async function resetPasswordWithToken(
+  token: unknown,
+  password: unknown
+): Promise<{ ok: true; user: { id: string; username: string } } | { ok: false; error: string }> {
+  if (typeof token !== 'string' || token.length < 20 || token.length > 200) {
+    return { ok: false, error: 'This reset link is not valid' };
+  }
+  const problem = passwordProblem(password);
+  if (problem) return { ok: false, error: problem };
+
+  const now = new Date();
+  const link = await PasswordResetToken.findOneAndUpdate(
+    { tokenHash: hashResetToken(token), usedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now } },
+    { new: true }
+  ).exec();
+  if (!link) return { ok: false, error: 'This reset link has expired or has already been used' };
+
+  const user = await User.findByIdAndUpdate(
+    link.userId,
+    {
+      $set: {
+        password: await bcrypt.hash(password as string, 10),
+        passwordChangedAt: now,
+        failedLoginCount: 0,
+        lockedUntil: null,
+      },
+    },
+    { new: true }
+  )
+    .select('username')
+    .lean<{ _id: mongoose.Types.ObjectId; username: string }>();
+  if (!user) return { ok: false, error: 'This reset link is not valid' };
+
+  const userId = String(user._id);
+  // Other links sent before this one shouldn't keep working
+  await PasswordResetToken.updateMany({ userId, usedAt: null }, { $set: { usedAt: now } });
+  await revokeUserSessions(userId, 'password_reset');
+  return { ok: true, user: { id: userId, username: user.username } };
+}
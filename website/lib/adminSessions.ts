@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import UserSession from '@/models/UserSession';
+
+/*
+ * Admin sign-in sessions. Every `token` cookie names a UserSession record in
+ * its `sid` claim; lib/auth.ts rejects a token whose record is revoked, expired
+ * or missing, which is what makes logout and "sign out everywhere" stick.
+ */
+
+export const ADMIN_COOKIE = 'token';
+export const SESSION_HOURS = 24;
+// lastSeenAt is only written this often, not on every request
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'revoked'
+  | 'sign_out_everywhere'
+  | 'password_changed'
+  | 'password_reset'
+  | 'two_factor_reset'
+  | 'account_deleted';
+
+export type RequestMeta = { ip: string | null; userAgent: string | null };
+
+export function requestMeta(req: Request): RequestMeta {
+  return {
+    ip: req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || req.headers.get('x-real-ip') || null,
+    userAgent: req.headers.get('user-agent')?.slice(0, 300) || null,
+  };
+}
+
+export function adminCookieOptions(maxAgeSeconds = SESSION_HOURS * 60 * 60) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge: maxAgeSeconds,
+  };
+}
+
+function jwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new Error('JWT_SECRET is not defined');
+  return secret;
+}
+
+/** Opens a session for a fully signed-in admin and returns the cookie value */
+export async function startAdminSession(
+  user: { _id: mongoose.Types.ObjectId | string; username: string },
+  meta: RequestMeta
+): Promise<string> {
+  const sessionId = crypto.randomBytes(24).toString('base64url');
+  const now = new Date();
+  await UserSession.create({
+    sessionId,
+    userId: user._id,
+    ip: meta.ip,
+    userAgent: meta.userAgent,
+    lastSeenAt: now,
+    expiresAt: new Date(now.getTime() + SESSION_HOURS * 60 * 60 * 1000),
+  });
+
+  // The role is looked up on every request, so it isn't stored here
+  return jwt.sign({ userId: String(user._id), username: user.username, sub: user.username, sid: sessionId }, jwtSecret(), {
+    expiresIn: `${SESSION_HOURS}h`,
+  });
+}
+
+/** The session id in a cookie value, without checking the record (used on logout) */
+export function sessionIdFromToken(token?: string | null): string | null {
+  if (!token) return null;
+  try {
+    const decoded = jwt.verify(token, jwtSecret()) as jwt.JwtPayload;
+    return typeof decoded.sid === 'string' ? decoded.sid : null;
+  } catch {
+    return null;
+  }
+}
+
+/** True while the session is live; refreshes lastSeenAt now and then */
+export async function touchAdminSession(sessionId: string, userId: string): Promise<boolean> {
+  const now = new Date();
+  const session = await UserSession.findOne({
+    sessionId,
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: now },
+  })
+    .select('lastSeenAt')
+    .lean();
+  if (!session) return false;
+
+  if (now.getTime() - new Date(session.lastSeenAt).getTime() > TOUCH_INTERVAL_MS) {
+    await UserSession.updateOne({ _id: session._id }, { $set: { lastSeenAt: now } });
+  }
+  return true;
+}
+
+export async function revokeAdminSession(sessionId: string, reason: SessionRevokeReason): Promise<boolean> {
+  const res = await UserSession.updateOne(
+    { sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return res.modifiedCount > 0;
+}
+
+/** Revokes one of a user's sessions by record id (as listed by listActiveSessions) */
+export async function revokeUserSessionById(userId: string, id: string, reason: SessionRevokeReason): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return false;
+  const res = await UserSession.updateOne(
+    { _id: id, userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return res.modifiedCount > 0;
+}
+
+/** Signs a user out everywhere, optionally keeping the session making the request */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  opts: { exceptSessionId?: string | null } = {}
+): Promise<number> {
+  const filter: Record<string, unknown> = { userId, revokedAt: null, expiresAt: { $gt: new Date() } };
+  if (opts.exceptSessionId) filter.sessionId = { $ne: opts.exceptSessionId };
+  const res = await UserSession.updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+  return res.modifiedCount;
+}
+
+export type ActiveSession = {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+export async function listActiveSessions(userId: string, currentSessionId?: string | null): Promise<ActiveSession[]> {
+  const rows = await UserSession.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .sort({ lastSeenAt: -1 })
+    .lean();
+  return rows.map((s) => ({
+    id: String(s._id),
+    ip: s.ip ?? null,
+    userAgent: s.userAgent ?? null,
+    createdAt: new Date(s.createdAt).toISOString(),
+    lastSeenAt: new Date(s.lastSeenAt).toISOString(),
+    expiresAt: new Date(s.expiresAt).toISOString(),
+    current: !!currentSessionId && s.sessionId === currentSessionId,
+  }));
+}
+
+export async function countActiveSessions(userId: string): Promise<number> {
+  return UserSession.countDocuments({ userId, revokedAt: null, expiresAt: { $gt: new Date() } });
+}
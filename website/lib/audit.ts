@@ -0,0 +1,234 @@
+import AuditEvent, { AUDIT_ENTITY_TYPES, AuditEntityType, IAuditChange, IAuditEvent } from '@/models/AuditEvent';
+import dbConnect from '@/lib/dbConnect';
+import type { AdminSession } from '@/lib/auth';
+
+/*
+ * Audit trail for admin changes. Route handlers call recordAudit after a mutation
+ * succeeds, passing what the record looked like before and after; only the fields
+ * that changed are stored. Recording never throws — a failed write is logged and
+ * the admin's action still goes through.
+ */
+
+// Never copied into an event: bookkeeping fields and secrets
+const IGNORED_KEYS = new Set([
+  '_id',
+  '__v',
+  'createdAt',
+  'updatedAt',
+  'password',
+  'tokenHash',
+  'manageToken',
+  'codeHash',
+  'totpSecret',
+  'totpPendingSecret',
+  'totpLastStep',
+  'recoveryCodes',
+]);
+const MAX_CHANGES = 200;
+const MAX_VALUE_LENGTH = 1000;
+const MAX_DEPTH = 4;
+
+export type AuditEventInput = {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  entityLabel?: string | null;
+  summary?: string | null;
+  before?: unknown;
+  after?: unknown;
+  metadata?: Record<string, unknown> | null;
+};
+
+/** Round-trips through JSON so ObjectIds, Dates and mongoose documents compare as plain values */
+function toPlain(value: unknown): unknown {
+  if (value === undefined || value === null) return value;
+  const source = typeof (value as { toObject?: unknown }).toObject === 'function'
+    ? (value as { toObject: () => unknown }).toObject()
+    : value;
+  try {
+    return JSON.parse(JSON.stringify(source));
+  } catch {
+    return String(source);
+  }
+}
+
+function clip(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  if (text.length <= MAX_VALUE_LENGTH) return value;
+  return `${text.slice(0, MAX_VALUE_LENGTH)}… (${text.length} chars)`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function walk(before: unknown, after: unknown, path: string, depth: number, out: IAuditChange[]) {
+  if (out.length >= MAX_CHANGES) return;
+  if ((isPlainObject(before) || isPlainObject(after)) && depth < MAX_DEPTH) {
+    const b = isPlainObject(before) ? before : {};
+    const a = isPlainObject(after) ? after : {};
+    const keys = new Set([...Object.keys(b), ...Object.keys(a)]);
+    for (const key of keys) {
+      if (IGNORED_KEYS.has(key)) continue;
+      walk(b[key], a[key], path ? `${path}.${key}` : key, depth + 1, out);
+    }
+    return;
+  }
+  // Arrays and deep values are compared whole
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  out.push({ path: path || '(value)', before: clip(before), after: clip(after) });
+}
+
+/** Field-level differences between two snapshots of a record (either may be absent) */
+export function diffSnapshots(before: unknown, after: unknown): IAuditChange[] {
+  const out: IAuditChange[] = [];
+  walk(toPlain(before), toPlain(after), '', 0, out);
+  return out;
+}
+
+function requestMeta(req: Request) {
+  let path: string | null = null;
+  try {
+    path = new URL(req.url).pathname;
+  } catch {
+    // leave path empty
+  }
+  const forwarded = req.headers.get('x-forwarded-for');
+  return {
+    method: req.method,
+    path,
+    ip: forwarded?.split(',')[0]?.trim() || req.headers.get('x-real-ip') || null,
+    userAgent: req.headers.get('user-agent')?.slice(0, 300) || null,
+  };
+}
+
+/** Records one admin mutation. Safe to await anywhere: errors are logged, not thrown. */
+export async function recordAudit(req: Request, session: AdminSession | null, event: AuditEventInput): Promise<void> {
+  try {
+    await dbConnect();
+    await AuditEvent.create({
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId ?? null,
+      entityLabel: event.entityLabel ?? null,
+      summary: event.summary ?? null,
+      changes: event.before === undefined && event.after === undefined ? [] : diffSnapshots(event.before, event.after),
+      metadata: event.metadata ? (toPlain(event.metadata) as Record<string, unknown>) : null,
+      actorId: session?.userId ?? null,
+      actorName: session?.username ?? 'system',
+      actorRole: session?.role ?? null,
+      ...requestMeta(req),
+    });
+  } catch (err) {
+    console.error(`[Audit] Failed to record ${event.action} ${event.entityType} ${event.entityId ?? ''}:`, err);
+  }
+}
+
+/* ------------------------------- Querying ---------------------------------- */
+
+export type AuditFilter = {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string;
+  actor?: string;
+  q?: string;
+  from?: Date;
+  to?: Date;
+};
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Reads the filters shared by the list and export endpoints. Dates are whole days (UTC). */
+export function parseAuditFilter(params: URLSearchParams): { ok: true; filter: AuditFilter } | { ok: false; error: string } {
+  const filter: AuditFilter = {};
+  const entityType = params.get('entityType');
+  if (entityType) {
+    if (!(AUDIT_ENTITY_TYPES as readonly string[]).includes(entityType)) return { ok: false, error: 'Unknown entity type' };
+    filter.entityType = entityType as AuditEntityType;
+  }
+  for (const key of ['entityId', 'action', 'actor', 'q'] as const) {
+    const value = params.get(key)?.trim();
+    if (value) filter[key] = value.slice(0, 200);
+  }
+  const from = params.get('from');
+  const to = params.get('to');
+  if (from) filter.from = new Date(`${from}T00:00:00.000Z`);
+  if (to) filter.to = new Date(`${to}T23:59:59.999Z`);
+  if ((filter.from && Number.isNaN(filter.from.getTime())) || (filter.to && Number.isNaN(filter.to.getTime()))) {
+    return { ok: false, error: 'from and to must be dates (YYYY-MM-DD)' };
+  }
+  return { ok: true, filter };
+}
+
+export function buildAuditQuery(filter: AuditFilter): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+  if (filter.entityType) query.entityType = filter.entityType;
+  if (filter.entityId) query.entityId = filter.entityId;
+  if (filter.action) query.action = filter.action;
+  if (filter.actor) query.actorName = new RegExp(escapeRegex(filter.actor), 'i');
+  if (filter.from || filter.to) {
+    const createdAt: Record<string, Date> = {};
+    if (filter.from) createdAt.$gte = filter.from;
+    if (filter.to) createdAt.$lte = filter.to;
+    query.createdAt = createdAt;
+  }
+  if (filter.q) {
+    const rx = new RegExp(escapeRegex(filter.q), 'i');
+    query.$or = [{ entityLabel: rx }, { summary: rx }, { entityId: rx }];
+  }
+  return query;
+}
+
+/* --------------------------------- Export ---------------------------------- */
+
+function escapeCsv(value: unknown) {
+  if (value === undefined || value === null) return '';
+  const s = String(value);
+  if (/[",\n\r]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+  return s;
+}
+
+function formatChangeValue(value: unknown) {
+  if (value === undefined || value === null) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export const AUDIT_CSV_HEADERS = [
+  'date',
+  'actor',
+  'role',
+  'action',
+  'entityType',
+  'entityId',
+  'entity',
+  'summary',
+  'changes',
+  'method',
+  'path',
+  'ip',
+];
+
+export function auditEventToCsvRow(e: Pick<IAuditEvent, 'createdAt' | 'actorName' | 'actorRole' | 'action' | 'entityType' | 'entityId' | 'entityLabel' | 'summary' | 'changes' | 'method' | 'path' | 'ip'>): string {
+  const changes = (e.changes ?? [])
+    .map((c) => `${c.path}: ${formatChangeValue(c.before)} → ${formatChangeValue(c.after)}`)
+    .join('; ');
+  return [
+    e.createdAt ? new Date(e.createdAt).toISOString() : '',
+    e.actorName,
+    e.actorRole,
+    e.action,
+    e.entityType,
+    e.entityId,
+    e.entityLabel,
+    e.summary,
+    changes,
+    e.method,
+    e.path,
+    e.ip,
+  ]
+    .map(escapeCsv)
+    .join(',');
+}
@@ -2,6 +2,17 @@ import { cookies } from "next/headers";
 import jwt from "jsonwebtoken";
 import { NextRequest, NextResponse } from "next/server";
 import { redirect } from "next/navigation";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import User from "@/models/User";
+import { touchAdminSession } from "@/lib/adminSessions";
+import {
+  AdminRole,
+  Permission,
+  defaultAdminPath,
+  hasPermission,
+  resolveRole,
+} from "@/lib/permissions";
 
 const JWT_SECRET = process.env.JWT_SECRET;
 
@@ -22,34 +33,90 @@ type DecodedToken = {
   [k: string]: unknown;
 };
 
+/**
+ * Token payload plus the admin account it belongs to, as it is right now in the
+ * database — so a changed role, a deleted account or a revoked session takes
+ * effect immediately.
+ */
+export type AdminSession = DecodedToken & {
+  userId: string;
+  username: string;
+  role: AdminRole;
+  sessionId: string;
+};
+
+function verifyToken(token: string): DecodedToken | null {
+  try {
+    return jwt.verify(token, JWT_SECRET as string) as DecodedToken;
+  } catch {
+    return null;
+  }
+}
+
+async function loadSession(decoded: DecodedToken): Promise<AdminSession | null> {
+  const userId = typeof decoded.userId === "string" ? decoded.userId : null;
+  if (!userId || !mongoose.Types.ObjectId.isValid(userId)) return null;
+  // Tokens issued before server-side sessions have no sid and can't be revoked, so they no longer count
+  const sessionId = typeof decoded.sid === "string" ? decoded.sid : null;
+  if (!sessionId) return null;
+
+  await dbConnect();
+  const [user, live] = await Promise.all([
+    User.findById(userId).select("username role").lean<{ username: string; role?: string }>().exec(),
+    touchAdminSession(sessionId, userId),
+  ]);
+  if (!user || !live) return null;
+
+  return {
+    ...decoded,
+    userId,
+    username: user.username,
+    sub: user.username,
+    role: resolveRole(user.role),
+    sessionId,
+  };
+}
+
 /**
  * requireAuth (server components / pages)
- * - If token cookie missing or invalid, redirects to /login
- * - Returns decoded token payload when valid
+ * - If token cookie missing or invalid, its session was revoked, or the account no longer exists, redirects to /login
+ * - If the account's role lacks `permission`, redirects to the first admin page it can see
+ * - Returns the admin session when allowed
  */
-export async function requireAuth() {
+export async function requireAuth(permission?: Permission | Permission[]): Promise<AdminSession> {
   const tokenCookie = (await cookies()).get("token");
   if (!tokenCookie) {
     redirect("/login");
   }
 
-  const token = tokenCookie?.value;
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET as string) as DecodedToken;
-    return decoded;
-  } catch (err) {
+  const decoded = verifyToken(tokenCookie.value);
+  if (!decoded) {
     // invalid token -> redirect to login
     redirect("/login");
   }
+
+  const session = await loadSession(decoded);
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (permission && !hasPermission(session.role, permission)) {
+    redirect(defaultAdminPath(session.role));
+  }
+  return session;
 }
 
 
  
+/**
+ * verifyAuthForApi (route handlers)
+ * Returns the admin session, or a response to send back: 401 when not signed in,
+ * 403 when the account's role lacks `permission` (any one of them, for a list).
+ */
 export async function verifyAuthForApi(
   request: NextRequest,
-  // kept for compatibility with route handlers; not used to perform extra checks.
-  _opts?: { requireAdmin?: boolean }
-): Promise<DecodedToken | NextResponse> {
+  opts?: { permission?: Permission | Permission[] }
+): Promise<AdminSession | NextResponse> {
   try {
     // read cookie from request.headers (server runtime)
     const cookieHeader = request.headers.get("cookie") || "";
@@ -66,19 +133,30 @@ export async function verifyAuthForApi(
       );
     }
 
-    try {
-      const decoded = jwt.verify(token, JWT_SECRET as string) as DecodedToken;
-
-      // Per your instruction: do NOT check role/isAdmin or other admin claims.
-      // Any authenticated user is allowed for routes that previously requiredAdmin.
-
-      return decoded;
-    } catch (err) {
+    const decoded = verifyToken(token);
+    if (!decoded) {
       return NextResponse.json(
         { success: false, message: "Invalid token" },
         { status: 401 }
       );
     }
+
+    const session = await loadSession(decoded);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: "Session expired or account not found" },
+        { status: 401 }
+      );
+    }
+
+    if (opts?.permission && !hasPermission(session.role, opts.permission)) {
+      return NextResponse.json(
+        { ok: false, success: false, error: "Your role does not allow this action" },
+        { status: 403 }
+      );
+    }
+
+    return session;
   } catch (err) {
     console.error("verifyAuthForApi error:", err);
     return NextResponse.json(
@@ -86,4 +164,4 @@ export async function verifyAuthForApi(
       { status: 401 }
     );
   }
-}
\ No newline at end of file
+}
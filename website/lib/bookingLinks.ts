@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import Booking from '@/models/Booking';
+import { signatureMatches, signLink } from '@/lib/signedLinks';
+
+/*
+ * Signed manage-booking links for class bookings. The link in the confirmation
+ * email stands in for a login: whoever holds it can cancel or move the booking
+ * (lib/manageBooking), so it only ever goes to the booking's own email address.
+ *
+ * A link runs out when the session starts (nothing can be changed online after
+ * that), and it signs the booking's manageLinkVersion, so bumping the version
+ * retires every link sent so far. Moving a booking does that; the updated
+ * confirmation carries the new link.
+ */
+
+// For bookings without a session date
+const FALLBACK_LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type LinkBooking = { _id: unknown; sessionStart?: Date | string | null; manageLinkVersion?: number | null };
+
+export type BookingLinkCheck = 'ok' | 'invalid' | 'expired';
+
+function signBookingLink(bookingId: string, expires: number, version: number): string {
+  return signLink('manage-booking', `${bookingId}:${expires}:${version}`);
+}
+
+/** Unix seconds */
+function linkExpiry(booking: LinkBooking, now = new Date()): number {
+  const start = booking.sessionStart ? new Date(booking.sessionStart).getTime() : NaN;
+  const at = Number.isFinite(start) ? start : now.getTime() + FALLBACK_LINK_TTL_MS;
+  return Math.floor(at / 1000);
+}
+
+export async function verifyBookingLink(
+  bookingId: unknown,
+  expires: unknown,
+  signature: unknown,
+  now = new Date()
+): Promise<BookingLinkCheck> {
+  if (typeof bookingId !== 'string' || typeof signature !== 'string') return 'invalid';
+  if (!mongoose.Types.ObjectId.isValid(bookingId)) return 'invalid';
+  const exp = Number(expires);
+  if (!Number.isInteger(exp) || exp <= 0) return 'invalid';
+
+  const booking = await Booking.findById(bookingId).select('manageLinkVersion').lean().exec();
+  if (!booking) return 'invalid';
+
+  if (!signatureMatches(signBookingLink(bookingId, exp, booking.manageLinkVersion ?? 0), signature)) return 'invalid';
+  return exp * 1000 > now.getTime() ? 'ok' : 'expired';
+}
+
+/** The query of a manage link: booking, exp and sig */
+export function manageBookingLinkParams(booking: LinkBooking): { booking: string; exp: string; sig: string } {
+  const bookingId = String(booking._id);
+  const expires = linkExpiry(booking);
+  return {
+    booking: bookingId,
+    exp: String(expires),
+    sig: signBookingLink(bookingId, expires, booking.manageLinkVersion ?? 0),
+  };
+}
+
+export function buildManageBookingUrl(booking: LinkBooking): string {
+  const appBase = (process.env.APP_BASE_URL || '').replace(/\/$/, '');
+  const params = new URLSearchParams(manageBookingLinkParams(booking));
+  return `${appBase}/classes/manage?${params.toString()}`;
+}
@@ -1,29 +1,20 @@
-// Brevo (Sendinblue) helpers used by the /api/enquiry route.
+// Email helpers used by the /api/enquiry route. Messages are queued in the outbox (lib/outbox.ts)
+// using the admin_enquiry and enquiry_confirmation templates.
 // Requires env:
 // - BREVO_API_KEY
 // - BREVO_SENDER_EMAIL (or EMAIL_FROM)
 // - BREVO_SENDER_NAME (optional)
 // - ADMIN_NOTIFICATION_EMAIL (or ADMIN_EMAIL) for admin recipients
 
+import { enqueueEmail } from '@/lib/outbox';
+import { renderEmailTemplate, type AdminEnquiryVars } from '@/lib/emailTemplates';
+
 interface EmailRecipient {
   email: string;
   name: string;
 }
 
-interface BrevoErrorResponse {
-  code?: string;
-  message?: string;
-}
-
-export async function sendAdminNotification(payload: {
-    enquiryId: string;
-    clientName?: string;
-    clientEmail?: string;
-    dashboardUrl?: string;
-    subject?: string;
-    bodyHtml?: string;
-  }): Promise<void> {
-    const apiKey = process.env.BREVO_API_KEY;
+export async function sendAdminNotification(payload: AdminEnquiryVars): Promise<void> {
     const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || '').trim();
     const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || 'Store';
     const adminEnv = (process.env.ADMIN_NOTIFICATION_EMAIL || process.env.ADMIN_EMAIL || '').trim();
@@ -34,8 +25,6 @@ export async function sendAdminNotification(payload: {
       console.warn('[AdminNotification] No ADMIN_NOTIFICATION_EMAIL configured — skipping.');
       return;
     }
-    if (!apiKey) throw new Error('Missing BREVO_API_KEY');
-  
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!senderEmail || !emailRegex.test(senderEmail)) throw new Error('Invalid or missing BREVO sender email');
   
@@ -45,39 +34,21 @@ export async function sendAdminNotification(payload: {
       return;
     }
   
-    const subject = payload.subject ?? `New enquiry: ${payload.clientName ?? '—'}`;
-    const html = payload.bodyHtml ?? `<div><h2>New enquiry</h2><p>ID: ${payload.enquiryId}</p></div>`;
+    const email = await renderEmailTemplate('admin_enquiry', payload);
   
-    const body = {
-      sender: { name: senderName, email: senderEmail },
+    const queued = await enqueueEmail({
+      kind: 'admin_enquiry',
+      audience: 'admin',
+      from: { email: senderEmail, name: senderName },
       to,
-      subject,
-      htmlContent: html,
-    } as Record<string, unknown>;
-  
-    const res = await fetch('https://api.brevo.com/v3/smtp/email', {
-      method: 'POST',
-      headers: {
-        'api-key': apiKey,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      },
-      body: JSON.stringify(body),
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      related: { type: 'Enquiry', id: payload.enquiryId },
     });
+    if (!queued.ok) throw new Error(queued.error);
   
-    if (!res.ok) {
-      const txt = await res.text().catch(() => '');
-      try {
-        const json: BrevoErrorResponse = JSON.parse(txt);
-        const code = json.code;
-        const message = json.message || txt;
-        throw new Error(`Brevo API error ${res.status}: code=${code ?? 'unknown'} message=${message}`);
-      } catch {
-        throw new Error(`Brevo API error ${res.status}: ${txt || 'no response body'}`);
-      }
-    }
-  
-    console.log(`[AdminNotification] Sent to ${to.map((t) => t.email).join(', ')}`);
+    console.log(`[AdminNotification] Queued for ${to.map((t) => t.email).join(', ')}`);
   }
   
   export async function sendCustomerConfirmation(params: {
@@ -87,51 +58,33 @@ export async function sendAdminNotification(payload: {
     interest?: string;
     enquiryId: string;
   }): Promise<void> {
-    const apiKey = process.env.BREVO_API_KEY;
     const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || '').trim();
     const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || 'Store';
   
-    if (!apiKey) {
-      console.warn('[CustomerConfirmation] BREVO_API_KEY not configured — skipping.');
-      return;
-    }
     if (!params.to || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(params.to)) {
       console.warn('[CustomerConfirmation] Invalid customer email — skipping.');
       return;
     }
   
-    const subject = `Thanks — we received your enquiry (${params.enquiryId})`;
-    const html = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px;">
-        <h2>Thanks for your enquiry</h2>
-        <p>Hi ${params.contact},</p>
-        <p>Thanks — we received your enquiry for <strong>${params.business}</strong>. Our team will contact you shortly${params.interest ? ` about ${params.interest}` : ''}.</p>
-        <p>Reference: <strong>${params.enquiryId}</strong></p>
-        <p>Best regards,<br/>${senderName}</p>
-      </div>
-    `;
+    const email = await renderEmailTemplate('enquiry_confirmation', {
+      enquiryId: params.enquiryId,
+      business: params.business,
+      contact: params.contact,
+      interest: params.interest,
+    });
   
-    const body = {
-      sender: { name: senderName, email: senderEmail },
+    const queued = await enqueueEmail({
+      kind: 'enquiry_confirmation',
+      from: { email: senderEmail, name: senderName },
       to: [{ email: params.to, name: params.contact }],
-      subject,
-      htmlContent: html,
-    } as Record<string, unknown>;
-  
-    const res = await fetch('https://api.brevo.com/v3/smtp/email', {
-      method: 'POST',
-      headers: {
-        'api-key': apiKey,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      },
-      body: JSON.stringify(body),
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      related: { type: 'Enquiry', id: params.enquiryId },
     });
-  
-    if (!res.ok) {
-      const txt = await res.text().catch(() => '');
-      console.warn('[CustomerConfirmation] Brevo returned error:', res.status, txt);
+    if (!queued.ok) {
+      console.warn('[CustomerConfirmation] Could not queue confirmation:', queued.error);
     } else {
-      console.log(`[CustomerConfirmation] Sent to ${params.to}`);
+      console.log(`[CustomerConfirmation] Queued for ${params.to}`);
     }
   }
\ No newline at end of file
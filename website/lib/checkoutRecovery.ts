@@ -0,0 +1,313 @@
+import mongoose from 'mongoose';
+import Stripe from 'stripe';
+import CheckoutSession, { ICheckoutSession, ICheckoutSessionItem } from '@/models/CheckoutSession';
+import Client from '@/models/Client';
+import Order from '@/models/Order';
+import { notifyCheckoutRecovery } from '@/lib/notifyCheckoutRecovery';
+import { signatureMatches, signLink } from '@/lib/signedLinks';
+
+/*
+ * Abandoned checkout recovery. create-payment-intent opens (or moves along) a
+ * CheckoutSession, save-shipping adds who it belongs to, and fulfilment closes it.
+ * The cron job emails shoppers who opted in and stopped before paying, with a
+ * signed link that puts their cart back.
+ */
+
+/* ----------------------------- Config ---------------------------------- */
+
+// First email after this long without activity; later ones after the previous email
+const ABANDONED_AFTER_HOURS = Number(process.env.ABANDONED_CHECKOUT_HOURS) || 4;
+export const RECOVERY_EMAIL_DELAYS_HOURS = [ABANDONED_AFTER_HOURS, 24, 72];
+
+// Older carts are left alone: prices and stock will have moved on
+const MAX_SESSION_AGE_DAYS = 14;
+const MAX_SESSION_ITEMS = 50;
+const BATCH_SIZE = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function getErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/* ----------------------------- Signed links ---------------------------------- */
+
+export function signCheckoutSessionId(sessionId: string): string {
+  return signLink('checkout-recovery', sessionId);
+}
+
+export function verifyCheckoutSessionSignature(sessionId: unknown, signature: unknown): sessionId is string {
+  if (typeof sessionId !== 'string' || typeof signature !== 'string') return false;
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) return false;
+  return signatureMatches(signCheckoutSessionId(sessionId), signature);
+}
+
+export function buildCheckoutRecoveryUrl(sessionId: string, action?: 'unsubscribe') {
+  const appBase = (process.env.APP_BASE_URL || '').replace(/\/$/, '');
+  const params = new URLSearchParams({ session: sessionId, sig: signCheckoutSessionId(sessionId) });
+  if (action) params.set('action', action);
+  return `${appBase}/checkout/recover?${params.toString()}`;
+}
+
+/* ----------------------------- Session tracking ---------------------------------- */
+
+const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim().slice(0, 200) : undefined);
+
+/**
+ * Cart lines as the checkout page sent them, trimmed to what's needed to rebuild
+ * the cart. `prices` are the server-verified unit prices keyed by line id.
+ * Gift card lines are left out: they carry a recipient's details.
+ */
+export function toCheckoutSessionItems(raw: unknown, prices: Map<string, number>): ICheckoutSessionItem[] {
+  if (!Array.isArray(raw)) return [];
+  const items: ICheckoutSessionItem[] = [];
+  for (const entry of raw.slice(0, MAX_SESSION_ITEMS)) {
+    if (!entry || typeof entry !== 'object') continue;
+    const r = entry as Record<string, unknown>;
+    const id = str(r.id);
+    const productType = str(r.productType);
+    const name = str(r.name);
+    const quantity = Number(r.quantity);
+    if (!id || !productType || !name || productType === 'gift_card') continue;
+    if (!Number.isInteger(quantity) || quantity <= 0) continue;
+
+    const lookupId = productType === 'subscription' ? str(r.variantId) : id;
+    const verifiedPrice = lookupId ? prices.get(lookupId) : undefined;
+    const clientPrice = Number(r.price);
+    items.push({
+      id,
+      productType,
+      productId: str(r.productId) ?? id,
+      variantId: str(r.variantId),
+      name,
+      price: verifiedPrice ?? (Number.isFinite(clientPrice) && clientPrice >= 0 ? clientPrice : 0),
+      quantity,
+      img: str(r.img),
+      size: str(r.size),
+      grind: str(r.grind),
+      sku: str(r.sku),
+      roastType: str(r.roastType),
+      cadence: str(r.cadence),
+    });
+  }
+  return items;
+}
+
+/**
+ * Records a new PaymentIntent for a checkout. Follows on from the session of the
+ * PaymentIntent it replaces (or the one a recovery link came from) so one
+ * checkout stays one session however many times the cart changes.
+ */
+export async function trackCheckoutSession(input: {
+  paymentIntentId: string;
+  previousPaymentIntentId?: string | null;
+  recoverySessionId?: string | null;
+  items: ICheckoutSessionItem[];
+  subtotal: number;
+  total: number;
+  discountCode?: string | null;
+}): Promise<void> {
+  const update = {
+    paymentIntentId: input.paymentIntentId,
+    items: input.items,
+    subtotal: Number(input.subtotal.toFixed(2)),
+    total: Number(input.total.toFixed(2)),
+    discountCode: input.discountCode ?? null,
+    lastActivityAt: new Date(),
+  };
+
+  const continues: Record<string, unknown>[] = [];
+  if (input.recoverySessionId) continues.push({ _id: input.recoverySessionId });
+  if (input.previousPaymentIntentId) continues.push({ paymentIntentId: input.previousPaymentIntentId });
+
+  if (continues.length > 0) {
+    const moved = await CheckoutSession.findOneAndUpdate(
+      { $or: continues, status: 'open' },
+      { $set: update },
+      { new: true }
+    ).exec();
+    if (moved) return;
+  }
+
+  await CheckoutSession.updateOne(
+    { paymentIntentId: input.paymentIntentId },
+    { $set: update, $setOnInsert: { status: 'open' } },
+    { upsert: true }
+  ).exec();
+}
+
+/**
+ * Adds the shopper's details from save-shipping. Ticking the marketing box at
+ * checkout opts the client in; recovery emails are only sent to subscribed clients.
+ */
+export async function recordCheckoutContact(
+  paymentIntentId: string,
+  contact: { email?: unknown; name?: unknown; marketingOptIn?: unknown }
+): Promise<void> {
+  const email = typeof contact.email === 'string' ? contact.email.trim().toLowerCase() : '';
+  if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return;
+  const name = str(contact.name) ?? null;
+
+  await CheckoutSession.updateOne(
+    { paymentIntentId, status: 'open' },
+    { $set: { email, name, lastActivityAt: new Date() } }
+  ).exec();
+
+  if (contact.marketingOptIn === true) {
+    await Client.updateOne(
+      { email },
+      { $set: { isSubscribed: true }, $setOnInsert: { email, ...(name ? { name } : {}) } },
+      { upsert: true }
+    ).exec();
+  }
+}
+
+/**
+ * Closes the session for a paid PaymentIntent. Counted as recovered when a
+ * recovery email had gone out before the payment.
+ */
+export async function markCheckoutSessionPaid(
+  paymentIntentId: string,
+  order: { orderId: mongoose.Types.ObjectId | string; total: number }
+): Promise<void> {
+  const session = await CheckoutSession.findOne({ paymentIntentId, status: 'open' }).exec();
+  if (!session) return;
+  session.status = session.emailsSent > 0 ? 'recovered' : 'completed';
+  session.orderId = new mongoose.Types.ObjectId(String(order.orderId));
+  session.orderTotal = Number(order.total.toFixed(2));
+  session.completedAt = new Date();
+  await session.save();
+}
+
+/** Stops the sequence and unsubscribes the client (link in every recovery email) */
+export async function unsubscribeFromCheckoutSession(sessionId: string): Promise<void> {
+  const session = await CheckoutSession.findById(sessionId).exec();
+  if (!session) return;
+  if (!session.suppressedAt) {
+    session.suppressedAt = new Date();
+    session.suppressedReason = 'unsubscribed';
+    await session.save();
+  }
+  if (session.email) {
+    await Client.updateOne({ email: session.email }, { $set: { isSubscribed: false } }).exec();
+  }
+}
+
+/* ----------------------------- Cron job ---------------------------------- */
+
+function isDue(session: ICheckoutSession, now: Date): boolean {
+  const delay = RECOVERY_EMAIL_DELAYS_HOURS[session.emailsSent];
+  if (delay === undefined) return false;
+  const from = session.emailsSent === 0 ? session.lastActivityAt : session.lastEmailAt ?? session.lastActivityAt;
+  return now.getTime() - new Date(from).getTime() >= delay * HOUR_MS;
+}
+
+async function suppress(session: ICheckoutSession, reason: string) {
+  session.suppressedAt = new Date();
+  session.suppressedReason = reason;
+  await session.save();
+}
+
+/**
+ * Sends the next recovery email to every abandoned session that is due one.
+ * Sessions whose payment went through after all (webhook still pending) are left
+ * for fulfilment to close.
+ */
+export async function runAbandonedCheckoutEmails(stripe: Stripe, now = new Date(), deadline = Infinity) {
+  const summary = { checked: 0, sent: 0, suppressed: 0, failed: 0, errors: [] as { id: string; error: string }[] };
+
+  const sessions = await CheckoutSession.find({
+    status: 'open',
+    suppressedAt: null,
+    email: { $ne: null },
+    emailsSent: { $lt: RECOVERY_EMAIL_DELAYS_HOURS.length },
+    lastActivityAt: {
+      $lte: new Date(now.getTime() - ABANDONED_AFTER_HOURS * HOUR_MS),
+      $gte: new Date(now.getTime() - MAX_SESSION_AGE_DAYS * 24 * HOUR_MS),
+    },
+  })
+    .sort({ lastActivityAt: 1 })
+    .limit(BATCH_SIZE)
+    .exec();
+
+  for (const session of sessions) {
+    // The rest are picked up on the next run
+    if (Date.now() > deadline) break;
+    if (!isDue(session, now)) continue;
+    summary.checked++;
+    const id = String(session._id);
+
+    try {
+      if (session.items.length === 0) {
+        await suppress(session, 'empty_cart');
+        summary.suppressed++;
+        continue;
+      }
+
+      const client = await Client.findOne({ email: session.email }).select('isSubscribed').lean().exec();
+      if (!client?.isSubscribed) {
+        await suppress(session, 'not_subscribed');
+        summary.suppressed++;
+        continue;
+      }
+
+      const paid = await Order.exists({ paymentIntentId: session.paymentIntentId, status: 'paid' });
+      const pi = paid ? null : await stripe.paymentIntents.retrieve(session.paymentIntentId).catch(() => null);
+      if (paid || pi?.status === 'succeeded' || pi?.status === 'processing') continue;
+
+      const result = await notifyCheckoutRecovery({
+        session,
+        step: session.emailsSent,
+        recoverUrl: buildCheckoutRecoveryUrl(id),
+        unsubscribeUrl: buildCheckoutRecoveryUrl(id, 'unsubscribe'),
+      });
+
+      if (result.sent) {
+        session.emailsSent += 1;
+        session.firstEmailAt = session.firstEmailAt ?? now;
+        session.lastEmailAt = now;
+        session.lastEmailError = null;
+        await session.save();
+        summary.sent++;
+      } else {
+        session.lastEmailError = result.error ?? 'send failed';
+        await session.save();
+        summary.failed++;
+        summary.errors.push({ id, error: session.lastEmailError });
+      }
+    } catch (err) {
+      summary.failed++;
+      summary.errors.push({ id, error: getErrorMessage(err) });
+    }
+  }
+
+  return summary;
+}
+
+/* ----------------------------- Reporting ---------------------------------- */
+
+/** Recovery emails sent in [start, end] and what came of them */
+export async function getCheckoutRecoveryStats(start: Date, end: Date) {
+  const [row] = (await CheckoutSession.aggregate([
+    { $match: { firstEmailAt: { $gte: start, $lte: end } } },
+    {
+      $group: {
+        _id: null,
+        emailed: { $sum: 1 },
+        recovered: { $sum: { $cond: [{ $eq: ['$status', 'recovered'] }, 1, 0] } },
+        recoveredRevenue: {
+          $sum: { $cond: [{ $eq: ['$status', 'recovered'] }, { $ifNull: ['$orderTotal', 0] }, 0] },
+        },
+      },
+    },
+  ])) as { emailed: number; recovered: number; recoveredRevenue: number }[];
+
+  const emailed = row?.emailed ?? 0;
+  const recovered = row?.recovered ?? 0;
+  return {
+    emailed,
+    recovered,
+    recoveredRevenue: Number((row?.recoveredRevenue ?? 0).toFixed(2)),
+    recoveryRate: emailed > 0 ? Math.round((recovered / emailed) * 1000) / 10 : 0,
+  };
+}
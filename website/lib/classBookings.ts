@@ -0,0 +1,542 @@
+import Stripe from 'stripe';
+import mongoose from 'mongoose';
+import Booking, { IBooking } from '@/models/Booking';
+import Course from '@/models/Class';
+import Invoice from '@/models/Invoice';
+import { notifyBookingToCustomer } from '@/lib/notifyBooking';
+import { notifyAdminBooking } from '@/lib/notifyAdminBooking';
+import { calculateVat, VAT_RATES, isTaxCategory, type TaxCategory } from '@/lib/vat';
+import { processInvoice, shopCompanyInfo, type InvoiceData } from '@/lib/invoiceService';
+import {
+  claimSeats,
+  freeSeats,
+  sessionCapacity,
+  sessionKey,
+  type SessionLike,
+} from '@/lib/classSeats';
+import { linkWaitlistBooking, offerWaitlistSeats, returnWaitlistOffer, takeWaitlistOffer } from '@/lib/classWaitlist';
+
+/*
+ * Class bookings. A paid class is booked in two steps: the booking is created as
+ * "pending" with a PaymentIntent for price × attendees, holding its seats for
+ * HOLD_MS, and payment_intent.succeeded confirms it, sends the customer and admin
+ * emails and raises the invoice. A declined card keeps the hold so the customer
+ * can try another card; a cancelled PaymentIntent releases the seats straight away
+ * and the booking-holds job releases holds that run out unpaid.
+ * Free classes are confirmed on the spot.
+ *
+ * Seats are counted per session (lib/classSeats): a booking claims its seats
+ * before it is created, and seats given back by a cancelled, released or deleted
+ * booking are offered to the session's waitlist (lib/classWaitlist).
+ */
+
+const HOLD_MS = 30 * 60 * 1000;
+
+type BookingCourse = {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  price?: number;
+  capacity?: number;
+  taxCategory?: string;
+  location?: string;
+  sessions?: SessionLike[];
+};
+
+export type BookingRequest = {
+  courseId: string;
+  sessionId?: string | null;
+  name: string;
+  email: string;
+  phone: string;
+  attendees: number;
+};
+
+export type BookingErrorCode = 'sold_out' | 'not_enough_seats';
+
+export type CreateBookingResult =
+  | { ok: true; booking: IBooking; clientSecret: string | null }
+  | { ok: false; status: number; error: string; code?: BookingErrorCode; remaining?: number };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function getStripe(): Stripe | null {
+  const stripeSecret = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecret) return null;
+  return new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' });
+}
+
+function makeBookingRef() {
+  return `BK-${Math.random().toString(36).slice(2, 9).toUpperCase()}`;
+}
+
+async function findCourse(courseId: string): Promise<BookingCourse | null> {
+  let course: BookingCourse | null = null;
+  if (mongoose.Types.ObjectId.isValid(courseId)) {
+    course = await Course.findById(courseId).lean<BookingCourse>().exec();
+  }
+  if (!course) {
+    course = await Course.findOne({ slug: String(courseId).toLowerCase().trim() }).lean<BookingCourse>().exec();
+  }
+  return course;
+}
+
+/** The requested session, or the next one that hasn't ended when none is given */
+function findSession(course: BookingCourse, sessionId?: string | null) {
+  const sessions = course.sessions ?? [];
+  if (sessionId) return sessions.find((s) => sessionKey(s) === String(sessionId));
+  const now = Date.now();
+  return sessions.find((s) => {
+    const endTs = s.end ? new Date(s.end).getTime() : NaN;
+    return !Number.isNaN(endTs) && endTs > now;
+  });
+}
+
+/** Gives a booking's seats back to its session and offers them to the session's waitlist */
+export async function releaseSeats(booking: { courseId?: unknown; sessionId?: string | null; attendees?: number }): Promise<void> {
+  await freeSeats(booking.courseId, booking.sessionId, Number(booking.attendees ?? 0));
+  if (!booking.courseId || !booking.sessionId) return;
+  try {
+    await offerWaitlistSeats(booking.courseId, booking.sessionId);
+  } catch (err) {
+    // The waitlist-offers job tries again
+    console.error(`[ClassBookings] Could not offer freed seats on ${booking.sessionId}:`, err);
+  }
+}
+
+/**
+ * Creates the booking; paid classes come back pending with the PaymentIntent's
+ * client secret. `seatsHeld` is for a claimed waitlist offer, whose seats are
+ * already taken: nothing is claimed, and on failure they stay with the offer.
+ */
+export async function createBooking(input: BookingRequest, opts: { seatsHeld?: boolean } = {}): Promise<CreateBookingResult> {
+  const course = await findCourse(input.courseId);
+  if (!course) return { ok: false, status: 404, error: 'Course not found' };
+
+  const session = findSession(course, input.sessionId);
+  if (!session) {
+    return { ok: false, status: 404, error: input.sessionId ? 'Session not found' : 'No upcoming session found for this course' };
+  }
+  const endTs = session.end ? new Date(session.end).getTime() : NaN;
+  if (Number.isNaN(endTs) || endTs <= Date.now()) {
+    return { ok: false, status: 400, error: 'Selected session has already passed' };
+  }
+
+  const amount = round2(Number(course.price ?? 0) * input.attendees);
+  const stripe = amount > 0 ? getStripe() : null;
+  if (amount > 0 && !stripe) return { ok: false, status: 503, error: 'Online payment is not available right now' };
+
+  const sessionId = sessionKey(session);
+  const capacity = sessionCapacity(course, session);
+  if (!opts.seatsHeld && input.attendees > capacity) {
+    return {
+      ok: false,
+      status: 409,
+      code: 'not_enough_seats',
+      error: `This session takes at most ${capacity} ${capacity === 1 ? 'person' : 'people'}`,
+    };
+  }
+  const claim = opts.seatsHeld ? ({ ok: true } as const) : await claimSeats(course._id, sessionId, capacity, input.attendees);
+  if (!claim.ok) {
+    return claim.remaining === 0
+      ? { ok: false, status: 409, code: 'sold_out', remaining: 0, error: 'This session is sold out' }
+      : {
+          ok: false,
+          status: 409,
+          code: 'not_enough_seats',
+          remaining: claim.remaining,
+          error: `Only ${claim.remaining} ${claim.remaining === 1 ? 'seat is' : 'seats are'} left on this session`,
+        };
+  }
+
+  let booking: IBooking;
+  try {
+    booking = await Booking.create({
+      bookingRef: makeBookingRef(),
+      courseId: course._id,
+      sessionId,
+      sessionStart: session.start ? new Date(session.start) : undefined,
+      sessionEnd: session.end ? new Date(session.end) : undefined,
+      name: input.name.trim(),
+      email: input.email.trim().toLowerCase(),
+      phone: input.phone.trim(),
+      attendees: input.attendees,
+      amount,
+      currency: 'gbp',
+      status: amount > 0 ? 'pending' : 'confirmed',
+      holdExpiresAt: amount > 0 ? new Date(Date.now() + HOLD_MS) : null,
+    });
+  } catch (err) {
+    if (!opts.seatsHeld) await releaseSeats({ courseId: course._id, sessionId, attendees: input.attendees });
+    throw err;
+  }
+
+  if (!stripe) {
+    await sendBookingNotifications(booking, course);
+    return { ok: true, booking, clientSecret: null };
+  }
+
+  let paymentIntent: Stripe.PaymentIntent;
+  try {
+    paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: Math.round(amount * 100),
+        currency: 'gbp',
+        payment_method_types: ['card'],
+        receipt_email: booking.email,
+        description: `${course.title} × ${booking.attendees} (${booking.bookingRef})`,
+        metadata: {
+          bookingId: String(booking._id),
+          bookingRef: booking.bookingRef,
+          courseId: String(course._id),
+          sessionId,
+          attendees: String(booking.attendees),
+        },
+      },
+      { idempotencyKey: `booking-${String(booking._id)}` }
+    );
+  } catch (err) {
+    console.error(`[ClassBookings] Failed to create PaymentIntent for ${booking.bookingRef}:`, err);
+    if (opts.seatsHeld) {
+      await Booking.updateOne(
+        { _id: booking._id, status: 'pending' },
+        { $set: { status: 'cancelled', cancelledAt: new Date(), cancelReason: 'payment_setup_failed', holdExpiresAt: null } }
+      ).exec();
+    } else {
+      await releaseBookingHold({ bookingId: String(booking._id) }, 'payment_setup_failed');
+    }
+    return { ok: false, status: 502, error: 'Could not start the payment; please try again' };
+  }
+
+  booking.paymentIntentId = paymentIntent.id;
+  await Booking.updateOne({ _id: booking._id }, { $set: { paymentIntentId: paymentIntent.id } }).exec();
+  return { ok: true, booking, clientSecret: paymentIntent.client_secret };
+}
+
+/**
+ * Turns a waitlist offer into a booking for the party that was offered the
+ * seats. If the booking can't be made the offer is put back, so the link keeps
+ * working until it expires.
+ */
+export async function claimWaitlistOffer(token: unknown): Promise<CreateBookingResult> {
+  const taken = await takeWaitlistOffer(token);
+  if (!taken.ok) return taken;
+  const { entry } = taken;
+
+  let result: CreateBookingResult;
+  try {
+    result = await createBooking(
+      {
+        courseId: String(entry.courseId),
+        sessionId: entry.sessionId,
+        name: entry.name,
+        email: entry.email,
+        phone: entry.phone || '-',
+        attendees: entry.partySize,
+      },
+      { seatsHeld: true }
+    );
+  } catch (err) {
+    await returnWaitlistOffer(entry._id);
+    throw err;
+  }
+  if (!result.ok) {
+    await returnWaitlistOffer(entry._id);
+    return result;
+  }
+  await linkWaitlistBooking(entry._id, result.booking._id);
+  return result;
+}
+
+/* ----------------------------- Payment events ----------------------------- */
+
+async function findBookingForPayment(pi: Stripe.PaymentIntent): Promise<IBooking | null> {
+  const byIntent = await Booking.findOne({ paymentIntentId: pi.id }).exec();
+  if (byIntent) return byIntent;
+  const bookingId = pi.metadata?.bookingId;
+  return bookingId && mongoose.Types.ObjectId.isValid(bookingId) ? Booking.findById(bookingId).exec() : null;
+}
+
+/**
+ * Paid after its hold was released: the seats are taken back only if they still
+ * fit; otherwise the payment is refunded and the booking stays cancelled.
+ */
+async function reclaimSeatsForLatePayment(booking: IBooking, pi: Stripe.PaymentIntent): Promise<boolean> {
+  const course = await findCourse(String(booking.courseId));
+  const session = course ? findSession(course, booking.sessionId) : undefined;
+  if (!course || !session || !booking.sessionId) return true;
+
+  const claim = await claimSeats(course._id, booking.sessionId, sessionCapacity(course, session), booking.attendees);
+  if (claim.ok) return true;
+
+  console.warn(`[ClassBookings] ${booking.bookingRef} was paid after its hold was released and the session is full; refunding`);
+  const stripe = getStripe();
+  if (!stripe) {
+    console.error(`[ClassBookings] Cannot refund ${pi.id}: Stripe is not configured`);
+    return false;
+  }
+  try {
+    await stripe.refunds.create(
+      { payment_intent: pi.id, reason: 'requested_by_customer', metadata: { bookingId: String(booking._id) } },
+      { idempotencyKey: `booking-late-${booking._id}` }
+    );
+    await Booking.updateOne({ _id: booking._id }, { $set: { cancelReason: 'paid_after_release_refunded' } }).exec();
+  } catch (err) {
+    console.error(`[ClassBookings] Refund for late payment ${pi.id} failed:`, err);
+  }
+  return false;
+}
+
+/**
+ * payment_intent.succeeded: confirms the booking. Only the call that flips it
+ * sends the emails, so a replayed event doesn't email twice; the invoice is
+ * raised on any call that finds it missing.
+ */
+export async function confirmBookingPayment(pi: Stripe.PaymentIntent): Promise<IBooking | null> {
+  const booking = await findBookingForPayment(pi);
+  if (!booking) {
+    console.warn(`[ClassBookings] No booking for PaymentIntent ${pi.id}`);
+    return null;
+  }
+
+  if (booking.status === 'cancelled') {
+    // Already paid and cancelled since (e.g. by the customer): a replayed event must not reinstate it
+    if (booking.paidAt) return booking;
+    if (!(await reclaimSeatsForLatePayment(booking, pi))) return null;
+  }
+
+  const confirmed = await Booking.findOneAndUpdate(
+    { _id: booking._id, status: booking.status },
+    {
+      $set: {
+        status: 'confirmed',
+        paymentIntentId: pi.id,
+        paidAt: new Date(),
+        holdExpiresAt: null,
+        cancelledAt: null,
+        cancelReason: null,
+      },
+    },
+    { new: true }
+  ).exec();
+
+  if (!confirmed) {
+    const latest = await Booking.findById(booking._id).select('status').lean().exec();
+    // Someone else moved it first: give back seats taken for a late payment, or
+    // take the late-payment route if its hold was released in the meantime
+    if (booking.status === 'cancelled') {
+      await freeSeats(booking.courseId, booking.sessionId, booking.attendees);
+    } else if (latest?.status === 'cancelled') {
+      return confirmBookingPayment(pi);
+    }
+  }
+
+  const course = await Course.findById(booking.courseId).lean<BookingCourse>().exec();
+  if (confirmed) {
+    if (booking.status === 'cancelled') {
+      console.warn(`[ClassBookings] ${booking.bookingRef} was paid after its hold was released; reinstated`);
+    }
+    await sendBookingNotifications(confirmed, course ?? { title: 'Class' });
+  }
+
+  const current = confirmed ?? booking;
+  if (!current.invoiceId) await createBookingInvoice(current, course, pi, current.paidAt ?? new Date());
+  return current;
+}
+
+/**
+ * Gives a pending booking's seats back. With `stripe`, its PaymentIntent is also
+ * cancelled so a retried card can't be charged for seats that have gone.
+ */
+export async function releaseBookingHold(
+  target: { paymentIntentId: string } | { bookingId: string },
+  reason: string,
+  stripe?: Stripe | null
+): Promise<boolean> {
+  const filter = 'paymentIntentId' in target ? { paymentIntentId: target.paymentIntentId } : { _id: target.bookingId };
+  const released = await Booking.findOneAndUpdate(
+    { ...filter, status: 'pending' },
+    { $set: { status: 'cancelled', cancelledAt: new Date(), cancelReason: reason, holdExpiresAt: null } },
+    { new: true }
+  ).exec();
+  if (released) await releaseSeats(released);
+  if (released?.paymentIntentId && stripe) {
+    try {
+      await stripe.paymentIntents.cancel(released.paymentIntentId);
+    } catch (err) {
+      // Already cancelled, or it can't be any more; nothing to undo either way
+      console.warn(`[ClassBookings] Could not cancel ${released.paymentIntentId}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return !!released;
+}
+
+export function isBookingPaymentIntent(pi: Stripe.PaymentIntent): boolean {
+  return !!pi.metadata?.bookingId;
+}
+
+/** Routes a booking's PaymentIntent events; called from lib/stripeEvents */
+export async function handleBookingPaymentEvent(type: string, pi: Stripe.PaymentIntent): Promise<void> {
+  if (type === 'payment_intent.succeeded') {
+    await confirmBookingPayment(pi);
+  } else if (type === 'payment_intent.payment_failed') {
+    // The customer can retry with another card on the same PaymentIntent; the hold runs its course
+    console.warn(`[ClassBookings] Payment attempt failed for ${pi.id}:`, pi.last_payment_error?.message ?? 'unknown reason');
+  } else if (type === 'payment_intent.canceled') {
+    await releaseBookingHold({ paymentIntentId: pi.id }, 'payment_cancelled');
+  } else if (type === 'payment_intent.processing') {
+    // The money is on its way; don't let the hold lapse underneath it
+    await Booking.updateOne({ paymentIntentId: pi.id, status: 'pending' }, { $set: { holdExpiresAt: null } }).exec();
+  }
+}
+
+export type BookingHoldsSummary = { checked: number; released: number; confirmed: number };
+
+/** Releases pending bookings whose hold has run out; run by the booking-holds job */
+export async function expireBookingHolds(now = new Date()): Promise<BookingHoldsSummary> {
+  const stale = await Booking.find({ status: 'pending', holdExpiresAt: { $ne: null, $lte: now } }).exec();
+  const summary: BookingHoldsSummary = { checked: stale.length, released: 0, confirmed: 0 };
+  if (stale.length === 0) return summary;
+  const stripe = getStripe();
+
+  for (const booking of stale) {
+    if (booking.paymentIntentId && stripe) {
+      const pi = await stripe.paymentIntents.retrieve(booking.paymentIntentId);
+      // The webhook may have been missed
+      if (pi.status === 'succeeded') {
+        await confirmBookingPayment(pi);
+        summary.confirmed += 1;
+        continue;
+      }
+      if (pi.status === 'processing') {
+        await Booking.updateOne({ _id: booking._id, status: 'pending' }, { $set: { holdExpiresAt: null } }).exec();
+        continue;
+      }
+    }
+    if (await releaseBookingHold({ bookingId: String(booking._id) }, 'payment_abandoned', stripe)) summary.released += 1;
+  }
+  return summary;
+}
+
+/* ------------------------------ Side effects ------------------------------ */
+
+/** Customer confirmation (with its calendar invite) and admin notification; failures are logged, not thrown */
+async function sendBookingNotifications(booking: IBooking, course: { title: string; location?: string }): Promise<void> {
+  const details = {
+    _id: booking._id as mongoose.Types.ObjectId,
+    bookingRef: booking.bookingRef,
+    courseTitle: course.title,
+    sessionStart: booking.sessionStart,
+    sessionEnd: booking.sessionEnd,
+    name: booking.name,
+    email: booking.email,
+    phone: booking.phone,
+    attendees: booking.attendees,
+    createdAt: booking.createdAt,
+  };
+
+  try {
+    const res = await notifyBookingToCustomer({
+      booking: {
+        ...details,
+        courseId: booking.courseId?.toString(),
+        location: course.location,
+        history: booking.history,
+        manageLinkVersion: booking.manageLinkVersion,
+      },
+      appBase: process.env.APP_BASE_URL || null,
+    });
+    if (!res.sent) console.warn('Booking confirmation email failed:', res.error);
+  } catch (emailErr) {
+    console.warn('Booking confirmation email failed:', emailErr);
+  }
+
+  try {
+    const res = await notifyAdminBooking({ booking: details });
+    if (!res.sent) console.warn('Admin notification failed:', res.error);
+  } catch (adminErr) {
+    console.warn('Admin notification error:', adminErr);
+  }
+}
+
+/** Saves and emails the invoice for a paid booking; a failure is logged and left for a replay */
+async function createBookingInvoice(
+  booking: IBooking,
+  course: BookingCourse | null,
+  pi: Stripe.PaymentIntent,
+  paidAt: Date
+): Promise<void> {
+  try {
+    const existing = await Invoice.findOne({ paymentIntentId: pi.id }).select('_id').lean().exec();
+    if (existing) {
+      await Booking.updateOne({ _id: booking._id }, { $set: { invoiceId: existing._id } }).exec();
+      return;
+    }
+
+    const amount = booking.amount ?? 0;
+    const taxCategory: TaxCategory = isTaxCategory(course?.taxCategory) ? course.taxCategory : 'standard';
+    const vat = calculateVat([{ totalPrice: amount, taxCategory }]);
+    const when = booking.sessionStart
+      ? ` – ${booking.sessionStart.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`
+      : '';
+    const invoiceData: InvoiceData = {
+      orderId: String(booking._id),
+      orderNumber: `INV-${paidAt.getFullYear()}-${String(booking._id).slice(-8).toUpperCase()}`,
+      items: [
+        {
+          name: `${course?.title ?? 'Class'}${when}`,
+          qty: booking.attendees,
+          unitPrice: round2(amount / booking.attendees),
+          totalPrice: amount,
+          vatRate: VAT_RATES[taxCategory],
+        },
+      ],
+      subtotal: amount,
+      shipping: 0,
+      total: amount,
+      vat: vat.totalVat,
+      vatBreakdown: vat.breakdown,
+      client: { name: booking.name, email: booking.email, phone: booking.phone },
+      shippingAddress: null,
+      billingAddress: null,
+      paidAt,
+      paymentIntentId: pi.id,
+    };
+
+    const invoice = await Invoice.create({
+      source: 'stripe',
+      bookingId: booking._id,
+      orderNumber: invoiceData.orderNumber,
+      items: invoiceData.items,
+      subtotal: amount,
+      shipping: 0,
+      total: amount,
+      vat: invoiceData.vat,
+      vatBreakdown: invoiceData.vatBreakdown,
+      currency: booking.currency || 'gbp',
+      client: invoiceData.client,
+      shippingAddress: null,
+      billingAddress: null,
+      paidAt,
+      paymentIntentId: pi.id,
+      sender: {
+        email: process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || null,
+        name: process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || null,
+      },
+      recipientEmail: booking.email,
+      metadata: { createdBy: 'class-booking', bookingRef: booking.bookingRef },
+    });
+    const invoiceId = String(invoice._id);
+    await Booking.updateOne({ _id: booking._id }, { $set: { invoiceId: invoice._id } }).exec();
+
+    try {
+      await processInvoice(invoiceData, shopCompanyInfo(), { invoiceId, dedupeKey: `invoice:${invoiceId}` });
+    } catch (sendErr) {
+      await Invoice.updateOne(
+        { _id: invoice._id },
+        { $set: { sent: false, sendError: sendErr instanceof Error ? sendErr.message : String(sendErr) } }
+      ).exec();
+    }
+  } catch (err) {
+    console.error(`[ClassBookings] Failed to invoice ${booking.bookingRef}:`, err);
+  }
+}
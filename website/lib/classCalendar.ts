@@ -0,0 +1,185 @@
+import type { EmailAttachment } from '@/lib/emailTransport';
+import { sessionKey, type SessionLike } from '@/lib/classSeats';
+
+/*
+ * iCalendar (RFC 5545) for class sessions: the invite attached to booking
+ * emails and the public per-course feed of upcoming sessions.
+ *
+ * A booking's event keeps the same UID for its whole life, and its SEQUENCE is
+ * the number of changes in Booking.history, so calendar apps replace the event
+ * when the booking is moved and remove it when a METHOD:CANCEL copy arrives.
+ */
+
+export type CalendarEvent = {
+  uid: string;
+  sequence?: number;
+  start: Date;
+  end?: Date | null;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: 'CONFIRMED' | 'CANCELLED';
+  organizer?: { email: string; name?: string | null } | null;
+  attendee?: { email: string; name?: string | null } | null;
+};
+
+type CalendarMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+type BookingForCalendar = {
+  _id: unknown;
+  bookingRef: string;
+  name?: string | null;
+  email?: string | null;
+  attendees?: number;
+  sessionStart?: Date | string | null;
+  sessionEnd?: Date | string | null;
+  history?: unknown[];
+};
+
+type CourseForCalendar = { _id?: unknown; title: string; location?: string | null; sessions?: SessionLike[] };
+
+function companyName(): string {
+  return process.env.COMPANY_NAME || 'Coffee Genius';
+}
+
+/** Host part for UIDs; falls back to a fixed name so UIDs stay stable without APP_BASE_URL */
+function uidDomain(): string {
+  try {
+    return new URL(process.env.APP_BASE_URL || '').hostname || 'coffeegenius';
+  } catch {
+    return 'coffeegenius';
+  }
+}
+
+function icsDate(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** A parameter value such as CN; quoted, since names can hold commas or colons */
+function paramValue(value: string): string {
+  return `"${value.replace(/["\r\n]/g, '')}"`;
+}
+
+/** Folds a content line at 75 octets, continuing with a leading space */
+function fold(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  for (const ch of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + ch, 'utf8') > limit) {
+      parts.push(current);
+      current = ch;
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `DTSTAMP:${icsDate(stamp)}`,
+    `DTSTART:${icsDate(event.start)}`,
+  ];
+  if (event.end) lines.push(`DTEND:${icsDate(event.end)}`);
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.organizer) {
+    const cn = event.organizer.name ? `;CN=${paramValue(event.organizer.name)}` : '';
+    lines.push(`ORGANIZER${cn}:mailto:${event.organizer.email}`);
+  }
+  if (event.attendee) {
+    const cn = event.attendee.name ? `;CN=${paramValue(event.attendee.name)}` : '';
+    lines.push(`ATTENDEE${cn};ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:${event.attendee.email}`);
+  }
+  lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`, 'END:VEVENT');
+  return lines;
+}
+
+export function buildCalendar(events: CalendarEvent[], opts: { method?: CalendarMethod; name?: string } = {}): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${escapeText(companyName())}//Classes//EN`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${opts.method ?? 'PUBLISH'}`,
+    ...(opts.name ? [`X-WR-CALNAME:${escapeText(opts.name)}`] : []),
+    ...events.flatMap((e) => eventLines(e, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+export function bookingEventUid(bookingId: unknown): string {
+  return `booking-${String(bookingId)}@${uidDomain()}`;
+}
+
+/**
+ * The invite for a booking: METHOD:REQUEST while it stands, METHOD:CANCEL once
+ * it's cancelled. Null when the booking has no session time to put in a calendar.
+ */
+export function bookingCalendar(
+  booking: BookingForCalendar,
+  course: CourseForCalendar,
+  method: 'REQUEST' | 'CANCEL' = 'REQUEST'
+): string | null {
+  if (!booking.sessionStart) return null;
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || '').trim();
+  const places = booking.attendees ? `${booking.attendees} ${booking.attendees === 1 ? 'place' : 'places'}` : null;
+  return buildCalendar(
+    [
+      {
+        uid: bookingEventUid(booking._id),
+        sequence: booking.history?.length ?? 0,
+        start: new Date(booking.sessionStart),
+        end: booking.sessionEnd ? new Date(booking.sessionEnd) : null,
+        summary: `${course.title} — ${companyName()}`,
+        description: [`Booking ${booking.bookingRef}`, places].filter(Boolean).join('\n'),
+        location: course.location || null,
+        status: method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED',
+        organizer: senderEmail ? { email: senderEmail, name: companyName() } : null,
+        attendee: booking.email ? { email: booking.email, name: booking.name } : null,
+      },
+    ],
+    { method }
+  );
+}
+
+export function bookingCalendarAttachment(
+  booking: BookingForCalendar,
+  course: CourseForCalendar,
+  method: 'REQUEST' | 'CANCEL' = 'REQUEST'
+): EmailAttachment | null {
+  const ics = bookingCalendar(booking, course, method);
+  return ics ? { name: method === 'CANCEL' ? 'cancelled.ics' : 'invite.ics', content: Buffer.from(ics, 'utf8').toString('base64') } : null;
+}
+
+/** Public feed of a course's upcoming sessions; each session keeps its UID across refreshes */
+export function courseCalendar(course: CourseForCalendar, now = new Date()): string {
+  const appBase = (process.env.APP_BASE_URL || '').replace(/\/$/, '');
+  const events: CalendarEvent[] = (course.sessions ?? [])
+    .filter((s) => s.start && new Date(s.end ?? s.start) > now)
+    .map((s) => ({
+      uid: `class-${String(course._id)}-${sessionKey(s).replace(/[^A-Za-z0-9]/g, '')}@${uidDomain()}`,
+      start: new Date(s.start!),
+      end: s.end ? new Date(s.end) : null,
+      summary: course.title,
+      location: course.location || null,
+      url: appBase ? `${appBase}/classes` : null,
+    }));
+  return buildCalendar(events, { name: `${course.title} — ${companyName()}` });
+}
@@ -0,0 +1,119 @@
+import Booking from '@/models/Booking';
+import Course from '@/models/Class';
+import { enqueueEmail } from '@/lib/outbox';
+import { renderEmailTemplate } from '@/lib/emailTemplates';
+import { buildManageBookingUrl } from '@/lib/bookingLinks';
+
+/*
+ * Reminder emails before a class: REMINDER_HOURS before Booking.sessionStart,
+ * with the course's things to note. Each step is sent at most once per session
+ * and recorded in Booking.remindersSent (cleared when a booking moves). The
+ * class-reminders job sends only the latest step a booking has reached, so a
+ * booking made the day before gets the 2-hour reminder but not the 48-hour one.
+ */
+
+export const REMINDER_HOURS = [48, 2];
+const HOUR_MS = 60 * 60 * 1000;
+
+type ReminderBooking = {
+  _id: { toString(): string };
+  bookingRef: string;
+  courseId: unknown;
+  name: string;
+  email: string;
+  attendees: number;
+  sessionStart: Date;
+  sessionEnd?: Date | null;
+  remindersSent?: number[];
+  manageLinkVersion?: number;
+  createdAt: Date;
+};
+
+type ReminderCourse = { _id: unknown; title: string; location?: string; thingsToNote?: string[] };
+
+/** The reminder step (hours before) a booking is due now, if any */
+export function dueReminderStep(booking: ReminderBooking, now = new Date()): number | null {
+  const hoursLeft = (booking.sessionStart.getTime() - now.getTime()) / HOUR_MS;
+  if (hoursLeft <= 0) return null;
+  const reached = REMINDER_HOURS.filter((h) => hoursLeft <= h);
+  if (reached.length === 0) return null;
+  const step = Math.min(...reached);
+
+  if ((booking.remindersSent ?? []).some((h) => h <= step)) return null;
+  // Booked inside this step's window: the confirmation has only just gone out
+  if ((booking.sessionStart.getTime() - booking.createdAt.getTime()) / HOUR_MS <= step) return null;
+  return step;
+}
+
+async function sendClassReminder(booking: ReminderBooking, course: ReminderCourse, step: number): Promise<boolean> {
+  const id = booking._id.toString();
+  // Claim the step first so overlapping runs can't both send it
+  const claimed = await Booking.updateOne(
+    { _id: id, status: 'confirmed', sessionStart: booking.sessionStart, remindersSent: { $ne: step } },
+    { $push: { remindersSent: step } }
+  ).exec();
+  if (claimed.modifiedCount === 0) return false;
+
+  try {
+    const email = await renderEmailTemplate('class_reminder', {
+      bookingRef: booking.bookingRef,
+      courseTitle: course.title,
+      customerName: booking.name,
+      attendees: booking.attendees,
+      sessionStart: booking.sessionStart,
+      sessionEnd: booking.sessionEnd,
+      location: course.location || null,
+      hoursBefore: step,
+      thingsToNote: course.thingsToNote ?? [],
+      manageUrl: process.env.APP_BASE_URL ? buildManageBookingUrl(booking) : null,
+    });
+    const queued = await enqueueEmail({
+      kind: 'class_reminder',
+      to: [{ email: booking.email, name: booking.name }],
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      related: { type: 'Booking', id },
+      dedupeKey: `class-reminder:${id}:${booking.sessionStart.toISOString()}:${step}`,
+    });
+    if (!queued.ok) throw new Error(queued.error);
+    return true;
+  } catch (err) {
+    // Give the step back so the next run tries again
+    await Booking.updateOne({ _id: id }, { $pull: { remindersSent: step } }).exec();
+    console.error(`[ClassReminders] Failed to send the ${step}h reminder for ${booking.bookingRef}:`, err);
+    throw err;
+  }
+}
+
+export type ClassReminderRunSummary = { checked: number; sent: number; failed: number };
+
+/** Sends every reminder that's due; run by the class-reminders job */
+export async function sendDueClassReminders(now = new Date()): Promise<ClassReminderRunSummary> {
+  const horizon = new Date(now.getTime() + Math.max(...REMINDER_HOURS) * HOUR_MS);
+  const bookings = (await Booking.find({ status: 'confirmed', sessionStart: { $gt: now, $lte: horizon } })
+    .select('bookingRef courseId name email attendees sessionStart sessionEnd remindersSent manageLinkVersion createdAt')
+    .lean()
+    .exec()) as unknown as ReminderBooking[];
+
+  const summary: ClassReminderRunSummary = { checked: bookings.length, sent: 0, failed: 0 };
+  const due = bookings.map((b) => ({ booking: b, step: dueReminderStep(b, now) })).filter((d) => d.step !== null);
+  if (due.length === 0) return summary;
+
+  const courseIds = [...new Set(due.map((d) => String(d.booking.courseId)))];
+  const courses = (await Course.find({ _id: { $in: courseIds } })
+    .select('title location thingsToNote')
+    .lean()
+    .exec()) as unknown as ReminderCourse[];
+  const byId = new Map(courses.map((c) => [String(c._id), c]));
+
+  for (const { booking, step } of due) {
+    const course = byId.get(String(booking.courseId)) ?? { _id: booking.courseId, title: 'Your class' };
+    try {
+      if (await sendClassReminder(booking, course, step!)) summary.sent += 1;
+    } catch {
+      summary.failed += 1;
+    }
+  }
+  return summary;
+}
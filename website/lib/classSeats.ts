@@ -0,0 +1,187 @@
+import mongoose from 'mongoose';
+import Booking from '@/models/Booking';
+import Course from '@/models/Class';
+import ClassSeats from '@/models/ClassSeats';
+import WaitlistEntry from '@/models/WaitlistEntry';
+
+/*
+ * Seats on class sessions. A session holds its own capacity, or the course's
+ * when it has none. Seats are taken by pending and confirmed bookings and by
+ * waitlist offers that haven't been claimed yet; ClassSeats keeps the running
+ * count that bookings and offers claim against, so the last places can't be
+ * given out twice.
+ *
+ * Bookings made before sessions had ids stored an empty sessionId; they belong
+ * to the course's session that starts at their sessionStart.
+ */
+
+const LEGACY_SESSION_ID = { $in: ['', null] };
+
+export type SessionLike = {
+  id?: unknown;
+  _id?: unknown;
+  start?: Date | string;
+  end?: Date | string;
+  capacity?: number | null;
+};
+
+export type SessionAvailability = { id: string; capacity: number; taken: number; remaining: number; soldOut: boolean };
+
+export type SeatClaim = { ok: true } | { ok: false; remaining: number };
+
+/** The id bookings store as sessionId; sessions saved before ids were assigned fall back to their start time */
+export function sessionKey(session: SessionLike): string {
+  if (session.id ?? session._id) return String(session.id ?? session._id);
+  const at = session.start ?? session.end;
+  return at ? new Date(at).toISOString() : '';
+}
+
+export function sessionCapacity(course: { capacity?: number }, session: SessionLike): number {
+  return Number(session.capacity) > 0 ? Number(session.capacity) : Number(course.capacity ?? 0);
+}
+
+/** A per-session capacity from admin input: a whole number of seats, or null to use the course's */
+export function parseSessionCapacity(value: unknown): number | null {
+  const n = Number(value);
+  return value !== null && value !== '' && Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/** Moves the session's legacy bookings onto its key, so they are counted and found by sessionId */
+async function adoptLegacyBookings(courseId: mongoose.Types.ObjectId, sessionId: string): Promise<void> {
+  const course = await Course.findById(courseId).select('sessions').lean<{ sessions?: SessionLike[] }>().exec();
+  const session = course?.sessions?.find((s) => sessionKey(s) === sessionId);
+  if (!session?.start) return;
+  await Booking.updateMany(
+    { courseId, sessionId: LEGACY_SESSION_ID, sessionStart: new Date(session.start) },
+    { $set: { sessionId } }
+  ).exec();
+}
+
+/** Seats taken on a session, counted from the bookings and open waitlist offers themselves */
+async function countSeatsTaken(courseId: mongoose.Types.ObjectId, sessionId: string): Promise<number> {
+  await adoptLegacyBookings(courseId, sessionId);
+  const [booked, offered] = await Promise.all([
+    Booking.aggregate([
+      { $match: { courseId, sessionId, status: { $ne: 'cancelled' } } },
+      { $group: { _id: null, seats: { $sum: '$attendees' } } },
+    ]),
+    WaitlistEntry.aggregate([
+      { $match: { courseId, sessionId, status: 'offered' } },
+      { $group: { _id: null, seats: { $sum: '$partySize' } } },
+    ]),
+  ]);
+  return (booked?.[0]?.seats ?? 0) + (offered?.[0]?.seats ?? 0);
+}
+
+/**
+ * Creates the session's counter from its bookings and offers the first time it's
+ * needed. True when this call seeded it, so the count already includes everything.
+ */
+export async function ensureSeatCounter(courseId: mongoose.Types.ObjectId, sessionId: string): Promise<boolean> {
+  if (await ClassSeats.exists({ courseId, sessionId })) return false;
+  try {
+    await ClassSeats.create({ courseId, sessionId, taken: await countSeatsTaken(courseId, sessionId) });
+    return true;
+  } catch (err) {
+    // Another booking created it first
+    if ((err as { code?: number }).code !== 11000) throw err;
+    return false;
+  }
+}
+
+/** Takes `seats` on the session only if they fit under `capacity`; otherwise reports what's left */
+export async function claimSeats(
+  courseId: mongoose.Types.ObjectId,
+  sessionId: string,
+  capacity: number,
+  seats: number
+): Promise<SeatClaim> {
+  await ensureSeatCounter(courseId, sessionId);
+  const claimed = await ClassSeats.findOneAndUpdate(
+    { courseId, sessionId, taken: { $lte: capacity - seats } },
+    { $inc: { taken: seats } },
+    { new: true }
+  ).exec();
+  if (claimed) return { ok: true };
+  return { ok: false, remaining: await seatsRemaining(courseId, sessionId, capacity) };
+}
+
+/** Gives seats back to the session's counter; see releaseSeats in lib/classBookings to also offer them on */
+export async function freeSeats(courseId: unknown, sessionId: string | null | undefined, seats: number): Promise<void> {
+  if (!courseId || !sessionId || seats <= 0) return;
+  const filter = { courseId, sessionId };
+  const res = await ClassSeats.updateOne({ ...filter, taken: { $gte: seats } }, { $inc: { taken: -seats } }).exec();
+  if (res.matchedCount === 0) await ClassSeats.updateOne(filter, { $set: { taken: 0 } }).exec();
+}
+
+export async function seatsRemaining(courseId: mongoose.Types.ObjectId, sessionId: string, capacity: number): Promise<number> {
+  const counter = await ClassSeats.findOne({ courseId, sessionId }).select('taken').lean().exec();
+  const taken = counter ? counter.taken : await countSeatsTaken(courseId, sessionId);
+  return Math.max(0, capacity - taken);
+}
+
+/**
+ * Capacity and seats left on each session of the given courses, keyed by
+ * course id then session id. Counts come from the bookings and offers themselves.
+ */
+export async function sessionAvailability(
+  courses: { _id: unknown; capacity?: number; sessions?: SessionLike[] }[]
+): Promise<Map<string, Map<string, SessionAvailability>>> {
+  const out = new Map<string, Map<string, SessionAvailability>>();
+  if (courses.length === 0) return out;
+
+  const courseIds = courses.map((c) => c._id);
+  const [booked, offered, legacy] = (await Promise.all([
+    Booking.aggregate([
+      { $match: { courseId: { $in: courseIds }, status: { $ne: 'cancelled' } } },
+      { $group: { _id: { courseId: '$courseId', sessionId: '$sessionId' }, seats: { $sum: '$attendees' } } },
+    ]),
+    WaitlistEntry.aggregate([
+      { $match: { courseId: { $in: courseIds }, status: 'offered' } },
+      { $group: { _id: { courseId: '$courseId', sessionId: '$sessionId' }, seats: { $sum: '$partySize' } } },
+    ]),
+    Booking.aggregate([
+      { $match: { courseId: { $in: courseIds }, sessionId: LEGACY_SESSION_ID, status: { $ne: 'cancelled' } } },
+      { $group: { _id: { courseId: '$courseId', sessionStart: '$sessionStart' }, seats: { $sum: '$attendees' } } },
+    ]),
+  ])) as { _id: { courseId: unknown; sessionId?: string; sessionStart?: Date | null }; seats: number }[][];
+  const taken = new Map<string, number>();
+  for (const r of [...booked, ...offered]) {
+    const key = `${String(r._id.courseId)}|${r._id.sessionId}`;
+    taken.set(key, (taken.get(key) ?? 0) + r.seats);
+  }
+  const legacyTaken = new Map<string, number>();
+  for (const r of legacy) {
+    if (!r._id.sessionStart) continue;
+    legacyTaken.set(`${String(r._id.courseId)}|${new Date(r._id.sessionStart).toISOString()}`, r.seats);
+  }
+
+  for (const course of courses) {
+    const sessions = new Map<string, SessionAvailability>();
+    for (const session of course.sessions ?? []) {
+      const id = sessionKey(session);
+      const capacity = sessionCapacity(course, session);
+      const start = session.start ? new Date(session.start).toISOString() : '';
+      const used =
+        (taken.get(`${String(course._id)}|${id}`) ?? 0) + (legacyTaken.get(`${String(course._id)}|${start}`) ?? 0);
+      const remaining = Math.max(0, capacity - used);
+      sessions.set(id, { id, capacity, taken: used, remaining, soldOut: remaining === 0 });
+    }
+    out.set(String(course._id), sessions);
+  }
+  return out;
+}
+
+/** Courses with each session's id, capacity and seats left filled in, for the public listing */
+export async function withSessionAvailability<T extends { _id: unknown; capacity?: number; sessions?: SessionLike[] }>(
+  courses: T[]
+): Promise<(T & { sessions: (SessionLike & SessionAvailability)[] })[]> {
+  const availability = await sessionAvailability(courses);
+  return courses.map((course) => {
+    const seats = availability.get(String(course._id));
+    return {
+      ...course,
+      sessions: (course.sessions ?? []).map((s) => ({ ...s, ...seats!.get(sessionKey(s))! })),
+    };
+  });
+}
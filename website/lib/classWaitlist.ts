@@ -0,0 +1,320 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Course from '@/models/Class';
+import WaitlistEntry, { IWaitlistEntry } from '@/models/WaitlistEntry';
+import { enqueueEmail } from '@/lib/outbox';
+import { renderEmailTemplate } from '@/lib/emailTemplates';
+import {
+  claimSeats,
+  freeSeats,
+  seatsRemaining,
+  sessionCapacity,
+  sessionKey,
+  type SessionLike,
+} from '@/lib/classSeats';
+
+/*
+ * Waitlists for full class sessions. Whenever seats come free (a booking is
+ * cancelled, released or deleted, an offer runs out, or an admin raises the
+ * capacity) offerWaitlistSeats walks the queue in join order and offers the
+ * seats to each party that fits, holding them until the offer expires. The claim
+ * link turns the offer into a booking through claimWaitlistOffer in
+ * lib/classBookings; an unclaimed offer is passed on by the waitlist-offers job.
+ */
+
+const OFFER_TTL_MS = 24 * 60 * 60 * 1000;
+
+type WaitlistCourse = {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  price?: number;
+  capacity?: number;
+  sessions?: SessionLike[];
+};
+
+export type JoinWaitlistInput = {
+  courseId: string;
+  sessionId: string;
+  name: string;
+  email: string;
+  phone: string;
+  partySize: number;
+};
+
+export type JoinWaitlistResult =
+  | { ok: true; entry: IWaitlistEntry; position: number }
+  | { ok: false; status: number; error: string; code?: 'seats_available' | 'already_waiting' };
+
+export type WaitlistOfferDetails = {
+  courseTitle: string;
+  sessionStart: Date | null;
+  sessionEnd: Date | null;
+  name: string;
+  partySize: number;
+  amount: number;
+  status: IWaitlistEntry['status'];
+  offerExpiresAt: Date | null;
+};
+
+export type TakeOfferResult = { ok: true; entry: IWaitlistEntry } | { ok: false; status: number; error: string };
+
+function hashOfferToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function isOfferToken(token: unknown): token is string {
+  return typeof token === 'string' && token.length >= 20 && token.length <= 200;
+}
+
+async function loadCourse(courseId: unknown): Promise<WaitlistCourse | null> {
+  const id = String(courseId);
+  if (mongoose.Types.ObjectId.isValid(id)) {
+    const course = await Course.findById(id).lean<WaitlistCourse>().exec();
+    if (course) return course;
+  }
+  return Course.findOne({ slug: id.toLowerCase().trim() }).lean<WaitlistCourse>().exec();
+}
+
+function findSession(course: WaitlistCourse, sessionId: string) {
+  return (course.sessions ?? []).find((s) => sessionKey(s) === sessionId);
+}
+
+function hasEnded(session: SessionLike, now = Date.now()) {
+  const endTs = session.end ? new Date(session.end).getTime() : NaN;
+  return Number.isNaN(endTs) || endTs <= now;
+}
+
+/** Adds a party to a session's waitlist; refused while there are enough seats to book directly */
+export async function joinWaitlist(input: JoinWaitlistInput): Promise<JoinWaitlistResult> {
+  const course = await loadCourse(input.courseId);
+  if (!course) return { ok: false, status: 404, error: 'Course not found' };
+  const session = findSession(course, input.sessionId);
+  if (!session) return { ok: false, status: 404, error: 'Session not found' };
+  if (hasEnded(session)) return { ok: false, status: 400, error: 'This session has already taken place' };
+
+  const sessionId = sessionKey(session);
+  const capacity = sessionCapacity(course, session);
+  if (input.partySize > capacity) {
+    return { ok: false, status: 400, error: `This session takes at most ${capacity} ${capacity === 1 ? 'person' : 'people'}` };
+  }
+  if ((await seatsRemaining(course._id, sessionId, capacity)) >= input.partySize) {
+    return { ok: false, status: 409, code: 'seats_available', error: 'There are seats available — you can book them now' };
+  }
+
+  const email = input.email.trim().toLowerCase();
+  const existing = await WaitlistEntry.exists({
+    courseId: course._id,
+    sessionId,
+    email,
+    status: { $in: ['waiting', 'offered'] },
+  });
+  if (existing) {
+    return { ok: false, status: 409, code: 'already_waiting', error: 'You are already on the waitlist for this session' };
+  }
+
+  const entry = await WaitlistEntry.create({
+    courseId: course._id,
+    sessionId,
+    sessionStart: session.start ? new Date(session.start) : null,
+    sessionEnd: session.end ? new Date(session.end) : null,
+    name: input.name.trim(),
+    email,
+    phone: input.phone.trim(),
+    partySize: input.partySize,
+  });
+  const position = await WaitlistEntry.countDocuments({
+    courseId: course._id,
+    sessionId,
+    status: 'waiting',
+    createdAt: { $lte: entry.createdAt },
+  });
+  return { ok: true, entry, position };
+}
+
+/**
+ * Offers free seats on a session to its waitlist, oldest entry first. A party
+ * too big for what's free keeps its place while smaller parties behind it are
+ * offered seats. Returns the number of offers made.
+ */
+export async function offerWaitlistSeats(courseId: unknown, sessionId: string, now = new Date()): Promise<number> {
+  const course = await loadCourse(courseId);
+  const session = course ? findSession(course, sessionId) : undefined;
+  if (!course || !session || hasEnded(session, now.getTime())) return 0;
+
+  const startTs = session.start ? new Date(session.start).getTime() : NaN;
+  const expiresAt = new Date(Math.min(now.getTime() + OFFER_TTL_MS, Number.isNaN(startTs) ? Infinity : startTs));
+  if (expiresAt <= now) return 0;
+
+  const capacity = sessionCapacity(course, session);
+  const queue = await WaitlistEntry.find({ courseId: course._id, sessionId, status: 'waiting' })
+    .sort({ createdAt: 1 })
+    .exec();
+
+  let offers = 0;
+  for (const entry of queue) {
+    const claim = await claimSeats(course._id, sessionId, capacity, entry.partySize);
+    if (!claim.ok) {
+      if (claim.remaining === 0) break;
+      continue;
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const offered = await WaitlistEntry.findOneAndUpdate(
+      { _id: entry._id, status: 'waiting' },
+      { $set: { status: 'offered', offerTokenHash: hashOfferToken(token), offeredAt: now, offerExpiresAt: expiresAt } },
+      { new: true }
+    ).exec();
+    if (!offered) {
+      // Offered by a concurrent run, or left the queue meanwhile
+      await freeSeats(course._id, sessionId, entry.partySize);
+      continue;
+    }
+    offers += 1;
+    await sendWaitlistOffer(offered, course, token);
+  }
+  return offers;
+}
+
+/** Offers seats on every session of a course, e.g. after an admin edits its capacity */
+export async function offerWaitlistSeatsForCourse(courseId: unknown): Promise<number> {
+  const course = await loadCourse(courseId);
+  if (!course) return 0;
+  let offers = 0;
+  for (const session of course.sessions ?? []) {
+    offers += await offerWaitlistSeats(course._id, sessionKey(session));
+  }
+  return offers;
+}
+
+/** What a claim link is for, to show before the customer claims it */
+export async function getWaitlistOffer(token: unknown): Promise<WaitlistOfferDetails | null> {
+  if (!isOfferToken(token)) return null;
+  const entry = await WaitlistEntry.findOne({ offerTokenHash: hashOfferToken(token) }).lean<IWaitlistEntry>().exec();
+  if (!entry) return null;
+  const course = await loadCourse(entry.courseId);
+  return {
+    courseTitle: course?.title ?? 'Class',
+    sessionStart: entry.sessionStart ?? null,
+    sessionEnd: entry.sessionEnd ?? null,
+    name: entry.name,
+    partySize: entry.partySize,
+    amount: Math.round(Number(course?.price ?? 0) * entry.partySize * 100) / 100,
+    status: entry.offerExpiresAt && entry.offerExpiresAt <= new Date() && entry.status === 'offered' ? 'expired' : entry.status,
+    offerExpiresAt: entry.offerExpiresAt ?? null,
+  };
+}
+
+/** Marks an open offer as claimed so the link can't be used twice; returnWaitlistOffer undoes it */
+export async function takeWaitlistOffer(token: unknown): Promise<TakeOfferResult> {
+  if (!isOfferToken(token)) return { ok: false, status: 400, error: 'This link is not valid' };
+  const tokenHash = hashOfferToken(token);
+  const now = new Date();
+  const entry = await WaitlistEntry.findOneAndUpdate(
+    { offerTokenHash: tokenHash, status: 'offered', offerExpiresAt: { $gt: now } },
+    { $set: { status: 'claimed', claimedAt: now } },
+    { new: true }
+  ).exec();
+  if (entry) return { ok: true, entry };
+
+  const existing = await WaitlistEntry.findOne({ offerTokenHash: tokenHash }).select('status').lean().exec();
+  if (!existing) return { ok: false, status: 404, error: 'This link is not valid' };
+  if (existing.status === 'claimed') return { ok: false, status: 409, error: 'These seats have already been claimed' };
+  return { ok: false, status: 410, error: 'Sorry — this offer has expired and the seats have gone to the next person' };
+}
+
+/** Puts a claimed offer back, still holding its seats, when the booking couldn't be made */
+export async function returnWaitlistOffer(entryId: mongoose.Types.ObjectId): Promise<void> {
+  await WaitlistEntry.updateOne({ _id: entryId, status: 'claimed' }, { $set: { status: 'offered', claimedAt: null } }).exec();
+}
+
+export async function linkWaitlistBooking(entryId: mongoose.Types.ObjectId, bookingId: unknown): Promise<void> {
+  await WaitlistEntry.updateOne({ _id: entryId }, { $set: { bookingId } }).exec();
+}
+
+export type WaitlistOffersSummary = { expired: number; offered: number };
+
+/** Hands unclaimed offers on to the next in line; run by the waitlist-offers job */
+export async function expireWaitlistOffers(now = new Date()): Promise<WaitlistOffersSummary> {
+  const stale = await WaitlistEntry.find({ status: 'offered', offerExpiresAt: { $lte: now } }).exec();
+  const summary: WaitlistOffersSummary = { expired: 0, offered: 0 };
+  const sessions = new Map<string, { courseId: mongoose.Types.ObjectId; sessionId: string }>();
+
+  for (const entry of stale) {
+    const expired = await WaitlistEntry.findOneAndUpdate(
+      { _id: entry._id, status: 'offered' },
+      { $set: { status: 'expired' } },
+      { new: true }
+    ).exec();
+    if (!expired) continue;
+    summary.expired += 1;
+    await freeSeats(expired.courseId, expired.sessionId, expired.partySize);
+    sessions.set(`${String(expired.courseId)}|${expired.sessionId}`, { courseId: expired.courseId, sessionId: expired.sessionId });
+  }
+
+  for (const { courseId, sessionId } of sessions.values()) {
+    summary.offered += await offerWaitlistSeats(courseId, sessionId, now);
+  }
+  return summary;
+}
+
+export type WaitlistSessionSummary = {
+  courseId: string;
+  sessionId: string;
+  waiting: number;
+  waitingPeople: number;
+  offered: number;
+};
+
+/** Waitlist length per session, for the admin class list */
+export async function waitlistSummary(): Promise<WaitlistSessionSummary[]> {
+  const rows = (await WaitlistEntry.aggregate([
+    { $match: { status: { $in: ['waiting', 'offered'] } } },
+    {
+      $group: {
+        _id: { courseId: '$courseId', sessionId: '$sessionId' },
+        waiting: { $sum: { $cond: [{ $eq: ['$status', 'waiting'] }, 1, 0] } },
+        waitingPeople: { $sum: { $cond: [{ $eq: ['$status', 'waiting'] }, '$partySize', 0] } },
+        offered: { $sum: { $cond: [{ $eq: ['$status', 'offered'] }, 1, 0] } },
+      },
+    },
+  ])) as { _id: { courseId: unknown; sessionId: string }; waiting: number; waitingPeople: number; offered: number }[];
+  return rows.map((r) => ({
+    courseId: String(r._id.courseId),
+    sessionId: r._id.sessionId,
+    waiting: r.waiting,
+    waitingPeople: r.waitingPeople,
+    offered: r.offered,
+  }));
+}
+
+/* ------------------------------ Side effects ------------------------------ */
+
+/** Emails the claim link; the entry keeps its offer even if the email fails, and the outbox retries it */
+async function sendWaitlistOffer(entry: IWaitlistEntry, course: WaitlistCourse, token: string): Promise<void> {
+  const appBase = (process.env.APP_BASE_URL || '').replace(/\/$/, '');
+  try {
+    const email = await renderEmailTemplate('waitlist_offer', {
+      courseTitle: course.title,
+      customerName: entry.name,
+      partySize: entry.partySize,
+      sessionStart: entry.sessionStart,
+      sessionEnd: entry.sessionEnd,
+      amount: Math.round(Number(course.price ?? 0) * entry.partySize * 100) / 100,
+      claimUrl: `${appBase}/classes/waitlist/claim?token=${encodeURIComponent(token)}`,
+      expiresAt: entry.offerExpiresAt ?? new Date(),
+    });
+    const queued = await enqueueEmail({
+      kind: 'waitlist_offer',
+      to: [{ email: entry.email, name: entry.name }],
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      related: { type: 'WaitlistEntry', id: String(entry._id) },
+      dedupeKey: `waitlist-offer:${String(entry._id)}`,
+      redactAfterSend: true, // the link books the seats
+    });
+    if (!queued.ok) console.warn(`[ClassWaitlist] Offer email for ${String(entry._id)} not queued:`, queued.error);
+  } catch (err) {
+    console.error(`[ClassWaitlist] Failed to email offer ${String(entry._id)}:`, err);
+  }
+}
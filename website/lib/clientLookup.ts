@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Client from '@/models/Client';
+import ClientLookupChallenge from '@/models/ClientLookupChallenge';
+import ClientLookupEvent, { ClientLookupOutcome } from '@/models/ClientLookupEvent';
+import { notifyClientLookupCode } from '@/lib/notifyClientLookupCode';
+import { signatureMatches, signLink } from '@/lib/signedLinks';
+
+/*
+ * Checkout autofill for returning customers. Typing an email no longer returns
+ * the saved address: we email a six-digit code to that address and only hand the
+ * details back once the code is entered. Requests look the same whether or not we
+ * know the email, every step is logged to ClientLookupEvent, and the rate limits
+ * are counted from that log.
+ */
+
+/* ----------------------------- Config ---------------------------------- */
+
+const CODE_TTL_MINUTES = 10;
+const MAX_ATTEMPTS_PER_CODE = 5;
+
+const MINUTE_MS = 60 * 1000;
+const LIMITS = {
+  codesPerEmail: { max: 3, windowMs: 15 * MINUTE_MS },
+  codesPerIp: { max: 10, windowMs: 60 * MINUTE_MS },
+  failedChecksPerIp: { max: 20, windowMs: 60 * MINUTE_MS },
+};
+
+type LookupRef = mongoose.Types.ObjectId | string | null;
+
+export type LookupRequestContext = { ip?: string | null; userAgent?: string | null };
+
+export type ClientLookupDetails = {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: Record<string, unknown> | null;
+};
+
+export type StartLookupResult =
+  | { ok: true; challengeId: string; expiresInMinutes: number }
+  | { ok: false; status: 429; error: string };
+
+export type VerifyLookupResult =
+  | { ok: true; client: ClientLookupDetails }
+  | { ok: false; status: 400 | 410 | 429; error: string; attemptsLeft?: number };
+
+function hashCode(challengeId: string, code: string) {
+  return signLink('client-lookup', `${challengeId}:${code}`, 'hex');
+}
+
+async function logLookup(
+  outcome: ClientLookupOutcome,
+  email: string,
+  ctx: LookupRequestContext,
+  extra: { challengeId?: LookupRef; clientId?: LookupRef } = {}
+) {
+  try {
+    await ClientLookupEvent.create({
+      email,
+      outcome,
+      challengeId: extra.challengeId ?? null,
+      clientId: extra.clientId ?? null,
+      ip: ctx.ip ?? null,
+      userAgent: ctx.userAgent ? ctx.userAgent.slice(0, 300) : null,
+    });
+  } catch (err) {
+    console.error('Failed to record client lookup event:', err);
+  }
+}
+
+function countSince(filter: Record<string, unknown>, windowMs: number) {
+  return ClientLookupEvent.countDocuments({ ...filter, createdAt: { $gte: new Date(Date.now() - windowMs) } });
+}
+
+const TOO_MANY = 'Too many attempts. Please wait a while and try again, or fill in your details below.';
+
+/* ----------------------------- Steps ---------------------------------- */
+
+/** Emails a code if we know the address; answers the same way if we don't */
+export async function startClientLookup(email: string, ctx: LookupRequestContext): Promise<StartLookupResult> {
+  const sentStates = { outcome: { $in: ['code_sent', 'no_match', 'send_failed'] } };
+  const [forEmail, forIp] = await Promise.all([
+    countSince({ email, ...sentStates }, LIMITS.codesPerEmail.windowMs),
+    ctx.ip ? countSince({ ip: ctx.ip, ...sentStates }, LIMITS.codesPerIp.windowMs) : 0,
+  ]);
+  if (forEmail >= LIMITS.codesPerEmail.max || forIp >= LIMITS.codesPerIp.max) {
+    await logLookup('throttled', email, ctx);
+    return { ok: false, status: 429, error: TOO_MANY };
+  }
+
+  const client = await Client.findOne({ email }).select('name email').lean().exec();
+  const challenge = await ClientLookupChallenge.create({
+    email,
+    clientId: client?._id ?? null,
+    expiresAt: new Date(Date.now() + CODE_TTL_MINUTES * MINUTE_MS),
+    ip: ctx.ip ?? null,
+  });
+  const challengeId = String(challenge._id);
+
+  if (!client) {
+    await logLookup('no_match', email, ctx, { challengeId: challenge._id });
+    return { ok: true, challengeId, expiresInMinutes: CODE_TTL_MINUTES };
+  }
+
+  const code = String(crypto.randomInt(0, 1_000_000)).padStart(6, '0');
+  challenge.codeHash = hashCode(challengeId, code);
+  await challenge.save();
+
+  const sent = await notifyClientLookupCode({
+    email,
+    name: client.name ?? null,
+    code,
+    expiresInMinutes: CODE_TTL_MINUTES,
+  });
+  if (!sent.sent) console.error('Failed to send checkout lookup code:', sent.error);
+  await logLookup(sent.sent ? 'code_sent' : 'send_failed', email, ctx, {
+    challengeId: challenge._id,
+    clientId: client._id,
+  });
+
+  return { ok: true, challengeId, expiresInMinutes: CODE_TTL_MINUTES };
+}
+
+/** Checks a code and, if it's right, returns the saved details (once) */
+export async function verifyClientLookup(
+  challengeId: unknown,
+  code: unknown,
+  ctx: LookupRequestContext
+): Promise<VerifyLookupResult> {
+  if (typeof challengeId !== 'string' || !mongoose.Types.ObjectId.isValid(challengeId)) {
+    return { ok: false, status: 400, error: 'This code has expired. Please ask for a new one.' };
+  }
+  if (typeof code !== 'string' || !/^\d{6}$/.test(code.trim())) {
+    return { ok: false, status: 400, error: 'Enter the 6-digit code from your email' };
+  }
+
+  if (ctx.ip) {
+    const failed = await countSince(
+      { ip: ctx.ip, outcome: { $in: ['wrong_code', 'locked'] } },
+      LIMITS.failedChecksPerIp.windowMs
+    );
+    if (failed >= LIMITS.failedChecksPerIp.max) return { ok: false, status: 429, error: TOO_MANY };
+  }
+
+  // Count the attempt before checking it, so parallel guesses can't get past the limit
+  const challenge = await ClientLookupChallenge.findOneAndUpdate(
+    { _id: challengeId, verifiedAt: null },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  ).exec();
+  if (!challenge || challenge.expiresAt <= new Date()) {
+    if (challenge) await logLookup('expired', challenge.email, ctx, { challengeId: challenge._id });
+    return { ok: false, status: 410, error: 'This code has expired. Please ask for a new one.' };
+  }
+  if (challenge.attempts > MAX_ATTEMPTS_PER_CODE) {
+    await logLookup('locked', challenge.email, ctx, { challengeId: challenge._id, clientId: challenge.clientId });
+    return { ok: false, status: 429, error: 'Too many wrong codes. Please ask for a new one.' };
+  }
+
+  const matches = signatureMatches(challenge.codeHash, hashCode(challengeId, code.trim()));
+  if (!matches || !challenge.clientId) {
+    await logLookup('wrong_code', challenge.email, ctx, { challengeId: challenge._id, clientId: challenge.clientId });
+    return {
+      ok: false,
+      status: 400,
+      error: 'That code is not right',
+      attemptsLeft: Math.max(0, MAX_ATTEMPTS_PER_CODE - challenge.attempts),
+    };
+  }
+
+  challenge.verifiedAt = new Date();
+  await challenge.save();
+  await logLookup('verified', challenge.email, ctx, { challengeId: challenge._id, clientId: challenge.clientId });
+
+  const client = await Client.findById(challenge.clientId).lean().exec();
+  return {
+    ok: true,
+    client: {
+      name: client?.name ?? null,
+      email: client?.email ?? challenge.email,
+      phone: client?.phone ?? null,
+      address: (client?.address as Record<string, unknown> | null | undefined) ?? null,
+    },
+  };
+}
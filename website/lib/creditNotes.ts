@@ -0,0 +1,385 @@
+import mongoose from 'mongoose';
+import Invoice from '@/models/Invoice';
+import CreditNote, { ICreditNote, ICreditNoteLine } from '@/models/CreditNote';
+import { enqueueEmail } from '@/lib/outbox';
+import { renderEmailTemplate } from '@/lib/emailTemplates';
+import { syncInvoicePayments, toPence } from '@/lib/invoicePayments';
+import { vatInGross, type VatBreakdownRow } from '@/lib/vat';
+import { CreditNoteData, generateCreditNotePDF } from '@/lib/manualInvoiceService';
+import { shopCompanyInfo } from '@/lib/invoiceService';
+
+/*
+ * Credit notes against invoices. A refund on a shop order credits that order's
+ * invoice automatically; manual invoices are credited by an admin. A credit note
+ * lists the invoice lines it covers (or one lump-sum line), carries its own VAT
+ * split, and adds to Invoice.creditedAmount, which comes off what the client owes.
+ */
+
+const MAX_NUMBER_ATTEMPTS = 5;
+// Lines of older invoices have no rate; they were all standard-rated
+const DEFAULT_VAT_RATE = 20;
+
+export type CreditLineInput = { lineIndex: number; qty: number };
+
+type InvoiceLine = { name: string; qty: number; unitPrice: number; totalPrice: number; vatRate?: number };
+
+type CreditableInvoice = {
+  _id: mongoose.Types.ObjectId;
+  orderId?: mongoose.Types.ObjectId | null;
+  orderNumber: string;
+  items?: InvoiceLine[];
+  shipping?: number;
+  total: number;
+  vatBreakdown?: VatBreakdownRow[];
+  currency?: string;
+  client?: { name?: string; email?: string; phone?: string } | null;
+  billingAddress?: Record<string, unknown> | null;
+  shippingAddress?: Record<string, unknown> | null;
+  source?: string;
+  paymentStatus?: string;
+  creditedAmount?: number;
+  createdAt?: Date;
+};
+
+export type CreditNoteResult = { ok: true; creditNote: ICreditNote } | { ok: false; status: number; error: string };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** What can still be credited on an invoice */
+export function creditableAmount(invoice: { total?: number; creditedAmount?: number }): number {
+  return Math.max(0, toPence(invoice.total ?? 0) - toPence(invoice.creditedAmount ?? 0)) / 100;
+}
+
+/** Splits `amount` across `weights` to the penny, remainder on the last share */
+function apportion(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((s, w) => s + w, 0);
+  if (totalWeight <= 0) return weights.map(() => 0);
+  let left = round2(amount);
+  return weights.map((w, i) => {
+    if (i === weights.length - 1) return left;
+    const share = round2((amount * w) / totalWeight);
+    left = round2(left - share);
+    return share;
+  });
+}
+
+function breakdownForLines(lines: ICreditNoteLine[]): VatBreakdownRow[] {
+  const byRate = new Map<number, number>();
+  for (const line of lines) {
+    const rate = line.vatRate ?? DEFAULT_VAT_RATE;
+    byRate.set(rate, round2((byRate.get(rate) ?? 0) + line.totalPrice));
+  }
+  return [...byRate.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([rate, gross]) => {
+      const vat = vatInGross(gross, rate);
+      return { rate, net: round2(gross - vat), vat, gross };
+    });
+}
+
+/** The invoice's own VAT split, scaled down to a lump-sum credit */
+function scaledBreakdown(rows: VatBreakdownRow[], amount: number): VatBreakdownRow[] {
+  if (rows.length === 0) return breakdownForLines([{ name: '', qty: 1, unitPrice: amount, totalPrice: amount }]);
+  const grossShares = apportion(amount, rows.map((r) => r.gross));
+  return rows
+    .map((r, i) => {
+      const vat = vatInGross(grossShares[i], r.rate);
+      return { rate: r.rate, net: round2(grossShares[i] - vat), vat, gross: grossShares[i] };
+    })
+    .filter((r) => r.gross > 0);
+}
+
+/** Quantities already credited per invoice line */
+async function creditedQuantities(invoiceId: mongoose.Types.ObjectId): Promise<Map<number, number>> {
+  const notes = await CreditNote.find({ invoiceId }).select('lines').lean().exec();
+  const credited = new Map<number, number>();
+  for (const note of notes) {
+    for (const line of note.lines) {
+      if (typeof line.lineIndex === 'number') credited.set(line.lineIndex, (credited.get(line.lineIndex) ?? 0) + line.qty);
+    }
+  }
+  return credited;
+}
+
+type CreditLines = { lines: ICreditNoteLine[]; vatBreakdown: VatBreakdownRow[]; total: number };
+
+async function buildCreditLines(
+  invoice: CreditableInvoice,
+  input: { lines?: CreditLineInput[] | null; amount?: number | null; reason?: string | null }
+): Promise<CreditLines | { error: string }> {
+  const items = invoice.items ?? [];
+  const remaining = creditableAmount(invoice);
+
+  if (input.lines?.length) {
+    const already = await creditedQuantities(invoice._id);
+    const picked: ICreditNoteLine[] = [];
+    for (const { lineIndex, qty } of input.lines) {
+      const item = items[lineIndex];
+      if (!item) return { error: `Invoice has no line ${lineIndex + 1}` };
+      if (!Number.isInteger(qty) || qty <= 0) return { error: `Quantity for "${item.name}" must be a whole number` };
+      const left = item.qty - (already.get(lineIndex) ?? 0);
+      if (qty > left) return { error: `Only ${left} of "${item.name}" can still be credited` };
+      picked.push({
+        lineIndex,
+        name: item.name,
+        qty,
+        unitPrice: item.unitPrice,
+        totalPrice: round2(item.unitPrice * qty),
+        vatRate: item.vatRate ?? null,
+      });
+    }
+    // A refund of a different amount (a discounted order, a goodwill top-up) is spread over the lines
+    const linesTotal = round2(picked.reduce((s, l) => s + l.totalPrice, 0));
+    const total = round2(input.amount ?? linesTotal);
+    if (total !== linesTotal) {
+      apportion(total, picked.map((l) => l.totalPrice)).forEach((share, i) => {
+        picked[i].totalPrice = share;
+        picked[i].unitPrice = round2(share / picked[i].qty);
+      });
+    }
+    return { lines: picked, vatBreakdown: breakdownForLines(picked), total };
+  }
+
+  const total = round2(input.amount ?? remaining);
+  // Crediting the whole invoice: mirror it line for line
+  if (toPence(total) === toPence(invoice.total) && !invoice.creditedAmount) {
+    const lines: ICreditNoteLine[] = items.map((item, lineIndex) => ({
+      lineIndex,
+      name: item.name,
+      qty: item.qty,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      vatRate: item.vatRate ?? null,
+    }));
+    if (invoice.shipping && invoice.shipping > 0) {
+      lines.push({ lineIndex: null, name: 'Shipping', qty: 1, unitPrice: invoice.shipping, totalPrice: invoice.shipping });
+    }
+    const vatBreakdown = invoice.vatBreakdown?.length ? invoice.vatBreakdown : breakdownForLines(lines);
+    // Lines may not add up to the total when the invoice had a discount; the total is what's credited
+    return { lines, vatBreakdown, total };
+  }
+
+  return {
+    lines: [
+      {
+        lineIndex: null,
+        name: input.reason ? `Credit: ${input.reason}` : `Credit against invoice ${invoice.orderNumber}`,
+        qty: 1,
+        unitPrice: total,
+        totalPrice: total,
+      },
+    ],
+    vatBreakdown: scaledBreakdown(invoice.vatBreakdown ?? [], total),
+    total,
+  };
+}
+
+/** Next free number for the year; the unique index settles races */
+async function nextNumber(year: number): Promise<{ year: number; sequence: number; number: string }> {
+  const last = await CreditNote.findOne({ year }).sort({ sequence: -1 }).select('sequence').lean().exec();
+  const sequence = (last?.sequence ?? 0) + 1;
+  return { year, sequence, number: `CN-${year}-${String(sequence).padStart(4, '0')}` };
+}
+
+/** Recomputes Invoice.creditedAmount from its credit notes */
+async function syncCreditedAmount(invoiceId: mongoose.Types.ObjectId): Promise<number> {
+  const notes = await CreditNote.find({ invoiceId }).select('total').lean().exec();
+  const credited = notes.reduce((sum, n) => sum + toPence(n.total), 0) / 100;
+  await Invoice.updateOne({ _id: invoiceId }, { $set: { creditedAmount: credited } }).exec();
+  return credited;
+}
+
+export type IssueCreditNoteInput = {
+  invoiceId: string;
+  lines?: CreditLineInput[] | null;
+  amount?: number | null; // defaults to the selected lines, or everything still creditable
+  reason?: string | null;
+  refund?: { refundId: string; method?: 'card' | 'store_credit' | null } | null;
+  actor?: string | null;
+  send?: boolean; // email it to the customer (default true)
+};
+
+/** Issues a numbered credit note, updates the invoice balance and emails it */
+export async function issueCreditNote(input: IssueCreditNoteInput): Promise<CreditNoteResult> {
+  if (!mongoose.Types.ObjectId.isValid(input.invoiceId)) return { ok: false, status: 400, error: 'Invalid invoice id' };
+  if (input.refund) {
+    const existing = await CreditNote.findOne({ refundId: input.refund.refundId }).exec();
+    if (existing) return { ok: true, creditNote: existing };
+  }
+
+  const invoice = await Invoice.findById(input.invoiceId).lean<CreditableInvoice>().exec();
+  if (!invoice) return { ok: false, status: 404, error: 'Invoice not found' };
+
+  const reason = input.reason?.trim().slice(0, 500) || null;
+  const built = await buildCreditLines(invoice, { lines: input.lines, amount: input.amount, reason });
+  if ('error' in built) return { ok: false, status: 400, error: built.error };
+  if (!(built.total > 0)) return { ok: false, status: 400, error: 'Amount must be more than zero' };
+  const remaining = creditableAmount(invoice);
+  if (toPence(built.total) > toPence(remaining)) {
+    return { ok: false, status: 400, error: `Only ${remaining.toFixed(2)} of this invoice is left to credit` };
+  }
+
+  const now = new Date();
+  let creditNote: ICreditNote | null = null;
+  for (let attempt = 0; attempt < MAX_NUMBER_ATTEMPTS && !creditNote; attempt++) {
+    const numbering = await nextNumber(now.getUTCFullYear());
+    try {
+      creditNote = await CreditNote.create({
+        ...numbering,
+        invoiceId: invoice._id,
+        invoiceNumber: invoice.orderNumber,
+        orderId: invoice.orderId ?? null,
+        source: input.refund ? 'refund' : 'manual',
+        refundId: input.refund?.refundId ?? null,
+        refundMethod: input.refund?.method ?? null,
+        lines: built.lines,
+        total: built.total,
+        vat: round2(built.vatBreakdown.reduce((s, r) => s + r.vat, 0)),
+        vatBreakdown: built.vatBreakdown,
+        currency: invoice.currency || 'gbp',
+        reason,
+        client: invoice.client ?? null,
+        billingAddress: invoice.billingAddress ?? invoice.shippingAddress ?? null,
+        issuedBy: input.actor ?? null,
+      });
+    } catch (err) {
+      if ((err as { code?: number }).code !== 11000) throw err;
+      // Someone else credited the same refund first
+      if (input.refund) {
+        const existing = await CreditNote.findOne({ refundId: input.refund.refundId }).exec();
+        if (existing) return { ok: true, creditNote: existing };
+      }
+    }
+  }
+  if (!creditNote) return { ok: false, status: 409, error: 'Could not allocate a credit note number; please try again' };
+
+  await syncCreditedAmount(invoice._id);
+  // Legacy "paid" invoices have no ledger to recompute from, so only open ones move
+  if (invoice.source === 'manual' && invoice.paymentStatus !== 'paid') {
+    await syncInvoicePayments(String(invoice._id));
+  }
+
+  if (input.send !== false) {
+    const sent = await sendCreditNote(creditNote, invoice.createdAt);
+    if (!sent.ok) {
+      await CreditNote.updateOne({ _id: creditNote._id }, { $set: { sendError: sent.error } }).exec();
+    }
+  }
+  return { ok: true, creditNote };
+}
+
+/**
+ * Credits an order's invoice for a refund. Never throws: the money has already
+ * moved, so a problem here is logged for an admin to credit by hand.
+ */
+export async function creditNoteForRefund(
+  orderId: string,
+  refund: { refundId: string; amount: number; reason?: string | null; method?: 'card' | 'store_credit' | null },
+  opts: { lines?: CreditLineInput[] | null; actor?: string | null } = {}
+): Promise<ICreditNote | null> {
+  try {
+    const invoice = await Invoice.findOne({ orderId }).select('_id').lean().exec();
+    if (!invoice) {
+      console.warn(`[CreditNotes] No invoice for order ${orderId}; refund ${refund.refundId} not credited`);
+      return null;
+    }
+    const base = {
+      invoiceId: String(invoice._id),
+      amount: refund.amount,
+      reason: refund.reason,
+      refund: { refundId: refund.refundId, method: refund.method ?? null },
+      actor: opts.actor,
+    };
+    let result = await issueCreditNote({ ...base, lines: opts.lines });
+    // Lines that no longer fit (already credited by hand) still get a lump-sum credit note
+    if (!result.ok && result.status === 400 && opts.lines?.length) {
+      result = await issueCreditNote(base);
+    }
+    if (!result.ok) {
+      console.error(`[CreditNotes] Failed to credit refund ${refund.refundId}:`, result.error);
+      return null;
+    }
+    return result.creditNote;
+  } catch (err) {
+    console.error(`[CreditNotes] Failed to credit refund ${refund.refundId}:`, err);
+    return null;
+  }
+}
+
+type StoredCreditNote = Pick<
+  ICreditNote,
+  'number' | 'invoiceNumber' | 'reason' | 'refundMethod' | 'client' | 'currency' | 'lines' | 'total' | 'vat' | 'vatBreakdown'
+> & { createdAt?: Date; billingAddress?: Record<string, unknown> | null };
+
+/** Maps a stored credit note to what generateCreditNotePDF draws */
+export function creditNoteData(note: StoredCreditNote, invoiceDate?: Date | null): CreditNoteData {
+  return {
+    number: note.number,
+    invoiceNumber: note.invoiceNumber,
+    invoiceDate: invoiceDate ?? null,
+    date: note.createdAt ?? new Date(),
+    reason: note.reason,
+    refundMethod: note.refundMethod,
+    client: {
+      name: note.client?.name || note.client?.email || 'Customer',
+      email: note.client?.email,
+      phone: note.client?.phone,
+    },
+    address: note.billingAddress as CreditNoteData['address'],
+    currency: (note.currency || 'gbp').toUpperCase(),
+    lines: note.lines,
+    total: note.total,
+    vat: note.vat,
+    vatBreakdown: note.vatBreakdown,
+  };
+}
+
+export async function creditNotePdf(note: StoredCreditNote & { invoiceId: mongoose.Types.ObjectId }): Promise<Buffer> {
+  const invoice = await Invoice.findById(note.invoiceId).select('createdAt').lean<{ createdAt?: Date }>().exec();
+  return generateCreditNotePDF(creditNoteData(note, invoice?.createdAt), shopCompanyInfo());
+}
+
+/** Emails the credit note PDF to the customer; `resend` skips the once-only guard */
+export async function sendCreditNote(
+  note: ICreditNote,
+  invoiceDate?: Date | null,
+  opts: { resend?: boolean } = {}
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const email = note.client?.email?.trim();
+  if (!email) return { ok: false, error: 'Credit note has no customer email' };
+  try {
+    const data = creditNoteData(note, invoiceDate);
+    const pdf = await generateCreditNotePDF(data, shopCompanyInfo());
+    const rendered = await renderEmailTemplate('credit_note', {
+      customerName: note.client?.name ?? null,
+      creditNoteNumber: note.number,
+      invoiceNumber: note.invoiceNumber,
+      date: data.date,
+      currency: data.currency,
+      total: note.total,
+      vat: note.vat,
+      reason: note.reason,
+      refundMethod: note.refundMethod,
+      lines: note.lines.map((l) => ({ name: l.name, qty: l.qty, totalPrice: l.totalPrice })),
+    });
+    const queued = await enqueueEmail({
+      kind: 'credit_note',
+      to: [{ email, name: note.client?.name }],
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      attachments: [{ name: `credit-note-${note.number}.pdf`, content: pdf.toString('base64') }],
+      related: { type: 'CreditNote', id: String(note._id) },
+      dedupeKey: opts.resend ? null : `credit-note:${String(note._id)}`,
+    });
+    if (!queued.ok) return { ok: false, error: queued.error };
+    return { ok: true };
+  } catch (err) {
+    console.error(`[CreditNotes] Failed to send ${note.number}:`, err);
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export async function listCreditNotes(invoiceId: string) {
+  return CreditNote.find({ invoiceId }).sort({ createdAt: 1 }).lean().exec();
+}
@@ -0,0 +1,97 @@
+/*
+ * Minimal five-field cron expressions ("minute hour day-of-month month day-of-week"),
+ * evaluated in UTC like Vercel cron. Supports *, lists (1,15), ranges (1-5) and
+ * steps on either (0-30/5, or a star with /10). Names (MON, JAN) and the L/W/#
+ * extensions are not supported.
+ */
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+] as const;
+
+const MINUTE_MS = 60 * 1000;
+// How far next/previous occurrence searches look; every schedule we use repeats within a week
+const SEARCH_LIMIT_MINUTES = 8 * 24 * 60;
+
+export type CronSchedule = {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  dayOr: boolean;
+};
+
+function parseField(part: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const item of part.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step "${item}" in ${field.name}`);
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (range.includes('-')) {
+      [from, to] = range.split('-').map(Number);
+    } else {
+      from = Number(range);
+      to = stepText === undefined ? from : field.max;
+    }
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < field.min || to > field.max || from > to) {
+      throw new Error(`Invalid ${field.name} "${item}"`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Parses an expression; throws with a readable message when it's malformed */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  const [minutes, hours, days, months, weekdays] = parts.map((p, i) => parseField(p, FIELDS[i]));
+  if (weekdays.has(7)) weekdays.add(0);
+  return { expression, minutes, hours, days, months, weekdays, dayOr: parts[2] !== '*' && parts[4] !== '*' };
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getUTCMinutes())) return false;
+  if (!schedule.hours.has(date.getUTCHours())) return false;
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+  const dayOk = schedule.days.has(date.getUTCDate());
+  const weekdayOk = schedule.weekdays.has(date.getUTCDay());
+  return schedule.dayOr ? dayOk || weekdayOk : dayOk && weekdayOk;
+}
+
+function floorToMinute(date: Date) {
+  return new Date(Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS);
+}
+
+/** Latest scheduled time in (after, until], or null when there is none */
+export function previousOccurrence(schedule: CronSchedule, until: Date, after?: Date | null): Date | null {
+  const floor = Math.max(after ? after.getTime() : 0, until.getTime() - SEARCH_LIMIT_MINUTES * MINUTE_MS);
+  for (let t = floorToMinute(until).getTime(); t > floor; t -= MINUTE_MS) {
+    const candidate = new Date(t);
+    if (cronMatches(schedule, candidate)) return candidate;
+  }
+  return null;
+}
+
+/** First scheduled time after `from`, or null when none is found within the search window */
+export function nextOccurrence(schedule: CronSchedule, from: Date): Date | null {
+  const start = floorToMinute(from).getTime() + MINUTE_MS;
+  for (let i = 0; i < SEARCH_LIMIT_MINUTES; i++) {
+    const candidate = new Date(start + i * MINUTE_MS);
+    if (cronMatches(schedule, candidate)) return candidate;
+  }
+  return null;
+}
@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+
+/**
+ * Checks the `Authorization: Bearer <CRON_SECRET>` header Vercel cron sends.
+ * Returns null when the request may go ahead, otherwise the response to send.
+ * Without CRON_SECRET nothing gets through, rather than matching "Bearer undefined".
+ */
+export function verifyCronRequest(request: Request): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('[Cron] CRON_SECRET is not configured; refusing cron request');
+    return NextResponse.json({ error: 'Server misconfigured: missing CRON_SECRET' }, { status: 500 });
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(request.headers.get('Authorization') ?? '');
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,236 @@
+import mongoose from 'mongoose';
+import Order, { IOrder } from '@/models/Order';
+import Invoice from '@/models/Invoice';
+import Booking from '@/models/Booking';
+import Course from '@/models/Class';
+import type { IClient, IClientAddress } from '@/models/Client';
+import { buildTracking, type Provider } from '@/lib/notifyShipment';
+import { buildReturnUrl } from '@/lib/returns';
+import { buildManageBookingUrl } from '@/lib/bookingLinks';
+import type { CustomerSession } from '@/lib/customerAuth';
+
+/*
+ * What a signed-in customer can see: their details, their paid orders (with
+ * tracking and invoices) and their class bookings. Orders from before the
+ * account existed are matched on the email they were placed with.
+ */
+
+export const MAX_SAVED_ADDRESSES = 5;
+const MAX_ORDERS = 50;
+const MAX_BOOKINGS = 50;
+
+// Orders still being paid for (or that never were) aren't shown
+const ACCOUNT_ORDER_STATUSES = ['paid', 'shipped', 'refunded', 'disputed'];
+
+/* ----------------------------- Profile ---------------------------------- */
+
+export type AccountAddress = {
+  label?: string;
+  firstName?: string;
+  lastName?: string;
+  unit?: string;
+  line1?: string;
+  city?: string;
+  postcode?: string;
+  country?: string;
+};
+
+export type AccountProfile = {
+  email: string;
+  name: string;
+  phone: string;
+  address: AccountAddress | null;
+  savedAddresses: AccountAddress[];
+  isSubscribed: boolean;
+};
+
+const str = (v: unknown, max = 120) => (typeof v === 'string' && v.trim() ? v.trim().slice(0, max) : undefined);
+
+function toAccountAddress(a?: IClientAddress | null): AccountAddress | null {
+  if (!a || !a.line1) return null;
+  return {
+    label: a.label ?? undefined,
+    firstName: a.firstName ?? undefined,
+    lastName: a.lastName ?? undefined,
+    unit: a.unit ?? undefined,
+    line1: a.line1 ?? undefined,
+    city: a.city ?? undefined,
+    postcode: a.postcode ?? undefined,
+    country: a.country ?? undefined,
+  };
+}
+
+export function toAccountProfile(client: IClient): AccountProfile {
+  return {
+    email: client.email ?? '',
+    name: client.name ?? '',
+    phone: client.phone ?? '',
+    address: toAccountAddress(client.address),
+    savedAddresses: (client.savedAddresses ?? [])
+      .map(toAccountAddress)
+      .filter((a): a is AccountAddress => a !== null),
+    isSubscribed: !!client.isSubscribed,
+  };
+}
+
+/** Address from the account form; null when it's missing the lines we post to */
+export function parseAccountAddress(raw: unknown): AccountAddress | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const address: AccountAddress = {
+    label: str(r.label, 40),
+    firstName: str(r.firstName, 80),
+    lastName: str(r.lastName, 80),
+    unit: str(r.unit),
+    line1: str(r.line1),
+    city: str(r.city, 80),
+    postcode: str(r.postcode, 16)?.toUpperCase(),
+    country: str(r.country, 2)?.toUpperCase() || 'GB',
+  };
+  return address.line1 && address.city && address.postcode ? address : null;
+}
+
+/* ----------------------------- Orders ---------------------------------- */
+
+export type AccountOrder = {
+  _id: string;
+  reference: string;
+  status: string;
+  createdAt: string;
+  paidAt: string | null;
+  items: { name: string; qty: number; totalPrice: number }[];
+  subtotal: number;
+  shipping: number;
+  discount: number;
+  total: number;
+  shipment: {
+    provider: string;
+    trackingCode: string | null;
+    shippedAt: string | null;
+    estimatedDelivery: string | null;
+    trackingUrl: string | null;
+    trackingNote: string | null;
+  } | null;
+  hasInvoice: boolean;
+  returnUrl: string | null; // signed link to /returns once the order has shipped
+};
+
+function ownedOrdersFilter(session: CustomerSession): Record<string, unknown> {
+  const or: Record<string, unknown>[] = [{ 'client.email': session.email }, { 'shippingAddress.email': session.email }];
+  if (mongoose.Types.ObjectId.isValid(session.clientId)) {
+    or.push({ clientId: new mongoose.Types.ObjectId(session.clientId) });
+  }
+  return { $or: or, status: { $in: ACCOUNT_ORDER_STATUSES } };
+}
+
+const iso = (d?: Date | null) => (d ? new Date(d).toISOString() : null);
+
+export function orderReference(orderId: unknown) {
+  return String(orderId).slice(-8).toUpperCase();
+}
+
+function toAccountOrder(order: IOrder, hasInvoice: boolean): AccountOrder {
+  const shipment = order.shipment ?? null;
+  const tracking = shipment
+    ? buildTracking(shipment.provider as Provider, shipment.trackingCode, order.shippingAddress?.postcode)
+    : null;
+  return {
+    _id: String(order._id),
+    reference: orderReference(order._id),
+    status: order.status,
+    createdAt: new Date(order.createdAt).toISOString(),
+    paidAt: iso(order.paidAt),
+    items: (order.items ?? []).map((it) => ({ name: it.name, qty: it.qty, totalPrice: it.totalPrice })),
+    subtotal: order.subtotal ?? 0,
+    shipping: order.shipping ?? 0,
+    discount: order.discount ?? 0,
+    total: order.total,
+    shipment: shipment
+      ? {
+          provider: shipment.provider,
+          trackingCode: shipment.trackingCode ?? null,
+          shippedAt: iso(shipment.shippedAt),
+          estimatedDelivery: iso(shipment.estimatedDelivery),
+          trackingUrl: tracking?.url ?? null,
+          trackingNote: tracking?.note ?? null,
+        }
+      : null,
+    hasInvoice,
+    returnUrl: order.status === 'shipped' ? buildReturnUrl(String(order._id)) : null,
+  };
+}
+
+export async function getAccountOrders(session: CustomerSession): Promise<AccountOrder[]> {
+  const orders = (await Order.find(ownedOrdersFilter(session))
+    .sort({ createdAt: -1 })
+    .limit(MAX_ORDERS)
+    .lean()
+    .exec()) as unknown as IOrder[];
+  if (orders.length === 0) return [];
+
+  const invoiced = await Invoice.find({ orderId: { $in: orders.map((o) => o._id) }, source: 'stripe' })
+    .select('orderId')
+    .lean()
+    .exec();
+  const invoicedIds = new Set(invoiced.map((inv) => String((inv as { orderId?: unknown }).orderId)));
+
+  return orders.map((o) => toAccountOrder(o, invoicedIds.has(String(o._id))));
+}
+
+/** The order if it belongs to this customer */
+export async function findAccountOrder(session: CustomerSession, orderId: string): Promise<IOrder | null> {
+  if (!mongoose.Types.ObjectId.isValid(orderId)) return null;
+  return Order.findOne({ _id: orderId, ...ownedOrdersFilter(session) }).exec();
+}
+
+/* ----------------------------- Bookings ---------------------------------- */
+
+export type AccountBooking = {
+  _id: string;
+  bookingRef: string;
+  status: string;
+  attendees: number;
+  sessionStart: string | null;
+  sessionEnd: string | null;
+  course: { title: string; slug: string; location: string } | null;
+  createdAt: string;
+  manageUrl: string | null; // signed link to cancel or move it, until the session starts
+};
+
+type PopulatedBooking = {
+  _id: unknown;
+  bookingRef: string;
+  status: string;
+  attendees: number;
+  sessionStart?: Date | null;
+  sessionEnd?: Date | null;
+  courseId?: { title?: string; slug?: string; location?: string } | null;
+  manageLinkVersion?: number;
+  createdAt: Date;
+};
+
+export async function getAccountBookings(session: CustomerSession): Promise<AccountBooking[]> {
+  const bookings = (await Booking.find({ email: session.email })
+    .sort({ sessionStart: -1, createdAt: -1 })
+    .limit(MAX_BOOKINGS)
+    .populate({ path: 'courseId', select: 'title slug location', model: Course.modelName })
+    .lean()
+    .exec()) as unknown as PopulatedBooking[];
+
+  return bookings.map((b) => ({
+    _id: String(b._id),
+    bookingRef: b.bookingRef,
+    status: b.status,
+    attendees: b.attendees,
+    sessionStart: iso(b.sessionStart),
+    sessionEnd: iso(b.sessionEnd),
+    course: b.courseId
+      ? { title: b.courseId.title ?? 'Class', slug: b.courseId.slug ?? '', location: b.courseId.location ?? '' }
+      : null,
+    createdAt: new Date(b.createdAt).toISOString(),
+    manageUrl:
+      b.status === 'confirmed' && b.sessionStart && new Date(b.sessionStart) > new Date()
+        ? buildManageBookingUrl(b)
+        : null,
+  }));
+}
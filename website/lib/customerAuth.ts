@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { NextRequest, NextResponse } from 'next/server';
+import Client, { IClient } from '@/models/Client';
+import CustomerLoginToken from '@/models/CustomerLoginToken';
+import { notifyAccountLoginLink } from '@/lib/notifyAccountLogin';
+
+/*
+ * Customer accounts. Customers sign in with a one-time link emailed to them and
+ * get a session cookie of their own; it is signed with a different key from the
+ * admin `token` cookie in lib/auth.ts, so neither can stand in for the other.
+ * An account is simply the Client with that email — one is created on first sign-in.
+ */
+
+/* ----------------------------- Config ---------------------------------- */
+
+export const CUSTOMER_COOKIE = 'customer_token';
+const SESSION_DAYS = 30;
+const LINK_TTL_MINUTES = 15;
+const MAX_LINKS_PER_EMAIL_PER_HOUR = 5;
+const MAX_LINKS_PER_IP_PER_HOUR = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type CustomerSession = {
+  clientId: string;
+  email: string;
+};
+
+function sessionSecret(): string {
+  if (process.env.CUSTOMER_JWT_SECRET) return process.env.CUSTOMER_JWT_SECRET;
+  const base = process.env.JWT_SECRET;
+  if (!base) throw new Error('CUSTOMER_JWT_SECRET (or JWT_SECRET) is not configured');
+  // Derived rather than reused, so an admin token never verifies as a customer one
+  return crypto.createHmac('sha256', base).update('customer-session').digest('base64url');
+}
+
+export function normalizeCustomerEmail(email: unknown): string | null {
+  if (typeof email !== 'string') return null;
+  const e = email.trim().toLowerCase();
+  return e && e.length <= 254 && EMAIL_RE.test(e) ? e : null;
+}
+
+/** Only account pages are allowed as the landing page after signing in */
+export function safeAccountPath(next: unknown): string {
+  if (typeof next !== 'string') return '/account';
+  return /^\/account(\/[\w\-/]*)?(\?[\w=&-]*)?$/.test(next) ? next : '/account';
+}
+
+/* ----------------------------- Sessions ---------------------------------- */
+
+export function createCustomerSessionToken(client: Pick<IClient, '_id' | 'email'>): string {
+  return jwt.sign({ email: client.email, kind: 'customer' }, sessionSecret(), {
+    subject: String(client._id),
+    expiresIn: `${SESSION_DAYS}d`,
+  });
+}
+
+export function customerCookieOptions(maxAgeSeconds = SESSION_DAYS * 24 * 60 * 60) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge: maxAgeSeconds,
+  };
+}
+
+export function verifyCustomerToken(token?: string | null): CustomerSession | null {
+  if (!token) return null;
+  try {
+    const decoded = jwt.verify(token, sessionSecret()) as jwt.JwtPayload;
+    if (decoded.kind !== 'customer' || typeof decoded.sub !== 'string' || typeof decoded.email !== 'string') {
+      return null;
+    }
+    return { clientId: decoded.sub, email: decoded.email };
+  } catch {
+    return null;
+  }
+}
+
+/** Session for server components; null when signed out */
+export async function getCustomerSession(): Promise<CustomerSession | null> {
+  return verifyCustomerToken((await cookies()).get(CUSTOMER_COOKIE)?.value);
+}
+
+/** Server pages: sends signed-out visitors to the sign-in page */
+export async function requireCustomer(next = '/account'): Promise<CustomerSession> {
+  const session = await getCustomerSession();
+  if (!session) redirect(`/account/login?next=${encodeURIComponent(safeAccountPath(next))}`);
+  return session;
+}
+
+export function verifyCustomerForApi(req: NextRequest): CustomerSession | NextResponse {
+  const session = verifyCustomerToken(req.cookies.get(CUSTOMER_COOKIE)?.value);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: 'Please sign in to your account' }, { status: 401 });
+  }
+  return session;
+}
+
+/* ----------------------------- Sign-in links ---------------------------------- */
+
+function hashLoginToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export type LoginLinkResult = { sent: boolean; throttled?: boolean; error?: string };
+
+/**
+ * Emails a sign-in link. The caller should answer the same way whatever happens
+ * here, so the form can't be used to find out who has shopped with us.
+ */
+export async function requestLoginLink(
+  email: string,
+  opts: { next?: string | null; ip?: string | null } = {}
+): Promise<LoginLinkResult> {
+  const since = new Date(Date.now() - HOUR_MS);
+  const [recentForEmail, recentForIp] = await Promise.all([
+    CustomerLoginToken.countDocuments({ email, createdAt: { $gte: since } }),
+    opts.ip ? CustomerLoginToken.countDocuments({ requestIp: opts.ip, createdAt: { $gte: since } }) : 0,
+  ]);
+  if (recentForEmail >= MAX_LINKS_PER_EMAIL_PER_HOUR || recentForIp >= MAX_LINKS_PER_IP_PER_HOUR) {
+    return { sent: false, throttled: true };
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await CustomerLoginToken.create({
+    email,
+    tokenHash: hashLoginToken(token),
+    next: opts.next ? safeAccountPath(opts.next) : null,
+    expiresAt: new Date(Date.now() + LINK_TTL_MINUTES * 60 * 1000),
+    requestIp: opts.ip ?? null,
+  });
+
+  const client = await Client.findOne({ email }).select('name').lean();
+  const appBase = (process.env.APP_BASE_URL || '').replace(/\/$/, '');
+  const result = await notifyAccountLoginLink({
+    email,
+    name: client?.name ?? null,
+    url: `${appBase}/account/verify?token=${encodeURIComponent(token)}`,
+    expiresInMinutes: LINK_TTL_MINUTES,
+  });
+  if (!result.sent) {
+    console.error('Failed to send account sign-in link:', result.error);
+    return { sent: false, error: result.error };
+  }
+  return { sent: true };
+}
+
+export type ConsumeLoginLinkResult =
+  | { ok: true; client: IClient; next: string }
+  | { ok: false; error: string };
+
+/** Uses up a sign-in link and returns the account it signs in to */
+export async function consumeLoginLink(token: unknown): Promise<ConsumeLoginLinkResult> {
+  if (typeof token !== 'string' || token.length < 20 || token.length > 200) {
+    return { ok: false, error: 'This sign-in link is not valid' };
+  }
+
+  const now = new Date();
+  const link = await CustomerLoginToken.findOneAndUpdate(
+    { tokenHash: hashLoginToken(token), usedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now } },
+    { new: true }
+  ).exec();
+  if (!link) return { ok: false, error: 'This sign-in link has expired or has already been used' };
+
+  const client = await Client.findOneAndUpdate(
+    { email: link.email },
+    { $set: { lastLoginAt: now }, $setOnInsert: { email: link.email } },
+    { upsert: true, new: true }
+  ).exec();
+
+  return { ok: true, client, next: safeAccountPath(link.next) };
+}
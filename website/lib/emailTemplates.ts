@@ -0,0 +1,1470 @@
+/**
+ * lib/emailTemplates.ts
+ *
+ * Named email templates and the branded layout they share.
+ *
+ * Each template declares the variables it's rendered with, sample values for the
+ * admin preview, and its default subject and intro copy. Staff can change the
+ * subject and intro from /admin/email-templates; the edits are stored in the
+ * EmailTemplate collection and picked up on the next send. The rest of the body
+ * (tables, links, detail boxes) stays in code.
+ *
+ * Subject and intro may use {{placeholders}}. Every template offers companyName
+ * and supportEmail plus the ones listed in its `placeholders`.
+ *
+ * Optional env vars:
+ * - COMPANY_NAME (falls back to BREVO_SENDER_NAME)
+ * - SUPPORT_EMAIL (falls back to the sender address)
+ * - COMPANY_PHONE
+ * - APP_BASE_URL
+ */
+
+import dbConnect from '@/lib/dbConnect';
+import EmailTemplate from '@/models/EmailTemplate';
+
+/* ---------------------- Formatting helpers --------------------------- */
+
+export function escapeHtml(value?: string | number | null): string {
+  if (value === undefined || value === null) return '';
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+export function formatCurrency(value = 0, currency = 'GBP'): string {
+  try {
+    return new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currency: (currency || 'GBP').toUpperCase(),
+      maximumFractionDigits: 2,
+    }).format(value);
+  } catch {
+    return `£${(value || 0).toFixed(2)}`;
+  }
+}
+
+/** "Mon, 3 Mar 2025, 10:00" — or without the time for `date` */
+export function formatDate(d?: string | Date | null, style: 'date' | 'datetime' = 'datetime'): string {
+  if (!d) return '';
+  const date = new Date(d);
+  if (Number.isNaN(date.getTime())) return String(d);
+  return date.toLocaleString('en-GB', {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    ...(style === 'datetime' ? { hour: '2-digit', minute: '2-digit' } : {}),
+  });
+}
+
+function sessionLine(start?: string | Date | null, end?: string | Date | null): string {
+  if (!start) return 'TBD';
+  return `${formatDate(start)}${end ? ` — ${formatDate(end)}` : ''}`;
+}
+
+/* ---------------------- Branding & layout ---------------------------- */
+
+export type EmailBrand = {
+  companyName: string;
+  supportEmail: string;
+  phone: string;
+  appBase: string;
+};
+
+export function emailBrand(): EmailBrand {
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || '').trim();
+  return {
+    companyName: process.env.COMPANY_NAME || process.env.BREVO_SENDER_NAME || 'Your Store',
+    supportEmail: process.env.SUPPORT_EMAIL || senderEmail,
+    phone: process.env.COMPANY_PHONE || '',
+    appBase: (process.env.APP_BASE_URL || '').replace(/\/$/, ''),
+  };
+}
+
+const BOX_STYLE = 'margin:16px 0;padding:16px;border:1px solid #ddd;background:#f9f9f9;border-radius:6px;';
+const LINK_STYLE = 'color:#000;text-decoration:underline;';
+
+function detailRows(rows: [string, string | number | null | undefined][]): string {
+  return rows
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([label, value]) => `<div style="margin-bottom:6px;"><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</div>`)
+    .join('');
+}
+
+function detailText(rows: [string, string | number | null | undefined][]): string[] {
+  return rows
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([label, value]) => `${label}: ${value}`);
+}
+
+function linkParagraph(label: string, url?: string | null): string {
+  return url ? `<p style="margin:8px 0;"><a href="${escapeHtml(url)}" style="${LINK_STYLE}">${escapeHtml(label)}</a></p>` : '';
+}
+
+// Plain paragraphs from the (already filled-in) intro copy; a blank line starts a new one
+function introHtml(intro: string): string {
+  return intro
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => `<p style="margin:0 0 16px;line-height:1.6;">${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
+
+type TemplateContent = {
+  heading: string;
+  greeting?: string | null; // "Hi Sam," — admin emails go without
+  html: string; // everything after the intro
+  text: (string | null | undefined | false)[];
+};
+
+function renderLayout(content: TemplateContent, intro: string, subject: string, audience: EmailAudience, brand: EmailBrand) {
+  const company = escapeHtml(brand.companyName);
+  const support = escapeHtml(brand.supportEmail);
+  const customer = audience === 'customer';
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width,initial-scale=1">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:0;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;background:#ffffff;color:#000000;">
+  <div style="max-width:600px;margin:0 auto;padding:20px;">
+    <div style="border-bottom:2px solid #000;padding-bottom:12px;margin-bottom:24px;">
+      <h1 style="margin:0;font-size:24px;font-weight:600;">${company}</h1>
+    </div>
+
+    <h2 style="margin:0 0 16px;font-size:20px;font-weight:600;">${escapeHtml(content.heading)}</h2>
+
+    ${content.greeting ? `<p style="margin:0 0 16px;line-height:1.6;">${escapeHtml(content.greeting)}</p>` : ''}
+    ${introHtml(intro)}
+    ${content.html}
+
+    ${
+      customer && brand.supportEmail
+        ? `<p style="margin:24px 0 0;color:#666;">If you have any questions, reply to this email or contact <a href="mailto:${support}" style="${LINK_STYLE}">${support}</a>.</p>
+    <p style="margin:12px 0 0;">Kind regards,<br>${company}</p>`
+        : ''
+    }
+
+    <div style="border-top:1px solid #ddd;padding-top:16px;font-size:12px;color:#999;text-align:center;margin-top:24px;">
+      <p style="margin:0 0 4px;">© ${new Date().getFullYear()} ${company}. All rights reserved.</p>
+      ${customer && (brand.supportEmail || brand.phone) ? `<p style="margin:4px 0 0;">Need help? ${[support, escapeHtml(brand.phone)].filter(Boolean).join(' • ')}</p>` : ''}
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const lines: string[] = [
+    `${brand.companyName} — ${content.heading}`,
+    '',
+    content.greeting || '',
+    '',
+    intro.trim(),
+    '',
+    ...content.text.filter((l): l is string => typeof l === 'string'),
+    '',
+    customer && brand.supportEmail ? `If you have any questions, reply to this email or contact ${brand.supportEmail}.` : '',
+    '',
+    customer ? `Kind regards,\n${brand.companyName}` : '',
+  ];
+  // Sections the email doesn't have leave blank lines behind; keep one between sections
+  const text = lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { html, text };
+}
+
+/* ---------------------- Template definitions ------------------------- */
+
+export type EmailAudience = 'customer' | 'admin';
+
+export type TemplateCopy = { subject: string; intro: string };
+
+interface EmailTemplateDefinition<V, P extends string> {
+  label: string;
+  description: string;
+  audience: EmailAudience;
+  defaults: TemplateCopy;
+  placeholders: Record<P, string>; // name → what it holds, shown to staff
+  values: (vars: V) => Record<P, string>;
+  sample: V;
+  build: (vars: V, brand: EmailBrand) => TemplateContent;
+}
+
+function defineTemplate<V, P extends string>(def: EmailTemplateDefinition<V, P>) {
+  return def;
+}
+
+type MoneyLine = { name: string; qty: number; unitPrice?: number; totalPrice: number };
+
+type AddressBlock = { name?: string | null; lines: string[]; phone?: string | null };
+
+export type BookingConfirmationVars = {
+  bookingRef: string;
+  courseTitle: string;
+  customerName?: string | null;
+  email: string;
+  phone?: string | null;
+  attendees: number;
+  sessionStart?: string | Date | null;
+  sessionEnd?: string | Date | null;
+  manageUrl?: string | null;
+};
+
+export type BookingCancelledVars = {
+  bookingRef: string;
+  courseTitle: string;
+  customerName?: string | null;
+  sessionStart?: string | Date | null;
+  sessionEnd?: string | Date | null;
+  refundAmount?: number | null;
+};
+
+export type ClassReminderVars = {
+  bookingRef: string;
+  courseTitle: string;
+  customerName?: string | null;
+  attendees: number;
+  sessionStart?: string | Date | null;
+  sessionEnd?: string | Date | null;
+  location?: string | null;
+  hoursBefore: number; // the reminder step: 48 or 2
+  thingsToNote?: string[];
+  manageUrl?: string | null;
+};
+
+export type AdminBookingVars = {
+  bookingRef: string;
+  courseTitle: string;
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  attendees?: number | null;
+  sessionStart?: string | Date | null;
+  sessionEnd?: string | Date | null;
+  receivedAt?: string | Date | null;
+};
+
+export type AdminBookingChangeVars = {
+  bookingRef: string;
+  courseTitle: string;
+  change: 'cancelled' | 'rescheduled';
+  name?: string | null;
+  email?: string | null;
+  attendees?: number | null;
+  fromSessionStart?: string | Date | null;
+  fromSessionEnd?: string | Date | null;
+  toSessionStart?: string | Date | null;
+  toSessionEnd?: string | Date | null;
+  refundAmount?: number | null;
+  refundError?: string | null; // the refund didn't go through and needs doing by hand
+};
+
+export type WaitlistOfferVars = {
+  courseTitle: string;
+  customerName?: string | null;
+  partySize: number;
+  sessionStart?: string | Date | null;
+  sessionEnd?: string | Date | null;
+  amount?: number | null; // to pay on claiming; 0 for free classes
+  claimUrl: string;
+  expiresAt: string | Date;
+};
+
+export type ShipmentVars = {
+  customerName?: string | null;
+  orderNumber: string;
+  carrier: string;
+  trackingCode?: string | null;
+  trackingUrl?: string | null;
+  trackingNote?: string | null;
+  // carrier-specific pointers, one sentence each
+  carrierTips: string[];
+  estimatedDelivery?: string | Date | null;
+  currency: string;
+  items: MoneyLine[];
+  subtotal: number;
+  shipping: number;
+  total: number;
+  shippingAddress?: AddressBlock | null;
+  orderUrl?: string | null;
+  returnUrl?: string | null;
+};
+
+export type RefundVars = {
+  customerName?: string | null;
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  refundId: string;
+  providerRefundId?: string | null;
+  reason?: string | null;
+  refundedAt: string | Date;
+  orderUrl?: string | null;
+};
+
+export type OrderInvoiceVars = {
+  customerName: string;
+  invoiceNumber: string;
+  orderId: string;
+  date?: string | Date | null;
+  currency: string;
+  discount?: number | null;
+  discountCode?: string | null;
+  total: number;
+  vat?: number | null;
+  giftCardAmount?: number | null;
+  giftCardCode?: string | null;
+  items: (MoneyLine & { roastType?: string | null })[];
+  shippingAddress?: AddressBlock | null;
+};
+
+export type ManualInvoiceVars = {
+  customerName: string;
+  invoiceNumber: string;
+  date: string;
+  dueDate?: string | Date | null;
+  currency: string;
+  total: number;
+  vat?: number | null;
+  notes?: string | null;
+};
+
+export type InvoiceReminderVars = {
+  customerName: string;
+  invoiceNumber: string;
+  date?: string | Date | null;
+  dueDate: string | Date;
+  daysPastDue: number; // negative before the due date
+  currency: string;
+  total: number;
+  amountPaid: number;
+  balance: number;
+};
+
+export type CreditNoteVars = {
+  customerName?: string | null;
+  creditNoteNumber: string;
+  invoiceNumber: string;
+  date: string | Date;
+  currency: string;
+  total: number;
+  vat?: number | null;
+  reason?: string | null;
+  refundMethod?: 'card' | 'store_credit' | null;
+  lines: { name: string; qty: number; totalPrice: number }[];
+};
+
+export type AdminOverdueInvoicesVars = {
+  invoices: {
+    invoiceNumber: string;
+    clientName?: string | null;
+    total: number;
+    currency: string;
+    dueDate: string | Date;
+  }[];
+  dashboardUrl?: string | null;
+};
+
+export type AdminEnquiryVars = {
+  enquiryId: string;
+  business: string;
+  contact: string;
+  contactPref?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  interest?: string | null;
+  message?: string | null;
+  dashboardUrl?: string | null;
+};
+
+export type EnquiryConfirmationVars = {
+  enquiryId: string;
+  business: string;
+  contact: string;
+  interest?: string | null;
+};
+
+function addressHtml(address: AddressBlock): string {
+  const lines = [address.name, ...address.lines].filter(Boolean) as string[];
+  return `${lines.map((l) => `<div style="margin:4px 0;">${escapeHtml(l)}</div>`).join('') || '<div style="color:#666;">—</div>'}
+      ${address.phone ? `<div style="margin:8px 0 0;">Tel: ${escapeHtml(address.phone)}</div>` : ''}`;
+}
+
+function addressText(address: AddressBlock): string[] {
+  const lines = [address.name, ...address.lines].filter(Boolean) as string[];
+  return [...(lines.length ? lines : ['—']), ...(address.phone ? [`Tel: ${address.phone}`] : [])];
+}
+
+const bookingConfirmation = defineTemplate<BookingConfirmationVars, 'name' | 'bookingRef' | 'courseTitle' | 'session'>({
+  label: 'Booking confirmation',
+  description: 'Sent to the customer when they book a class.',
+  audience: 'customer',
+  defaults: {
+    subject: '{{companyName}} — Booking {{bookingRef}} confirmed',
+    intro: 'Thank you — your booking for {{courseTitle}} is confirmed. Booking reference: {{bookingRef}}.',
+  },
+  placeholders: {
+    name: "Customer's name",
+    bookingRef: 'Booking reference',
+    courseTitle: 'Class title',
+    session: 'Session date and time',
+  },
+  values: (v) => ({
+    name: v.customerName || '',
+    bookingRef: v.bookingRef,
+    courseTitle: v.courseTitle,
+    session: sessionLine(v.sessionStart, v.sessionEnd),
+  }),
+  sample: {
+    bookingRef: 'BK-7Q2M',
+    courseTitle: 'Home Barista Fundamentals',
+    customerName: 'Sam Taylor',
+    email: 'sam@example.com',
+    phone: '07700 900123',
+    attendees: 2,
+    sessionStart: '2025-03-08T10:00:00Z',
+    sessionEnd: '2025-03-08T12:30:00Z',
+    manageUrl: 'https://example.com/classes/manage?booking=665f1c2e9b1e8a0012345678&exp=1767225600&sig=sample',
+  },
+  build: (v) => {
+    const attendees = `${v.attendees} ${v.attendees === 1 ? 'person' : 'people'}`;
+    const session = sessionLine(v.sessionStart, v.sessionEnd);
+    const contact = [v.phone, v.email].filter(Boolean).join(' — ');
+    return {
+      heading: `Booking confirmed — ${v.bookingRef}`,
+      greeting: `Hi ${v.customerName || 'there'},`,
+      html: `<div style="${BOX_STYLE}">
+      <div style="font-weight:600;margin-bottom:8px;">Booking details</div>
+      ${detailRows([
+        ['Session', session],
+        ['Attendees', attendees],
+        ['Contact', contact],
+      ])}
+    </div>
+    ${linkParagraph('Cancel or change your booking', v.manageUrl)}`,
+      text: [
+        ...detailText([
+          ['Reference', v.bookingRef],
+          ['Session', session],
+          ['Attendees', attendees],
+          ['Contact', contact],
+        ]),
+        v.manageUrl ? `Manage your booking: ${v.manageUrl}` : null,
+      ],
+    };
+  },
+});
+
+const bookingCancelled = defineTemplate<BookingCancelledVars, 'name' | 'bookingRef' | 'courseTitle' | 'session'>({
+  label: 'Booking cancelled',
+  description: 'Sent to the customer when they cancel a class booking, with a calendar update that removes the invite.',
+  audience: 'customer',
+  defaults: {
+    subject: '{{companyName}} — Booking {{bookingRef}} cancelled',
+    intro: 'Your booking for {{courseTitle}} ({{session}}) has been cancelled.',
+  },
+  placeholders: {
+    name: "Customer's name",
+    bookingRef: 'Booking reference',
+    courseTitle: 'Class title',
+    session: 'Session date and time',
+  },
+  values: (v) => ({
+    name: v.customerName || '',
+    bookingRef: v.bookingRef,
+    courseTitle: v.courseTitle,
+    session: sessionLine(v.sessionStart, v.sessionEnd),
+  }),
+  sample: {
+    bookingRef: 'BK-7Q2M',
+    courseTitle: 'Home Barista Fundamentals',
+    customerName: 'Sam Taylor',
+    sessionStart: '2025-03-08T10:00:00Z',
+    sessionEnd: '2025-03-08T12:30:00Z',
+    refundAmount: 90,
+  },
+  build: (v) => {
+    const rows: [string, string | number | null | undefined][] = [
+      ['Reference', v.bookingRef],
+      ['Session', sessionLine(v.sessionStart, v.sessionEnd)],
+      ['Refund', v.refundAmount ? `${formatCurrency(v.refundAmount)} to your card` : null],
+    ];
+    return {
+      heading: `Booking cancelled — ${v.bookingRef}`,
+      greeting: `Hi ${v.customerName || 'there'},`,
+      html: `<div style="${BOX_STYLE}">${detailRows(rows)}</div>`,
+      text: detailText(rows),
+    };
+  },
+});
+
+const classReminder = defineTemplate<ClassReminderVars, 'name' | 'courseTitle' | 'session' | 'when'>({
+  label: 'Class reminder',
+  description: 'Sent to the customer 48 hours and again 2 hours before their class, with the things to note for it.',
+  audience: 'customer',
+  defaults: {
+    subject: '{{companyName}} — Reminder: {{courseTitle}} {{when}}',
+    intro: 'Just a reminder that your class, {{courseTitle}}, is {{when}}: {{session}}.',
+  },
+  placeholders: {
+    name: "Customer's name",
+    courseTitle: 'Class title',
+    session: 'Session date and time',
+    when: '"in 2 days" or "in 2 hours"',
+  },
+  values: (v) => ({
+    name: v.customerName || '',
+    courseTitle: v.courseTitle,
+    session: sessionLine(v.sessionStart, v.sessionEnd),
+    when: v.hoursBefore >= 24 ? `in ${Math.round(v.hoursBefore / 24)} days` : `in ${v.hoursBefore} hours`,
+  }),
+  sample: {
+    bookingRef: 'BK-7Q2M',
+    courseTitle: 'Home Barista Fundamentals',
+    customerName: 'Sam Taylor',
+    attendees: 2,
+    sessionStart: '2025-03-08T10:00:00Z',
+    sessionEnd: '2025-03-08T12:30:00Z',
+    location: '12 Roast Lane, Bristol',
+    hoursBefore: 48,
+    thingsToNote: ['Wear closed-toe shoes', 'Bring a notebook'],
+    manageUrl: 'https://example.com/classes/manage?booking=665f1c2e9b1e8a0012345678&exp=1767225600&sig=sample',
+  },
+  build: (v) => {
+    const rows: [string, string | number | null | undefined][] = [
+      ['Reference', v.bookingRef],
+      ['Session', sessionLine(v.sessionStart, v.sessionEnd)],
+      ['Where', v.location],
+      ['Attendees', `${v.attendees} ${v.attendees === 1 ? 'person' : 'people'}`],
+    ];
+    const notes = (v.thingsToNote ?? []).filter((n) => n && n.trim());
+    return {
+      heading: `See you soon — ${v.courseTitle}`,
+      greeting: `Hi ${v.customerName || 'there'},`,
+      html: `<div style="${BOX_STYLE}">${detailRows(rows)}</div>
+    ${
+      notes.length
+        ? `<div style="${BOX_STYLE}">
+      <div style="font-weight:600;margin-bottom:8px;">Things to note</div>
+      <ul style="margin:0;padding-left:18px;">${notes.map((n) => `<li style="margin-bottom:4px;">${escapeHtml(n)}</li>`).join('')}</ul>
+    </div>`
+        : ''
+    }
+    ${linkParagraph('Cancel or change your booking', v.manageUrl)}`,
+      text: [
+        ...detailText(rows),
+        ...(notes.length ? ['', 'Things to note:', ...notes.map((n) => `- ${n}`)] : []),
+        v.manageUrl ? `Cancel or change your booking: ${v.manageUrl}` : null,
+      ],
+    };
+  },
+});
+
+const adminBooking = defineTemplate<AdminBookingVars, 'bookingRef' | 'courseTitle' | 'name' | 'attendees'>({
+  label: 'New booking (admin)',
+  description: 'Sent to the admin notification address when a class is booked.',
+  audience: 'admin',
+  defaults: {
+    subject: 'New booking {{bookingRef}} — {{courseTitle}}',
+    intro: '{{name}} has booked {{courseTitle}} for {{attendees}}.',
+  },
+  placeholders: {
+    bookingRef: 'Booking reference',
+    courseTitle: 'Class title',
+    name: "Customer's name",
+    attendees: 'Number of attendees',
+  },
+  values: (v) => ({
+    bookingRef: v.bookingRef,
+    courseTitle: v.courseTitle,
+    name: v.name || 'A customer',
+    attendees: String(v.attendees ?? 1),
+  }),
+  sample: {
+    bookingRef: 'BK-7Q2M',
+    courseTitle: 'Home Barista Fundamentals',
+    name: 'Sam Taylor',
+    email: 'sam@example.com',
+    phone: '07700 900123',
+    attendees: 2,
+    sessionStart: '2025-03-08T10:00:00Z',
+    sessionEnd: '2025-03-08T12:30:00Z',
+    receivedAt: '2025-02-20T16:42:00Z',
+  },
+  build: (v) => {
+    const rows: [string, string | number | null | undefined][] = [
+      ['Course', v.courseTitle],
+      ['Session', sessionLine(v.sessionStart, v.sessionEnd)],
+      ['Attendees', v.attendees],
+      ['Name', v.name],
+      ['Email', v.email],
+      ['Phone', v.phone],
+      ['Received', formatDate(v.receivedAt)],
+    ];
+    return {
+      heading: `New booking: ${v.bookingRef}`,
+      html: `<div style="${BOX_STYLE}">${detailRows(rows)}</div>`,
+      text: detailText(rows),
+    };
+  },
+});
+
+const adminBookingChange = defineTemplate<AdminBookingChangeVars, 'bookingRef' | 'courseTitle' | 'name' | 'change'>({
+  label: 'Booking changed (admin)',
+  description: 'Sent to the admin notification address when a customer cancels or moves a class booking.',
+  audience: 'admin',
+  defaults: {
+    subject: 'Booking {{bookingRef}} {{change}} — {{courseTitle}}',
+    intro: '{{name}} has {{change}} their booking for {{courseTitle}}.',
+  },
+  placeholders: {
+    bookingRef: 'Booking reference',
+    courseTitle: 'Class title',
+    name: "Customer's name",
+    change: '"cancelled" or "rescheduled"',
+  },
+  values: (v) => ({
+    bookingRef: v.bookingRef,
+    courseTitle: v.courseTitle,
+    name: v.name || 'A customer',
+    change: v.change,
+  }),
+  sample: {
+    bookingRef: 'BK-7Q2M',
+    courseTitle: 'Home Barista Fundamentals',
+    change: 'rescheduled',
+    name: 'Sam Taylor',
+    email: 'sam@example.com',
+    attendees: 2,
+    fromSessionStart: '2025-03-08T10:00:00Z',
+    fromSessionEnd: '2025-03-08T12:30:00Z',
+    toSessionStart: '2025-03-15T10:00:00Z',
+    toSessionEnd: '2025-03-15T12:30:00Z',
+  },
+  build: (v) => {
+    const rows: [string, string | number | null | undefined][] = [
+      ['Course', v.courseTitle],
+      [v.change === 'rescheduled' ? 'From' : 'Session', sessionLine(v.fromSessionStart, v.fromSessionEnd)],
+      ['To', v.change === 'rescheduled' ? sessionLine(v.toSessionStart, v.toSessionEnd) : null],
+      ['Attendees', v.attendees],
+      ['Name', v.name],
+      ['Email', v.email],
+      ['Refund', v.refundAmount ? formatCurrency(v.refundAmount) : null],
+    ];
+    const warning = v.refundError ? `The refund could not be made (${v.refundError}); please refund it by hand.` : null;
+    return {
+      heading: `Booking ${v.change}: ${v.bookingRef}`,
+      html: `<div style="${BOX_STYLE}">${detailRows(rows)}</div>
+    ${warning ? `<p style="margin:8px 0;color:#b91c1c;">${escapeHtml(warning)}</p>` : ''}`,
+      text: [...detailText(rows), warning],
+    };
+  },
+});
+
+const waitlistOffer = defineTemplate<WaitlistOfferVars, 'name' | 'courseTitle' | 'session' | 'expiresAt'>({
+  label: 'Waitlist place available',
+  description: 'Sent to the next customer on a class waitlist when seats come free, with a link to claim them.',
+  audience: 'customer',
+  defaults: {
+    subject: '{{companyName}} — A place has opened up on {{courseTitle}}',
+    intro: 'Good news — seats have come free on {{courseTitle}} ({{session}}). We are holding them for you until {{expiresAt}}.',
+  },
+  placeholders: {
+    name: "Customer's name",
+    courseTitle: 'Class title',
+    session: 'Session date and time',
+    expiresAt: 'When the offer runs out',
+  },
+  values: (v) => ({
+    name: v.customerName || '',
+    courseTitle: v.courseTitle,
+    session: sessionLine(v.sessionStart, v.sessionEnd),
+    expiresAt: formatDate(v.expiresAt),
+  }),
+  sample: {
+    courseTitle: 'Latte Art Masterclass',
+    customerName: 'Sam Taylor',
+    partySize: 2,
+    sessionStart: '2025-03-08T10:00:00Z',
+    sessionEnd: '2025-03-08T12:30:00Z',
+    amount: 90,
+    claimUrl: 'https://example.com/classes/waitlist/claim?token=sample',
+    expiresAt: '2025-03-02T18:00:00Z',
+  },
+  build: (v) => {
+    const rows: [string, string | number | null | undefined][] = [
+      ['Session', sessionLine(v.sessionStart, v.sessionEnd)],
+      ['Places', `${v.partySize} ${v.partySize === 1 ? 'person' : 'people'}`],
+      ['To pay', v.amount ? formatCurrency(v.amount) : null],
+      ['Offer ends', formatDate(v.expiresAt)],
+    ];
+    return {
+      heading: 'A place has opened up',
+      greeting: `Hi ${v.customerName || 'there'},`,
+      html: `<div style="${BOX_STYLE}">${detailRows(rows)}</div>
+    ${linkParagraph('Claim your place', v.claimUrl)}
+    <p style="margin:8px 0;color:#666;font-size:13px;">If you no longer need it, just ignore this email and the seats will go to the next person in line.</p>`,
+      text: [
+        ...detailText(rows),
+        `Claim your place: ${v.claimUrl}`,
+        'If you no longer need it, just ignore this email and the seats will go to the next person in line.',
+      ],
+    };
+  },
+});
+
+const shipment = defineTemplate<ShipmentVars, 'name' | 'orderNumber' | 'carrier' | 'trackingCode'>({
+  label: 'Order shipped',
+  description: 'Sent to the customer when an order is marked as shipped, with tracking.',
+  audience: 'customer',
+  defaults: {
+    subject: '{{companyName}} — Your order {{orderNumber}} has shipped',
+    intro: 'Your order {{orderNumber}} has been shipped via {{carrier}}.',
+  },
+  placeholders: {
+    name: "Customer's first name",
+    orderNumber: 'Order number, e.g. #1a2b3c4d',
+    carrier: 'Carrier name',
+    trackingCode: 'Tracking number (may be empty)',
+  },
+  values: (v) => ({
+    name: v.customerName || '',
+    orderNumber: v.orderNumber,
+    carrier: v.carrier,
+    trackingCode: v.trackingCode || '',
+  }),
+  sample: {
+    customerName: 'Sam',
+    orderNumber: '#1a2b3c4d',
+    carrier: 'Royal Mail',
+    trackingCode: 'RM123456789GB',
+    trackingUrl: 'https://www.royalmail.com/track-your-item#/tracking-results/RM123456789GB',
+    trackingNote: 'Royal Mail may request your postcode (SW1A1AA) for additional verification.',
+    carrierTips: ['You may be asked for postcode: SW1A1AA'],
+    estimatedDelivery: '2025-03-10',
+    currency: 'GBP',
+    items: [
+      { name: 'Ethiopia Yirgacheffe 250g', qty: 2, unitPrice: 9.5, totalPrice: 19 },
+      { name: 'House Espresso 1kg', qty: 1, unitPrice: 28, totalPrice: 28 },
+    ],
+    subtotal: 47,
+    shipping: 0,
+    total: 47,
+    shippingAddress: { name: 'Sam Taylor', lines: ['10 Downing Street', 'London, SW1A 1AA', 'GB'], phone: '07700 900123' },
+    orderUrl: 'https://example.com/orders/665f1c2e9b1e8a001a2b3c4d',
+    returnUrl: 'https://example.com/returns?order=665f1c2e9b1e8a001a2b3c4d',
+  },
+  build: (v) => {
+    const money = (n: number) => formatCurrency(n, v.currency);
+    const eta = v.estimatedDelivery ? formatDate(v.estimatedDelivery, 'date') : '';
+    const rows = v.items
+      .map(
+        (it) => `
+        <tr>
+          <td style="padding:8px;border-bottom:1px solid #ddd;">${escapeHtml(it.name || 'Item')}</td>
+          <td style="padding:8px;border-bottom:1px solid #ddd;text-align:center;">${it.qty}</td>
+          <td style="padding:8px;border-bottom:1px solid #ddd;text-align:right;">${money(it.unitPrice ?? 0)}</td>
+          <td style="padding:8px;border-bottom:1px solid #ddd;text-align:right;">${money(it.totalPrice)}</td>
+        </tr>`
+      )
+      .join('');
+
+    const html = `<p style="margin:0 0 16px;line-height:1.6;">
+      ${v.trackingCode ? `Tracking number: <strong>${escapeHtml(v.trackingCode)}</strong>.` : 'There is currently no tracking number for this shipment.'}
+    </p>
+
+    ${
+      v.trackingUrl
+        ? `<div style="margin:20px 0;">
+      <a href="${escapeHtml(v.trackingUrl)}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;text-decoration:none;border-radius:4px;font-weight:600;">Track your parcel</a>
+    </div>`
+        : ''
+    }
+
+    ${
+      v.carrierTips.length
+        ? `<div style="background:#f5f5f5;padding:12px;border-radius:4px;margin:12px 0;">
+      <strong>${escapeHtml(v.carrier)} tracking:</strong>
+      ${v.carrierTips.map((tip) => `<p style="margin:8px 0 0;font-size:13px;">${escapeHtml(tip)}</p>`).join('')}
+    </div>`
+        : ''
+    }
+
+    <table style="width:100%;border-collapse:collapse;margin:24px 0;border:1px solid #ddd;">
+      <thead>
+        <tr style="background:#f5f5f5;">
+          <th style="padding:12px 8px;text-align:left;border-bottom:2px solid #000;">Item</th>
+          <th style="padding:12px 8px;text-align:center;border-bottom:2px solid #000;">Qty</th>
+          <th style="padding:12px 8px;text-align:right;border-bottom:2px solid #000;">Unit</th>
+          <th style="padding:12px 8px;text-align:right;border-bottom:2px solid #000;">Line total</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${rows || `<tr><td colspan="4" style="padding:12px;text-align:center;color:#666;">No items available</td></tr>`}
+        <tr>
+          <td colspan="3" style="padding:8px;text-align:right;font-weight:600;border-top:2px solid #000;">Subtotal</td>
+          <td style="padding:8px;text-align:right;font-weight:600;border-top:2px solid #000;">${money(v.subtotal)}</td>
+        </tr>
+        <tr>
+          <td colspan="3" style="padding:8px;text-align:right;">Shipping</td>
+          <td style="padding:8px;text-align:right;">${money(v.shipping)}</td>
+        </tr>
+        <tr>
+          <td colspan="3" style="padding:8px;text-align:right;font-weight:700;font-size:16px;border-top:2px solid #000;">Total</td>
+          <td style="padding:8px;text-align:right;font-weight:700;font-size:16px;border-top:2px solid #000;">${money(v.total)}</td>
+        </tr>
+      </tbody>
+    </table>
+
+    ${
+      v.shippingAddress
+        ? `<div style="background:#f9f9f9;padding:16px;border-radius:4px;margin:24px 0;">
+      <h3 style="margin:0 0 12px;font-size:16px;font-weight:600;">Shipping to</h3>
+      ${addressHtml(v.shippingAddress)}
+    </div>`
+        : ''
+    }
+
+    <div style="border:1px solid #ddd;padding:16px;border-radius:4px;margin:24px 0;">
+      <h3 style="margin:0 0 12px;font-size:16px;font-weight:600;">Shipment details</h3>
+      ${detailRows([
+        ['Carrier', v.carrier],
+        ['Tracking', v.trackingCode],
+        ['Est. delivery', eta],
+      ])}
+      ${v.trackingNote ? `<div style="margin:12px 0 0;padding:8px;background:#f5f5f5;border-radius:4px;font-size:13px;">${escapeHtml(v.trackingNote)}</div>` : ''}
+    </div>
+
+    ${v.returnUrl ? `<p style="margin:8px 0;">Need to send something back? <a href="${escapeHtml(v.returnUrl)}" style="${LINK_STYLE}">Start a return</a></p>` : ''}
+    ${linkParagraph('View your order', v.orderUrl)}`;
+
+    return {
+      heading: `Shipment update — ${v.orderNumber}`,
+      greeting: v.customerName ? `Hi ${v.customerName},` : 'Hello,',
+      html,
+      text: [
+        v.trackingCode ? `Tracking number: ${v.trackingCode}` : 'No tracking number available yet.',
+        v.trackingUrl ? `Track here: ${v.trackingUrl}` : null,
+        ...v.carrierTips,
+        '',
+        'Items:',
+        ...(v.items.length
+          ? v.items.map((it) => `- ${it.name || 'Item'} x${it.qty} | ${money(it.unitPrice ?? 0)} | ${money(it.totalPrice)}`)
+          : ['- (no items listed)']),
+        '',
+        `Subtotal: ${money(v.subtotal)}`,
+        `Shipping: ${money(v.shipping)}`,
+        `Total: ${money(v.total)}`,
+        '',
+        ...(v.shippingAddress ? ['Shipping to:', ...addressText(v.shippingAddress), ''] : []),
+        eta ? `Estimated delivery: ${eta}` : null,
+        v.trackingNote,
+        v.orderUrl ? `View order: ${v.orderUrl}` : null,
+        v.returnUrl ? `Start a return: ${v.returnUrl}` : null,
+      ],
+    };
+  },
+});
+
+const refund = defineTemplate<RefundVars, 'name' | 'orderNumber' | 'amount'>({
+  label: 'Refund issued',
+  description: 'Sent to the customer when all or part of an order is refunded.',
+  audience: 'customer',
+  defaults: {
+    subject: '{{companyName}} — Refund issued for order {{orderNumber}}',
+    intro:
+      'We have processed a refund of {{amount}} for your order {{orderNumber}}. The refunded amount has been returned to the original payment method used at checkout.',
+  },
+  placeholders: {
+    name: "Customer's first name",
+    orderNumber: 'Order number, e.g. #1a2b3c4d',
+    amount: 'Amount refunded, formatted',
+  },
+  values: (v) => ({
+    name: v.customerName || '',
+    orderNumber: v.orderNumber,
+    amount: formatCurrency(v.amount, v.currency),
+  }),
+  sample: {
+    customerName: 'Sam',
+    orderNumber: '#1a2b3c4d',
+    amount: 19,
+    currency: 'GBP',
+    refundId: 'rf_01HQ8Z3K',
+    providerRefundId: 're_3OqG2a2eZvKYlo2C1',
+    reason: 'Damaged in transit',
+    refundedAt: '2025-03-12T14:05:00Z',
+    orderUrl: 'https://example.com/orders/665f1c2e9b1e8a001a2b3c4d',
+  },
+  build: (v) => {
+    const rows: [string, string | null | undefined][] = [
+      ['Amount refunded', formatCurrency(v.amount, v.currency)],
+      ['Refund ID', v.refundId],
+      ['Provider reference', v.providerRefundId],
+      ['Reason', v.reason],
+    ];
+    const processedOn = new Date(v.refundedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+    return {
+      heading: `Refund issued — ${v.orderNumber}`,
+      greeting: v.customerName ? `Dear ${v.customerName},` : 'Hello,',
+      html: `<div style="${BOX_STYLE}">
+      ${detailRows(rows)}
+      <div style="margin-top:8px;color:#666;font-size:13px;">Refund processed on ${escapeHtml(processedOn)}.</div>
+    </div>
+
+    <p style="margin:0 0 16px;line-height:1.6;">
+      Please note that it may take between 3–10 business days for the refunded amount to appear on your statement, depending on your bank or card issuer. If you do not see the refund after 10 business days, please contact your bank first and then reach out to us if they cannot locate the transaction.
+    </p>
+
+    ${linkParagraph('View your order', v.orderUrl)}`,
+      text: [
+        ...detailText(rows),
+        `Refund processed on: ${processedOn}.`,
+        '',
+        'Please allow 3–10 business days for the refund to appear on your statement. If you do not see the refund after 10 business days, please contact your bank and then contact us if they are unable to help.',
+        v.orderUrl ? `View your order: ${v.orderUrl}` : null,
+      ],
+    };
+  },
+});
+
+const orderInvoice = defineTemplate<OrderInvoiceVars, 'name' | 'invoiceNumber' | 'total'>({
+  label: 'Order invoice',
+  description: 'Sent with the PDF invoice once an online order is paid.',
+  audience: 'customer',
+  defaults: {
+    subject: 'Invoice #{{invoiceNumber}} - Thank you for your order!',
+    intro: 'Thank you for your order! Your payment has been successfully processed. Please find your invoice attached.',
+  },
+  placeholders: {
+    name: "Customer's name",
+    invoiceNumber: 'Invoice number',
+    total: 'Invoice total, formatted',
+  },
+  values: (v) => ({
+    name: v.customerName,
+    invoiceNumber: v.invoiceNumber,
+    total: formatCurrency(v.total, v.currency),
+  }),
+  sample: {
+    customerName: 'Sam Taylor',
+    invoiceNumber: 'INV-2025-0142',
+    orderId: '665f1c2e9b1e8a001a2b3c4d',
+    date: '2025-03-05T09:12:00Z',
+    currency: 'GBP',
+    discount: 4.7,
+    discountCode: 'WELCOME10',
+    total: 42.3,
+    vat: 0,
+    giftCardAmount: 0,
+    giftCardCode: null,
+    items: [
+      { name: 'Ethiopia Yirgacheffe 250g', roastType: 'light', qty: 2, totalPrice: 19 },
+      { name: 'House Espresso 1kg', roastType: 'dark', qty: 1, totalPrice: 28 },
+    ],
+    shippingAddress: { name: 'Sam Taylor', lines: ['10 Downing Street', 'London, SW1A 1AA', 'GB'] },
+  },
+  build: (v) => {
+    const money = (n: number) => formatCurrency(n, v.currency);
+    const rows: [string, string | null | undefined][] = [
+      ['Invoice number', v.invoiceNumber],
+      ['Order ID', v.orderId],
+      ['Date', v.date ? formatDate(v.date, 'date') : 'N/A'],
+      [`Discount${v.discountCode ? ` (${v.discountCode})` : ''}`, v.discount && v.discount > 0 ? `-${money(v.discount)}` : null],
+      ['Total amount', `${money(v.total)}${typeof v.vat === 'number' ? ` (includes ${money(v.vat)} VAT)` : ''}`],
+      [
+        `Paid with gift card${v.giftCardCode ? ` (${v.giftCardCode})` : ''}`,
+        v.giftCardAmount && v.giftCardAmount > 0 ? money(v.giftCardAmount) : null,
+      ],
+    ];
+    const itemLine = (it: OrderInvoiceVars['items'][number]) =>
+      `${it.name}${it.roastType ? ` (${it.roastType} roast)` : ''} - Qty: ${it.qty} - ${money(it.totalPrice)}`;
+    return {
+      heading: `Invoice #${v.invoiceNumber}`,
+      greeting: `Dear ${v.customerName},`,
+      html: `<div style="${BOX_STYLE}">${detailRows(rows)}</div>
+
+    <h3 style="margin:24px 0 8px;font-size:16px;font-weight:600;">Items ordered</h3>
+    <ul style="margin:0 0 16px;padding-left:20px;">${v.items.map((it) => `<li>${escapeHtml(itemLine(it))}</li>`).join('')}</ul>
+
+    ${
+      v.shippingAddress
+        ? `<div style="background:#f9f9f9;padding:16px;border-radius:4px;margin:24px 0;">
+      <h3 style="margin:0 0 12px;font-size:16px;font-weight:600;">Shipping address</h3>
+      ${addressHtml(v.shippingAddress)}
+    </div>`
+        : ''
+    }`,
+      text: [
+        ...detailText(rows),
+        '',
+        'Items ordered:',
+        ...v.items.map((it) => `- ${itemLine(it)}`),
+        '',
+        ...(v.shippingAddress ? ['Shipping address:', ...addressText(v.shippingAddress)] : []),
+      ],
+    };
+  },
+});
+
+const manualInvoice = defineTemplate<ManualInvoiceVars, 'name' | 'invoiceNumber' | 'total' | 'dueDate'>({
+  label: 'Invoice (manual)',
+  description: 'Sent with the PDF when an invoice created in the admin is emailed to the client.',
+  audience: 'customer',
+  defaults: {
+    subject: 'Invoice #{{invoiceNumber}} - {{name}}',
+    intro: 'Your invoice is ready and attached to this email.',
+  },
+  placeholders: {
+    name: "Client's name",
+    invoiceNumber: 'Invoice number',
+    total: 'Invoice total, formatted',
+    dueDate: 'Due date (may be empty)',
+  },
+  values: (v) => ({
+    name: v.customerName,
+    invoiceNumber: v.invoiceNumber,
+    total: formatCurrency(v.total, v.currency),
+    dueDate: v.dueDate ? formatDate(v.dueDate, 'date') : '',
+  }),
+  sample: {
+    customerName: 'Bean There Café Ltd',
+    invoiceNumber: 'INV-2025-0143',
+    date: '5 Mar 2025',
+    dueDate: '2025-04-04',
+    currency: 'GBP',
+    total: 384,
+    vat: 64,
+    notes: 'Monthly wholesale order — March',
+  },
+  build: (v) => {
+    const money = (n: number) => formatCurrency(n, v.currency);
+    const rows: [string, string | null | undefined][] = [
+      ['Invoice number', v.invoiceNumber],
+      ['Date', v.date],
+      ['Due date', v.dueDate ? formatDate(v.dueDate, 'date') : null],
+      ['Total amount', `${money(v.total)}${typeof v.vat === 'number' ? ` (includes ${money(v.vat)} VAT)` : ''}`],
+    ];
+    return {
+      heading: `Invoice #${v.invoiceNumber}`,
+      greeting: `Dear ${v.customerName},`,
+      html: `<div style="${BOX_STYLE}">${detailRows(rows)}</div>
+    ${v.notes ? `<p style="margin:20px 0 0;"><em>${escapeHtml(v.notes)}</em></p>` : ''}`,
+      text: [...detailText(rows), v.notes ? `\n${v.notes}` : null],
+    };
+  },
+});
+
+function dueStatus(daysPastDue: number): string {
+  if (daysPastDue < 0) return `is due in ${-daysPastDue} day${daysPastDue === -1 ? '' : 's'}`;
+  if (daysPastDue === 0) return 'is due today';
+  return `is ${daysPastDue} day${daysPastDue === 1 ? '' : 's'} overdue`;
+}
+
+const invoiceReminder = defineTemplate<InvoiceReminderVars, 'name' | 'invoiceNumber' | 'status' | 'balance' | 'dueDate'>({
+  label: 'Invoice reminder',
+  description: 'Sent with the PDF on the reminder schedule (and when staff send one by hand) while a manual invoice is unpaid.',
+  audience: 'customer',
+  defaults: {
+    subject: 'Reminder: invoice #{{invoiceNumber}} {{status}}',
+    intro:
+      'This is a friendly reminder that invoice #{{invoiceNumber}} {{status}}. The balance outstanding is {{balance}}; a copy of the invoice is attached.\n\nIf you have already paid, thank you — please ignore this email.',
+  },
+  placeholders: {
+    name: "Client's name",
+    invoiceNumber: 'Invoice number',
+    status: '"is due in 3 days", "is due today" or "is 7 days overdue"',
+    balance: 'Amount still owed, formatted',
+    dueDate: 'Due date',
+  },
+  values: (v) => ({
+    name: v.customerName,
+    invoiceNumber: v.invoiceNumber,
+    status: dueStatus(v.daysPastDue),
+    balance: formatCurrency(v.balance, v.currency),
+    dueDate: formatDate(v.dueDate, 'date'),
+  }),
+  sample: {
+    customerName: 'Bean There Café Ltd',
+    invoiceNumber: 'INV-2025-0143',
+    date: '2025-03-05',
+    dueDate: '2025-04-04',
+    daysPastDue: 7,
+    currency: 'GBP',
+    total: 384,
+    amountPaid: 100,
+    balance: 284,
+  },
+  build: (v) => {
+    const money = (n: number) => formatCurrency(n, v.currency);
+    const rows: [string, string | null | undefined][] = [
+      ['Invoice number', v.invoiceNumber],
+      ['Invoice date', v.date ? formatDate(v.date, 'date') : null],
+      ['Due date', formatDate(v.dueDate, 'date')],
+      ['Invoice total', money(v.total)],
+      ['Paid so far', v.amountPaid > 0 ? money(v.amountPaid) : null],
+      ['Balance due', money(v.balance)],
+    ];
+    return {
+      heading: v.daysPastDue > 0 ? `Invoice #${v.invoiceNumber} is overdue` : `Invoice #${v.invoiceNumber} reminder`,
+      greeting: `Dear ${v.customerName},`,
+      html: `<div style="${BOX_STYLE}">${detailRows(rows)}</div>`,
+      text: detailText(rows),
+    };
+  },
+});
+
+const REFUND_METHOD_LABELS: Record<'card' | 'store_credit', string> = {
+  card: 'Refunded to your original payment method',
+  store_credit: 'Issued as store credit (the code is in a separate email)',
+};
+
+const creditNote = defineTemplate<CreditNoteVars, 'name' | 'creditNoteNumber' | 'invoiceNumber' | 'amount'>({
+  label: 'Credit note',
+  description: 'Sent with the credit note PDF when an invoice is credited, including after every refund on a shop order.',
+  audience: 'customer',
+  defaults: {
+    subject: 'Credit note {{creditNoteNumber}} for invoice #{{invoiceNumber}}',
+    intro:
+      'Please find attached credit note {{creditNoteNumber}} for {{amount}} against invoice #{{invoiceNumber}}. Please keep it with the original invoice for your records.',
+  },
+  placeholders: {
+    name: "Customer's name",
+    creditNoteNumber: 'Credit note number, e.g. CN-2025-0007',
+    invoiceNumber: 'Number of the invoice being credited',
+    amount: 'Amount credited, formatted',
+  },
+  values: (v) => ({
+    name: v.customerName || '',
+    creditNoteNumber: v.creditNoteNumber,
+    invoiceNumber: v.invoiceNumber,
+    amount: formatCurrency(v.total, v.currency),
+  }),
+  sample: {
+    customerName: 'Sam Carter',
+    creditNoteNumber: 'CN-2025-0007',
+    invoiceNumber: 'INV-2025-20250312-4821',
+    date: '2025-03-14',
+    currency: 'GBP',
+    total: 24.5,
+    vat: 0,
+    reason: 'Damaged in transit',
+    refundMethod: 'card',
+    lines: [{ name: 'Ethiopia Yirgacheffe 250g', qty: 2, totalPrice: 24.5 }],
+  },
+  build: (v) => {
+    const money = (n: number) => formatCurrency(n, v.currency);
+    const rows: [string, string | null | undefined][] = [
+      ['Credit note', v.creditNoteNumber],
+      ['Original invoice', `#${v.invoiceNumber}`],
+      ['Date', formatDate(v.date, 'date')],
+      ['Reason', v.reason],
+      ['Amount credited', money(v.total)],
+      ['Includes VAT', v.vat ? money(v.vat) : null],
+      ['Refund', v.refundMethod ? REFUND_METHOD_LABELS[v.refundMethod] : null],
+    ];
+    const lineText = v.lines.map((l) => `${l.name} × ${l.qty}: ${money(l.totalPrice)}`);
+    return {
+      heading: `Credit note ${v.creditNoteNumber}`,
+      greeting: v.customerName ? `Dear ${v.customerName},` : 'Hello,',
+      html: `<div style="${BOX_STYLE}">
+      ${detailRows(rows)}
+      ${v.lines.length ? `<ul style="margin:8px 0 0;padding-left:18px;">${lineText.map((l) => `<li>${escapeHtml(l)}</li>`).join('')}</ul>` : ''}
+    </div>`,
+      text: [...detailText(rows), ...(lineText.length ? ['', ...lineText] : [])],
+    };
+  },
+});
+
+const adminOverdueInvoices = defineTemplate<AdminOverdueInvoicesVars, 'count'>({
+  label: 'Overdue invoices (admin)',
+  description: 'Sent to the admin notification address when manual invoices pass their due date unpaid.',
+  audience: 'admin',
+  defaults: {
+    subject: '{{count}} invoice(s) now overdue',
+    intro: 'These invoices have passed their due date and are not marked as paid.',
+  },
+  placeholders: {
+    count: 'Number of invoices that became overdue',
+  },
+  values: (v) => ({ count: String(v.invoices.length) }),
+  sample: {
+    invoices: [
+      { invoiceNumber: 'INV-2025-0143', clientName: 'Bean There Café Ltd', total: 384, currency: 'GBP', dueDate: '2025-04-04' },
+      { invoiceNumber: 'INV-2025-0150', clientName: 'The Daily Grind', total: 126.5, currency: 'GBP', dueDate: '2025-04-06' },
+    ],
+    dashboardUrl: 'https://example.com/admin/invoice',
+  },
+  build: (v) => {
+    const line = (i: AdminOverdueInvoicesVars['invoices'][number]) =>
+      `${i.invoiceNumber} — ${i.clientName || 'Unknown client'} — ${formatCurrency(i.total, i.currency)}, due ${formatDate(i.dueDate, 'date')}`;
+    return {
+      heading: 'Overdue invoices',
+      html: `<div style="${BOX_STYLE}">${v.invoices
+        .map((i) => `<div style="margin-bottom:6px;">${escapeHtml(line(i))}</div>`)
+        .join('')}</div>
+    ${linkParagraph('Open invoices in admin', v.dashboardUrl)}`,
+      text: [...v.invoices.map(line), v.dashboardUrl ? `\nOpen invoices in admin: ${v.dashboardUrl}` : null],
+    };
+  },
+});
+
+const adminEnquiry = defineTemplate<AdminEnquiryVars, 'business' | 'contact' | 'interest'>({
+  label: 'Wholesale enquiry (admin)',
+  description: 'Sent to the admin notification address when the wholesale form is submitted.',
+  audience: 'admin',
+  defaults: {
+    subject: 'Wholesale enquiry: {{business}} — {{contact}}',
+    intro: 'A new wholesale enquiry has come in through the website.',
+  },
+  placeholders: {
+    business: 'Business name',
+    contact: 'Contact name',
+    interest: 'What they are interested in (may be empty)',
+  },
+  values: (v) => ({ business: v.business, contact: v.contact, interest: v.interest || '' }),
+  sample: {
+    enquiryId: '665f1c2e9b1e8a0012349999',
+    business: 'Bean There Café',
+    contact: 'Alex Morgan',
+    contactPref: 'email',
+    email: 'alex@beanthere.example',
+    phone: '020 7946 0000',
+    interest: 'House espresso, 10kg a week',
+    message: 'We are opening a second site in April and would like to talk about a regular order.',
+    dashboardUrl: 'https://example.com/admin/wholesale/665f1c2e9b1e8a0012349999',
+  },
+  build: (v) => {
+    const rows: [string, string | null | undefined][] = [
+      ['Business', v.business],
+      ['Contact', v.contact],
+      ['Contact preference', v.contactPref],
+      ['Email', v.email || '—'],
+      ['Phone', v.phone || '—'],
+      ['Interest', v.interest || '—'],
+    ];
+    return {
+      heading: 'New wholesale enquiry',
+      html: `<div style="${BOX_STYLE}">
+      ${detailRows(rows)}
+      <div style="margin-top:12px;"><strong>Message:</strong><br>${v.message ? escapeHtml(v.message).replace(/\n/g, '<br>') : '—'}</div>
+    </div>
+    ${linkParagraph('Open in admin', v.dashboardUrl)}`,
+      text: [
+        ...detailText(rows),
+        '',
+        'Message:',
+        v.message || '—',
+        v.dashboardUrl ? `\nOpen in admin: ${v.dashboardUrl}` : null,
+      ],
+    };
+  },
+});
+
+const enquiryConfirmation = defineTemplate<EnquiryConfirmationVars, 'name' | 'business' | 'enquiryId'>({
+  label: 'Wholesale enquiry received',
+  description: 'Sent to the customer to acknowledge a wholesale enquiry.',
+  audience: 'customer',
+  defaults: {
+    subject: 'Thanks — we received your enquiry ({{enquiryId}})',
+    intro: 'Thanks — we received your enquiry for {{business}}. Our team will contact you shortly.',
+  },
+  placeholders: {
+    name: 'Contact name',
+    business: 'Business name',
+    enquiryId: 'Enquiry reference',
+  },
+  values: (v) => ({ name: v.contact, business: v.business, enquiryId: v.enquiryId }),
+  sample: {
+    enquiryId: '665f1c2e9b1e8a0012349999',
+    business: 'Bean There Café',
+    contact: 'Alex Morgan',
+    interest: 'House espresso, 10kg a week',
+  },
+  build: (v) => ({
+    heading: 'Thanks for your enquiry',
+    greeting: `Hi ${v.contact || 'there'},`,
+    html: `<div style="${BOX_STYLE}">${detailRows([
+      ['Reference', v.enquiryId],
+      ['Interested in', v.interest],
+    ])}</div>`,
+    text: detailText([
+      ['Reference', v.enquiryId],
+      ['Interested in', v.interest],
+    ]),
+  }),
+});
+
+/* ---------------------- Registry & rendering ------------------------- */
+
+export type EmailTemplateVars = {
+  booking_confirmation: BookingConfirmationVars;
+  booking_cancelled: BookingCancelledVars;
+  class_reminder: ClassReminderVars;
+  admin_booking: AdminBookingVars;
+  admin_booking_change: AdminBookingChangeVars;
+  waitlist_offer: WaitlistOfferVars;
+  shipment: ShipmentVars;
+  refund: RefundVars;
+  invoice: OrderInvoiceVars;
+  manual_invoice: ManualInvoiceVars;
+  invoice_reminder: InvoiceReminderVars;
+  credit_note: CreditNoteVars;
+  admin_overdue_invoices: AdminOverdueInvoicesVars;
+  admin_enquiry: AdminEnquiryVars;
+  enquiry_confirmation: EnquiryConfirmationVars;
+};
+
+export type EmailTemplateName = keyof EmailTemplateVars;
+
+const EMAIL_TEMPLATES: { [N in EmailTemplateName]: EmailTemplateDefinition<EmailTemplateVars[N], string> } = {
+  booking_confirmation: bookingConfirmation,
+  booking_cancelled: bookingCancelled,
+  class_reminder: classReminder,
+  admin_booking: adminBooking,
+  admin_booking_change: adminBookingChange,
+  waitlist_offer: waitlistOffer,
+  shipment,
+  refund,
+  invoice: orderInvoice,
+  manual_invoice: manualInvoice,
+  invoice_reminder: invoiceReminder,
+  credit_note: creditNote,
+  admin_overdue_invoices: adminOverdueInvoices,
+  admin_enquiry: adminEnquiry,
+  enquiry_confirmation: enquiryConfirmation,
+};
+
+// Offered by every template
+const BRAND_PLACEHOLDERS: Record<string, string> = {
+  companyName: 'Store name',
+  supportEmail: 'Support email address',
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type RenderedEmail = { subject: string; html: string; text: string };
+
+export type EmailTemplateSummary = {
+  name: EmailTemplateName;
+  label: string;
+  description: string;
+  audience: EmailAudience;
+  defaults: TemplateCopy;
+  placeholders: Record<string, string>;
+};
+
+export function isEmailTemplateName(value: string): value is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, value);
+}
+
+function definition<N extends EmailTemplateName>(name: N) {
+  return EMAIL_TEMPLATES[name] as EmailTemplateDefinition<EmailTemplateVars[N], string>;
+}
+
+export function listEmailTemplates(): EmailTemplateSummary[] {
+  return (Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[]).map((name) => {
+    const def = definition(name);
+    return {
+      name,
+      label: def.label,
+      description: def.description,
+      audience: def.audience,
+      defaults: def.defaults,
+      placeholders: { ...BRAND_PLACEHOLDERS, ...def.placeholders },
+    };
+  });
+}
+
+/** Returns an error message if the copy can't be saved for this template, otherwise null */
+export function validateTemplateCopy(name: EmailTemplateName, copy: TemplateCopy): string | null {
+  if (!copy.subject.trim()) return 'Subject is required';
+  if (copy.subject.length > 200) return 'Subject must be 200 characters or fewer';
+  if (copy.intro.length > 2000) return 'Intro must be 2000 characters or fewer';
+  const allowed = { ...BRAND_PLACEHOLDERS, ...definition(name).placeholders };
+  const unknown = new Set<string>();
+  for (const text of [copy.subject, copy.intro]) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!(match[1] in allowed)) unknown.add(match[1]);
+    }
+  }
+  if (unknown.size) {
+    return `Unknown placeholder${unknown.size > 1 ? 's' : ''}: ${[...unknown].map((p) => `{{${p}}}`).join(', ')}`;
+  }
+  return null;
+}
+
+function fill(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, key: string) => (key in values ? values[key] : match));
+}
+
+/** Renders a template with the given copy; no database access */
+export function renderWithCopy<N extends EmailTemplateName>(name: N, vars: EmailTemplateVars[N], copy: TemplateCopy): RenderedEmail {
+  const def = definition(name);
+  const brand = emailBrand();
+  const values = { companyName: brand.companyName, supportEmail: brand.supportEmail, ...def.values(vars) };
+  // Collapse spaces left by empty values, e.g. "Hi {{name}}," with no name
+  const subject = fill(copy.subject, values).replace(/\s{2,}/g, ' ').trim();
+  const intro = fill(copy.intro, values);
+  const { html, text } = renderLayout(def.build(vars, brand), intro, subject, def.audience, brand);
+  return { subject, html, text };
+}
+
+/** The copy a template is currently sent with: the saved edit, or the built-in default */
+export async function getTemplateCopy(name: EmailTemplateName): Promise<TemplateCopy & { customised: boolean }> {
+  const defaults = definition(name).defaults;
+  try {
+    await dbConnect();
+    const saved = await EmailTemplate.findOne({ name }).lean().exec();
+    if (saved) return { subject: saved.subject, intro: saved.intro ?? '', customised: true };
+  } catch (err) {
+    // A template edit isn't worth failing an email over
+    console.warn(`[EmailTemplates] Couldn't load copy for ${name}, using defaults:`, err instanceof Error ? err.message : err);
+  }
+  return { ...defaults, customised: false };
+}
+
+export async function renderEmailTemplate<N extends EmailTemplateName>(name: N, vars: EmailTemplateVars[N]): Promise<RenderedEmail> {
+  const copy = await getTemplateCopy(name);
+  return renderWithCopy(name, vars, copy);
+}
+
+/** Renders a template with its sample data, e.g. for the admin preview */
+export function renderSample(name: EmailTemplateName, copy: TemplateCopy): RenderedEmail {
+  return renderWithCopy(name, definition(name).sample, copy);
+}
+
+export type TemplateCopyResult =
+  | { ok: true; copy: TemplateCopy & { customised: boolean } }
+  | { ok: false; status: number; error: string };
+
+/** Stores staff copy for a template; it's used from the next email on */
+export async function saveTemplateCopy(name: EmailTemplateName, copy: TemplateCopy, by: string): Promise<TemplateCopyResult> {
+  const cleaned = { subject: copy.subject.replace(/\s+/g, ' ').trim(), intro: copy.intro.replace(/\r\n/g, '\n').trim() };
+  const problem = validateTemplateCopy(name, cleaned);
+  if (problem) return { ok: false, status: 400, error: problem };
+
+  await dbConnect();
+  await EmailTemplate.findOneAndUpdate(
+    { name },
+    { $set: { subject: cleaned.subject, intro: cleaned.intro, updatedBy: by } },
+    { upsert: true, setDefaultsOnInsert: true }
+  ).exec();
+  return { ok: true, copy: { ...cleaned, customised: true } };
+}
+
+/** Drops staff copy so the template goes back to its built-in subject and intro */
+export async function resetTemplateCopy(name: EmailTemplateName): Promise<TemplateCopy & { customised: boolean }> {
+  await dbConnect();
+  await EmailTemplate.deleteOne({ name }).exec();
+  return { ...definition(name).defaults, customised: false };
+}
@@ -0,0 +1,130 @@
+/**
+ * lib/emailTransport.ts
+ *
+ * How outbox messages leave the building. Chosen with EMAIL_TRANSPORT:
+ * - brevo (default): Brevo's transactional API. BREVO_API_URL points it somewhere else,
+ *   e.g. a local stand-in that speaks the same /smtp/email endpoint.
+ * - log: prints the message and reports it delivered. For local development.
+ *
+ * Tests and scripts can install their own transport with setEmailTransport().
+ */
+
+export type EmailAddress = { email: string; name?: string | null };
+
+export type EmailAttachment = {
+  name: string;
+  content: string; // base64
+};
+
+export type EmailMessage = {
+  from: EmailAddress;
+  to: EmailAddress[];
+  replyTo?: EmailAddress | null;
+  subject: string;
+  html: string;
+  text?: string | null;
+  attachments?: EmailAttachment[];
+  headers?: Record<string, string> | null;
+};
+
+export type EmailSendResult = { providerMessageId?: string | null };
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/** A failed send. `retryable` is false when sending again can't help (a rejected address, bad config) */
+export class EmailTransportError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'EmailTransportError';
+    this.retryable = retryable;
+  }
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(value?: string | null): value is string {
+  return !!value && EMAIL_REGEX.test(value.trim());
+}
+
+/** The From address every store email uses */
+export function defaultSender(): EmailAddress | null {
+  const email = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || '').trim();
+  if (!isValidEmail(email)) return null;
+  return { email, name: process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || 'Store' };
+}
+
+const brevoTransport: EmailTransport = {
+  name: 'brevo',
+  async send(message) {
+    const apiKey = process.env.BREVO_API_KEY;
+    if (!apiKey) throw new EmailTransportError('Missing BREVO_API_KEY environment variable', false);
+    const baseUrl = (process.env.BREVO_API_URL || 'https://api.brevo.com/v3').replace(/\/$/, '');
+
+    const body: Record<string, unknown> = {
+      sender: { email: message.from.email, name: message.from.name || undefined },
+      to: message.to.map((t) => ({ email: t.email, name: t.name || undefined })),
+      subject: message.subject,
+      htmlContent: message.html,
+    };
+    if (message.text) body.textContent = message.text;
+    if (message.replyTo) body.replyTo = { email: message.replyTo.email, name: message.replyTo.name || undefined };
+    if (message.attachments?.length) body.attachment = message.attachments;
+    if (message.headers && Object.keys(message.headers).length) body.headers = message.headers;
+
+    let res: Response;
+    try {
+      res = await fetch(`${baseUrl}/smtp/email`, {
+        method: 'POST',
+        headers: {
+          'api-key': apiKey,
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (err) {
+      throw new EmailTransportError(
+        `Network error while calling Brevo API: ${err instanceof Error ? err.message : String(err)}`,
+        true
+      );
+    }
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      // 429 and 5xx are Brevo's problem and worth another go; other 4xx mean the request itself is wrong
+      const retryable = res.status === 429 || res.status >= 500;
+      throw new EmailTransportError(`Brevo API error ${res.status}: ${text || res.statusText}`, retryable);
+    }
+
+    const info = (await res.json().catch(() => ({}))) as { messageId?: string };
+    return { providerMessageId: info.messageId ?? null };
+  },
+};
+
+const logTransport: EmailTransport = {
+  name: 'log',
+  async send(message) {
+    console.log(
+      `[EmailTransport:log] "${message.subject}" to ${message.to.map((t) => t.email).join(', ')}` +
+        (message.attachments?.length ? ` (${message.attachments.length} attachment(s))` : '')
+    );
+    return { providerMessageId: null };
+  },
+};
+
+let override: EmailTransport | null = null;
+
+/** Replaces the configured transport (pass null to go back to EMAIL_TRANSPORT) */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  override = transport;
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (override) return override;
+  return (process.env.EMAIL_TRANSPORT || '').toLowerCase() === 'log' ? logTransport : brevoTransport;
+}
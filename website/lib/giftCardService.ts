@@ -0,0 +1,309 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import GiftCard, { IGiftCard, GiftCardKind } from '@/models/GiftCard';
+import GiftCardTransaction, { GiftCardTransactionType } from '@/models/GiftCardTransaction';
+import { notifyGiftCardToRecipient } from '@/lib/notifyGiftCard';
+import {
+  GIFT_CARD_VALIDITY_MONTHS,
+  normalizeGiftCardCode,
+  parseGiftCardRecipient,
+  type GiftCardRecipient,
+} from '@/lib/giftCards';
+
+/*
+ * Gift card balances and their ledger. Every balance change goes through one of the
+ * functions here so the GiftCardTransaction log always adds up to the card balance.
+ */
+
+// No 0/O or 1/I so codes survive being read out over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MAX_CODE_ATTEMPTS = 5;
+
+export type OrderGiftCardLine = {
+  name: string;
+  qty: number;
+  unitPrice: number; // GBP
+  source?: string;
+};
+
+export function generateGiftCardCode(): string {
+  const bytes = crypto.randomBytes(12);
+  const chars = Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `GC-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+export function giftCardExpiryFrom(date = new Date()): Date {
+  const d = new Date(date);
+  d.setMonth(d.getMonth() + GIFT_CARD_VALIDITY_MONTHS);
+  return d;
+}
+
+function isDuplicateKey(err: unknown) {
+  return (err as { code?: number })?.code === 11000;
+}
+
+/** What a customer may see about a card they hold the code for */
+export function toPublicGiftCard(card: IGiftCard) {
+  return {
+    code: card.code,
+    kind: card.kind,
+    balancePence: card.balancePence,
+    expiresAt: card.expiresAt ?? null,
+  };
+}
+
+/**
+ * Looks up a code for spending. Throws a customer-facing message when the card
+ * can't be used (unknown, disabled, expired or empty).
+ */
+export async function findUsableGiftCard(code: unknown): Promise<IGiftCard> {
+  const normalized = normalizeGiftCardCode(code);
+  if (!normalized) throw new Error('Please enter a gift card code');
+  const card = await GiftCard.findOne({ code: normalized }).exec();
+  if (!card || card.status !== 'active') throw new Error('This gift card code is not valid');
+  if (card.expiresAt && card.expiresAt.getTime() <= Date.now()) throw new Error('This gift card has expired');
+  if (card.balancePence <= 0) throw new Error('This gift card has no balance left');
+  return card;
+}
+
+async function recordTransaction(
+  input: {
+    giftCardId: mongoose.Types.ObjectId;
+    type: GiftCardTransactionType;
+    amountPence: number;
+    balanceAfterPence: number;
+    orderId?: mongoose.Types.ObjectId | string | null;
+    paymentIntentId?: string | null;
+    note?: string | null;
+    actor?: string | null;
+  },
+  session?: mongoose.ClientSession | null
+) {
+  const [tx] = await GiftCardTransaction.create(
+    [
+      {
+        giftCardId: input.giftCardId,
+        type: input.type,
+        amountPence: input.amountPence,
+        balanceAfterPence: input.balanceAfterPence,
+        orderId: input.orderId ?? null,
+        paymentIntentId: input.paymentIntentId ?? null,
+        note: input.note ?? null,
+        actor: input.actor ?? null,
+      },
+    ],
+    session ? { session } : undefined
+  );
+  return tx;
+}
+
+/**
+ * Creates a card with a fresh code and logs the opening balance.
+ * Purchased cards pass sourcePaymentIntentId + sourceLineKey so retries find the existing card.
+ */
+export async function issueGiftCard(input: {
+  kind: GiftCardKind;
+  amountPence: number;
+  recipientEmail?: string | null;
+  recipientName?: string | null;
+  senderName?: string | null;
+  message?: string | null;
+  expiresAt?: Date | null;
+  sourceOrderId?: mongoose.Types.ObjectId | string | null;
+  sourcePaymentIntentId?: string | null;
+  sourceLineKey?: string | null;
+  issuedBy?: string | null;
+  note?: string | null;
+  transactionType?: Extract<GiftCardTransactionType, 'issue' | 'refund_credit'>;
+}): Promise<{ card: IGiftCard; created: boolean }> {
+  const amountPence = Math.round(input.amountPence);
+  if (!Number.isFinite(amountPence) || amountPence <= 0) throw new Error('Amount must be greater than zero');
+
+  for (let attempt = 1; attempt <= MAX_CODE_ATTEMPTS; attempt++) {
+    try {
+      const card = await GiftCard.create({
+        code: generateGiftCardCode(),
+        kind: input.kind,
+        initialBalancePence: amountPence,
+        balancePence: amountPence,
+        expiresAt: input.expiresAt ?? null,
+        recipientEmail: input.recipientEmail ?? null,
+        recipientName: input.recipientName ?? null,
+        senderName: input.senderName ?? null,
+        message: input.message ?? null,
+        sourceOrderId: input.sourceOrderId ?? null,
+        sourcePaymentIntentId: input.sourcePaymentIntentId ?? null,
+        sourceLineKey: input.sourceLineKey ?? null,
+        issuedBy: input.issuedBy ?? null,
+        note: input.note ?? null,
+      });
+      await recordTransaction({
+        giftCardId: card._id as mongoose.Types.ObjectId,
+        type: input.transactionType ?? 'issue',
+        amountPence,
+        balanceAfterPence: amountPence,
+        orderId: input.sourceOrderId ?? null,
+        paymentIntentId: input.sourcePaymentIntentId ?? null,
+        note: input.note ?? null,
+        actor: input.issuedBy ?? null,
+      });
+      return { card, created: true };
+    } catch (err) {
+      if (!isDuplicateKey(err)) throw err;
+      if (input.sourcePaymentIntentId && input.sourceLineKey) {
+        const existing = await GiftCard.findOne({
+          sourcePaymentIntentId: input.sourcePaymentIntentId,
+          sourceLineKey: input.sourceLineKey,
+        }).exec();
+        if (existing) return { card: existing, created: false };
+      }
+      // code collision: try another code
+    }
+  }
+  throw new Error('Could not generate a unique gift card code');
+}
+
+/**
+ * Spends `amountPence` from a card for a paid order. Runs inside the order's
+ * transaction when a session is given. Idempotent per card + PaymentIntent.
+ */
+export async function redeemGiftCard(
+  input: {
+    giftCardId: string;
+    amountPence: number;
+    orderId: mongoose.Types.ObjectId | string;
+    paymentIntentId: string;
+  },
+  session?: mongoose.ClientSession | null
+): Promise<{ balanceAfterPence: number; alreadyRecorded: boolean }> {
+  const amountPence = Math.round(input.amountPence);
+  if (!mongoose.Types.ObjectId.isValid(input.giftCardId)) throw new Error('Invalid gift card id');
+  if (amountPence <= 0) throw new Error('Gift card amount must be greater than zero');
+
+  const existing = await GiftCardTransaction.findOne({
+    giftCardId: input.giftCardId,
+    paymentIntentId: input.paymentIntentId,
+    type: 'redeem',
+  })
+    .session(session ?? null)
+    .lean()
+    .exec();
+  if (existing) return { balanceAfterPence: existing.balanceAfterPence, alreadyRecorded: true };
+
+  const now = new Date();
+  const card = await GiftCard.findOneAndUpdate(
+    {
+      _id: input.giftCardId,
+      status: 'active',
+      balancePence: { $gte: amountPence },
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+    },
+    { $inc: { balancePence: -amountPence } },
+    { new: true, session: session ?? undefined }
+  ).exec();
+  if (!card) throw new Error('Gift card balance is no longer sufficient for this order');
+
+  await recordTransaction(
+    {
+      giftCardId: card._id as mongoose.Types.ObjectId,
+      type: 'redeem',
+      amountPence: -amountPence,
+      balanceAfterPence: card.balancePence,
+      orderId: input.orderId,
+      paymentIntentId: input.paymentIntentId,
+    },
+    session
+  );
+  return { balanceAfterPence: card.balancePence, alreadyRecorded: false };
+}
+
+/** Admin correction: positive adds credit, negative removes it (never below zero). */
+export async function adjustGiftCardBalance(input: {
+  giftCardId: string;
+  amountPence: number;
+  note: string;
+  actor?: string | null;
+}): Promise<IGiftCard> {
+  const amountPence = Math.round(input.amountPence);
+  if (!Number.isFinite(amountPence) || amountPence === 0) throw new Error('Adjustment must be a non-zero amount');
+  if (!input.note.trim()) throw new Error('Please give a reason for the adjustment');
+
+  const filter: Record<string, unknown> = { _id: input.giftCardId };
+  if (amountPence < 0) filter.balancePence = { $gte: -amountPence };
+  const card = await GiftCard.findOneAndUpdate(filter, { $inc: { balancePence: amountPence } }, { new: true }).exec();
+  if (!card) throw new Error(amountPence < 0 ? 'Cannot remove more than the remaining balance' : 'Gift card not found');
+
+  await recordTransaction({
+    giftCardId: card._id as mongoose.Types.ObjectId,
+    type: 'adjust',
+    amountPence,
+    balanceAfterPence: card.balancePence,
+    note: input.note.trim(),
+    actor: input.actor ?? null,
+  });
+  return card;
+}
+
+/** Emails the card to its recipient and records the outcome on the card. */
+export async function deliverGiftCard(card: IGiftCard): Promise<boolean> {
+  const result = await notifyGiftCardToRecipient({ giftCard: card });
+  if (result.sent) {
+    await GiftCard.updateOne({ _id: card._id }, { $set: { deliveredAt: new Date(), lastDeliveryError: null } }).exec();
+    return true;
+  }
+  console.error(`Gift card ${card.code} email not sent:`, result.error);
+  await GiftCard.updateOne({ _id: card._id }, { $set: { lastDeliveryError: result.error || 'unknown' } }).exec();
+  return false;
+}
+
+/**
+ * Reads the recipient details create-payment-intent stored per gift card line
+ * (`giftCard_<lineIndex>` metadata keys).
+ */
+export function readGiftCardRecipient(metadata: Record<string, string>, lineIndex: number): GiftCardRecipient | null {
+  const raw = metadata[`giftCard_${lineIndex}`];
+  if (!raw) return null;
+  try {
+    return parseGiftCardRecipient(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issues and emails the cards bought on a paid order: one card per unit of each
+ * gift card line. Safe to call again for the same PaymentIntent.
+ */
+export async function issueGiftCardsFromOrder(input: {
+  orderId: mongoose.Types.ObjectId;
+  paymentIntentId: string;
+  items: OrderGiftCardLine[];
+  metadata: Record<string, string>;
+  purchaserEmail?: string | null;
+}): Promise<IGiftCard[]> {
+  const issued: IGiftCard[] = [];
+  const expiresAt = giftCardExpiryFrom();
+
+  for (const [lineIndex, line] of input.items.entries()) {
+    if (line.source !== 'gift_card') continue;
+    const recipient = readGiftCardRecipient(input.metadata, lineIndex);
+    for (let unit = 0; unit < line.qty; unit++) {
+      const { card, created } = await issueGiftCard({
+        kind: 'gift_card',
+        amountPence: Math.round(line.unitPrice * 100),
+        // without recipient details the card goes to the buyer
+        recipientEmail: recipient?.recipientEmail ?? input.purchaserEmail ?? null,
+        recipientName: recipient?.recipientName ?? null,
+        senderName: recipient?.senderName ?? null,
+        message: recipient?.message ?? null,
+        expiresAt,
+        sourceOrderId: input.orderId,
+        sourcePaymentIntentId: input.paymentIntentId,
+        sourceLineKey: `${lineIndex}:${unit}`,
+      });
+      if (created || !card.deliveredAt) await deliverGiftCard(card);
+      issued.push(card);
+    }
+  }
+  return issued;
+}
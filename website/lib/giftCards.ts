@@ -0,0 +1,147 @@
+/*
+ * Gift card rules shared by the storefront and the server (no DB access here so it
+ * can run in the browser; balances and the ledger live in lib/giftCardService.ts).
+ *
+ * A gift card (or store credit, which is the same thing issued by us) pays part or
+ * all of an order. Stripe won't take a PaymentIntent under 30p, so a card that
+ * leaves less than that to pay is only used up to the point where 30p remains;
+ * a card that covers everything skips the card payment altogether.
+ */
+
+export const GIFT_CARD_PRODUCT_ID = 'gift-card';
+
+// Amounts customers can buy, in pence
+export const GIFT_CARD_MIN_PENCE = 500;
+export const GIFT_CARD_MAX_PENCE = 50000;
+export const GIFT_CARD_PRESET_PENCE = [1000, 2500, 5000, 10000];
+
+// Cards bought in the shop are valid for two years
+export const GIFT_CARD_VALIDITY_MONTHS = 24;
+
+// Stripe's minimum charge for GBP
+export const STRIPE_MIN_CHARGE_PENCE = 30;
+
+export const GIFT_CARD_MESSAGE_MAX_LENGTH = 200;
+
+export type GiftCardRecipient = {
+  recipientName: string;
+  recipientEmail: string;
+  senderName?: string;
+  message?: string;
+};
+
+export type GiftCardSplit = {
+  // taken off the gift card
+  appliedPence: number;
+  // left to pay by card (0 when the gift card covers the order)
+  payablePence: number;
+  coversTotal: boolean;
+};
+
+/** "gc-7kq2 m9xd-4htp" -> "GC-7KQ2-M9XD-4HTP" */
+export function normalizeGiftCardCode(code: unknown): string {
+  if (typeof code !== 'string') return '';
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (!compact) return '';
+  if (/^GC[A-Z0-9]{12}$/.test(compact)) {
+    return `GC-${compact.slice(2, 6)}-${compact.slice(6, 10)}-${compact.slice(10)}`;
+  }
+  return code.trim().toUpperCase();
+}
+
+export function isValidGiftCardAmountPence(pence: number) {
+  return Number.isInteger(pence) && pence >= GIFT_CARD_MIN_PENCE && pence <= GIFT_CARD_MAX_PENCE;
+}
+
+/**
+ * How much of an order a gift card balance pays.
+ * `excludedPence` is the part of the total a gift card can't be spent on (gift card lines).
+ */
+export function splitGiftCardPayment(totalPence: number, availablePence: number, excludedPence = 0): GiftCardSplit {
+  const total = Math.max(0, Math.round(totalPence));
+  const redeemable = Math.max(0, total - Math.max(0, Math.round(excludedPence)));
+  let applied = Math.min(Math.max(0, Math.round(availablePence)), redeemable);
+  let payable = total - applied;
+
+  if (payable > 0 && payable < STRIPE_MIN_CHARGE_PENCE) {
+    applied = Math.max(0, total - STRIPE_MIN_CHARGE_PENCE);
+    payable = total - applied;
+  }
+
+  return { appliedPence: applied, payablePence: payable, coversTotal: applied > 0 && payable === 0 };
+}
+
+/**
+ * Value of the gift card lines in an order's items (metadata shape: unitPrice in GBP, qty, source),
+ * in pence. Gift cards can't be spent on other gift cards.
+ */
+export function giftCardLinesPence(items: unknown): number {
+  if (!Array.isArray(items)) return 0;
+  return items.reduce((sum: number, raw) => {
+    if (!raw || typeof raw !== 'object') return sum;
+    const it = raw as Record<string, unknown>;
+    if (it.source !== 'gift_card') return sum;
+    const unit = Math.round(Number(it.unitPrice ?? 0) * 100);
+    const qty = Number(it.qty ?? it.quantity ?? 0);
+    return Number.isFinite(unit) && Number.isFinite(qty) ? sum + unit * qty : sum;
+  }, 0);
+}
+
+/** Validates the recipient details captured when a gift card is added to the cart. Throws with a readable message. */
+export function parseGiftCardRecipient(input: unknown): GiftCardRecipient {
+  if (!input || typeof input !== 'object') throw new Error('Gift card recipient details are missing');
+  const raw = input as Record<string, unknown>;
+  const str = (v: unknown, max: number) => (typeof v === 'string' ? v.trim().slice(0, max) : '');
+
+  const recipientName = str(raw.recipientName, 80);
+  const recipientEmail = str(raw.recipientEmail, 200).toLowerCase();
+  const senderName = str(raw.senderName, 80);
+  const message = str(raw.message, GIFT_CARD_MESSAGE_MAX_LENGTH);
+
+  if (!recipientName) throw new Error("Please enter the recipient's name");
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipientEmail)) throw new Error("Please enter a valid email for the recipient");
+
+  return {
+    recipientName,
+    recipientEmail,
+    ...(senderName ? { senderName } : {}),
+    ...(message ? { message } : {}),
+  };
+}
+
+export type GiftCardIssueInput = {
+  kind: 'gift_card' | 'store_credit';
+  amountPence: number;
+  recipientEmail: string;
+  recipientName: string | null;
+  note: string | null;
+  expiresAt: Date | null;
+  sendEmail: boolean;
+};
+
+/** Validates the admin "issue credit" payload. Throws with a readable message. */
+export function parseGiftCardIssueInput(input: unknown): GiftCardIssueInput {
+  if (!input || typeof input !== 'object') throw new Error('Invalid input');
+  const raw = input as Record<string, unknown>;
+
+  const kind = raw.kind === 'gift_card' ? 'gift_card' : 'store_credit';
+  const amountPence = Number(raw.amountPence);
+  if (!Number.isInteger(amountPence) || amountPence <= 0) throw new Error('Amount must be a whole number of pence above zero');
+  if (amountPence > GIFT_CARD_MAX_PENCE * 10) throw new Error('Amount is too large');
+
+  const recipientEmail = typeof raw.recipientEmail === 'string' ? raw.recipientEmail.trim().toLowerCase() : '';
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipientEmail)) throw new Error('Please enter a valid recipient email');
+
+  const recipientName = typeof raw.recipientName === 'string' && raw.recipientName.trim() ? raw.recipientName.trim().slice(0, 80) : null;
+  const note = typeof raw.note === 'string' && raw.note.trim() ? raw.note.trim().slice(0, 500) : null;
+  if (kind === 'store_credit' && !note) throw new Error('Please say why this credit is being issued');
+
+  let expiresAt: Date | null = null;
+  if (raw.expiresAt) {
+    expiresAt = new Date(String(raw.expiresAt));
+    if (Number.isNaN(expiresAt.getTime())) throw new Error('Invalid expiry date');
+    if (expiresAt.getTime() <= Date.now()) throw new Error('Expiry date must be in the future');
+  }
+
+  return { kind, amountPence, recipientEmail, recipientName, note, expiresAt, sendEmail: raw.sendEmail !== false };
+}
@@ -0,0 +1,158 @@
+import mongoose from 'mongoose';
+import Invoice from '@/models/Invoice';
+import InvoicePayment, { IInvoicePayment, INVOICE_PAYMENT_METHODS, InvoicePaymentMethod } from '@/models/InvoicePayment';
+
+/*
+ * Payments against manual invoices. Every payment is an InvoicePayment entry and
+ * the invoice carries the running total (amountPaid) and the status it implies:
+ * unpaid, partial, or paid once the total is covered. Credit notes reduce what's
+ * owed, so the total to cover is Invoice.total less Invoice.creditedAmount.
+ * Amounts are in the invoice currency like Invoice.total, and compared in pence
+ * to dodge float drift.
+ */
+
+type InvoiceLike = { total?: number; amountPaid?: number; creditedAmount?: number; paymentStatus?: string };
+
+export function toPence(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/** Total less credit notes, in pence */
+function netTotalPence(invoice: InvoiceLike): number {
+  return Math.max(0, toPence(invoice.total ?? 0) - toPence(invoice.creditedAmount ?? 0));
+}
+
+/** What the client still owes. Invoices marked paid before the ledger existed owe nothing. */
+export function invoiceOutstanding(invoice: InvoiceLike): number {
+  if (invoice.paymentStatus === 'paid') return 0;
+  return Math.max(0, netTotalPence(invoice) - toPence(invoice.amountPaid ?? 0)) / 100;
+}
+
+function statusFor(paidPence: number, totalPence: number): 'unpaid' | 'partial' | 'paid' {
+  // Credited in full: nothing left to pay
+  if (totalPence <= 0) return 'paid';
+  if (paidPence <= 0) return 'unpaid';
+  return paidPence >= totalPence ? 'paid' : 'partial';
+}
+
+export function isInvoicePaymentMethod(value: unknown): value is InvoicePaymentMethod {
+  return typeof value === 'string' && (INVOICE_PAYMENT_METHODS as readonly string[]).includes(value);
+}
+
+export type InvoicePaymentResult =
+  | { ok: true; invoice: mongoose.Document & Record<string, unknown>; payment: IInvoicePayment }
+  | { ok: false; status: number; error: string };
+
+export type InvoicePaymentInput = {
+  invoiceId: string;
+  amount: number;
+  method: InvoicePaymentMethod;
+  reference?: string | null;
+  note?: string | null;
+  paidAt?: Date | null;
+  actor?: string | null;
+};
+
+/** Adds a payment to the ledger and moves the invoice to partial or paid */
+export async function recordInvoicePayment(input: InvoicePaymentInput): Promise<InvoicePaymentResult> {
+  if (!mongoose.Types.ObjectId.isValid(input.invoiceId)) return { ok: false, status: 400, error: 'Invalid invoice id' };
+  const amountPence = toPence(input.amount);
+  if (!Number.isFinite(amountPence) || amountPence <= 0) return { ok: false, status: 400, error: 'Amount must be more than zero' };
+  const paidAt = input.paidAt ?? new Date();
+  if (Number.isNaN(paidAt.getTime()) || paidAt.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+    return { ok: false, status: 400, error: 'Payment date is invalid' };
+  }
+
+  const invoice = await Invoice.findById(input.invoiceId).lean<InvoiceLike & { source?: string; currency?: string }>().exec();
+  if (!invoice) return { ok: false, status: 404, error: 'Invoice not found' };
+  if (invoice.source !== 'manual') return { ok: false, status: 400, error: 'Payments can only be recorded on manual invoices' };
+  if (invoice.paymentStatus === 'paid') return { ok: false, status: 400, error: 'Invoice is already paid' };
+
+  const outstandingPence = toPence(invoiceOutstanding(invoice));
+  if (amountPence > outstandingPence) {
+    return { ok: false, status: 400, error: `Amount is more than the outstanding balance (${(outstandingPence / 100).toFixed(2)})` };
+  }
+
+  const payment = await InvoicePayment.create({
+    invoiceId: input.invoiceId,
+    amount: amountPence / 100,
+    currency: invoice.currency || 'gbp',
+    method: input.method,
+    reference: input.reference?.trim().slice(0, 200) || null,
+    note: input.note?.trim().slice(0, 500) || null,
+    paidAt,
+    recordedBy: input.actor ?? null,
+  });
+
+  const previousPaid = invoice.amountPaid ?? 0;
+  const paidPence = toPence(previousPaid) + amountPence;
+  const status = statusFor(paidPence, netTotalPence(invoice));
+  // Only applies if nobody recorded a payment since we read the invoice
+  const updated = await Invoice.findOneAndUpdate(
+    { _id: input.invoiceId, amountPaid: previousPaid === 0 ? { $in: [0, null] } : previousPaid },
+    { $set: { amountPaid: paidPence / 100, paymentStatus: status, paidAt: status === 'paid' ? paidAt : null } },
+    { new: true }
+  ).exec();
+  if (!updated) {
+    await InvoicePayment.deleteOne({ _id: payment._id }).exec();
+    return { ok: false, status: 409, error: 'The invoice changed while the payment was being recorded; please try again' };
+  }
+  return { ok: true, invoice: updated, payment };
+}
+
+/** Pays off whatever is still outstanding in one entry (the old "mark paid" button) */
+export async function markInvoicePaid(invoiceId: string, actor?: string | null): Promise<InvoicePaymentResult> {
+  if (!mongoose.Types.ObjectId.isValid(invoiceId)) return { ok: false, status: 400, error: 'Invalid invoice id' };
+  const invoice = await Invoice.findById(invoiceId).lean<InvoiceLike>().exec();
+  if (!invoice) return { ok: false, status: 404, error: 'Invoice not found' };
+  if (invoice.paymentStatus === 'paid') return { ok: false, status: 400, error: 'Invoice is already marked as paid' };
+  return recordInvoicePayment({
+    invoiceId,
+    amount: invoiceOutstanding(invoice),
+    method: 'other',
+    note: 'Marked as paid',
+    actor,
+  });
+}
+
+/** Voids a ledger entry and recalculates the invoice from the entries left */
+export async function voidInvoicePayment(input: {
+  invoiceId: string;
+  paymentId: string;
+  reason: string;
+  actor?: string | null;
+}): Promise<InvoicePaymentResult> {
+  if (!mongoose.Types.ObjectId.isValid(input.invoiceId) || !mongoose.Types.ObjectId.isValid(input.paymentId)) {
+    return { ok: false, status: 400, error: 'Invalid id' };
+  }
+  if (!input.reason.trim()) return { ok: false, status: 400, error: 'Please give a reason for voiding the payment' };
+
+  const payment = await InvoicePayment.findOneAndUpdate(
+    { _id: input.paymentId, invoiceId: input.invoiceId, voidedAt: null },
+    { $set: { voidedAt: new Date(), voidedBy: input.actor ?? null, voidReason: input.reason.trim().slice(0, 500) } },
+    { new: true }
+  ).exec();
+  if (!payment) return { ok: false, status: 404, error: 'Payment not found or already voided' };
+
+  const invoice = await syncInvoicePayments(input.invoiceId);
+  if (!invoice) return { ok: false, status: 404, error: 'Invoice not found' };
+  return { ok: true, invoice, payment };
+}
+
+/** Recomputes amountPaid, status and paidAt from the ledger; also run after a credit note */
+export async function syncInvoicePayments(invoiceId: string) {
+  const invoice = await Invoice.findById(invoiceId).exec();
+  if (!invoice) return null;
+  const live = await InvoicePayment.find({ invoiceId, voidedAt: null }).sort({ paidAt: 1 }).lean().exec();
+  const paidPence = live.reduce((sum, p) => sum + toPence(p.amount), 0);
+  const status = statusFor(paidPence, netTotalPence(invoice));
+  invoice.amountPaid = paidPence / 100;
+  invoice.paymentStatus = status;
+  invoice.paidAt = status === 'paid' ? live[live.length - 1]?.paidAt ?? new Date() : null;
+  await invoice.save();
+  return invoice;
+}
+
+export async function listInvoicePayments(invoiceId: string) {
+  return InvoicePayment.find({ invoiceId }).sort({ paidAt: 1, createdAt: 1 }).lean().exec();
+}
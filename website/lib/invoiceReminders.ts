@@ -0,0 +1,165 @@
+import Invoice from '@/models/Invoice';
+import Settings from '@/models/Settings';
+import { enqueueEmail } from '@/lib/outbox';
+import { renderEmailTemplate } from '@/lib/emailTemplates';
+import { invoiceOutstanding } from '@/lib/invoicePayments';
+import { daysPastDue } from '@/lib/invoiceStatements';
+import { generateInvoicePDF, invoiceDataFromDoc, StoredInvoice } from '@/lib/manualInvoiceService';
+import { shopCompanyInfo } from '@/lib/invoiceService';
+
+/*
+ * Payment reminders for manual invoices. The schedule is a list of days relative
+ * to the due date (Settings.invoiceReminderOffsets); each step is sent at most
+ * once per invoice and recorded in Invoice.reminders. The invoice-reminders job
+ * sends only the latest step an invoice has reached, so an invoice entered long
+ * overdue gets one reminder rather than the whole backlog, and no "due soon"
+ * reminder goes out for an invoice created after that day.
+ */
+
+export const DEFAULT_REMINDER_OFFSETS = [-3, 0, 7, 14, 30];
+const MAX_OFFSETS = 10;
+const MIN_OFFSET = -60;
+const MAX_OFFSET = 365;
+
+export type InvoiceReminderSettings = { enabled: boolean; offsets: number[] };
+
+export async function getInvoiceReminderSettings(): Promise<InvoiceReminderSettings> {
+  const doc = await Settings.findOne().select('invoiceRemindersEnabled invoiceReminderOffsets').lean().exec();
+  return {
+    enabled: doc?.invoiceRemindersEnabled ?? true,
+    offsets: doc?.invoiceReminderOffsets?.length ? [...doc.invoiceReminderOffsets].sort((a, b) => a - b) : DEFAULT_REMINDER_OFFSETS,
+  };
+}
+
+/** Validates a schedule from the admin; throws with a message to show them */
+export function parseReminderOffsets(value: unknown): number[] {
+  if (!Array.isArray(value)) throw new Error('Reminder schedule must be a list of days');
+  const offsets = [...new Set(value.map((v) => Number(v)))];
+  if (offsets.some((n) => !Number.isInteger(n) || n < MIN_OFFSET || n > MAX_OFFSET)) {
+    throw new Error(`Reminder days must be whole numbers between ${MIN_OFFSET} and ${MAX_OFFSET}`);
+  }
+  if (offsets.length > MAX_OFFSETS) throw new Error(`At most ${MAX_OFFSETS} reminders per invoice`);
+  return offsets.sort((a, b) => a - b);
+}
+
+type ReminderInvoice = StoredInvoice & {
+  _id: { toString(): string };
+  paymentStatus?: string;
+  source?: string;
+  remindersPaused?: boolean;
+  reminders?: { offsetDays?: number | null; sentAt?: Date }[];
+};
+
+export type SendReminderResult = { ok: true; messageId: string } | { ok: false; status: number; error: string };
+
+/** Emails one reminder with the invoice PDF and records it against `offsetDays` (null: sent by hand) */
+export async function sendInvoiceReminder(
+  invoice: ReminderInvoice,
+  opts: { offsetDays: number | null; actor?: string | null; now?: Date }
+): Promise<SendReminderResult> {
+  const now = opts.now ?? new Date();
+  const email = invoice.client?.email?.trim();
+  if (invoice.source !== 'manual') return { ok: false, status: 400, error: 'Reminders are only sent for manual invoices' };
+  if (!email) return { ok: false, status: 400, error: 'Invoice has no client email' };
+  if (!invoice.dueDate) return { ok: false, status: 400, error: 'Invoice has no due date' };
+  const balance = invoiceOutstanding(invoice);
+  if (balance <= 0) return { ok: false, status: 400, error: 'Invoice is already paid' };
+
+  const id = invoice._id.toString();
+  // Claim the step first so two runs can't both send it
+  if (opts.offsetDays !== null) {
+    const claimed = await Invoice.updateOne(
+      { _id: id, 'reminders.offsetDays': { $ne: opts.offsetDays } },
+      { $push: { reminders: { offsetDays: opts.offsetDays, sentAt: now, sentBy: opts.actor ?? null } } }
+    ).exec();
+    if (claimed.modifiedCount === 0) return { ok: false, status: 409, error: 'This reminder has already been sent' };
+  }
+
+  try {
+    const data = invoiceDataFromDoc(invoice);
+    const pdf = await generateInvoicePDF(data, shopCompanyInfo());
+    const rendered = await renderEmailTemplate('invoice_reminder', {
+      customerName: data.client.name || 'there',
+      invoiceNumber: data.orderNumber,
+      date: invoice.createdAt ?? null,
+      dueDate: invoice.dueDate,
+      daysPastDue: daysPastDue(invoice.dueDate, now),
+      currency: data.currency || 'GBP',
+      total: data.total,
+      amountPaid: data.amountPaid ?? 0,
+      balance,
+    });
+    const queued = await enqueueEmail({
+      kind: 'invoice_reminder',
+      to: [{ email, name: data.client.name }],
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      attachments: [{ name: `invoice-${data.orderNumber}.pdf`, content: pdf.toString('base64') }],
+      related: { type: 'Invoice', id },
+      dedupeKey: opts.offsetDays !== null ? `invoice-reminder:${id}:${opts.offsetDays}` : null,
+    });
+    if (!queued.ok) throw new Error(queued.error);
+
+    if (opts.offsetDays === null) {
+      await Invoice.updateOne(
+        { _id: id },
+        { $push: { reminders: { offsetDays: null, sentAt: now, sentBy: opts.actor ?? null } } }
+      ).exec();
+    }
+    return { ok: true, messageId: queued.messageId };
+  } catch (err) {
+    // Give the step back so the next run tries again
+    if (opts.offsetDays !== null) {
+      await Invoice.updateOne({ _id: id }, { $pull: { reminders: { offsetDays: opts.offsetDays } } }).exec();
+    }
+    console.error(`[InvoiceReminders] Failed to send reminder for ${invoice.orderNumber}:`, err);
+    return { ok: false, status: 500, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** The schedule step an invoice should be reminded for today, if any */
+export function dueReminderStep(invoice: ReminderInvoice, offsets: number[], now = new Date()): number | null {
+  if (!invoice.dueDate) return null;
+  const days = daysPastDue(invoice.dueDate, now);
+  const reached = offsets.filter((o) => o <= days);
+  if (reached.length === 0) return null;
+  const step = reached[reached.length - 1];
+
+  const sent = (invoice.reminders ?? []).map((r) => r.offsetDays).filter((o): o is number => typeof o === 'number');
+  if (sent.some((o) => o >= step)) return null;
+  // "Due soon" for an invoice created after that day would just repeat the invoice email
+  if (step <= 0 && invoice.createdAt && daysPastDue(invoice.dueDate, invoice.createdAt) > step) return null;
+  return step;
+}
+
+export type InvoiceReminderRunSummary = { checked: number; sent: number; failed: number; skipped?: string };
+
+/** Sends every reminder that's due; run daily by the invoice-reminders job */
+export async function sendDueInvoiceReminders(now = new Date()): Promise<InvoiceReminderRunSummary> {
+  const settings = await getInvoiceReminderSettings();
+  if (!settings.enabled) return { checked: 0, sent: 0, failed: 0, skipped: 'Reminders are turned off' };
+  if (settings.offsets.length === 0) return { checked: 0, sent: 0, failed: 0 };
+
+  // Nothing can be due before the earliest step
+  const horizon = new Date(now.getTime() - settings.offsets[0] * 24 * 60 * 60 * 1000);
+  const candidates = (await Invoice.find({
+    source: 'manual',
+    paymentStatus: { $in: ['unpaid', 'partial'] },
+    remindersPaused: { $ne: true },
+    dueDate: { $ne: null, $lte: horizon },
+    'client.email': { $nin: [null, ''] },
+  })
+    .lean()
+    .exec()) as unknown as ReminderInvoice[];
+
+  const summary: InvoiceReminderRunSummary = { checked: candidates.length, sent: 0, failed: 0 };
+  for (const invoice of candidates) {
+    const step = dueReminderStep(invoice, settings.offsets, now);
+    if (step === null) continue;
+    const result = await sendInvoiceReminder(invoice, { offsetDays: step, now });
+    if (result.ok) summary.sent += 1;
+    else if (result.status !== 409) summary.failed += 1;
+  }
+  return summary;
+}
@@ -1,6 +1,9 @@
 import { PDFDocument, StandardFonts, rgb, PDFFont } from 'pdf-lib';
 import fs from 'fs';
 import path from 'path';
+import type { VatBreakdownRow } from '@/lib/vat';
+import { enqueueEmail } from '@/lib/outbox';
+import { renderEmailTemplate } from '@/lib/emailTemplates';
 
 /* ----------------------------- Types ---------------------------------- */
 interface InvoiceItem {
@@ -9,6 +12,7 @@ interface InvoiceItem {
   unitPrice: number;
   totalPrice: number;
   roastType?: string;
+  vatRate?: number; // percent; prices include VAT
 }
 
 interface InvoiceAddress {
@@ -25,13 +29,19 @@ interface InvoiceAddress {
   [k: string]: string | boolean | undefined;
 }
 
-interface InvoiceData {
+export interface InvoiceData {
   orderId: string;
   orderNumber: string;
   items: InvoiceItem[];
   subtotal: number;
   shipping: number;
+  discount?: number;
+  discountCode?: string;
   total: number;
+  vat?: number; // VAT included in the total
+  vatBreakdown?: VatBreakdownRow[];
+  giftCardAmount?: number; // part of the total paid with a gift card / store credit
+  giftCardCode?: string;
   client: {
     name: string;
     email: string;
@@ -43,7 +53,7 @@ interface InvoiceData {
   paymentIntentId: string;
 }
 
-interface CompanyInfo {
+export interface CompanyInfo {
   name: string;
   address: string;
   city: string;
@@ -56,6 +66,31 @@ interface CompanyInfo {
   logoPath?: string;
 }
 
+// strip accidental quotes and trim
+function normalizeEnvString(v?: string | undefined) {
+  if (!v) return undefined;
+  return v.replace(/^"(.*)"$/, '$1').trim();
+}
+
+/**
+ * Company details on every invoice, statement and credit note PDF (shop and manual);
+ * environment variable names match the .env.example
+ */
+export function shopCompanyInfo(): CompanyInfo {
+  return {
+    name: normalizeEnvString(process.env.COMPANY_NAME) ?? 'Coffee Genius',
+    address: normalizeEnvString(process.env.COMPANY_ADDRESS) ?? '173 High Street',
+    city: normalizeEnvString(process.env.COMPANY_CITY) ?? 'Staines',
+    postcode: normalizeEnvString(process.env.COMPANY_POSTCODE) ?? 'TW18 4PA',
+    country: normalizeEnvString(process.env.COMPANY_COUNTRY) ?? 'United Kingdom',
+    email: normalizeEnvString(process.env.COMPANY_EMAIL) ?? 'info@coffeegenius.co.uk',
+    phone: normalizeEnvString(process.env.COMPANY_PHONE) ?? undefined,
+    vatNumber: normalizeEnvString(process.env.COMPANY_VAT_NUMBER) ?? normalizeEnvString(process.env.COMPANY_VAT) ?? undefined, // was COMPANY_VAT in .env.example
+    website: normalizeEnvString(process.env.COMPANY_WEBSITE) ?? undefined,
+    logoPath: normalizeEnvString(process.env.COMPANY_LOGO_PATH) ?? undefined,
+  };
+}
+
 /* -------------------------- Helpers ---------------------------------- */
 function tryLoadFontBytes(): Buffer | null {
   const candidates: string[] = [];
@@ -414,13 +449,15 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
   });
 
   const colDescX = margin + 15;
+  const colVatX = pageWidth - margin - 280;
   const colQtyX = pageWidth - margin - 230;
   const colPriceX = pageWidth - margin - 150;
   const colTotalX = pageWidth - margin - 70;
-  const descriptionMaxWidth = colQtyX - colDescX - 20;
+  const descriptionMaxWidth = colVatX - colDescX - 20;
 
   const headerY = tableStartY - 22;
   drawText('Description', colDescX, headerY, 10, darkText, boldFont);
+  drawText('VAT', colVatX, headerY, 10, darkText, boldFont);
   drawText('Qty', colQtyX, headerY, 10, darkText, boldFont);
   drawText('Price', colPriceX, headerY, 10, darkText, boldFont);
   drawText('Amount', colTotalX, headerY, 10, darkText, boldFont);
@@ -455,6 +492,7 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
       });
 
       drawText('Description', colDescX, cursorY - 22, 10, darkText, boldFont);
+      drawText('VAT', colVatX, cursorY - 22, 10, darkText, boldFont);
       drawText('Qty', colQtyX, cursorY - 22, 10, darkText, boldFont);
       drawText('Price', colPriceX, cursorY - 22, 10, darkText, boldFont);
       drawText('Amount', colTotalX, cursorY - 22, 10, darkText, boldFont);
@@ -481,6 +519,7 @@ if (item.roastType) {   drawText(`Roast: ${item.roastType}`, colDescX, itemY, 8,
 
     // Draw quantity, price, and total (aligned to first line)
     const firstLineY = cursorY - 18;
+    drawText(typeof item.vatRate === 'number' ? `${item.vatRate}%` : '-', colVatX, firstLineY, 10, lightText);
     drawText(String(item.qty), colQtyX, firstLineY, 10, darkText);
     drawText(`£${Number(item.unitPrice ?? 0).toFixed(2)}`, colPriceX, firstLineY, 10, lightText);
     drawText(`£${Number(item.totalPrice ?? 0).toFixed(2)}`, colTotalX, firstLineY, 10, darkText, boldFont);
@@ -498,6 +537,23 @@ if (item.roastType) {   drawText(`Roast: ${item.roastType}`, colDescX, itemY, 8,
 
   cursorY -= sectionGap + 15;
 
+  // ============= VAT SUMMARY (left of the totals) =============
+  if (invoice.vatBreakdown && invoice.vatBreakdown.length > 0) {
+    const vatCols = [margin, margin + 60, margin + 130, margin + 200];
+    let vatY = cursorY;
+    drawText('VAT SUMMARY', margin, vatY, 10, lightText, boldFont);
+    vatY -= 18;
+    ['Rate', 'Net', 'VAT', 'Gross'].forEach((h, i) => drawText(h, vatCols[i], vatY, 9, darkText, boldFont));
+    vatY -= 14;
+    for (const row of invoice.vatBreakdown) {
+      drawText(`${row.rate}%`, vatCols[0], vatY, 9, lightText);
+      drawText(`£${Number(row.net).toFixed(2)}`, vatCols[1], vatY, 9, darkText);
+      drawText(`£${Number(row.vat).toFixed(2)}`, vatCols[2], vatY, 9, darkText);
+      drawText(`£${Number(row.gross).toFixed(2)}`, vatCols[3], vatY, 9, darkText);
+      vatY -= 14;
+    }
+  }
+
   // ============= TOTALS SECTION =============
   const totalsX = pageWidth - margin - 200;
   let totalsY = cursorY;
@@ -510,6 +566,16 @@ if (item.roastType) {   drawText(`Roast: ${item.roastType}`, colDescX, itemY, 8,
 
   totalsY -= 25;
 
+  // Discount (promotion code)
+  if (invoice.discount && invoice.discount > 0) {
+    drawText(invoice.discountCode ? `Discount (${invoice.discountCode})` : 'Discount', totalsX, totalsY, 10, lightText);
+    const discountStr = `-£${Number(invoice.discount).toFixed(2)}`;
+    const discountW = font.widthOfTextAtSize(discountStr, 10);
+    drawText(discountStr, pageWidth - margin - discountW, totalsY, 10, darkText);
+
+    totalsY -= 25;
+  }
+
   // Shipping
   drawText('Shipping', totalsX, totalsY, 10, lightText);
   const shippingStr = `£${Number(invoice.shipping ?? 0).toFixed(2)}`;
@@ -534,6 +600,25 @@ if (item.roastType) {   drawText(`Roast: ${item.roastType}`, colDescX, itemY, 8,
   const totalW = boldFont.widthOfTextAtSize(totalStr, 14);
   drawText(totalStr, pageWidth - margin - totalW, totalsY, 14, accentBlue, boldFont);
 
+  if (typeof invoice.vat === 'number') {
+    totalsY -= 18;
+    drawText('Includes VAT', totalsX, totalsY, 9, lightText);
+    const vatStr = `£${invoice.vat.toFixed(2)}`;
+    drawText(vatStr, pageWidth - margin - font.widthOfTextAtSize(vatStr, 9), totalsY, 9, lightText);
+  }
+
+  if (invoice.giftCardAmount && invoice.giftCardAmount > 0) {
+    totalsY -= 22;
+    drawText(invoice.giftCardCode ? `Gift card (${invoice.giftCardCode})` : 'Gift card', totalsX, totalsY, 10, lightText);
+    const giftStr = `-£${Number(invoice.giftCardAmount).toFixed(2)}`;
+    drawText(giftStr, pageWidth - margin - font.widthOfTextAtSize(giftStr, 10), totalsY, 10, darkText);
+
+    totalsY -= 18;
+    drawText('Paid by card', totalsX, totalsY, 10, lightText);
+    const cardStr = `£${Math.max(0, Number(invoice.total ?? 0) - invoice.giftCardAmount).toFixed(2)}`;
+    drawText(cardStr, pageWidth - margin - font.widthOfTextAtSize(cardStr, 10), totalsY, 10, darkText);
+  }
+
   // Payment status
   totalsY -= 25;
   drawText('Status: PAID', totalsX, totalsY, 9, rgb(0.2, 0.6, 0.3), boldFont);
@@ -563,12 +648,14 @@ if (item.roastType) {   drawText(`Roast: ${item.roastType}`, colDescX, itemY, 8,
 }
 
 /* ----------------------- Email sending ------------------------------- */
-export async function sendInvoiceEmail(invoice: InvoiceData, pdfBuffer: Buffer): Promise<void> {
-  const apiKey = process.env.BREVO_API_KEY;
+export async function sendInvoiceEmail(
+  invoice: InvoiceData,
+  pdfBuffer: Buffer,
+  opts: { invoiceId?: string; dedupeKey?: string } = {}
+): Promise<void> {
   const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || '').trim();
   const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || 'Your Company';
 
-  if (!apiKey) throw new Error('Missing BREVO_API_KEY environment variable');
 
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   if (!senderEmail || !emailRegex.test(senderEmail)) {
@@ -582,138 +669,70 @@ export async function sendInvoiceEmail(invoice: InvoiceData, pdfBuffer: Buffer):
   }
 
   const toEmail = invoice.client.email;
-  const subject = `Invoice #${invoice.orderNumber} - Thank you for your order!`;
   const paidDate = typeof invoice.paidAt === 'string' ? new Date(invoice.paidAt) : invoice.paidAt;
-
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background: #f5f5f5; padding: 20px; border-radius: 5px; margin-bottom: 20px; }
-        .invoice-details { background: #fff; border: 1px solid #ddd; padding: 15px; border-radius: 5px; }
-        .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h2 style="margin: 0; color: #2d5a8d;">Invoice #${invoice.orderNumber}</h2>
-        </div>
-        
-        <p>Dear ${escapeHtml(invoice.client.name)},</p>
-        <p>Thank you for your order! Your payment has been successfully processed. Please find your invoice attached.</p>
-        
-        <div class="invoice-details">
-          <p><strong>Invoice Number:</strong> ${escapeHtml(invoice.orderNumber)}</p>
-          <p><strong>Order ID:</strong> ${escapeHtml(invoice.orderId)}</p>
-          <p><strong>Date:</strong> ${paidDate ? paidDate.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }) : 'N/A'}</p>
-          <p><strong>Total Amount:</strong> £${invoice.total.toFixed(2)}</p>
-        </div>
-        
-        <h3>Items Ordered:</h3>
-        <ul>
-${invoice.items.map(item => `<li>${escapeHtml(item.name)}${item.roastType ? ` (${item.roastType} roast)` : ''} - Qty: ${item.qty} - £${item.totalPrice.toFixed(2)}</li>`).join('')}        </ul>
-        
-        ${invoice.shippingAddress ? `
-        <div style="margin-top: 20px;">
-          <p><strong>Shipping Address:</strong></p>
-          <p>
-            ${escapeHtml(invoice.shippingAddress.firstName ?? '')} ${escapeHtml(invoice.shippingAddress.lastName ?? '')}<br>
-            ${invoice.shippingAddress.unit ? escapeHtml(invoice.shippingAddress.unit) + '<br>' : ''}
-            ${escapeHtml(invoice.shippingAddress.address ?? '')}<br>
-            ${escapeHtml(invoice.shippingAddress.city ?? '')}, ${escapeHtml(invoice.shippingAddress.postcode ?? '')}<br>
-            ${escapeHtml(invoice.shippingAddress.country ?? '')}
-          </p>
-        </div>
-        ` : ''}
-        
-        <p style="margin-top: 30px;">If you have any questions, please don't hesitate to contact us.</p>
-        
-        <div class="footer">
-          <p>This is an automated message from ${escapeHtml(senderName)}<br>
-          ${escapeHtml(senderEmail)}${process.env.COMPANY_PHONE ? ' • ' + escapeHtml(process.env.COMPANY_PHONE) : ''}</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
+  const ship = invoice.shippingAddress;
+
+  const email = await renderEmailTemplate('invoice', {
+    customerName: invoice.client.name,
+    invoiceNumber: invoice.orderNumber,
+    orderId: invoice.orderId,
+    date: paidDate,
+    currency: 'GBP',
+    discount: invoice.discount,
+    discountCode: invoice.discountCode,
+    total: invoice.total,
+    vat: invoice.vat,
+    giftCardAmount: invoice.giftCardAmount,
+    giftCardCode: invoice.giftCardCode,
+    items: invoice.items.map((item) => ({
+      name: item.name,
+      roastType: item.roastType,
+      qty: item.qty,
+      totalPrice: item.totalPrice,
+    })),
+    shippingAddress: ship
+      ? {
+          name: [ship.firstName, ship.lastName].filter(Boolean).join(' '),
+          lines: [ship.unit, ship.address, [ship.city, ship.postcode].filter(Boolean).join(', '), ship.country].filter(
+            (l): l is string => !!l
+          ),
+        }
+      : null,
+  });
 
   const attachment = {
     name: `invoice-${invoice.orderNumber}.pdf`,
     content: pdfBuffer.toString('base64'),
-    contentType: 'application/pdf',
   };
 
-  const payload: Record<string, unknown> = {
-    sender: { name: senderName, email: senderEmail },
+  const queued = await enqueueEmail({
+    kind: 'invoice',
+    from: { email: senderEmail, name: senderName },
     to: [{ email: toEmail, name: invoice.client.name }],
-    subject,
-    htmlContent,
-    attachment: [attachment],
-  };
-
-  let res: globalThis.Response;
-  try {
-    // Use the platform fetch (available in Node 18+ / Next.js). Provide appropriate headers.
-    res = await fetch('https://api.brevo.com/v3/smtp/email', {
-      method: 'POST',
-      headers: {
-        'api-key': apiKey,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
-  } catch (networkErr) {
-    throw new Error(`Network error while calling Brevo API: ${networkErr instanceof Error ? networkErr.message : String(networkErr)}`);
-  }
-
-  if (!res.ok) {
-    let text = '';
-    try {
-      text = await res.text();
-      try {
-        const parsed: unknown = JSON.parse(text);
-        if (parsed && typeof parsed === 'object') {
-          const obj = parsed as Record<string, unknown>;
-          const code = typeof obj.code === 'string' || typeof obj.code === 'number' ? String(obj.code) : 'unknown';
-          const message = typeof obj.message === 'string' ? obj.message : text;
-          throw new Error(`Brevo API error ${res.status}: code=${code} message=${message}`);
-        }
-        throw new Error(`Brevo API error ${res.status}: ${text}`);
-      } catch {
-        throw new Error(`Brevo API error ${res.status}: ${text}`);
-      }
-    } catch {
-      throw new Error(`Brevo API error ${res.status} (and failed to read response body)`);
-    }
-  }
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    attachments: [attachment],
+    related: opts.invoiceId ? { type: 'Invoice', id: opts.invoiceId } : null,
+    dedupeKey: opts.dedupeKey ?? null,
+  });
+  if (!queued.ok) throw new Error(queued.error);
 }
 
 /* ---------------------- Process wrapper ------------------------------ */
-export async function processInvoice(invoice: InvoiceData, company: CompanyInfo): Promise<void> {
+export async function processInvoice(
+  invoice: InvoiceData,
+  company: CompanyInfo,
+  opts: { invoiceId?: string; dedupeKey?: string } = {}
+): Promise<void> {
   try {
     console.log(`[Invoice] Generating invoice for order ${invoice.orderId}`);
     const pdfBuffer = await generateInvoicePDF(invoice, company);
-    console.log(`[Invoice] Sending invoice email to ${invoice.client.email}`);
-    await sendInvoiceEmail(invoice, pdfBuffer);
-    console.log(`[Invoice] Invoice sent successfully for order ${invoice.orderId}`);
+    console.log(`[Invoice] Queueing invoice email to ${invoice.client.email}`);
+    await sendInvoiceEmail(invoice, pdfBuffer, opts);
+    console.log(`[Invoice] Invoice email queued for order ${invoice.orderId}`);
   } catch (error) {
     console.error('[Invoice] Error processing invoice:', error);
     throw error;
   }
 }
-
-/* ---------------------- Utilities ----------------------------------- */
-// Minimal HTML-escaping to avoid injection in the email body.
-function escapeHtml(input: string): string {
-  return input
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
-}
\ No newline at end of file
@@ -0,0 +1,181 @@
+import Invoice from '@/models/Invoice';
+import { invoiceOutstanding } from '@/lib/invoicePayments';
+import type { StatementData } from '@/lib/manualInvoiceService';
+
+/*
+ * Who owes what on manual invoices. Invoices don't reference a Client record, so
+ * a client is identified by its email (lower-cased) or, failing that, its name.
+ * Balances are split into ageing buckets by days past the due date; an invoice
+ * without a due date counts as current.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGING_BUCKETS = ['current', '1-30', '31-60', '61-90', '90+'] as const;
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  '1-30': '1–30 days',
+  '31-60': '31–60 days',
+  '61-90': '61–90 days',
+  '90+': 'Over 90 days',
+};
+
+type OpenInvoiceRow = {
+  _id: unknown;
+  orderNumber: string;
+  createdAt?: Date;
+  dueDate?: Date | null;
+  total?: number;
+  amountPaid?: number;
+  creditedAmount?: number;
+  paymentStatus?: string;
+  currency?: string;
+  client?: { name?: string; email?: string; phone?: string } | null;
+  billingAddress?: StatementData['address'];
+  shippingAddress?: StatementData['address'];
+};
+
+export type AgedDebtorRow = {
+  clientKey: string;
+  name: string;
+  email: string | null;
+  currency: string;
+  invoices: number;
+  oldestDueDate: Date | null;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+};
+
+/** Whole UTC days from the due date to `now`: negative before it, 0 on the day */
+export function daysPastDue(dueDate: Date, now = new Date()): number {
+  const day = (d: Date) => Math.floor(d.getTime() / DAY_MS);
+  return day(now) - day(dueDate);
+}
+
+export function agingBucket(dueDate: Date | null | undefined, now = new Date()): AgingBucket {
+  if (!dueDate) return 'current';
+  const days = daysPastDue(dueDate, now);
+  if (days <= 0) return 'current';
+  if (days <= 30) return '1-30';
+  if (days <= 60) return '31-60';
+  if (days <= 90) return '61-90';
+  return '90+';
+}
+
+export function clientKeyOf(client?: { name?: string | null; email?: string | null } | null): string {
+  const email = client?.email?.trim().toLowerCase();
+  if (email) return email;
+  return `name:${(client?.name || '').trim().toLowerCase()}`;
+}
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function openInvoiceQuery(clientKey?: string): Record<string, unknown> {
+  const query: Record<string, unknown> = { source: 'manual', paymentStatus: { $in: ['unpaid', 'partial'] } };
+  if (clientKey) {
+    // Stored as typed, so match case-insensitively
+    query[clientKey.startsWith('name:') ? 'client.name' : 'client.email'] = new RegExp(
+      `^\\s*${escapeRegex(clientKey.replace(/^name:/, ''))}\\s*$`,
+      'i'
+    );
+  }
+  return query;
+}
+
+function emptyBuckets(): Record<AgingBucket, number> {
+  return { current: 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** One row per client and currency with open balances, biggest debt first */
+export async function buildAgedDebtors(now = new Date()): Promise<{ rows: AgedDebtorRow[]; totals: Record<string, Record<AgingBucket, number>> }> {
+  const invoices = (await Invoice.find(openInvoiceQuery())
+    .select('orderNumber dueDate total amountPaid creditedAmount paymentStatus currency client')
+    .lean()
+    .exec()) as unknown as OpenInvoiceRow[];
+
+  const rows = new Map<string, AgedDebtorRow>();
+  const totals: Record<string, Record<AgingBucket, number>> = {};
+  for (const inv of invoices) {
+    const balance = invoiceOutstanding(inv);
+    if (balance <= 0) continue;
+    const currency = (inv.currency || 'gbp').toUpperCase();
+    const clientKey = clientKeyOf(inv.client);
+    const key = `${clientKey}|${currency}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        clientKey,
+        name: inv.client?.name || inv.client?.email || 'Unnamed client',
+        email: inv.client?.email?.trim() || null,
+        currency,
+        invoices: 0,
+        oldestDueDate: null,
+        buckets: emptyBuckets(),
+        total: 0,
+      };
+      rows.set(key, row);
+    }
+    const bucket = agingBucket(inv.dueDate, now);
+    row.invoices += 1;
+    row.buckets[bucket] = round2(row.buckets[bucket] + balance);
+    row.total = round2(row.total + balance);
+    if (inv.dueDate && (!row.oldestDueDate || inv.dueDate < row.oldestDueDate)) row.oldestDueDate = inv.dueDate;
+
+    totals[currency] ??= emptyBuckets();
+    totals[currency][bucket] = round2(totals[currency][bucket] + balance);
+  }
+
+  return { rows: [...rows.values()].sort((a, b) => b.total - a.total), totals };
+}
+
+/** Open invoices for one client in one currency, ready for generateStatementPDF; null if there are none */
+export async function buildClientStatement(clientKey: string, currency = 'GBP', now = new Date()): Promise<StatementData | null> {
+  const invoices = ((await Invoice.find(openInvoiceQuery(clientKey))
+    .select('orderNumber createdAt dueDate total amountPaid creditedAmount paymentStatus currency client billingAddress shippingAddress')
+    .sort({ dueDate: 1, createdAt: 1 })
+    .lean()
+    .exec()) as unknown as OpenInvoiceRow[]).filter(
+    (inv) => (inv.currency || 'gbp').toUpperCase() === currency.toUpperCase() && invoiceOutstanding(inv) > 0
+  );
+  if (invoices.length === 0) return null;
+
+  const buckets = emptyBuckets();
+  const lines = invoices.map((inv) => {
+    const balance = invoiceOutstanding(inv);
+    const bucket = agingBucket(inv.dueDate, now);
+    buckets[bucket] = round2(buckets[bucket] + balance);
+    const days = inv.dueDate ? daysPastDue(inv.dueDate, now) : null;
+    return {
+      invoiceNumber: inv.orderNumber,
+      date: inv.createdAt ?? null,
+      dueDate: inv.dueDate ?? null,
+      total: inv.total ?? 0,
+      amountPaid: inv.amountPaid ?? 0,
+      credited: inv.creditedAmount ?? 0,
+      balance,
+      daysOverdue: days !== null && days > 0 ? days : null,
+    };
+  });
+
+  // Latest invoice has the most up-to-date details
+  const latest = invoices.reduce((a, b) => ((b.createdAt ?? 0) > (a.createdAt ?? 0) ? b : a));
+  return {
+    client: {
+      name: latest.client?.name || latest.client?.email || 'Client',
+      email: latest.client?.email ?? null,
+      phone: latest.client?.phone ?? null,
+    },
+    address: latest.billingAddress ?? latest.shippingAddress ?? null,
+    currency: currency.toUpperCase(),
+    date: now,
+    lines,
+    aging: AGING_BUCKETS.map((b) => ({ label: AGING_BUCKET_LABELS[b], amount: buckets[b] })),
+    totalDue: round2(lines.reduce((sum, l) => sum + l.balance, 0)),
+  };
+}
@@ -0,0 +1,363 @@
+import { randomUUID } from 'crypto';
+import Stripe from 'stripe';
+import JobLock, { IJobLock } from '@/models/JobLock';
+import JobRun, { IJobRun, JobRunStatus, JobTrigger } from '@/models/JobRun';
+import Course from '@/models/Class';
+import { CronSchedule, nextOccurrence, parseCron, previousOccurrence } from '@/lib/cron';
+import { refreshGoogleReviews } from '@/lib/reviews';
+import { checkOverdueInvoices } from '@/lib/overdueInvoices';
+import { sendDueInvoiceReminders } from '@/lib/invoiceReminders';
+import { dropLegacyReservationTtlIndex, releaseExpiredReservations } from '@/lib/stockReservations';
+import { expireBookingHolds } from '@/lib/classBookings';
+import { expireWaitlistOffers } from '@/lib/classWaitlist';
+import { sendDueClassReminders } from '@/lib/classReminders';
+import { runDueSubscriptionRenewals } from '@/lib/subscriptions';
+import { runAbandonedCheckoutEmails } from '@/lib/checkoutRecovery';
+import { runOutbox } from '@/lib/outbox';
+
+/*
+ * Housekeeping that runs on a schedule. /api/jobs/run is hit by Vercel cron every
+ * few minutes and runs whichever jobs have a scheduled slot they haven't covered
+ * yet; if several slots were missed only the latest one runs. A JobLock per job
+ * makes sure only one instance runs it at a time, and every run is recorded as a
+ * JobRun for /admin/jobs, where jobs can also be started by hand.
+ *
+ * A tick has RUN_BUDGET_MS in total: due jobs run oldest slot first, and whatever
+ * doesn't get started stays due for the next tick. Each job also gets a deadline
+ * (its own budgetMs, capped by what's left of the tick). Batch jobs stop there,
+ * and when they return `unfinished: true` their slot isn't marked as covered, so
+ * the next tick carries on with the rest.
+ *
+ * A scheduled run that fails also keeps its slot due, and is retried after
+ * RETRY_BACKOFF_MS, doubling each time; after MAX_RETRIES failed retries the slot
+ * is given up on and the job waits for its next one.
+ */
+
+type JobResult = Record<string, unknown>;
+
+type JobDefinition = {
+  name: string;
+  label: string;
+  description: string;
+  schedule: string; // five-field cron, UTC
+  // How long a run may hold the lock before another instance may take over
+  lockMs?: number;
+  // How long a run should keep going before stopping for the next tick
+  budgetMs?: number;
+  // `deadline` is a Date.now() timestamp
+  run: (now: Date, deadline: number) => Promise<JobResult>;
+};
+
+const DEFAULT_LOCK_MS = 5 * 60 * 1000;
+const DEFAULT_JOB_BUDGET_MS = 20 * 1000;
+// Kept under the route's maxDuration so the tick can record its runs
+const RUN_BUDGET_MS = 45 * 1000;
+const RETRY_BACKOFF_MS = 5 * 60 * 1000;
+const MAX_RETRIES = 3;
+// A job that has never run picks up a slot from at most this far back
+const FIRST_RUN_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+function requireStripe(): Stripe {
+  const stripeSecret = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecret) throw new Error('Server misconfigured: missing STRIPE_SECRET_KEY');
+  return new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' });
+}
+
+const JOBS: JobDefinition[] = [
+  {
+    name: 'email-outbox',
+    label: 'Email outbox',
+    description: 'Delivers queued emails that are due, retrying failures with backoff.',
+    schedule: '*/5 * * * *',
+    run: async (_now, deadline) => runOutbox({ budgetMs: deadline - Date.now() }),
+  },
+  {
+    name: 'subscription-renewals',
+    label: 'Subscription renewals',
+    description: 'Charges every active coffee subscription whose renewal date has passed.',
+    schedule: '0 6 * * *',
+    lockMs: 10 * 60 * 1000,
+    budgetMs: 40 * 1000,
+    run: async (now, deadline) => runDueSubscriptionRenewals(requireStripe(), now, deadline),
+  },
+  {
+    name: 'checkout-recovery',
+    label: 'Abandoned checkout emails',
+    description: 'Sends the next abandoned-checkout email to every checkout that is due one.',
+    schedule: '15 * * * *',
+    run: async (now, deadline) => runAbandonedCheckoutEmails(requireStripe(), now, deadline),
+  },
+  {
+    name: 'class-session-cleanup',
+    label: 'Class session cleanup',
+    description: 'Removes class sessions that have already ended and gives older sessions a stored id.',
+    schedule: '*/15 * * * *',
+    run: async () => ({ ...(await Course.cleanupExpiredSessions()), idsBackfilled: (await Course.backfillSessionIds()).modifiedCount }),
+  },
+  {
+    name: 'release-stale-reservations',
+    label: 'Release stale reservations',
+    description: 'Marks checkout stock holds that expired without payment as released.',
+    schedule: '*/15 * * * *',
+    run: async (now) => ({
+      released: await releaseExpiredReservations(now),
+      legacyTtlIndexDropped: await dropLegacyReservationTtlIndex(),
+    }),
+  },
+  {
+    name: 'release-booking-holds',
+    label: 'Release unpaid class bookings',
+    description: 'Cancels class bookings whose payment was never completed and gives their seats back.',
+    schedule: '*/15 * * * *',
+    run: async (now) => expireBookingHolds(now),
+  },
+  {
+    name: 'waitlist-offers',
+    label: 'Pass on waitlist offers',
+    description: 'Expires unclaimed class waitlist offers and offers their seats to the next people in line.',
+    schedule: '*/15 * * * *',
+    run: async (now) => expireWaitlistOffers(now),
+  },
+  {
+    name: 'class-reminders',
+    label: 'Class reminders',
+    description: 'Emails customers 48 hours and 2 hours before their class, with the things to note.',
+    schedule: '*/15 * * * *',
+    run: async (now) => sendDueClassReminders(now),
+  },
+  {
+    name: 'overdue-invoices',
+    label: 'Overdue invoices',
+    description: 'Flags unpaid invoices past their due date and emails the admin about new ones.',
+    schedule: '0 7 * * *',
+    run: async (now) => checkOverdueInvoices(now),
+  },
+  {
+    name: 'invoice-reminders',
+    label: 'Invoice reminders',
+    description: 'Emails clients about manual invoices coming due or overdue, on the schedule set on the invoices page.',
+    schedule: '0 9 * * *',
+    lockMs: 15 * 60 * 1000,
+    run: async (now) => sendDueInvoiceReminders(now),
+  },
+  {
+    name: 'refresh-reviews',
+    label: 'Refresh Google reviews',
+    description: 'Fetches the latest Google reviews and rating for the site.',
+    schedule: '0 8 * * *',
+    lockMs: 2 * 60 * 1000,
+    run: async () => refreshGoogleReviews(),
+  },
+];
+
+// Parsed once so a bad expression fails at startup rather than on the first tick
+const SCHEDULES = new Map<string, CronSchedule>(JOBS.map((job) => [job.name, parseCron(job.schedule)]));
+
+export const JOB_NAMES = JOBS.map((job) => job.name);
+
+function findJob(name: string) {
+  return JOBS.find((job) => job.name === name) ?? null;
+}
+
+/* ---------------------------------- Locks ---------------------------------- */
+
+/** Takes the job's lock if nobody holds it; null when another run has it */
+async function acquireLock(job: JobDefinition, holder: string, now: Date): Promise<IJobLock | null> {
+  try {
+    return await JobLock.findOneAndUpdate(
+      { name: job.name, $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }] },
+      { $set: { lockedUntil: new Date(now.getTime() + (job.lockMs ?? DEFAULT_LOCK_MS)), lockedBy: holder } },
+      { upsert: true, new: true }
+    ).exec();
+  } catch (err) {
+    // Upserting while someone else holds the lock collides with their document
+    if ((err as { code?: number }).code === 11000) return null;
+    throw err;
+  }
+}
+
+async function releaseLock(
+  name: string,
+  holder: string,
+  status: JobRunStatus,
+  scheduledFor: Date | null,
+  retry: { failures: number; retryAt: Date | null } | null
+) {
+  const set: Record<string, unknown> = { lockedUntil: null, lockedBy: null, lastRunAt: new Date(), lastStatus: status };
+  if (scheduledFor) set.lastScheduledFor = scheduledFor;
+  if (retry) Object.assign(set, retry);
+  await JobLock.updateOne({ name, lockedBy: holder }, { $set: set }).exec();
+}
+
+/** The slot a job should run for now, or null if its latest slot has been covered (or is waiting to retry) */
+function dueSlot(
+  job: JobDefinition,
+  lock: Pick<IJobLock, 'lastScheduledFor' | 'retryAt'> | null,
+  now: Date
+): Date | null {
+  if (lock?.retryAt && lock.retryAt > now) return null;
+  const after = lock?.lastScheduledFor ?? new Date(now.getTime() - FIRST_RUN_LOOKBACK_MS);
+  return previousOccurrence(SCHEDULES.get(job.name)!, now, after);
+}
+
+/* --------------------------------- Running --------------------------------- */
+
+export type JobRunRecord = Pick<IJobRun, 'job' | 'trigger' | 'status' | 'scheduledFor' | 'durationMs' | 'result' | 'error'> & {
+  id: string;
+};
+
+async function execute(
+  job: JobDefinition,
+  holder: string,
+  opts: {
+    trigger: JobTrigger;
+    triggeredBy?: string | null;
+    scheduledFor?: Date | null;
+    deadline?: number;
+    failures?: number; // earlier failed runs for this slot
+  }
+): Promise<JobRunRecord> {
+  const startedAt = new Date();
+  const deadline = Math.min(startedAt.getTime() + (job.budgetMs ?? DEFAULT_JOB_BUDGET_MS), opts.deadline ?? Infinity);
+  const run = await JobRun.create({
+    job: job.name,
+    trigger: opts.trigger,
+    triggeredBy: opts.triggeredBy ?? null,
+    status: 'running',
+    scheduledFor: opts.scheduledFor ?? null,
+    startedAt,
+  });
+
+  let status: JobRunStatus = 'succeeded';
+  let result: JobResult | null = null;
+  let error: string | null = null;
+  try {
+    result = await job.run(startedAt, deadline);
+  } catch (err) {
+    status = 'failed';
+    error = err instanceof Error ? err.message : String(err);
+    console.error(`[Jobs] ${job.name} failed:`, err);
+  }
+
+  const finishedAt = new Date();
+  const durationMs = finishedAt.getTime() - startedAt.getTime();
+  await JobRun.updateOne({ _id: run._id }, { $set: { status, result, error, finishedAt, durationMs } }).exec();
+  // An unfinished run leaves its slot due so the next tick picks up the rest; a failed
+  // one leaves it due for a retry with backoff, until it has used up its retries.
+  // Manual runs leave the schedule alone.
+  let covered = result?.unfinished ? null : (opts.scheduledFor ?? null);
+  let retry: { failures: number; retryAt: Date | null } | null = null;
+  if (opts.scheduledFor) {
+    const failures = status === 'failed' ? (opts.failures ?? 0) + 1 : 0;
+    if (failures > 0 && failures <= MAX_RETRIES) {
+      covered = null;
+      retry = { failures, retryAt: new Date(finishedAt.getTime() + RETRY_BACKOFF_MS * 2 ** (failures - 1)) };
+    } else {
+      if (failures > MAX_RETRIES) console.error(`[Jobs] ${job.name} gave up on its ${opts.scheduledFor.toISOString()} slot`);
+      retry = { failures: 0, retryAt: null };
+    }
+  }
+  await releaseLock(job.name, holder, status, covered, retry);
+
+  return {
+    id: String(run._id),
+    job: job.name,
+    trigger: opts.trigger,
+    status,
+    scheduledFor: opts.scheduledFor ?? null,
+    durationMs,
+    result,
+    error,
+  };
+}
+
+export type DueJobsSummary = {
+  ran: { job: string; status: JobRunStatus; durationMs?: number | null }[];
+  // Due, but another instance was already running them
+  busy: string[];
+  // Due, but the tick ran out of time before starting them
+  deferred: string[];
+};
+
+/** Runs due jobs one after another, oldest slot first, until the tick's budget is spent */
+export async function runDueJobs(now = new Date()): Promise<DueJobsSummary> {
+  const deadline = now.getTime() + RUN_BUDGET_MS;
+  const locks = await JobLock.find({ name: { $in: JOB_NAMES } }).lean().exec();
+  const summary: DueJobsSummary = { ran: [], busy: [], deferred: [] };
+
+  const due = JOBS.flatMap((job) => {
+    const slot = dueSlot(job, locks.find((l) => l.name === job.name) ?? null, now);
+    return slot ? [{ job, slot }] : [];
+  }).sort((a, b) => a.slot.getTime() - b.slot.getTime());
+
+  for (const { job } of due) {
+    if (Date.now() >= deadline) {
+      summary.deferred.push(job.name);
+      continue;
+    }
+
+    const holder = randomUUID();
+    const lock = await acquireLock(job, holder, new Date());
+    if (!lock) {
+      summary.busy.push(job.name);
+      continue;
+    }
+    // Another instance may have covered the slot between our read and taking the lock
+    const slot = dueSlot(job, lock, now);
+    if (!slot) {
+      await JobLock.updateOne({ name: job.name, lockedBy: holder }, { $set: { lockedUntil: null, lockedBy: null } }).exec();
+      continue;
+    }
+
+    const run = await execute(job, holder, { trigger: 'schedule', scheduledFor: slot, deadline, failures: lock.failures ?? 0 });
+    summary.ran.push({ job: job.name, status: run.status, durationMs: run.durationMs });
+  }
+  return summary;
+}
+
+export type RunJobResult = { ok: true; run: JobRunRecord } | { ok: false; status: number; error: string };
+
+/** Runs one job straight away, outside its schedule (admin button, legacy cron routes) */
+export async function runJob(name: string, opts: { triggeredBy?: string | null } = {}): Promise<RunJobResult> {
+  const job = findJob(name);
+  if (!job) return { ok: false, status: 404, error: 'Unknown job' };
+
+  const holder = randomUUID();
+  const lock = await acquireLock(job, holder, new Date());
+  if (!lock) return { ok: false, status: 409, error: 'This job is already running' };
+
+  const run = await execute(job, holder, { trigger: 'manual', triggeredBy: opts.triggeredBy ?? null });
+  return { ok: true, run };
+}
+
+/* --------------------------------- Status ---------------------------------- */
+
+export type JobStatus = {
+  name: string;
+  label: string;
+  description: string;
+  schedule: string;
+  running: boolean;
+  lastRunAt: Date | null;
+  lastStatus: string | null;
+  lastScheduledFor: Date | null;
+  nextRunAt: Date | null;
+};
+
+export async function listJobStatus(now = new Date()): Promise<JobStatus[]> {
+  const locks = await JobLock.find({ name: { $in: JOB_NAMES } }).lean().exec();
+  return JOBS.map((job) => {
+    const lock = locks.find((l) => l.name === job.name);
+    return {
+      name: job.name,
+      label: job.label,
+      description: job.description,
+      schedule: job.schedule,
+      running: !!lock?.lockedUntil && lock.lockedUntil > now,
+      lastRunAt: lock?.lastRunAt ?? null,
+      lastStatus: lock?.lastStatus ?? null,
+      lastScheduledFor: lock?.lastScheduledFor ?? null,
+      nextRunAt: lock?.retryAt && lock.retryAt > now ? lock.retryAt : nextOccurrence(SCHEDULES.get(job.name)!, now),
+    };
+  });
+}
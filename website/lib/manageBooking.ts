@@ -0,0 +1,410 @@
+import Stripe from 'stripe';
+import mongoose from 'mongoose';
+import Booking, { IBooking, IBookingChange } from '@/models/Booking';
+import Course from '@/models/Class';
+import Settings from '@/models/Settings';
+import { claimSeats, sessionAvailability, sessionCapacity, sessionKey, type SessionLike } from '@/lib/classSeats';
+import { releaseSeats } from '@/lib/classBookings';
+import { issueCreditNote } from '@/lib/creditNotes';
+import { notifyBookingCancelledToCustomer, notifyBookingToCustomer } from '@/lib/notifyBooking';
+import { notifyAdminBookingChange } from '@/lib/notifyAdminBooking';
+
+/*
+ * Customer self-service on class bookings, reached through the signed link in
+ * the confirmation email (lib/bookingLinks). A confirmed booking can be
+ * cancelled or moved to another session of the same course until
+ * Settings.bookingChangeCutoffHours before it starts. Cancelling gives the seats
+ * back and refunds Settings.bookingCancelRefundPercent of what was paid, with a
+ * credit note against the booking's invoice; moving claims seats on the new
+ * session before letting go of the old ones. Every change is kept in
+ * Booking.history and emailed to the admins; the customer's email carries a
+ * calendar update for the same event (lib/classCalendar).
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEFAULT_BOOKING_CHANGE_SETTINGS = { cutoffHours: 48, refundPercent: 100 };
+const MAX_CUTOFF_HOURS = 24 * 60;
+
+export type BookingChangeSettings = { cutoffHours: number; refundPercent: number };
+
+type ManageCourse = {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  location?: string;
+  capacity?: number;
+  sessions?: SessionLike[];
+};
+
+export type ManageableSession = { id: string; start: string | null; end: string | null; remaining: number };
+
+export type ManageableBooking = {
+  bookingRef: string;
+  status: IBooking['status'];
+  courseTitle: string;
+  location: string | null;
+  name: string;
+  attendees: number;
+  amount: number;
+  refundedAmount: number;
+  sessionStart: string | null;
+  sessionEnd: string | null;
+  changesCloseAt: string | null;
+  blocker: string | null; // why it can't be changed online, or null if it can
+  refundAmount: number; // what cancelling now would refund
+  settings: BookingChangeSettings;
+  sessions: ManageableSession[]; // sessions it can move to
+  history: { action: IBookingChange['action']; at: string; fromSessionStart: string | null; toSessionStart: string | null; refundAmount: number | null }[];
+};
+
+export type BookingChangeResult =
+  | { ok: true; booking: IBooking; refundAmount?: number; refundError?: string | null }
+  | { ok: false; status: number; error: string };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const iso = (d?: Date | string | null) => (d ? new Date(d).toISOString() : null);
+
+function getStripe(): Stripe | null {
+  const stripeSecret = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecret) return null;
+  return new Stripe(stripeSecret, { apiVersion: '2025-12-15.clover' });
+}
+
+export async function getBookingChangeSettings(): Promise<BookingChangeSettings> {
+  const doc = await Settings.findOne().select('bookingChangeCutoffHours bookingCancelRefundPercent').lean().exec();
+  return {
+    cutoffHours: doc?.bookingChangeCutoffHours ?? DEFAULT_BOOKING_CHANGE_SETTINGS.cutoffHours,
+    refundPercent: doc?.bookingCancelRefundPercent ?? DEFAULT_BOOKING_CHANGE_SETTINGS.refundPercent,
+  };
+}
+
+/** Validates settings from the admin; throws with a message to show them */
+export function parseBookingChangeSettings(body: Record<string, unknown>): Partial<BookingChangeSettings> {
+  const out: Partial<BookingChangeSettings> = {};
+  if (body.cutoffHours !== undefined) {
+    const n = Number(body.cutoffHours);
+    if (!Number.isInteger(n) || n < 0 || n > MAX_CUTOFF_HOURS) {
+      throw new Error(`Cut-off must be a whole number of hours between 0 and ${MAX_CUTOFF_HOURS}`);
+    }
+    out.cutoffHours = n;
+  }
+  if (body.refundPercent !== undefined) {
+    const n = Number(body.refundPercent);
+    if (!Number.isFinite(n) || n < 0 || n > 100) throw new Error('Refund must be between 0 and 100 percent');
+    out.refundPercent = n;
+  }
+  return out;
+}
+
+function changesCloseAt(booking: IBooking, settings: BookingChangeSettings): Date | null {
+  return booking.sessionStart ? new Date(booking.sessionStart.getTime() - settings.cutoffHours * HOUR_MS) : null;
+}
+
+/** Why the customer can't change this booking online, or null if they can */
+function changeBlocker(booking: IBooking, settings: BookingChangeSettings, now: Date): string | null {
+  if (booking.status === 'cancelled') return 'This booking has been cancelled.';
+  if (booking.status === 'pending') return 'This booking is still waiting for payment.';
+  const closesAt = changesCloseAt(booking, settings);
+  if (!closesAt) return 'This booking can’t be changed online. Please contact us.';
+  if (closesAt <= now) {
+    return `Bookings can be changed online up to ${settings.cutoffHours} hours before the class. Please contact us.`;
+  }
+  return null;
+}
+
+/** The share of what's been paid (and not yet refunded) that cancelling gives back */
+function cancelRefund(booking: IBooking, settings: BookingChangeSettings): number {
+  if (!booking.paidAt || !booking.paymentIntentId) return 0;
+  const refundable = Math.max(0, Number(booking.amount ?? 0) - Number(booking.refundedAmount ?? 0));
+  return round2((refundable * settings.refundPercent) / 100);
+}
+
+async function loadBooking(bookingId: string): Promise<IBooking | null> {
+  return mongoose.Types.ObjectId.isValid(bookingId) ? Booking.findById(bookingId).exec() : null;
+}
+
+/** Other sessions of the course that start after the cut-off and have room for the whole party */
+async function sessionsToMoveTo(
+  course: ManageCourse,
+  booking: IBooking,
+  settings: BookingChangeSettings,
+  now: Date
+): Promise<ManageableSession[]> {
+  const earliest = now.getTime() + settings.cutoffHours * HOUR_MS;
+  const seats = (await sessionAvailability([course])).get(String(course._id));
+  return (course.sessions ?? [])
+    .filter((s) => s.start && new Date(s.start).getTime() > earliest && sessionKey(s) !== booking.sessionId)
+    .map((s) => ({ id: sessionKey(s), start: iso(s.start), end: iso(s.end), remaining: seats?.get(sessionKey(s))?.remaining ?? 0 }))
+    .filter((s) => s.remaining >= booking.attendees)
+    .sort((a, b) => String(a.start).localeCompare(String(b.start)));
+}
+
+/** What the manage-booking page shows: the booking, whether it can change, and where it can move */
+export async function getManageableBooking(bookingId: string, now = new Date()): Promise<ManageableBooking | null> {
+  const booking = await loadBooking(bookingId);
+  if (!booking) return null;
+  const [course, settings] = await Promise.all([
+    Course.findById(booking.courseId).select('title location capacity sessions').lean<ManageCourse>().exec(),
+    getBookingChangeSettings(),
+  ]);
+  const blocker = changeBlocker(booking, settings, now);
+
+  return {
+    bookingRef: booking.bookingRef,
+    status: booking.status,
+    courseTitle: course?.title ?? 'Class',
+    location: course?.location || null,
+    name: booking.name,
+    attendees: booking.attendees,
+    amount: Number(booking.amount ?? 0),
+    refundedAmount: Number(booking.refundedAmount ?? 0),
+    sessionStart: iso(booking.sessionStart),
+    sessionEnd: iso(booking.sessionEnd),
+    changesCloseAt: iso(changesCloseAt(booking, settings)),
+    blocker,
+    refundAmount: blocker ? 0 : cancelRefund(booking, settings),
+    settings,
+    sessions: !blocker && course ? await sessionsToMoveTo(course, booking, settings, now) : [],
+    history: (booking.history ?? []).map((h) => ({
+      action: h.action,
+      at: new Date(h.at).toISOString(),
+      fromSessionStart: iso(h.fromSessionStart),
+      toSessionStart: iso(h.toSessionStart),
+      refundAmount: h.refundAmount ?? null,
+    })),
+  };
+}
+
+/**
+ * Cancels a confirmed booking for the customer. The booking is cancelled and its
+ * seats go back before any money moves; a refund that fails is left on the
+ * admin email to do by hand rather than undoing the cancellation.
+ */
+export async function cancelBookingByCustomer(bookingId: string, now = new Date()): Promise<BookingChangeResult> {
+  const booking = await loadBooking(bookingId);
+  if (!booking) return { ok: false, status: 404, error: 'Booking not found' };
+  const settings = await getBookingChangeSettings();
+  const blocker = changeBlocker(booking, settings, now);
+  if (blocker) return { ok: false, status: 400, error: blocker };
+
+  const refundAmount = cancelRefund(booking, settings);
+  const change: IBookingChange = {
+    id: new mongoose.Types.ObjectId().toString(),
+    action: 'cancelled',
+    by: 'customer',
+    at: now,
+    fromSessionId: booking.sessionId ?? null,
+    fromSessionStart: booking.sessionStart ?? null,
+    refundAmount: refundAmount || null,
+  };
+  const cancelled = await Booking.findOneAndUpdate(
+    { _id: booking._id, status: 'confirmed' },
+    {
+      $set: { status: 'cancelled', cancelledAt: now, cancelReason: 'cancelled_by_customer' },
+      $push: { history: change },
+    },
+    { new: true }
+  ).exec();
+  if (!cancelled) return { ok: false, status: 409, error: 'This booking has already been changed' };
+
+  await releaseSeats(cancelled);
+  const refundError = refundAmount > 0 ? await refundCancelledBooking(cancelled, change.id!, refundAmount) : null;
+
+  const course = await Course.findById(cancelled.courseId).select('title location').lean<ManageCourse>().exec();
+  try {
+    const res = await notifyBookingCancelledToCustomer({
+      booking: {
+        _id: cancelled._id as mongoose.Types.ObjectId,
+        bookingRef: cancelled.bookingRef,
+        courseTitle: course?.title,
+        sessionStart: cancelled.sessionStart,
+        sessionEnd: cancelled.sessionEnd,
+        name: cancelled.name,
+        email: cancelled.email,
+        attendees: cancelled.attendees,
+        location: course?.location,
+        history: cancelled.history,
+      },
+      refundAmount: refundError ? null : refundAmount,
+    });
+    if (!res.sent) console.warn('Booking cancellation email failed:', res.error);
+  } catch (emailErr) {
+    console.warn('Booking cancellation email failed:', emailErr);
+  }
+  await sendChangeNotification(cancelled, course?.title ?? 'Class', {
+    change: 'cancelled',
+    fromSessionStart: change.fromSessionStart,
+    fromSessionEnd: booking.sessionEnd,
+    refundAmount: refundAmount || null,
+    refundError,
+  });
+  return { ok: true, booking: cancelled, refundAmount, refundError };
+}
+
+/**
+ * Moves a confirmed booking to another session of the same course. Seats on the
+ * new session are claimed first, so a move never oversells it; the old seats go
+ * back (and on to the waitlist) once the booking points at the new session.
+ */
+export async function rescheduleBookingByCustomer(
+  bookingId: string,
+  toSessionId: unknown,
+  now = new Date()
+): Promise<BookingChangeResult> {
+  if (typeof toSessionId !== 'string' || !toSessionId) return { ok: false, status: 400, error: 'Choose a session to move to' };
+  const booking = await loadBooking(bookingId);
+  if (!booking) return { ok: false, status: 404, error: 'Booking not found' };
+  const settings = await getBookingChangeSettings();
+  const blocker = changeBlocker(booking, settings, now);
+  if (blocker) return { ok: false, status: 400, error: blocker };
+  if (toSessionId === booking.sessionId) return { ok: false, status: 400, error: 'You are already booked on this session' };
+
+  const course = await Course.findById(booking.courseId).select('title location capacity sessions').lean<ManageCourse>().exec();
+  const target = course?.sessions?.find((s) => sessionKey(s) === toSessionId);
+  if (!course || !target) return { ok: false, status: 404, error: 'Session not found' };
+  const targetStart = target.start ? new Date(target.start) : null;
+  if (!targetStart || targetStart.getTime() <= now.getTime() + settings.cutoffHours * HOUR_MS) {
+    return { ok: false, status: 400, error: 'That session is too soon to move to online. Please contact us.' };
+  }
+
+  const claim = await claimSeats(course._id, toSessionId, sessionCapacity(course, target), booking.attendees);
+  if (!claim.ok) {
+    return {
+      ok: false,
+      status: 409,
+      error: claim.remaining === 0 ? 'That session is sold out' : `Only ${claim.remaining} ${claim.remaining === 1 ? 'seat is' : 'seats are'} left on that session`,
+    };
+  }
+
+  const change: IBookingChange = {
+    id: new mongoose.Types.ObjectId().toString(),
+    action: 'rescheduled',
+    by: 'customer',
+    at: now,
+    fromSessionId: booking.sessionId ?? null,
+    fromSessionStart: booking.sessionStart ?? null,
+    toSessionId,
+    toSessionStart: targetStart,
+  };
+  const moved = await Booking.findOneAndUpdate(
+    { _id: booking._id, status: 'confirmed', sessionId: booking.sessionId ?? null },
+    {
+      // Reminders start again for the new date; links to the old date stop working
+      $set: { sessionId: toSessionId, sessionStart: targetStart, sessionEnd: target.end ? new Date(target.end) : null, remindersSent: [] },
+      $inc: { manageLinkVersion: 1 },
+      $push: { history: change },
+    },
+    { new: true }
+  ).exec();
+  if (!moved) {
+    await releaseSeats({ courseId: course._id, sessionId: toSessionId, attendees: booking.attendees });
+    return { ok: false, status: 409, error: 'This booking has already been changed' };
+  }
+  await releaseSeats(booking);
+
+  try {
+    const res = await notifyBookingToCustomer({
+      booking: {
+        _id: moved._id as mongoose.Types.ObjectId,
+        bookingRef: moved.bookingRef,
+        courseTitle: course.title,
+        sessionStart: moved.sessionStart,
+        sessionEnd: moved.sessionEnd,
+        name: moved.name,
+        email: moved.email,
+        phone: moved.phone,
+        attendees: moved.attendees,
+        location: course.location,
+        history: moved.history,
+        manageLinkVersion: moved.manageLinkVersion,
+      },
+    });
+    if (!res.sent) console.warn('Rescheduled booking email failed:', res.error);
+  } catch (emailErr) {
+    console.warn('Rescheduled booking email failed:', emailErr);
+  }
+  await sendChangeNotification(moved, course.title, {
+    change: 'rescheduled',
+    fromSessionStart: booking.sessionStart,
+    fromSessionEnd: booking.sessionEnd,
+    toSessionStart: moved.sessionStart,
+    toSessionEnd: moved.sessionEnd,
+  });
+  return { ok: true, booking: moved };
+}
+
+/* ------------------------------ Side effects ------------------------------ */
+
+/**
+ * Refunds the card and credits the invoice; returns why the refund failed, or null.
+ * `changeId` is the history entry for the cancellation, which gets the refund id.
+ */
+async function refundCancelledBooking(booking: IBooking, changeId: string, amount: number): Promise<string | null> {
+  const stripe = getStripe();
+  if (!stripe || !booking.paymentIntentId) return 'online payments are not configured';
+
+  let refund: Stripe.Refund;
+  try {
+    refund = await stripe.refunds.create(
+      {
+        payment_intent: booking.paymentIntentId,
+        amount: Math.round(amount * 100),
+        reason: 'requested_by_customer',
+        metadata: { bookingId: String(booking._id), bookingRef: booking.bookingRef },
+      },
+      { idempotencyKey: `booking-cancel-${String(booking._id)}` }
+    );
+  } catch (err) {
+    console.error(`[ManageBooking] Refund failed for ${booking.bookingRef}:`, err);
+    await Booking.updateOne(
+      { _id: booking._id, 'history.id': changeId },
+      { $set: { 'history.$.note': 'Refund failed; to be refunded by hand' } }
+    ).exec();
+    return err instanceof Error ? err.message : 'Stripe refund failed';
+  }
+
+  await Booking.updateOne(
+    { _id: booking._id, 'history.id': changeId },
+    { $inc: { refundedAmount: amount }, $set: { 'history.$.refundId': refund.id } }
+  ).exec();
+
+  if (booking.invoiceId) {
+    try {
+      const credited = await issueCreditNote({
+        invoiceId: String(booking.invoiceId),
+        amount,
+        reason: `Booking ${booking.bookingRef} cancelled by the customer`,
+        refund: { refundId: refund.id, method: 'card' },
+      });
+      if (!credited.ok) console.error(`[ManageBooking] Could not credit refund ${refund.id}:`, credited.error);
+    } catch (err) {
+      // The money has moved; an admin can raise the credit note by hand
+      console.error(`[ManageBooking] Could not credit refund ${refund.id}:`, err);
+    }
+  }
+  return null;
+}
+
+async function sendChangeNotification(
+  booking: IBooking,
+  courseTitle: string,
+  change: Pick<
+    Parameters<typeof notifyAdminBookingChange>[0],
+    'change' | 'fromSessionStart' | 'fromSessionEnd' | 'toSessionStart' | 'toSessionEnd' | 'refundAmount' | 'refundError'
+  >
+): Promise<void> {
+  try {
+    const res = await notifyAdminBookingChange({
+      ...change,
+      bookingId: String(booking._id),
+      bookingRef: booking.bookingRef,
+      courseTitle,
+      name: booking.name,
+      email: booking.email,
+      attendees: booking.attendees,
+    });
+    if (!res.sent) console.warn('Admin booking change notification failed:', res.error);
+  } catch (adminErr) {
+    console.warn('Admin booking change notification error:', adminErr);
+  }
+}
@@ -1,6 +1,12 @@
 import { PDFDocument, StandardFonts, rgb, PDFFont } from 'pdf-lib';
 import fs from 'fs';
 import path from 'path';
+import type { VatBreakdownRow } from '@/lib/vat';
+import { enqueueEmail } from '@/lib/outbox';
+import { renderEmailTemplate } from '@/lib/emailTemplates';
+import type { CompanyInfo } from '@/lib/invoiceService';
+
+export type { CompanyInfo };
 
 /* ----------------------------- Types ---------------------------------- */
 type Nullable<T> = T | null | undefined;
@@ -10,6 +16,7 @@ interface InvoiceItem {
   qty: number;
   unitPrice: number;
   totalPrice: number;
+  vatRate?: number; // percent; prices include VAT
 }
 
 interface Address {
@@ -29,7 +36,11 @@ export interface InvoiceData {
   items: InvoiceItem[];
   subtotal: number;
   shipping: number;
+  discount?: number;
+  discountCode?: Nullable<string>;
   total: number;
+  vat?: number; // VAT included in the total
+  vatBreakdown?: VatBreakdownRow[];
   client: {
     name: string;
     email: string;
@@ -43,19 +54,8 @@ export interface InvoiceData {
   paymentIntentId?: Nullable<string>;
   currency?: string;
   notes?: string;
-}
-
-export interface CompanyInfo {
-  name?: string;
-  address?: string;
-  city?: string;
-  postcode?: string;
-  country?: string;
-  email?: string;
-  phone?: string;
-  vatNumber?: string;
-  website?: string;
-  logoPath?: string;
+  amountPaid?: number; // part payments so far; shown with the balance while the invoice is open
+  creditedAmount?: number; // credit notes issued against the invoice
 }
 
 /* -------------------------- Helpers ---------------------------------- */
@@ -138,6 +138,97 @@ function formatAddress(addr?: Nullable<Address>, clientName?: string): string[]
   return lines.filter(Boolean);
 }
 
+async function embedFonts(pdfDoc: PDFDocument): Promise<{ font: PDFFont; boldFont: PDFFont }> {
+  const fontBytes = tryLoadFontBytes();
+  try {
+    if (fontBytes) {
+      const font = await pdfDoc.embedFont(fontBytes);
+      console.log('[Invoice] Embedded custom TTF font for PDF');
+      return { font, boldFont: font };
+    }
+  } catch (err) {
+    console.warn('[Invoice] Failed to embed custom font, falling back to Helvetica:', (err as Error).message);
+  }
+  return {
+    font: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    boldFont: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+  };
+}
+
+function bankDetails(company: CompanyInfo): { label: string; value: string }[] {
+  return [
+    { label: 'Name',           value: 'COFFEE GENIUS' },
+    { label: 'Account Type',   value: 'Business' },
+    { label: 'Account Number', value: '55689458' },
+    { label: 'Sort Code',      value: '23-05-80' },
+    { label: 'SWIFT/BIC',      value: 'MYMBGB2L' },
+    { label: 'IBAN',           value: 'GB55MYMB 230580 55689458' },
+    ...(company.vatNumber ? [{ label: 'VAT Number', value: company.vatNumber }] : []),
+  ];
+}
+
+/** The fields of a stored (lean) Invoice document the PDF needs */
+export interface StoredInvoice {
+  _id?: { toString(): string } | string;
+  orderNumber: string;
+  items?: InvoiceItem[];
+  subtotal: number;
+  shipping: number;
+  discount?: number;
+  discountCode?: string | null;
+  total: number;
+  vat?: number;
+  vatBreakdown?: VatBreakdownRow[];
+  client?: { name?: string; email?: string; phone?: string } | null;
+  shippingAddress?: Address | null;
+  billingAddress?: Address | null;
+  paidAt?: Date | null;
+  dueDate?: Date | null;
+  createdAt?: Date | null;
+  paymentIntentId?: string | null;
+  currency?: string;
+  notes?: string;
+  amountPaid?: number;
+  creditedAmount?: number;
+}
+
+/** Maps a stored invoice to what generateInvoicePDF draws */
+export function invoiceDataFromDoc(doc: StoredInvoice): InvoiceData {
+  return {
+    orderId: doc._id?.toString(),
+    orderNumber: doc.orderNumber,
+    items: (doc.items || []).map((it) => ({
+      name: it.name,
+      qty: it.qty,
+      unitPrice: it.unitPrice,
+      totalPrice: it.totalPrice,
+      vatRate: it.vatRate,
+    })),
+    subtotal: doc.subtotal,
+    shipping: doc.shipping,
+    discount: doc.discount ?? 0,
+    discountCode: doc.discountCode ?? null,
+    total: doc.total,
+    vat: doc.vat,
+    vatBreakdown: doc.vatBreakdown,
+    client: {
+      name: doc.client?.name ?? '',
+      email: doc.client?.email ?? '',
+      phone: doc.client?.phone ?? undefined,
+    },
+    shippingAddress: doc.shippingAddress ?? undefined,
+    billingAddress: doc.billingAddress ?? undefined,
+    paidAt: doc.paidAt ?? undefined,
+    dueDate: doc.dueDate ?? undefined,
+    createdAt: doc.createdAt ?? undefined,
+    paymentIntentId: doc.paymentIntentId ?? null,
+    currency: doc.currency ?? 'gbp',
+    notes: doc.notes ?? undefined,
+    amountPaid: doc.amountPaid ?? 0,
+    creditedAmount: doc.creditedAmount ?? 0,
+  };
+}
+
 // Helper to wrap text to fit within a maximum width
 function wrapText(text: string, font: PDFFont, fontSize: number, maxWidth: number): string[] {
   const words = text.split(' ');
@@ -168,24 +259,7 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
   const pdfDoc = await PDFDocument.create();
 
   // Embed fonts
-  const fontBytes = tryLoadFontBytes();
-  let font: PDFFont;
-  let boldFont: PDFFont;
-
-  try {
-    if (fontBytes) {
-      font = await pdfDoc.embedFont(fontBytes);
-      boldFont = font;
-      console.log('[Invoice] Embedded custom TTF font for PDF');
-    } else {
-      font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-      boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-    }
-  } catch (err) {
-    console.warn('[Invoice] Failed to embed custom font, falling back to Helvetica:', (err as Error).message);
-    font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-    boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-  }
+  const { font, boldFont } = await embedFonts(pdfDoc);
 
   // Optional logo
   const logoBytes = tryLoadLogoBytes(company.logoPath);
@@ -388,13 +462,15 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
   });
 
   const colDescX = margin + 15;
+  const colVatX = pageWidth - margin - 280;
   const colQtyX = pageWidth - margin - 230;
   const colPriceX = pageWidth - margin - 150;
   const colTotalX = pageWidth - margin - 70;
-  const descriptionMaxWidth = colQtyX - colDescX - 20;
+  const descriptionMaxWidth = colVatX - colDescX - 20;
 
   const headerY = tableStartY - 22;
   drawText('Description', colDescX, headerY, 10, darkText, boldFont);
+  drawText('VAT', colVatX, headerY, 10, darkText, boldFont);
   drawText('Qty', colQtyX, headerY, 10, darkText, boldFont);
   drawText('Price', colPriceX, headerY, 10, darkText, boldFont);
   drawText('Amount', colTotalX, headerY, 10, darkText, boldFont);
@@ -431,6 +507,7 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
       });
 
       drawText('Description', colDescX, cursorY - 22, 10, darkText, boldFont);
+      drawText('VAT', colVatX, cursorY - 22, 10, darkText, boldFont);
       drawText('Qty', colQtyX, cursorY - 22, 10, darkText, boldFont);
       drawText('Price', colPriceX, cursorY - 22, 10, darkText, boldFont);
       drawText('Amount', colTotalX, cursorY - 22, 10, darkText, boldFont);
@@ -455,6 +532,7 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
 
     // Draw quantity, price, and total (aligned to first line)
     const firstLineY = cursorY - 18;
+    drawText(typeof item.vatRate === 'number' ? `${item.vatRate}%` : '-', colVatX, firstLineY, 10, lightText);
     drawText(String(item.qty), colQtyX, firstLineY, 10, darkText);
     drawText(fmtCurrency(item.unitPrice, invoice.currency), colPriceX, firstLineY, 10, lightText);
     drawText(fmtCurrency(item.totalPrice, invoice.currency), colTotalX, firstLineY, 10, darkText, boldFont);
@@ -475,15 +553,6 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
   const summaryTopY = cursorY - 15;
 
   // --- LEFT: PAYMENT DETAILS (bank info) ---
-  const bankDetails: { label: string; value: string }[] = [
-    { label: 'Name',           value: 'COFFEE GENIUS' },
-    { label: 'Account Type',   value: 'Business' },
-    { label: 'Account Number', value: '55689458' },
-    { label: 'Sort Code',      value: '23-05-80' },
-    { label: 'SWIFT/BIC',      value: 'MYMBGB2L' },
-    { label: 'IBAN',           value: 'GB55MYMB 230580 55689458' },
-    { label: 'VAT Number',     value: '517 9333 75' },
-  ];
 
   drawText('PAYMENT DETAILS', margin, summaryTopY, 8, darkText, boldFont);
   page.drawLine({
@@ -500,7 +569,7 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
   const rowLineH   = 11;
 
   let bankY = summaryTopY - 14;
-  for (const { label, value } of bankDetails) {
+  for (const { label, value } of bankDetails(company)) {
     const labelLines = wrapText(label, font, 8, labelWidth);
     const valueLines = wrapText(value, boldFont, 8, valueWidth);
     const lineCount  = Math.max(labelLines.length, valueLines.length);
@@ -522,6 +591,14 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
   drawText(subtotalStr, pageWidth - margin - subtotalW, totalsY, 9, darkText);
   totalsY -= 14;
 
+  if (invoice.discount && invoice.discount > 0) {
+    drawText(invoice.discountCode ? `Discount (${invoice.discountCode})` : 'Discount', totalsX, totalsY, 9, lightText);
+    const discountStr = `-${fmtCurrency(invoice.discount, invoice.currency)}`;
+    const discountW = font.widthOfTextAtSize(discountStr, 9);
+    drawText(discountStr, pageWidth - margin - discountW, totalsY, 9, darkText);
+    totalsY -= 14;
+  }
+
   drawText('Shipping', totalsX, totalsY, 9, lightText);
   const shippingStr = fmtCurrency(invoice.shipping, invoice.currency);
   const shippingW = font.widthOfTextAtSize(shippingStr, 9);
@@ -542,6 +619,36 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
   drawText(totalStr, pageWidth - margin - totalW, totalsY, 13, accentBlue, boldFont);
   totalsY -= 14;
 
+  if (typeof invoice.vat === 'number') {
+    drawText('Includes VAT', totalsX, totalsY, 8, lightText);
+    const vatStr = fmtCurrency(invoice.vat, invoice.currency);
+    drawText(vatStr, pageWidth - margin - font.widthOfTextAtSize(vatStr, 8), totalsY, 8, lightText);
+    totalsY -= 12;
+  }
+
+  const credited = invoice.creditedAmount ?? 0;
+  if (credited > 0) {
+    const creditStr = `-${fmtCurrency(credited, invoice.currency)}`;
+    drawText('Credit notes', totalsX, totalsY, 9, lightText);
+    drawText(creditStr, pageWidth - margin - font.widthOfTextAtSize(creditStr, 9), totalsY, 9, darkText);
+    totalsY -= 14;
+  }
+
+  // Part-paid or credited: what's been received and what's left
+  const paid = invoice.amountPaid ?? 0;
+  if (!invoice.paidAt && (paid > 0 || credited > 0)) {
+    if (paid > 0) {
+      const paidStr = `-${fmtCurrency(paid, invoice.currency)}`;
+      drawText('Paid to date', totalsX, totalsY, 9, lightText);
+      drawText(paidStr, pageWidth - margin - font.widthOfTextAtSize(paidStr, 9), totalsY, 9, darkText);
+      totalsY -= 14;
+    }
+    const balanceStr = fmtCurrency(Math.max(0, invoice.total - credited - paid), invoice.currency);
+    drawText('Balance due', totalsX, totalsY, 10, darkText, boldFont);
+    drawText(balanceStr, pageWidth - margin - boldFont.widthOfTextAtSize(balanceStr, 10), totalsY, 10, darkText, boldFont);
+    totalsY -= 14;
+  }
+
   if (invoice.paidAt) {
     const paidDate = parseDate(invoice.paidAt);
     if (paidDate) {
@@ -550,12 +657,29 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
     }
   }
 
+  // VAT summary under the totals: net / VAT / gross per rate
+  if (invoice.vatBreakdown && invoice.vatBreakdown.length > 0) {
+    totalsY -= 6;
+    const vatCols = [totalsX, totalsX + 40, totalsX + 85, totalsX + 130];
+    drawText('VAT SUMMARY', totalsX, totalsY, 8, darkText, boldFont);
+    totalsY -= 12;
+    ['Rate', 'Net', 'VAT', 'Gross'].forEach((h, i) => drawText(h, vatCols[i], totalsY, 8, lightText));
+    totalsY -= 11;
+    for (const row of invoice.vatBreakdown) {
+      drawText(`${row.rate}%`, vatCols[0], totalsY, 8, darkText);
+      drawText(fmtCurrency(row.net, invoice.currency), vatCols[1], totalsY, 8, darkText);
+      drawText(fmtCurrency(row.vat, invoice.currency), vatCols[2], totalsY, 8, darkText);
+      drawText(fmtCurrency(row.gross, invoice.currency), vatCols[3], totalsY, 8, darkText);
+      totalsY -= 11;
+    }
+  }
+
   // cursorY = bottom of whichever column is taller
   cursorY = Math.min(bankY, totalsY) - 8;
 
   // ============= NOTES SECTION =============
   if (invoice.notes) {
-    let notesY = bankY - sectionGap;
+    let notesY = cursorY - sectionGap;
 
     // If notes would collide with the footer, start them on a new page
     if (notesY < 80) {
@@ -599,13 +723,377 @@ export async function generateInvoicePDF(invoice: InvoiceData, company: CompanyI
   return Buffer.from(pdfBytes);
 }
 
+/* ----------------------- Account statements --------------------------- */
+export interface StatementLine {
+  invoiceNumber: string;
+  date?: Nullable<string | Date>;
+  dueDate?: Nullable<string | Date>;
+  total: number;
+  amountPaid: number;
+  credited: number; // credit notes against the invoice
+  balance: number;
+  daysOverdue: number | null; // null when not yet due
+}
+
+export interface StatementData {
+  client: { name: string; email?: string | null; phone?: string | null };
+  address?: Nullable<Address>;
+  currency: string;
+  date: Date;
+  lines: StatementLine[];
+  aging: { label: string; amount: number }[];
+  totalDue: number;
+}
+
+/** A client's open invoices, what's left on each and how overdue it is */
+export async function generateStatementPDF(statement: StatementData, company: CompanyInfo): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const { font, boldFont } = await embedFonts(pdfDoc);
+
+  const pageSize: [number, number] = [595.28, 841.89]; // A4
+  let page = pdfDoc.addPage(pageSize);
+  const pageWidth = page.getWidth();
+  const margin = 50;
+  let cursorY = page.getHeight() - 60;
+
+  const darkText = rgb(0.15, 0.15, 0.15);
+  const lightText = rgb(0.45, 0.45, 0.45);
+  const accentBlue = rgb(0.2, 0.4, 0.7);
+  const borderGray = rgb(0.85, 0.85, 0.85);
+  const bgGray = rgb(0.96, 0.96, 0.96);
+  const overdueRed = rgb(0.7, 0.15, 0.15);
+
+  const drawText = (text: string, x: number, y: number, size = 10, color = darkText, customFont?: PDFFont) => {
+    page.drawText(String(text ?? ''), { x, y, size, font: customFont || font, color });
+  };
+  const drawRight = (text: string, right: number, y: number, size = 9, color = darkText, customFont?: PDFFont) => {
+    drawText(text, right - (customFont || font).widthOfTextAtSize(text, size), y, size, color, customFont);
+  };
+  const money = (n: number) => fmtCurrency(n, statement.currency);
+  const shortDate = (d?: Nullable<string | Date>) =>
+    parseDate(d)?.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }) ?? '-';
+
+  // ============= HEADER =============
+  for (const line of wrapText(company.name || 'Your Company', boldFont, 20, 250)) {
+    drawText(line, margin, cursorY, 20, darkText, boldFont);
+    cursorY -= 25;
+  }
+  const companyLines = [
+    company.address,
+    [company.city, company.postcode].filter(Boolean).join(' '),
+    company.email,
+    company.phone,
+  ].filter((l): l is string => Boolean(l));
+  let companyY = cursorY;
+  for (const line of companyLines) {
+    drawText(line, margin, companyY, 9, lightText);
+    companyY -= 13;
+  }
+
+  const rightColX = pageWidth - margin - 180;
+  drawText('STATEMENT', rightColX, cursorY + 25, 24, accentBlue, boldFont);
+  drawText('Date', rightColX, cursorY - 10, 9, lightText);
+  drawText(shortDate(statement.date), rightColX, cursorY - 24, 10, darkText);
+  drawText('Total due', rightColX, cursorY - 44, 9, lightText);
+  drawText(money(statement.totalDue), rightColX, cursorY - 60, 14, darkText, boldFont);
+  cursorY = Math.min(companyY, cursorY - 70) - 25;
+
+  // ============= CLIENT =============
+  const clientLines = formatAddress(statement.address, statement.client.name);
+  drawText(clientLines[0] || statement.client.name, margin, cursorY, 11, darkText, boldFont);
+  cursorY -= 14;
+  for (const line of [...clientLines.slice(1), statement.client.email, statement.client.phone]) {
+    if (!line) continue;
+    drawText(line, margin, cursorY, 9, lightText);
+    cursorY -= 12;
+  }
+  cursorY -= 20;
+
+  // ============= AGEING SUMMARY =============
+  const bucketWidth = (pageWidth - margin * 2) / Math.max(1, statement.aging.length);
+  page.drawRectangle({ x: margin, y: cursorY - 38, width: pageWidth - margin * 2, height: 42, color: bgGray });
+  statement.aging.forEach((bucket, i) => {
+    const x = margin + i * bucketWidth + 10;
+    drawText(bucket.label, x, cursorY - 12, 8, lightText);
+    drawText(money(bucket.amount), x, cursorY - 28, 10, bucket.amount > 0 && i > 0 ? overdueRed : darkText, boldFont);
+  });
+  cursorY -= 60;
+
+  // ============= OPEN INVOICES =============
+  const cols = {
+    invoice: margin + 8,
+    date: margin + 150,
+    due: margin + 225,
+    total: pageWidth - margin - 170,
+    paid: pageWidth - margin - 95,
+    balance: pageWidth - margin - 8,
+  };
+  const drawHeader = () => {
+    page.drawRectangle({ x: margin, y: cursorY - 24, width: pageWidth - margin * 2, height: 24, color: bgGray });
+    const y = cursorY - 16;
+    drawText('Invoice', cols.invoice, y, 9, darkText, boldFont);
+    drawText('Date', cols.date, y, 9, darkText, boldFont);
+    drawText('Due', cols.due, y, 9, darkText, boldFont);
+    drawRight('Total', cols.total, y, 9, darkText, boldFont);
+    drawRight('Paid/credit', cols.paid, y, 9, darkText, boldFont);
+    drawRight('Balance', cols.balance, y, 9, darkText, boldFont);
+    cursorY -= 24;
+  };
+  drawHeader();
+
+  const rowHeight = 28;
+  for (const line of statement.lines) {
+    if (cursorY - rowHeight < 120) {
+      page = pdfDoc.addPage(pageSize);
+      cursorY = page.getHeight() - margin;
+      drawHeader();
+    }
+    const y = cursorY - 17;
+    drawText(wrapText(line.invoiceNumber, font, 9, cols.date - cols.invoice - 10)[0] ?? '', cols.invoice, y, 9);
+    drawText(shortDate(line.date), cols.date, y, 9, lightText);
+    drawText(shortDate(line.dueDate), cols.due, y, 9, lightText);
+    if (line.daysOverdue !== null && line.daysOverdue > 0) {
+      drawText(`${line.daysOverdue} days overdue`, cols.due, y - 10, 7, overdueRed);
+    }
+    drawRight(money(line.total), cols.total, y);
+    drawRight(money(line.amountPaid + line.credited), cols.paid, y, 9, lightText);
+    drawRight(money(line.balance), cols.balance, y, 9, darkText, boldFont);
+    cursorY -= rowHeight;
+    page.drawLine({
+      start: { x: margin, y: cursorY },
+      end: { x: pageWidth - margin, y: cursorY },
+      thickness: 0.5,
+      color: borderGray,
+    });
+  }
+
+  cursorY -= 20;
+  drawText('Total due', cols.paid - 60, cursorY, 11, darkText, boldFont);
+  drawRight(money(statement.totalDue), cols.balance, cursorY, 13, accentBlue, boldFont);
+
+  // ============= PAYMENT DETAILS =============
+  cursorY -= 30;
+  if (cursorY < 110) {
+    page = pdfDoc.addPage(pageSize);
+    cursorY = page.getHeight() - margin;
+  }
+  drawText('PAYMENT DETAILS', margin, cursorY, 8, darkText, boldFont);
+  cursorY -= 14;
+  for (const { label, value } of bankDetails(company)) {
+    drawText(label, margin, cursorY, 8, lightText);
+    drawText(value, margin + 95, cursorY, 8, darkText, boldFont);
+    cursorY -= 11;
+  }
+  drawText('Please quote the invoice numbers with your payment.', margin, cursorY - 8, 8, lightText);
+
+  const pdfBytes = await pdfDoc.save();
+  return Buffer.from(pdfBytes);
+}
+
+/* ----------------------------- Credit notes ---------------------------- */
+export interface CreditNoteData {
+  number: string;
+  invoiceNumber: string;
+  invoiceDate?: Nullable<string | Date>;
+  date: string | Date;
+  reason?: Nullable<string>;
+  refundMethod?: Nullable<'card' | 'store_credit'>;
+  client: { name: string; email?: Nullable<string>; phone?: Nullable<string> };
+  address?: Nullable<Address>;
+  currency: string;
+  lines: { name: string; qty: number; unitPrice: number; totalPrice: number; vatRate?: Nullable<number> }[];
+  total: number;
+  vat: number;
+  vatBreakdown: VatBreakdownRow[];
+}
+
+/** Credit note PDF: same layout family as the statement, amounts shown as credits */
+export async function generateCreditNotePDF(note: CreditNoteData, company: CompanyInfo): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const { font, boldFont } = await embedFonts(pdfDoc);
+
+  const pageSize: [number, number] = [595.28, 841.89]; // A4
+  let page = pdfDoc.addPage(pageSize);
+  const pageWidth = page.getWidth();
+  const margin = 50;
+  let cursorY = page.getHeight() - 60;
+
+  const darkText = rgb(0.15, 0.15, 0.15);
+  const lightText = rgb(0.45, 0.45, 0.45);
+  const accentBlue = rgb(0.2, 0.4, 0.7);
+  const borderGray = rgb(0.85, 0.85, 0.85);
+  const bgGray = rgb(0.96, 0.96, 0.96);
+
+  const drawText = (text: string, x: number, y: number, size = 10, color = darkText, customFont?: PDFFont) => {
+    page.drawText(String(text ?? ''), { x, y, size, font: customFont || font, color });
+  };
+  const drawRight = (text: string, right: number, y: number, size = 9, color = darkText, customFont?: PDFFont) => {
+    drawText(text, right - (customFont || font).widthOfTextAtSize(text, size), y, size, color, customFont);
+  };
+  const money = (n: number) => fmtCurrency(n, note.currency);
+  const shortDate = (d?: Nullable<string | Date>) =>
+    parseDate(d)?.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }) ?? '-';
+
+  // ============= HEADER =============
+  for (const line of wrapText(company.name || 'Your Company', boldFont, 20, 250)) {
+    drawText(line, margin, cursorY, 20, darkText, boldFont);
+    cursorY -= 25;
+  }
+  const companyLines = [
+    company.address,
+    [company.city, company.postcode].filter(Boolean).join(' '),
+    company.country,
+    company.email,
+    company.phone,
+    company.vatNumber ? `VAT: ${company.vatNumber}` : undefined,
+  ].filter((l): l is string => Boolean(l));
+  let companyY = cursorY;
+  for (const line of companyLines) {
+    drawText(line, margin, companyY, 9, lightText);
+    companyY -= 13;
+  }
+
+  const rightColX = pageWidth - margin - 180;
+  let rightY = cursorY + 25;
+  drawText('CREDIT NOTE', rightColX, rightY, 22, accentBlue, boldFont);
+  rightY -= 30;
+  for (const [label, value] of [
+    ['Credit note number', note.number],
+    ['Date', shortDate(note.date)],
+    ['Original invoice', note.invoiceNumber],
+    ['Invoice date', note.invoiceDate ? shortDate(note.invoiceDate) : null],
+  ] as const) {
+    if (!value) continue;
+    drawText(label, rightColX, rightY, 9, lightText);
+    drawText(wrapText(value, boldFont, 10, 180)[0] ?? '', rightColX, rightY - 13, 10, darkText, boldFont);
+    rightY -= 30;
+  }
+  cursorY = Math.min(companyY, rightY) - 15;
+
+  // ============= CUSTOMER =============
+  drawText('CREDIT TO', margin, cursorY, 10, lightText, boldFont);
+  cursorY -= 16;
+  const clientLines = formatAddress(note.address, note.client.name);
+  drawText(clientLines[0] || note.client.name, margin, cursorY, 11, darkText, boldFont);
+  cursorY -= 14;
+  for (const line of [...clientLines.slice(1), note.client.email, note.client.phone]) {
+    if (!line) continue;
+    drawText(line, margin, cursorY, 9, lightText);
+    cursorY -= 12;
+  }
+  if (note.reason) {
+    cursorY -= 8;
+    for (const line of wrapText(`Reason: ${note.reason}`, font, 9, pageWidth - margin * 2)) {
+      drawText(line, margin, cursorY, 9, darkText);
+      cursorY -= 12;
+    }
+  }
+  cursorY -= 20;
+
+  // ============= LINES =============
+  const cols = {
+    desc: margin + 8,
+    vat: pageWidth - margin - 250,
+    qty: pageWidth - margin - 200,
+    price: pageWidth - margin - 90,
+    total: pageWidth - margin - 8,
+  };
+  const drawHeader = () => {
+    page.drawRectangle({ x: margin, y: cursorY - 24, width: pageWidth - margin * 2, height: 24, color: bgGray });
+    const y = cursorY - 16;
+    drawText('Description', cols.desc, y, 9, darkText, boldFont);
+    drawText('VAT', cols.vat, y, 9, darkText, boldFont);
+    drawText('Qty', cols.qty, y, 9, darkText, boldFont);
+    drawRight('Price', cols.price, y, 9, darkText, boldFont);
+    drawRight('Credit', cols.total, y, 9, darkText, boldFont);
+    cursorY -= 24;
+  };
+  drawHeader();
+
+  for (const line of note.lines) {
+    const nameLines = wrapText(line.name, font, 9, cols.vat - cols.desc - 10);
+    const rowHeight = Math.max(26, nameLines.length * 12 + 14);
+    if (cursorY - rowHeight < 160) {
+      page = pdfDoc.addPage(pageSize);
+      cursorY = page.getHeight() - margin;
+      drawHeader();
+    }
+    const y = cursorY - 17;
+    nameLines.forEach((l, i) => drawText(l, cols.desc, y - i * 12, 9));
+    drawText(typeof line.vatRate === 'number' ? `${line.vatRate}%` : '-', cols.vat, y, 9, lightText);
+    drawText(String(line.qty), cols.qty, y, 9);
+    drawRight(money(line.unitPrice), cols.price, y, 9, lightText);
+    drawRight(`-${money(line.totalPrice)}`, cols.total, y, 9, darkText, boldFont);
+    cursorY -= rowHeight;
+    page.drawLine({
+      start: { x: margin, y: cursorY },
+      end: { x: pageWidth - margin, y: cursorY },
+      thickness: 0.5,
+      color: borderGray,
+    });
+  }
+
+  // ============= TOTALS & VAT =============
+  cursorY -= 22;
+  const totalsX = pageWidth - margin - 180;
+  drawText('Total credited', totalsX, cursorY, 11, darkText, boldFont);
+  drawRight(`-${money(note.total)}`, cols.total, cursorY, 13, accentBlue, boldFont);
+  cursorY -= 16;
+  drawText('Includes VAT', totalsX, cursorY, 8, lightText);
+  drawRight(money(note.vat), cols.total, cursorY, 8, lightText);
+  cursorY -= 20;
+
+  if (note.vatBreakdown.length > 0) {
+    const vatCols = [totalsX, totalsX + 40, totalsX + 85, totalsX + 130];
+    drawText('VAT SUMMARY', totalsX, cursorY, 8, darkText, boldFont);
+    cursorY -= 12;
+    ['Rate', 'Net', 'VAT', 'Gross'].forEach((h, i) => drawText(h, vatCols[i], cursorY, 8, lightText));
+    cursorY -= 11;
+    for (const row of note.vatBreakdown) {
+      drawText(`${row.rate}%`, vatCols[0], cursorY, 8, darkText);
+      drawText(money(row.net), vatCols[1], cursorY, 8, darkText);
+      drawText(money(row.vat), vatCols[2], cursorY, 8, darkText);
+      drawText(money(row.gross), vatCols[3], cursorY, 8, darkText);
+      cursorY -= 11;
+    }
+  }
+
+  if (note.refundMethod) {
+    cursorY -= 10;
+    drawText(
+      note.refundMethod === 'store_credit' ? 'Refunded as store credit' : 'Refunded to the original payment method',
+      totalsX,
+      cursorY,
+      8,
+      lightText
+    );
+  }
+
+  // ============= FOOTER =============
+  const footerY = 40;
+  page.drawLine({
+    start: { x: margin, y: footerY + 20 },
+    end: { x: pageWidth - margin, y: footerY + 20 },
+    thickness: 0.5,
+    color: borderGray,
+  });
+  drawText(`This credit note reduces the amount due on invoice ${note.invoiceNumber}.`, margin, footerY, 8, lightText);
+  const footerRight = company.email || company.phone || '';
+  if (footerRight) drawRight(footerRight, pageWidth - margin, footerY, 8, lightText);
+
+  const pdfBytes = await pdfDoc.save();
+  return Buffer.from(pdfBytes);
+}
+
 /* ----------------------- Email sending ------------------------------- */
-export async function sendInvoiceEmail(invoice: InvoiceData, pdfBuffer: Buffer): Promise<void> {
-  const apiKey = process.env.BREVO_API_KEY;
+export async function sendInvoiceEmail(
+  invoice: InvoiceData,
+  pdfBuffer: Buffer,
+  opts: { invoiceId?: string; dedupeKey?: string } = {}
+): Promise<void> {
   const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || '').trim();
   const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || 'Your Company';
 
-  if (!apiKey) throw new Error('Missing BREVO_API_KEY environment variable');
 
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   if (!senderEmail || !emailRegex.test(senderEmail)) {
@@ -617,123 +1105,52 @@ export async function sendInvoiceEmail(invoice: InvoiceData, pdfBuffer: Buffer):
   }
 
   const toEmail = invoice.client.email;
-  const subject = `Invoice #${invoice.orderNumber} - ${invoice.client.name}`;
-  const dateStr = formatInvoiceDate(invoice);
-
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background: #f5f5f5; padding: 20px; border-radius: 5px; margin-bottom: 20px; }
-        .invoice-details { background: #fff; border: 1px solid #ddd; padding: 15px; border-radius: 5px; }
-        .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h2 style="margin: 0; color: #2d5a8d;">Invoice #${invoice.orderNumber}</h2>
-        </div>
-        
-        <p>Dear ${escapeHtml(invoice.client.name)},</p>
-        <p>Your invoice is ready and attached to this email.</p>
-        
-        <div class="invoice-details">
-          <p><strong>Invoice Number:</strong> ${escapeHtml(invoice.orderNumber)}</p>
-          <p><strong>Date:</strong> ${escapeHtml(dateStr)}</p>
-          ${invoice.dueDate ? `<p><strong>Due Date:</strong> ${escapeHtml(parseDate(invoice.dueDate)?.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }) ?? '')}</p>` : ''}
-          <p><strong>Total Amount:</strong> ${escapeHtml(fmtCurrency(invoice.total, invoice.currency))}</p>
-        </div>
-        
-        ${invoice.notes ? `<p style="margin-top: 20px;"><em>${escapeHtml(invoice.notes)}</em></p>` : ''}
-        
-        <p>If you have any questions, please don't hesitate to contact us.</p>
-        
-        <div class="footer">
-          <p>This is an automated message from ${escapeHtml(senderName)}<br>
-          ${escapeHtml(senderEmail)}${process.env.COMPANY_PHONE ? ' • ' + escapeHtml(process.env.COMPANY_PHONE) : ''}</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
+  const email = await renderEmailTemplate('manual_invoice', {
+    customerName: invoice.client.name,
+    invoiceNumber: invoice.orderNumber,
+    date: formatInvoiceDate(invoice),
+    dueDate: parseDate(invoice.dueDate),
+    currency: invoice.currency || 'GBP',
+    total: invoice.total,
+    vat: invoice.vat,
+    notes: invoice.notes,
+  });
 
   const attachment = {
     name: `invoice-${invoice.orderNumber}.pdf`,
     content: pdfBuffer.toString('base64'),
-    contentType: 'application/pdf',
   };
 
-  const payload: Record<string, unknown> = {
-    sender: { name: senderName, email: senderEmail },
+  const queued = await enqueueEmail({
+    kind: 'invoice',
+    from: { email: senderEmail, name: senderName },
     to: [{ email: toEmail, name: invoice.client.name }],
-    subject,
-    htmlContent,
-    attachment: [attachment],
-  };
-
-  let res: Response;
-  try {
-    res = await fetch('https://api.brevo.com/v3/smtp/email', {
-      method: 'POST',
-      headers: {
-        'api-key': apiKey,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
-  } catch (networkErr) {
-    throw new Error(`Network error calling Brevo API: ${networkErr instanceof Error ? networkErr.message : String(networkErr)}`);
-  }
-
-  if (!res.ok) {
-    let text = '';
-    try {
-      text = await res.text();
-      try {
-        const parsed: unknown = JSON.parse(text);
-        if (parsed && typeof parsed === 'object') {
-          const obj = parsed as Record<string, unknown>;
-          const code = typeof obj.code === 'string' || typeof obj.code === 'number' ? String(obj.code) : 'unknown';
-          const message = typeof obj.message === 'string' ? obj.message : text;
-          throw new Error(`Brevo API error ${res.status}: code=${code} message=${message}`);
-        }
-        throw new Error(`Brevo API error ${res.status}: ${text}`);
-      } catch {
-        throw new Error(`Brevo API error ${res.status}: ${text}`);
-      }
-    } catch {
-      throw new Error(`Brevo API error ${res.status} (failed to read response body)`);
-    }
-  }
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    attachments: [attachment],
+    related: opts.invoiceId ? { type: 'Invoice', id: opts.invoiceId } : null,
+    dedupeKey: opts.dedupeKey ?? null,
+  });
+  if (!queued.ok) throw new Error(queued.error);
 }
 
 /* ---------------------- Process wrapper ------------------------------ */
-export async function processInvoice(invoice: InvoiceData, company: CompanyInfo): Promise<void> {
+export async function processInvoice(
+  invoice: InvoiceData,
+  company: CompanyInfo,
+  opts: { invoiceId?: string; dedupeKey?: string } = {}
+): Promise<void> {
   try {
     console.log(`[Invoice] Generating invoice for order ${invoice.orderNumber}`);
     const pdfBuffer = await generateInvoicePDF(invoice, company);
 
-    console.log(`[Invoice] Sending invoice email to ${invoice.client.email}`);
-    await sendInvoiceEmail(invoice, pdfBuffer);
+    console.log(`[Invoice] Queueing invoice email to ${invoice.client.email}`);
+    await sendInvoiceEmail(invoice, pdfBuffer, opts);
 
-    console.log(`[Invoice] Invoice sent successfully for order ${invoice.orderNumber}`);
+    console.log(`[Invoice] Invoice email queued for order ${invoice.orderNumber}`);
   } catch (error) {
     console.error('[Invoice] Error processing invoice:', error);
     throw error;
   }
 }
-
-/* ---------------------- Utilities ----------------------------------- */
-function escapeHtml(input: string): string {
-  return input
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
-}
\ No newline at end of file
@@ -1,4 +1,6 @@
 import type mongoose from 'mongoose';
+import { defaultSender, isValidEmail } from '@/lib/emailTransport';
+import { enqueueEmail } from '@/lib/outbox';
 
 interface OrderSummaryItem {
   name: string;
@@ -19,19 +21,50 @@ interface AdminNotificationInput {
   items?: OrderSummaryItem[];
   dashboardUrl?: string;
   metadata?: Record<string, unknown>;
+  dedupeKey?: string; // set when the same order may be announced more than once (webhook retries)
+}
+
+interface AdminDisputeNotificationInput {
+  kind: 'opened' | 'closed';
+  orderId?: string | null;
+  orderNumber?: string | null;
+  disputeId: string;
+  status: string; // Stripe's dispute status, e.g. needs_response, won, lost
+  reason?: string | null;
+  amount: number; // major units
+  currency?: string;
+  evidenceDueBy?: Date | null;
+  clientName?: string;
+  clientEmail?: string;
+  dashboardUrl?: string;
+  stripeDashboardUrl?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatMoney(amount: number, currency?: string): string {
+  return `${currency && currency.toLowerCase() !== 'gbp' ? currency.toUpperCase() + ' ' : '£'}${amount.toFixed(2)}`;
 }
 
 /**
- * Send a simple admin notification via Brevo (Sendinblue) API.
+ * Queues one email to the configured admin recipients.
  * - ADMIN_NOTIFICATION_EMAIL (or ADMIN_EMAIL) may be a single email or comma-separated list.
- * - BREVO_API_KEY and BREVO_SENDER_EMAIL (or EMAIL_FROM) must be set when actually sending.
+ * - BREVO_SENDER_EMAIL (or EMAIL_FROM) must be set; delivery itself goes through lib/outbox.ts.
  *
- * This function will no-op (resolve) if no admin recipient is configured, and will log a warning.
+ * No-ops (resolves) if no admin recipient is configured, and logs a warning.
+ * Throws if the message couldn't be queued.
  */
-export async function sendAdminNotification(payload: AdminNotificationInput): Promise<void> {
-  const apiKey = process.env.BREVO_API_KEY;
-  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || '').trim();
-  const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || 'Store';
+async function sendToAdmins(
+  subject: string,
+  html: string,
+  opts: { kind: string; related?: { type: string; id: string } | null; dedupeKey?: string | null }
+): Promise<void> {
   const adminEnv = (process.env.ADMIN_NOTIFICATION_EMAIL || process.env.ADMIN_EMAIL || '').trim();
 
   // Parse admin recipients (comma separated)
@@ -45,20 +78,14 @@ export async function sendAdminNotification(payload: AdminNotificationInput): Pr
     return;
   }
 
-  if (!apiKey) {
-    // If API key missing, this is a real config problem — surface it.
-    throw new Error('Missing BREVO_API_KEY environment variable');
-  }
-
-  // Basic email validation
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!senderEmail || !emailRegex.test(senderEmail)) {
+  const from = defaultSender();
+  if (!from) {
     throw new Error('Invalid or missing sender email for Brevo (set BREVO_SENDER_EMAIL or EMAIL_FROM)');
   }
 
   // Validate recipient emails and build 'to' array
   const to = admins
-    .filter(a => emailRegex.test(a))
+    .filter(a => isValidEmail(a))
     .map(a => ({ email: a, name: 'Admin' }));
 
   if (to.length === 0) {
@@ -66,6 +93,23 @@ export async function sendAdminNotification(payload: AdminNotificationInput): Pr
     return;
   }
 
+  const queued = await enqueueEmail({
+    kind: opts.kind,
+    audience: 'admin',
+    from,
+    to,
+    subject,
+    html,
+    related: opts.related ?? null,
+    dedupeKey: opts.dedupeKey ?? null,
+  });
+  if (!queued.ok) throw new Error(queued.error);
+
+  console.log(`[AdminNotification] Queued "${subject}" for: ${to.map(t => t.email).join(', ')} (${queued.status})`);
+}
+
+/** Tells the admins about a newly paid order. */
+export async function sendAdminNotification(payload: AdminNotificationInput): Promise<void> {
   const subject = `New paid order: ${payload.orderNumber} — £${payload.total.toFixed(2)}`;
   const dashboardLink = payload.dashboardUrl ? `<p><a href="${payload.dashboardUrl}">Open in admin dashboard</a></p>` : '';
 
@@ -81,45 +125,59 @@ export async function sendAdminNotification(payload: AdminNotificationInput): Pr
     </div>
   `;
 
-  const body = {
-    sender: { name: senderName, email: senderEmail },
-    to,
-    subject,
-    htmlContent: html,
-  } as Record<string, unknown>;
-
-  let res: Response;
-  try {
-    res = await fetch('https://api.brevo.com/v3/smtp/email', {
-      method: 'POST',
-      headers: {
-        'api-key': apiKey,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-  } catch (networkErr) {
-    throw new Error(`Network error while calling Brevo API: ${networkErr instanceof Error ? networkErr.message : String(networkErr)}`);
-  }
+  await sendToAdmins(subject, html, {
+    kind: 'admin_order',
+    related: { type: 'Order', id: payload.orderId },
+    dedupeKey: payload.dedupeKey ?? null,
+  });
+}
 
-  if (!res.ok) {
-    // Try to read response for useful error info
-    const txt = await res.text().catch(() => '');
-    try {
-      const json = JSON.parse(txt);
-      interface BrevoErrorResponse {
-        code?: string;
-        message?: string;
-      }
-      const code = (json as BrevoErrorResponse).code;
-      const message = (json as BrevoErrorResponse).message || txt;
-      throw new Error(`Brevo API error ${res.status}: code=${code ?? 'unknown'} message=${message}`);
-    } catch {
-      throw new Error(`Brevo API error ${res.status}: ${txt || 'no response body'}`);
-    }
-  }
+/**
+ * Tells the admins a chargeback was opened or has closed. Opened alerts lead with
+ * the evidence deadline: once it passes Stripe closes the dispute as lost.
+ */
+export async function sendAdminDisputeNotification(payload: AdminDisputeNotificationInput): Promise<void> {
+  const amount = formatMoney(payload.amount, payload.currency);
+  const ref = payload.orderNumber || payload.orderId || payload.disputeId;
+  const dueBy = payload.evidenceDueBy ?? null;
+  const due = dueBy
+    ? dueBy.toLocaleString('en-GB', { dateStyle: 'full', timeStyle: 'short', timeZone: 'Europe/London' })
+    : null;
+
+  const subject =
+    payload.kind === 'opened'
+      ? `Dispute opened: ${ref} — ${amount}${dueBy ? ` (evidence due ${dueBy.toLocaleDateString('en-GB', { timeZone: 'Europe/London' })})` : ''}`
+      : `Dispute ${payload.status}: ${ref} — ${amount}`;
+
+  const rows: [string, string][] = [
+    ['Order', payload.orderNumber ? `${payload.orderNumber}${payload.orderId ? ` (${payload.orderId})` : ''}` : payload.orderId || 'Not matched to an order'],
+    ['Amount', amount],
+    ['Reason', payload.reason ? payload.reason.replace(/_/g, ' ') : '—'],
+    ['Stripe status', payload.status.replace(/_/g, ' ')],
+    ['Customer', `${payload.clientName || '—'}${payload.clientEmail ? ` <${payload.clientEmail}>` : ''}`],
+    ['Dispute', payload.disputeId],
+  ];
+
+  const links = [
+    payload.stripeDashboardUrl ? `<a href="${payload.stripeDashboardUrl}">Respond in Stripe</a>` : '',
+    payload.dashboardUrl ? `<a href="${payload.dashboardUrl}">Open in admin dashboard</a>` : '',
+  ].filter(Boolean).join(' · ');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px;">
+      <h2>${payload.kind === 'opened' ? 'A payment has been disputed' : 'A dispute has closed'}</h2>
+      ${payload.kind === 'opened' && due
+        ? `<p style="padding: 12px; background: #fef2f2; border: 1px solid #fecaca; border-radius: 6px;"><strong>Evidence due by ${escapeHtml(due)}.</strong> If nothing is submitted by then the dispute is lost.</p>`
+        : ''}
+      ${rows.map(([label, value]) => `<p><strong>${label}:</strong> ${escapeHtml(value)}</p>`).join('')}
+      ${links ? `<p>${links}</p>` : ''}
+      <p style="color: #666; font-size: 12px;">This is an automated notification.</p>
+    </div>
+  `;
 
-  // success
-  console.log(`[AdminNotification] Sent admin notification to: ${to.map(t => t.email).join(', ')}`);
-}
\ No newline at end of file
+  await sendToAdmins(subject, html, {
+    kind: 'admin_dispute',
+    related: payload.orderId ? { type: 'Order', id: payload.orderId } : null,
+    dedupeKey: `dispute:${payload.disputeId}:${payload.kind === 'opened' ? 'opened' : payload.status}`,
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * lib/notifyAccountLogin.ts
+ *
+ * Emails a one-time sign-in link for the customer account (sent via Brevo).
+ *
+ * Required env vars:
+ * - BREVO_API_KEY
+ * - BREVO_SENDER_EMAIL (or EMAIL_FROM)
+ * Optional:
+ * - BREVO_SENDER_NAME
+ * - COMPANY_NAME
+ */
+
+import { enqueueEmail } from "@/lib/outbox";
+
+type SendResult =
+  | { sent: true; info: unknown }
+  | { sent: false; error?: string; reason?: "no-recipient" | "send-failed" };
+
+function escapeHtml(s?: string | null) {
+  if (!s) return "";
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+export async function notifyAccountLoginLink(opts: {
+  email: string;
+  name?: string | null;
+  url: string;
+  expiresInMinutes: number;
+}): Promise<SendResult> {
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
+  const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Your Store";
+  const companyName = process.env.COMPANY_NAME || senderName || "Store";
+
+  if (!senderEmail) {
+    return { sent: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured", reason: "send-failed" };
+  }
+  if (!opts.email) return { sent: false, error: "No recipient email", reason: "no-recipient" };
+
+  const subject = `Your ${companyName} sign-in link`;
+  const greeting = opts.name ? `Hi ${escapeHtml(opts.name.split(" ")[0])},` : "Hi,";
+
+  const htmlContent = `
+    <div style="font-family:Arial,Helvetica,sans-serif;color:#000;background:#fff;max-width:600px;margin:0 auto;padding:24px;">
+      <h2 style="margin:0 0 16px;">Sign in to your account</h2>
+      <p>${greeting}</p>
+      <p>Use the button below to sign in and see your orders, invoices and class bookings.</p>
+      <p style="margin:24px 0;"><a href="${escapeHtml(opts.url)}" style="background:#000;color:#fff;padding:12px 20px;border-radius:4px;text-decoration:none;display:inline-block;">Sign in</a></p>
+      <p style="font-size:13px;color:#555;">The link works once and expires in ${opts.expiresInMinutes} minutes. If you didn't ask to sign in, you can ignore this email.</p>
+      <p style="margin-top:24px;">Thanks — ${escapeHtml(companyName)}</p>
+    </div>
+  `;
+
+  const textContent = [
+    greeting,
+    "",
+    "Use this link to sign in and see your orders, invoices and class bookings:",
+    opts.url,
+    "",
+    `The link works once and expires in ${opts.expiresInMinutes} minutes. If you didn't ask to sign in, you can ignore this email.`,
+    "",
+    `Thanks — ${companyName}`,
+  ].join("\n");
+
+  const queued = await enqueueEmail({
+    kind: "account_login",
+    from: { email: senderEmail, name: senderName },
+    to: [{ email: opts.email, name: opts.name ?? null }],
+    subject,
+    html: htmlContent,
+    text: textContent,
+    redactAfterSend: true,
+  });
+  if (!queued.ok) return { sent: false, error: queued.error, reason: "send-failed" };
+  return { sent: true, info: { messageId: queued.messageId, status: queued.status } };
+}
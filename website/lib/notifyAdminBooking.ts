@@ -1,7 +1,8 @@
 /**
  * lib/notifyAdminBooking.ts
  *
- * Sends a short admin notification email about a new booking using Brevo.
+ * Queues short admin notification emails about a new booking (template: admin_booking)
+ * and about a customer cancelling or moving one (template: admin_booking_change).
  *
  * Required env vars:
  * - BREVO_API_KEY
@@ -17,6 +18,8 @@
  */
 
 import type mongoose from "mongoose";
+import { enqueueEmail } from "@/lib/outbox";
+import { renderEmailTemplate, type AdminBookingChangeVars } from "@/lib/emailTemplates";
 
 export type BookingSummary = {
   _id?: mongoose.Types.ObjectId | string;
@@ -31,31 +34,11 @@ export type BookingSummary = {
   createdAt?: string | Date | null;
 };
 
-function safe(s?: unknown): string {
-  if (s === undefined || s === null) return "";
-  return String(s);
-}
-
-function fmtDate(d?: string | Date | null): string {
-  if (!d) return "";
-  try {
-    return new Date(d).toLocaleString("en-GB", {
-      weekday: "short",
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  } catch {
-    return String(d);
-  }
-}
+type AdminRecipient =
+  | { ok: true; senderEmail: string; senderName: string; adminEmail: string }
+  | { ok: false; error: string };
 
-export async function notifyAdminBooking(
-  opts: { booking: BookingSummary }
-): Promise<{ sent: true } | { sent: false; error: string }> {
-  const brevoApiKey = process.env.BREVO_API_KEY;
+function adminRecipient(): AdminRecipient {
   const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
   // Accept a number of env names (ADMIN_NOTIFICATION_EMAIL is checked first)
   const adminEmail =
@@ -66,66 +49,64 @@ export async function notifyAdminBooking(
       "")
       .trim();
   const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Your Store";
-  const companyName = process.env.COMPANY_NAME || senderName || "Store";
-
-  if (!brevoApiKey) return { sent: false, error: "BREVO_API_KEY not configured" };
-  if (!senderEmail) return { sent: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured" };
-  if (!adminEmail) return { sent: false, error: "ADMIN notification email not configured (ADMIN_NOTIFICATION_EMAIL/ADMIN_EMAIL/SUPPORT_EMAIL missing)" };
 
-  const b = opts.booking;
-  const sessionLine = b.sessionStart ? `${fmtDate(b.sessionStart)}${b.sessionEnd ? ` — ${fmtDate(b.sessionEnd)}` : ""}` : "TBD";
+  if (!senderEmail) return { ok: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured" };
+  if (!adminEmail) return { ok: false, error: "ADMIN notification email not configured (ADMIN_NOTIFICATION_EMAIL/ADMIN_EMAIL/SUPPORT_EMAIL missing)" };
+  return { ok: true, senderEmail, senderName, adminEmail };
+}
 
-  const html = `
-    <div style="font-family:Arial,Helvetica,sans-serif;color:#000;">
-      <h2 style="margin:0 0 8px;">New Booking: ${safe(b.bookingRef)}</h2>
-      <div style="margin-bottom:6px;"><strong>Course:</strong> ${safe(b.courseTitle)}</div>
-      <div style="margin-bottom:6px;"><strong>Session:</strong> ${sessionLine}</div>
-      <div style="margin-bottom:6px;"><strong>Attendees:</strong> ${safe(b.attendees)}</div>
-      <div style="margin-bottom:6px;"><strong>Name:</strong> ${safe(b.name)}</div>
-      <div style="margin-bottom:6px;"><strong>Email:</strong> ${safe(b.email)}</div>
-      <div style="margin-bottom:6px;"><strong>Phone:</strong> ${safe(b.phone)}</div>
-      <div style="margin-top:12px;color:#666;font-size:13px;">Received: ${fmtDate(b.createdAt)}</div>
-      <div style="margin-top:18px;border-top:1px solid #eee;padding-top:8px;font-size:12px;color:#666;">${companyName}</div>
-    </div>
-  `;
+export async function notifyAdminBooking(
+  opts: { booking: BookingSummary }
+): Promise<{ sent: true } | { sent: false; error: string }> {
+  const recipient = adminRecipient();
+  if (!recipient.ok) return { sent: false, error: recipient.error };
+  const { senderEmail, senderName, adminEmail } = recipient;
 
-  const text = [
-    `New booking ${safe(b.bookingRef)}`,
-    `Course: ${safe(b.courseTitle)}`,
-    `Session: ${sessionLine}`,
-    `Attendees: ${safe(b.attendees)}`,
-    `Name: ${safe(b.name)}`,
-    `Email: ${safe(b.email)}`,
-    `Phone: ${safe(b.phone)}`,
-    `Received: ${fmtDate(b.createdAt)}`,
-  ].join("\n");
+  const b = opts.booking;
+  const email = await renderEmailTemplate("admin_booking", {
+    bookingRef: b.bookingRef || String(b._id || "").slice(-8),
+    courseTitle: b.courseTitle || "",
+    name: b.name,
+    email: b.email,
+    phone: b.phone,
+    attendees: b.attendees,
+    sessionStart: b.sessionStart,
+    sessionEnd: b.sessionEnd,
+    receivedAt: b.createdAt,
+  });
 
-  const payload = {
-    sender: { name: senderName, email: senderEmail },
+  const queued = await enqueueEmail({
+    kind: "admin_booking",
+    audience: "admin",
+    from: { email: senderEmail, name: senderName },
     to: [{ email: adminEmail }],
-    subject: `New booking ${safe(b.bookingRef)} — ${safe(b.courseTitle)}`,
-    htmlContent: html,
-    textContent: text,
-  };
-
-  try {
-    const resp = await fetch("https://api.brevo.com/v3/smtp/email", {
-      method: "POST",
-      headers: {
-        "api-key": brevoApiKey,
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+  });
+  if (!queued.ok) return { sent: false, error: queued.error };
+  return { sent: true };
+}
 
-    if (!resp.ok) {
-      const txt = await resp.text().catch(() => "");
-      return { sent: false, error: `Brevo API ${resp.status}: ${txt}` };
-    }
+/** Tells the admins a customer has cancelled or moved their booking, and about any refund that needs doing by hand */
+export async function notifyAdminBookingChange(
+  change: AdminBookingChangeVars & { bookingId: string }
+): Promise<{ sent: true } | { sent: false; error: string }> {
+  const recipient = adminRecipient();
+  if (!recipient.ok) return { sent: false, error: recipient.error };
 
-    return { sent: true };
-  } catch (err: unknown) {
-    return { sent: false, error: err instanceof Error ? err.message : String(err) };
-  }
-}
\ No newline at end of file
+  const { bookingId, ...vars } = change;
+  const email = await renderEmailTemplate("admin_booking_change", vars);
+  const queued = await enqueueEmail({
+    kind: "admin_booking_change",
+    audience: "admin",
+    from: { email: recipient.senderEmail, name: recipient.senderName },
+    to: [{ email: recipient.adminEmail }],
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    related: { type: "Booking", id: bookingId },
+  });
+  if (!queued.ok) return { sent: false, error: queued.error };
+  return { sent: true };
+}
@@ -0,0 +1,51 @@
+/**
+ * lib/notifyAdminOverdueInvoices.ts
+ *
+ * Queues one admin email listing manual invoices that have just become overdue
+ * (template: admin_overdue_invoices).
+ *
+ * Required env vars:
+ * - BREVO_SENDER_EMAIL (or EMAIL_FROM)
+ * - ADMIN_NOTIFICATION_EMAIL OR ADMIN_EMAIL OR SUPPORT_EMAIL
+ * Optional:
+ * - BREVO_SENDER_NAME
+ * - APP_BASE_URL (for the link to the invoices page)
+ */
+
+import { enqueueEmail } from "@/lib/outbox";
+import { renderEmailTemplate, type AdminOverdueInvoicesVars } from "@/lib/emailTemplates";
+
+export async function notifyAdminOverdueInvoices(
+  invoices: AdminOverdueInvoicesVars["invoices"]
+): Promise<{ sent: true } | { sent: false; error: string }> {
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
+  const adminEmail =
+    (process.env.ADMIN_NOTIFICATION_EMAIL ||
+      process.env.ADMIN_EMAIL ||
+      process.env.SUPPORT_EMAIL ||
+      process.env.BREVO_SENDER_EMAIL ||
+      "")
+      .trim();
+  const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Your Store";
+
+  if (!senderEmail) return { sent: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured" };
+  if (!adminEmail) return { sent: false, error: "ADMIN notification email not configured (ADMIN_NOTIFICATION_EMAIL/ADMIN_EMAIL/SUPPORT_EMAIL missing)" };
+
+  const appBase = (process.env.APP_BASE_URL || "").replace(/\/$/, "");
+  const email = await renderEmailTemplate("admin_overdue_invoices", {
+    invoices,
+    dashboardUrl: appBase ? `${appBase}/admin/invoice` : null,
+  });
+
+  const queued = await enqueueEmail({
+    kind: "admin_overdue_invoices",
+    audience: "admin",
+    from: { email: senderEmail, name: senderName },
+    to: [{ email: adminEmail }],
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+  });
+  if (!queued.ok) return { sent: false, error: queued.error };
+  return { sent: true };
+}
@@ -0,0 +1,82 @@
+/**
+ * lib/notifyAdminPasswordReset.ts
+ *
+ * Emails a one-time password reset link for an admin account (sent via Brevo).
+ *
+ * Required env vars:
+ * - BREVO_API_KEY
+ * - BREVO_SENDER_EMAIL (or EMAIL_FROM)
+ * Optional:
+ * - BREVO_SENDER_NAME
+ * - COMPANY_NAME
+ */
+
+import { enqueueEmail } from "@/lib/outbox";
+
+type SendResult =
+  | { sent: true; info: unknown }
+  | { sent: false; error?: string; reason?: "no-recipient" | "send-failed" };
+
+function escapeHtml(s?: string | null) {
+  if (!s) return "";
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+export async function notifyAdminPasswordReset(opts: {
+  email: string;
+  username: string;
+  url: string;
+  expiresInMinutes: number;
+  requestIp?: string | null;
+}): Promise<SendResult> {
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
+  const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Your Store";
+  const companyName = process.env.COMPANY_NAME || senderName || "Store";
+
+  if (!senderEmail) {
+    return { sent: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured", reason: "send-failed" };
+  }
+  if (!opts.email) return { sent: false, error: "No recipient email", reason: "no-recipient" };
+
+  const subject = `Reset your ${companyName} admin password`;
+  const requestedFrom = opts.requestIp ? ` from ${opts.requestIp}` : "";
+
+  const htmlContent = `
+    <div style="font-family:Arial,Helvetica,sans-serif;color:#000;background:#fff;max-width:600px;margin:0 auto;padding:24px;">
+      <h2 style="margin:0 0 16px;">Reset your password</h2>
+      <p>Hi ${escapeHtml(opts.username)},</p>
+      <p>Someone${escapeHtml(requestedFrom)} asked to reset the password for your admin account. Use the button below to choose a new one.</p>
+      <p style="margin:24px 0;"><a href="${escapeHtml(opts.url)}" style="background:#000;color:#fff;padding:12px 20px;border-radius:4px;text-decoration:none;display:inline-block;">Choose a new password</a></p>
+      <p style="font-size:13px;color:#555;">The link works once and expires in ${opts.expiresInMinutes} minutes. Resetting signs you out on every device. If you didn't ask for this, you can ignore this email — your password stays the same.</p>
+      <p style="margin-top:24px;">— ${escapeHtml(companyName)}</p>
+    </div>
+  `;
+
+  const textContent = [
+    `Hi ${opts.username},`,
+    "",
+    `Someone${requestedFrom} asked to reset the password for your admin account. Use this link to choose a new one:`,
+    opts.url,
+    "",
+    `The link works once and expires in ${opts.expiresInMinutes} minutes. Resetting signs you out on every device. If you didn't ask for this, you can ignore this email — your password stays the same.`,
+    "",
+    `— ${companyName}`,
+  ].join("\n");
+
+  const queued = await enqueueEmail({
+    kind: "admin_password_reset",
+    from: { email: senderEmail, name: senderName },
+    to: [{ email: opts.email, name: opts.username }],
+    subject,
+    html: htmlContent,
+    text: textContent,
+    redactAfterSend: true,
+  });
+  if (!queued.ok) return { sent: false, error: queued.error, reason: "send-failed" };
+  return { sent: true, info: { messageId: queued.messageId, status: queued.status } };
+}
@@ -0,0 +1,136 @@
+/**
+ * lib/notifyCheckoutRecovery.ts
+ *
+ * Abandoned checkout emails (sent via Brevo). Three steps, each a little
+ * further from the checkout; every one links back to the cart and carries an
+ * unsubscribe link.
+ *
+ * Required env vars:
+ * - BREVO_API_KEY
+ * - BREVO_SENDER_EMAIL (or EMAIL_FROM)
+ * Optional:
+ * - BREVO_SENDER_NAME
+ * - COMPANY_NAME
+ */
+
+import type { ICheckoutSessionItem } from "@/models/CheckoutSession";
+import { enqueueEmail } from "@/lib/outbox";
+
+type CheckoutSessionLike = {
+  email?: string | null;
+  name?: string | null;
+  items: ICheckoutSessionItem[];
+  total: number;
+};
+
+type SendResult =
+  | { sent: true; info: unknown }
+  | { sent: false; error?: string; reason?: "no-recipient" | "send-failed" };
+
+function escapeHtml(s?: string | null) {
+  if (!s) return "";
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+const STEP_COPY: { subject: string; intro: string }[] = [
+  {
+    subject: "You left something in your basket",
+    intro: "You were nearly done — your basket is saved and ready when you are.",
+  },
+  {
+    subject: "Your coffee is still waiting",
+    intro: "Just a reminder that your basket is still saved. Pick up where you left off in one click.",
+  },
+  {
+    subject: "Last call for your basket",
+    intro: "We'll stop reminding you after this one. Your basket is still here if you'd like it.",
+  },
+];
+
+export async function notifyCheckoutRecovery(opts: {
+  session: CheckoutSessionLike;
+  step: number;
+  recoverUrl: string;
+  unsubscribeUrl: string;
+}): Promise<SendResult> {
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
+  const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Your Store";
+  const companyName = process.env.COMPANY_NAME || senderName || "Store";
+
+  if (!senderEmail) {
+    return { sent: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured", reason: "send-failed" };
+  }
+
+  const session = opts.session;
+  if (!session.email) return { sent: false, error: "No recipient email on checkout", reason: "no-recipient" };
+
+  const copy = STEP_COPY[Math.min(opts.step, STEP_COPY.length - 1)];
+  const subject = `${companyName} — ${copy.subject}`;
+  const greeting = session.name ? `Hi ${escapeHtml(session.name.split(" ")[0])},` : "Hi,";
+
+  const rowsHtml = session.items
+    .map(
+      (it) => `<tr>
+          <td style="padding:6px 0;">${escapeHtml(it.name)}${it.size ? ` · ${escapeHtml(it.size)}` : ""}${it.grind ? ` · ${escapeHtml(it.grind)}` : ""}</td>
+          <td style="padding:6px 0;text-align:center;">${it.quantity}</td>
+          <td style="padding:6px 0;text-align:right;">£${(it.price * it.quantity).toFixed(2)}</td>
+        </tr>`
+    )
+    .join("");
+  const rowsText = session.items.map((it) => `- ${it.quantity} × ${it.name} (£${(it.price * it.quantity).toFixed(2)})`);
+
+  const htmlContent = `
+    <div style="font-family:Arial,Helvetica,sans-serif;color:#000;background:#fff;max-width:600px;margin:0 auto;padding:24px;">
+      <h2 style="margin:0 0 16px;">${escapeHtml(copy.subject)}</h2>
+      <p>${greeting}</p>
+      <p>${escapeHtml(copy.intro)}</p>
+      <table style="width:100%;border-collapse:collapse;margin:16px 0;background:#f5f5f5;padding:12px;border-radius:4px;">
+        <thead>
+          <tr>
+            <th style="text-align:left;padding:6px 0;">Item</th>
+            <th style="padding:6px 0;">Qty</th>
+            <th style="text-align:right;padding:6px 0;">Price</th>
+          </tr>
+        </thead>
+        <tbody>${rowsHtml}</tbody>
+      </table>
+      <p><strong>Total at checkout: £${Number(session.total || 0).toFixed(2)}</strong></p>
+      <p style="font-size:13px;color:#555;">Prices and availability are confirmed again when you check out.</p>
+      <p style="margin:24px 0;"><a href="${escapeHtml(opts.recoverUrl)}" style="background:#000;color:#fff;padding:12px 20px;border-radius:4px;text-decoration:none;display:inline-block;">Return to your basket</a></p>
+      <p style="margin-top:24px;">Thanks — ${escapeHtml(companyName)}</p>
+      <p style="font-size:12px;color:#777;margin-top:32px;">You're receiving this because you opted in to emails at checkout. <a href="${escapeHtml(opts.unsubscribeUrl)}" style="color:#777;">Unsubscribe</a></p>
+    </div>
+  `;
+
+  const textContent = [
+    greeting,
+    "",
+    copy.intro,
+    "",
+    ...rowsText,
+    `Total at checkout: £${Number(session.total || 0).toFixed(2)}`,
+    "",
+    `Return to your basket: ${opts.recoverUrl}`,
+    "",
+    `Thanks — ${companyName}`,
+    "",
+    `Unsubscribe: ${opts.unsubscribeUrl}`,
+  ].join("\n");
+
+  const queued = await enqueueEmail({
+    kind: "checkout_recovery",
+    from: { email: senderEmail, name: senderName },
+    to: [{ email: session.email, name: session.name ?? null }],
+    subject,
+    html: htmlContent,
+    text: textContent,
+    headers: { "List-Unsubscribe": `<${opts.unsubscribeUrl}>` },
+  });
+  if (!queued.ok) return { sent: false, error: queued.error, reason: "send-failed" };
+  return { sent: true, info: { messageId: queued.messageId, status: queued.status } };
+}
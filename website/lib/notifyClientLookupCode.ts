@@ -0,0 +1,82 @@
+/**
+ * lib/notifyClientLookupCode.ts
+ *
+ * Emails the one-time code that lets a returning customer fill in their saved
+ * details at checkout (sent via Brevo).
+ *
+ * Required env vars:
+ * - BREVO_API_KEY
+ * - BREVO_SENDER_EMAIL (or EMAIL_FROM)
+ * Optional:
+ * - BREVO_SENDER_NAME
+ * - COMPANY_NAME
+ */
+
+import { enqueueEmail } from "@/lib/outbox";
+
+type SendResult =
+  | { sent: true; info: unknown }
+  | { sent: false; error?: string; reason?: "no-recipient" | "send-failed" };
+
+function escapeHtml(s?: string | null) {
+  if (!s) return "";
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+export async function notifyClientLookupCode(opts: {
+  email: string;
+  name?: string | null;
+  code: string;
+  expiresInMinutes: number;
+}): Promise<SendResult> {
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
+  const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Your Store";
+  const companyName = process.env.COMPANY_NAME || senderName || "Store";
+
+  if (!senderEmail) {
+    return { sent: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured", reason: "send-failed" };
+  }
+  if (!opts.email) return { sent: false, error: "No recipient email", reason: "no-recipient" };
+
+  const subject = `${opts.code} is your ${companyName} checkout code`;
+  const greeting = opts.name ? `Hi ${escapeHtml(opts.name.split(" ")[0])},` : "Hi,";
+
+  const htmlContent = `
+    <div style="font-family:Arial,Helvetica,sans-serif;color:#000;background:#fff;max-width:600px;margin:0 auto;padding:24px;">
+      <h2 style="margin:0 0 16px;">Your checkout code</h2>
+      <p>${greeting}</p>
+      <p>Enter this code at checkout to fill in the details we have saved for you:</p>
+      <p style="margin:24px 0;font-size:28px;font-weight:bold;letter-spacing:6px;">${escapeHtml(opts.code)}</p>
+      <p style="font-size:13px;color:#555;">The code expires in ${opts.expiresInMinutes} minutes. If you didn't ask for it, you can ignore this email — nobody can see your details without it.</p>
+      <p style="margin-top:24px;">Thanks — ${escapeHtml(companyName)}</p>
+    </div>
+  `;
+
+  const textContent = [
+    greeting,
+    "",
+    `Your checkout code is ${opts.code}`,
+    "",
+    `Enter it at checkout to fill in the details we have saved for you. It expires in ${opts.expiresInMinutes} minutes.`,
+    "If you didn't ask for it, you can ignore this email — nobody can see your details without it.",
+    "",
+    `Thanks — ${companyName}`,
+  ].join("\n");
+
+  const queued = await enqueueEmail({
+    kind: "checkout_lookup_code",
+    from: { email: senderEmail, name: senderName },
+    to: [{ email: opts.email, name: opts.name ?? null }],
+    subject,
+    html: htmlContent,
+    text: textContent,
+    redactAfterSend: true,
+  });
+  if (!queued.ok) return { sent: false, error: queued.error, reason: "send-failed" };
+  return { sent: true, info: { messageId: queued.messageId, status: queued.status } };
+}
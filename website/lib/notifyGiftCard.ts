@@ -0,0 +1,221 @@
+/**
+ * lib/notifyGiftCard.ts
+ *
+ * Delivers a gift card / store credit to its recipient (sent via Brevo), with a
+ * printable PDF card attached (pdf-lib, same stack as the invoices).
+ *
+ * Required env vars:
+ * - BREVO_API_KEY
+ * - BREVO_SENDER_EMAIL (or EMAIL_FROM)
+ * Optional:
+ * - BREVO_SENDER_NAME
+ * - COMPANY_NAME
+ * - SUPPORT_EMAIL
+ * - APP_BASE_URL
+ */
+
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { enqueueEmail } from "@/lib/outbox";
+
+type GiftCardLike = {
+  code: string;
+  kind: "gift_card" | "store_credit";
+  balancePence: number;
+  expiresAt?: Date | null;
+  recipientEmail?: string | null;
+  recipientName?: string | null;
+  senderName?: string | null;
+  message?: string | null;
+};
+
+type SendResult =
+  | { sent: true; info: unknown }
+  | { sent: false; error?: string; reason?: "no-recipient" | "send-failed" };
+
+function escapeHtml(s?: string | null) {
+  if (!s) return "";
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+function formatDate(d?: Date | null) {
+  if (!d) return null;
+  return new Date(d).toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" });
+}
+
+// Standard fonts only cover WinAnsi; drop anything else (emoji etc.) from customer text
+function pdfSafe(s: string) {
+  return s.replace(/[^\x20-\x7E\xA0-\xFF]/g, "");
+}
+
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/)) {
+    if ((current + " " + word).trim().length > maxChars) {
+      if (current) lines.push(current);
+      current = word;
+    } else {
+      current = (current + " " + word).trim();
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+export async function generateGiftCardPDF(card: GiftCardLike, companyName: string): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  // A6 landscape, roughly card sized when printed
+  const page = pdfDoc.addPage([420, 298]);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const { width, height } = page.getSize();
+  const margin = 28;
+
+  page.drawRectangle({ x: 0, y: 0, width, height, color: rgb(0, 0, 0) });
+  page.drawRectangle({
+    x: 10,
+    y: 10,
+    width: width - 20,
+    height: height - 20,
+    borderColor: rgb(1, 1, 1),
+    borderWidth: 1,
+  });
+
+  const white = rgb(1, 1, 1);
+  const grey = rgb(0.75, 0.75, 0.75);
+
+  page.drawText(pdfSafe(companyName).toUpperCase(), { x: margin, y: height - 48, size: 12, font: boldFont, color: white });
+  page.drawText(card.kind === "store_credit" ? "STORE CREDIT" : "GIFT CARD", {
+    x: margin,
+    y: height - 66,
+    size: 9,
+    font,
+    color: grey,
+  });
+
+  const amount = `£${(card.balancePence / 100).toFixed(2)}`;
+  page.drawText(amount, {
+    x: width - margin - boldFont.widthOfTextAtSize(amount, 30),
+    y: height - 62,
+    size: 30,
+    font: boldFont,
+    color: white,
+  });
+
+  let y = height - 110;
+  if (card.recipientName) {
+    page.drawText(pdfSafe(`For ${card.recipientName}`), { x: margin, y, size: 12, font: boldFont, color: white });
+    y -= 18;
+  }
+  if (card.message) {
+    for (const line of wrapText(pdfSafe(card.message), 58).slice(0, 4)) {
+      page.drawText(line, { x: margin, y, size: 10, font, color: white });
+      y -= 14;
+    }
+  }
+  if (card.senderName) {
+    page.drawText(pdfSafe(`From ${card.senderName}`), { x: margin, y: y - 4, size: 10, font, color: grey });
+  }
+
+  page.drawText("CODE", { x: margin, y: 62, size: 8, font, color: grey });
+  page.drawText(card.code, { x: margin, y: 42, size: 18, font: boldFont, color: white });
+
+  const expiry = formatDate(card.expiresAt);
+  const footer = expiry ? `Valid until ${expiry}` : "No expiry date";
+  page.drawText(footer, {
+    x: width - margin - font.widthOfTextAtSize(footer, 8),
+    y: 44,
+    size: 8,
+    font,
+    color: grey,
+  });
+
+  const bytes = await pdfDoc.save();
+  return Buffer.from(bytes);
+}
+
+export async function notifyGiftCardToRecipient(opts: { giftCard: GiftCardLike }): Promise<SendResult> {
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
+  const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Your Store";
+  const supportEmail = process.env.SUPPORT_EMAIL || senderEmail || "";
+  const companyName = process.env.COMPANY_NAME || senderName || "Store";
+  const appBase = (process.env.APP_BASE_URL || "").replace(/\/$/, "");
+
+  if (!senderEmail) {
+    return { sent: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured", reason: "send-failed" };
+  }
+
+  const card = opts.giftCard;
+  if (!card.recipientEmail) return { sent: false, error: "No recipient email on gift card", reason: "no-recipient" };
+
+  const isCredit = card.kind === "store_credit";
+  const amount = `£${(card.balancePence / 100).toFixed(2)}`;
+  const expiry = formatDate(card.expiresAt);
+  const greeting = card.recipientName ? `Hi ${escapeHtml(card.recipientName.split(" ")[0])},` : "Hi,";
+
+  const subject = isCredit
+    ? `${companyName} — You have ${amount} store credit`
+    : card.senderName
+      ? `${card.senderName} sent you a ${amount} ${companyName} gift card`
+      : `Your ${amount} ${companyName} gift card`;
+
+  const introHtml = isCredit
+    ? `<p>We've added <strong>${amount}</strong> of store credit for you. Enter the code below at checkout and it comes straight off your order.</p>`
+    : `<p>${card.senderName ? `<strong>${escapeHtml(card.senderName)}</strong> has sent you` : "Here is"} a <strong>${amount}</strong> gift card to spend on coffee, kit and classes. Enter the code below at checkout.</p>`;
+
+  let pdf: Buffer;
+  try {
+    pdf = await generateGiftCardPDF(card, companyName);
+  } catch (err) {
+    return { sent: false, error: `Failed to render gift card PDF: ${err instanceof Error ? err.message : String(err)}`, reason: "send-failed" };
+  }
+
+  const htmlContent = `
+    <div style="font-family:Arial,Helvetica,sans-serif;color:#000;background:#fff;max-width:600px;margin:0 auto;padding:24px;">
+      <h2 style="margin:0 0 16px;">${isCredit ? "Your store credit" : "You've got a gift card"}</h2>
+      <p>${greeting}</p>
+      ${introHtml}
+      ${card.message ? `<blockquote style="margin:16px 0;padding:12px 16px;border-left:3px solid #000;background:#f5f5f5;">${escapeHtml(card.message)}</blockquote>` : ""}
+      <div style="background:#000;color:#fff;padding:20px;border-radius:4px;margin:16px 0;text-align:center;">
+        <div style="font-size:12px;letter-spacing:2px;color:#bbb;">CODE</div>
+        <div style="font-size:24px;font-weight:bold;letter-spacing:2px;margin-top:6px;">${escapeHtml(card.code)}</div>
+        <div style="font-size:13px;color:#bbb;margin-top:8px;">${amount}${expiry ? ` · valid until ${escapeHtml(expiry)}` : ""}</div>
+      </div>
+      ${appBase ? `<p style="margin:24px 0;"><a href="${escapeHtml(appBase)}" style="background:#000;color:#fff;padding:12px 20px;border-radius:4px;text-decoration:none;display:inline-block;">Start shopping</a></p>` : ""}
+      <p style="font-size:13px;color:#555;">A printable card is attached. Any balance you don't use stays on the code for next time${supportEmail ? `; questions to <a href="mailto:${escapeHtml(supportEmail)}" style="color:#000;">${escapeHtml(supportEmail)}</a>` : ""}.</p>
+      <p style="margin-top:24px;">Thanks — ${escapeHtml(companyName)}</p>
+    </div>
+  `;
+
+  const textContent = [
+    card.recipientName ? `Hi ${card.recipientName.split(" ")[0]},` : "Hi,",
+    "",
+    isCredit
+      ? `We've added ${amount} of store credit for you.`
+      : `${card.senderName ? `${card.senderName} has sent you` : "Here is"} a ${amount} gift card.`,
+    card.message ? `\n"${card.message}"\n` : "",
+    `Code: ${card.code}`,
+    expiry ? `Valid until ${expiry}` : "",
+    "",
+    "Enter the code at checkout. Any balance you don't use stays on the code for next time.",
+    "",
+    `Thanks — ${companyName}`,
+  ].join("\n");
+
+  const queued = await enqueueEmail({
+    kind: "gift_card",
+    from: { email: senderEmail, name: senderName },
+    to: [{ email: card.recipientEmail, name: card.recipientName ?? null }],
+    subject,
+    html: htmlContent,
+    text: textContent,
+    attachments: [{ name: `${isCredit ? "store-credit" : "gift-card"}-${card.code}.pdf`, content: pdf.toString("base64") }],
+  });
+  if (!queued.ok) return { sent: false, error: queued.error, reason: "send-failed" };
+  return { sent: true, info: { messageId: queued.messageId, status: queued.status } };
+}
@@ -0,0 +1,178 @@
+/**
+ * lib/notifyReturn.ts
+ *
+ * Emails the customer when a return (RMA) is opened or changes status (sent via Brevo).
+ * Approved returns include the link to print the returns label and packing slip.
+ *
+ * Required env vars:
+ * - BREVO_API_KEY
+ * - BREVO_SENDER_EMAIL (or EMAIL_FROM)
+ * Optional:
+ * - BREVO_SENDER_NAME
+ * - COMPANY_NAME
+ * - SUPPORT_EMAIL
+ */
+
+import type mongoose from "mongoose";
+import { enqueueEmail } from "@/lib/outbox";
+
+type ReturnLike = {
+  _id?: mongoose.Types.ObjectId | string;
+  rmaNumber: string;
+  orderId: mongoose.Types.ObjectId | string;
+  email: string;
+  name?: string | null;
+  status: string;
+  lines: { name: string; qty: number; reason: string }[];
+  adminNote?: string | null;
+  refundAmount?: number | null;
+  refundMethod?: "card" | "store_credit" | null;
+};
+
+type SendResult =
+  | { sent: true; info: unknown }
+  | { sent: false; error?: string; reason?: "no-recipient" | "send-failed" | "no-template" };
+
+function escapeHtml(s?: string | null) {
+  if (!s) return "";
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+function formatCurrency(value = 0, currency = "GBP") {
+  try {
+    return new Intl.NumberFormat("en-GB", {
+      style: "currency",
+      currency: (currency || "GBP").toUpperCase(),
+      maximumFractionDigits: 2,
+    }).format(value);
+  } catch {
+    return `£${(value || 0).toFixed(2)}`;
+  }
+}
+
+function statusCopy(r: ReturnLike, currency: string): { subject: string; lead: string } | null {
+  switch (r.status) {
+    case "requested":
+      return {
+        subject: `We've received your return request ${r.rmaNumber}`,
+        lead: "Thanks — we've got your return request and will review it shortly. Please don't send anything back until we've approved it.",
+      };
+    case "approved":
+      return {
+        subject: `Your return ${r.rmaNumber} is approved`,
+        lead: "Your return is approved. Print the returns label and packing slip, put the slip in the parcel with the items and send it back to us.",
+      };
+    case "rejected":
+      return {
+        subject: `About your return request ${r.rmaNumber}`,
+        lead: "Sorry, we're not able to accept this return. If you have any questions, just reply to this email.",
+      };
+    case "received":
+      return {
+        subject: `We've received your return ${r.rmaNumber}`,
+        lead: "Your parcel has arrived. We'll check the items and let you know once your return is complete.",
+      };
+    case "completed": {
+      const amount = Number(r.refundAmount || 0);
+      if (amount <= 0) {
+        return { subject: `Your return ${r.rmaNumber} is complete`, lead: "Your return is complete." };
+      }
+      const where =
+        r.refundMethod === "store_credit"
+          ? "as store credit (the code arrives in a separate email)"
+          : "to your original payment method — it can take 5–10 working days to appear";
+      return {
+        subject: `Your return ${r.rmaNumber} is complete`,
+        lead: `Your return is complete and we've refunded ${formatCurrency(amount, currency)} ${where}.`,
+      };
+    }
+    case "cancelled":
+      return {
+        subject: `Your return ${r.rmaNumber} has been cancelled`,
+        lead: "This return has been cancelled. If that's unexpected, just reply to this email.",
+      };
+    default:
+      return null;
+  }
+}
+
+export async function notifyReturnToCustomer(opts: {
+  returnRequest: ReturnLike;
+  slipUrl?: string | null;
+  reasonLabels: Record<string, string>;
+  currency?: string;
+}): Promise<SendResult> {
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
+  const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Your Store";
+  const companyName = process.env.COMPANY_NAME || senderName || "Store";
+  const supportEmail = process.env.SUPPORT_EMAIL || senderEmail || "";
+
+  if (!senderEmail) {
+    return { sent: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured", reason: "send-failed" };
+  }
+
+  const r = opts.returnRequest;
+  if (!r.email) return { sent: false, error: "No recipient email", reason: "no-recipient" };
+
+  const copy = statusCopy(r, opts.currency || "GBP");
+  if (!copy) return { sent: false, error: `No email for status ${r.status}`, reason: "no-template" };
+
+  const orderNumber = `#${String(r.orderId).slice(-8).toUpperCase()}`;
+  const greeting = r.name ? `Hi ${escapeHtml(r.name.split(" ")[0])},` : "Hi,";
+  const lineRows = r.lines
+    .map(
+      (l) =>
+        `<tr><td style="padding:6px 0;border-bottom:1px solid #eee;">${escapeHtml(l.name)}</td><td style="padding:6px 0;border-bottom:1px solid #eee;text-align:center;">${l.qty}</td><td style="padding:6px 0;border-bottom:1px solid #eee;">${escapeHtml(opts.reasonLabels[l.reason] ?? l.reason)}</td></tr>`
+    )
+    .join("");
+
+  const htmlContent = `
+    <div style="font-family:Arial,Helvetica,sans-serif;color:#000;background:#fff;max-width:600px;margin:0 auto;padding:24px;">
+      <h2 style="margin:0 0 16px;">Return ${escapeHtml(r.rmaNumber)} — order ${orderNumber}</h2>
+      <p>${greeting}</p>
+      <p>${escapeHtml(copy.lead)}</p>
+      ${r.adminNote && r.status !== "requested" ? `<p style="background:#f5f5f5;padding:12px;border-radius:4px;">${escapeHtml(r.adminNote)}</p>` : ""}
+      <table style="width:100%;border-collapse:collapse;font-size:14px;margin:16px 0;">
+        <thead><tr><th align="left">Item</th><th>Qty</th><th align="left">Reason</th></tr></thead>
+        <tbody>${lineRows}</tbody>
+      </table>
+      ${
+        opts.slipUrl
+          ? `<p style="margin:24px 0;"><a href="${escapeHtml(opts.slipUrl)}" style="background:#000;color:#fff;padding:12px 20px;border-radius:4px;text-decoration:none;display:inline-block;">Print returns label &amp; packing slip</a></p>`
+          : ""
+      }
+      ${supportEmail ? `<p style="font-size:13px;color:#555;">Questions? Email <a href="mailto:${escapeHtml(supportEmail)}">${escapeHtml(supportEmail)}</a> quoting ${escapeHtml(r.rmaNumber)}.</p>` : ""}
+      <p style="margin-top:24px;">Thanks — ${escapeHtml(companyName)}</p>
+    </div>
+  `;
+
+  const textContent = [
+    greeting,
+    "",
+    copy.lead,
+    ...(r.adminNote && r.status !== "requested" ? ["", r.adminNote] : []),
+    "",
+    `Return ${r.rmaNumber} — order ${orderNumber}`,
+    ...r.lines.map((l) => `- ${l.qty} x ${l.name} (${opts.reasonLabels[l.reason] ?? l.reason})`),
+    ...(opts.slipUrl ? ["", "Print your returns label and packing slip:", opts.slipUrl] : []),
+    "",
+    `Thanks — ${companyName}`,
+  ].join("\n");
+
+  const queued = await enqueueEmail({
+    kind: "return_update",
+    from: { email: senderEmail, name: senderName },
+    to: [{ email: r.email, name: r.name ?? null }],
+    subject: copy.subject,
+    html: htmlContent,
+    text: textContent,
+    related: { type: 'ReturnRequest', id: String(r._id) },
+  });
+  if (!queued.ok) return { sent: false, error: queued.error, reason: "send-failed" };
+  return { sent: true, info: { messageId: queued.messageId, status: queued.status } };
+}
@@ -0,0 +1,151 @@
+/**
+ * lib/notifySubscription.ts
+ *
+ * Customer emails for coffee subscriptions (sent via Brevo):
+ * - created: confirmation with the self-service link (skip / pause / swap / cancel)
+ * - payment_failed: renewal could not be charged after retries
+ * - cancelled: confirmation that no further deliveries will be sent
+ *
+ * Required env vars:
+ * - BREVO_API_KEY
+ * - BREVO_SENDER_EMAIL (or EMAIL_FROM)
+ * Optional:
+ * - BREVO_SENDER_NAME
+ * - COMPANY_NAME
+ * - SUPPORT_EMAIL
+ * - APP_BASE_URL
+ */
+
+import type mongoose from "mongoose";
+import { enqueueEmail } from "@/lib/outbox";
+
+export type SubscriptionEmailKind = "created" | "payment_failed" | "cancelled";
+
+type SubscriptionLike = {
+  _id: mongoose.Types.ObjectId | string;
+  email: string;
+  name?: string | null;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  cadence: string;
+  nextRenewalAt?: Date | null;
+  manageToken: string;
+};
+
+type SendResult =
+  | { sent: true; info: unknown }
+  | { sent: false; error?: string; reason?: "no-recipient" | "send-failed" };
+
+const CADENCE_LABELS: Record<string, string> = {
+  weekly: "every week",
+  fortnightly: "every two weeks",
+  monthly: "every month",
+};
+
+function escapeHtml(s?: string | null) {
+  if (!s) return "";
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+function formatDate(d?: Date | null) {
+  if (!d) return "—";
+  return new Date(d).toLocaleDateString("en-GB", { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+}
+
+export function buildSubscriptionManageUrl(sub: Pick<SubscriptionLike, "_id" | "manageToken">) {
+  const appBase = (process.env.APP_BASE_URL || "").replace(/\/$/, "");
+  return `${appBase}/subscriptions/manage?id=${encodeURIComponent(String(sub._id))}&token=${encodeURIComponent(sub.manageToken)}`;
+}
+
+export async function notifySubscriptionToCustomer(opts: {
+  subscription: SubscriptionLike;
+  kind: SubscriptionEmailKind;
+}): Promise<SendResult> {
+  const senderEmail = (process.env.BREVO_SENDER_EMAIL || process.env.EMAIL_FROM || "").trim();
+  const senderName = process.env.BREVO_SENDER_NAME || process.env.COMPANY_NAME || "Your Store";
+  const supportEmail = process.env.SUPPORT_EMAIL || senderEmail || "";
+  const companyName = process.env.COMPANY_NAME || senderName || "Store";
+
+  if (!senderEmail) {
+    return { sent: false, error: "BREVO_SENDER_EMAIL (or EMAIL_FROM) not configured", reason: "send-failed" };
+  }
+
+  const sub = opts.subscription;
+  if (!sub.email) return { sent: false, error: "No recipient email on subscription", reason: "no-recipient" };
+
+  const manageUrl = buildSubscriptionManageUrl(sub);
+  const cadenceLabel = CADENCE_LABELS[sub.cadence] ?? sub.cadence;
+  const greeting = sub.name ? `Hi ${escapeHtml(sub.name.split(" ")[0])},` : "Hi,";
+  const lineSummary = `${sub.quantity} × ${sub.productName} (£${Number(sub.unitPrice || 0).toFixed(2)} each), ${cadenceLabel}`;
+
+  let subject: string;
+  let introHtml: string;
+  let introText: string;
+
+  switch (opts.kind) {
+    case "created":
+      subject = `${companyName} — Your coffee subscription is set up`;
+      introHtml = `<p>Thanks for subscribing! Your first bag is on its way with this order, and we'll send the next one on <strong>${escapeHtml(formatDate(sub.nextRenewalAt))}</strong>.</p>`;
+      introText = `Thanks for subscribing! Your next delivery will be charged on ${formatDate(sub.nextRenewalAt)}.`;
+      break;
+    case "payment_failed":
+      subject = `${companyName} — We couldn't take payment for your subscription`;
+      introHtml = `<p>We tried several times but couldn't charge your saved card for your next delivery, so your subscription is on hold. Please get in touch${supportEmail ? ` at <a href="mailto:${escapeHtml(supportEmail)}" style="color:#000;">${escapeHtml(supportEmail)}</a>` : ""} to update your payment details, then resume it from the link below.</p>`;
+      introText = `We couldn't charge your saved card for your next delivery, so your subscription is on hold. Contact ${supportEmail || "us"} to update your payment details.`;
+      break;
+    case "cancelled":
+      subject = `${companyName} — Your coffee subscription has been cancelled`;
+      introHtml = `<p>Your subscription has been cancelled and no further payments will be taken. We hope to brew for you again soon.</p>`;
+      introText = "Your subscription has been cancelled and no further payments will be taken.";
+      break;
+  }
+
+  const manageBlock =
+    opts.kind === "cancelled"
+      ? ""
+      : `<p style="margin:24px 0;"><a href="${escapeHtml(manageUrl)}" style="background:#000;color:#fff;padding:12px 20px;border-radius:4px;text-decoration:none;display:inline-block;">Manage subscription</a></p>
+         <p style="font-size:13px;color:#555;">Use this link to skip a delivery, pause, swap your coffee or cancel. Keep it private — anyone with the link can change your subscription.</p>`;
+
+  const htmlContent = `
+    <div style="font-family:Arial,Helvetica,sans-serif;color:#000;background:#fff;max-width:600px;margin:0 auto;padding:24px;">
+      <h2 style="margin:0 0 16px;">${escapeHtml(subject.replace(`${companyName} — `, ""))}</h2>
+      <p>${greeting}</p>
+      ${introHtml}
+      <div style="background:#f5f5f5;padding:12px;border-radius:4px;margin:16px 0;">
+        <strong>Your subscription</strong>
+        <p style="margin:8px 0 0;">${escapeHtml(lineSummary)}</p>
+      </div>
+      ${manageBlock}
+      <p style="margin-top:24px;">Thanks — ${escapeHtml(companyName)}</p>
+    </div>
+  `;
+
+  const textContent = [
+    greeting,
+    "",
+    introText,
+    "",
+    `Your subscription: ${lineSummary}`,
+    opts.kind === "cancelled" ? "" : `Manage your subscription: ${manageUrl}`,
+    "",
+    `Thanks — ${companyName}`,
+  ].join("\n");
+
+  const queued = await enqueueEmail({
+    kind: "subscription",
+    from: { email: senderEmail, name: senderName },
+    to: [{ email: sub.email }],
+    subject,
+    html: htmlContent,
+    text: textContent,
+    related: { type: 'Subscription', id: String(sub._id) },
+  });
+  if (!queued.ok) return { sent: false, error: queued.error, reason: "send-failed" };
+  return { sent: true, info: { messageId: queued.messageId, status: queued.status } };
+}
@@ -0,0 +1,306 @@
+import Stripe from "stripe";
+import mongoose from "mongoose";
+import Order from "@/models/Order";
+import { notifyRefundToCustomer } from "@/lib/notifyRefund";
+import { deliverGiftCard, issueGiftCard } from "@/lib/giftCardService";
+import { creditNoteForRefund, type CreditLineInput } from "@/lib/creditNotes";
+import type { IGiftCard } from "@/models/GiftCard";
+
+/*
+ * Refunds against an order, back to the card through Stripe or as store credit.
+ * Used by the admin refund route and when a return is completed. Every refund is
+ * appended to order.metadata.refunds; order.refund keeps the running total, and
+ * each one is credited against the order's invoice with a credit note.
+ */
+
+export interface RefundRecord {
+  refundId: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  refundedAt: string;
+  paymentProviderRefundId: string | null;
+  idempotencyKey: string | null;
+  stripeResponse?: { id: string; status: string };
+  // "store_credit" refunds go onto a new store credit code instead of back to the card
+  method?: "card" | "store_credit";
+  giftCardCode?: string | null;
+  returnId?: string | null; // set when the refund completes a return
+}
+
+interface OrderLike {
+  [key: string]: unknown;
+}
+
+export type RefundInput = {
+  amount: number;
+  reason?: string;
+  currency?: string;
+  idempotencyKey?: string;
+  toStoreCredit?: boolean;
+  returnId?: string | null;
+  // Invoice lines being refunded, for the credit note; without them it credits a lump sum
+  lines?: CreditLineInput[] | null;
+};
+
+export type RefundResult =
+  | { ok: true; refund: RefundRecord; order: unknown }
+  | { ok: false; status: number; error: string; details?: Record<string, unknown> };
+
+function toMinorUnit(amount: number, currency = "GBP"): number {
+  const zeroDecimal = new Set(["JPY", "VND", "KRW"]);
+  const cur = (currency || "GBP").toUpperCase();
+  return zeroDecimal.has(cur) ? Math.round(amount) : Math.round(amount * 100);
+}
+
+function getStripe(): Stripe | null {
+  const stripeSecret = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecret) return null;
+  return new Stripe(stripeSecret, { apiVersion: "2025-12-15.clover" });
+}
+
+/** Amount that can still be refunded on an order (GBP) */
+export function getRefundableAmount(order: {
+  total?: number;
+  refund?: { amount?: number } | null;
+  metadata?: Record<string, unknown> | null;
+}): number {
+  const meta = order.metadata ?? {};
+  const refundsArr: RefundRecord[] = Array.isArray(meta.refunds) ? (meta.refunds as RefundRecord[]) : [];
+  const refundedSoFar =
+    Number(order.refund?.amount ?? 0) || refundsArr.reduce((s, r) => s + (Number(r.amount) || 0), 0) || 0;
+  return Math.max(0, Number((Number(order.total || 0) - refundedSoFar).toFixed(2)));
+}
+
+export async function refundOrder(orderId: string, input: RefundInput, actor: string | null): Promise<RefundResult> {
+  const stripe = getStripe();
+  if (!stripe) {
+    console.error("Stripe secret missing");
+    return { ok: false, status: 500, error: "Server misconfigured" };
+  }
+
+  const idempotencyKey = input.idempotencyKey;
+
+  const order = await Order.findById(orderId).lean().exec();
+  if (!order) return { ok: false, status: 404, error: "Order not found" };
+
+  const meta = (order as { metadata?: Record<string, unknown> }).metadata ?? {};
+  const legacyRefundAmount = (order as { refund?: { amount?: number } }).refund?.amount ?? 0;
+  const refundsArr: RefundRecord[] = Array.isArray(meta.refunds) ? (meta.refunds as RefundRecord[]) : [];
+  const refundedSoFarFromMetadata = refundsArr.reduce((s, r) => s + (Number(r.amount) || 0), 0);
+  const refundedSoFar = Number(legacyRefundAmount) || refundedSoFarFromMetadata || 0;
+
+  const total = Number((order as { total?: number }).total || 0);
+  const refundable = Math.max(0, Number((total - refundedSoFar).toFixed(2)));
+
+  // idempotency check (saved on order.metadata.refunds by key)
+  if (idempotencyKey) {
+    const existing = refundsArr.find((r) => r.idempotencyKey === idempotencyKey);
+    if (existing) return { ok: true, refund: existing, order };
+  }
+
+  // Stripe won't refund a charge while its dispute is open
+  if ((order as { status?: string }).status === "disputed") {
+    return { ok: false, status: 409, error: "This payment is disputed; it can't be refunded until the dispute closes" };
+  }
+
+  if (input.amount > refundable + 0.0001) {
+    return { ok: false, status: 409, error: "Refund amount exceeds refundable amount", details: { refundable } };
+  }
+
+  // Only the part paid by card can go back to the card; the gift card share can only become store credit
+  const giftCardPaid = Number((order as { giftCardAmount?: number }).giftCardAmount || 0);
+  const refundedToCard = refundsArr
+    .filter((r) => r.method !== "store_credit")
+    .reduce((s, r) => s + (Number(r.amount) || 0), 0);
+  const cardRefundable = Math.max(0, Number((total - giftCardPaid - refundedToCard).toFixed(2)));
+  if (!input.toStoreCredit && input.amount > cardRefundable + 0.0001) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Only £${cardRefundable.toFixed(2)} can go back to the card (the rest was paid by gift card). Refund the remainder as store credit.`,
+      details: { refundable, cardRefundable },
+    };
+  }
+
+  const paymentIntentId = (order as { paymentIntentId?: string }).paymentIntentId;
+
+  let stripeRefund: Stripe.Response<Stripe.Refund> | null = null;
+  let stripeError: unknown = null;
+  let storeCredit: IGiftCard | null = null;
+
+  if (input.toStoreCredit) {
+    const orderEmail =
+      (order as { client?: { email?: string } }).client?.email ||
+      (order as { shippingAddress?: { email?: string } }).shippingAddress?.email ||
+      null;
+    if (!orderEmail) {
+      return { ok: false, status: 400, error: "This order has no customer email to send store credit to" };
+    }
+    try {
+      const { card } = await issueGiftCard({
+        kind: "store_credit",
+        amountPence: Math.round(input.amount * 100),
+        recipientEmail: orderEmail,
+        recipientName: (order as { client?: { name?: string } }).client?.name ?? null,
+        sourceOrderId: order._id,
+        // with an idempotency key a retried request finds the credit it already issued
+        sourcePaymentIntentId: idempotencyKey ? paymentIntentId ?? String(order._id) : null,
+        sourceLineKey: idempotencyKey ? `refund:${idempotencyKey}` : null,
+        issuedBy: actor,
+        note: input.reason || `Refund for order ${String(order._id)}`,
+        transactionType: "refund_credit",
+      });
+      storeCredit = card;
+    } catch (err) {
+      console.error("Store credit refund failed", err);
+      return { ok: false, status: 500, error: "Failed to issue store credit" };
+    }
+  }
+
+  try {
+    if (paymentIntentId && !input.toStoreCredit) {
+      const currency = (input.currency || (order as { currency?: string }).currency || "GBP").toString().toUpperCase();
+      const amountMinor = toMinorUnit(input.amount, currency);
+
+      stripeRefund = await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: amountMinor,
+          reason: "requested_by_customer",
+          metadata: {
+            orderId: String(order._id),
+            reason: input.reason || "",
+            ...(input.returnId ? { returnId: input.returnId } : {}),
+          },
+        },
+        idempotencyKey ? { idempotencyKey } : undefined
+      );
+    }
+  } catch (err) {
+    console.error("Stripe refund failed", err);
+    stripeError = err;
+  }
+
+  const refundRecord: RefundRecord = {
+    refundId: storeCredit
+      ? `credit_${String(storeCredit._id)}`
+      : stripeRefund?.id ?? `manual_${new mongoose.Types.ObjectId().toString()}`,
+    amount: Number(input.amount),
+    currency: (input.currency || (order as { currency?: string }).currency || "GBP").toString().toUpperCase(),
+    reason: input.reason || null,
+    refundedAt: new Date().toISOString(),
+    paymentProviderRefundId: stripeRefund?.id ?? null,
+    idempotencyKey: idempotencyKey ?? null,
+    // ensure stripeResponse.status is always a string (avoid null)
+    stripeResponse: stripeRefund ? { id: stripeRefund.id, status: stripeRefund.status ?? "unknown" } : undefined,
+    method: storeCredit ? "store_credit" : "card",
+    giftCardCode: storeCredit?.code ?? null,
+    returnId: input.returnId ?? null,
+  };
+
+  try {
+    // Build updated metadata.refunds and refunded totals
+    const updatedMetadata: Record<string, unknown> = { ...(meta || {}) };
+    updatedMetadata.refunds = Array.isArray(updatedMetadata.refunds)
+      ? (updatedMetadata.refunds as RefundRecord[]).slice()
+      : [];
+    (updatedMetadata.refunds as RefundRecord[]).push(refundRecord);
+
+    const newRefundedTotal = Number((refundedSoFar + refundRecord.amount).toFixed(2));
+    updatedMetadata.refundedAmount = newRefundedTotal;
+    updatedMetadata.lastRefund = {
+      ...refundRecord,
+    };
+
+    // Determine status: refunded (full) or partially_refunded
+    const isFullyRefunded = newRefundedTotal >= (total - 0.0001);
+    const newStatus = isFullyRefunded ? "refunded" : "partially_refunded";
+
+    // Build the refund field on order root for backwards compatibility
+    const refundRoot = {
+      refundId: refundRecord.refundId,
+      amount: newRefundedTotal,
+      refundedAt: new Date().toISOString(),
+      reason: refundRecord.reason,
+      paymentProviderRefundId: refundRecord.paymentProviderRefundId,
+      details: refundRecord,
+    };
+
+    // Persist updates
+    const updated = await Order.findByIdAndUpdate(
+      order._id,
+      {
+        $set: {
+          metadata: updatedMetadata,
+          status: newStatus,
+          refund: refundRoot,
+        },
+      },
+      { new: true }
+    ).lean().exec();
+
+    // If Stripe failed but we still recorded a manual refund, flag it
+    if (!stripeRefund && !storeCredit) {
+      await Order.findByIdAndUpdate(
+        order._id,
+        {
+          $set: {
+            "metadata.refundError": stripeError
+              ? stripeError instanceof Error
+                ? stripeError.message
+                : String(stripeError)
+              : null,
+            "metadata.refundAttemptedAt": new Date().toISOString(),
+          },
+        }
+      ).exec();
+    }
+
+    // Credit the invoice only once the money has moved. A failed card refund is
+    // refunded by hand, and the admin raises its credit note from the invoice then.
+    if (stripeRefund || storeCredit) {
+      await creditNoteForRefund(
+        String(order._id),
+        { refundId: refundRecord.refundId, amount: refundRecord.amount, reason: refundRecord.reason, method: refundRecord.method },
+        { lines: input.lines, actor }
+      );
+    } else {
+      console.warn(`Refund ${refundRecord.refundId} on order ${String(order._id)} not sent to Stripe; no credit note raised`);
+    }
+
+    // Notify customer about refund (best-effort; do not fail the refund if email fails)
+    (async () => {
+      try {
+        // Store credit arrives as its own email with the code
+        if (storeCredit) {
+          await deliverGiftCard(storeCredit);
+          return;
+        }
+        // updated is the fresh order document (lean). Cast via unknown to OrderLike to satisfy TS.
+        const notifyResult = await notifyRefundToCustomer({ order: updated as unknown as OrderLike, refund: refundRecord });
+        if (!notifyResult.sent) {
+          console.error("Refund email not sent:", notifyResult.error);
+          // Optionally attach metadata noting email failure:
+          await Order.findByIdAndUpdate(
+            order._id,
+            { $set: { "metadata.lastRefundEmailError": notifyResult.error || "unknown" } }
+          ).exec();
+        } else {
+          // Optionally save lastRefundEmailSentAt
+          await Order.findByIdAndUpdate(order._id, {
+            $set: { "metadata.lastRefundEmailSentAt": new Date().toISOString() },
+          }).exec();
+        }
+      } catch (err) {
+        console.error("Failed to send refund email:", err);
+        // best-effort only
+      }
+    })();
+
+    return { ok: true, refund: refundRecord, order: updated };
+  } catch (err) {
+    console.error("Failed to persist refund info on order:", err);
+    return { ok: false, status: 500, error: "Failed to record refund" };
+  }
+}
@@ -0,0 +1,283 @@
+import mongoose, { ClientSession } from 'mongoose';
+import OutboundMessage, { IOutboundMessage, OutboundMessageStatus } from '@/models/OutboundMessage';
+import Invoice from '@/models/Invoice';
+import CreditNote from '@/models/CreditNote';
+import dbConnect from '@/lib/dbConnect';
+import {
+  EmailAddress,
+  EmailAttachment,
+  EmailTransportError,
+  defaultSender,
+  getEmailTransport,
+  isValidEmail,
+} from '@/lib/emailTransport';
+
+/*
+ * Every email the store sends goes through the OutboundMessage collection. Callers
+ * enqueue the message alongside the change it's about (inside the same transaction
+ * when there is one); outside a transaction we try to deliver it straight away so
+ * nothing gets slower. Anything that fails stays queued and the email-outbox job
+ * (lib/jobs) retries it with exponential backoff. Messages that run out of
+ * attempts are left "dead" for an admin to look at and resend.
+ */
+
+const BASE_RETRY_MS = 2 * 60 * 1000;
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+// How long a claimed message is ours before another worker may pick it up
+const LOCK_MS = 2 * 60 * 1000;
+const MAX_HISTORY = 20;
+
+export type EnqueueEmailInput = {
+  kind: string;
+  audience?: 'customer' | 'admin';
+  to: EmailAddress[];
+  from?: EmailAddress | null; // defaults to the store sender
+  replyTo?: EmailAddress | null;
+  subject: string;
+  html: string;
+  text?: string | null;
+  attachments?: EmailAttachment[];
+  headers?: Record<string, string> | null;
+  redactAfterSend?: boolean;
+  related?: { type: string; id: string } | null;
+  dedupeKey?: string | null;
+  maxAttempts?: number;
+};
+
+export type EnqueueEmailResult =
+  | { ok: true; messageId: string; status: OutboundMessageStatus; duplicate: boolean }
+  | { ok: false; error: string };
+
+function retryDelayMs(attempt: number): number {
+  const delay = Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_MS);
+  // ±20% so a batch that failed together doesn't retry together
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Adds an email to the outbox. With a session the message commits (or not) with the
+ * caller's transaction and is left for the worker; otherwise one delivery attempt is
+ * made before returning. A failed attempt still returns ok — the message is queued.
+ */
+export async function enqueueEmail(
+  input: EnqueueEmailInput,
+  opts: { session?: ClientSession | null; deliver?: boolean } = {}
+): Promise<EnqueueEmailResult> {
+  const from = input.from ?? defaultSender();
+  if (!from || !isValidEmail(from.email)) {
+    return { ok: false, error: 'Invalid or missing sender email (set BREVO_SENDER_EMAIL or EMAIL_FROM)' };
+  }
+  const to = input.to
+    .filter((t) => isValidEmail(t.email))
+    .map((t) => ({ email: t.email.trim(), name: t.name ?? null }));
+  if (to.length === 0) return { ok: false, error: 'No valid recipient email' };
+
+  await dbConnect();
+
+  const doc = {
+    kind: input.kind,
+    audience: input.audience ?? 'customer',
+    from,
+    to,
+    replyTo: input.replyTo && isValidEmail(input.replyTo.email) ? input.replyTo : null,
+    subject: input.subject,
+    html: input.html,
+    text: input.text ?? null,
+    attachments: input.attachments ?? [],
+    headers: input.headers ?? null,
+    redactAfterSend: !!input.redactAfterSend,
+    relatedType: input.related?.type ?? null,
+    relatedId: input.related?.id ?? null,
+    dedupeKey: input.dedupeKey ?? null,
+    maxAttempts: input.maxAttempts ?? 8,
+    nextAttemptAt: new Date(),
+  };
+
+  let message: IOutboundMessage;
+  try {
+    const [created] = await OutboundMessage.create([doc], opts.session ? { session: opts.session } : {});
+    message = created;
+  } catch (err: unknown) {
+    if ((err as { code?: number })?.code === 11000 && input.dedupeKey) {
+      const existing = await OutboundMessage.findOne({ dedupeKey: input.dedupeKey }).select('_id status').exec();
+      if (existing) return { ok: true, messageId: String(existing._id), status: existing.status, duplicate: true };
+    }
+    console.error(`[Outbox] Failed to enqueue ${input.kind} email:`, errorMessage(err));
+    return { ok: false, error: `Failed to queue email: ${errorMessage(err)}` };
+  }
+
+  const messageId = String(message._id);
+  if (opts.session || opts.deliver === false) {
+    return { ok: true, messageId, status: message.status, duplicate: false };
+  }
+  const status = (await deliverOutboundMessage(messageId)) ?? message.status;
+  return { ok: true, messageId, status, duplicate: false };
+}
+
+/** Keeps records that track their own email state (Invoice.sent / sendError) in step with the outbox */
+async function syncRelated(message: IOutboundMessage, status: OutboundMessageStatus, error: string | null) {
+  // Reminders and statements mention the invoice too, but only the invoice email itself counts as sending it
+  const model =
+    message.kind === 'invoice' && message.relatedType === 'Invoice'
+      ? Invoice
+      : message.kind === 'credit_note' && message.relatedType === 'CreditNote'
+      ? CreditNote
+      : null;
+  if (!model || !message.relatedId || !mongoose.Types.ObjectId.isValid(message.relatedId)) return;
+  try {
+    await (model as mongoose.Model<unknown>).findByIdAndUpdate(message.relatedId, {
+      $set:
+        status === 'sent'
+          ? { sent: true, sentAt: new Date(), sendError: null }
+          : { sent: false, sendError: error },
+    }).exec();
+  } catch (err: unknown) {
+    console.warn(`[Outbox] Failed to update ${message.relatedType} send state:`, errorMessage(err));
+  }
+}
+
+/**
+ * Makes one delivery attempt if the message is due (or its previous attempt was
+ * abandoned). Returns the status it ends up in, or null if it wasn't ours to send.
+ */
+export async function deliverOutboundMessage(id: string): Promise<OutboundMessageStatus | null> {
+  const now = new Date();
+  const message = await OutboundMessage.findOneAndUpdate(
+    {
+      _id: id,
+      $or: [
+        { status: 'pending', nextAttemptAt: { $lte: now } },
+        { status: 'sending', lockedUntil: { $lt: now } },
+      ],
+    },
+    { $set: { status: 'sending', lockedUntil: new Date(now.getTime() + LOCK_MS) }, $inc: { attempts: 1 } },
+    { new: true }
+  ).exec();
+  if (!message) return null;
+
+  const transport = getEmailTransport();
+  const startedAt = Date.now();
+  let status: OutboundMessageStatus;
+  let error: string | null = null;
+  const set: Record<string, unknown> = { lockedUntil: null };
+
+  try {
+    const result = await transport.send({
+      from: message.from,
+      to: message.to,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments,
+      headers: message.headers,
+    });
+    status = 'sent';
+    Object.assign(set, { sentAt: new Date(), providerMessageId: result.providerMessageId ?? null, lastError: null, nextAttemptAt: null });
+    if (message.redactAfterSend) Object.assign(set, { html: '<p>(Removed after delivery)</p>', text: null });
+  } catch (err: unknown) {
+    error = errorMessage(err);
+    const retryable = err instanceof EmailTransportError ? err.retryable : true;
+    if (retryable && message.attempts < message.maxAttempts) {
+      status = 'pending';
+      set.nextAttemptAt = new Date(Date.now() + retryDelayMs(message.attempts));
+    } else {
+      status = 'dead';
+      set.nextAttemptAt = null;
+    }
+    set.lastError = error;
+    console.error(`[Outbox] ${message.kind} email ${message._id} attempt ${message.attempts} failed (${status}):`, error);
+  }
+  set.status = status;
+
+  await OutboundMessage.updateOne(
+    { _id: message._id },
+    {
+      $set: set,
+      $push: {
+        history: {
+          $each: [{ at: new Date(), transport: transport.name, ok: status === 'sent', error, durationMs: Date.now() - startedAt }],
+          $slice: -MAX_HISTORY,
+        },
+      },
+    }
+  ).exec();
+
+  if (status !== 'pending') await syncRelated(message, status, error);
+  return status;
+}
+
+export type OutboxRunSummary = { attempted: number; sent: number; retrying: number; dead: number };
+
+/** Works through due messages, oldest first, until the batch or time budget runs out */
+export async function runOutbox(opts: { limit?: number; budgetMs?: number } = {}): Promise<OutboxRunSummary> {
+  const limit = opts.limit ?? 50;
+  const deadline = Date.now() + (opts.budgetMs ?? 50_000);
+  const now = new Date();
+  const due = await OutboundMessage.find({
+    $or: [
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      { status: 'sending', lockedUntil: { $lt: now } },
+    ],
+  })
+    .sort({ nextAttemptAt: 1 })
+    .limit(limit)
+    .select('_id')
+    .lean()
+    .exec();
+
+  const summary: OutboxRunSummary = { attempted: 0, sent: 0, retrying: 0, dead: 0 };
+  for (const { _id } of due) {
+    if (Date.now() > deadline) break;
+    const status = await deliverOutboundMessage(String(_id));
+    if (!status) continue;
+    summary.attempted += 1;
+    if (status === 'sent') summary.sent += 1;
+    else if (status === 'dead') summary.dead += 1;
+    else summary.retrying += 1;
+  }
+  return summary;
+}
+
+export type OutboxActionResult =
+  | { ok: true; message: IOutboundMessage | null }
+  | { ok: false; status: number; error: string };
+
+/** Gives a dead or cancelled message a fresh set of attempts and tries it now */
+export async function resendOutboundMessage(id: string, by: string): Promise<OutboxActionResult> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return { ok: false, status: 400, error: 'Invalid message id' };
+  const reset = await OutboundMessage.findOneAndUpdate(
+    { _id: id, status: { $in: ['dead', 'cancelled'] } },
+    { $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lockedUntil: null, lastError: null, resentBy: by } },
+    { new: true }
+  ).exec();
+  if (!reset) {
+    const exists = await OutboundMessage.exists({ _id: id });
+    return exists
+      ? { ok: false, status: 409, error: 'Only dead or cancelled messages can be resent' }
+      : { ok: false, status: 404, error: 'Message not found' };
+  }
+  await deliverOutboundMessage(id);
+  return { ok: true, message: await OutboundMessage.findById(id).select('-attachments.content').exec() };
+}
+
+/** Stops a queued or dead message from being sent */
+export async function cancelOutboundMessage(id: string): Promise<OutboxActionResult> {
+  if (!mongoose.Types.ObjectId.isValid(id)) return { ok: false, status: 400, error: 'Invalid message id' };
+  const updated = await OutboundMessage.findOneAndUpdate(
+    { _id: id, status: { $in: ['pending', 'dead'] } },
+    { $set: { status: 'cancelled', nextAttemptAt: null, lockedUntil: null } },
+    { new: true, projection: { 'attachments.content': 0 } }
+  ).exec();
+  if (!updated) {
+    const exists = await OutboundMessage.exists({ _id: id });
+    return exists
+      ? { ok: false, status: 409, error: 'Only queued or dead messages can be cancelled' }
+      : { ok: false, status: 404, error: 'Message not found' };
+  }
+  return { ok: true, message: updated };
+}
@@ -0,0 +1,58 @@
+import Invoice from '@/models/Invoice';
+import { notifyAdminOverdueInvoices } from '@/lib/notifyAdminOverdueInvoices';
+
+/*
+ * Manual invoices past their due date and not fully paid are stamped with
+ * overdueAt the first time the check sees them, and the admin gets one email
+ * listing the newly overdue ones. Invoices already stamped aren't reported again.
+ */
+
+type OverdueInvoiceRow = {
+  _id: unknown;
+  orderNumber?: string;
+  total?: number;
+  currency?: string;
+  dueDate: Date;
+  client?: { name?: string } | null;
+};
+
+export type OverdueCheckSummary = {
+  newlyOverdue: number;
+  totalOverdue: number;
+  notified: boolean;
+};
+
+export async function checkOverdueInvoices(now = new Date()): Promise<OverdueCheckSummary> {
+  const unpaidPastDue = {
+    source: 'manual',
+    paymentStatus: { $in: ['unpaid', 'partial'] },
+    dueDate: { $lt: now },
+  };
+
+  const fresh = (await Invoice.find({ ...unpaidPastDue, overdueAt: null })
+    .select('orderNumber total currency dueDate client')
+    .sort({ dueDate: 1 })
+    .lean()) as unknown as OverdueInvoiceRow[];
+
+  if (fresh.length > 0) {
+    await Invoice.updateMany({ _id: { $in: fresh.map((i) => i._id) }, overdueAt: null }, { $set: { overdueAt: now } });
+  }
+
+  let notified = false;
+  if (fresh.length > 0) {
+    const result = await notifyAdminOverdueInvoices(
+      fresh.map((i) => ({
+        invoiceNumber: i.orderNumber || String(i._id).slice(-8),
+        clientName: i.client?.name ?? null,
+        total: i.total ?? 0,
+        currency: (i.currency || 'gbp').toUpperCase(),
+        dueDate: i.dueDate,
+      }))
+    );
+    notified = result.sent;
+    if (!result.sent) console.error('Failed to queue overdue invoices email:', result.error);
+  }
+
+  const totalOverdue = await Invoice.countDocuments(unpaidPastDue);
+  return { newlyOverdue: fresh.length, totalOverdue, notified };
+}
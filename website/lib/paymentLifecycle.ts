@@ -0,0 +1,186 @@
+import Stripe from 'stripe';
+import Order, { IOrder, OrderStatus } from '@/models/Order';
+import { sendAdminDisputeNotification } from '@/lib/notificationService';
+import { getErrorMessage } from '@/lib/orderFulfilment';
+
+/*
+ * Order status changes driven by Stripe's PaymentIntent and dispute events.
+ *
+ * Checkout creates the order before the card is charged, so processing, failed and
+ * cancelled events only touch orders that haven't been paid: a customer can retry
+ * a declined card on the same PaymentIntent, and payment_intent.succeeded then
+ * takes the order to paid as usual.
+ */
+
+// Statuses an unpaid order can move between
+const UNPAID_STATUSES: OrderStatus[] = ['pending', 'processing', 'failed'];
+
+// Stripe's dispute outcomes that leave the money with us
+const DISPUTE_WON_STATUSES = ['won', 'warning_closed'];
+
+function adminOrderUrl(orderId: string): string | undefined {
+  return process.env.ADMIN_DASHBOARD_URL
+    ? `${process.env.ADMIN_DASHBOARD_URL.replace(/\/$/, '')}/orders/${orderId}`
+    : undefined;
+}
+
+function stripePaymentUrl(paymentIntentId: string, livemode: boolean): string {
+  return `https://dashboard.stripe.com/${livemode ? '' : 'test/'}payments/${paymentIntentId}`;
+}
+
+/** payment_intent.processing: the payment method is being confirmed (e.g. bank debits) */
+export async function markPaymentProcessing(pi: Stripe.PaymentIntent): Promise<void> {
+  await Order.updateOne(
+    { paymentIntentId: pi.id, paidAt: null, status: { $in: UNPAID_STATUSES } },
+    {
+      $set: {
+        status: 'processing',
+        'metadata.paymentStatus': 'processing',
+        'metadata.paymentProcessingAt': new Date().toISOString(),
+      },
+    }
+  ).exec();
+}
+
+/** payment_intent.payment_failed / payment_intent.canceled */
+export async function markPaymentUnsuccessful(pi: Stripe.PaymentIntent, status: 'failed' | 'cancelled'): Promise<void> {
+  const set: Record<string, unknown> = {
+    status,
+    'metadata.paymentStatus': status,
+    [status === 'failed' ? 'metadata.paymentFailedAt' : 'metadata.paymentCancelledAt']: new Date().toISOString(),
+  };
+  if (status === 'failed') {
+    set['metadata.paymentError'] = pi.last_payment_error?.message ?? pi.last_payment_error?.code ?? null;
+  } else {
+    set['metadata.cancellationReason'] = pi.cancellation_reason ?? null;
+  }
+
+  await Order.updateOne({ paymentIntentId: pi.id, paidAt: null, status: { $in: UNPAID_STATUSES } }, { $set: set }).exec();
+}
+
+async function findDisputedOrder(dispute: Stripe.Dispute, stripe: Stripe): Promise<IOrder | null> {
+  let paymentIntentId =
+    typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id ?? null;
+
+  if (!paymentIntentId) {
+    const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id;
+    const charge = await stripe.charges.retrieve(chargeId);
+    paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id ?? null;
+  }
+
+  if (paymentIntentId) {
+    const order = await Order.findOne({ paymentIntentId }).exec();
+    if (order) return order;
+  }
+  return Order.findOne({ 'dispute.disputeId': dispute.id }).exec();
+}
+
+async function alertDispute(kind: 'opened' | 'closed', dispute: Stripe.Dispute, order: IOrder | null): Promise<void> {
+  const orderId = order ? String(order._id) : null;
+  const paymentIntentId =
+    typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id ?? order?.paymentIntentId ?? null;
+  try {
+    await sendAdminDisputeNotification({
+      kind,
+      orderId,
+      orderNumber: orderId ? `#${orderId.slice(-8)}` : null,
+      disputeId: dispute.id,
+      status: dispute.status,
+      reason: dispute.reason,
+      amount: dispute.amount / 100,
+      currency: dispute.currency,
+      evidenceDueBy: dispute.evidence_details?.due_by ? new Date(dispute.evidence_details.due_by * 1000) : null,
+      clientName: order?.client?.name,
+      clientEmail: order?.client?.email,
+      dashboardUrl: orderId ? adminOrderUrl(orderId) : undefined,
+      stripeDashboardUrl: paymentIntentId ? stripePaymentUrl(paymentIntentId, dispute.livemode) : undefined,
+    });
+  } catch (err: unknown) {
+    // The dispute is recorded on the order either way; don't make Stripe retry for an email
+    console.error(`Failed to send dispute alert for ${dispute.id}:`, getErrorMessage(err));
+  }
+}
+
+/**
+ * charge.dispute.created: puts the order into `disputed` and alerts the admins with
+ * the evidence deadline. The status it had before is kept so a won dispute can
+ * restore it. Replays of the same dispute update the details without a second alert.
+ */
+export async function recordDisputeOpened(dispute: Stripe.Dispute, stripe: Stripe): Promise<void> {
+  const order = await findDisputedOrder(dispute, stripe);
+  if (!order) {
+    console.warn(`Dispute ${dispute.id} doesn't match any order`);
+    await alertDispute('opened', dispute, null);
+    return;
+  }
+
+  const alreadyRecorded = order.dispute?.disputeId === dispute.id;
+  const statusBeforeDispute = alreadyRecorded
+    ? order.dispute?.statusBeforeDispute ?? null
+    : order.status === 'disputed'
+    ? order.dispute?.statusBeforeDispute ?? null
+    : order.status;
+
+  await Order.updateOne(
+    { _id: order._id },
+    {
+      $set: {
+        status: 'disputed',
+        dispute: {
+          disputeId: dispute.id,
+          status: dispute.status,
+          reason: dispute.reason ?? null,
+          amount: dispute.amount / 100,
+          currency: dispute.currency,
+          evidenceDueBy: dispute.evidence_details?.due_by ? new Date(dispute.evidence_details.due_by * 1000) : null,
+          openedAt: new Date(dispute.created * 1000),
+          closedAt: null,
+          statusBeforeDispute,
+        },
+      },
+    }
+  ).exec();
+
+  if (!alreadyRecorded) await alertDispute('opened', dispute, order);
+}
+
+/**
+ * charge.dispute.closed: a won dispute puts the order back where it was; a lost one
+ * means the card network has returned the money, so the order is marked refunded.
+ */
+export async function recordDisputeClosed(dispute: Stripe.Dispute, stripe: Stripe): Promise<void> {
+  const order = await findDisputedOrder(dispute, stripe);
+  if (!order) {
+    console.warn(`Closed dispute ${dispute.id} doesn't match any order`);
+    await alertDispute('closed', dispute, null);
+    return;
+  }
+
+  const current = order.dispute?.disputeId === dispute.id ? order.dispute : null;
+  if (current?.closedAt && current.status === dispute.status) return;
+
+  const won = DISPUTE_WON_STATUSES.includes(dispute.status);
+  const status: OrderStatus = won ? current?.statusBeforeDispute || 'paid' : 'refunded';
+
+  await Order.updateOne(
+    { _id: order._id },
+    {
+      $set: {
+        status,
+        dispute: {
+          disputeId: dispute.id,
+          status: dispute.status,
+          reason: dispute.reason ?? null,
+          amount: dispute.amount / 100,
+          currency: dispute.currency,
+          evidenceDueBy: dispute.evidence_details?.due_by ? new Date(dispute.evidence_details.due_by * 1000) : null,
+          openedAt: current?.openedAt ?? new Date(dispute.created * 1000),
+          closedAt: new Date(),
+          statusBeforeDispute: current?.statusBeforeDispute ?? null,
+        },
+      },
+    }
+  ).exec();
+
+  await alertDispute('closed', dispute, order);
+}
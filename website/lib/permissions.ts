@@ -0,0 +1,116 @@
+/*
+ * Admin roles and what each one may do. This file has no server imports so the
+ * admin UI can use it to hide what a role can't reach; the checks that matter
+ * happen in lib/auth.ts (verifyAuthForApi / requireAuth).
+ */
+
+export const ADMIN_ROLES = ['owner', 'manager', 'fulfilment', 'instructor', 'content_editor'] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  fulfilment: 'Fulfilment',
+  instructor: 'Barista / instructor',
+  content_editor: 'Content editor',
+};
+
+export const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: 'Everything, including managing admin accounts.',
+  manager: 'Everything except admin accounts.',
+  fulfilment: 'Views orders and customers, ships orders and approves and receives returns. Cannot refund, so a manager completes returns.',
+  instructor: 'Manages classes and their bookings.',
+  content_editor: 'Manages blog posts, offers and the media gallery.',
+};
+
+export const PERMISSIONS = [
+  'dashboard.view',
+  'orders.view',
+  'orders.fulfil',
+  'orders.refund',
+  'orders.manage',
+  'returns.manage',
+  'customers.view',
+  'customers.manage',
+  'invoices.manage',
+  'catalogue.manage',
+  'promotions.manage',
+  'subscriptions.manage',
+  'classes.manage',
+  'bookings.manage',
+  'content.manage',
+  'wholesale.manage',
+  'settings.manage',
+  'reports.view',
+  'audit.view',
+  'system.manage',
+  'users.manage',
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  manager: PERMISSIONS.filter((p) => p !== 'users.manage'),
+  fulfilment: ['orders.view', 'orders.fulfil', 'returns.manage', 'customers.view'],
+  instructor: ['classes.manage', 'bookings.manage'],
+  content_editor: ['content.manage'],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+/** Accounts created before roles existed had full access, so they count as owners */
+export function resolveRole(value: unknown): AdminRole {
+  return isAdminRole(value) ? value : 'owner';
+}
+
+export function permissionsFor(role: AdminRole): Permission[] {
+  return [...ROLE_PERMISSIONS[role]];
+}
+
+/** True if the role has the permission, or any one of them when given a list */
+export function hasPermission(role: AdminRole, permission: Permission | readonly Permission[]): boolean {
+  const granted = ROLE_PERMISSIONS[role];
+  const wanted = typeof permission === 'string' ? [permission] : permission;
+  return wanted.some((p) => granted.includes(p));
+}
+
+/** Admin sections in menu order, with the permission each one needs (null: any admin) */
+export const ADMIN_PAGES: { href: string; permission: Permission | null }[] = [
+  { href: '/admin', permission: 'dashboard.view' },
+  { href: '/admin/coffee', permission: 'catalogue.manage' },
+  { href: '/admin/coffee/variant', permission: 'catalogue.manage' },
+  { href: '/admin/wholesale', permission: 'wholesale.manage' },
+  { href: '/admin/orders', permission: 'orders.view' },
+  { href: '/admin/promotions', permission: 'promotions.manage' },
+  { href: '/admin/gift-cards', permission: 'promotions.manage' },
+  { href: '/admin/subscriptions', permission: 'subscriptions.manage' },
+  { href: '/admin/customers', permission: 'customers.view' },
+  { href: '/admin/classes', permission: 'classes.manage' },
+  { href: '/admin/equipment', permission: 'catalogue.manage' },
+  { href: '/admin/blog', permission: 'content.manage' },
+  { href: '/admin/content', permission: 'content.manage' },
+  { href: '/admin/invoice', permission: 'invoices.manage' },
+  { href: '/admin/vat', permission: 'reports.view' },
+  { href: '/admin/audit', permission: 'audit.view' },
+  { href: '/admin/stripe-events', permission: 'system.manage' },
+  { href: '/admin/outbox', permission: 'system.manage' },
+  { href: '/admin/email-templates', permission: 'system.manage' },
+  { href: '/admin/jobs', permission: 'system.manage' },
+  { href: '/admin/admins', permission: 'users.manage' },
+  { href: '/admin/settings', permission: 'settings.manage' },
+  // Everyone's own password, two-factor sign-in and sessions
+  { href: '/admin/account', permission: null },
+];
+
+export function canViewAdminPage(role: AdminRole, href: string): boolean {
+  const path = href.replace(/\/+$/, '') || '/';
+  const page = ADMIN_PAGES.find((p) => p.href === path);
+  return !!page && (page.permission === null || hasPermission(role, page.permission));
+}
+
+/** Where to send someone whose role can't see the page they asked for */
+export function defaultAdminPath(role: AdminRole): string {
+  return ADMIN_PAGES.find((p) => p.permission === null || hasPermission(role, p.permission))?.href ?? '/login';
+}
@@ -0,0 +1,401 @@
+import mongoose from 'mongoose';
+import Promotion, { IPromotion } from '@/models/Promotion';
+import PromotionRedemption from '@/models/PromotionRedemption';
+import CoffeeVariant from '@/models/CoffeeVariant';
+import Equipment from '@/models/Equipment';
+
+/* ----------------------------- Types ---------------------------------- */
+export type PromotionLineSource = 'variant' | 'coffee' | 'equipment';
+
+export interface PromotionLine {
+  id: string;
+  name?: string;
+  source: PromotionLineSource;
+  quantity: number;
+  unitPricePence: number;
+}
+
+export interface PromotionEvaluation {
+  promotionId: string;
+  code: string;
+  type: IPromotion['type'];
+  label: string;
+  discountPence: number; // discount applied to the item subtotal
+  freeShipping: boolean;
+}
+
+/** The promotion can no longer be redeemed for this order (used up, or used up by this customer) */
+export class PromotionUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromotionUnavailableError';
+  }
+}
+
+interface LineContext extends PromotionLine {
+  productIds: string[]; // ids/slugs the line can be matched by in scope.productIds
+  category: string | null;
+}
+
+interface VariantLean {
+  _id: mongoose.Types.ObjectId;
+  coffeeId?: mongoose.Types.ObjectId;
+}
+
+interface EquipmentLean {
+  _id: mongoose.Types.ObjectId;
+  slug?: string;
+  category?: string;
+}
+
+/* -------------------------- Helpers ---------------------------------- */
+export function normalizePromotionCode(code: unknown): string {
+  return typeof code === 'string' ? code.trim().toUpperCase() : '';
+}
+
+function normalizeEmail(email?: string | null): string | undefined {
+  if (!email) return undefined;
+  const s = String(email).trim().toLowerCase();
+  return s || undefined;
+}
+
+// Attach the ids and category each line can be scoped by
+async function resolveLineContext(lines: PromotionLine[]): Promise<LineContext[]> {
+  const variantIds = lines
+    .filter((l) => l.source === 'variant' && mongoose.Types.ObjectId.isValid(l.id))
+    .map((l) => l.id);
+  const equipmentKeys = lines.filter((l) => l.source === 'equipment').map((l) => l.id);
+
+  const variants = variantIds.length
+    ? ((await CoffeeVariant.find({ _id: { $in: variantIds } }).select('coffeeId').lean().exec()) as unknown as VariantLean[])
+    : [];
+  const equipment = equipmentKeys.length
+    ? ((await Equipment.find({
+        $or: [
+          { _id: { $in: equipmentKeys.filter((k) => mongoose.Types.ObjectId.isValid(k)) } },
+          { slug: { $in: equipmentKeys } },
+        ],
+      })
+        .select('slug category')
+        .lean()
+        .exec()) as unknown as EquipmentLean[])
+    : [];
+
+  return lines.map((line) => {
+    if (line.source === 'variant') {
+      const v = variants.find((d) => String(d._id) === line.id);
+      return { ...line, productIds: v?.coffeeId ? [String(v.coffeeId)] : [], category: 'coffee' };
+    }
+    if (line.source === 'coffee') {
+      return { ...line, productIds: [line.id], category: 'coffee' };
+    }
+    const e = equipment.find((d) => String(d._id) === line.id || d.slug === line.id);
+    const ids = e ? [String(e._id), e.slug].filter((s): s is string => Boolean(s)) : [line.id];
+    return { ...line, productIds: ids, category: e?.category ?? null };
+  });
+}
+
+function isLineInScope(promotion: IPromotion, line: LineContext): boolean {
+  const scope = promotion.scope ?? { productIds: [], variantIds: [], categories: [] };
+  const hasScope = scope.productIds.length > 0 || scope.variantIds.length > 0 || scope.categories.length > 0;
+  if (!hasScope) return true;
+  if (line.source === 'variant' && scope.variantIds.includes(line.id)) return true;
+  if (line.productIds.some((id) => scope.productIds.includes(id))) return true;
+  if (line.category && scope.categories.some((c) => c.toLowerCase() === line.category!.toLowerCase())) return true;
+  return false;
+}
+
+function describePromotion(p: IPromotion): string {
+  switch (p.type) {
+    case 'percentage':
+      return `${p.value}% off`;
+    case 'fixed_amount':
+      return `£${(p.value / 100).toFixed(2)} off`;
+    case 'free_shipping':
+      return 'Free delivery';
+    case 'buy_x_get_y':
+      return p.getDiscountPercent === 100 || p.getDiscountPercent == null
+        ? `Buy ${p.buyQuantity ?? 1} get ${p.getQuantity ?? 1} free`
+        : `Buy ${p.buyQuantity ?? 1} get ${p.getQuantity ?? 1} at ${p.getDiscountPercent}% off`;
+    default:
+      return p.name;
+  }
+}
+
+// Buy X get Y: cheapest units in each full (X + Y) group are discounted
+function computeBuyXGetYPence(p: IPromotion, eligible: LineContext[]): number {
+  const buy = Math.max(1, Math.floor(p.buyQuantity ?? 1));
+  const get = Math.max(1, Math.floor(p.getQuantity ?? 1));
+  const pct = Math.min(100, Math.max(0, p.getDiscountPercent ?? 100));
+
+  const units: number[] = [];
+  for (const line of eligible) {
+    for (let i = 0; i < line.quantity; i++) units.push(line.unitPricePence);
+  }
+  units.sort((a, b) => b - a);
+
+  const groupSize = buy + get;
+  const groups = Math.floor(units.length / groupSize);
+  let discount = 0;
+  for (let g = 0; g < groups; g++) {
+    const group = units.slice(g * groupSize, (g + 1) * groupSize);
+    for (const price of group.slice(buy)) discount += Math.round((price * pct) / 100);
+  }
+  return discount;
+}
+
+async function countCustomerRedemptions(
+  promotionId: mongoose.Types.ObjectId | string,
+  email: string,
+  session?: mongoose.ClientSession | null
+): Promise<number> {
+  return PromotionRedemption.countDocuments({ promotionId, email }).session(session ?? null).exec();
+}
+
+/* ----------------------- Public API ----------------------------------- */
+
+/**
+ * Validate `code` against the cart and compute the discount.
+ * Throws an Error with a customer-facing message when the code cannot be applied.
+ */
+export async function evaluatePromotion(
+  code: string,
+  lines: PromotionLine[],
+  opts: { email?: string | null; now?: Date } = {}
+): Promise<PromotionEvaluation> {
+  const normalized = normalizePromotionCode(code);
+  if (!normalized) throw new Error('Please enter a discount code');
+
+  const promotion = await Promotion.findOne({ code: normalized }).exec();
+  if (!promotion || !promotion.active) throw new Error('This discount code is not valid');
+
+  const now = opts.now ?? new Date();
+  if (promotion.startsAt && promotion.startsAt > now) throw new Error('This discount code is not active yet');
+  if (promotion.endsAt && promotion.endsAt < now) throw new Error('This discount code has expired');
+
+  if (typeof promotion.usageLimit === 'number' && promotion.usageCount >= promotion.usageLimit) {
+    throw new Error('This discount code has reached its usage limit');
+  }
+
+  const email = normalizeEmail(opts.email);
+  if (email && typeof promotion.perCustomerLimit === 'number') {
+    const used = await countCustomerRedemptions(promotion._id as mongoose.Types.ObjectId, email);
+    if (used >= promotion.perCustomerLimit) throw new Error('You have already used this discount code');
+  }
+
+  const subtotalPence = lines.reduce((s, l) => s + l.unitPricePence * l.quantity, 0);
+  if (subtotalPence < (promotion.minSubtotalPence ?? 0)) {
+    throw new Error(`Spend at least £${((promotion.minSubtotalPence ?? 0) / 100).toFixed(2)} to use this code`);
+  }
+
+  const context = await resolveLineContext(lines);
+  const eligible = context.filter((l) => isLineInScope(promotion, l));
+  if (eligible.length === 0) throw new Error('This discount code does not apply to the items in your basket');
+
+  const eligiblePence = eligible.reduce((s, l) => s + l.unitPricePence * l.quantity, 0);
+
+  let discountPence = 0;
+  let freeShipping = false;
+  switch (promotion.type) {
+    case 'percentage':
+      discountPence = Math.round((eligiblePence * Math.min(100, promotion.value)) / 100);
+      break;
+    case 'fixed_amount':
+      discountPence = Math.round(promotion.value);
+      break;
+    case 'free_shipping':
+      freeShipping = true;
+      break;
+    case 'buy_x_get_y':
+      discountPence = computeBuyXGetYPence(promotion, eligible);
+      if (discountPence === 0) {
+        throw new Error(
+          `Add ${(promotion.buyQuantity ?? 1) + (promotion.getQuantity ?? 1)} eligible items to use this code`
+        );
+      }
+      break;
+  }
+
+  discountPence = Math.max(0, Math.min(discountPence, eligiblePence));
+
+  return {
+    promotionId: String(promotion._id),
+    code: promotion.code,
+    type: promotion.type,
+    label: describePromotion(promotion),
+    discountPence,
+    freeShipping,
+  };
+}
+
+/**
+ * Re-check the per-customer limit once the customer's email is known
+ * (the PaymentIntent is usually created before the email is entered).
+ */
+export async function assertCustomerCanRedeem(promotionId: string, email?: string | null): Promise<void> {
+  const normalized = normalizeEmail(email);
+  if (!normalized || !mongoose.Types.ObjectId.isValid(promotionId)) return;
+  const promotion = await Promotion.findById(promotionId).select('perCustomerLimit').lean().exec();
+  if (!promotion || typeof promotion.perCustomerLimit !== 'number') return;
+  const used = await countCustomerRedemptions(promotionId, normalized);
+  if (used >= promotion.perCustomerLimit) throw new Error('You have already used this discount code');
+}
+
+/**
+ * Claim one use of the promotion for a paid order, inside the fulfilment transaction.
+ * The usage limit is enforced by a conditional `$inc`, and because every redemption
+ * writes the promotion document, concurrent claims conflict and retry, so the
+ * per-customer count read here is current too.
+ * Throws PromotionUnavailableError when the code has been used up in the meantime.
+ * Idempotent per PaymentIntent so webhook retries do not count usage twice.
+ */
+export async function redeemPromotion(
+  input: {
+    promotionId: string;
+    code: string;
+    email?: string | null;
+    orderId?: mongoose.Types.ObjectId | string | null;
+    paymentIntentId: string;
+    discountPence: number;
+  },
+  session?: mongoose.ClientSession | null
+): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(input.promotionId)) return false;
+
+  const existing = await PromotionRedemption.exists({
+    promotionId: input.promotionId,
+    paymentIntentId: input.paymentIntentId,
+  })
+    .session(session ?? null)
+    .exec();
+  if (existing) return false;
+
+  const promotion = await Promotion.findById(input.promotionId)
+    .select('usageLimit perCustomerLimit')
+    .session(session ?? null)
+    .lean()
+    .exec();
+  if (!promotion) throw new PromotionUnavailableError('This discount code is not valid');
+
+  const email = normalizeEmail(input.email);
+  if (email && typeof promotion.perCustomerLimit === 'number') {
+    const used = await countCustomerRedemptions(input.promotionId, email, session);
+    if (used >= promotion.perCustomerLimit) throw new PromotionUnavailableError('You have already used this discount code');
+  }
+
+  const claimed = await Promotion.updateOne(
+    typeof promotion.usageLimit === 'number'
+      ? { _id: input.promotionId, usageCount: { $lt: promotion.usageLimit } }
+      : { _id: input.promotionId },
+    { $inc: { usageCount: 1 } },
+    { session: session ?? undefined }
+  ).exec();
+  if (claimed.modifiedCount === 0) {
+    throw new PromotionUnavailableError('This discount code has reached its usage limit');
+  }
+
+  await PromotionRedemption.create(
+    [
+      {
+        promotionId: input.promotionId,
+        code: normalizePromotionCode(input.code),
+        email: email ?? null,
+        orderId: input.orderId ?? null,
+        paymentIntentId: input.paymentIntentId,
+        discountPence: Math.max(0, Math.round(input.discountPence)),
+      },
+    ],
+    { session: session ?? undefined }
+  );
+  return true;
+}
+
+/* ----------------------- Admin input ---------------------------------- */
+const PROMOTION_TYPES: IPromotion['type'][] = ['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y'];
+
+function toStringArray(v: unknown): string[] {
+  if (Array.isArray(v)) return v.map((s) => String(s).trim()).filter(Boolean);
+  if (typeof v === 'string') return v.split(',').map((s) => s.trim()).filter(Boolean);
+  return [];
+}
+
+function toOptionalNumber(v: unknown): number | null | undefined {
+  if (v === undefined) return undefined;
+  if (v === null || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function toOptionalDate(v: unknown): Date | null | undefined {
+  if (v === undefined) return undefined;
+  if (v === null || v === '') return null;
+  const d = new Date(String(v));
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+/**
+ * Parse an admin create/update body into Promotion fields.
+ * `partial` skips required-field checks for updates.
+ */
+export function parsePromotionInput(raw: unknown, partial = false): Record<string, unknown> {
+  if (!raw || typeof raw !== 'object') throw new Error('Invalid body');
+  const body = raw as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) throw new Error('`name` cannot be empty');
+    out.name = body.name.trim();
+  } else if (!partial) throw new Error('Missing `name`');
+
+  if (body.code !== undefined) {
+    const code = normalizePromotionCode(body.code);
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) throw new Error('`code` must be 3-32 letters, numbers, - or _');
+    out.code = code;
+  } else if (!partial) throw new Error('Missing `code`');
+
+  if (body.type !== undefined) {
+    if (!PROMOTION_TYPES.includes(body.type as IPromotion['type'])) throw new Error('Invalid `type`');
+    out.type = body.type;
+  } else if (!partial) throw new Error('Missing `type`');
+
+  if (typeof body.description === 'string') out.description = body.description.trim();
+
+  const value = toOptionalNumber(body.value);
+  if (value !== undefined && value !== null) {
+    if (value < 0) throw new Error('`value` must be >= 0');
+    if (out.type === 'percentage' && value > 100) throw new Error('Percentage `value` must be <= 100');
+    out.value = value;
+  }
+
+  for (const key of ['buyQuantity', 'getQuantity', 'getDiscountPercent', 'minSubtotalPence', 'usageLimit', 'perCustomerLimit']) {
+    const n = toOptionalNumber(body[key]);
+    if (n === undefined) continue;
+    if (n !== null && n < 0) throw new Error(`\`${key}\` must be >= 0`);
+    out[key] = key === 'minSubtotalPence' ? n ?? 0 : n;
+  }
+
+  if (out.type === 'buy_x_get_y' && !partial && (!out.buyQuantity || !out.getQuantity)) {
+    throw new Error('Buy X get Y promotions need `buyQuantity` and `getQuantity`');
+  }
+
+  for (const key of ['startsAt', 'endsAt']) {
+    const d = toOptionalDate(body[key]);
+    if (d !== undefined) out[key] = d;
+  }
+  if (out.startsAt instanceof Date && out.endsAt instanceof Date && out.endsAt < out.startsAt) {
+    throw new Error('`endsAt` must be after `startsAt`');
+  }
+
+  if (body.scope && typeof body.scope === 'object') {
+    const scope = body.scope as Record<string, unknown>;
+    out.scope = {
+      productIds: toStringArray(scope.productIds),
+      variantIds: toStringArray(scope.variantIds),
+      categories: toStringArray(scope.categories),
+    };
+  }
+
+  if (typeof body.active === 'boolean') out.active = body.active;
+
+  return out;
+}
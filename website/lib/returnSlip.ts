@@ -0,0 +1,163 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import type { IReturnRequest } from '@/models/ReturnRequest';
+import type { IOrder } from '@/models/Order';
+import { shopCompanyInfo } from '@/lib/invoiceService';
+
+/*
+ * One A4 page for an approved return: the returns label on top (cut it out and
+ * stick it on the parcel) and the packing slip that goes inside underneath.
+ */
+
+function envString(v?: string) {
+  return v ? v.replace(/^"(.*)"$/, '$1').trim() || undefined : undefined;
+}
+
+// Where returns are sent; defaults to the company address on invoices
+function returnsAddress(): string[] {
+  const company = shopCompanyInfo();
+  const custom = envString(process.env.RETURNS_ADDRESS);
+  if (custom) return [company.name, ...custom.split(/\s*[,\n]\s*/).filter(Boolean)];
+  return [company.name, 'Returns', company.address, company.city, company.postcode, company.country];
+}
+
+// The standard fonts only cover WinAnsi; swap out anything they can't draw
+function pdfText(s: unknown): string {
+  return String(s ?? '')
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function drawLines(page: PDFPage, lines: string[], x: number, y: number, font: PDFFont, size: number, gap = 4) {
+  let cursor = y;
+  for (const line of lines) {
+    page.drawText(pdfText(line), { x, y: cursor, size, font });
+    cursor -= size + gap;
+  }
+  return cursor;
+}
+
+export async function generateReturnSlipPDF(
+  returnRequest: Pick<IReturnRequest, 'rmaNumber' | 'lines' | 'createdAt' | 'approvedAt' | 'name' | 'email'>,
+  order: Pick<IOrder, '_id' | 'shippingAddress' | 'client'>,
+  reasonLabels: Record<string, string>
+): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([595.28, 841.89]);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const { width, height } = page.getSize();
+  const margin = 40;
+  const black = rgb(0, 0, 0);
+  const grey = rgb(0.45, 0.45, 0.45);
+
+  const orderRef = String(order._id).slice(-8).toUpperCase();
+  const ship = order.shippingAddress ?? {};
+  const fromLines = [
+    [ship.firstName, ship.lastName].filter(Boolean).join(' ') || returnRequest.name || order.client?.name || '',
+    [ship.unit, ship.line1].filter(Boolean).join(', '),
+    ship.city ?? '',
+    ship.postcode ?? '',
+    ship.country ?? '',
+  ].filter(Boolean);
+
+  /* ---------- Label ---------- */
+  const labelTop = height - margin;
+  const labelHeight = 300;
+  page.drawRectangle({
+    x: margin,
+    y: labelTop - labelHeight,
+    width: width - margin * 2,
+    height: labelHeight,
+    borderColor: black,
+    borderWidth: 2,
+  });
+
+  page.drawText('RETURNS', { x: margin + 16, y: labelTop - 34, size: 20, font: bold, color: black });
+  const rmaWidth = bold.widthOfTextAtSize(returnRequest.rmaNumber, 22);
+  page.drawText(pdfText(returnRequest.rmaNumber), {
+    x: width - margin - 16 - rmaWidth,
+    y: labelTop - 34,
+    size: 22,
+    font: bold,
+  });
+
+  page.drawText('DELIVER TO', { x: margin + 16, y: labelTop - 72, size: 9, font: bold, color: grey });
+  drawLines(page, returnsAddress(), margin + 16, labelTop - 94, bold, 16, 6);
+
+  const fromX = width / 2 + 40;
+  page.drawText('FROM', { x: fromX, y: labelTop - 72, size: 9, font: bold, color: grey });
+  drawLines(page, fromLines, fromX, labelTop - 90, font, 10);
+
+  page.drawText(pdfText(`Order #${orderRef}  -  quote ${returnRequest.rmaNumber} on all correspondence`), {
+    x: margin + 16,
+    y: labelTop - labelHeight + 16,
+    size: 9,
+    font,
+    color: grey,
+  });
+
+  // cut line
+  const cutY = labelTop - labelHeight - 24;
+  for (let x = margin; x < width - margin; x += 10) {
+    page.drawLine({ start: { x, y: cutY }, end: { x: x + 5, y: cutY }, thickness: 0.5, color: grey });
+  }
+  page.drawText('Cut along the line and attach the label to your parcel', {
+    x: margin,
+    y: cutY - 14,
+    size: 8,
+    font,
+    color: grey,
+  });
+
+  /* ---------- Packing slip ---------- */
+  let y = cutY - 50;
+  page.drawText('Packing slip', { x: margin, y, size: 18, font: bold });
+  y -= 24;
+  const issued = returnRequest.approvedAt ?? returnRequest.createdAt ?? new Date();
+  y = drawLines(
+    page,
+    [
+      `Return: ${returnRequest.rmaNumber}`,
+      `Order: #${orderRef}`,
+      `Customer: ${fromLines[0] || returnRequest.email}`,
+      `Date: ${new Date(issued).toLocaleDateString('en-GB')}`,
+    ],
+    margin,
+    y,
+    font,
+    10
+  );
+
+  y -= 16;
+  const cols = { item: margin, qty: margin + 300, reason: margin + 350 };
+  page.drawText('Item', { x: cols.item, y, size: 10, font: bold });
+  page.drawText('Qty', { x: cols.qty, y, size: 10, font: bold });
+  page.drawText('Reason', { x: cols.reason, y, size: 10, font: bold });
+  y -= 6;
+  page.drawLine({ start: { x: margin, y }, end: { x: width - margin, y }, thickness: 1, color: black });
+  y -= 16;
+
+  for (const line of returnRequest.lines) {
+    if (y < margin + 60) break;
+    let name = pdfText(line.name);
+    while (name.length > 3 && font.widthOfTextAtSize(name, 10) > cols.qty - cols.item - 10) {
+      name = name.slice(0, -4) + '...';
+    }
+    page.drawText(name, { x: cols.item, y, size: 10, font });
+    page.drawText(String(line.qty), { x: cols.qty, y, size: 10, font });
+    page.drawText(pdfText(reasonLabels[line.reason] ?? line.reason), { x: cols.reason, y, size: 10, font });
+    y -= 18;
+  }
+
+  page.drawText('Please put this slip inside the parcel with the items you are returning.', {
+    x: margin,
+    y: margin + 20,
+    size: 9,
+    font,
+    color: grey,
+  });
+
+  return Buffer.from(await pdf.save());
+}
@@ -0,0 +1,422 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Order, { IOrder } from '@/models/Order';
+import CoffeeVariant from '@/models/CoffeeVariant';
+import Coffee from '@/models/Coffee';
+import Equipment from '@/models/Equipment';
+import ReturnRequest, {
+  IReturnLine,
+  IReturnRequest,
+  RETURN_REASONS,
+  ReturnReason,
+  ReturnStatus,
+} from '@/models/ReturnRequest';
+import { refundOrder, getRefundableAmount } from '@/lib/orderRefunds';
+import { notifyReturnToCustomer } from '@/lib/notifyReturn';
+import { signatureMatches, signLink } from '@/lib/signedLinks';
+
+/*
+ * Returns (RMA). A customer opens a return from the signed link in their shipment
+ * email, or an admin opens one for them. It moves requested -> approved (the
+ * customer can print a label and packing slip) -> received (optionally putting
+ * the goods back into stock) -> completed, which issues the linked refund through
+ * lib/orderRefunds. Each step is kept on the return and mirrored to
+ * order.metadata.returnHistory.
+ */
+
+/* ----------------------------- Config ---------------------------------- */
+
+// Customers can open a return this many days after dispatch (admins any time)
+const RETURN_WINDOW_DAYS = Number(process.env.RETURN_WINDOW_DAYS) || 30;
+
+const RETURNABLE_ORDER_STATUSES = ['paid', 'shipped', 'partially_refunded'];
+// Returns in these states no longer hold on to the order's quantities
+const CLOSED_WITHOUT_RETURN: ReturnStatus[] = ['rejected', 'cancelled'];
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged',
+  faulty: 'Faulty',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  changed_mind: 'Changed my mind',
+  other: 'Other',
+};
+
+export type ReturnAction = 'approve' | 'reject' | 'receive' | 'complete' | 'cancel';
+
+const TRANSITIONS: Record<ReturnAction, { from: ReturnStatus[]; to: ReturnStatus }> = {
+  approve: { from: ['requested'], to: 'approved' },
+  reject: { from: ['requested'], to: 'rejected' },
+  receive: { from: ['approved'], to: 'received' },
+  complete: { from: ['received'], to: 'completed' },
+  cancel: { from: ['requested', 'approved', 'received'], to: 'cancelled' },
+};
+
+export type ReturnableLine = {
+  lineIndex: number;
+  itemId: string;
+  name: string;
+  source: string | null;
+  unitPrice: number;
+  ordered: number;
+  returnable: number;
+};
+
+export type ReturnLineInput = { lineIndex: number; qty: number; reason: ReturnReason; note?: string | null };
+
+export type ReturnResult =
+  | { ok: true; returnRequest: IReturnRequest; order?: unknown }
+  | { ok: false; status: number; error: string };
+
+/* ----------------------------- Signed links ---------------------------------- */
+
+export function signReturnLink(orderId: string): string {
+  return signLink('order-returns', orderId);
+}
+
+export function verifyReturnSignature(orderId: unknown, signature: unknown): orderId is string {
+  if (typeof orderId !== 'string' || typeof signature !== 'string') return false;
+  if (!mongoose.Types.ObjectId.isValid(orderId)) return false;
+  return signatureMatches(signReturnLink(orderId), signature);
+}
+
+export function buildReturnUrl(orderId: string) {
+  const appBase = (process.env.APP_BASE_URL || '').replace(/\/$/, '');
+  const params = new URLSearchParams({ order: orderId, sig: signReturnLink(orderId) });
+  return `${appBase}/returns?${params.toString()}`;
+}
+
+/** Label / packing slip link for the customer, signed with the same order signature */
+export function buildReturnSlipUrl(returnRequest: Pick<IReturnRequest, '_id' | 'orderId'>) {
+  const appBase = (process.env.APP_BASE_URL || '').replace(/\/$/, '');
+  const orderId = String(returnRequest.orderId);
+  const params = new URLSearchParams({ order: orderId, sig: signReturnLink(orderId) });
+  return `${appBase}/api/returns/${String(returnRequest._id)}/slip?${params.toString()}`;
+}
+
+/* ----------------------------- Eligibility ---------------------------------- */
+
+function returnWindowEndsAt(order: IOrder): Date | null {
+  const from = order.shipment?.shippedAt ?? order.paidAt ?? order.createdAt;
+  if (!from) return null;
+  return new Date(new Date(from).getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/** Why a customer can't open a return on this order, or null if they can */
+export function customerReturnBlocker(order: IOrder, now = new Date()): string | null {
+  if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) return 'This order can no longer be returned online.';
+  const endsAt = returnWindowEndsAt(order);
+  if (endsAt && endsAt < now) {
+    return `Returns can be opened up to ${RETURN_WINDOW_DAYS} days after dispatch. Please contact us about this order.`;
+  }
+  return null;
+}
+
+/** Order lines with how many units are still free to return (gift cards can't be returned) */
+export async function getReturnableLines(order: IOrder): Promise<ReturnableLine[]> {
+  const open = await ReturnRequest.find({ orderId: order._id, status: { $nin: CLOSED_WITHOUT_RETURN } })
+    .select('lines')
+    .lean()
+    .exec();
+  const taken = new Map<number, number>();
+  for (const r of open) {
+    for (const l of r.lines) taken.set(l.lineIndex, (taken.get(l.lineIndex) ?? 0) + l.qty);
+  }
+
+  return (order.items ?? [])
+    .map((it, lineIndex) => ({
+      lineIndex,
+      itemId: it.id,
+      name: it.name,
+      source: it.source ?? null,
+      unitPrice: it.unitPrice,
+      ordered: it.qty,
+      returnable: Math.max(0, it.qty - (taken.get(lineIndex) ?? 0)),
+    }))
+    .filter((l) => l.source !== 'gift_card');
+}
+
+/** Validates `{ lineIndex, qty, reason, note }` rows from a request body */
+export function parseReturnLines(raw: unknown): ReturnLineInput[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const lines: ReturnLineInput[] = [];
+  for (const row of raw) {
+    if (!row || typeof row !== 'object') return null;
+    const r = row as Record<string, unknown>;
+    const lineIndex = Number(r.lineIndex);
+    const qty = Number(r.qty);
+    if (!Number.isInteger(lineIndex) || lineIndex < 0 || !Number.isInteger(qty) || qty < 1) return null;
+    if (typeof r.reason !== 'string' || !(RETURN_REASONS as readonly string[]).includes(r.reason)) return null;
+    const note = typeof r.note === 'string' && r.note.trim() ? r.note.trim().slice(0, 500) : null;
+    lines.push({ lineIndex, qty, reason: r.reason as ReturnReason, note });
+  }
+  return lines;
+}
+
+/* ----------------------------- Helpers ---------------------------------- */
+
+function newRmaNumber() {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let out = '';
+  for (let i = 0; i < 6; i++) out += alphabet[crypto.randomInt(0, alphabet.length)];
+  return `RMA-${out}`;
+}
+
+async function recordOrderHistory(returnRequest: IReturnRequest, status: ReturnStatus, by: string, note?: string | null) {
+  try {
+    await Order.findByIdAndUpdate(returnRequest.orderId, {
+      $push: {
+        'metadata.returnHistory': {
+          returnId: String(returnRequest._id),
+          rmaNumber: returnRequest.rmaNumber,
+          status,
+          by,
+          note: note ?? null,
+          at: new Date().toISOString(),
+        },
+      },
+    }).exec();
+  } catch (err) {
+    console.error('Failed to record return history on order:', err);
+  }
+}
+
+async function notifyCustomer(returnRequest: IReturnRequest) {
+  try {
+    const order = await Order.findById(returnRequest.orderId).lean().exec();
+    const result = await notifyReturnToCustomer({
+      returnRequest,
+      slipUrl: returnRequest.status === 'approved' ? buildReturnSlipUrl(returnRequest) : null,
+      reasonLabels: RETURN_REASON_LABELS,
+      currency: order?.currency ?? 'GBP',
+    });
+    if (!result.sent) console.error('Return email not sent:', result.error);
+  } catch (err) {
+    console.error('Failed to send return email:', err);
+  }
+}
+
+/** Puts returned units back on the product; equipment may be referenced by slug */
+async function restockLine(line: IReturnLine): Promise<boolean> {
+  const { itemId: id, qty } = line;
+  const source = line.source || 'variant';
+
+  if (source === 'variant') {
+    if (!mongoose.Types.ObjectId.isValid(id)) return false;
+    const variant = await CoffeeVariant.findByIdAndUpdate(id, { $inc: { stock: qty } }, { new: true }).lean().exec();
+    if (!variant) return false;
+    if (variant.coffeeId) await Coffee.findByIdAndUpdate(variant.coffeeId, { $inc: { totalStock: qty } }).exec();
+    return true;
+  }
+  if (source === 'coffee') {
+    if (!mongoose.Types.ObjectId.isValid(id)) return false;
+    return !!(await Coffee.findByIdAndUpdate(id, { $inc: { stock: qty } }).exec());
+  }
+  if (source === 'equipment') {
+    const filter = mongoose.Types.ObjectId.isValid(id) ? { _id: id } : { slug: id };
+    return !!(await Equipment.findOneAndUpdate(filter, { $inc: { totalStock: qty } }).exec());
+  }
+  return false;
+}
+
+/* ----------------------------- Opening ---------------------------------- */
+
+export async function openReturn(input: {
+  order: IOrder;
+  lines: ReturnLineInput[];
+  customerNote?: string | null;
+  openedBy: 'customer' | 'admin';
+  actor: string;
+}): Promise<ReturnResult> {
+  const { order, openedBy } = input;
+  if (openedBy === 'customer') {
+    const blocker = customerReturnBlocker(order);
+    if (blocker) return { ok: false, status: 409, error: blocker };
+  }
+
+  const email = order.client?.email || order.shippingAddress?.email;
+  if (!email) return { ok: false, status: 400, error: 'This order has no customer email' };
+
+  const returnable = new Map((await getReturnableLines(order)).map((l) => [l.lineIndex, l]));
+  const requested = new Map<number, number>();
+  const lines: IReturnLine[] = [];
+  for (const l of input.lines) {
+    const line = returnable.get(l.lineIndex);
+    const qty = (requested.get(l.lineIndex) ?? 0) + l.qty;
+    if (!line || qty > line.returnable) {
+      return { ok: false, status: 409, error: `${line?.name ?? 'That item'} can't be returned in that quantity` };
+    }
+    requested.set(l.lineIndex, qty);
+    lines.push({
+      lineIndex: l.lineIndex,
+      itemId: line.itemId,
+      name: line.name,
+      source: line.source,
+      qty: l.qty,
+      unitPrice: line.unitPrice,
+      reason: l.reason,
+      note: l.note ?? null,
+    });
+  }
+
+  const name =
+    order.client?.name ||
+    [order.shippingAddress?.firstName, order.shippingAddress?.lastName].filter(Boolean).join(' ') ||
+    null;
+  const customerNote = input.customerNote?.trim().slice(0, 1000) || null;
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    try {
+      const returnRequest = await ReturnRequest.create({
+        rmaNumber: newRmaNumber(),
+        orderId: order._id,
+        email,
+        name,
+        status: 'requested',
+        openedBy,
+        lines,
+        customerNote,
+        history: [{ status: 'requested', at: new Date(), by: input.actor, note: customerNote }],
+      });
+      await recordOrderHistory(returnRequest, 'requested', input.actor, customerNote);
+      void notifyCustomer(returnRequest);
+      return { ok: true, returnRequest };
+    } catch (err) {
+      if ((err as { code?: number })?.code === 11000) continue; // RMA number taken, draw another
+      throw err;
+    }
+  }
+  return { ok: false, status: 500, error: 'Could not allocate a return number' };
+}
+
+/* ----------------------------- Transitions ---------------------------------- */
+
+export async function transitionReturn(
+  returnId: string,
+  action: ReturnAction,
+  opts: {
+    actor: string;
+    note?: string | null;
+    // receive: order line indexes to put back into stock
+    restockLines?: number[];
+    // complete: GBP to refund (defaults to the value of the returned lines); 0 completes without a refund
+    refundAmount?: number;
+    toStoreCredit?: boolean;
+  }
+): Promise<ReturnResult> {
+  if (!mongoose.Types.ObjectId.isValid(returnId)) return { ok: false, status: 404, error: 'Return not found' };
+  const rule = TRANSITIONS[action];
+  if (!rule) return { ok: false, status: 400, error: 'Unknown action' };
+
+  const current = await ReturnRequest.findById(returnId).exec();
+  if (!current) return { ok: false, status: 404, error: 'Return not found' };
+  if (!rule.from.includes(current.status)) {
+    return { ok: false, status: 409, error: `A ${current.status} return can't be moved to ${rule.to}` };
+  }
+
+  const note = opts.note?.trim().slice(0, 1000) || null;
+  const now = new Date();
+  const $set: Record<string, unknown> = { status: rule.to };
+  if (note) $set.adminNote = note;
+
+  let refundedOrder: unknown;
+  if (action === 'approve') $set.approvedAt = now;
+  if (action === 'receive') $set.receivedAt = now;
+
+  if (action === 'complete') {
+    const order = await Order.findById(current.orderId).lean().exec();
+    if (!order) return { ok: false, status: 404, error: 'Order not found' };
+
+    const linesValue = Number(current.lines.reduce((s, l) => s + l.qty * l.unitPrice, 0).toFixed(2));
+    const amount = Number(
+      (opts.refundAmount ?? Math.min(linesValue, getRefundableAmount(order))).toFixed(2)
+    );
+    if (!Number.isFinite(amount) || amount < 0) return { ok: false, status: 400, error: 'Invalid refund amount' };
+
+    if (amount > 0) {
+      const refund = await refundOrder(
+        String(current.orderId),
+        {
+          amount,
+          reason: `Return ${current.rmaNumber}`,
+          // keyed on the return so a retried completion can't refund twice
+          idempotencyKey: `return-${String(current._id)}`,
+          toStoreCredit: opts.toStoreCredit === true,
+          returnId: String(current._id),
+          lines: current.lines.map((l) => ({ lineIndex: l.lineIndex, qty: l.qty })),
+        },
+        opts.actor
+      );
+      if (!refund.ok) return { ok: false, status: refund.status, error: refund.error };
+      $set.refundAmount = refund.refund.amount;
+      $set.refundId = refund.refund.refundId;
+      $set.refundMethod = refund.refund.method ?? 'card';
+      refundedOrder = refund.order;
+    }
+    $set.completedAt = now;
+  }
+
+  // Only move on from the status we checked, so two admins can't both receive (and restock) a return
+  const updated = await ReturnRequest.findOneAndUpdate(
+    { _id: current._id, status: current.status },
+    { $set, $push: { history: { status: rule.to, at: now, by: opts.actor, note } } },
+    { new: true }
+  ).exec();
+  if (!updated) return { ok: false, status: 409, error: 'This return was updated by someone else. Please reload.' };
+
+  if (action === 'receive' && opts.restockLines?.length) {
+    const restock = new Set(opts.restockLines);
+    let changed = false;
+    for (const line of updated.lines) {
+      if (!restock.has(line.lineIndex) || line.restocked) continue;
+      try {
+        line.restocked = await restockLine(line);
+        changed = changed || !!line.restocked;
+      } catch (err) {
+        console.error(`Failed to restock ${line.name} for ${updated.rmaNumber}:`, err);
+      }
+    }
+    if (changed) await updated.save();
+  }
+
+  await recordOrderHistory(updated, rule.to, opts.actor, note);
+  void notifyCustomer(updated);
+  return { ok: true, returnRequest: updated, order: refundedOrder };
+}
+
+/* ----------------------------- Views ---------------------------------- */
+
+export type CustomerReturnView = {
+  _id: string;
+  rmaNumber: string;
+  status: ReturnStatus;
+  createdAt: string | null;
+  lines: { lineIndex: number; name: string; qty: number; reason: ReturnReason; note: string | null }[];
+  note: string | null;
+  refundAmount: number | null;
+  slipAvailable: boolean;
+};
+
+/** What the customer sees of a return on the /returns page (no admin names) */
+export function toCustomerReturn(r: IReturnRequest): CustomerReturnView {
+  return {
+    _id: String(r._id),
+    rmaNumber: r.rmaNumber,
+    status: r.status,
+    createdAt: r.createdAt ? new Date(r.createdAt).toISOString() : null,
+    lines: r.lines.map((l) => ({
+      lineIndex: l.lineIndex,
+      name: l.name,
+      qty: l.qty,
+      reason: l.reason,
+      note: l.note ?? null,
+    })),
+    note: r.status === 'requested' ? null : r.adminNote ?? null,
+    refundAmount: r.refundAmount ?? null,
+    slipAvailable: returnSlipAvailable(r),
+  };
+}
+
+export function returnSlipAvailable(r: Pick<IReturnRequest, 'status'>) {
+  return r.status === 'approved' || r.status === 'received';
+}
@@ -0,0 +1,75 @@
+import Place from '@/models/review';
+
+/*
+ * Google reviews shown on the site are cached in Mongo and refreshed by the
+ * refresh-reviews job (lib/jobs.ts); /api/google-reviews only ever reads the cache.
+ */
+
+const CACHE_HOURS = 12;
+
+type PlacesResponse = {
+  status?: string;
+  result?: {
+    name?: string;
+    url?: string;
+    rating?: number;
+    user_ratings_total?: number;
+    reviews?: {
+      author_name?: string;
+      author_url?: string;
+      rating?: number;
+      text?: string;
+      relative_time_description?: string;
+      profile_photo_url?: string;
+      time?: number;
+    }[];
+  };
+  error_message?: string;
+};
+
+/** Fetches the place details from Google and replaces the cached copy */
+export async function refreshGoogleReviews(): Promise<{ reviews: number; rating: number | null }> {
+  const apiKey = process.env.GOOGLE_PLACES_API_KEY;
+  const placeId = process.env.GOOGLE_PLACE_ID;
+  if (!apiKey || !placeId) {
+    throw new Error('Server misconfigured: missing GOOGLE_PLACES_API_KEY or GOOGLE_PLACE_ID');
+  }
+
+  const fields = encodeURIComponent('name,rating,user_ratings_total,reviews,url');
+  const fetchUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${encodeURIComponent(
+    placeId
+  )}&fields=${fields}&key=${encodeURIComponent(apiKey)}`;
+
+  const googleResponse = await fetch(fetchUrl);
+  const data = (await googleResponse.json()) as PlacesResponse;
+
+  if (data.status !== 'OK') {
+    throw new Error(data.error_message || 'Unknown error');
+  }
+
+  const now = new Date();
+  const placeData = new Place({
+    place_name: data.result?.name,
+    place_url: data.result?.url,
+    rating: data.result?.rating,
+    user_ratings_total: data.result?.user_ratings_total,
+    reviews: data.result?.reviews?.map((review) => ({
+      id: `${review.time}_${(review.author_name || '').slice(0, 50)}`, // Unique identifier
+      author_name: review.author_name,
+      author_url: review.author_url,
+      rating: review.rating,
+      text: review.text,
+      relative_time_description: review.relative_time_description,
+      profile_photo_url: review.profile_photo_url,
+      time: review.time,
+    })),
+    fetched_at: now,
+    cached_until: new Date(now.getTime() + CACHE_HOURS * 60 * 60 * 1000),
+  });
+
+  // Replace the old cached document in MongoDB
+  await Place.deleteMany({});
+  await placeData.save();
+
+  return { reviews: data.result?.reviews?.length ?? 0, rating: data.result?.rating ?? null };
+}
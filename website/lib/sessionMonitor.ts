@@ -11,6 +11,10 @@ export function registerSession(
   session: mongoose.ClientSession,
   paymentIntentId: string
 ): void {
+  // The map lives in this process only, so it's swept as new sessions arrive
+  // rather than on a timer that wouldn't survive between serverless invocations
+  void cleanupStaleSessions();
+
   const sessionId = getSessionId(session);
   if (sessionId) {
     activeSessions.set(sessionId, {
@@ -62,11 +66,6 @@ export async function cleanupStaleSessions(): Promise<void> {
   }
 }
 
-// ✅ Run cleanup every 30 seconds
-if (typeof setInterval !== 'undefined') {
-  setInterval(cleanupStaleSessions, 30000);
-}
-
 // ✅ Get current active sessions (for monitoring)
 export function getActiveSessions(): Array<{ sessionId: string; info: SessionInfo }> {
   return Array.from(activeSessions.entries()).map(([sessionId, info]) => ({
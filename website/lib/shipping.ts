@@ -1,9 +1,259 @@
-import { ISettings } from '@/models/Settings';
+import type { ISettings } from '@/models/Settings';
+
+/*
+ * Shipping pricing shared by the storefront and the server.
+ *
+ * Settings may hold a list of zones. A zone is matched by destination country
+ * and (optionally) postcode prefix, and carries a rate table per service level
+ * banded by parcel weight and order value. When no zones are configured the
+ * legacy flat price + free-delivery threshold is used as a single "standard" rate.
+ *
+ * Everything here is pure so it can run in the browser; weight lookup lives in
+ * lib/shippingQuote.ts.
+ */
+
+export const SHIPPING_SERVICES = ['standard', 'next_day'] as const;
+export type ShippingService = (typeof SHIPPING_SERVICES)[number];
+
+export const SHIPPING_SERVICE_LABELS: Record<ShippingService, string> = {
+  standard: 'Standard (2-4 working days)',
+  next_day: 'Next working day',
+};
+
+export const DEFAULT_SHIPPING_COUNTRY = 'GB';
+
+// Used for lines whose weight we can't work out (legacy coffees, equipment without a weight)
+export const DEFAULT_ITEM_WEIGHT_GRAMS = 500;
+
+export type ShippingRate = {
+  service: ShippingService;
+  // upper bound (inclusive) of the weight band; null = no upper limit
+  maxWeightGrams: number | null;
+  // order subtotal (before discounts) needed for this rate to apply
+  minSubtotalPence: number;
+  pricePence: number;
+};
+
+export type ShippingZone = {
+  name: string;
+  countries: string[];
+  postcodePrefixes: string[];
+  rates: ShippingRate[];
+};
+
+export type ShippingDestination = {
+  postcode?: string | null;
+  country?: string | null;
+};
+
+export type ShippingQuoteOption = {
+  service: ShippingService;
+  label: string;
+  pricePence: number;
+  zone: string;
+  // subtotal at which this service becomes free in the zone, if it ever does
+  freeFromPence: number | null;
+};
+
+type FlatShippingSettings = { deliveryPricePence: number; freeDeliveryThresholdPence: number; freeDeliveryEnabled: boolean };
+
+type ShippingSettings = Partial<Pick<ISettings, 'deliveryPricePence' | 'freeDeliveryThresholdPence' | 'freeDeliveryEnabled'>> & {
+  shippingZones?: ShippingZone[] | null;
+};
 
 // Compute shipping in pence given subtotal (in pence) and settings
-export function computeShippingPence(subtotalPence: number, settings: { deliveryPricePence: number; freeDeliveryThresholdPence: number; freeDeliveryEnabled: boolean }) {
+export function computeShippingPence(subtotalPence: number, settings: FlatShippingSettings) {
   if (!settings) return 0;
   const { deliveryPricePence = 0, freeDeliveryThresholdPence = 0, freeDeliveryEnabled = true } = settings;
   if (freeDeliveryEnabled && subtotalPence >= (freeDeliveryThresholdPence ?? 0)) return 0;
   return deliveryPricePence ?? 0;
-}
\ No newline at end of file
+}
+
+export function isShippingService(v: unknown): v is ShippingService {
+  return typeof v === 'string' && (SHIPPING_SERVICES as readonly string[]).includes(v);
+}
+
+/** "250g", "1kg", "1.5 kg", "500 G" -> grams. Returns null when the size isn't a weight. */
+export function parseSizeToGrams(size?: string | null): number | null {
+  if (!size) return null;
+  const m = String(size).trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(kg|g)\b/);
+  if (!m) return null;
+  const value = Number(m[1]);
+  if (!Number.isFinite(value) || value <= 0) return null;
+  return Math.round(m[2] === 'kg' ? value * 1000 : value);
+}
+
+/** Uppercase, no spaces — "ec1a 1bb" -> "EC1A1BB" */
+export function compactPostcode(postcode?: string | null) {
+  return String(postcode ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Does a UK-style postcode fall under a prefix?
+ * - Letters only ("BT", "HS") match the whole postcode area, so "B" won't catch "BT1".
+ * - With a district ("KA27", "PA20") the outward code must match exactly, so "PA2" won't catch "PA20".
+ * Postcodes too short to have an inward part (e.g. "IV" from a wallet) are treated as an outward code.
+ */
+export function postcodeMatchesPrefix(postcode: string | null | undefined, prefix: string) {
+  const code = compactPostcode(postcode);
+  const p = compactPostcode(prefix);
+  if (!code || !p) return false;
+  const outward = code.length > 4 ? code.slice(0, -3) : code;
+  if (/^[A-Z]+$/.test(p)) {
+    return outward.startsWith(p) && /^\d/.test(outward.slice(p.length));
+  }
+  return outward === p;
+}
+
+/**
+ * Picks the zone for a destination. Zones that list postcode prefixes only match
+ * when one of them does, and win over zones that cover the whole country.
+ * Zones with no countries apply to any country. First match in list order wins.
+ */
+export function matchShippingZone(zones: ShippingZone[], destination: ShippingDestination): ShippingZone | null {
+  const country = String(destination.country || DEFAULT_SHIPPING_COUNTRY).trim().toUpperCase();
+  const inCountry = zones.filter(
+    (z) => z.countries.length === 0 || z.countries.some((c) => c.toUpperCase() === country)
+  );
+
+  if (destination.postcode) {
+    const byPostcode = inCountry.find((z) =>
+      z.postcodePrefixes.some((p) => postcodeMatchesPrefix(destination.postcode, p))
+    );
+    if (byPostcode) return byPostcode;
+  }
+
+  return inCountry.find((z) => z.postcodePrefixes.length === 0) ?? null;
+}
+
+function pickRate(rates: ShippingRate[], weightGrams: number, subtotalPence: number): ShippingRate | null {
+  const eligible = rates.filter(
+    (r) => (r.maxWeightGrams === null || weightGrams <= r.maxWeightGrams) && subtotalPence >= r.minSubtotalPence
+  );
+  if (eligible.length === 0) return null;
+  // tightest weight band first, then the best order-value band within it
+  eligible.sort((a, b) => {
+    const wa = a.maxWeightGrams ?? Number.POSITIVE_INFINITY;
+    const wb = b.maxWeightGrams ?? Number.POSITIVE_INFINITY;
+    if (wa !== wb) return wa - wb;
+    return b.minSubtotalPence - a.minSubtotalPence;
+  });
+  return eligible[0];
+}
+
+function freeFromPence(rates: ShippingRate[], weightGrams: number, subtotalPence: number): number | null {
+  const thresholds = rates
+    .filter((r) => r.pricePence === 0 && r.minSubtotalPence > subtotalPence)
+    .filter((r) => r.maxWeightGrams === null || weightGrams <= r.maxWeightGrams)
+    .map((r) => r.minSubtotalPence);
+  return thresholds.length ? Math.min(...thresholds) : null;
+}
+
+/**
+ * All services available for a parcel, cheapest first. An empty list means we
+ * don't ship there (no zone matched, or every rate band is exceeded).
+ */
+export function quoteShippingOptions(
+  settings: ShippingSettings | null | undefined,
+  parcel: { subtotalPence: number; weightGrams: number; destination: ShippingDestination }
+): ShippingQuoteOption[] {
+  const zones = settings?.shippingZones ?? [];
+
+  if (zones.length === 0) {
+    const flat: FlatShippingSettings = {
+      deliveryPricePence: settings?.deliveryPricePence ?? 499,
+      freeDeliveryThresholdPence: settings?.freeDeliveryThresholdPence ?? 3000,
+      freeDeliveryEnabled: settings?.freeDeliveryEnabled ?? true,
+    };
+    const pricePence = computeShippingPence(parcel.subtotalPence, flat);
+    return [
+      {
+        service: 'standard',
+        label: SHIPPING_SERVICE_LABELS.standard,
+        pricePence,
+        zone: 'Default',
+        freeFromPence: pricePence > 0 && flat.freeDeliveryEnabled ? flat.freeDeliveryThresholdPence : null,
+      },
+    ];
+  }
+
+  const zone = matchShippingZone(zones, parcel.destination);
+  if (!zone) return [];
+
+  const options: ShippingQuoteOption[] = [];
+  for (const service of SHIPPING_SERVICES) {
+    const rates = zone.rates.filter((r) => r.service === service);
+    const rate = pickRate(rates, parcel.weightGrams, parcel.subtotalPence);
+    if (!rate) continue;
+    options.push({
+      service,
+      label: SHIPPING_SERVICE_LABELS[service],
+      pricePence: rate.pricePence,
+      zone: zone.name,
+      freeFromPence: rate.pricePence > 0 ? freeFromPence(rates, parcel.weightGrams, parcel.subtotalPence) : null,
+    });
+  }
+  return options.sort((a, b) => a.pricePence - b.pricePence);
+}
+
+/** The requested service if it's on offer, otherwise the cheapest option. */
+export function selectShippingOption(options: ShippingQuoteOption[], service?: unknown): ShippingQuoteOption | null {
+  if (options.length === 0) return null;
+  return options.find((o) => o.service === service) ?? options[0];
+}
+
+function toNonNegativeInt(v: unknown, field: string): number {
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`${field} must be a number >= 0`);
+  return Math.round(n);
+}
+
+function toStringList(v: unknown): string[] {
+  const raw = Array.isArray(v) ? v : typeof v === 'string' ? v.split(/[\s,]+/) : [];
+  return Array.from(
+    new Set(
+      raw
+        .map((s) => String(s ?? '').replace(/\s+/g, '').toUpperCase())
+        .filter(Boolean)
+    )
+  );
+}
+
+/** Validates the admin payload for Settings.shippingZones. Throws with a readable message. */
+export function parseShippingZones(input: unknown): ShippingZone[] {
+  if (!Array.isArray(input)) throw new Error('shippingZones must be an array');
+  return input.map((rawZone, zi) => {
+    if (!rawZone || typeof rawZone !== 'object') throw new Error(`Zone ${zi + 1} is not an object`);
+    const z = rawZone as Record<string, unknown>;
+    const name = typeof z.name === 'string' ? z.name.trim() : '';
+    if (!name) throw new Error(`Zone ${zi + 1} needs a name`);
+
+    const countries = toStringList(z.countries);
+    if (countries.some((c) => !/^[A-Z]{2}$/.test(c))) {
+      throw new Error(`Zone "${name}": countries must be 2-letter codes (e.g. GB)`);
+    }
+    const postcodePrefixes = toStringList(z.postcodePrefixes);
+    if (postcodePrefixes.some((p) => !/^[A-Z]{1,2}(\d{1,2}[A-Z]?)?$/.test(p))) {
+      throw new Error(`Zone "${name}": postcode prefixes must be an area (e.g. BT) or district (e.g. KA27)`);
+    }
+
+    if (!Array.isArray(z.rates) || z.rates.length === 0) throw new Error(`Zone "${name}" needs at least one rate`);
+    const rates = z.rates.map((rawRate, ri): ShippingRate => {
+      if (!rawRate || typeof rawRate !== 'object') throw new Error(`Zone "${name}": rate ${ri + 1} is not an object`);
+      const r = rawRate as Record<string, unknown>;
+      if (!isShippingService(r.service)) throw new Error(`Zone "${name}": rate ${ri + 1} has an unknown service`);
+      const label = `Zone "${name}" rate ${ri + 1}`;
+      return {
+        service: r.service,
+        maxWeightGrams:
+          r.maxWeightGrams === null || r.maxWeightGrams === undefined || r.maxWeightGrams === ''
+            ? null
+            : toNonNegativeInt(r.maxWeightGrams, `${label} max weight`),
+        minSubtotalPence: toNonNegativeInt(r.minSubtotalPence ?? 0, `${label} minimum order`),
+        pricePence: toNonNegativeInt(r.pricePence, `${label} price`),
+      };
+    });
+
+    return { name, countries, postcodePrefixes, rates };
+  });
+}
@@ -0,0 +1,94 @@
+import mongoose from 'mongoose';
+import Settings from '@/models/Settings';
+import CoffeeVariant from '@/models/CoffeeVariant';
+import Equipment from '@/models/Equipment';
+import {
+  DEFAULT_ITEM_WEIGHT_GRAMS,
+  parseSizeToGrams,
+  quoteShippingOptions,
+  type ShippingDestination,
+  type ShippingQuoteOption,
+  type ShippingZone,
+} from '@/lib/shipping';
+
+/*
+ * Server-side shipping quotes: loads the rate tables from Settings and works out
+ * parcel weight from the products in the order (variant `size`, equipment `weightGrams`).
+ */
+
+export type ShippingLine = {
+  id: string;
+  quantity: number;
+  source?: 'variant' | 'coffee' | 'equipment' | string;
+};
+
+export type ShippingQuote = {
+  weightGrams: number;
+  options: ShippingQuoteOption[];
+};
+
+export async function loadShippingSettings() {
+  const doc = (await Settings.findOne({}).lean().exec()) as unknown as {
+    deliveryPricePence?: number;
+    freeDeliveryThresholdPence?: number;
+    freeDeliveryEnabled?: boolean;
+    shippingZones?: ShippingZone[];
+  } | null;
+  return {
+    deliveryPricePence: doc?.deliveryPricePence ?? 499,
+    freeDeliveryThresholdPence: doc?.freeDeliveryThresholdPence ?? 3000,
+    freeDeliveryEnabled: doc?.freeDeliveryEnabled ?? true,
+    shippingZones: doc?.shippingZones ?? [],
+  };
+}
+
+async function unitWeightGrams(line: ShippingLine): Promise<number> {
+  const isObjectId = mongoose.Types.ObjectId.isValid(line.id);
+
+  if (isObjectId && (line.source === 'variant' || !line.source)) {
+    const variant = (await CoffeeVariant.findById(line.id).select('size').lean().exec()) as unknown as { size?: string } | null;
+    if (variant) return parseSizeToGrams(variant.size) ?? DEFAULT_ITEM_WEIGHT_GRAMS;
+  }
+
+  if (line.source === 'equipment' || !line.source) {
+    const equipment = (await (isObjectId
+      ? Equipment.findById(line.id)
+      : Equipment.findOne({ slug: line.id })
+    )
+      .select('weightGrams')
+      .lean()
+      .exec()) as unknown as { weightGrams?: number } | null;
+    if (equipment && typeof equipment.weightGrams === 'number' && equipment.weightGrams > 0) return equipment.weightGrams;
+  }
+
+  return DEFAULT_ITEM_WEIGHT_GRAMS;
+}
+
+export async function resolveParcelWeightGrams(lines: ShippingLine[]): Promise<number> {
+  const weights = await Promise.all(lines.map((l) => unitWeightGrams(l)));
+  return lines.reduce((sum, l, i) => sum + weights[i] * Math.max(0, l.quantity), 0);
+}
+
+export async function quoteShipping(input: {
+  lines: ShippingLine[];
+  subtotalPence: number;
+  destination: ShippingDestination;
+}): Promise<ShippingQuote> {
+  // Nothing to post (e.g. an order of gift cards only, which are emailed)
+  if (input.lines.length === 0) {
+    return {
+      weightGrams: 0,
+      options: [{ service: 'standard', label: 'Email delivery', pricePence: 0, zone: 'Digital', freeFromPence: null }],
+    };
+  }
+
+  const [settings, weightGrams] = await Promise.all([loadShippingSettings(), resolveParcelWeightGrams(input.lines)]);
+  return {
+    weightGrams,
+    options: quoteShippingOptions(settings, {
+      subtotalPence: input.subtotalPence,
+      weightGrams,
+      destination: input.destination,
+    }),
+  };
+}
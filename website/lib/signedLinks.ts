@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+
+/*
+ * Signatures for the links and codes we email to customers: manage-booking links,
+ * checkout recovery links, returns links and client lookup codes. Each purpose has
+ * a key of its own, derived from JWT_SECRET the way lib/customerAuth.ts derives the
+ * customer session key, so a signature made for one purpose never passes for
+ * another, and none of them for an admin token. A purpose's own env var, when set,
+ * is used as the key instead.
+ */
+
+export type SignedLinkPurpose = 'manage-booking' | 'checkout-recovery' | 'client-lookup' | 'order-returns';
+
+const KEY_ENV: Record<SignedLinkPurpose, string> = {
+  'manage-booking': 'BOOKING_LINK_SECRET',
+  'checkout-recovery': 'CHECKOUT_RECOVERY_SECRET',
+  'client-lookup': 'CLIENT_LOOKUP_SECRET',
+  'order-returns': 'RETURNS_SECRET',
+};
+
+function signingKey(purpose: SignedLinkPurpose): string {
+  const own = process.env[KEY_ENV[purpose]];
+  if (own) return own;
+  const base = process.env.JWT_SECRET;
+  if (!base) throw new Error(`${KEY_ENV[purpose]} (or JWT_SECRET) is not configured`);
+  return crypto.createHmac('sha256', base).update(`signed-link:${purpose}`).digest('base64url');
+}
+
+/** HMAC of the payload under the purpose's key */
+export function signLink(purpose: SignedLinkPurpose, payload: string, encoding: 'base64url' | 'hex' = 'base64url'): string {
+  return crypto.createHmac('sha256', signingKey(purpose)).update(`${purpose}:${payload}`).digest(encoding);
+}
+
+/** Constant-time comparison of a signature against the one we expect */
+export function signatureMatches(expected: string | null | undefined, given: unknown): boolean {
+  if (!expected || typeof given !== 'string') return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -0,0 +1,246 @@
+import mongoose from 'mongoose';
+import CoffeeVariant from '@/models/CoffeeVariant';
+import Coffee from '@/models/Coffee';
+import Equipment from '@/models/Equipment';
+import Reservation, {
+  IReservationItem,
+  IReservationStockChange,
+  ReservationSource,
+} from '@/models/Reservation';
+
+/*
+ * Checkout stock holds. create-payment-intent reserves the cart, the
+ * payment_intent.succeeded handler consumes the hold in the same transaction that
+ * decrements stock, and payment_intent.canceled / payment_failed release it.
+ * Abandoned holds simply expire (and are later marked released by a scheduled
+ * job): nothing is taken off product stock until payment.
+ */
+
+export const RESERVATION_TTL_MINUTES = 30;
+
+export type StockLine = {
+  id: string;
+  qty: number;
+  source: ReservationSource;
+  name?: string;
+};
+
+export interface StockShortage {
+  id: string;
+  name: string;
+  requested: number;
+  available: number;
+  source: ReservationSource;
+}
+
+type StockLevel = { docId: string; stock: number };
+
+/** Current stock on the product document; equipment may be looked up by slug */
+export async function readStockLevel(source: ReservationSource, id: string): Promise<StockLevel | null> {
+  if (source === 'variant') {
+    if (!mongoose.Types.ObjectId.isValid(id)) return null;
+    const variant = await CoffeeVariant.findById(id).select('stock').lean();
+    return variant ? { docId: String(variant._id), stock: variant.stock ?? 0 } : null;
+  }
+  if (source === 'coffee') {
+    if (!mongoose.Types.ObjectId.isValid(id)) return null;
+    const coffee = (await Coffee.findById(id).select('stock').lean()) as { _id: unknown; stock?: number } | null;
+    return coffee ? { docId: String(coffee._id), stock: coffee.stock ?? 0 } : null;
+  }
+  const equipment = mongoose.Types.ObjectId.isValid(id)
+    ? await Equipment.findById(id).select('totalStock').lean()
+    : await Equipment.findOne({ slug: id }).select('totalStock').lean();
+  return equipment ? { docId: String(equipment._id), stock: equipment.totalStock ?? 0 } : null;
+}
+
+/**
+ * Quantities held by active reservations, keyed by product document id.
+ * `excludePaymentIntentId` leaves out the caller's own hold.
+ */
+export async function getHeldQuantities(
+  docIds: string[],
+  options: { excludePaymentIntentId?: string } = {}
+): Promise<Map<string, number>> {
+  const held = new Map<string, number>();
+  if (docIds.length === 0) return held;
+
+  const match: Record<string, unknown> = {
+    status: 'reserved',
+    expiresAt: { $gt: new Date() },
+    'items.id': { $in: docIds },
+  };
+  if (options.excludePaymentIntentId) {
+    match.paymentIntentId = { $ne: options.excludePaymentIntentId };
+  }
+
+  const rows = (await Reservation.aggregate([
+    { $match: match },
+    { $unwind: '$items' },
+    { $match: { 'items.id': { $in: docIds } } },
+    { $group: { _id: '$items.id', qty: { $sum: '$items.qty' } } },
+  ])) as { _id: string; qty: number }[];
+
+  for (const row of rows) held.set(row._id, row.qty);
+  return held;
+}
+
+/** Stock a new checkout can take: product stock minus everyone else's active holds */
+export async function getAvailableStock(
+  source: ReservationSource,
+  id: string,
+  options: { excludePaymentIntentId?: string } = {}
+): Promise<number> {
+  const level = await readStockLevel(source, id);
+  if (!level) return 0;
+  const held = await getHeldQuantities([level.docId], options);
+  return Math.max(0, level.stock - (held.get(level.docId) ?? 0));
+}
+
+/**
+ * Holds stock for a checkout. The hold is written first and then checked against
+ * stock including every other active hold, so two checkouts racing for the last
+ * unit can't both succeed (at worst both are turned away and can retry).
+ *
+ * Returns the reservation id, or the shortages when the cart can't be held.
+ */
+export async function reserveStock(
+  lines: StockLine[]
+): Promise<{ reservationId: string | null; shortages: StockShortage[] }> {
+  const shortages: StockShortage[] = [];
+  const items: IReservationItem[] = [];
+  const stockByDoc = new Map<string, number>();
+  const lineByDoc = new Map<string, StockLine>();
+
+  for (const line of lines) {
+    const level = await readStockLevel(line.source, line.id);
+    if (!level) {
+      shortages.push({ id: line.id, name: line.name ?? line.id, requested: line.qty, available: 0, source: line.source });
+      continue;
+    }
+    stockByDoc.set(level.docId, level.stock);
+    if (!lineByDoc.has(level.docId)) lineByDoc.set(level.docId, line);
+    const existing = items.find((it) => it.id === level.docId);
+    if (existing) existing.qty += line.qty;
+    else items.push({ id: level.docId, qty: line.qty, source: line.source });
+  }
+
+  if (shortages.length > 0) return { reservationId: null, shortages };
+  if (items.length === 0) return { reservationId: null, shortages };
+
+  const reservation = await Reservation.create({
+    items,
+    status: 'reserved',
+    expiresAt: new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000),
+  });
+
+  const held = await getHeldQuantities(items.map((it) => it.id));
+  for (const item of items) {
+    const stock = stockByDoc.get(item.id) ?? 0;
+    const heldTotal = held.get(item.id) ?? item.qty;
+    if (heldTotal > stock) {
+      const line = lineByDoc.get(item.id);
+      shortages.push({
+        id: line?.id ?? item.id,
+        name: line?.name ?? item.id,
+        requested: item.qty,
+        available: Math.max(0, stock - (heldTotal - item.qty)),
+        source: item.source,
+      });
+    }
+  }
+
+  if (shortages.length > 0) {
+    await Reservation.updateOne(
+      { _id: reservation._id },
+      { $set: { status: 'released', releasedReason: 'insufficient_stock', releasedAt: new Date() } }
+    ).exec();
+    return { reservationId: null, shortages };
+  }
+
+  return { reservationId: String(reservation._id), shortages };
+}
+
+/**
+ * Links a hold to the PaymentIntent created for it. Returns false when that
+ * PaymentIntent already has a hold (an idempotent replay of the same request).
+ */
+export async function attachPaymentIntent(reservationId: string, paymentIntentId: string): Promise<boolean> {
+  const existing = await Reservation.exists({ paymentIntentId, _id: { $ne: reservationId } });
+  if (existing) return false;
+  await Reservation.updateOne({ _id: reservationId }, { $set: { paymentIntentId } }).exec();
+  return true;
+}
+
+/** Gives a hold back (cancelled or failed payment, abandoned cart). No-op once consumed. */
+export async function releaseReservation(
+  ref: { paymentIntentId?: string; reservationId?: string },
+  reason: string
+): Promise<boolean> {
+  const filter: Record<string, unknown> = { status: 'reserved' };
+  if (ref.reservationId && mongoose.Types.ObjectId.isValid(ref.reservationId)) filter._id = ref.reservationId;
+  else if (ref.paymentIntentId) filter.paymentIntentId = ref.paymentIntentId;
+  else return false;
+
+  const res = await Reservation.updateOne(filter, {
+    $set: { status: 'released', releasedReason: reason, releasedAt: new Date() },
+  }).exec();
+  return res.modifiedCount > 0;
+}
+
+/**
+ * Marks holds that ran out without being paid or released as released. Expired
+ * holds already count for nothing in getHeldQuantities; this closes them off so
+ * the cleanup index can remove them.
+ */
+export async function releaseExpiredReservations(now = new Date()): Promise<number> {
+  const res = await Reservation.updateMany(
+    { status: 'reserved', expiresAt: { $lte: now } },
+    { $set: { status: 'released', releasedReason: 'expired', releasedAt: now } }
+  ).exec();
+  return res.modifiedCount;
+}
+
+/**
+ * One-off migration: deployments from before the cleanup index still have the old
+ * TTL index on expiresAt, which Mongoose doesn't drop. It deletes holds as soon as
+ * they expire, consumed ones included, while fulfilment may still look them up.
+ * Run by the release-stale-reservations job; returns whether it dropped anything.
+ */
+export async function dropLegacyReservationTtlIndex(): Promise<boolean> {
+  let indexes: { name?: string; key: Record<string, unknown>; expireAfterSeconds?: number }[];
+  try {
+    indexes = await Reservation.collection.indexes();
+  } catch (err) {
+    // No reservations collection yet, so no old index either
+    if ((err as { code?: number }).code === 26) return false;
+    throw err;
+  }
+  const legacy = indexes.find(
+    (ix) => ix.expireAfterSeconds !== undefined && Object.keys(ix.key).length === 1 && ix.key.expiresAt !== undefined
+  );
+  if (!legacy?.name) return false;
+  await Reservation.collection.dropIndex(legacy.name);
+  console.log(`[Reservations] Dropped the old TTL index ${legacy.name}`);
+  return true;
+}
+
+/**
+ * Marks the hold for a paid PaymentIntent as used, recording the stock taken.
+ * Runs inside the fulfilment transaction; returns false when there was no
+ * active hold (expired or released before the payment landed).
+ */
+export async function consumeReservation(
+  paymentIntentId: string,
+  stockChanges: IReservationStockChange[],
+  session?: mongoose.ClientSession | null
+): Promise<boolean> {
+  const res = await Reservation.updateOne(
+    { paymentIntentId, status: 'reserved' },
+    {
+      $set: { status: 'consumed', stockChanges, consumedAt: new Date() },
+      $unset: { expiresAt: 1 },
+    },
+    { session: session ?? undefined }
+  ).exec();
+  return res.modifiedCount > 0;
+}
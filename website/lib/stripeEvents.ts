@@ -0,0 +1,308 @@
+import { NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import mongoose from 'mongoose';
+import Order from '@/models/Order';
+import StripeEvent, { IStripeEvent, StripeEventSource, StripeEventStatus } from '@/models/StripeEvent';
+import { orderCircuitBreaker } from '@/lib/circuitBreaker';
+import { handlePaymentIntentSucceeded, getErrorMessage } from '@/lib/orderFulfilment';
+import { releaseReservation } from '@/lib/stockReservations';
+import { markPaymentProcessing, markPaymentUnsuccessful, recordDisputeClosed, recordDisputeOpened } from '@/lib/paymentLifecycle';
+import { handleBookingPaymentEvent, isBookingPaymentIntent } from '@/lib/classBookings';
+import dbConnect from '@/lib/dbConnect';
+
+/*
+ * Every verified Stripe event is stored in StripeEvent before it is handled, with
+ * the outcome of each attempt. A failed event can be replayed from the admin:
+ * the handlers are idempotent (fulfilment stops at an order that is already paid),
+ * so running an event again is safe. Events can also be loaded from a JSON export
+ * for local testing.
+ */
+
+// A "processing" event older than this is assumed to have died mid-way
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+const MAX_HISTORY = 20;
+
+export type StripeEventOutcome = { status: StripeEventStatus; response: Response };
+
+function objectRefs(event: Stripe.Event) {
+  const obj = (event.data?.object ?? {}) as { id?: string; object?: string; payment_intent?: unknown };
+  const paymentIntentId =
+    obj.object === 'payment_intent'
+      ? obj.id ?? null
+      : typeof obj.payment_intent === 'string'
+      ? obj.payment_intent
+      : (obj.payment_intent as { id?: string } | null)?.id ?? null;
+  return { objectId: obj.id ?? null, paymentIntentId };
+}
+
+/** Stores the event if we haven't seen it; returns the stored record either way */
+export async function recordStripeEvent(event: Stripe.Event, source: StripeEventSource): Promise<IStripeEvent> {
+  const refs = objectRefs(event);
+  const record = await StripeEvent.findOneAndUpdate(
+    { eventId: event.id },
+    {
+      $setOnInsert: {
+        eventId: event.id,
+        type: event.type,
+        livemode: !!event.livemode,
+        apiVersion: event.api_version ?? null,
+        stripeCreatedAt: event.created ? new Date(event.created * 1000) : null,
+        objectId: refs.objectId,
+        paymentIntentId: refs.paymentIntentId,
+        payload: event as unknown as Record<string, unknown>,
+        receivedVia: source,
+        status: 'pending',
+      },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).exec();
+  return record as IStripeEvent;
+}
+
+/* ----------------------------- Dispatch ---------------------------------- */
+
+/**
+ * Runs the handler for one event. Returns the handler's response and whether the
+ * event type is one we act on.
+ */
+async function dispatchStripeEvent(event: Stripe.Event, stripe: Stripe): Promise<{ handled: boolean; response: Response }> {
+  // Class bookings have no order behind them
+  if (event.type.startsWith('payment_intent.') && isBookingPaymentIntent(event.data.object as Stripe.PaymentIntent)) {
+    await dbConnect();
+    await handleBookingPaymentEvent(event.type, event.data.object as Stripe.PaymentIntent);
+    return { handled: true, response: NextResponse.json({ received: true }, { status: 200 }) };
+  }
+
+  if (event.type === 'payment_intent.succeeded') {
+    const response = await orderCircuitBreaker.execute(async () => {
+      return await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent, event.id, stripe);
+    });
+    return { handled: true, response };
+  }
+
+  if (event.type === 'payment_intent.processing') {
+    await dbConnect();
+    await markPaymentProcessing(event.data.object as Stripe.PaymentIntent);
+    return { handled: true, response: NextResponse.json({ received: true }, { status: 200 }) };
+  }
+
+  // Give back the stock held for a checkout that won't be paid
+  if (event.type === 'payment_intent.canceled' || event.type === 'payment_intent.payment_failed') {
+    const pi = event.data.object as Stripe.PaymentIntent;
+    // Gift card checkouts cancel their PI on purpose; fulfilment has consumed the hold
+    if (pi.metadata?.giftCardCheckout === 'true') {
+      return { handled: true, response: NextResponse.json({ received: true }, { status: 200 }) };
+    }
+    await dbConnect();
+    try {
+      const released = await releaseReservation({ paymentIntentId: pi.id }, event.type.replace('payment_intent.', ''));
+      console.log(`Stock hold for ${pi.id} ${released ? 'released' : 'already released or consumed'}`);
+    } catch (e: unknown) {
+      // The hold expires on its own; don't make Stripe retry for this
+      console.warn('Failed to release stock hold:', getErrorMessage(e));
+    }
+    await markPaymentUnsuccessful(pi, event.type === 'payment_intent.canceled' ? 'cancelled' : 'failed');
+    return { handled: true, response: NextResponse.json({ received: true }, { status: 200 }) };
+  }
+
+  if (event.type === 'charge.dispute.created' || event.type === 'charge.dispute.closed') {
+    await dbConnect();
+    const dispute = event.data.object as Stripe.Dispute;
+    if (event.type === 'charge.dispute.created') await recordDisputeOpened(dispute, stripe);
+    else await recordDisputeClosed(dispute, stripe);
+    return { handled: true, response: NextResponse.json({ received: true }, { status: 200 }) };
+  }
+
+  // Optionally handle refunds/charge updates to sync orders
+  if (event.type === 'charge.refunded' || event.type === 'refund.updated') {
+    const obj = event.data.object as Stripe.Charge | Stripe.Refund;
+    const piId = obj.payment_intent as string;
+    if (piId) {
+      const order = await Order.findOne({ paymentIntentId: piId }).exec();
+      if (order) {
+        await Order.updateOne(
+          { _id: order._id },
+          {
+            $set: {
+              'metadata.lastStripeEvent': event.type,
+              'metadata.lastStripeEventId': event.id,
+              'metadata.lastStripeEventAt': new Date().toISOString(),
+            },
+          }
+        ).exec();
+      }
+    }
+    return { handled: true, response: NextResponse.json({ received: true }, { status: 200 }) };
+  }
+
+  console.log('Event type not handled:', event.type);
+  return { handled: false, response: NextResponse.json({ received: true }, { status: 200 }) };
+}
+
+async function responseError(response: Response): Promise<string> {
+  const body = (await response.clone().json().catch(() => null)) as { error?: unknown; message?: unknown } | null;
+  const detail = body?.error ?? body?.message;
+  return typeof detail === 'string' ? detail : `Handler returned ${response.status}`;
+}
+
+/**
+ * Handles an event and records the attempt on its StripeEvent. Handler errors are
+ * caught and turned into the response Stripe should get (503 while the circuit
+ * breaker is open, so Stripe retries later).
+ */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  stripe: Stripe,
+  opts: { source: StripeEventSource; by?: string | null }
+): Promise<StripeEventOutcome> {
+  const startedAt = Date.now();
+  try {
+    await StripeEvent.updateOne(
+      { eventId: event.id },
+      { $set: { status: 'processing', lastAttemptAt: new Date() }, $inc: { attempts: 1 } }
+    ).exec();
+  } catch (err: unknown) {
+    console.error('Failed to mark Stripe event as processing:', getErrorMessage(err));
+  }
+
+  let status: StripeEventStatus;
+  let response: Response;
+  let error: string | null = null;
+  try {
+    const result = await dispatchStripeEvent(event, stripe);
+    response = result.response;
+    if (response.status >= 400) {
+      status = 'failed';
+      error = await responseError(response);
+    } else {
+      status = result.handled ? 'processed' : 'ignored';
+    }
+  } catch (err: unknown) {
+    console.error('❌ Webhook handler error:', getErrorMessage(err));
+    status = 'failed';
+    error = getErrorMessage(err);
+    response = error.toLowerCase().includes('circuit breaker is open')
+      ? new Response('System temporarily unavailable', { status: 503 })
+      : new Response('Webhook handler error', { status: 500 });
+  }
+
+  try {
+    await StripeEvent.updateOne(
+      { eventId: event.id },
+      {
+        $set: {
+          status,
+          lastError: error,
+          ...(status === 'processed' || status === 'ignored' ? { processedAt: new Date() } : {}),
+        },
+        $push: {
+          history: {
+            $each: [
+              {
+                at: new Date(),
+                source: opts.source,
+                by: opts.by ?? null,
+                status,
+                httpStatus: response.status,
+                error,
+                durationMs: Date.now() - startedAt,
+              },
+            ],
+            $slice: -MAX_HISTORY,
+          },
+        },
+      }
+    ).exec();
+  } catch (err: unknown) {
+    console.error('Failed to record Stripe event outcome:', getErrorMessage(err));
+  }
+
+  return { status, response };
+}
+
+/* ----------------------------- Replay & backfill ---------------------------------- */
+
+export type ReplayResult =
+  | { ok: true; event: IStripeEvent | null; httpStatus: number }
+  | { ok: false; status: number; error: string };
+
+export async function replayStripeEvent(id: string, stripe: Stripe, by: string): Promise<ReplayResult> {
+  const filter = mongoose.Types.ObjectId.isValid(id) ? { _id: id } : { eventId: id };
+  const record = await StripeEvent.findOne(filter).exec();
+  if (!record) return { ok: false, status: 404, error: 'Event not found' };
+
+  const startedRecently =
+    record.status === 'processing' &&
+    record.lastAttemptAt &&
+    Date.now() - new Date(record.lastAttemptAt).getTime() < STALE_PROCESSING_MS;
+  if (startedRecently) {
+    return { ok: false, status: 409, error: 'This event is being processed right now. Try again in a few minutes.' };
+  }
+
+  const event = record.payload as unknown as Stripe.Event;
+  const outcome = await processStripeEvent(event, stripe, { source: 'replay', by });
+  const updated = await StripeEvent.findById(record._id).exec();
+  return { ok: true, event: updated, httpStatus: outcome.response.status };
+}
+
+function looksLikeEvent(raw: unknown): raw is Stripe.Event {
+  if (!raw || typeof raw !== 'object') return false;
+  const e = raw as Record<string, unknown>;
+  return (
+    typeof e.id === 'string' &&
+    e.id.startsWith('evt_') &&
+    typeof e.type === 'string' &&
+    !!e.data &&
+    typeof (e.data as Record<string, unknown>).object === 'object'
+  );
+}
+
+export type BackfillSummary = {
+  received: number;
+  inserted: number;
+  duplicates: number;
+  invalid: number;
+  processed: number;
+  failed: number;
+};
+
+/**
+ * Loads events from a JSON export (an array of events, or Stripe's list response
+ * `{ data: [...] }`). New events are stored as pending and, with `process`, handled
+ * oldest first.
+ */
+export async function backfillStripeEvents(
+  raw: unknown,
+  stripe: Stripe,
+  opts: { process: boolean; by: string }
+): Promise<BackfillSummary> {
+  const list: unknown[] = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object' && Array.isArray((raw as { data?: unknown }).data)
+    ? ((raw as { data: unknown[] }).data)
+    : [];
+
+  const summary: BackfillSummary = { received: list.length, inserted: 0, duplicates: 0, invalid: 0, processed: 0, failed: 0 };
+  const events = list.filter((e): e is Stripe.Event => {
+    const ok = looksLikeEvent(e);
+    if (!ok) summary.invalid += 1;
+    return ok;
+  });
+  events.sort((a, b) => (a.created ?? 0) - (b.created ?? 0));
+
+  for (const event of events) {
+    const existed = await StripeEvent.exists({ eventId: event.id });
+    if (existed) {
+      summary.duplicates += 1;
+      continue;
+    }
+    await recordStripeEvent(event, 'backfill');
+    summary.inserted += 1;
+    if (!opts.process) continue;
+    const outcome = await processStripeEvent(event, stripe, { source: 'backfill', by: opts.by });
+    if (outcome.status === 'failed') summary.failed += 1;
+    else summary.processed += 1;
+  }
+
+  return summary;
+}
@@ -0,0 +1,28 @@
+/*
+ * Stripe caps each metadata value at 500 characters (and a PaymentIntent at 50
+ * keys). Values that can run longer, like a cart's items, are split across
+ * numbered keys: `items`, `items_1`, `items_2`, ... and joined back on read.
+ */
+
+export const STRIPE_METADATA_VALUE_LIMIT = 500;
+// Leaves room under the 50-key limit for the other keys (gift card recipients take up to 10)
+const MAX_PARTS = 10;
+
+/** Metadata entries for `value` under `key`, split to fit Stripe's limit */
+export function splitMetadataValue(key: string, value: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (let i = 0; i * STRIPE_METADATA_VALUE_LIMIT < value.length || i === 0; i++) {
+    if (i === MAX_PARTS) throw new Error(`Metadata value for "${key}" is too long to store on the payment`);
+    parts[i === 0 ? key : `${key}_${i}`] = value.slice(i * STRIPE_METADATA_VALUE_LIMIT, (i + 1) * STRIPE_METADATA_VALUE_LIMIT);
+  }
+  return parts;
+}
+
+/** The value written by splitMetadataValue; plain single-key values read back as they are */
+export function joinMetadataValue(metadata: Record<string, string | undefined>, key: string): string | undefined {
+  const first = metadata[key];
+  if (first === undefined) return undefined;
+  let value = first;
+  for (let i = 1; i < MAX_PARTS && metadata[`${key}_${i}`] !== undefined; i++) value += metadata[`${key}_${i}`];
+  return value;
+}
@@ -0,0 +1,491 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Stripe from 'stripe';
+import Subscription, {
+  ISubscription,
+  ISubscriptionAddress,
+  SubscriptionCadence,
+} from '@/models/Subscription';
+import CoffeeVariant from '@/models/CoffeeVariant';
+import Coffee from '@/models/Coffee';
+import { selectShippingOption } from '@/lib/shipping';
+import { quoteShipping } from '@/lib/shippingQuote';
+import { notifySubscriptionToCustomer } from '@/lib/notifySubscription';
+import { calculateVat, defaultTaxCategory, isTaxCategory } from '@/lib/vat';
+
+/* ----------------------------- Types ---------------------------------- */
+export const SUBSCRIPTION_CADENCES: SubscriptionCadence[] = ['weekly', 'fortnightly', 'monthly'];
+
+export type SubscriptionAction = 'skip_next' | 'unskip' | 'pause' | 'resume' | 'swap' | 'cancel';
+
+export const SUBSCRIPTION_ACTIONS: SubscriptionAction[] = ['skip_next', 'unskip', 'pause', 'resume', 'swap', 'cancel'];
+
+// Paid checkout line that carries a cadence (see create-payment-intent metadata)
+export interface SubscriptionOrderLine {
+  id: string;
+  name: string;
+  qty: number;
+  unitPrice: number;
+  source?: string;
+  roastType?: string;
+  cadence?: string;
+}
+
+export type RenewalOutcome =
+  | { status: 'charged'; paymentIntentId: string }
+  | { status: 'skipped' }
+  | { status: 'not_due' }
+  | { status: 'failed'; error: string };
+
+interface VariantLean {
+  _id: mongoose.Types.ObjectId;
+  coffeeId?: mongoose.Types.ObjectId;
+  size?: string;
+  grind?: string;
+  roastType?: string;
+  price?: number;
+  stock?: number;
+  taxCategory?: string;
+}
+
+// Renewal attempts before a subscription is marked past_due
+const MAX_RENEWAL_ATTEMPTS = 3;
+const RENEWAL_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/* -------------------------- Helpers ---------------------------------- */
+export function isSubscriptionCadence(value: unknown): value is SubscriptionCadence {
+  return typeof value === 'string' && SUBSCRIPTION_CADENCES.includes(value as SubscriptionCadence);
+}
+
+export function nextRenewalDate(from: Date, cadence: SubscriptionCadence): Date {
+  const next = new Date(from);
+  if (cadence === 'weekly') next.setDate(next.getDate() + 7);
+  else if (cadence === 'fortnightly') next.setDate(next.getDate() + 14);
+  else next.setMonth(next.getMonth() + 1);
+  return next;
+}
+
+function getErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function pickAddress(raw: unknown): ISubscriptionAddress | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const src = raw as Record<string, unknown>;
+  const out: ISubscriptionAddress = {};
+  for (const key of ['firstName', 'lastName', 'email', 'phone', 'unit', 'line1', 'city', 'postcode', 'country'] as const) {
+    if (typeof src[key] === 'string' && (src[key] as string).trim()) out[key] = (src[key] as string).trim();
+  }
+  return Object.keys(out).length ? out : null;
+}
+
+async function describeVariant(variantId: string) {
+  const variant = (await CoffeeVariant.findById(variantId).lean().exec()) as unknown as VariantLean | null;
+  if (!variant) return null;
+  const coffee = variant.coffeeId
+    ? ((await Coffee.findById(variant.coffeeId).select('name').lean().exec()) as unknown as { name?: string } | null)
+    : null;
+  const productName = [coffee?.name ?? 'Coffee', variant.size, variant.grind].filter(Boolean).join(' — ');
+  return { variant, productName };
+}
+
+/* ------------------------ Checkout → subscription ------------------------ */
+
+/**
+ * Create one subscription per paid checkout line that carries a cadence.
+ * The first delivery is the order that was just paid, so the first renewal
+ * is one cadence from now. Idempotent per PaymentIntent line.
+ */
+export async function createSubscriptionsFromOrder(input: {
+  stripe: Stripe;
+  paymentIntent: Stripe.PaymentIntent;
+  orderId: mongoose.Types.ObjectId | string;
+  items: SubscriptionOrderLine[];
+  client?: Record<string, unknown> | null;
+  clientId?: mongoose.Types.ObjectId | string | null;
+  shippingAddress?: unknown;
+  billingAddress?: unknown;
+}): Promise<ISubscription[]> {
+  const lines = input.items.filter((it) => isSubscriptionCadence(it.cadence));
+  if (lines.length === 0) return [];
+
+  const pi = input.paymentIntent;
+  const customerId = typeof pi.customer === 'string' ? pi.customer : pi.customer?.id;
+  const paymentMethodId = typeof pi.payment_method === 'string' ? pi.payment_method : pi.payment_method?.id;
+  if (!customerId || !paymentMethodId) {
+    throw new Error(`PaymentIntent ${pi.id} has subscription lines but no saved customer/payment method`);
+  }
+
+  const shippingAddress = pickAddress(input.shippingAddress);
+  const billingAddress = pickAddress(input.billingAddress);
+  const email =
+    (typeof input.client?.email === 'string' ? input.client.email : null) || shippingAddress?.email || null;
+  if (!email) throw new Error(`PaymentIntent ${pi.id} has subscription lines but no customer email`);
+
+  const name =
+    (typeof input.client?.name === 'string' ? input.client.name : null) ||
+    [shippingAddress?.firstName, shippingAddress?.lastName].filter(Boolean).join(' ') ||
+    null;
+
+  // Keep the Stripe customer recognisable in the dashboard (best-effort)
+  try {
+    await input.stripe.customers.update(customerId, { email, ...(name ? { name } : {}) });
+  } catch (err) {
+    console.warn('Failed to update Stripe customer for subscription (non-fatal):', getErrorMessage(err));
+  }
+
+  const created: ISubscription[] = [];
+  for (const line of lines) {
+    const cadence = line.cadence as SubscriptionCadence;
+    const described = await describeVariant(line.id);
+    try {
+      const sub = await Subscription.create({
+        email,
+        name,
+        phone: typeof input.client?.phone === 'string' ? input.client.phone : shippingAddress?.phone ?? null,
+        clientId: input.clientId ?? null,
+        stripeCustomerId: customerId,
+        stripePaymentMethodId: paymentMethodId,
+        variantId: line.id,
+        coffeeId: described?.variant.coffeeId ?? null,
+        productName: described?.productName ?? line.name,
+        size: described?.variant.size,
+        grind: described?.variant.grind,
+        roastType: line.roastType ?? described?.variant.roastType,
+        quantity: line.qty,
+        unitPrice: line.unitPrice,
+        cadence,
+        status: 'active',
+        nextRenewalAt: nextRenewalDate(new Date(), cadence),
+        shippingAddress,
+        billingAddress,
+        sourcePaymentIntentId: pi.id,
+        sourceOrderId: input.orderId,
+        manageToken: crypto.randomBytes(24).toString('hex'),
+      });
+      created.push(sub);
+    } catch (err) {
+      if ((err as { code?: number })?.code === 11000) continue; // already created by an earlier delivery
+      throw err;
+    }
+  }
+
+  for (const sub of created) {
+    const result = await notifySubscriptionToCustomer({ subscription: sub, kind: 'created' });
+    if (!result.sent) console.warn('Subscription confirmation email not sent:', result.error);
+  }
+
+  return created;
+}
+
+/**
+ * Called by the webhook once a renewal PaymentIntent has produced a paid order.
+ */
+export async function recordSubscriptionRenewal(
+  subscriptionId: string,
+  orderId: mongoose.Types.ObjectId | string,
+  paymentIntentId: string
+): Promise<void> {
+  if (!mongoose.Types.ObjectId.isValid(subscriptionId)) return;
+  await Subscription.updateOne(
+    { _id: subscriptionId, lastOrderId: { $ne: orderId } },
+    {
+      $set: {
+        lastOrderId: orderId,
+        lastPaymentIntentId: paymentIntentId,
+        lastRenewalAt: new Date(),
+        failedAttempts: 0,
+        lastError: null,
+      },
+      $inc: { renewalCount: 1 },
+    }
+  ).exec();
+}
+
+/* ----------------------------- Renewals ----------------------------------- */
+
+async function recordRenewalFailure(sub: ISubscription, error: string): Promise<void> {
+  const attempts = (sub.failedAttempts ?? 0) + 1;
+  const pastDue = attempts >= MAX_RENEWAL_ATTEMPTS;
+  await Subscription.updateOne(
+    { _id: sub._id },
+    {
+      $set: {
+        failedAttempts: attempts,
+        lastError: error,
+        nextRenewalAt: new Date(Date.now() + RENEWAL_RETRY_DELAY_MS),
+        ...(pastDue ? { status: 'past_due' } : {}),
+      },
+    }
+  ).exec();
+
+  if (pastDue) {
+    const result = await notifySubscriptionToCustomer({ subscription: sub, kind: 'payment_failed' });
+    if (!result.sent) console.warn('Subscription payment-failed email not sent:', result.error);
+  }
+}
+
+/**
+ * Charge one due subscription off-session. The renewal PaymentIntent carries
+ * the same metadata as a checkout, so the payment_intent.succeeded webhook
+ * creates the order, decrements stock and sends the invoice as usual.
+ */
+export async function chargeSubscriptionRenewal(
+  stripe: Stripe,
+  subscriptionId: string,
+  now = new Date()
+): Promise<RenewalOutcome> {
+  const sub = await Subscription.findById(subscriptionId).exec();
+  if (!sub || sub.status !== 'active' || sub.nextRenewalAt > now) return { status: 'not_due' };
+
+  const dueAt = sub.nextRenewalAt;
+  const next = nextRenewalDate(dueAt, sub.cadence);
+
+  // Claim this cycle by moving nextRenewalAt on; a concurrent run sees no match and backs off
+  const claimed = await Subscription.findOneAndUpdate(
+    { _id: sub._id, status: 'active', nextRenewalAt: dueAt },
+    { $set: { nextRenewalAt: next, skipNext: false } },
+    { new: true }
+  ).exec();
+  if (!claimed) return { status: 'not_due' };
+
+  if (sub.skipNext) {
+    console.log(`Subscription ${sub._id.toString()} skipped renewal due ${dueAt.toISOString()}`);
+    return { status: 'skipped' };
+  }
+
+  const described = await describeVariant(sub.variantId.toString());
+  if (!described) {
+    const error = 'Subscribed coffee is no longer available';
+    await recordRenewalFailure(claimed, error);
+    return { status: 'failed', error };
+  }
+  const { variant } = described;
+  if ((variant.stock ?? 0) < sub.quantity) {
+    const error = `Insufficient stock for ${described.productName}`;
+    await recordRenewalFailure(claimed, error);
+    return { status: 'failed', error };
+  }
+
+  const unitPrice = Number((variant.price ?? sub.unitPrice).toFixed(2));
+  const subtotal = Number((unitPrice * sub.quantity).toFixed(2));
+  const quote = await quoteShipping({
+    lines: [{ id: sub.variantId.toString(), quantity: sub.quantity, source: 'variant' }],
+    subtotalPence: Math.round(subtotal * 100),
+    destination: { postcode: sub.shippingAddress?.postcode, country: sub.shippingAddress?.country },
+  });
+  // Renewals ship standard, or the cheapest service on offer if standard isn't available there
+  const shippingOption = selectShippingOption(quote.options, 'standard');
+  if (!shippingOption) {
+    const error = 'We no longer deliver to the saved address';
+    await recordRenewalFailure(claimed, error);
+    return { status: 'failed', error };
+  }
+  const shipping = Number((shippingOption.pricePence / 100).toFixed(2));
+  const total = Number((subtotal + shipping).toFixed(2));
+  const taxCategory = isTaxCategory(variant.taxCategory) ? variant.taxCategory : defaultTaxCategory('variant');
+  const vat = calculateVat([{ totalPrice: subtotal, taxCategory }], { shipping });
+
+  const metadata: Record<string, string> = {
+    items: JSON.stringify([
+      {
+        id: sub.variantId.toString(),
+        name: described.productName,
+        qty: sub.quantity,
+        unitPrice,
+        totalPrice: subtotal,
+        source: 'variant',
+        taxCategory,
+        vat: vat.lineVat[0],
+        ...(sub.roastType ? { roastType: sub.roastType } : {}),
+      },
+    ]),
+    subtotal: subtotal.toFixed(2),
+    shipping: shipping.toFixed(2),
+    shippingService: shippingOption.service,
+    shippingZone: shippingOption.zone,
+    total: total.toFixed(2),
+    vat: vat.totalVat.toFixed(2),
+    client: JSON.stringify({ name: sub.name ?? undefined, email: sub.email, phone: sub.phone ?? undefined }),
+    subscriptionId: sub._id.toString(),
+    subscriptionRenewal: 'true',
+  };
+  if (sub.shippingAddress) metadata.shippingAddress = JSON.stringify(sub.shippingAddress);
+  if (sub.billingAddress) metadata.billingAddress = JSON.stringify(sub.billingAddress);
+
+  try {
+    const pi = await stripe.paymentIntents.create(
+      {
+        amount: Math.round(total * 100),
+        currency: 'gbp',
+        customer: sub.stripeCustomerId,
+        payment_method: sub.stripePaymentMethodId,
+        off_session: true,
+        confirm: true,
+        metadata,
+      },
+      { idempotencyKey: `subscription-renewal-${sub._id.toString()}-${dueAt.getTime()}` }
+    );
+
+    await Subscription.updateOne(
+      { _id: sub._id },
+      { $set: { lastPaymentIntentId: pi.id, unitPrice, productName: described.productName } }
+    ).exec();
+
+    if (pi.status !== 'succeeded' && pi.status !== 'processing') {
+      const error = `Renewal payment needs attention (status ${pi.status})`;
+      await recordRenewalFailure(claimed, error);
+      return { status: 'failed', error };
+    }
+    return { status: 'charged', paymentIntentId: pi.id };
+  } catch (err) {
+    const error = getErrorMessage(err);
+    console.error(`Subscription ${sub._id.toString()} renewal charge failed:`, error);
+    await recordRenewalFailure(claimed, error);
+    return { status: 'failed', error };
+  }
+}
+
+/**
+ * Charge every active subscription whose renewal is due. Returns per-status counts.
+ * Stops at `deadline` (a Date.now() timestamp) with `unfinished` set if any are left.
+ */
+export async function runDueSubscriptionRenewals(stripe: Stripe, now = new Date(), deadline = Infinity) {
+  const due = await Subscription.find({ status: 'active', nextRenewalAt: { $lte: now } })
+    .select('_id')
+    .sort({ nextRenewalAt: 1 })
+    .lean()
+    .exec();
+
+  const summary = {
+    due: due.length,
+    charged: 0,
+    skipped: 0,
+    failed: 0,
+    unfinished: false,
+    errors: [] as { id: string; error: string }[],
+  };
+  for (const { _id } of due) {
+    if (Date.now() > deadline) {
+      summary.unfinished = true;
+      break;
+    }
+    const id = String(_id);
+    const outcome = await chargeSubscriptionRenewal(stripe, id, now);
+    if (outcome.status === 'charged') summary.charged++;
+    else if (outcome.status === 'skipped') summary.skipped++;
+    else if (outcome.status === 'failed') {
+      summary.failed++;
+      summary.errors.push({ id, error: outcome.error });
+    }
+  }
+  return summary;
+}
+
+/* ------------------------- Customer / admin actions ------------------------- */
+
+/**
+ * Apply a self-service or admin action. Throws an Error with a user-facing
+ * message when the action is not allowed in the current state.
+ */
+export async function applySubscriptionAction(
+  sub: ISubscription,
+  action: SubscriptionAction,
+  payload: { variantId?: unknown; cadence?: unknown; quantity?: unknown } = {}
+): Promise<ISubscription> {
+  if (sub.status === 'cancelled') throw new Error('This subscription has been cancelled');
+  const now = new Date();
+
+  switch (action) {
+    case 'skip_next':
+      if (sub.status !== 'active') throw new Error('Only active subscriptions can skip a delivery');
+      sub.skipNext = true;
+      break;
+
+    case 'unskip':
+      sub.skipNext = false;
+      break;
+
+    case 'pause':
+      if (sub.status === 'paused') throw new Error('Subscription is already paused');
+      sub.status = 'paused';
+      sub.pausedAt = now;
+      break;
+
+    case 'resume':
+      if (sub.status === 'active') throw new Error('Subscription is already active');
+      sub.status = 'active';
+      sub.pausedAt = null;
+      sub.failedAttempts = 0;
+      sub.lastError = null;
+      if (sub.nextRenewalAt < now) sub.nextRenewalAt = now;
+      break;
+
+    case 'swap': {
+      if (payload.variantId !== undefined) {
+        const variantId = String(payload.variantId);
+        if (!mongoose.Types.ObjectId.isValid(variantId)) throw new Error('Invalid coffee selection');
+        const described = await describeVariant(variantId);
+        if (!described) throw new Error('Selected coffee was not found');
+        sub.variantId = described.variant._id;
+        sub.coffeeId = described.variant.coffeeId ?? null;
+        sub.productName = described.productName;
+        sub.size = described.variant.size;
+        sub.grind = described.variant.grind;
+        sub.roastType = described.variant.roastType;
+        sub.unitPrice = Number(described.variant.price ?? sub.unitPrice);
+      }
+      if (payload.cadence !== undefined) {
+        if (!isSubscriptionCadence(payload.cadence)) throw new Error('Invalid delivery frequency');
+        sub.cadence = payload.cadence;
+      }
+      if (payload.quantity !== undefined) {
+        const qty = Number(payload.quantity);
+        if (!Number.isInteger(qty) || qty < 1 || qty > 20) throw new Error('Quantity must be between 1 and 20');
+        sub.quantity = qty;
+      }
+      break;
+    }
+
+    case 'cancel':
+      sub.status = 'cancelled';
+      sub.cancelledAt = now;
+      sub.skipNext = false;
+      break;
+
+    default:
+      throw new Error('Unknown action');
+  }
+
+  await sub.save();
+
+  if (action === 'cancel') {
+    const result = await notifySubscriptionToCustomer({ subscription: sub, kind: 'cancelled' });
+    if (!result.sent) console.warn('Subscription cancellation email not sent:', result.error);
+  }
+
+  return sub;
+}
+
+/** Public view of a subscription for the self-service page (no Stripe ids). */
+export function toCustomerSubscription(sub: ISubscription) {
+  return {
+    _id: sub._id.toString(),
+    email: sub.email,
+    name: sub.name,
+    productName: sub.productName,
+    variantId: sub.variantId.toString(),
+    coffeeId: sub.coffeeId ? sub.coffeeId.toString() : null,
+    size: sub.size,
+    grind: sub.grind,
+    roastType: sub.roastType,
+    quantity: sub.quantity,
+    unitPrice: sub.unitPrice,
+    cadence: sub.cadence,
+    status: sub.status,
+    nextRenewalAt: sub.nextRenewalAt,
+    skipNext: sub.skipNext,
+    shippingAddress: sub.shippingAddress,
+    createdAt: sub.createdAt,
+  };
+}
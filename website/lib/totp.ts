@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+
+/*
+ * Time-based one-time passwords (RFC 6238) for admin two-factor sign-in:
+ * 6 digits, 30 second steps, HMAC-SHA1 — what every authenticator app expects.
+ * Shared secrets are stored encrypted (AES-256-GCM) so a database dump alone
+ * can't be used to generate codes.
+ */
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const SECRET_BYTES = 20;
+// Accept the previous and next step too, for phones whose clocks drift a little
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** A new shared secret, base32 encoded for authenticator apps */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+function codeForStep(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+export function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * Checks a code against the secret. Returns the time step it matched, or null.
+ * Pass the last step accepted for this account as `afterStep` so the same code
+ * can't be used twice.
+ */
+export function verifyTotp(
+  secret: string,
+  code: unknown,
+  opts: { afterStep?: number | null; now?: number } = {}
+): number | null {
+  if (typeof code !== 'string') return null;
+  const digits = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(digits)) return null;
+
+  const key = base32Decode(secret);
+  const current = currentTotpStep(opts.now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (opts.afterStep != null && step <= opts.afterStep) continue;
+    const expected = codeForStep(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(digits))) return step;
+  }
+  return null;
+}
+
+/** The otpauth:// URI authenticator apps import (usually from a QR code) */
+export function otpauthUrl(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/* ----------------------------- Secret storage ---------------------------------- */
+
+function encryptionKey(): Buffer {
+  if (process.env.TOTP_ENCRYPTION_KEY) {
+    return crypto.createHash('sha256').update(process.env.TOTP_ENCRYPTION_KEY).digest();
+  }
+  const base = process.env.JWT_SECRET;
+  if (!base) throw new Error('TOTP_ENCRYPTION_KEY (or JWT_SECRET) is not configured');
+  return crypto.createHmac('sha256', base).update('totp-secret').digest();
+}
+
+/** iv.tag.ciphertext, each base64url */
+export function encryptTotpSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((b) => b.toString('base64url')).join('.');
+}
+
+export function decryptTotpSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64url'));
+  if (!iv || !tag || !encrypted) throw new Error('Stored TOTP secret is malformed');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/* ----------------------------- Recovery codes ---------------------------------- */
+
+const RECOVERY_CODE_COUNT = 10;
+
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/** Single-use backup codes shown once at enrolment, e.g. "k3f9-x2ma" */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(crypto.randomBytes(5)).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+}
@@ -0,0 +1,149 @@
+/*
+ * UK VAT. Shop prices include VAT, so VAT is taken out of each line's gross
+ * amount rather than added on top and totals never change. Coffee beans are
+ * zero-rated food, equipment and classes are standard-rated, and gift cards are
+ * outside the scope of VAT when sold (VAT is due on what they're spent on).
+ */
+
+export const TAX_CATEGORIES = ['standard', 'reduced', 'zero', 'outside_scope'] as const;
+export type TaxCategory = (typeof TAX_CATEGORIES)[number];
+
+/** Percentage rate per category */
+export const VAT_RATES: Record<TaxCategory, number> = {
+  standard: 20,
+  reduced: 5,
+  zero: 0,
+  outside_scope: 0,
+};
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+  standard: 'Standard rate (20%)',
+  reduced: 'Reduced rate (5%)',
+  zero: 'Zero rate (0%)',
+  outside_scope: 'Outside the scope of VAT',
+};
+
+// One letter per category where space is tight (order lines in Stripe metadata)
+export const TAX_CATEGORY_CODES: Record<TaxCategory, string> = {
+  standard: 'S',
+  reduced: 'R',
+  zero: 'Z',
+  outside_scope: 'O',
+};
+
+export function taxCategoryFromCode(code: unknown): TaxCategory | null {
+  const found = TAX_CATEGORIES.find((c) => TAX_CATEGORY_CODES[c] === code);
+  return found ?? null;
+}
+
+export function isTaxCategory(v: unknown): v is TaxCategory {
+  return typeof v === 'string' && (TAX_CATEGORIES as readonly string[]).includes(v);
+}
+
+/** Category for products that haven't been given one */
+export function defaultTaxCategory(source?: string | null): TaxCategory {
+  if (source === 'variant' || source === 'coffee') return 'zero';
+  if (source === 'gift_card') return 'outside_scope';
+  return 'standard';
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** VAT contained in a VAT-inclusive amount, e.g. £12.00 at 20% holds £2.00 */
+export function vatInGross(gross: number, ratePercent: number): number {
+  if (!(ratePercent > 0) || !(gross > 0)) return 0;
+  return round2((gross * ratePercent) / (100 + ratePercent));
+}
+
+export interface VatLine {
+  totalPrice: number; // GBP, VAT inclusive
+  taxCategory: TaxCategory;
+}
+
+export interface VatBreakdownRow {
+  rate: number;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface VatCalculation {
+  lineVat: number[]; // per input line, after the line's share of any discount
+  breakdown: VatBreakdownRow[]; // per rate, shipping included; outside-scope lines left out
+  totalVat: number;
+}
+
+/** Splits `amount` across `weights` pro rata, to the penny, remainder on the last share */
+function apportion(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((s, w) => s + w, 0);
+  if (amount <= 0 || totalWeight <= 0) return weights.map(() => 0);
+  let left = round2(amount);
+  return weights.map((w, i) => {
+    if (i === weights.length - 1) return left;
+    const share = round2((amount * w) / totalWeight);
+    left = round2(left - share);
+    return share;
+  });
+}
+
+/**
+ * VAT for an order. An order-level discount comes off the VAT-able lines pro rata,
+ * and shipping follows the goods it carries: it's split across the rates in the
+ * same proportions (standard-rated if there are no VAT-able goods).
+ */
+export function calculateVat(
+  lines: VatLine[],
+  options: { discount?: number; shipping?: number } = {}
+): VatCalculation {
+  const taxable = lines.map((l) => l.taxCategory !== 'outside_scope');
+  const taxableGross = lines.reduce((s, l, i) => (taxable[i] ? s + l.totalPrice : s), 0);
+  const discount = Math.min(Math.max(0, options.discount ?? 0), taxableGross);
+  const discountShares = apportion(
+    discount,
+    lines.map((l, i) => (taxable[i] ? l.totalPrice : 0))
+  );
+
+  const byRate = new Map<number, { gross: number; vat: number }>();
+  const addToRate = (rate: number, gross: number, vat: number) => {
+    const row = byRate.get(rate) ?? { gross: 0, vat: 0 };
+    row.gross = round2(row.gross + gross);
+    row.vat = round2(row.vat + vat);
+    byRate.set(rate, row);
+  };
+
+  const lineVat = lines.map((line, i) => {
+    if (!taxable[i]) return 0;
+    const rate = VAT_RATES[line.taxCategory];
+    const gross = round2(line.totalPrice - discountShares[i]);
+    const vat = vatInGross(gross, rate);
+    addToRate(rate, gross, vat);
+    return vat;
+  });
+
+  const shipping = Math.max(0, options.shipping ?? 0);
+  if (shipping > 0) {
+    const rates = [...byRate.keys()];
+    const weights = rates.map((r) => byRate.get(r)!.gross);
+    if (weights.some((w) => w > 0)) {
+      apportion(shipping, weights).forEach((share, i) => addToRate(rates[i], share, vatInGross(share, rates[i])));
+    } else {
+      const rate = VAT_RATES.standard;
+      addToRate(rate, shipping, vatInGross(shipping, rate));
+    }
+  }
+
+  const breakdown = [...byRate.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([rate, row]) => ({ rate, net: round2(row.gross - row.vat), vat: row.vat, gross: row.gross }));
+
+  return {
+    lineVat,
+    breakdown,
+    totalVat: round2(breakdown.reduce((s, r) => s + r.vat, 0)),
+  };
+}
+
+/** Rate for a line as stored on an order; older orders predate the field */
+export function lineTaxCategory(item: { taxCategory?: unknown; source?: string | null }): TaxCategory {
+  return isTaxCategory(item.taxCategory) ? item.taxCategory : defaultTaxCategory(item.source);
+}
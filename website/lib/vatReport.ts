@@ -0,0 +1,168 @@
+import Order from '@/models/Order';
+import Invoice from '@/models/Invoice';
+import CreditNote from '@/models/CreditNote';
+import { calculateVat, lineTaxCategory, type VatBreakdownRow } from '@/lib/vat';
+
+/*
+ * VAT summary for the admin: shop orders by the date they were paid and manual
+ * invoices by invoice date, totalled per rate. Every paid order counts, however
+ * it ended up; refunds come off in the period they were made instead. Credit
+ * notes take off their own VAT breakdown, and refunds without one (made before
+ * credit notes existed) take off the order's VAT pro rata. Refunds still waiting
+ * to be made by hand (`manual_` ids) wait for their credit note. Orders paid
+ * before VAT was recorded are worked out from their lines.
+ */
+
+export interface VatReportRow extends VatBreakdownRow {
+  documents: number; // orders and invoices with sales at this rate
+}
+
+export interface VatReport {
+  start: string;
+  end: string;
+  rows: VatReportRow[];
+  totals: { net: number; vat: number; gross: number };
+  outsideScope: number; // GBP of gift cards sold
+  orders: number;
+  invoices: number;
+  credits: number; // credit notes and older refunds taken off
+  recalculated: number; // orders with no stored VAT breakdown
+}
+
+type StoredLine = { totalPrice?: number; taxCategory?: unknown; source?: string | null };
+type StoredDoc = {
+  items?: StoredLine[];
+  shipping?: number;
+  discount?: number;
+  vatBreakdown?: VatBreakdownRow[];
+};
+type StoredRefund = { refundId?: string; amount?: number; refundedAt?: string };
+type StoredOrder = StoredDoc & {
+  total?: number;
+  metadata?: { refunds?: StoredRefund[]; refundId?: string; refundedAt?: string } | null;
+};
+
+// Paid orders, whatever happened to them afterwards
+const PAID_ORDER = { paidAt: { $ne: null }, status: { $nin: ['failed', 'cancelled'] } };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function breakdownFor(doc: StoredDoc): { rows: VatBreakdownRow[]; stored: boolean } {
+  if (Array.isArray(doc.vatBreakdown) && doc.vatBreakdown.length > 0) return { rows: doc.vatBreakdown, stored: true };
+  const items = doc.items ?? [];
+  const vat = calculateVat(
+    items.map((it) => ({ totalPrice: Number(it.totalPrice ?? 0), taxCategory: lineTaxCategory(it) })),
+    { discount: doc.discount ?? 0, shipping: doc.shipping ?? 0 }
+  );
+  return { rows: vat.breakdown, stored: false };
+}
+
+/** Refunds recorded on an order; older stock refunds only left a refundId for the whole order */
+function orderRefunds(order: StoredOrder): StoredRefund[] {
+  const meta = order.metadata ?? {};
+  if (Array.isArray(meta.refunds)) return meta.refunds;
+  if (meta.refundId) return [{ refundId: meta.refundId, amount: order.total, refundedAt: meta.refundedAt }];
+  return [];
+}
+
+export async function getVatReport(start: Date, end: Date): Promise<VatReport> {
+  // refundedAt is stored as an ISO string, which compares in date order
+  const inPeriod = { $gte: start.toISOString(), $lte: end.toISOString() };
+  const [orders, invoices, creditNotes, refundedOrders] = await Promise.all([
+    Order.find({ ...PAID_ORDER, paidAt: { $gte: start, $lte: end } })
+      .select('items shipping discount vatBreakdown')
+      .lean()
+      .exec(),
+    Invoice.find({ source: 'manual', createdAt: { $gte: start, $lte: end } })
+      .select('items shipping discount vatBreakdown')
+      .lean()
+      .exec(),
+    CreditNote.find({ createdAt: { $gte: start, $lte: end } })
+      .select('vatBreakdown')
+      .lean()
+      .exec(),
+    Order.find({
+      ...PAID_ORDER,
+      $or: [{ 'metadata.refunds.refundedAt': inPeriod }, { 'metadata.refundedAt': inPeriod }],
+    })
+      .select('items shipping discount vatBreakdown total metadata')
+      .lean()
+      .exec(),
+  ]);
+
+  const refunds = (refundedOrders as unknown as StoredOrder[]).flatMap((order) =>
+    orderRefunds(order)
+      .filter((r) => r.refundId && !r.refundId.startsWith('manual_'))
+      .filter((r) => r.refundedAt && r.refundedAt >= inPeriod.$gte && r.refundedAt <= inPeriod.$lte)
+      .map((r) => ({ order, refundId: r.refundId!, amount: Number(r.amount ?? 0) }))
+  );
+  // Refunds with a credit note are covered by it, whenever it was issued
+  const credited = new Set(
+    refunds.length > 0
+      ? (await CreditNote.find({ refundId: { $in: refunds.map((r) => r.refundId) } }).distinct('refundId').exec()).map(String)
+      : []
+  );
+  const uncredited = refunds.filter((r) => !credited.has(r.refundId));
+
+  const byRate = new Map<number, VatReportRow>();
+  let outsideScope = 0;
+  let recalculated = 0;
+
+  // sign -1 takes a credit off; documents only count sales
+  const add = (rows: VatBreakdownRow[], sign: 1 | -1 = 1) => {
+    for (const r of rows) {
+      const row = byRate.get(r.rate) ?? { rate: r.rate, net: 0, vat: 0, gross: 0, documents: 0 };
+      row.net = round2(row.net + sign * r.net);
+      row.vat = round2(row.vat + sign * r.vat);
+      row.gross = round2(row.gross + sign * r.gross);
+      if (sign === 1) row.documents += 1;
+      byRate.set(r.rate, row);
+    }
+  };
+
+  for (const order of orders as unknown as StoredDoc[]) {
+    const { rows, stored } = breakdownFor(order);
+    if (!stored) recalculated++;
+    add(rows);
+    for (const it of order.items ?? []) {
+      if (lineTaxCategory(it) === 'outside_scope') outsideScope = round2(outsideScope + Number(it.totalPrice ?? 0));
+    }
+  }
+  // Older manual invoice lines have no category and count as standard-rated
+  for (const invoice of invoices as unknown as StoredDoc[]) {
+    add(breakdownFor(invoice).rows);
+  }
+
+  for (const note of creditNotes as unknown as StoredDoc[]) {
+    add(note.vatBreakdown ?? [], -1);
+  }
+  for (const { order, amount } of uncredited) {
+    const total = Number(order.total ?? 0);
+    if (!(total > 0) || !(amount > 0)) continue;
+    const share = Math.min(1, amount / total);
+    const rows = breakdownFor(order).rows.map((r) => ({
+      rate: r.rate,
+      net: round2(r.net * share),
+      vat: round2(r.vat * share),
+      gross: round2(r.gross * share),
+    }));
+    add(rows, -1);
+  }
+
+  const rows = [...byRate.values()].sort((a, b) => b.rate - a.rate);
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    rows,
+    totals: {
+      net: round2(rows.reduce((s, r) => s + r.net, 0)),
+      vat: round2(rows.reduce((s, r) => s + r.vat, 0)),
+      gross: round2(rows.reduce((s, r) => s + r.gross, 0)),
+    },
+    outsideScope,
+    orders: orders.length,
+    invoices: invoices.length,
+    credits: creditNotes.length + uncredited.length,
+    recalculated,
+  };
+}
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// What an audit event is about. Keep in step with the entity filter on /admin/audit.
+export const AUDIT_ENTITY_TYPES = [
+  'order',
+  'return',
+  'coffee',
+  'variant',
+  'equipment',
+  'class',
+  'booking',
+  'client',
+  'invoice',
+  'post',
+  'offer',
+  'gallery',
+  'promotion',
+  'gift_card',
+  'subscription',
+  'enquiry',
+  'settings',
+  'user',
+  'stripe_event',
+  'outbound_message',
+  'email_template',
+  'media',
+  'job',
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export interface IAuditChange {
+  path: string; // dot path, e.g. shippingAddress.city
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAuditEvent extends Document {
+  // create / update / delete, or a domain verb such as refund, ship, mark_paid, replay
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  entityLabel?: string | null; // human name at the time, e.g. order number or coffee name
+  summary?: string | null;
+  changes: IAuditChange[];
+  metadata?: Record<string, unknown> | null;
+  actorId?: string | null;
+  actorName: string;
+  actorRole?: string | null;
+  method?: string | null;
+  path?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt?: Date;
+}
+
+const ChangeSchema = new Schema<IAuditChange>(
+  {
+    path: { type: String, required: true },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+const AuditEventSchema = new Schema<IAuditEvent>(
+  {
+    action: { type: String, required: true, index: true },
+    entityType: { type: String, enum: AUDIT_ENTITY_TYPES, required: true },
+    entityId: { type: String, default: null },
+    entityLabel: { type: String, default: null },
+    summary: { type: String, default: null },
+    changes: { type: [ChangeSchema], default: [] },
+    metadata: { type: Schema.Types.Mixed, default: null },
+    actorId: { type: String, default: null },
+    actorName: { type: String, required: true, index: true },
+    actorRole: { type: String, default: null },
+    method: { type: String, default: null },
+    path: { type: String, default: null },
+    ip: { type: String, default: null },
+    userAgent: { type: String, default: null },
+  },
+  // append-only: events are never edited
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+AuditEventSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+AuditEventSchema.index({ createdAt: -1 });
+
+const AuditEvent: Model<IAuditEvent> =
+  (mongoose.models.AuditEvent as Model<IAuditEvent>) ||
+  mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
+
+export default AuditEvent;
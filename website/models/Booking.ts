@@ -1,5 +1,22 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
 
+export type BookingChangeAction = "cancelled" | "rescheduled";
+
+// One entry per cancellation or move, oldest first
+export interface IBookingChange {
+  id?: string; // for updating this entry in place (refund id, notes)
+  action: BookingChangeAction;
+  by: "customer" | "admin";
+  at: Date;
+  fromSessionId?: string | null;
+  fromSessionStart?: Date | null;
+  toSessionId?: string | null;
+  toSessionStart?: Date | null;
+  refundAmount?: number | null;
+  refundId?: string | null;
+  note?: string | null;
+}
+
 export interface IBooking extends Document {
   bookingRef: string;
   courseId: mongoose.Types.ObjectId;
@@ -11,12 +28,44 @@ export interface IBooking extends Document {
   phone: string;
   attendees: number;
   status: "confirmed" | "cancelled" | "pending";
+  // Paid bookings: price × attendees, held as "pending" until Stripe confirms the payment
+  amount?: number;
+  currency?: string;
+  paymentIntentId?: string | null;
+  paidAt?: Date | null;
+  holdExpiresAt?: Date | null; // seats go back if the payment hasn't gone through by then
+  cancelledAt?: Date | null;
+  cancelReason?: string | null;
+  invoiceId?: mongoose.Types.ObjectId | null;
+  refundedAmount?: number;
+  history: IBookingChange[];
+  // Reminder steps (hours before the session) already sent for the current session
+  remindersSent: number[];
+  // Signed into manage links (lib/bookingLinks); bumping it retires the links sent so far
+  manageLinkVersion: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
 type BookingModel = Model<IBooking>
 
+const BookingChangeSchema = new Schema<IBookingChange>(
+  {
+    id: { type: String },
+    action: { type: String, enum: ["cancelled", "rescheduled"], required: true },
+    by: { type: String, enum: ["customer", "admin"], required: true },
+    at: { type: Date, default: Date.now },
+    fromSessionId: { type: String, default: null },
+    fromSessionStart: { type: Date, default: null },
+    toSessionId: { type: String, default: null },
+    toSessionStart: { type: Date, default: null },
+    refundAmount: { type: Number, default: null },
+    refundId: { type: String, default: null },
+    note: { type: String, default: null },
+  },
+  { _id: false }
+);
+
 const BookingSchema = new Schema<IBooking>(
   {
     bookingRef: { type: String, required: true, index: true, unique: true },
@@ -29,12 +78,35 @@ const BookingSchema = new Schema<IBooking>(
     phone: { type: String, required: true, trim: true },
     attendees: { type: Number, required: true, min: 1 },
     status: { type: String, enum: ["confirmed", "cancelled", "pending"], default: "confirmed" },
+    amount: { type: Number, default: 0, min: 0 },
+    currency: { type: String, default: "gbp" },
+    paymentIntentId: { type: String, default: null },
+    paidAt: { type: Date, default: null },
+    holdExpiresAt: { type: Date, default: null },
+    cancelledAt: { type: Date, default: null },
+    cancelReason: { type: String, default: null },
+    invoiceId: { type: Schema.Types.ObjectId, ref: "Invoice", default: null },
+    refundedAmount: { type: Number, default: 0, min: 0 },
+    history: { type: [BookingChangeSchema], default: [] },
+    remindersSent: { type: [Number], default: [] },
+    manageLinkVersion: { type: Number, default: 0 },
   },
   { timestamps: true }
 );
 
 // optional compound index for counting by course+session quickly
 BookingSchema.index({ courseId: 1, sessionId: 1 });
+// bookings on customer accounts
+BookingSchema.index({ email: 1, createdAt: -1 });
+// webhook lookups; free and legacy bookings have no PaymentIntent
+BookingSchema.index(
+  { paymentIntentId: 1 },
+  { unique: true, partialFilterExpression: { paymentIntentId: { $type: "string" } } }
+);
+// holds the booking-holds job has to release
+BookingSchema.index({ status: 1, holdExpiresAt: 1 });
+// sessions coming up, for the class-reminders job
+BookingSchema.index({ status: 1, sessionStart: 1 });
 
 const BookingModel = (mongoose.models.Booking as BookingModel) || mongoose.model<IBooking, BookingModel>("Booking", BookingSchema);
 export default BookingModel;
\ No newline at end of file
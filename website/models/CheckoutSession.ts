@@ -0,0 +1,111 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type CheckoutSessionStatus = 'open' | 'completed' | 'recovered';
+
+/** Cart line as the shopper had it, so a recovery link can put it back in the cart */
+export interface ICheckoutSessionItem {
+  id: string;
+  productType: string;
+  productId: string;
+  variantId?: string;
+  name: string;
+  price: number; // GBP, server-verified at payment intent creation
+  quantity: number;
+  img?: string;
+  size?: string;
+  grind?: string;
+  sku?: string;
+  roastType?: string;
+  cadence?: string;
+}
+
+/**
+ * One checkout attempt, from the first PaymentIntent to payment. When the cart
+ * changes the checkout gets a new PaymentIntent and the session follows it
+ * (paymentIntentId is always the latest one).
+ */
+export interface ICheckoutSession extends Document {
+  paymentIntentId: string;
+  items: ICheckoutSessionItem[];
+  subtotal: number; // GBP
+  total: number; // GBP
+  discountCode?: string | null;
+
+  // Known once save-shipping has run
+  email?: string | null;
+  name?: string | null;
+
+  status: CheckoutSessionStatus;
+  lastActivityAt: Date;
+
+  // Recovery email sequence
+  emailsSent: number;
+  firstEmailAt?: Date | null;
+  lastEmailAt?: Date | null;
+  suppressedAt?: Date | null;
+  suppressedReason?: string | null;
+  lastEmailError?: string | null;
+
+  orderId?: mongoose.Types.ObjectId | null;
+  completedAt?: Date | null;
+  orderTotal?: number | null; // GBP, revenue for recovered sessions
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ItemSchema = new Schema<ICheckoutSessionItem>(
+  {
+    id: { type: String, required: true },
+    productType: { type: String, required: true },
+    productId: { type: String, required: true },
+    variantId: String,
+    name: { type: String, required: true },
+    price: { type: Number, required: true, min: 0 },
+    quantity: { type: Number, required: true, min: 1 },
+    img: String,
+    size: String,
+    grind: String,
+    sku: String,
+    roastType: String,
+    cadence: String,
+  },
+  { _id: false }
+);
+
+const CheckoutSessionSchema = new Schema<ICheckoutSession>(
+  {
+    paymentIntentId: { type: String, required: true, unique: true },
+    items: { type: [ItemSchema], default: [] },
+    subtotal: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+    discountCode: { type: String, default: null },
+
+    email: { type: String, lowercase: true, trim: true, default: null, index: true },
+    name: { type: String, trim: true, default: null },
+
+    status: { type: String, enum: ['open', 'completed', 'recovered'], default: 'open', index: true },
+    lastActivityAt: { type: Date, default: Date.now },
+
+    emailsSent: { type: Number, default: 0 },
+    firstEmailAt: { type: Date, default: null },
+    lastEmailAt: { type: Date, default: null },
+    suppressedAt: { type: Date, default: null },
+    suppressedReason: { type: String, default: null },
+    lastEmailError: { type: String, default: null },
+
+    orderId: { type: Schema.Types.ObjectId, ref: 'Order', default: null },
+    completedAt: { type: Date, default: null },
+    orderTotal: { type: Number, default: null },
+  },
+  { timestamps: true }
+);
+
+// The recovery job's query: open sessions with an email, oldest activity first
+CheckoutSessionSchema.index({ status: 1, suppressedAt: 1, lastActivityAt: 1 });
+
+const CheckoutSession: Model<ICheckoutSession> =
+  (mongoose.models.CheckoutSession as Model<ICheckoutSession>) ||
+  mongoose.model<ICheckoutSession>('CheckoutSession', CheckoutSessionSchema);
+
+export default CheckoutSession;
@@ -1,10 +1,12 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
+import { TAX_CATEGORIES, type TaxCategory } from "@/lib/vat";
 
 /* ------------------- Types ------------------- */
 export interface ISession {
-  id?: string;
+  id?: string; // stable key that bookings reference as sessionId
   start?: Date;
   end?: Date;
+  capacity?: number | null; // overrides the course capacity for this session
 }
 
 export interface IInstructor {
@@ -18,6 +20,7 @@ export interface ICourse extends Document {
   title: string;
   subtitle?: string;
   price: number;
+  taxCategory: TaxCategory; // classes are standard-rated
   summary?: string;
   description?: string;
   durationMinutes: number;
@@ -39,16 +42,19 @@ export interface ICourse extends Document {
 /* ------------------- Model Interface ------------------- */
 interface CourseModel extends Model<ICourse> {
   cleanupExpiredSessions(): Promise<{ matchedCount: number; modifiedCount: number }>;
+  backfillSessionIds(): Promise<{ matchedCount: number; modifiedCount: number }>;
   migrateSessionStringsToDates?(): Promise<void>;
-  attachLazyCleanup?(rateMs?: number): void;
 }
 
 /* ------------------- Schemas ------------------- */
 const SessionSchema = new Schema<ISession>(
   {
+    // Set by the class routes when a session is added. No schema default: a default
+    // would hand older sessions a new random id on every hydrated load.
     id: { type: String },
     start: { type: Date },
     end: { type: Date },
+    capacity: { type: Number, min: 1, default: null },
   },
   { _id: false }
 );
@@ -68,6 +74,7 @@ const CourseSchema = new Schema<ICourse>(
     title: { type: String, required: true, index: true, trim: true },
     subtitle: { type: String, trim: true },
     price: { type: Number, required: true, min: 0 },
+    taxCategory: { type: String, enum: TAX_CATEGORIES as unknown as string[], default: "standard" },
     summary: { type: String, trim: true },
     description: { type: String, trim: true },
     durationMinutes: { type: Number, required: true, min: 0 },
@@ -97,6 +104,7 @@ CourseSchema.index({ "sessions.end": 1 });
 /**
  * Remove sessions with end <= now across all Course documents.
  * Uses updateMany + $pull so only array elements are removed.
+ * Run by the class-session-cleanup job (lib/jobs.ts).
  */
 CourseSchema.statics.cleanupExpiredSessions = async function cleanupExpiredSessions() {
   const now = new Date();
@@ -107,6 +115,53 @@ CourseSchema.statics.cleanupExpiredSessions = async function cleanupExpiredSessi
   return { matchedCount: res.matchedCount ?? 0, modifiedCount: res.modifiedCount ?? 0 };
 };
 
+/**
+ * One-off backfill: stores an id on sessions saved before sessions had one. The id is
+ * the key those sessions were already known by (sessionKey in lib/classSeats: the
+ * start time as ISO), so bookings and seat counters that use it keep matching.
+ * Run by the class-session-cleanup job (lib/jobs.ts); a no-op once all are done.
+ */
+CourseSchema.statics.backfillSessionIds = async function backfillSessionIds() {
+  const missing = { $in: [null, ""] };
+  const res = await this.updateMany(
+    { sessions: { $elemMatch: { id: missing } } },
+    [
+      {
+        $set: {
+          sessions: {
+            $map: {
+              input: "$sessions",
+              as: "s",
+              in: {
+                $cond: [
+                  { $gt: [{ $ifNull: ["$$s.id", ""] }, ""] },
+                  "$$s",
+                  {
+                    $mergeObjects: [
+                      "$$s",
+                      {
+                        id: {
+                          $dateToString: {
+                            date: { $ifNull: ["$$s.start", "$$s.end"] },
+                            format: "%Y-%m-%dT%H:%M:%S.%LZ",
+                            timezone: "UTC",
+                          },
+                        },
+                      },
+                    ],
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+    ],
+    { updatePipeline: true }
+  );
+  return { matchedCount: res.matchedCount ?? 0, modifiedCount: res.modifiedCount ?? 0 };
+};
+
 /**
  * Optional one-off migration: convert string session start/end values into Date objects.
  * Run once if you previously stored session end/start as strings.
@@ -145,43 +200,6 @@ CourseSchema.statics.migrateSessionStringsToDates = async function migrateSessio
   }
 };
 
-/**
- * Optional lazy cleanup attachment: installs model pre-hooks that trigger cleanup
- * rateMs: minimal milliseconds between runs per process.
- */
-CourseSchema.statics.attachLazyCleanup = function attachLazyCleanup(rateMs = 5 * 60 * 1000) {
-  let lastRun = 0;
-  const model = this as CourseModel;
-
-  async function maybeRun() {
-    const now = Date.now();
-    if (now - lastRun < rateMs) return;
-    lastRun = now;
-    try {
-      const res = await model.cleanupExpiredSessions();
-      if (res.modifiedCount > 0) {
-        console.info(`[Course.cleanup] removed expired sessions — matched=${res.matchedCount} modified=${res.modifiedCount}`);
-      }
-    } catch (err) {
-      console.warn("[Course.cleanup] error:", err);
-    }
-  }
-
-  async function preHook(this: any) {
-    if (typeof window !== "undefined") return;
-    await maybeRun();
-  }
-
-  const flag = "__course_lazy_cleanup_attached__";
-  if (!(CourseSchema as any)[flag]) {
-    CourseSchema.pre("find", preHook);
-    CourseSchema.pre("findOne", preHook);
-    CourseSchema.pre("aggregate", preHook);
-    CourseSchema.pre("findOneAndUpdate", preHook);
-    (CourseSchema as any)[flag] = true;
-  }
-};
-
 /* ------------------- Export ------------------- */
 const CourseModel = (mongoose.models.Course as CourseModel) || (mongoose.model<ICourse, CourseModel>("Course", CourseSchema) as CourseModel);
 export default CourseModel;
\ No newline at end of file
@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * Seats taken on one class session: the sum of attendees over its pending and
+ * confirmed bookings. Bookings claim seats with a conditional $inc against the
+ * session's capacity, so two customers can't both take the last places. The
+ * counter is seeded from the bookings the first time a session is booked.
+ */
+export interface IClassSeats extends Document {
+  courseId: mongoose.Types.ObjectId;
+  sessionId: string;
+  taken: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ClassSeatsSchema = new Schema<IClassSeats>(
+  {
+    courseId: { type: Schema.Types.ObjectId, ref: 'Course', required: true },
+    sessionId: { type: String, required: true },
+    taken: { type: Number, default: 0, min: 0 },
+  },
+  { timestamps: true }
+);
+
+ClassSeatsSchema.index({ courseId: 1, sessionId: 1 }, { unique: true });
+
+const ClassSeats: Model<IClassSeats> =
+  (mongoose.models.ClassSeats as Model<IClassSeats>) || mongoose.model<IClassSeats>('ClassSeats', ClassSeatsSchema);
+
+export default ClassSeats;
@@ -1,6 +1,7 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
 export interface IClientAddress {
+  label?: string | null; // e.g. "Home", "Work" — for saved addresses
   firstName?: string;
   lastName?: string;
   unit?: string | null;
@@ -15,7 +16,9 @@ export interface IClient extends Document {
   email?: string | null;
   phone?: string | null;
   address?: IClientAddress | null;
+  savedAddresses?: IClientAddress[]; // further addresses kept from the customer account
   isSubscribed?: boolean;
+  lastLoginAt?: Date | null;
   metadata?: Record<string, unknown>;
   createdAt?: Date;
   updatedAt?: Date;
@@ -40,6 +43,7 @@ function normalizePhone(phone?: string | null) {
 // Define the address subdocument schema
 const AddressSchema = new Schema<IClientAddress>(
   {
+    label: { type: String, trim: true },
     firstName: { type: String, trim: true },
     lastName: { type: String, trim: true },
     unit: { type: String, trim: true },
@@ -57,8 +61,10 @@ const ClientSchema = new Schema<IClient>(
     email: { type: String, trim: true, lowercase: true, index: true },
     phone: { type: String, trim: true, index: true },
     address: { type: AddressSchema, default: null },
+    savedAddresses: { type: [AddressSchema], default: [] },
     // New field for marketing/subscription status (default false)
     isSubscribed: { type: Boolean, default: false, index: true },
+    lastLoginAt: { type: Date, default: null },
 
     metadata: { type: Schema.Types.Mixed },
   },
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * One-time code emailed to a returning customer at checkout. Their saved details
+ * are only returned once the code is entered. Only a hash of the code is stored.
+ */
+export interface IClientLookupChallenge extends Document {
+  email: string;
+  clientId?: mongoose.Types.ObjectId | null; // null when nobody has that email (no code is sent)
+  codeHash?: string | null;
+  expiresAt: Date;
+  attempts: number;
+  verifiedAt?: Date | null;
+  ip?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ClientLookupChallengeSchema = new Schema<IClientLookupChallenge>(
+  {
+    email: { type: String, required: true, trim: true, lowercase: true, index: true },
+    clientId: { type: Schema.Types.ObjectId, ref: 'Client', default: null },
+    codeHash: { type: String, default: null },
+    expiresAt: { type: Date, required: true },
+    attempts: { type: Number, default: 0 },
+    verifiedAt: { type: Date, default: null },
+    ip: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+// Removed by Mongo an hour after expiry
+ClientLookupChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 60 * 60 });
+
+const ClientLookupChallenge: Model<IClientLookupChallenge> =
+  (mongoose.models.ClientLookupChallenge as Model<IClientLookupChallenge>) ||
+  mongoose.model<IClientLookupChallenge>('ClientLookupChallenge', ClientLookupChallengeSchema);
+
+export default ClientLookupChallenge;
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const CLIENT_LOOKUP_OUTCOMES = [
+  'code_sent',
+  'no_match',
+  'send_failed',
+  'throttled',
+  'verified',
+  'wrong_code',
+  'expired',
+  'locked',
+] as const;
+export type ClientLookupOutcome = (typeof CLIENT_LOOKUP_OUTCOMES)[number];
+
+/**
+ * Audit trail of checkout address lookups: who asked for which email, from where,
+ * and how it went. Also what the lookup rate limits are counted from.
+ */
+export interface IClientLookupEvent extends Document {
+  email: string;
+  outcome: ClientLookupOutcome;
+  challengeId?: mongoose.Types.ObjectId | null;
+  clientId?: mongoose.Types.ObjectId | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ClientLookupEventSchema = new Schema<IClientLookupEvent>(
+  {
+    email: { type: String, required: true, trim: true, lowercase: true },
+    outcome: { type: String, enum: CLIENT_LOOKUP_OUTCOMES as unknown as string[], required: true },
+    challengeId: { type: Schema.Types.ObjectId, ref: 'ClientLookupChallenge', default: null },
+    clientId: { type: Schema.Types.ObjectId, ref: 'Client', default: null },
+    ip: { type: String, default: null },
+    userAgent: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+ClientLookupEventSchema.index({ email: 1, createdAt: -1 });
+ClientLookupEventSchema.index({ ip: 1, createdAt: -1 });
+// Kept for a year
+ClientLookupEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 365 * 24 * 60 * 60 });
+
+const ClientLookupEvent: Model<IClientLookupEvent> =
+  (mongoose.models.ClientLookupEvent as Model<IClientLookupEvent>) ||
+  mongoose.model<IClientLookupEvent>('ClientLookupEvent', ClientLookupEventSchema);
+
+export default ClientLookupEvent;
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
+import { TAX_CATEGORIES, type TaxCategory } from "@/lib/vat";
 
 export interface ICoffeeVariant extends Document {
   coffeeId: Types.ObjectId;
@@ -8,6 +9,7 @@ export interface ICoffeeVariant extends Document {
   roastType: "espresso" | "filter" | "omni" | "decaf";
   price: number;
   stock: number;
+  taxCategory: TaxCategory; // beans are zero-rated
   img?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -53,6 +55,11 @@ const CoffeeVariantSchema = new Schema<ICoffeeVariant>(
       min: 0,
       default: 0,
     },
+    taxCategory: {
+      type: String,
+      enum: TAX_CATEGORIES as unknown as string[],
+      default: "zero",
+    },
     img: {
       type: String,
     },
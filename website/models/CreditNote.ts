@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { VatBreakdownRow } from '@/lib/vat';
+
+export const CREDIT_NOTE_SOURCES = ['refund', 'manual'] as const;
+export type CreditNoteSource = (typeof CREDIT_NOTE_SOURCES)[number];
+
+export interface ICreditNoteLine {
+  lineIndex?: number | null; // position in invoice.items; null for shipping or a lump-sum credit
+  name: string;
+  qty: number;
+  unitPrice: number;
+  totalPrice: number; // VAT inclusive, like invoice lines
+  vatRate?: number | null;
+}
+
+/**
+ * A credit note against an invoice: issued automatically for every refund on a
+ * shop order, or by an admin on a manual invoice. Numbers run CN-<year>-0001 with
+ * no gaps, and a credit note is never edited or deleted once issued.
+ * Invoice.creditedAmount is the sum of the credit notes against it.
+ */
+export interface ICreditNote extends Document {
+  number: string;
+  year: number;
+  sequence: number;
+  invoiceId: mongoose.Types.ObjectId;
+  invoiceNumber: string;
+  orderId?: mongoose.Types.ObjectId | null;
+  source: CreditNoteSource;
+  refundId?: string | null; // RefundRecord.refundId for refund credit notes
+  refundMethod?: 'card' | 'store_credit' | null;
+  lines: ICreditNoteLine[];
+  total: number;
+  vat: number;
+  vatBreakdown: VatBreakdownRow[];
+  currency: string;
+  reason?: string | null;
+  client?: { name?: string; email?: string; phone?: string } | null;
+  billingAddress?: Record<string, unknown> | null;
+  issuedBy?: string | null;
+  sent: boolean;
+  sentAt?: Date | null;
+  sendError?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const CreditNoteLineSchema = new Schema<ICreditNoteLine>(
+  {
+    lineIndex: { type: Number, default: null },
+    name: { type: String, required: true },
+    qty: { type: Number, required: true },
+    unitPrice: { type: Number, required: true },
+    totalPrice: { type: Number, required: true },
+    vatRate: { type: Number, default: null },
+  },
+  { _id: false }
+);
+
+const VatBreakdownSchema = new Schema<VatBreakdownRow>(
+  {
+    rate: { type: Number, required: true },
+    net: { type: Number, required: true },
+    vat: { type: Number, required: true },
+    gross: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const CreditNoteSchema = new Schema<ICreditNote>(
+  {
+    number: { type: String, required: true, unique: true },
+    year: { type: Number, required: true },
+    sequence: { type: Number, required: true },
+    invoiceId: { type: Schema.Types.ObjectId, ref: 'Invoice', required: true, index: true },
+    invoiceNumber: { type: String, required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: 'Order', default: null, index: true },
+    source: { type: String, enum: CREDIT_NOTE_SOURCES as unknown as string[], required: true },
+    refundId: { type: String, default: null },
+    refundMethod: { type: String, enum: ['card', 'store_credit', null], default: null },
+    lines: { type: [CreditNoteLineSchema], default: [] },
+    total: { type: Number, required: true, min: 0.01 },
+    vat: { type: Number, default: 0 },
+    vatBreakdown: { type: [VatBreakdownSchema], default: [] },
+    currency: { type: String, default: 'gbp' },
+    reason: { type: String, trim: true, default: null },
+    client: { type: Object, default: null },
+    billingAddress: { type: Object, default: null },
+    issuedBy: { type: String, default: null },
+    sent: { type: Boolean, default: false },
+    sentAt: { type: Date, default: null },
+    sendError: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+// Numbering: a clash on (year, sequence) means another credit note took the number first
+CreditNoteSchema.index({ year: 1, sequence: 1 }, { unique: true });
+// One credit note per refund, so a retried refund can't credit the invoice twice
+CreditNoteSchema.index(
+  { refundId: 1 },
+  { unique: true, name: 'unique_refund_credit_note', partialFilterExpression: { refundId: { $type: 'string' } } }
+);
+
+const CreditNote: Model<ICreditNote> =
+  (mongoose.models.CreditNote as Model<ICreditNote>) || mongoose.model<ICreditNote>('CreditNote', CreditNoteSchema);
+
+export default CreditNote;
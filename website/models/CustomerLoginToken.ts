@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * One-time sign-in link for a customer account. Only a hash of the token is
+ * stored; the token itself only ever appears in the email.
+ */
+export interface ICustomerLoginToken extends Document {
+  email: string;
+  tokenHash: string;
+  next?: string | null; // account page to land on after signing in
+  expiresAt: Date;
+  usedAt?: Date | null;
+  requestIp?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CustomerLoginTokenSchema = new Schema<ICustomerLoginToken>(
+  {
+    email: { type: String, required: true, trim: true, lowercase: true, index: true },
+    tokenHash: { type: String, required: true, unique: true },
+    next: { type: String, default: null },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null },
+    requestIp: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+// Mongo removes links a day after they expire; recent ones are kept for rate limiting
+CustomerLoginTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+const CustomerLoginToken: Model<ICustomerLoginToken> =
+  (mongoose.models.CustomerLoginToken as Model<ICustomerLoginToken>) ||
+  mongoose.model<ICustomerLoginToken>('CustomerLoginToken', CustomerLoginTokenSchema);
+
+export default CustomerLoginToken;
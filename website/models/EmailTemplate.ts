@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Staff edits to a template's copy. Templates themselves live in lib/emailTemplates.ts;
+// a template without a document here uses its built-in subject and intro.
+export interface IEmailTemplate extends Document {
+  name: string; // template name, e.g. shipment
+  subject: string;
+  intro: string;
+  updatedBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const EmailTemplateSchema = new Schema<IEmailTemplate>(
+  {
+    name: { type: String, required: true, unique: true, trim: true },
+    subject: { type: String, required: true, trim: true },
+    intro: { type: String, default: '' },
+    updatedBy: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+const EmailTemplate: Model<IEmailTemplate> =
+  (mongoose.models.EmailTemplate as Model<IEmailTemplate>) ||
+  mongoose.model<IEmailTemplate>('EmailTemplate', EmailTemplateSchema);
+
+export default EmailTemplate;
@@ -1,4 +1,5 @@
 import mongoose, { Document, Model, Schema, Types, ToObjectOptions } from "mongoose";
+import { TAX_CATEGORIES, type TaxCategory } from "@/lib/vat";
 
 /**
  * Equipment model storing canonical decimal `price` (pounds) and legacy `pricePence` (integer pence).
@@ -17,6 +18,10 @@ export interface IEquipment extends Document {
   img?: string;
   images?: string[];
   totalStock?: number;
+  // shipping weight of one unit, boxed
+  weightGrams?: number;
+  // VAT treatment, standard-rated unless set otherwise
+  taxCategory?: TaxCategory;
   notes?: string;
   description?: string;
   specs?: Record<string, unknown>;
@@ -52,6 +57,8 @@ const EquipmentSchema = new Schema(
     images: { type: [String], default: [] },
     stock: { type: Number, default: 0 },
     totalStock: { type: Number, default: 0 },
+    weightGrams: { type: Number, min: 0 },
+    taxCategory: { type: String, enum: TAX_CATEGORIES as unknown as string[], default: "standard" },
     notes: { type: String },
     description: { type: String },
     specs: { type: Schema.Types.Mixed },
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const GIFT_CARD_KINDS = ['gift_card', 'store_credit'] as const;
+export type GiftCardKind = (typeof GIFT_CARD_KINDS)[number];
+
+export const GIFT_CARD_STATUSES = ['active', 'disabled'] as const;
+export type GiftCardStatus = (typeof GIFT_CARD_STATUSES)[number];
+
+export interface IGiftCard extends Document {
+  // Customer-facing code, e.g. "GC-7KQ2-M9XD-4HTP"; stored uppercase
+  code: string;
+  // gift_card: bought in the shop; store_credit: issued by us (refunds, goodwill)
+  kind: GiftCardKind;
+  initialBalancePence: number;
+  balancePence: number;
+  currency: string;
+  status: GiftCardStatus;
+  expiresAt?: Date | null;
+  recipientEmail?: string | null;
+  recipientName?: string | null;
+  senderName?: string | null;
+  message?: string | null;
+  // Set when the card was bought as an order line (one card per unit of the line)
+  sourceOrderId?: mongoose.Types.ObjectId | null;
+  sourcePaymentIntentId?: string | null;
+  sourceLineKey?: string | null;
+  // Who issued store credit / why (admin issues and refunds)
+  issuedBy?: string | null;
+  note?: string | null;
+  deliveredAt?: Date | null;
+  lastDeliveryError?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const GiftCardSchema = new Schema<IGiftCard>(
+  {
+    code: { type: String, required: true, trim: true, uppercase: true },
+    kind: { type: String, enum: GIFT_CARD_KINDS as unknown as string[], default: 'gift_card', index: true },
+    initialBalancePence: { type: Number, required: true, min: 0 },
+    balancePence: { type: Number, required: true, min: 0 },
+    currency: { type: String, default: 'gbp' },
+    status: { type: String, enum: GIFT_CARD_STATUSES as unknown as string[], default: 'active', index: true },
+    expiresAt: { type: Date, default: null },
+    recipientEmail: { type: String, lowercase: true, trim: true, default: null, index: true },
+    recipientName: { type: String, trim: true, default: null },
+    senderName: { type: String, trim: true, default: null },
+    message: { type: String, trim: true, default: null },
+    sourceOrderId: { type: Schema.Types.ObjectId, ref: 'Order', default: null },
+    sourcePaymentIntentId: { type: String, default: null },
+    sourceLineKey: { type: String, default: null },
+    issuedBy: { type: String, default: null },
+    note: { type: String, trim: true, default: null },
+    deliveredAt: { type: Date, default: null },
+    lastDeliveryError: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+GiftCardSchema.index({ code: 1 }, { unique: true, name: 'unique_gift_card_code' });
+// Webhook retries must not issue a purchased card twice
+GiftCardSchema.index(
+  { sourcePaymentIntentId: 1, sourceLineKey: 1 },
+  {
+    unique: true,
+    name: 'unique_gift_card_source_line',
+    partialFilterExpression: { sourcePaymentIntentId: { $type: 'string' }, sourceLineKey: { $type: 'string' } },
+  }
+);
+
+const GiftCard: Model<IGiftCard> =
+  (mongoose.models.GiftCard as Model<IGiftCard>) || mongoose.model<IGiftCard>('GiftCard', GiftCardSchema);
+
+export default GiftCard;
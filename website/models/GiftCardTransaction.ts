@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const GIFT_CARD_TRANSACTION_TYPES = ['issue', 'redeem', 'refund_credit', 'adjust'] as const;
+export type GiftCardTransactionType = (typeof GIFT_CARD_TRANSACTION_TYPES)[number];
+
+/**
+ * Ledger of every balance change on a gift card / store credit.
+ * amountPence is signed: positive adds to the balance, negative spends it.
+ */
+export interface IGiftCardTransaction extends Document {
+  giftCardId: mongoose.Types.ObjectId;
+  type: GiftCardTransactionType;
+  amountPence: number;
+  balanceAfterPence: number;
+  orderId?: mongoose.Types.ObjectId | null;
+  paymentIntentId?: string | null;
+  note?: string | null;
+  actor?: string | null; // admin email/username for manual changes
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const GiftCardTransactionSchema = new Schema<IGiftCardTransaction>(
+  {
+    giftCardId: { type: Schema.Types.ObjectId, ref: 'GiftCard', required: true, index: true },
+    type: { type: String, enum: GIFT_CARD_TRANSACTION_TYPES as unknown as string[], required: true },
+    amountPence: { type: Number, required: true },
+    balanceAfterPence: { type: Number, required: true, min: 0 },
+    orderId: { type: Schema.Types.ObjectId, ref: 'Order', default: null },
+    paymentIntentId: { type: String, default: null },
+    note: { type: String, trim: true, default: null },
+    actor: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+// One redemption per card per PaymentIntent (webhook retries must not spend twice)
+GiftCardTransactionSchema.index(
+  { giftCardId: 1, paymentIntentId: 1 },
+  {
+    unique: true,
+    name: 'unique_gift_card_redemption',
+    partialFilterExpression: { type: 'redeem', paymentIntentId: { $type: 'string' } },
+  }
+);
+
+const GiftCardTransaction: Model<IGiftCardTransaction> =
+  (mongoose.models.GiftCardTransaction as Model<IGiftCardTransaction>) ||
+  mongoose.model<IGiftCardTransaction>('GiftCardTransaction', GiftCardTransactionSchema);
+
+export default GiftCardTransaction;
@@ -4,11 +4,18 @@ const InvoiceSchema = new mongoose.Schema(
     {
       // ✅ الحقول الموجودة (لا تغيّرها)
       orderId: { type: mongoose.Schema.Types.ObjectId, ref: 'Order', index: true },
+      bookingId: { type: mongoose.Schema.Types.ObjectId, ref: 'Booking', default: null, index: true }, // paid class bookings
       orderNumber: { type: String, index: true },
       items: { type: Array, default: [] },
       subtotal: { type: Number },
       shipping: { type: Number },
+      discount: { type: Number, default: 0 },
+      discountCode: { type: String, default: null },
       total: { type: Number },
+      vat: { type: Number, default: 0 }, // VAT included in the total
+      vatBreakdown: { type: Array, default: [] }, // [{ rate, net, vat, gross }]
+      giftCardAmount: { type: Number, default: 0 },
+      giftCardCode: { type: String, default: null },
       currency: { type: String, default: 'gbp' },
       client: { type: Object },
       shippingAddress: { type: Object },
@@ -40,6 +47,17 @@ const InvoiceSchema = new mongoose.Schema(
       },
       
       dueDate: { type: Date }, // تاريخ الاستحقاق للفواتير اليدوية
+      overdueAt: { type: Date, default: null }, // set by the overdue-invoices job when an unpaid invoice passes its due date
+      // Sum of the InvoicePayment ledger (manual invoices); see lib/invoicePayments.ts
+      amountPaid: { type: Number, default: 0 },
+      // Reminder emails already sent: offsetDays is the schedule step (days from due date), null when sent by hand
+      reminders: {
+        type: [{ offsetDays: { type: Number, default: null }, sentAt: { type: Date }, sentBy: { type: String, default: null }, _id: false }],
+        default: [],
+      },
+      remindersPaused: { type: Boolean, default: false },
+      // Sum of the credit notes issued against this invoice; see lib/creditNotes.ts
+      creditedAmount: { type: Number, default: 0 },
       
       notes: { type: String }, // ملاحظات (مثل: "تحويل بنكي", "نقدي")
     },
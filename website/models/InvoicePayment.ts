@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const INVOICE_PAYMENT_METHODS = ['bank_transfer', 'card', 'cash', 'cheque', 'other'] as const;
+export type InvoicePaymentMethod = (typeof INVOICE_PAYMENT_METHODS)[number];
+
+/**
+ * Ledger of money received against a manual invoice. Entries are never deleted:
+ * a payment recorded by mistake is voided, and Invoice.amountPaid is always the
+ * sum of the entries that aren't.
+ */
+export interface IInvoicePayment extends Document {
+  invoiceId: mongoose.Types.ObjectId;
+  amount: number; // in the invoice currency, like Invoice.total
+  currency: string;
+  method: InvoicePaymentMethod;
+  reference?: string | null; // bank reference, cheque number…
+  note?: string | null;
+  paidAt: Date;
+  recordedBy?: string | null;
+  voidedAt?: Date | null;
+  voidedBy?: string | null;
+  voidReason?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const InvoicePaymentSchema = new Schema<IInvoicePayment>(
+  {
+    invoiceId: { type: Schema.Types.ObjectId, ref: 'Invoice', required: true, index: true },
+    amount: { type: Number, required: true, min: 0.01 },
+    currency: { type: String, default: 'gbp' },
+    method: { type: String, enum: INVOICE_PAYMENT_METHODS as unknown as string[], required: true },
+    reference: { type: String, trim: true, default: null },
+    note: { type: String, trim: true, default: null },
+    paidAt: { type: Date, required: true },
+    recordedBy: { type: String, default: null },
+    voidedAt: { type: Date, default: null },
+    voidedBy: { type: String, default: null },
+    voidReason: { type: String, trim: true, default: null },
+  },
+  { timestamps: true }
+);
+
+const InvoicePayment: Model<IInvoicePayment> =
+  (mongoose.models.InvoicePayment as Model<IInvoicePayment>) ||
+  mongoose.model<IInvoicePayment>('InvoicePayment', InvoicePaymentSchema);
+
+export default InvoicePayment;
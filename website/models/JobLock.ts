@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * One document per scheduled job. Whoever sets lockedUntil first runs the job;
+ * everyone else skips it until the lock is released or goes stale. It also
+ * remembers which scheduled slot last ran, so a slot is never run twice, and
+ * how often the current slot has failed so it can be retried with backoff.
+ */
+export interface IJobLock extends Document {
+  name: string;
+  lockedUntil?: Date | null;
+  lockedBy?: string | null;
+  lastScheduledFor?: Date | null;
+  lastRunAt?: Date | null;
+  lastStatus?: string | null;
+  failures: number; // failed runs in a row for the slot that's still due
+  retryAt?: Date | null; // not before then
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobLockSchema = new Schema<IJobLock>(
+  {
+    name: { type: String, required: true, unique: true },
+    lockedUntil: { type: Date, default: null },
+    lockedBy: { type: String, default: null },
+    lastScheduledFor: { type: Date, default: null },
+    lastRunAt: { type: Date, default: null },
+    lastStatus: { type: String, default: null },
+    failures: { type: Number, default: 0 },
+    retryAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+const JobLock: Model<IJobLock> =
+  (mongoose.models.JobLock as Model<IJobLock>) || mongoose.model<IJobLock>('JobLock', JobLockSchema);
+
+export default JobLock;
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const JOB_RUN_STATUSES = ['running', 'succeeded', 'failed'] as const;
+export type JobRunStatus = (typeof JOB_RUN_STATUSES)[number];
+
+export const JOB_TRIGGERS = ['schedule', 'manual'] as const;
+export type JobTrigger = (typeof JOB_TRIGGERS)[number];
+
+/** One run of a scheduled job, kept for the admin's run history */
+export interface IJobRun extends Document {
+  job: string;
+  trigger: JobTrigger;
+  triggeredBy?: string | null; // admin username for manual runs
+  status: JobRunStatus;
+  scheduledFor?: Date | null; // the cron slot this run covers
+  startedAt: Date;
+  finishedAt?: Date | null;
+  durationMs?: number | null;
+  result?: Record<string, unknown> | null; // whatever the job reports, e.g. counts
+  error?: string | null;
+}
+
+const JobRunSchema = new Schema<IJobRun>({
+  job: { type: String, required: true },
+  trigger: { type: String, enum: JOB_TRIGGERS, required: true },
+  triggeredBy: { type: String, default: null },
+  status: { type: String, enum: JOB_RUN_STATUSES, required: true },
+  scheduledFor: { type: Date, default: null },
+  startedAt: { type: Date, required: true },
+  finishedAt: { type: Date, default: null },
+  durationMs: { type: Number, default: null },
+  result: { type: Schema.Types.Mixed, default: null },
+  error: { type: String, default: null },
+});
+
+JobRunSchema.index({ job: 1, startedAt: -1 });
+// History is kept for 30 days
+JobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+const JobRun: Model<IJobRun> =
+  (mongoose.models.JobRun as Model<IJobRun>) || mongoose.model<IJobRun>('JobRun', JobRunSchema);
+
+export default JobRun;
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * One admin sign-in attempt (password or second factor). Used to throttle
+ * failures per IP address; kept for a day.
+ */
+export interface ILoginAttempt extends Document {
+  ip?: string | null;
+  username?: string | null;
+  success: boolean;
+  reason?: string | null; // bad_password, unknown_user, locked, bad_code, ...
+  createdAt: Date;
+}
+
+const LoginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    ip: { type: String, default: null },
+    username: { type: String, default: null },
+    success: { type: Boolean, required: true },
+    reason: { type: String, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+LoginAttemptSchema.index({ ip: 1, success: 1, createdAt: -1 });
+LoginAttemptSchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+const LoginAttempt: Model<ILoginAttempt> =
+  (mongoose.models.LoginAttempt as Model<ILoginAttempt>) ||
+  mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
+
+export default LoginAttempt;
@@ -1,4 +1,6 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { SHIPPING_SERVICES, type ShippingService } from '@/lib/shipping';
+import { TAX_CATEGORIES, type TaxCategory, type VatBreakdownRow } from '@/lib/vat';
 
 export type OrderStatus =
   | 'pending'
@@ -7,7 +9,9 @@ export type OrderStatus =
   | 'shipped'
   | 'failed'
   | 'cancelled'
-  | 'refunded';
+  | 'refunded'
+  | 'partially_refunded'
+  | 'disputed';
 
 export interface IOrderItem {
   id: string;
@@ -17,6 +21,10 @@ export interface IOrderItem {
   totalPrice: number; // GBP
   source?: string;
   roastType?: string;
+  cadence?: string; // set on lines that started a subscription
+  taxCategory?: TaxCategory;
+  vatRate?: number; // percent
+  vat?: number; // GBP of VAT in totalPrice, after the line's share of any discount
 }
 
 export type ShipmentProvider =
@@ -36,11 +44,35 @@ export interface IShipment {
   estimatedDelivery?: Date | null;
 }
 
+// Mirrors the chargeback on Stripe; kept after it closes so the outcome stays visible
+export interface IOrderDispute {
+  disputeId: string; // dp_...
+  status: string; // Stripe dispute status: needs_response, under_review, won, lost, ...
+  reason?: string | null;
+  amount: number; // GBP
+  currency?: string;
+  evidenceDueBy?: Date | null;
+  openedAt?: Date | null;
+  closedAt?: Date | null;
+  statusBeforeDispute?: OrderStatus | null; // restored if the dispute is won
+}
+
 export interface IOrder extends Document {
   items: IOrderItem[];
   subtotal: number;
   shipping: number;
+  shippingService?: ShippingService | null;
+  shippingZone?: string | null; // name of the matched rate zone at checkout
+  discount: number; // GBP taken off the subtotal by a promotion
+  discountCode?: string | null;
+  promotionId?: mongoose.Types.ObjectId | string | null;
+  subscriptionId?: mongoose.Types.ObjectId | string | null; // set on renewal orders
   total: number;
+  vat?: number; // GBP of VAT in the total (prices include VAT)
+  vatBreakdown?: VatBreakdownRow[];
+  giftCardAmount?: number; // GBP of the total paid with a gift card / store credit (the rest was charged to the card)
+  giftCardCode?: string | null;
+  giftCardId?: mongoose.Types.ObjectId | string | null;
   currency: string;
   status: OrderStatus;
   paymentIntentId?: string | null;
@@ -76,6 +108,7 @@ export interface IOrder extends Document {
     sameAsShipping?: boolean;
   } | null;
   shipment?: IShipment | null;
+  dispute?: IOrderDispute | null;
 }
 
 const OrderItemSchema = new Schema<IOrderItem>(
@@ -87,6 +120,20 @@ const OrderItemSchema = new Schema<IOrderItem>(
     totalPrice: { type: Number, required: true },
     source: { type: String },
     roastType: { type: String },
+    cadence: { type: String },
+    taxCategory: { type: String, enum: TAX_CATEGORIES as unknown as string[] },
+    vatRate: { type: Number },
+    vat: { type: Number },
+  },
+  { _id: false }
+);
+
+const VatBreakdownSchema = new Schema<VatBreakdownRow>(
+  {
+    rate: { type: Number, required: true },
+    net: { type: Number, required: true },
+    vat: { type: Number, required: true },
+    gross: { type: Number, required: true },
   },
   { _id: false }
 );
@@ -105,6 +152,21 @@ const ShipmentSchema = new Schema<IShipment>(
   { _id: false }
 );
 
+const DisputeSchema = new Schema<IOrderDispute>(
+  {
+    disputeId: { type: String, required: true },
+    status: { type: String, required: true },
+    reason: { type: String, default: null },
+    amount: { type: Number, required: true },
+    currency: { type: String, default: 'gbp' },
+    evidenceDueBy: { type: Date, default: null },
+    openedAt: { type: Date, default: null },
+    closedAt: { type: Date, default: null },
+    statusBeforeDispute: { type: String, default: null },
+  },
+  { _id: false }
+);
+
 const OrderSchema = new Schema<IOrder>(
   {
     // items: required but default to empty array so upserts/inserts don't fail
@@ -113,14 +175,25 @@ const OrderSchema = new Schema<IOrder>(
     // required numeric fields with safe defaults
     subtotal: { type: Number, required: true, default: 0 },
     shipping: { type: Number, required: true, default: 0 },
+    shippingService: { type: String, enum: SHIPPING_SERVICES as unknown as string[], default: null },
+    shippingZone: { type: String, default: null },
+    discount: { type: Number, default: 0 },
+    discountCode: { type: String, default: null },
+    promotionId: { type: Schema.Types.ObjectId, ref: 'Promotion', default: null },
+    subscriptionId: { type: Schema.Types.ObjectId, ref: 'Subscription', default: null, index: true },
     total: { type: Number, required: true, default: 0 },
+    vat: { type: Number, default: 0 },
+    vatBreakdown: { type: [VatBreakdownSchema], default: undefined },
+    giftCardAmount: { type: Number, default: 0 },
+    giftCardCode: { type: String, default: null },
+    giftCardId: { type: Schema.Types.ObjectId, ref: 'GiftCard', default: null },
 
     currency: { type: String, default: 'gbp' },
 
     // include 'processing' in enum
     status: {
       type: String,
-      enum: ['pending', 'processing', 'paid', 'shipped', 'failed', 'cancelled', 'refunded'],
+      enum: ['pending', 'processing', 'paid', 'shipped', 'failed', 'cancelled', 'refunded', 'partially_refunded', 'disputed'],
       default: 'pending',
       index: true,
     },
@@ -162,6 +235,7 @@ const OrderSchema = new Schema<IOrder>(
     paidAt: { type: Date, default: null },
 
     shipment: { type: ShipmentSchema, default: null },
+    dispute: { type: DisputeSchema, default: null },
   },
   { timestamps: true }
 );
@@ -174,5 +248,11 @@ OrderSchema.index({ paymentIntentId: 1 }, { unique: true, sparse: true });
 // Sparse so it only applies when metadata.webhookEventId is present.
 OrderSchema.index({ 'metadata.webhookEventId': 1 }, { unique: true, sparse: true });
 
+// Dispute webhooks look orders up by dispute id
+OrderSchema.index({ 'dispute.disputeId': 1 }, { sparse: true });
+
+// Order history on customer accounts
+OrderSchema.index({ 'client.email': 1, createdAt: -1 });
+
 const Order: Model<IOrder> = (mongoose.models.Order as Model<IOrder>) || mongoose.model<IOrder>('Order', OrderSchema);
 export default Order;
\ No newline at end of file
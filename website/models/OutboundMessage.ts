@@ -0,0 +1,123 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// pending: waiting for its next attempt; dead: out of attempts (or can't be sent), needs an admin
+export const OUTBOUND_MESSAGE_STATUSES = ['pending', 'sending', 'sent', 'dead', 'cancelled'] as const;
+export type OutboundMessageStatus = (typeof OUTBOUND_MESSAGE_STATUSES)[number];
+
+export interface IOutboundAddress {
+  email: string;
+  name?: string | null;
+}
+
+export interface IOutboundAttachment {
+  name: string;
+  content: string; // base64
+}
+
+export interface IOutboundAttempt {
+  at: Date;
+  transport: string;
+  ok: boolean;
+  error?: string | null;
+  durationMs?: number | null;
+}
+
+export interface IOutboundMessage extends Document {
+  kind: string; // what the email is, e.g. shipment, refund, invoice, admin_order
+  audience: 'customer' | 'admin';
+  from: IOutboundAddress;
+  to: IOutboundAddress[];
+  replyTo?: IOutboundAddress | null;
+  subject: string;
+  html: string;
+  text?: string | null;
+  attachments: IOutboundAttachment[];
+  headers?: Record<string, string> | null;
+  // sign-in links and codes: the body is blanked once delivered
+  redactAfterSend?: boolean;
+  // the record the email is about, e.g. Order / Invoice / Booking
+  relatedType?: string | null;
+  relatedId?: string | null;
+  dedupeKey?: string | null;
+  status: OutboundMessageStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: Date | null;
+  lockedUntil?: Date | null;
+  lastError?: string | null;
+  sentAt?: Date | null;
+  providerMessageId?: string | null;
+  history: IOutboundAttempt[];
+  resentBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const AddressSchema = new Schema<IOutboundAddress>(
+  {
+    email: { type: String, required: true, trim: true },
+    name: { type: String, default: null },
+  },
+  { _id: false }
+);
+
+const AttachmentSchema = new Schema<IOutboundAttachment>(
+  {
+    name: { type: String, required: true },
+    content: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const AttemptSchema = new Schema<IOutboundAttempt>(
+  {
+    at: { type: Date, default: Date.now },
+    transport: { type: String, required: true },
+    ok: { type: Boolean, required: true },
+    error: { type: String, default: null },
+    durationMs: { type: Number, default: null },
+  },
+  { _id: false }
+);
+
+const OutboundMessageSchema = new Schema<IOutboundMessage>(
+  {
+    kind: { type: String, required: true, index: true },
+    audience: { type: String, enum: ['customer', 'admin'], default: 'customer' },
+    from: { type: AddressSchema, required: true },
+    to: { type: [AddressSchema], required: true },
+    replyTo: { type: AddressSchema, default: null },
+    subject: { type: String, required: true },
+    html: { type: String, required: true },
+    text: { type: String, default: null },
+    attachments: { type: [AttachmentSchema], default: [] },
+    headers: { type: Schema.Types.Mixed, default: null },
+    redactAfterSend: { type: Boolean, default: false },
+    relatedType: { type: String, default: null },
+    relatedId: { type: String, default: null },
+    dedupeKey: { type: String, default: null },
+    status: { type: String, enum: OUTBOUND_MESSAGE_STATUSES as unknown as string[], default: 'pending', index: true },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 8 },
+    nextAttemptAt: { type: Date, default: Date.now },
+    lockedUntil: { type: Date, default: null },
+    lastError: { type: String, default: null },
+    sentAt: { type: Date, default: null },
+    providerMessageId: { type: String, default: null },
+    history: { type: [AttemptSchema], default: [] },
+    resentBy: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+// The worker's query: due messages, oldest first
+OutboundMessageSchema.index({ status: 1, nextAttemptAt: 1 });
+OutboundMessageSchema.index({ relatedType: 1, relatedId: 1 });
+// Lets callers enqueue the same email twice (e.g. a retried webhook) without sending it twice
+OutboundMessageSchema.index({ dedupeKey: 1 }, { unique: true, partialFilterExpression: { dedupeKey: { $type: 'string' } } });
+
+const OutboundMessage: Model<IOutboundMessage> =
+  (mongoose.models.OutboundMessage as Model<IOutboundMessage>) ||
+  mongoose.model<IOutboundMessage>('OutboundMessage', OutboundMessageSchema);
+
+export default OutboundMessage;
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * One-time password reset link for an admin account. Only a hash of the token
+ * is stored; the token itself only ever appears in the email.
+ */
+export interface IPasswordResetToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  requestIp?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PasswordResetTokenSchema = new Schema<IPasswordResetToken>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null },
+    requestIp: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+// Mongo removes links a day after they expire; recent ones are kept for rate limiting
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+const PasswordResetToken: Model<IPasswordResetToken> =
+  (mongoose.models.PasswordResetToken as Model<IPasswordResetToken>) ||
+  mongoose.model<IPasswordResetToken>('PasswordResetToken', PasswordResetTokenSchema);
+
+export default PasswordResetToken;
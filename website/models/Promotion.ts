@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type PromotionType = 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
+
+export interface IPromotionScope {
+  productIds: string[]; // Coffee or Equipment ids/slugs
+  variantIds: string[]; // CoffeeVariant ids
+  categories: string[]; // Equipment categories, or 'coffee' for any coffee line
+}
+
+export interface IPromotion extends Document {
+  name: string;
+  description?: string;
+  // Customer-facing code; promotions without a code are never applied (no automatic promos yet)
+  code: string;
+  type: PromotionType;
+  // percentage: 0-100, fixed_amount: pence, free_shipping/buy_x_get_y: unused
+  value: number;
+  // buy_x_get_y: for every `buyQuantity` eligible units, `getQuantity` cheapest units are discounted by `getDiscountPercent`
+  buyQuantity?: number;
+  getQuantity?: number;
+  getDiscountPercent?: number;
+  scope: IPromotionScope;
+  minSubtotalPence: number;
+  usageLimit?: number | null; // total redemptions allowed (null = unlimited)
+  usageCount: number;
+  perCustomerLimit?: number | null; // redemptions per customer email (null = unlimited)
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  active: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ScopeSchema = new Schema<IPromotionScope>(
+  {
+    productIds: { type: [String], default: [] },
+    variantIds: { type: [String], default: [] },
+    categories: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+const PromotionSchema = new Schema<IPromotion>(
+  {
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+    code: { type: String, required: true, trim: true, uppercase: true },
+    type: {
+      type: String,
+      enum: ['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y'],
+      required: true,
+    },
+    value: { type: Number, default: 0, min: 0 },
+    buyQuantity: { type: Number, min: 1 },
+    getQuantity: { type: Number, min: 1 },
+    getDiscountPercent: { type: Number, min: 0, max: 100, default: 100 },
+    scope: { type: ScopeSchema, default: () => ({}) },
+    minSubtotalPence: { type: Number, default: 0, min: 0 },
+    usageLimit: { type: Number, default: null },
+    usageCount: { type: Number, default: 0, min: 0 },
+    perCustomerLimit: { type: Number, default: null },
+    startsAt: { type: Date, default: null },
+    endsAt: { type: Date, default: null },
+    active: { type: Boolean, default: true, index: true },
+  },
+  { timestamps: true }
+);
+
+PromotionSchema.index({ code: 1 }, { unique: true, name: 'unique_promotion_code' });
+
+const Promotion: Model<IPromotion> =
+  (mongoose.models.Promotion as Model<IPromotion>) ||
+  mongoose.model<IPromotion>('Promotion', PromotionSchema);
+
+export default Promotion;
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IPromotionRedemption extends Document {
+  promotionId: mongoose.Types.ObjectId;
+  code: string;
+  email?: string | null;
+  orderId?: mongoose.Types.ObjectId | null;
+  paymentIntentId: string;
+  discountPence: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const PromotionRedemptionSchema = new Schema<IPromotionRedemption>(
+  {
+    promotionId: { type: Schema.Types.ObjectId, ref: 'Promotion', required: true, index: true },
+    code: { type: String, required: true, uppercase: true, trim: true },
+    email: { type: String, lowercase: true, trim: true, default: null },
+    orderId: { type: Schema.Types.ObjectId, ref: 'Order', default: null },
+    paymentIntentId: { type: String, required: true },
+    discountPence: { type: Number, required: true, min: 0 },
+  },
+  { timestamps: true }
+);
+
+// One redemption per promotion per PaymentIntent (webhook retries must not double count)
+PromotionRedemptionSchema.index({ promotionId: 1, paymentIntentId: 1 }, { unique: true });
+// Per-customer usage lookups
+PromotionRedemptionSchema.index({ promotionId: 1, email: 1 });
+
+const PromotionRedemption: Model<IPromotionRedemption> =
+  (mongoose.models.PromotionRedemption as Model<IPromotionRedemption>) ||
+  mongoose.model<IPromotionRedemption>('PromotionRedemption', PromotionRedemptionSchema);
+
+export default PromotionRedemption;
@@ -1,4 +1,37 @@
-import mongoose from 'mongoose';
+import mongoose, { Model } from 'mongoose';
+
+export type ReservationSource = 'variant' | 'coffee' | 'equipment';
+export type ReservationStatus = 'reserved' | 'consumed' | 'released';
+
+export interface IReservationItem {
+  id: string; // product document _id (equipment slugs are resolved before reserving)
+  qty: number;
+  source: ReservationSource;
+}
+
+export interface IReservationStockChange extends IReservationItem {
+  before?: number;
+  after?: number;
+}
+
+/**
+ * Stock held for a checkout between PaymentIntent creation and payment.
+ * Holds don't touch product stock: available = stock - active holds. A hold is
+ * active while `reserved` and before expiresAt; after that the release-stale-
+ * reservations job marks it released, and released holds are removed a week
+ * later. Consumed holds drop expiresAt so they stay as a record of the stock taken.
+ */
+export interface IReservation extends mongoose.Document {
+  paymentIntentId?: string | null;
+  items: IReservationItem[];
+  stockChanges: IReservationStockChange[];
+  status: ReservationStatus;
+  expiresAt?: Date | null;
+  releasedReason?: string | null;
+  consumedAt?: Date | null;
+  releasedAt?: Date | null;
+  createdAt: Date;
+}
 
 const StockChangeSchema = new mongoose.Schema(
   {
@@ -20,14 +53,25 @@ const ItemSchema = new mongoose.Schema(
   { _id: false }
 );
 
-const ReservationSchema = new mongoose.Schema({
+const ReservationSchema = new mongoose.Schema<IReservation>({
   paymentIntentId: { type: String, index: true, sparse: true },
   items: { type: [ItemSchema], required: true },
   stockChanges: { type: [StockChangeSchema], default: [] },
   status: { type: String, enum: ['reserved', 'consumed', 'released'], default: 'reserved' },
-  expiresAt: { type: Date, index: { expireAfterSeconds: 0 } }, // TTL
+  expiresAt: { type: Date },
+  releasedReason: { type: String, default: null },
+  consumedAt: { type: Date, default: null },
+  releasedAt: { type: Date, default: null },
   createdAt: { type: Date, default: Date.now },
 });
 
-export default (mongoose.models.Reservation as mongoose.Model<unknown>) ||
-  mongoose.model('Reservation', ReservationSchema);
\ No newline at end of file
+// Summing active holds per product
+ReservationSchema.index({ 'items.id': 1, status: 1, expiresAt: 1 });
+// Finding holds that ran out
+ReservationSchema.index({ status: 1, expiresAt: 1 });
+// Released holds are kept for a week. This replaced a TTL index on expiresAt, which
+// older databases still have until dropLegacyReservationTtlIndex (lib/stockReservations) runs.
+ReservationSchema.index({ releasedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export default (mongoose.models.Reservation as Model<IReservation>) ||
+  mongoose.model<IReservation>('Reservation', ReservationSchema);
@@ -0,0 +1,113 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const RETURN_REASONS = [
+  'damaged',
+  'faulty',
+  'wrong_item',
+  'not_as_described',
+  'changed_mind',
+  'other',
+] as const;
+export type ReturnReason = (typeof RETURN_REASONS)[number];
+
+// requested -> approved -> received -> completed; requested can be rejected,
+// and anything before completion can be cancelled
+export const RETURN_STATUSES = ['requested', 'approved', 'rejected', 'received', 'completed', 'cancelled'] as const;
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export interface IReturnLine {
+  lineIndex: number; // position of the line in order.items
+  itemId: string;
+  name: string;
+  source?: string | null;
+  qty: number;
+  unitPrice: number; // GBP, copied from the order line
+  reason: ReturnReason;
+  note?: string | null;
+  restocked?: boolean;
+}
+
+export interface IReturnEvent {
+  status: ReturnStatus;
+  at: Date;
+  by: string; // "customer" or the admin's email
+  note?: string | null;
+}
+
+export interface IReturnRequest extends Document {
+  rmaNumber: string; // e.g. "RMA-7KQ2M9"
+  orderId: mongoose.Types.ObjectId;
+  email: string;
+  name?: string | null;
+  status: ReturnStatus;
+  openedBy: 'customer' | 'admin';
+  lines: IReturnLine[];
+  customerNote?: string | null;
+  adminNote?: string | null;
+  history: IReturnEvent[];
+  approvedAt?: Date | null;
+  receivedAt?: Date | null;
+  completedAt?: Date | null;
+  // Linked refund, recorded when the return is completed (GBP)
+  refundAmount?: number | null;
+  refundId?: string | null;
+  refundMethod?: 'card' | 'store_credit' | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ReturnLineSchema = new Schema<IReturnLine>(
+  {
+    lineIndex: { type: Number, required: true, min: 0 },
+    itemId: { type: String, required: true },
+    name: { type: String, required: true },
+    source: { type: String, default: null },
+    qty: { type: Number, required: true, min: 1 },
+    unitPrice: { type: Number, required: true, min: 0 },
+    reason: { type: String, enum: RETURN_REASONS as unknown as string[], required: true },
+    note: { type: String, trim: true, default: null },
+    restocked: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const ReturnEventSchema = new Schema<IReturnEvent>(
+  {
+    status: { type: String, enum: RETURN_STATUSES as unknown as string[], required: true },
+    at: { type: Date, default: Date.now },
+    by: { type: String, required: true },
+    note: { type: String, trim: true, default: null },
+  },
+  { _id: false }
+);
+
+const ReturnRequestSchema = new Schema<IReturnRequest>(
+  {
+    rmaNumber: { type: String, required: true, trim: true, uppercase: true },
+    orderId: { type: Schema.Types.ObjectId, ref: 'Order', required: true, index: true },
+    email: { type: String, required: true, lowercase: true, trim: true, index: true },
+    name: { type: String, trim: true, default: null },
+    status: { type: String, enum: RETURN_STATUSES as unknown as string[], default: 'requested', index: true },
+    openedBy: { type: String, enum: ['customer', 'admin'], required: true },
+    lines: { type: [ReturnLineSchema], required: true },
+    customerNote: { type: String, trim: true, default: null },
+    adminNote: { type: String, trim: true, default: null },
+    history: { type: [ReturnEventSchema], default: [] },
+    approvedAt: { type: Date, default: null },
+    receivedAt: { type: Date, default: null },
+    completedAt: { type: Date, default: null },
+    refundAmount: { type: Number, default: null },
+    refundId: { type: String, default: null },
+    refundMethod: { type: String, enum: ['card', 'store_credit', null], default: null },
+  },
+  { timestamps: true }
+);
+
+ReturnRequestSchema.index({ rmaNumber: 1 }, { unique: true, name: 'unique_rma_number' });
+ReturnRequestSchema.index({ status: 1, createdAt: -1 });
+
+const ReturnRequest: Model<IReturnRequest> =
+  (mongoose.models.ReturnRequest as Model<IReturnRequest>) ||
+  mongoose.model<IReturnRequest>('ReturnRequest', ReturnRequestSchema);
+
+export default ReturnRequest;
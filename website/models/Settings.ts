@@ -1,18 +1,53 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { SHIPPING_SERVICES, type ShippingZone } from '@/lib/shipping';
 
 export interface ISettings extends Document {
   deliveryPricePence: number; // shipping cost in pence
   freeDeliveryThresholdPence: number; // free delivery threshold in pence
   freeDeliveryEnabled: boolean;
+  // zone/weight rate tables; when empty the flat price above is used
+  shippingZones: ShippingZone[];
+  // Manual invoice reminders: days relative to the due date (-3 = three days before)
+  invoiceRemindersEnabled: boolean;
+  invoiceReminderOffsets: number[];
+  // Customer self-service on class bookings: cancelling or moving closes this many
+  // hours before the session, and a cancellation refunds this share of the price
+  bookingChangeCutoffHours: number;
+  bookingCancelRefundPercent: number;
   updatedAt?: Date;
   createdAt?: Date;
 }
 
+const ShippingRateSchema = new Schema(
+  {
+    service: { type: String, enum: SHIPPING_SERVICES as unknown as string[], required: true },
+    maxWeightGrams: { type: Number, default: null, min: 0 },
+    minSubtotalPence: { type: Number, default: 0, min: 0 },
+    pricePence: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const ShippingZoneSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    countries: { type: [String], default: ['GB'] },
+    postcodePrefixes: { type: [String], default: [] },
+    rates: { type: [ShippingRateSchema], default: [] },
+  },
+  { _id: false }
+);
+
 const SettingsSchema = new Schema<ISettings>(
   {
     deliveryPricePence: { type: Number, required: true, default: 499 },
     freeDeliveryThresholdPence: { type: Number, required: true, default: 3000 },
     freeDeliveryEnabled: { type: Boolean, required: true, default: true },
+    shippingZones: { type: [ShippingZoneSchema], default: [] },
+    invoiceRemindersEnabled: { type: Boolean, default: true },
+    invoiceReminderOffsets: { type: [Number], default: [-3, 0, 7, 14, 30] },
+    bookingChangeCutoffHours: { type: Number, default: 48, min: 0 },
+    bookingCancelRefundPercent: { type: Number, default: 100, min: 0, max: 100 },
   },
   {
     timestamps: true,
@@ -24,4 +59,4 @@ const Settings: Model<ISettings> =
   (mongoose.models.Settings as Model<ISettings>) ||
   mongoose.model<ISettings>('Settings', SettingsSchema);
 
-export default Settings;
\ No newline at end of file
+export default Settings;
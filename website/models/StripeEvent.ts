@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// pending: stored, not handled yet; ignored: a type we don't act on
+export const STRIPE_EVENT_STATUSES = ['pending', 'processing', 'processed', 'failed', 'ignored'] as const;
+export type StripeEventStatus = (typeof STRIPE_EVENT_STATUSES)[number];
+
+export const STRIPE_EVENT_SOURCES = ['webhook', 'replay', 'backfill'] as const;
+export type StripeEventSource = (typeof STRIPE_EVENT_SOURCES)[number];
+
+export interface IStripeEventAttempt {
+  at: Date;
+  source: StripeEventSource;
+  by?: string | null; // admin who replayed it
+  status: StripeEventStatus;
+  httpStatus?: number | null;
+  error?: string | null;
+  durationMs?: number | null;
+}
+
+export interface IStripeEvent extends Document {
+  eventId: string; // evt_...
+  type: string;
+  livemode: boolean;
+  apiVersion?: string | null;
+  stripeCreatedAt?: Date | null;
+  // id of data.object (pi_..., ch_..., re_...) and the PaymentIntent it belongs to
+  objectId?: string | null;
+  paymentIntentId?: string | null;
+  payload: Record<string, unknown>; // the verified event as Stripe sent it
+  receivedVia: StripeEventSource;
+  status: StripeEventStatus;
+  attempts: number;
+  lastError?: string | null;
+  lastAttemptAt?: Date | null;
+  processedAt?: Date | null;
+  history: IStripeEventAttempt[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const StripeEventAttemptSchema = new Schema<IStripeEventAttempt>(
+  {
+    at: { type: Date, default: Date.now },
+    source: { type: String, enum: STRIPE_EVENT_SOURCES as unknown as string[], required: true },
+    by: { type: String, default: null },
+    status: { type: String, enum: STRIPE_EVENT_STATUSES as unknown as string[], required: true },
+    httpStatus: { type: Number, default: null },
+    error: { type: String, default: null },
+    durationMs: { type: Number, default: null },
+  },
+  { _id: false }
+);
+
+const StripeEventSchema = new Schema<IStripeEvent>(
+  {
+    eventId: { type: String, required: true, trim: true },
+    type: { type: String, required: true, index: true },
+    livemode: { type: Boolean, default: false },
+    apiVersion: { type: String, default: null },
+    stripeCreatedAt: { type: Date, default: null },
+    objectId: { type: String, default: null },
+    paymentIntentId: { type: String, default: null, index: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    receivedVia: { type: String, enum: STRIPE_EVENT_SOURCES as unknown as string[], default: 'webhook' },
+    status: { type: String, enum: STRIPE_EVENT_STATUSES as unknown as string[], default: 'pending', index: true },
+    attempts: { type: Number, default: 0 },
+    lastError: { type: String, default: null },
+    lastAttemptAt: { type: Date, default: null },
+    processedAt: { type: Date, default: null },
+    history: { type: [StripeEventAttemptSchema], default: [] },
+  },
+  { timestamps: true, minimize: false }
+);
+
+StripeEventSchema.index({ eventId: 1 }, { unique: true, name: 'unique_stripe_event_id' });
+StripeEventSchema.index({ status: 1, createdAt: -1 });
+
+const StripeEvent: Model<IStripeEvent> =
+  (mongoose.models.StripeEvent as Model<IStripeEvent>) ||
+  mongoose.model<IStripeEvent>('StripeEvent', StripeEventSchema);
+
+export default StripeEvent;
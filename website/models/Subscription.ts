@@ -0,0 +1,143 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type SubscriptionCadence = 'weekly' | 'fortnightly' | 'monthly';
+
+export type SubscriptionStatus = 'active' | 'paused' | 'past_due' | 'cancelled';
+
+export interface ISubscriptionAddress {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  unit?: string;
+  line1?: string;
+  city?: string;
+  postcode?: string;
+  country?: string;
+}
+
+export interface ISubscription extends Document {
+  email: string;
+  name?: string | null;
+  phone?: string | null;
+  clientId?: mongoose.Types.ObjectId | null;
+
+  // Saved card from the first checkout, charged off-session on each renewal
+  stripeCustomerId: string;
+  stripePaymentMethodId: string;
+
+  variantId: mongoose.Types.ObjectId;
+  coffeeId?: mongoose.Types.ObjectId | null;
+  productName: string;
+  size?: string;
+  grind?: string;
+  roastType?: string;
+  quantity: number;
+  unitPrice: number; // GBP, refreshed from the variant on each renewal
+
+  cadence: SubscriptionCadence;
+  status: SubscriptionStatus;
+  nextRenewalAt: Date;
+  skipNext: boolean;
+  pausedAt?: Date | null;
+  cancelledAt?: Date | null;
+
+  shippingAddress?: ISubscriptionAddress | null;
+  billingAddress?: ISubscriptionAddress | null;
+
+  // The checkout that started the subscription (unique per line so webhook retries are idempotent)
+  sourcePaymentIntentId: string;
+  sourceOrderId?: mongoose.Types.ObjectId | null;
+
+  renewalCount: number;
+  lastRenewalAt?: Date | null;
+  lastPaymentIntentId?: string | null;
+  lastOrderId?: mongoose.Types.ObjectId | null;
+  failedAttempts: number;
+  lastError?: string | null;
+
+  // Secret for the customer's self-service link
+  manageToken: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const AddressSchema = new Schema<ISubscriptionAddress>(
+  {
+    firstName: String,
+    lastName: String,
+    email: String,
+    phone: String,
+    unit: String,
+    line1: String,
+    city: String,
+    postcode: String,
+    country: String,
+  },
+  { _id: false }
+);
+
+const SubscriptionSchema = new Schema<ISubscription>(
+  {
+    email: { type: String, required: true, lowercase: true, trim: true, index: true },
+    name: { type: String, default: null },
+    phone: { type: String, default: null },
+    clientId: { type: Schema.Types.ObjectId, ref: 'Client', default: null },
+
+    stripeCustomerId: { type: String, required: true },
+    stripePaymentMethodId: { type: String, required: true },
+
+    variantId: { type: Schema.Types.ObjectId, ref: 'CoffeeVariant', required: true },
+    coffeeId: { type: Schema.Types.ObjectId, ref: 'Coffee', default: null },
+    productName: { type: String, required: true },
+    size: { type: String },
+    grind: { type: String },
+    roastType: { type: String },
+    quantity: { type: Number, required: true, min: 1, default: 1 },
+    unitPrice: { type: Number, required: true, min: 0 },
+
+    cadence: { type: String, enum: ['weekly', 'fortnightly', 'monthly'], required: true },
+    status: {
+      type: String,
+      enum: ['active', 'paused', 'past_due', 'cancelled'],
+      default: 'active',
+      index: true,
+    },
+    nextRenewalAt: { type: Date, required: true, index: true },
+    skipNext: { type: Boolean, default: false },
+    pausedAt: { type: Date, default: null },
+    cancelledAt: { type: Date, default: null },
+
+    shippingAddress: { type: AddressSchema, default: null },
+    billingAddress: { type: AddressSchema, default: null },
+
+    sourcePaymentIntentId: { type: String, required: true },
+    sourceOrderId: { type: Schema.Types.ObjectId, ref: 'Order', default: null },
+
+    renewalCount: { type: Number, default: 0 },
+    lastRenewalAt: { type: Date, default: null },
+    lastPaymentIntentId: { type: String, default: null },
+    lastOrderId: { type: Schema.Types.ObjectId, ref: 'Order', default: null },
+    failedAttempts: { type: Number, default: 0 },
+    lastError: { type: String, default: null },
+
+    manageToken: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+// One subscription per checkout line (webhook retries must not create duplicates)
+SubscriptionSchema.index(
+  { sourcePaymentIntentId: 1, variantId: 1, cadence: 1 },
+  { unique: true, name: 'unique_subscription_source' }
+);
+SubscriptionSchema.index({ manageToken: 1 }, { unique: true });
+// Renewal scan
+SubscriptionSchema.index({ status: 1, nextRenewalAt: 1 });
+
+const Subscription: Model<ISubscription> =
+  (mongoose.models.Subscription as Model<ISubscription>) ||
+  mongoose.model<ISubscription>('Subscription', SubscriptionSchema);
+
+export default Subscription;
@@ -1,10 +1,33 @@
 import mongoose from 'mongoose';
+import { ADMIN_ROLES } from '@/lib/permissions';
 
 const UserSchema = new mongoose.Schema({
   username: { type: String, required: true, unique: true },
   password: { type: String, required: true },
+  // Missing on accounts created before roles existed; those are treated as owners
+  role: { type: String, enum: ADMIN_ROLES },
+  // Where password reset links are sent; accounts without one can only be reset by an owner
+  email: { type: String, trim: true, lowercase: true, default: null },
+
+  // Two-factor sign-in (TOTP). Secrets are encrypted with lib/totp.ts.
+  totpSecret: { type: String, default: null },
+  totpPendingSecret: { type: String, default: null }, // set during enrolment until the first code is confirmed
+  totpEnabledAt: { type: Date, default: null },
+  totpLastStep: { type: Number, default: null }, // last time step accepted, so a code can't be replayed
+  recoveryCodes: {
+    type: [{ hash: { type: String, required: true }, usedAt: { type: Date, default: null }, _id: false }],
+    default: [],
+  },
+
+  // Lockout after repeated failed sign-ins
+  failedLoginCount: { type: Number, default: 0 },
+  lockedUntil: { type: Date, default: null },
+  lastLoginAt: { type: Date, default: null },
+  passwordChangedAt: { type: Date, default: null },
 });
 
+UserSchema.index({ email: 1 }, { sparse: true });
+
 const User = mongoose.models.User || mongoose.model('User', UserSchema);
 
-export default User;
\ No newline at end of file
+export default User;
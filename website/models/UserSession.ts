@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * Server-side record of an admin sign-in. The `token` cookie carries the
+ * sessionId as its `sid` claim and lib/auth.ts only accepts tokens whose
+ * record is still live, so revoking a record signs that browser out.
+ */
+export interface IUserSession extends Document {
+  sessionId: string;
+  userId: mongoose.Types.ObjectId;
+  ip?: string | null;
+  userAgent?: string | null;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: string | null; // logout, sign_out_everywhere, password_changed, ...
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserSessionSchema = new Schema<IUserSession>(
+  {
+    sessionId: { type: String, required: true, unique: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    ip: { type: String, default: null },
+    userAgent: { type: String, default: null },
+    lastSeenAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date, default: null },
+    revokedReason: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+// Mongo removes records a week after they expire
+UserSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+const UserSession: Model<IUserSession> =
+  (mongoose.models.UserSession as Model<IUserSession>) ||
+  mongoose.model<IUserSession>('UserSession', UserSessionSchema);
+
+export default UserSession;
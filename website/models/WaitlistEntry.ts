@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const WAITLIST_STATUSES = ['waiting', 'offered', 'claimed', 'expired', 'cancelled'] as const;
+export type WaitlistStatus = (typeof WAITLIST_STATUSES)[number];
+
+/**
+ * A place on the waitlist for a full class session. Entries are served in join
+ * order: when seats come free the next party that fits is offered them, and the
+ * seats are held in ClassSeats until the claim link (offerExpiresAt) runs out.
+ * Only a hash of the claim token is stored.
+ */
+export interface IWaitlistEntry extends Document {
+  courseId: mongoose.Types.ObjectId;
+  sessionId: string;
+  sessionStart?: Date | null;
+  sessionEnd?: Date | null;
+  name: string;
+  email: string;
+  phone?: string | null;
+  partySize: number;
+  status: WaitlistStatus;
+  offerTokenHash?: string | null;
+  offeredAt?: Date | null;
+  offerExpiresAt?: Date | null;
+  claimedAt?: Date | null;
+  bookingId?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistEntrySchema = new Schema<IWaitlistEntry>(
+  {
+    courseId: { type: Schema.Types.ObjectId, ref: 'Course', required: true },
+    sessionId: { type: String, required: true },
+    sessionStart: { type: Date, default: null },
+    sessionEnd: { type: Date, default: null },
+    name: { type: String, required: true, trim: true },
+    email: { type: String, required: true, trim: true, lowercase: true },
+    phone: { type: String, trim: true, default: null },
+    partySize: { type: Number, required: true, min: 1 },
+    status: { type: String, enum: WAITLIST_STATUSES as unknown as string[], default: 'waiting' },
+    offerTokenHash: { type: String, default: null },
+    offeredAt: { type: Date, default: null },
+    offerExpiresAt: { type: Date, default: null },
+    claimedAt: { type: Date, default: null },
+    bookingId: { type: Schema.Types.ObjectId, ref: 'Booking', default: null },
+  },
+  { timestamps: true }
+);
+
+// The queue for a session, oldest first
+WaitlistEntrySchema.index({ courseId: 1, sessionId: 1, status: 1, createdAt: 1 });
+// Claim links
+WaitlistEntrySchema.index(
+  { offerTokenHash: 1 },
+  { unique: true, partialFilterExpression: { offerTokenHash: { $type: 'string' } } }
+);
+// Offers running out, for the waitlist-offers job
+WaitlistEntrySchema.index({ status: 1, offerExpiresAt: 1 });
+
+const WaitlistEntry: Model<IWaitlistEntry> =
+  (mongoose.models.WaitlistEntry as Model<IWaitlistEntry>) ||
+  mongoose.model<IWaitlistEntry>('WaitlistEntry', WaitlistEntrySchema);
+
+export default WaitlistEntry;